@@ -37,6 +37,8 @@ import { NotificationsModule } from '@modules/notifications/notifications.module
 import { BillingModule } from '@modules/billing/billing.module';
 import { AdminModule } from '@modules/admin/admin.module';
 import { WebhooksModule } from '@modules/webhooks/webhooks.module';
+import { ScimModule } from '@modules/scim/scim.module';
+import { BackupModule } from '@modules/backup/backup.module';
 
 // Performance & Security modules
 import { PerformanceModule } from '@modules/performance/performance.module';
@@ -209,6 +211,8 @@ import { CertificatesModule } from './modules/certificates/certificates.module';
     BillingModule,
     AdminModule,
     WebhooksModule,
+    ScimModule,
+    BackupModule,
 
     AssessmentsModule,
     EnrollmentsModule,
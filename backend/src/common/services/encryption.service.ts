@@ -129,6 +129,49 @@ export class EncryptionService {
     return result;
   }
 
+  /**
+   * Generate a data key for encrypting large payloads, e.g. files, outside
+   * this service. Store the wrapped key with the payload and unwrap it with
+   * decryptDataKey using the same context
+   */
+  async generateDataKey(
+    context?: Record<string, string>,
+  ): Promise<{ plaintextKey: Buffer; wrappedKey: string; keyId: string }> {
+    try {
+      const result = await this.kms.generateDataKey({
+        KeyId: this.config.keyId,
+        KeySpec: 'AES_256',
+        EncryptionContext: context,
+      }).promise();
+
+      return {
+        plaintextKey: Buffer.from(result.Plaintext as Uint8Array),
+        wrappedKey: Buffer.from(result.CiphertextBlob as Uint8Array).toString('base64'),
+        keyId: result.KeyId || this.config.keyId,
+      };
+    } catch (error) {
+      this.logger.error('Failed to generate data key:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Unwrap a data key returned by generateDataKey
+   */
+  async decryptDataKey(wrappedKey: string, context?: Record<string, string>): Promise<Buffer> {
+    try {
+      const result = await this.kms.decrypt({
+        CiphertextBlob: Buffer.from(wrappedKey, 'base64'),
+        EncryptionContext: context,
+      }).promise();
+
+      return Buffer.from(result.Plaintext as Uint8Array);
+    } catch (error) {
+      this.logger.error('Failed to decrypt data key:', error);
+      throw new Error('Failed to decrypt data key');
+    }
+  }
+
   /**
    * Rotate encryption keys
    */
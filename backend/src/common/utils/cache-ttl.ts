@@ -0,0 +1,8 @@
+/**
+ * TTL argument for Cache#set that the Redis store honours. cache-manager 5
+ * hands it to the store untouched, and cache-manager-redis-store 3 only reads
+ * `{ ttl }` in seconds, silently using its configured default for anything else
+ */
+export function cacheTtl(ms: number): number {
+  return { ttl: Math.max(Math.ceil(ms / 1000), 1) } as unknown as number;
+}
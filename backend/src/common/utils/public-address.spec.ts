@@ -0,0 +1,40 @@
+import { isPublicAddress, parsePublicHttpUrl, publicAddressLookup } from './public-address';
+
+describe('public-address', () => {
+  it('tells public addresses from private, loopback and link-local ones', () => {
+    expect(isPublicAddress('93.184.216.34')).toBe(true);
+    expect(isPublicAddress('2606:2800:220:1::1')).toBe(true);
+
+    for (const address of [
+      '10.1.2.3',
+      '127.0.0.1',
+      '169.254.169.254',
+      '172.20.0.1',
+      '192.168.1.1',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+      'not-an-address',
+    ]) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+  });
+
+  it('rejects non-http URLs and non-public IP literals', () => {
+    expect(parsePublicHttpUrl('https://cdn.example.com/logo.png').hostname).toBe('cdn.example.com');
+    expect(() => parsePublicHttpUrl('file:///etc/passwd')).toThrow();
+    expect(() => parsePublicHttpUrl('http://169.254.169.254/latest/meta-data')).toThrow();
+    expect(() => parsePublicHttpUrl('http://2130706433/')).toThrow();
+    expect(() => parsePublicHttpUrl('http://[::1]:8080/')).toThrow();
+  });
+
+  it('refuses to connect to hosts resolving to non-public addresses', done => {
+    publicAddressLookup('localhost', {}, error => {
+      expect(error?.message).toBe('localhost does not resolve to a public address');
+      done();
+    });
+  });
+});
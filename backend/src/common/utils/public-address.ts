@@ -0,0 +1,78 @@
+import { lookup as dnsLookup } from 'dns';
+import { BlockList, isIP, LookupFunction } from 'net';
+
+// Special-purpose ranges that are not reachable on the public internet. IPv4
+// rules also match IPv4-mapped IPv6 addresses
+const NON_PUBLIC_ADDRESSES = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+].forEach(([network, prefix]: [string, number]) =>
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4'),
+);
+[
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([network, prefix]: [string, number]) =>
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6'),
+);
+
+/**
+ * Whether an IP address is on the public internet, as opposed to private,
+ * loopback, link-local (cloud metadata) or reserved
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  return !!family && !NON_PUBLIC_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Parse an http(s) URL for a server-side fetch. IP literals are checked here
+ * because connecting to them skips the DNS lookup
+ */
+export function parsePublicHttpUrl(url: string): URL {
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`Unsupported protocol ${parsed.protocol}`);
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && !isPublicAddress(host)) {
+    throw new Error(`${host} is not a public address`);
+  }
+
+  return parsed;
+}
+
+/**
+ * dns.lookup for server-side HTTP clients that refuses hosts resolving to a
+ * non-public address. It runs for the connection itself, so a host cannot
+ * pass a separate check and then rebind to an internal address
+ */
+export const publicAddressLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { family: options.family, all: true }, (error, addresses) => {
+    if (error) return callback(error, undefined);
+
+    if (!addresses.length || addresses.some(({ address }) => !isPublicAddress(address))) {
+      return callback(new Error(`${hostname} does not resolve to a public address`), undefined);
+    }
+
+    if ((options as { all?: boolean }).all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
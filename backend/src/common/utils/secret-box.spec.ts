@@ -0,0 +1,36 @@
+import { deriveSecretKey, openSecret, sealSecret } from './secret-box';
+
+describe('secret-box', () => {
+  const masterSecret = 'test-encryption-key';
+
+  it('opens what it sealed', () => {
+    const sealed = sealSecret('JBSWY3DPEHPK3PXP', masterSecret, 'mfa-secret');
+
+    expect(sealed.split(':')).toHaveLength(3);
+    expect(openSecret(sealed, masterSecret, 'mfa-secret')).toBe('JBSWY3DPEHPK3PXP');
+  });
+
+  it('derives a different key for each purpose', () => {
+    expect(deriveSecretKey(masterSecret, 'mfa-secret')).toHaveLength(32);
+    expect(deriveSecretKey(masterSecret, 'mfa-secret')).not.toEqual(
+      deriveSecretKey(masterSecret, 'mfa-recovery-code'),
+    );
+  });
+
+  it('rejects values sealed for another purpose, with another key or altered', () => {
+    const sealed = sealSecret('client-secret', masterSecret, 'sso-client-secret');
+    const [iv, tag, encrypted] = sealed.split(':');
+    const altered = Buffer.from(encrypted, 'base64');
+    altered[0] ^= 1;
+
+    expect(() => openSecret(sealed, masterSecret, 'mfa-secret')).toThrow();
+    expect(() => openSecret(sealed, 'another-key', 'sso-client-secret')).toThrow();
+    expect(() =>
+      openSecret(
+        [iv, tag, altered.toString('base64')].join(':'),
+        masterSecret,
+        'sso-client-secret',
+      ),
+    ).toThrow();
+  });
+});
@@ -0,0 +1,38 @@
+import * as crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+
+/**
+ * 256-bit key for one purpose, derived from the configured ENCRYPTION_KEY with
+ * HKDF so that no two features share key material
+ */
+export function deriveSecretKey(masterSecret: string, purpose: string): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', masterSecret, '', `secret-box:${purpose}`, 32));
+}
+
+/**
+ * Encrypt a secret for storage as `iv:tag:ciphertext` in base64. The purpose
+ * is also bound as additional authenticated data, so a value sealed for one
+ * purpose cannot be opened as another
+ */
+export function sealSecret(plaintext: string, masterSecret: string, purpose: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, deriveSecretKey(masterSecret, purpose), iv);
+  cipher.setAAD(Buffer.from(purpose));
+  const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+}
+
+/**
+ * Decrypt a value from sealSecret; throws when it was altered or sealed with
+ * another key or purpose
+ */
+export function openSecret(sealed: string, masterSecret: string, purpose: string): string {
+  const [iv, tag, encrypted] = sealed.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv(ALGORITHM, deriveSecretKey(masterSecret, purpose), iv);
+  decipher.setAAD(Buffer.from(purpose));
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,98 @@
+export interface ZonedDate {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+export function parseTimeOfDay(value?: string): number | null {
+  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(value || '');
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/**
+ * Wall-clock date and time of `date` in `timezone` (UTC when unknown)
+ */
+export function zonedParts(date: Date, timezone?: string): ZonedDate {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone || 'UTC',
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    }).formatToParts(date);
+  } catch {
+    return zonedParts(date, 'UTC');
+  }
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const year = value('year');
+  const month = value('month');
+  const day = value('day');
+
+  return {
+    year,
+    month,
+    day,
+    hour: value('hour'),
+    minute: value('minute'),
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+  };
+}
+
+export function addDays(date: ZonedDate, days: number): ZonedDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    ...date,
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    weekday: shifted.getUTCDay(),
+  };
+}
+
+/**
+ * Instant at which the wall clock in `timezone` shows `local`
+ */
+export function zonedTimeToUtc(local: ZonedDate, timezone?: string): Date {
+  const target = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+
+  let guess = target;
+  // Two passes settle the offset around DST changes
+  for (let pass = 0; pass < 2; pass++) {
+    const shown = zonedParts(new Date(guess), timezone);
+    const shownUtc = Date.UTC(shown.year, shown.month - 1, shown.day, shown.hour, shown.minute);
+    guess += target - shownUtc;
+  }
+
+  return new Date(guess);
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Human-readable date and time of `date` in `timezone`, e.g. for emails
+ */
+export function formatInTimezone(date: Date, timezone?: string): string {
+  const zone = timezone && isValidTimezone(timezone) ? timezone : 'UTC';
+  return (
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      dateStyle: 'full',
+      timeStyle: 'short',
+    }).format(date) + ` (${zone})`
+  );
+}
@@ -9,6 +9,9 @@ export const jwtConfig = registerAs('jwt', () => ({
   expiresIn: process.env.JWT_EXPIRES_IN || '15m',
   refreshSecret: process.env.JWT_REFRESH_SECRET || 'your-super-secret-refresh-key-change-in-production',
   refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
+  mfaChallengeSecret:
+    process.env.JWT_MFA_CHALLENGE_SECRET || 'your-super-secret-mfa-challenge-key-change-in-production',
+  mfaChallengeExpiresIn: process.env.JWT_MFA_CHALLENGE_EXPIRES_IN || '5m',
 }));
 
 /**
@@ -19,4 +22,6 @@ export interface JwtConfig {
   expiresIn: string;
   refreshSecret: string;
   refreshExpiresIn: string;
+  mfaChallengeSecret: string;
+  mfaChallengeExpiresIn: string;
 }
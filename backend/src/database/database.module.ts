@@ -6,6 +6,9 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { User } from './entities/user.entity';
 import { Organization } from './entities/organization.entity';
 import { OrganizationMembership } from './entities/organization-membership.entity';
+import { OrganizationSsoConnection } from './entities/organization-sso-connection.entity';
+import { ScimGroup } from './entities/scim-group.entity';
+import { UserSession } from './entities/user-session.entity';
 import { Role } from './entities/role.entity';
 import { Permission } from './entities/permission.entity';
 import { AuditLog } from './entities/audit-log.entity';
@@ -20,6 +23,10 @@ import { AssessmentAttempt } from './entities/assessment-attempt.entity';
 import { Enrollment } from './entities/enrollment.entity';
 import { LessonProgress } from './entities/lesson-progress.entity';
 import { Certificate } from './entities/certificate.entity';
+import { CertificateTemplate } from './entities/certificate-template.entity';
+import { CredentialSigningKey } from './entities/credential-signing-key.entity';
+import { ProctorSession } from './entities/proctor-session.entity';
+import { SecurityViolation } from './entities/security-violation.entity';
 
 // Interview entities
 import { InterviewSession } from './entities/interview-session.entity';
@@ -27,11 +34,16 @@ import { InterviewQuestion } from './entities/interview-question.entity';
 import { InterviewQuestionBank } from './entities/interview-question-bank.entity';
 import { InterviewResponse } from './entities/interview-response.entity';
 import { AiMockInterview } from './entities/ai-mock-interview.entity';
+import { ScorecardTemplate } from './entities/scorecard-template.entity';
+import { InterviewScorecard } from './entities/interview-scorecard.entity';
+import { InterviewBookingLink } from './entities/interview-booking-link.entity';
+import { CalendarFeed } from './entities/calendar-feed.entity';
 
 // Resume entities
 import { ResumeTemplate } from './entities/resume-template.entity';
 import { UserResume } from './entities/user-resume.entity';
 import { ResumeSection } from './entities/resume-section.entity';
+import { ResumeExportSchedule } from './entities/resume-export-schedule.entity';
 import { SkillCategory } from './entities/skill-category.entity';
 import { Skill } from './entities/skill.entity';
 import { UserSkill } from './entities/user-skill.entity';
@@ -39,6 +51,7 @@ import { UserSkill } from './entities/user-skill.entity';
 // HR entities
 import { Job } from './entities/job.entity';
 import { JobApplication } from './entities/job-application.entity';
+import { HiringPipeline } from './entities/hiring-pipeline.entity';
 import { HRProfile } from './entities/hr-profile.entity';
 import { Team } from './entities/team.entity';
 import { TeamMember } from './entities/team-member.entity';
@@ -47,16 +60,20 @@ import { TeamMember } from './entities/team-member.entity';
 import { Notification } from './entities/notification.entity';
 import { NotificationTemplate } from './entities/notification-template.entity';
 import { UserNotificationPreferences } from './entities/user-notification-preferences.entity';
+import { UserDevice } from './entities/user-device.entity';
 
 // Billing entities
 import { Plan } from './entities/plan.entity';
 import { Subscription } from './entities/subscription.entity';
 import { Invoice } from './entities/invoice.entity';
 import { Payment } from './entities/payment.entity';
+import { CourseOrder } from './entities/course-order.entity';
+import { CourseCoupon } from './entities/course-coupon.entity';
 
 // Admin & Analytics entities
 import { AnalyticsEvent } from './entities/analytics-event.entity';
 import { SystemConfig } from './entities/system-config.entity';
+import { DatabaseBackup } from './entities/database-backup.entity';
 import { Report } from './entities/report.entity';
 import { DataExport } from './entities/data-export.entity';
 
@@ -78,6 +95,9 @@ import { Integration } from './entities/integration.entity';
       User,
       Organization,
       OrganizationMembership,
+      OrganizationSsoConnection,
+      ScimGroup,
+      UserSession,
       Role,
       Permission,
       AuditLog,
@@ -92,6 +112,10 @@ import { Integration } from './entities/integration.entity';
       Enrollment,
       LessonProgress,
       Certificate,
+      CertificateTemplate,
+      CredentialSigningKey,
+      ProctorSession,
+      SecurityViolation,
       
       // Interview entities
       InterviewSession,
@@ -99,11 +123,16 @@ import { Integration } from './entities/integration.entity';
       InterviewQuestionBank,
       InterviewResponse,
       AiMockInterview,
+      ScorecardTemplate,
+      InterviewScorecard,
+      InterviewBookingLink,
+      CalendarFeed,
       
       // Resume entities
       ResumeTemplate,
       UserResume,
       ResumeSection,
+      ResumeExportSchedule,
       SkillCategory,
       Skill,
       UserSkill,
@@ -111,6 +140,7 @@ import { Integration } from './entities/integration.entity';
       // HR entities
       Job,
       JobApplication,
+      HiringPipeline,
       HRProfile,
       Team,
       TeamMember,
@@ -119,18 +149,22 @@ import { Integration } from './entities/integration.entity';
       Notification,
       NotificationTemplate,
       UserNotificationPreferences,
+      UserDevice,
       
       // Billing entities
       Plan,
       Subscription,
       Invoice,
       Payment,
+      CourseOrder,
+      CourseCoupon,
       
       // Admin & Analytics entities
       AnalyticsEvent,
       SystemConfig,
       Report,
       DataExport,
+      DatabaseBackup,
       
       // Webhooks & Integrations entities
       WebhookEndpoint,
@@ -12,6 +12,8 @@ import {
 import { ApiProperty } from '@nestjs/swagger';
 import { User } from '../entities/user.entity';
 import { InterviewDifficulty } from './interview-question-bank.entity';
+import { QuestionType } from './interview-question.entity';
+import { InterviewType } from './interview-session.entity';
 import { InterviewResponse } from './interview-response.entity';
 
 export enum AiInterviewStatus {
@@ -62,6 +64,15 @@ export class AiMockInterview {
   @Column({ name: 'companyName', nullable: true })
   companyName?: string;
 
+  @ApiProperty({ enum: InterviewType, description: 'Interview type, selects the AI prompt templates' })
+  @Column({
+    name: 'interviewType',
+    type: 'enum',
+    enum: InterviewType,
+    default: InterviewType.TECHNICAL,
+  })
+  interviewType: InterviewType;
+
   @ApiProperty({ enum: InterviewDifficulty, description: 'Interview difficulty level' })
   @Column({
     name: 'difficulty',
@@ -113,6 +124,17 @@ export class AiMockInterview {
     customInstructions?: string;
   };
 
+  @ApiProperty({ description: 'Questions planned for the interview' })
+  @Column({ name: 'questions', type: 'jsonb', default: [] })
+  questions: Array<{
+    text: string;
+    type: QuestionType;
+    difficulty: InterviewDifficulty;
+    skillCategory?: string;
+    expectedAnswer?: string;
+    followUpQuestions?: string[];
+  }>;
+
   @ApiProperty({ description: 'Interview transcript' })
   @Column({ name: 'transcript', type: 'jsonb', default: {} })
   transcript: {
@@ -156,6 +178,16 @@ export class AiMockInterview {
     fillerWordCount?: number;
     confidenceLevel?: number;
     engagementScore?: number;
+    // Speech analytics, aggregated over the analyzed audio answers
+    analyzedAnswers?: number;
+    totalAudioDuration?: number;
+    transcribedDuration?: number;
+    totalWords?: number;
+    wordsPerMinute?: number;
+    averagePauseDuration?: number;
+    pauseDistribution?: { short: number; medium: number; long: number; extended: number };
+    longSilenceCount?: number;
+    fillerWords?: Record<string, number>;
   };
 
   @ApiProperty({ description: 'Improvement areas identified' })
@@ -191,6 +223,7 @@ export class AiMockInterview {
   analytics: {
     questionsAsked?: number;
     questionsAnswered?: number;
+    followUpsAsked?: number;
     averageQuestionScore?: number;
     timeDistribution?: Record<string, number>;
     emotionalAnalysis?: {
@@ -200,6 +233,19 @@ export class AiMockInterview {
     };
   };
 
+  @ApiProperty({ description: 'AI token usage and cost' })
+  @Column({ name: 'aiUsage', type: 'jsonb', default: {} })
+  aiUsage: {
+    provider?: string;
+    model?: string;
+    calls?: number;
+    promptTokens?: number;
+    completionTokens?: number;
+    totalTokens?: number;
+    costUsd?: number;
+    byOperation?: Record<string, { calls: number; totalTokens: number; costUsd: number }>;
+  };
+
   @ApiProperty({ description: 'Follow-up recommendations' })
   @Column({ name: 'followUpRecommendations', type: 'jsonb', default: {} })
   followUpRecommendations: {
@@ -314,6 +360,35 @@ export class AiMockInterview {
     });
   }
 
+  recordAiUsage(
+    operation: string,
+    provider: string,
+    model: string,
+    usage: { promptTokens: number; completionTokens: number; totalTokens: number; costUsd: number },
+  ): void {
+    const current = this.aiUsage || {};
+    const operationUsage = current.byOperation?.[operation] || { calls: 0, totalTokens: 0, costUsd: 0 };
+
+    this.aiModelVersion = model;
+    this.aiUsage = {
+      provider,
+      model,
+      calls: (current.calls || 0) + 1,
+      promptTokens: (current.promptTokens || 0) + usage.promptTokens,
+      completionTokens: (current.completionTokens || 0) + usage.completionTokens,
+      totalTokens: (current.totalTokens || 0) + usage.totalTokens,
+      costUsd: (current.costUsd || 0) + usage.costUsd,
+      byOperation: {
+        ...current.byOperation,
+        [operation]: {
+          calls: operationUsage.calls + 1,
+          totalTokens: operationUsage.totalTokens + usage.totalTokens,
+          costUsd: operationUsage.costUsd + usage.costUsd,
+        },
+      },
+    };
+  }
+
   updatePerformanceMetrics(metrics: Partial<AiMockInterview['performanceMetrics']>): void {
     this.performanceMetrics = { ...this.performanceMetrics, ...metrics };
   }
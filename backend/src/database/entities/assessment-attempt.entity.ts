@@ -9,7 +9,7 @@ import {
   Index,
 } from 'typeorm';
 import { User } from '../entities/user.entity';
-import { Assessment } from './assessment.entity';
+import { Assessment, AssessmentVariant } from './assessment.entity';
 import { Enrollment } from './enrollment.entity';
 
 /**
@@ -19,11 +19,26 @@ export enum AssessmentAttemptStatus {
   STARTED = 'started',
   IN_PROGRESS = 'in_progress',
   SUBMITTED = 'submitted',
+  PENDING_REVIEW = 'pending_review',
   GRADED = 'graded',
   ABANDONED = 'abandoned',
   EXPIRED = 'expired',
 }
 
+/**
+ * Instructor grade for a manually graded question, stored under
+ * gradingDetails.manual keyed by question ID
+ */
+export interface ManualQuestionGrade {
+  status: 'pending' | 'graded';
+  maxPoints: number;
+  earnedPoints?: number;
+  rubricSelections?: Record<string, string>;
+  comment?: string;
+  gradedBy?: string;
+  gradedAt?: string;
+}
+
 /**
  * Assessment Attempt entity for Learning Management System
  * Tracks individual assessment attempts by users
@@ -104,7 +119,7 @@ export class AssessmentAttempt {
   responses: Record<string, string | string[]>;
 
   @Column({ name: 'questionOrder', type: 'jsonb', default: '{}' })
-  questionOrder: Record<string, number>;
+  questionOrder: Partial<AssessmentVariant>;
 
   @Column({ name: 'gradingDetails', type: 'jsonb', default: '{}' })
   gradingDetails: Record<string, unknown>;
@@ -167,10 +182,15 @@ export class AssessmentAttempt {
   get isSubmitted(): boolean {
     return [
       AssessmentAttemptStatus.SUBMITTED,
+      AssessmentAttemptStatus.PENDING_REVIEW,
       AssessmentAttemptStatus.GRADED,
     ].includes(this.status);
   }
 
+  get isPendingReview(): boolean {
+    return this.status === AssessmentAttemptStatus.PENDING_REVIEW;
+  }
+
   get isGraded(): boolean {
     return this.status === AssessmentAttemptStatus.GRADED;
   }
@@ -271,6 +291,28 @@ export class AssessmentAttempt {
     }
   }
 
+  markPendingReview(): void {
+    this.status = AssessmentAttemptStatus.PENDING_REVIEW;
+  }
+
+  getManualGrades(): Record<string, ManualQuestionGrade> {
+    return (this.gradingDetails?.manual as Record<string, ManualQuestionGrade>) || {};
+  }
+
+  setManualGrade(questionId: string, grade: ManualQuestionGrade): void {
+    this.gradingDetails = {
+      ...this.gradingDetails,
+      manual: {
+        ...this.getManualGrades(),
+        [questionId]: grade,
+      },
+    };
+  }
+
+  hasPendingManualGrades(): boolean {
+    return Object.values(this.getManualGrades()).some(grade => grade.status === 'pending');
+  }
+
   abandon(): void {
     if (this.isActive) {
       this.status = AssessmentAttemptStatus.ABANDONED;
@@ -296,8 +338,16 @@ export class AssessmentAttempt {
     return this.responses[questionId];
   }
 
-  setQuestionOrder(order: Record<string, number>): void {
-    this.questionOrder = order;
+  setQuestionOrder(variant: AssessmentVariant): void {
+    this.questionOrder = variant;
+  }
+
+  /**
+   * IDs of the questions drawn for this attempt, undefined for attempts
+   * that predate stored variants
+   */
+  getQuestionIds(): string[] | undefined {
+    return this.questionOrder?.questionIds;
   }
 
   addTimeSpent(seconds: number): void {
@@ -0,0 +1,224 @@
+import {
+  Assessment,
+  AssessmentQuestion,
+  QuestionDifficulty,
+  QuestionType,
+  ScoreRoundingMode,
+} from './assessment.entity';
+
+describe('Assessment scoring', () => {
+  const buildAssessment = (questions: AssessmentQuestion[]): Assessment => {
+    const assessment = new Assessment();
+    assessment.questions = questions;
+    assessment.passingScore = 50;
+    assessment.updateStatistics();
+    return assessment;
+  };
+
+  const matching: AssessmentQuestion = {
+    id: 'match',
+    type: QuestionType.MATCHING,
+    question: 'Match the capitals',
+    correctAnswer: ['france:paris', 'japan:tokyo', 'peru:lima', 'kenya:nairobi'],
+    points: 8,
+  };
+
+  const ordering: AssessmentQuestion = {
+    id: 'order',
+    type: QuestionType.ORDERING,
+    question: 'Order the phases',
+    correctAnswer: ['plan', 'build', 'test', 'ship'],
+    points: 4,
+  };
+
+  it('keeps questions without a policy all-or-nothing', () => {
+    const assessment = buildAssessment([matching]);
+    const result = assessment.calculateScore({
+      match: ['france:paris', 'japan:tokyo', 'peru:lima', 'kenya:lima'],
+    });
+
+    expect(result.earnedPoints).toBe(0);
+    expect(result.questionResults.match.status).toBe('incorrect');
+  });
+
+  it('awards per-pair credit for matching questions', () => {
+    const assessment = buildAssessment([{ ...matching, scoring: { partialCredit: true } }]);
+    const result = assessment.calculateScore({
+      match: ['kenya:lima', 'japan:tokyo', 'peru:lima', 'france:paris'],
+    });
+
+    expect(result.earnedPoints).toBe(6);
+    expect(result.questionResults.match.status).toBe('partial');
+  });
+
+  it('checks the order of ordering answers', () => {
+    const assessment = buildAssessment([ordering]);
+
+    expect(
+      assessment.calculateScore({ order: ['ship', 'test', 'build', 'plan'] }).earnedPoints,
+    ).toBe(0);
+    expect(
+      assessment.calculateScore({ order: ['plan', 'build', 'test', 'ship'] }).earnedPoints,
+    ).toBe(4);
+  });
+
+  it('awards position-based credit for ordering questions', () => {
+    const assessment = buildAssessment([{ ...ordering, scoring: { partialCredit: true } }]);
+    const result = assessment.calculateScore({ order: ['plan', 'test', 'build', 'ship'] });
+
+    expect(result.earnedPoints).toBe(2);
+  });
+
+  it('does not mutate the stored correct answer', () => {
+    const assessment = buildAssessment([ordering]);
+    assessment.calculateScore({ order: ['ship', 'test', 'build', 'plan'] });
+
+    expect(assessment.questions[0].correctAnswer).toEqual(['plan', 'build', 'test', 'ship']);
+  });
+
+  it('offsets wrong selections in multi-select questions', () => {
+    const assessment = buildAssessment([
+      {
+        id: 'multi',
+        type: QuestionType.MULTIPLE_CHOICE,
+        question: 'Select the primes',
+        options: ['2', '3', '4', '5'],
+        correctAnswer: ['2', '3', '5'],
+        points: 3,
+        scoring: { partialCredit: true },
+      },
+    ]);
+
+    expect(assessment.calculateScore({ multi: ['2', '3'] }).earnedPoints).toBe(2);
+    expect(assessment.calculateScore({ multi: ['2', '3', '4'] }).earnedPoints).toBe(1);
+  });
+
+  it('applies negative marking to wrong answers but not to blanks', () => {
+    const assessment = buildAssessment([
+      {
+        id: 'tf',
+        type: QuestionType.TRUE_FALSE,
+        question: 'The sky is green',
+        correctAnswer: 'false',
+        points: 2,
+        scoring: { negativeMarks: 1, allowNegativeScore: true },
+      },
+      {
+        id: 'sa',
+        type: QuestionType.SHORT_ANSWER,
+        question: 'Capital of Italy',
+        correctAnswer: 'rome',
+        points: 2,
+      },
+    ]);
+
+    const wrong = assessment.calculateScore({ tf: 'true', sa: 'Rome' });
+    expect(wrong.questionResults.tf.earnedPoints).toBe(-1);
+    expect(wrong.earnedPoints).toBe(1);
+
+    const blank = assessment.calculateScore({ sa: 'rome' });
+    expect(blank.questionResults.tf.status).toBe('unanswered');
+    expect(blank.questionResults.tf.earnedPoints).toBe(0);
+  });
+
+  it('rounds earned points using the configured mode', () => {
+    const assessment = buildAssessment([
+      {
+        ...ordering,
+        correctAnswer: ['a', 'b', 'c'],
+        points: 2,
+        scoring: { partialCredit: true, rounding: ScoreRoundingMode.DOWN, roundingPrecision: 0 },
+      },
+    ]);
+
+    expect(assessment.calculateScore({ order: ['a', 'b', 'x'] }).earnedPoints).toBe(1);
+  });
+});
+
+describe('Assessment variants', () => {
+  const bank: AssessmentQuestion[] = [
+    ...['a1', 'a2', 'a3', 'a4'].map(id => ({
+      id,
+      type: QuestionType.MULTIPLE_CHOICE,
+      question: `Easy ${id}`,
+      options: ['w', 'x', 'y', 'z'],
+      correctAnswer: 'x',
+      points: 1,
+      pool: 'A',
+      difficulty: QuestionDifficulty.EASY,
+    })),
+    ...['b1', 'b2', 'b3'].map(id => ({
+      id,
+      type: QuestionType.SHORT_ANSWER,
+      question: `Hard ${id}`,
+      correctAnswer: 'yes',
+      points: 5,
+      pool: 'B',
+      difficulty: QuestionDifficulty.HARD,
+    })),
+  ];
+
+  const buildAssessment = (): Assessment => {
+    const assessment = new Assessment();
+    assessment.questions = bank;
+    assessment.questionPools = [
+      { pool: 'A', count: 3, difficulty: QuestionDifficulty.EASY },
+      { pool: 'B', count: 2 },
+    ];
+    assessment.randomizeQuestions = true;
+    assessment.randomizeOptions = true;
+    assessment.passingScore = 50;
+    assessment.updateStatistics();
+    return assessment;
+  };
+
+  it('draws the configured number of questions from each pool', () => {
+    const variant = buildAssessment().generateVariant('seed-1');
+    const drawn = variant.questionIds.map(id => bank.find(q => q.id === id));
+
+    expect(drawn.filter(q => q.pool === 'A')).toHaveLength(3);
+    expect(drawn.filter(q => q.pool === 'B')).toHaveLength(2);
+    expect(Object.keys(variant.optionOrder).every(id => id.startsWith('a'))).toBe(true);
+  });
+
+  it('reproduces the same paper from the same seed', () => {
+    const assessment = buildAssessment();
+
+    expect(assessment.generateVariant('seed-1')).toEqual(assessment.generateVariant('seed-1'));
+  });
+
+  it('gives students different papers', () => {
+    const assessment = buildAssessment();
+    const papers = new Set(
+      ['s1', 's2', 's3', 's4', 's5'].map(seed => JSON.stringify(assessment.generateVariant(seed))),
+    );
+
+    expect(papers.size).toBeGreaterThan(1);
+  });
+
+  it('presents options in the stored permutation', () => {
+    const assessment = buildAssessment();
+    const variant = assessment.generateVariant('seed-1');
+    const [questionId] = Object.keys(variant.optionOrder);
+    const question = assessment.getVariantQuestions(variant).find(q => q.id === questionId);
+
+    expect(question.options).toEqual(
+      variant.optionOrder[questionId].map(i => ['w', 'x', 'y', 'z'][i]),
+    );
+    expect([...question.options].sort()).toEqual(['w', 'x', 'y', 'z']);
+  });
+
+  it('scores only the questions on the paper', () => {
+    const assessment = buildAssessment();
+    const variant = assessment.generateVariant('seed-1');
+    const responses = Object.fromEntries(
+      variant.questionIds.map(id => [id, id.startsWith('a') ? 'x' : 'yes']),
+    );
+
+    const result = assessment.calculateScore(responses, {}, variant.questionIds);
+
+    expect(result.totalQuestions).toBe(5);
+    expect(result.totalPoints).toBe(13);
+    expect(result.score).toBe(100);
+  });
+});
@@ -9,6 +9,7 @@ import {
   JoinColumn,
   Index,
 } from 'typeorm';
+import * as crypto from 'crypto';
 import { Course } from './course.entity';
 import { Module } from './module.entity';
 import { Lesson } from './lesson.entity';
@@ -50,6 +51,168 @@ export enum QuestionType {
   CODE = 'code',
 }
 
+/**
+ * Question difficulty enumeration, used when drawing from question pools
+ */
+export enum QuestionDifficulty {
+  EASY = 'easy',
+  MEDIUM = 'medium',
+  HARD = 'hard',
+}
+
+/**
+ * Languages supported by the sandboxed code runner
+ */
+export enum CodeLanguage {
+  JAVASCRIPT = 'javascript',
+  PYTHON = 'python',
+}
+
+/**
+ * Test case run against a CODE question submission
+ * Hidden test cases are graded but never shown to students
+ */
+export interface CodeTestCase {
+  id: string;
+  input: string;
+  expectedOutput: string;
+  points?: number;
+  hidden: boolean;
+}
+
+/**
+ * Grading configuration for CODE questions
+ */
+export interface CodeQuestionConfig {
+  language: CodeLanguage;
+  testCases: CodeTestCase[];
+  timeLimitMs?: number;
+  memoryLimitMb?: number;
+  starterCode?: string;
+}
+
+/**
+ * Rounding applied to the points earned on a question
+ */
+export enum ScoreRoundingMode {
+  NONE = 'none',
+  NEAREST = 'nearest',
+  UP = 'up',
+  DOWN = 'down',
+}
+
+/**
+ * Per-question scoring policy
+ * Without one a question is all-or-nothing with no negative marking
+ */
+export interface QuestionScoringPolicy {
+  partialCredit?: boolean;
+  negativeMarks?: number;
+  allowNegativeScore?: boolean;
+  rounding?: ScoreRoundingMode;
+  roundingPrecision?: number;
+}
+
+/**
+ * Performance level within a rubric criterion
+ */
+export interface RubricLevel {
+  id: string;
+  label: string;
+  description?: string;
+  points: number;
+}
+
+/**
+ * Rubric criterion graded by choosing one of its levels
+ */
+export interface RubricCriterion {
+  id: string;
+  title: string;
+  description?: string;
+  levels: RubricLevel[];
+}
+
+/**
+ * Rubric used to grade a question manually
+ */
+export interface QuestionRubric {
+  criteria: RubricCriterion[];
+}
+
+/**
+ * Question definition stored in Assessment.questions
+ */
+export interface AssessmentQuestion {
+  id: string;
+  type: QuestionType;
+  question: string;
+  options?: string[];
+  correctAnswer?: string | string[];
+  points: number;
+  explanation?: string;
+  pool?: string;
+  difficulty?: QuestionDifficulty;
+  scoring?: QuestionScoringPolicy;
+  manualGrading?: boolean;
+  rubric?: QuestionRubric;
+  codeConfig?: CodeQuestionConfig;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Draw rule for building a paper from tagged pools,
+ * e.g. 3 easy questions from pool "A"
+ */
+export interface QuestionPoolRule {
+  pool: string;
+  count: number;
+  difficulty?: QuestionDifficulty;
+}
+
+/**
+ * Question paper of a single attempt, stored in AssessmentAttempt.questionOrder.
+ * Generating a variant again from the same seed reproduces it exactly
+ */
+export interface AssessmentVariant {
+  seed: string;
+  questionIds: string[];
+  // Original option indices in the order they are shown, keyed by question ID
+  optionOrder: Record<string, number[]>;
+}
+
+/**
+ * Question types that can never be auto-graded
+ */
+export const MANUALLY_GRADED_QUESTION_TYPES: QuestionType[] = [
+  QuestionType.LONG_ANSWER,
+  QuestionType.FILE_UPLOAD,
+];
+
+/**
+ * Points awarded to a question by a grader outside the entity
+ * (e.g. the code runner or an instructor), keyed by question ID in calculateScore
+ */
+export interface ExternalQuestionGrade {
+  earnedPoints: number;
+  correct: boolean;
+}
+
+export type QuestionGradeStatus = 'correct' | 'partial' | 'incorrect' | 'unanswered';
+
+/**
+ * Per-question result recorded in AssessmentAttempt.gradingDetails
+ */
+export interface QuestionScoreBreakdown {
+  questionId: string;
+  type: QuestionType;
+  status: QuestionGradeStatus;
+  maxPoints: number;
+  credit: number;
+  penalty: number;
+  earnedPoints: number;
+}
+
 @Entity('assessments')
 @Index(['courseId'])
 @Index(['moduleId'])
@@ -176,16 +339,10 @@ export class Assessment {
   availableUntil?: Date;
 
   @Column({ type: 'jsonb', default: '[]' })
-  questions: Array<{
-    id: string;
-    type: QuestionType;
-    question: string;
-    options?: string[];
-    correctAnswer?: string | string[];
-    points: number;
-    explanation?: string;
-    metadata?: Record<string, unknown>;
-  }>;
+  questions: AssessmentQuestion[];
+
+  @Column({ type: 'jsonb', default: '[]' })
+  questionPools: QuestionPoolRule[];
 
   @Column({ type: 'jsonb', default: '{}' })
   settings: Record<string, unknown>;
@@ -273,29 +430,13 @@ export class Assessment {
     return true;
   }
 
-  addQuestion(question: {
-    type: QuestionType;
-    question: string;
-    options?: string[];
-    correctAnswer?: string | string[];
-    points: number;
-    explanation?: string;
-    metadata?: Record<string, unknown>;
-  }): void {
+  addQuestion(question: Omit<AssessmentQuestion, 'id'>): void {
     const questionId = `q_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     this.questions = [...this.questions, { id: questionId, ...question }];
     this.updateStatistics();
   }
 
-  updateQuestion(questionId: string, updates: Partial<{
-    type: QuestionType;
-    question: string;
-    options?: string[];
-    correctAnswer?: string | string[];
-    points: number;
-    explanation?: string;
-    metadata?: Record<string, unknown>;
-  }>): void {
+  updateQuestion(questionId: string, updates: Partial<Omit<AssessmentQuestion, 'id'>>): void {
     this.questions = this.questions.map(q => (q.id === questionId ? { ...q, ...updates } : q));
     this.updateStatistics();
   }
@@ -309,9 +450,82 @@ export class Assessment {
     return this.questions.find(q => q.id === questionId);
   }
 
-  getRandomizedQuestions() {
-    if (!this.randomizeQuestions) return this.questions;
-    return [...this.questions].sort(() => Math.random() - 0.5);
+  getRandomizedQuestions(seed: string = crypto.randomUUID()) {
+    return this.getVariantQuestions(this.generateVariant(seed));
+  }
+
+  get usesQuestionPools(): boolean {
+    return this.questionPools?.length > 0;
+  }
+
+  /**
+   * Questions that match a pool rule
+   */
+  getPoolQuestions(rule: QuestionPoolRule): AssessmentQuestion[] {
+    return this.questions.filter(
+      q => q.pool === rule.pool && (!rule.difficulty || q.difficulty === rule.difficulty),
+    );
+  }
+
+  /**
+   * Build the question paper for one attempt: draw from the pools, then
+   * shuffle questions and options as configured. Deterministic for a given seed
+   */
+  generateVariant(seed: string): AssessmentVariant {
+    const random = this.createSeededRandom(seed);
+    let selected: AssessmentQuestion[];
+
+    if (this.usesQuestionPools) {
+      const drawn = new Set<string>();
+      for (const rule of this.questionPools) {
+        const candidates = this.getPoolQuestions(rule).filter(q => !drawn.has(q.id));
+        this.shuffle(candidates, random)
+          .slice(0, rule.count)
+          .forEach(q => drawn.add(q.id));
+      }
+      // Keep the authored order unless questions are randomized below
+      selected = this.questions.filter(q => drawn.has(q.id));
+    } else {
+      selected = [...this.questions];
+    }
+
+    if (this.randomizeQuestions) {
+      selected = this.shuffle(selected, random);
+    }
+
+    const optionOrder: Record<string, number[]> = {};
+    if (this.randomizeOptions) {
+      for (const question of selected) {
+        if (question.type === QuestionType.TRUE_FALSE || !(question.options?.length > 1)) continue;
+        optionOrder[question.id] = this.shuffle(
+          question.options.map((_, index) => index),
+          random,
+        );
+      }
+    }
+
+    return {
+      seed,
+      questionIds: selected.map(q => q.id),
+      optionOrder,
+    };
+  }
+
+  /**
+   * Questions as they appear on a stored paper. Attempts without a
+   * variant fall back to every question in authored order
+   */
+  getVariantQuestions(variant?: Partial<AssessmentVariant>): AssessmentQuestion[] {
+    if (!variant?.questionIds) return this.questions;
+
+    return variant.questionIds
+      .map(questionId => this.getQuestion(questionId))
+      .filter(question => !!question)
+      .map(question => {
+        const order = variant.optionOrder?.[question.id];
+        if (!order || !question.options) return question;
+        return { ...question, options: order.map(index => question.options[index]) };
+      });
   }
 
   updateStatistics(): void {
@@ -340,65 +554,210 @@ export class Assessment {
     }
   }
 
-  calculateScore(responses: Record<string, string | string[]>) {
+  calculateScore(
+    responses: Record<string, string | string[]>,
+    externalGrades: Record<string, ExternalQuestionGrade> = {},
+    questionIds?: string[],
+  ) {
+    // Only the questions drawn for the attempt count towards its score
+    const questions = questionIds
+      ? this.questions.filter(q => questionIds.includes(q.id))
+      : this.questions;
+    const totalPoints = questionIds
+      ? questions.reduce((sum, q) => sum + q.points, 0)
+      : this.totalPoints;
+    const questionResults: Record<string, QuestionScoreBreakdown> = {};
     let earnedPoints = 0;
     let correctAnswers = 0;
 
-    for (const question of this.questions) {
-      const userAnswer = responses[question.id];
-      if (this.isAnswerCorrect(question, userAnswer)) {
-        earnedPoints += question.points;
-        correctAnswers += 1;
-      }
+    for (const question of questions) {
+      const result = this.scoreQuestion(question, responses[question.id], externalGrades[question.id]);
+      questionResults[question.id] = result;
+      earnedPoints += result.earnedPoints;
+      if (result.status === 'correct') correctAnswers += 1;
     }
 
-    const score = this.totalPoints > 0 ? (earnedPoints / this.totalPoints) * 100 : 0;
+    // Negative marking can push individual questions below zero, never the attempt
+    earnedPoints = Math.max(0, earnedPoints);
+
+    const score = totalPoints > 0 ? (earnedPoints / totalPoints) * 100 : 0;
     const passed = score >= this.passingScore;
 
     return {
       score: Math.round(score * 100) / 100,
-      totalPoints: this.totalPoints,
+      earnedPoints: Math.round(earnedPoints * 100) / 100,
+      totalPoints,
       correctAnswers,
-      totalQuestions: this.questions.length,
+      totalQuestions: questions.length,
       passed,
+      questionResults,
     };
   }
 
-  private isAnswerCorrect(
-    question: { type: QuestionType; correctAnswer?: string | string[] },
-    userAnswer: string | string[]
-  ): boolean {
-    if (!question.correctAnswer || !userAnswer) return false;
+  /**
+   * Whether a question has to be graded by an instructor
+   */
+  requiresManualGrading(question: AssessmentQuestion): boolean {
+    return question.manualGrading ?? MANUALLY_GRADED_QUESTION_TYPES.includes(question.type);
+  }
+
+  /**
+   * Highest score reachable on a rubric (best level of every criterion)
+   */
+  getRubricMaxPoints(rubric: QuestionRubric): number {
+    return rubric.criteria.reduce(
+      (sum, criterion) => sum + Math.max(0, ...criterion.levels.map(level => level.points)),
+      0,
+    );
+  }
+
+  /**
+   * Score a single question according to its scoring policy
+   */
+  scoreQuestion(
+    question: AssessmentQuestion,
+    userAnswer: string | string[] | undefined,
+    externalGrade?: ExternalQuestionGrade,
+  ): QuestionScoreBreakdown {
+    const policy = question.scoring || {};
+    const answered = this.isAnswered(userAnswer);
+
+    let credit = 0;
+    if (externalGrade) {
+      credit = question.points > 0
+        ? externalGrade.earnedPoints / question.points
+        : externalGrade.correct ? 1 : 0;
+    } else if (answered) {
+      credit = this.getAnswerCredit(question, userAnswer);
+      if (!policy.partialCredit && credit < 1) credit = 0;
+    }
+    credit = Math.min(1, Math.max(0, credit));
+
+    let status: QuestionGradeStatus;
+    if (externalGrade) {
+      status = externalGrade.correct ? 'correct' : credit > 0 ? 'partial' : 'incorrect';
+    } else if (!answered) {
+      status = 'unanswered';
+    } else {
+      status = credit >= 1 ? 'correct' : credit > 0 ? 'partial' : 'incorrect';
+    }
+
+    const penalty = status === 'incorrect' && policy.negativeMarks ? policy.negativeMarks : 0;
+    let points = question.points * credit - penalty;
+    if (!policy.allowNegativeScore) points = Math.max(0, points);
+
+    return {
+      questionId: question.id,
+      type: question.type,
+      status,
+      maxPoints: question.points,
+      credit: Math.round(credit * 10000) / 10000,
+      penalty,
+      earnedPoints: this.roundPoints(points, policy),
+    };
+  }
+
+  /**
+   * Fraction (0-1) of the question answered correctly
+   */
+  private getAnswerCredit(question: AssessmentQuestion, userAnswer: string | string[]): number {
+    if (!question.correctAnswer) return 0;
+    const normalize = (value: unknown): string => String(value).trim().toLowerCase();
+
     switch (question.type) {
       case QuestionType.MULTIPLE_CHOICE:
+        if (Array.isArray(question.correctAnswer)) {
+          // Multi-select: each wrong selection cancels out a right one
+          const correct = new Set(question.correctAnswer.map(normalize));
+          const selected = new Set((Array.isArray(userAnswer) ? userAnswer : [userAnswer]).map(normalize));
+          const hits = [...selected].filter(answer => correct.has(answer)).length;
+          const misses = selected.size - hits;
+          return correct.size > 0 ? Math.max(0, (hits - misses) / correct.size) : 0;
+        }
+        return normalize(question.correctAnswer) === normalize(userAnswer) ? 1 : 0;
       case QuestionType.TRUE_FALSE:
       case QuestionType.SHORT_ANSWER:
-        return (
-          String(question.correctAnswer).toLowerCase() ===
-          String(userAnswer).toLowerCase()
-        );
-      case QuestionType.MATCHING:
-      case QuestionType.ORDERING:
-        if (Array.isArray(question.correctAnswer) && Array.isArray(userAnswer)) {
-          return (
-            JSON.stringify(question.correctAnswer.sort()) ===
-            JSON.stringify(userAnswer.sort())
-          );
-        }
-        return false;
+        return normalize(question.correctAnswer) === normalize(userAnswer) ? 1 : 0;
+      case QuestionType.MATCHING: {
+        // Pairs may be given in any order; each correct pair earns its share
+        if (!Array.isArray(question.correctAnswer) || !Array.isArray(userAnswer)) return 0;
+        const submitted = new Set(userAnswer.map(normalize));
+        const hits = question.correctAnswer.filter(pair => submitted.has(normalize(pair))).length;
+        const extras = Math.max(0, submitted.size - question.correctAnswer.length);
+        return question.correctAnswer.length > 0
+          ? Math.max(0, (hits - extras) / question.correctAnswer.length)
+          : 0;
+      }
+      case QuestionType.ORDERING: {
+        // Credit for every item placed in its correct position
+        if (!Array.isArray(question.correctAnswer) || !Array.isArray(userAnswer)) return 0;
+        const expected = question.correctAnswer;
+        const inPlace = expected.filter(
+          (item, index) => index < userAnswer.length && normalize(item) === normalize(userAnswer[index]),
+        ).length;
+        // Padding the answer with extra items dilutes the credit
+        return expected.length > 0 ? inPlace / Math.max(expected.length, userAnswer.length) : 0;
+      }
       case QuestionType.FILL_IN_BLANK:
         if (Array.isArray(question.correctAnswer)) {
-          return question.correctAnswer.some(
-            answer => String(answer).toLowerCase() === String(userAnswer).toLowerCase()
-          );
+          return question.correctAnswer.some(answer => normalize(answer) === normalize(userAnswer))
+            ? 1
+            : 0;
         }
-        return (
-          String(question.correctAnswer).toLowerCase() ===
-          String(userAnswer).toLowerCase()
-        );
+        return normalize(question.correctAnswer) === normalize(userAnswer) ? 1 : 0;
       default:
-        return false;
+        return 0;
+    }
+  }
+
+  isAnswered(userAnswer: string | string[] | undefined): boolean {
+    if (userAnswer === undefined || userAnswer === null) return false;
+    if (Array.isArray(userAnswer)) return userAnswer.length > 0;
+    return String(userAnswer).trim().length > 0;
+  }
+
+  private roundPoints(points: number, policy: QuestionScoringPolicy): number {
+    const precision = policy.roundingPrecision ?? 2;
+    const factor = Math.pow(10, precision);
+
+    switch (policy.rounding) {
+      case ScoreRoundingMode.UP:
+        return Math.ceil(Math.round(points * factor * 1e6) / 1e6) / factor;
+      case ScoreRoundingMode.DOWN:
+        return Math.floor(Math.round(points * factor * 1e6) / 1e6) / factor;
+      case ScoreRoundingMode.NONE:
+        return points;
+      case ScoreRoundingMode.NEAREST:
+      default:
+        return Math.round(points * factor) / factor;
+    }
+  }
+
+  /**
+   * Deterministic PRNG (mulberry32) seeded from a string hash
+   */
+  private createSeededRandom(seed: string): () => number {
+    let state = crypto.createHash('sha256').update(seed).digest().readUInt32LE(0);
+
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  /**
+   * Fisher-Yates shuffle into a new array
+   */
+  private shuffle<T>(items: T[], random: () => number): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
     }
+    return result;
   }
 
   getMetadata<T = unknown>(key: string, defaultValue?: T): T {
@@ -438,6 +797,7 @@ export class Assessment {
       preventBacktracking: this.preventBacktracking,
       oneQuestionAtTime: this.oneQuestionAtTime,
       questions: JSON.parse(JSON.stringify(this.questions)),
+      questionPools: JSON.parse(JSON.stringify(this.questionPools)),
       settings: JSON.parse(JSON.stringify(this.settings)),
       metadata: JSON.parse(JSON.stringify(this.metadata)),
     };
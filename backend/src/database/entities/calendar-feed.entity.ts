@@ -0,0 +1,43 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToOne,
+  JoinColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+
+/**
+ * Calendar Feed entity
+ * Secret subscription URL a user adds to their calendar app to follow their
+ * interviews, live sessions and assessment deadlines. Only a hash of the
+ * token is stored; rotating the token replaces it and breaks the old URL
+ */
+@Entity('calendar_feeds')
+export class CalendarFeed {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'userId', type: 'uuid', unique: true })
+  userId: string;
+
+  // SHA-256 of the token in the feed URL
+  @Column({ name: 'tokenHash', type: 'varchar', length: 64, unique: true })
+  tokenHash: string;
+
+  @Column({ name: 'lastAccessedAt', type: 'timestamp', nullable: true })
+  lastAccessedAt?: Date;
+
+  @CreateDateColumn({ name: 'createdAt' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updatedAt' })
+  updatedAt: Date;
+
+  // Relations
+  @OneToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+}
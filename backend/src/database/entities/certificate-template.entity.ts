@@ -0,0 +1,132 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from './organization.entity';
+import { CertificateType } from './certificate.entity';
+
+/**
+ * Certificate template element type enumeration
+ */
+export enum CertificateElementType {
+  TEXT = 'text',
+  IMAGE = 'image',
+  LOGO = 'logo',
+  SIGNATURE = 'signature',
+  QR_CODE = 'qr_code',
+}
+
+/**
+ * Custom font embedded into the PDF, referenced by name from text elements
+ */
+export interface CertificateTemplateFont {
+  name: string;
+  url: string;
+}
+
+/**
+ * Positioned block on the certificate page. Coordinates are in PDF points
+ * from the top-left corner. Text content may reference templateData fields
+ * as {{fieldName}}
+ */
+export interface CertificateTemplateElement {
+  id: string;
+  type: CertificateElementType;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  content?: string;
+  imageUrl?: string;
+  font?: string;
+  fontSize?: number;
+  color?: string;
+  align?: 'left' | 'center' | 'right';
+  // Signature caption, e.g. the signer's name and title
+  label?: string;
+  // Skip text blocks whose placeholders resolve to nothing
+  hideWhenEmpty?: boolean;
+  // Only render on certificates of these types
+  certificateTypes?: CertificateType[];
+}
+
+/**
+ * Certificate Template entity
+ * Per-organization layout and branding used to render certificate PDFs
+ */
+@Entity('certificate_templates')
+@Index(['organizationId'])
+@Index(['organizationId', 'type'])
+@Index(['isDefault'])
+export class CertificateTemplate {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'organizationId', type: 'uuid' })
+  organizationId: string;
+
+  @Column({ name: 'name', type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ name: 'description', type: 'text', nullable: true })
+  description?: string;
+
+  // Certificate type the template is meant for; null applies to every type
+  @Column({ name: 'type', type: 'enum', enum: CertificateType, nullable: true })
+  type?: CertificateType;
+
+  @Column({ name: 'isDefault', type: 'boolean', default: false })
+  isDefault: boolean;
+
+  @Column({ name: 'pageSize', type: 'varchar', length: 20, default: 'A4' })
+  pageSize: string;
+
+  @Column({ name: 'orientation', type: 'varchar', length: 20, default: 'landscape' })
+  orientation: 'portrait' | 'landscape';
+
+  @Column({ name: 'backgroundColor', type: 'varchar', length: 20, nullable: true })
+  backgroundColor?: string;
+
+  @Column({ name: 'backgroundImageUrl', type: 'text', nullable: true })
+  backgroundImageUrl?: string;
+
+  @Column({ name: 'borderColor', type: 'varchar', length: 20, nullable: true })
+  borderColor?: string;
+
+  @Column({ name: 'logoUrl', type: 'text', nullable: true })
+  logoUrl?: string;
+
+  @Column({ name: 'fonts', type: 'jsonb', default: '[]' })
+  fonts: CertificateTemplateFont[];
+
+  @Column({ name: 'elements', type: 'jsonb', default: '[]' })
+  elements: CertificateTemplateElement[];
+
+  @Column({ name: 'createdBy', type: 'uuid', nullable: true })
+  createdBy?: string;
+
+  @Column({ name: 'isArchived', type: 'boolean', default: false })
+  isArchived: boolean;
+
+  @CreateDateColumn({ name: 'createdAt' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updatedAt' })
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => Organization, { eager: false })
+  @JoinColumn({ name: 'organizationId' })
+  organization?: Organization;
+
+  // Methods
+  appliesTo(type: CertificateType): boolean {
+    return !this.type || this.type === type;
+  }
+}
@@ -0,0 +1,59 @@
+import { Course } from './course.entity';
+import { CourseCoupon, CourseCouponDiscountType } from './course-coupon.entity';
+
+describe('CourseCoupon', () => {
+  const course = Object.assign(new Course(), {
+    id: 'course-1',
+    organizationId: 'org-1',
+    currency: 'USD',
+  });
+
+  const buildCoupon = (overrides: Partial<CourseCoupon> = {}): CourseCoupon =>
+    Object.assign(new CourseCoupon(), {
+      organizationId: 'org-1',
+      courseId: null,
+      code: 'LAUNCH',
+      discountType: CourseCouponDiscountType.PERCENTAGE,
+      discountValue: 25,
+      redemptionCount: 0,
+      isActive: true,
+      ...overrides,
+    });
+
+  it('applies percentage and fixed discounts without exceeding the price', () => {
+    expect(buildCoupon().calculateDiscount(4999)).toBe(1250);
+    expect(buildCoupon({ discountValue: 100 }).calculateDiscount(4999)).toBe(4999);
+    expect(
+      buildCoupon({
+        discountType: CourseCouponDiscountType.FIXED,
+        discountValue: 6000,
+        currency: 'USD',
+      }).calculateDiscount(4999),
+    ).toBe(4999);
+  });
+
+  it('is redeemable only for its organization, course and validity window', () => {
+    const now = new Date('2026-06-01T00:00:00Z');
+
+    expect(buildCoupon().isRedeemable(course, now)).toBe(true);
+    expect(buildCoupon({ organizationId: 'org-2' }).isRedeemable(course, now)).toBe(false);
+    expect(buildCoupon({ courseId: 'course-2' }).isRedeemable(course, now)).toBe(false);
+    expect(buildCoupon({ isActive: false }).isRedeemable(course, now)).toBe(false);
+    expect(
+      buildCoupon({ validUntil: new Date('2026-05-31T00:00:00Z') }).isRedeemable(course, now),
+    ).toBe(false);
+    expect(buildCoupon({ maxRedemptions: 10, redemptionCount: 10 }).isRedeemable(course, now)).toBe(
+      false,
+    );
+  });
+
+  it('rejects fixed discounts in another currency', () => {
+    const coupon = buildCoupon({
+      discountType: CourseCouponDiscountType.FIXED,
+      discountValue: 500,
+      currency: 'EUR',
+    });
+
+    expect(coupon.isRedeemable(course)).toBe(false);
+  });
+});
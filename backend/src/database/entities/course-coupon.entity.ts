@@ -0,0 +1,109 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from './organization.entity';
+import { Course } from './course.entity';
+
+export enum CourseCouponDiscountType {
+  PERCENTAGE = 'percentage',
+  FIXED = 'fixed',
+}
+
+/**
+ * Course Coupon entity
+ * Discount code for paid courses of an organization. Without a course it
+ * applies to every paid course the organization sells
+ */
+@Entity('course_coupons')
+@Index(['organizationId', 'code'], { unique: true })
+@Index(['courseId'])
+export class CourseCoupon {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'organizationId', type: 'uuid' })
+  organizationId: string;
+
+  @Column({ name: 'courseId', type: 'uuid', nullable: true })
+  courseId?: string;
+
+  // Stored uppercase, matched case-insensitively
+  @Column({ name: 'code', type: 'varchar', length: 64 })
+  code: string;
+
+  @Column({ name: 'discountType', type: 'enum', enum: CourseCouponDiscountType })
+  discountType: CourseCouponDiscountType;
+
+  // Percentage (1-100) or an amount in the smallest currency unit
+  @Column({ name: 'discountValue', type: 'integer' })
+  discountValue: number;
+
+  // Currency of a fixed discount
+  @Column({ name: 'currency', type: 'varchar', length: 3, nullable: true })
+  currency?: string;
+
+  @Column({ name: 'maxRedemptions', type: 'integer', nullable: true })
+  maxRedemptions?: number;
+
+  @Column({ name: 'redemptionCount', type: 'integer', default: 0 })
+  redemptionCount: number;
+
+  @Column({ name: 'validFrom', type: 'timestamp', nullable: true })
+  validFrom?: Date;
+
+  @Column({ name: 'validUntil', type: 'timestamp', nullable: true })
+  validUntil?: Date;
+
+  @Column({ name: 'isActive', type: 'boolean', default: true })
+  isActive: boolean;
+
+  @Column({ name: 'createdBy', type: 'uuid' })
+  createdBy: string;
+
+  @CreateDateColumn({ name: 'createdAt' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updatedAt' })
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization?: Organization;
+
+  @ManyToOne(() => Course, { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'courseId' })
+  course?: Course;
+
+  // Methods
+  isRedeemable(course: Course, now: Date = new Date()): boolean {
+    if (!this.isActive || this.organizationId !== course.organizationId) return false;
+    if (this.courseId && this.courseId !== course.id) return false;
+    if (this.validFrom && now < this.validFrom) return false;
+    if (this.validUntil && now > this.validUntil) return false;
+    if (this.maxRedemptions != null && this.redemptionCount >= this.maxRedemptions) return false;
+    if (this.discountType === CourseCouponDiscountType.FIXED && this.currency !== course.currency) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Discount in the smallest currency unit, never above the amount
+   */
+  calculateDiscount(amountCents: number): number {
+    const discount =
+      this.discountType === CourseCouponDiscountType.PERCENTAGE
+        ? Math.round((amountCents * this.discountValue) / 100)
+        : this.discountValue;
+
+    return Math.min(Math.max(discount, 0), amountCents);
+  }
+}
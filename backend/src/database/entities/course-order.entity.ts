@@ -0,0 +1,132 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { Course } from './course.entity';
+import { PaymentProvider } from './payment.entity';
+
+export enum CourseOrderStatus {
+  PENDING = 'pending',
+  PAID = 'paid',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+  REFUNDED = 'refunded',
+}
+
+/**
+ * Course Order entity
+ * Purchase of a paid course. The enrollment is only activated once the
+ * payment provider confirms the payment through a verified webhook
+ */
+@Entity('course_orders')
+@Index(['userId', 'courseId'])
+@Index(['paymentProvider', 'providerOrderId'])
+@Index(['status', 'createdAt'])
+export class CourseOrder {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'userId', type: 'uuid' })
+  userId: string;
+
+  @Column({ name: 'courseId', type: 'uuid' })
+  courseId: string;
+
+  // Organization selling the course, under which payments and receipts are recorded
+  @Column({ name: 'organizationId', type: 'uuid' })
+  organizationId: string;
+
+  @Column({
+    name: 'status',
+    type: 'enum',
+    enum: CourseOrderStatus,
+    default: CourseOrderStatus.PENDING,
+  })
+  status: CourseOrderStatus;
+
+  @Column({ name: 'paymentProvider', type: 'enum', enum: PaymentProvider })
+  paymentProvider: PaymentProvider;
+
+  // Stripe payment intent or Razorpay order
+  @Column({ name: 'providerOrderId', type: 'varchar', length: 255, nullable: true })
+  providerOrderId?: string;
+
+  // Stripe charge or Razorpay payment, once paid
+  @Column({ name: 'providerPaymentId', type: 'varchar', length: 255, nullable: true })
+  providerPaymentId?: string;
+
+  @Column({ name: 'amountCents', type: 'integer' })
+  amountCents: number;
+
+  @Column({ name: 'discountCents', type: 'integer', default: 0 })
+  discountCents: number;
+
+  @Column({ name: 'totalCents', type: 'integer' })
+  totalCents: number;
+
+  @Column({ name: 'currency', type: 'varchar', length: 3 })
+  currency: string;
+
+  @Column({ name: 'couponId', type: 'uuid', nullable: true })
+  couponId?: string;
+
+  @Column({ name: 'couponCode', type: 'varchar', length: 64, nullable: true })
+  couponCode?: string;
+
+  @Column({ name: 'paymentId', type: 'uuid', nullable: true })
+  paymentId?: string;
+
+  @Column({ name: 'invoiceId', type: 'uuid', nullable: true })
+  invoiceId?: string;
+
+  @Column({ name: 'enrollmentId', type: 'uuid', nullable: true })
+  enrollmentId?: string;
+
+  @Column({ name: 'paidAt', type: 'timestamp', nullable: true })
+  paidAt?: Date;
+
+  @Column({ name: 'refundedAt', type: 'timestamp', nullable: true })
+  refundedAt?: Date;
+
+  @Column({ name: 'failureReason', type: 'text', nullable: true })
+  failureReason?: string;
+
+  @Column({ name: 'refundReason', type: 'text', nullable: true })
+  refundReason?: string;
+
+  @CreateDateColumn({ name: 'createdAt' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updatedAt' })
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user?: User;
+
+  @ManyToOne(() => Course, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'courseId' })
+  course?: Course;
+
+  // Virtual properties
+  get isPaid(): boolean {
+    return this.status === CourseOrderStatus.PAID;
+  }
+
+  // A late payment for a failed or replaced order is still honored
+  get awaitsPayment(): boolean {
+    return [
+      CourseOrderStatus.PENDING,
+      CourseOrderStatus.FAILED,
+      CourseOrderStatus.CANCELLED,
+    ].includes(this.status);
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from './organization.entity';
+
+/**
+ * Credential Signing Key entity
+ * Organization key pair used to sign exported badge credentials. The private
+ * key is stored encrypted; retired keys stay published so credentials signed
+ * with them keep validating
+ */
+@Entity('credential_signing_keys')
+@Index(['organizationId'])
+@Index(['organizationId', 'isActive'])
+export class CredentialSigningKey {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'organizationId', type: 'uuid' })
+  organizationId: string;
+
+  @Column({ name: 'algorithm', type: 'varchar', length: 20, default: 'RS256' })
+  algorithm: string;
+
+  @Column({ name: 'publicKeyPem', type: 'text' })
+  publicKeyPem: string;
+
+  @Column({ name: 'publicKeyJwk', type: 'jsonb' })
+  publicKeyJwk: Record<string, unknown>;
+
+  // AES-256-GCM encrypted PKCS#8 PEM, stored as iv:tag:ciphertext
+  @Column({ name: 'encryptedPrivateKey', type: 'text', select: false })
+  encryptedPrivateKey: string;
+
+  @Column({ name: 'isActive', type: 'boolean', default: true })
+  isActive: boolean;
+
+  @Column({ name: 'retiredAt', type: 'timestamp', nullable: true })
+  retiredAt?: Date;
+
+  @CreateDateColumn({ name: 'createdAt' })
+  createdAt: Date;
+
+  // Relations
+  @ManyToOne(() => Organization, { eager: false })
+  @JoinColumn({ name: 'organizationId' })
+  organization?: Organization;
+
+  // Methods
+  retire(): void {
+    this.isActive = false;
+    this.retiredAt = new Date();
+  }
+}
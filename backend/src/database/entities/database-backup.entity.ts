@@ -0,0 +1,115 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+
+export enum BackupType {
+  FULL = 'full',
+  SCHEMA = 'schema',
+}
+
+export enum BackupStatus {
+  PENDING = 'pending',
+  IN_PROGRESS = 'in_progress',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+export enum BackupTrigger {
+  SCHEDULED = 'scheduled',
+  MANUAL = 'manual',
+}
+
+/**
+ * Database Backup entity
+ * A pg_dump archive in custom format, encrypted with a per-backup data key
+ * and kept on local disk, in object storage, or both
+ */
+@Entity('database_backups')
+@Index(['status', 'createdAt'])
+@Index(['type', 'createdAt'])
+export class DatabaseBackup {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'type', type: 'enum', enum: BackupType })
+  type: BackupType;
+
+  @Column({ name: 'status', type: 'enum', enum: BackupStatus, default: BackupStatus.PENDING })
+  status: BackupStatus;
+
+  @Column({ name: 'trigger', type: 'enum', enum: BackupTrigger })
+  trigger: BackupTrigger;
+
+  @Column({ name: 'filename', type: 'varchar', length: 255 })
+  filename: string;
+
+  // Size of the stored (encrypted) archive
+  @Column({ name: 'sizeBytes', type: 'bigint', default: 0 })
+  sizeBytes: number;
+
+  // SHA-256 of the stored archive
+  @Column({ name: 'checksum', type: 'varchar', length: 64, nullable: true })
+  checksum?: string;
+
+  // KMS-wrapped data key and cipher parameters; null when stored unencrypted
+  @Column({ name: 'encryption', type: 'jsonb', nullable: true })
+  encryption?: {
+    wrappedKey: string;
+    keyId: string;
+    algorithm: string;
+    iv: string;
+    authTag: string;
+  };
+
+  @Column({ name: 'localPath', type: 'text', nullable: true })
+  localPath?: string;
+
+  // Object key when uploaded to S3-compatible storage
+  @Column({ name: 'storageKey', type: 'text', nullable: true })
+  storageKey?: string;
+
+  @Column({ name: 'tables', type: 'text', array: true, default: '{}' })
+  tables: string[];
+
+  @Column({ name: 'recordCount', type: 'integer', default: 0 })
+  recordCount: number;
+
+  @Column({ name: 'durationMs', type: 'integer', default: 0 })
+  durationMs: number;
+
+  @Column({ name: 'error', type: 'text', nullable: true })
+  error?: string;
+
+  @Column({ name: 'triggeredById', type: 'uuid', nullable: true })
+  triggeredById?: string;
+
+  @Column({ name: 'completedAt', type: 'timestamp', nullable: true })
+  completedAt?: Date;
+
+  @Column({ name: 'verifiedAt', type: 'timestamp', nullable: true })
+  verifiedAt?: Date;
+
+  @CreateDateColumn({ name: 'createdAt' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updatedAt' })
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'triggeredById' })
+  triggeredBy?: User;
+
+  // Methods
+  isRestorable(): boolean {
+    return this.status === BackupStatus.COMPLETED && !!(this.localPath || this.storageKey);
+  }
+}
@@ -184,6 +184,13 @@ export class Enrollment {
     return this.isActive && !this.isExpired;
   }
 
+  get hasValidPayment(): boolean {
+    return (
+      !!this.paymentTransactionId &&
+      this.getMetadata('refundedTransactionId') !== this.paymentTransactionId
+    );
+  }
+
   get completionRate(): number {
     return this.totalLessons > 0 
       ? Math.round((this.completedLessons / this.totalLessons) * 100) 
@@ -306,6 +313,15 @@ export class Enrollment {
     }
   }
 
+  revokeForRefund(reason?: string): void {
+    this.status = EnrollmentStatus.CANCELLED;
+    this.setMetadata('refundedTransactionId', this.paymentTransactionId);
+    this.setMetadata('refundedAt', new Date().toISOString());
+    if (reason) {
+      this.setMetadata('cancellationReason', reason);
+    }
+  }
+
   expire(): void {
     if (this.status === EnrollmentStatus.ACTIVE) {
       this.status = EnrollmentStatus.EXPIRED;
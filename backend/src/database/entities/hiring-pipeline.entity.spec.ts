@@ -0,0 +1,92 @@
+import { HiringPipeline, PipelineStageType } from './hiring-pipeline.entity';
+import { JobApplication } from './job-application.entity';
+
+describe('HiringPipeline', () => {
+  const buildPipeline = (overrides: Partial<HiringPipeline> = {}): HiringPipeline =>
+    Object.assign(new HiringPipeline(), {
+      name: 'Engineering',
+      allowStageSkipping: false,
+      stages: [
+        { key: 'applied', name: 'Applied', type: PipelineStageType.SCREENING },
+        { key: 'panel', name: 'Panel', type: PipelineStageType.INTERVIEW, requiredScorecards: 2 },
+        { key: 'take_home', name: 'Take-home', type: PipelineStageType.ASSESSMENT },
+        { key: 'hired', name: 'Hired', type: PipelineStageType.HIRED },
+      ],
+      ...overrides,
+    });
+
+  const buildApplication = (stage: string, scorecardStages: string[] = []): JobApplication =>
+    Object.assign(new JobApplication(), {
+      stage,
+      interviewData: {
+        feedback: scorecardStages.map(feedbackStage => ({
+          interviewId: 'interview_1',
+          interviewer: 'user-1',
+          rating: 4,
+          feedback: 'Solid',
+          recommendation: 'hire',
+          stage: feedbackStage,
+        })),
+      },
+    });
+
+  it('moves forward one stage at a time unless skipping is enabled', () => {
+    const application = buildApplication('applied');
+
+    expect(buildPipeline().getMoveError(application, 'panel')).toBeNull();
+    expect(buildPipeline().getMoveError(application, 'take_home')).toBe(
+      'Cannot skip from Applied to Take-home',
+    );
+    expect(
+      buildPipeline({ allowStageSkipping: true }).getMoveError(application, 'take_home'),
+    ).toBeNull();
+  });
+
+  it('requires the scorecards of the current stage before moving on', () => {
+    const pipeline = buildPipeline();
+
+    expect(
+      pipeline.getMoveError(buildApplication('panel', ['panel', 'applied']), 'take_home'),
+    ).toBe('Panel needs 2 scorecards before moving on (1 submitted)');
+    expect(
+      pipeline.getMoveError(buildApplication('panel', ['panel', 'panel']), 'take_home'),
+    ).toBeNull();
+    // Moving back does not need scorecards
+    expect(pipeline.getMoveError(buildApplication('panel'), 'applied')).toBeNull();
+  });
+
+  it('rejects unknown stages and moves out of a hired stage', () => {
+    const pipeline = buildPipeline();
+
+    expect(pipeline.getMoveError(buildApplication('applied'), 'onsite')).toBe(
+      'Stage onsite is not part of pipeline Engineering',
+    );
+    expect(pipeline.getMoveError(buildApplication('hired'), 'take_home')).toBe(
+      'Cannot move out of Hired',
+    );
+  });
+
+  it('maps stages of the built-in pipeline onto configured stages', () => {
+    const pipeline = buildPipeline();
+
+    expect(pipeline.mapLegacyStage('hired').key).toBe('hired');
+    expect(pipeline.mapLegacyStage('onsite').key).toBe('panel');
+    expect(pipeline.mapLegacyStage('offer').key).toBe('applied');
+  });
+
+  it('builds a default pipeline matching the original stage flow', () => {
+    const pipeline = HiringPipeline.createDefault('org-1');
+
+    expect(pipeline.stages.map(stage => stage.key)).toEqual([
+      'screening',
+      'phone_screen',
+      'technical',
+      'onsite',
+      'final',
+      'offer',
+      'hired',
+    ]);
+    expect(pipeline.getMoveError(buildApplication('technical'), 'onsite')).toBeNull();
+    expect(pipeline.getMoveError(buildApplication('technical'), 'offer')).not.toBeNull();
+  });
+});
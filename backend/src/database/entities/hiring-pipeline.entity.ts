@@ -0,0 +1,201 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from './organization.entity';
+import { Job } from './job.entity';
+import { User } from './user.entity';
+import { ApplicationStage, JobApplication } from './job-application.entity';
+
+export enum PipelineStageType {
+  SCREENING = 'screening',
+  INTERVIEW = 'interview',
+  ASSESSMENT = 'assessment',
+  OFFER = 'offer',
+  HIRED = 'hired',
+  CUSTOM = 'custom',
+}
+
+export enum StageActionType {
+  SEND_EMAIL = 'send_email',
+  SCHEDULE_INTERVIEW = 'schedule_interview',
+  ASSIGN_REVIEWER = 'assign_reviewer',
+}
+
+export interface PipelineStageAction {
+  type: StageActionType;
+  // send_email: subject, message, template
+  // schedule_interview: interviewType, interviewers, offsetHours
+  // assign_reviewer: reviewerIds
+  config: Record<string, any>;
+}
+
+export interface PipelineStage {
+  key: string;
+  name: string;
+  type: PipelineStageType;
+  // Interview feedback entries needed before an application may move past the stage
+  requiredScorecards?: number;
+  actions?: PipelineStageAction[];
+}
+
+/**
+ * Hiring Pipeline entity
+ * Ordered stages an application moves through. A pipeline with a jobId
+ * applies to that job only; otherwise it is an organization template and
+ * the one flagged isDefault is used for jobs without their own pipeline
+ */
+@Entity('hiring_pipelines')
+@Index(['organizationId', 'isDefault'])
+@Index(['jobId'])
+export class HiringPipeline {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'organizationId', type: 'uuid' })
+  organizationId: string;
+
+  @Column({ name: 'jobId', type: 'uuid', nullable: true })
+  jobId?: string;
+
+  @Column({ name: 'name', type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ name: 'description', type: 'text', nullable: true })
+  description?: string;
+
+  @Column({ name: 'isDefault', type: 'boolean', default: false })
+  isDefault: boolean;
+
+  // Lets applications jump forward over intermediate stages
+  @Column({ name: 'allowStageSkipping', type: 'boolean', default: false })
+  allowStageSkipping: boolean;
+
+  @Column({ name: 'stages', type: 'jsonb', default: [] })
+  stages: PipelineStage[];
+
+  @Column({ name: 'createdById', type: 'uuid', nullable: true })
+  createdById?: string;
+
+  @CreateDateColumn({ name: 'createdAt' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updatedAt' })
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization;
+
+  @ManyToOne(() => Job, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'jobId' })
+  job?: Job;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'createdById' })
+  createdBy?: User;
+
+  // Methods
+  getStage(key: string): PipelineStage | undefined {
+    return this.stages.find(stage => stage.key === key);
+  }
+
+  get firstStage(): PipelineStage {
+    return this.stages[0];
+  }
+
+  /**
+   * Why an application cannot move to a stage, or null when it can. Moving
+   * back is always allowed; moving forward goes one stage at a time unless
+   * skipping is enabled and needs the current stage's scorecards. Nothing
+   * leaves a hired stage
+   */
+  getMoveError(application: JobApplication, toKey: string): string | null {
+    const to = this.stages.findIndex(stage => stage.key === toKey);
+    if (to === -1) {
+      return `Stage ${toKey} is not part of pipeline ${this.name}`;
+    }
+
+    const from = this.stages.findIndex(stage => stage.key === application.stage);
+    // Applications whose stage is not in the pipeline may be placed anywhere
+    if (from === -1 || from === to) return null;
+
+    const current = this.stages[from];
+    if (current.type === PipelineStageType.HIRED) {
+      return `Cannot move out of ${current.name}`;
+    }
+    if (to < from) return null;
+
+    if (to > from + 1 && !this.allowStageSkipping) {
+      return `Cannot skip from ${current.name} to ${this.stages[to].name}`;
+    }
+
+    const submitted = application.getScorecardCount(current.key);
+    if (current.requiredScorecards && submitted < current.requiredScorecards) {
+      return `${current.name} needs ${current.requiredScorecards} scorecards before moving on (${submitted} submitted)`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Closest stage for a key from the fixed ApplicationStage funnel, used
+   * when moving existing applications onto a configured pipeline
+   */
+  mapLegacyStage(key: string): PipelineStage {
+    const existing = this.getStage(key);
+    if (existing) return existing;
+
+    const type = HiringPipeline.legacyStageTypes()[key as ApplicationStage];
+    return this.stages.find(stage => stage.type === type) || this.firstStage;
+  }
+
+  static legacyStageTypes(): Record<ApplicationStage, PipelineStageType> {
+    return {
+      [ApplicationStage.SCREENING]: PipelineStageType.SCREENING,
+      [ApplicationStage.PHONE_SCREEN]: PipelineStageType.SCREENING,
+      [ApplicationStage.TECHNICAL]: PipelineStageType.INTERVIEW,
+      [ApplicationStage.ONSITE]: PipelineStageType.INTERVIEW,
+      [ApplicationStage.FINAL]: PipelineStageType.INTERVIEW,
+      [ApplicationStage.OFFER]: PipelineStageType.OFFER,
+      [ApplicationStage.HIRED]: PipelineStageType.HIRED,
+    };
+  }
+
+  /**
+   * Built-in pipeline used when neither the job nor its organization has
+   * one configured. Mirrors the original fixed funnel, so applications
+   * created before pipelines existed keep valid stage keys
+   */
+  static createDefault(organizationId?: string): HiringPipeline {
+    const names: Record<ApplicationStage, string> = {
+      [ApplicationStage.SCREENING]: 'Screening',
+      [ApplicationStage.PHONE_SCREEN]: 'Phone Screen',
+      [ApplicationStage.TECHNICAL]: 'Technical',
+      [ApplicationStage.ONSITE]: 'Onsite',
+      [ApplicationStage.FINAL]: 'Final',
+      [ApplicationStage.OFFER]: 'Offer',
+      [ApplicationStage.HIRED]: 'Hired',
+    };
+    const types = HiringPipeline.legacyStageTypes();
+
+    return Object.assign(new HiringPipeline(), {
+      organizationId,
+      name: 'Default pipeline',
+      isDefault: true,
+      allowStageSkipping: false,
+      stages: Object.values(ApplicationStage).map(key => ({
+        key,
+        name: names[key],
+        type: types[key],
+      })),
+    });
+  }
+}
@@ -215,6 +215,8 @@ export class HRProfile {
     workLocation?: 'office' | 'remote' | 'hybrid';
     preferredWorkDays?: string[];
     flexibleHours?: boolean;
+    // Whole days in `timezone` when no interviews can be booked, inclusive
+    blackoutDates?: Array<{ start: string; end: string; reason?: string }>;
   };
 
   @ApiProperty({ description: 'Training and development' })
@@ -0,0 +1,138 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from './organization.entity';
+import { User } from './user.entity';
+import { Job } from './job.entity';
+import { InterviewSession, InterviewType, InterviewMode } from './interview-session.entity';
+
+export enum BookingLinkStatus {
+  PENDING = 'pending',
+  BOOKED = 'booked',
+  CANCELLED = 'cancelled',
+}
+
+/**
+ * Interview Booking Link entity
+ * Tokenised link a recruiter sends to a candidate to pick an interview slot
+ * from the panel's published availability. Only a hash of the token is
+ * stored; the link stays usable after booking so the candidate can
+ * reschedule until the session's reschedule deadline
+ */
+@Entity('interview_booking_links')
+@Index(['organizationId', 'status'])
+@Index(['candidateId'])
+export class InterviewBookingLink {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'organizationId', type: 'uuid' })
+  organizationId: string;
+
+  // SHA-256 of the token sent to the candidate
+  @Column({ name: 'tokenHash', type: 'varchar', length: 64, unique: true })
+  tokenHash: string;
+
+  @Column({ name: 'candidateId', type: 'uuid' })
+  candidateId: string;
+
+  @Column({ name: 'jobId', type: 'uuid', nullable: true })
+  jobId?: string;
+
+  // First entry becomes the session's interviewer, the rest its panel
+  @Column({ name: 'interviewerIds', type: 'uuid', array: true })
+  interviewerIds: string[];
+
+  @Column({ name: 'type', type: 'enum', enum: InterviewType })
+  type: InterviewType;
+
+  @Column({ name: 'mode', type: 'enum', enum: InterviewMode })
+  mode: InterviewMode;
+
+  @Column({ name: 'durationMinutes', type: 'int', default: 60 })
+  durationMinutes: number;
+
+  // Range the candidate may pick a slot from
+  @Column({ name: 'windowStart', type: 'timestamp' })
+  windowStart: Date;
+
+  @Column({ name: 'windowEnd', type: 'timestamp' })
+  windowEnd: Date;
+
+  // Slots closer than this to now are not offered
+  @Column({ name: 'minNoticeHours', type: 'int', default: 24 })
+  minNoticeHours: number;
+
+  @Column({ name: 'rescheduleDeadlineHours', type: 'int', default: 24 })
+  rescheduleDeadlineHours: number;
+
+  // Timezone confirmations are shown in for the candidate
+  @Column({ name: 'candidateTimezone', type: 'varchar', length: 64, nullable: true })
+  candidateTimezone?: string;
+
+  @Column({
+    name: 'status',
+    type: 'enum',
+    enum: BookingLinkStatus,
+    default: BookingLinkStatus.PENDING,
+  })
+  status: BookingLinkStatus;
+
+  @Column({ name: 'interviewSessionId', type: 'uuid', nullable: true })
+  interviewSessionId?: string;
+
+  @Column({ name: 'rescheduleCount', type: 'int', default: 0 })
+  rescheduleCount: number;
+
+  @Column({ name: 'bookedAt', type: 'timestamp', nullable: true })
+  bookedAt?: Date;
+
+  @Column({ name: 'expiresAt', type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ name: 'createdById', type: 'uuid', nullable: true })
+  createdById?: string;
+
+  @CreateDateColumn({ name: 'createdAt' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updatedAt' })
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'candidateId' })
+  candidate: User;
+
+  @ManyToOne(() => Job, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'jobId' })
+  job?: Job;
+
+  @ManyToOne(() => InterviewSession, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'interviewSessionId' })
+  interviewSession?: InterviewSession;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'createdById' })
+  createdBy?: User;
+
+  // Methods
+  get isExpired(): boolean {
+    return new Date() > this.expiresAt;
+  }
+
+  get isBookable(): boolean {
+    return this.status === BookingLinkStatus.PENDING && !this.isExpired;
+  }
+}
@@ -0,0 +1,97 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { InterviewSession } from './interview-session.entity';
+import { ScorecardTemplate, ScorecardRatingScale } from './scorecard-template.entity';
+import { User } from './user.entity';
+
+export enum ScorecardRecommendation {
+  STRONG_HIRE = 'strong_hire',
+  HIRE = 'hire',
+  NO_HIRE = 'no_hire',
+  STRONG_NO_HIRE = 'strong_no_hire',
+}
+
+/**
+ * Interview Scorecard entity
+ * One interviewer's structured feedback for an interview session. The
+ * competencies and scale are copied from the template at submission, so
+ * later template edits do not change submitted scores
+ */
+@Entity('interview_scorecards')
+@Index(['interviewSessionId', 'interviewerId'], { unique: true })
+@Index(['jobId', 'candidateId'])
+export class InterviewScorecard {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'interviewSessionId', type: 'uuid' })
+  interviewSessionId: string;
+
+  @Column({ name: 'templateId', type: 'uuid', nullable: true })
+  templateId?: string;
+
+  @Column({ name: 'interviewerId', type: 'uuid' })
+  interviewerId: string;
+
+  @Column({ name: 'candidateId', type: 'uuid' })
+  candidateId: string;
+
+  @Column({ name: 'jobId', type: 'uuid', nullable: true })
+  jobId?: string;
+
+  // Pipeline stage of the application when the scorecard was submitted
+  @Column({ name: 'stageKey', type: 'varchar', length: 64, nullable: true })
+  stageKey?: string;
+
+  @Column({ name: 'ratingScale', type: 'jsonb' })
+  ratingScale: ScorecardRatingScale;
+
+  @Column({ name: 'ratings', type: 'jsonb', default: [] })
+  ratings: Array<{
+    competencyKey: string;
+    competencyName: string;
+    weight: number;
+    rating: number;
+    notes?: string;
+  }>;
+
+  @Column({ name: 'answers', type: 'jsonb', default: [] })
+  answers: Array<{
+    questionKey: string;
+    prompt: string;
+    answer: string;
+  }>;
+
+  // Weighted average of the ratings, normalised to 0-100
+  @Column({ name: 'overallScore', type: 'decimal', precision: 5, scale: 2 })
+  overallScore: number;
+
+  @Column({ name: 'recommendation', type: 'enum', enum: ScorecardRecommendation })
+  recommendation: ScorecardRecommendation;
+
+  @Column({ name: 'notes', type: 'text', nullable: true })
+  notes?: string;
+
+  @CreateDateColumn({ name: 'submittedAt' })
+  submittedAt: Date;
+
+  // Relations
+  @ManyToOne(() => InterviewSession, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'interviewSessionId' })
+  interviewSession: InterviewSession;
+
+  @ManyToOne(() => ScorecardTemplate, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'templateId' })
+  template?: ScorecardTemplate;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'interviewerId' })
+  interviewer: User;
+}
@@ -60,6 +60,10 @@ export class InterviewSession {
   @Column({ name: 'interviewerId', nullable: true })
   interviewerId?: string;
 
+  @ApiProperty({ description: 'Additional panel interviewer user IDs' })
+  @Column({ name: 'panelInterviewerIds', type: 'uuid', array: true, default: '{}' })
+  panelInterviewerIds: string[];
+
   @ApiProperty({ description: 'Job ID this interview is for' })
   @Column({ name: 'jobId', nullable: true })
   jobId?: string;
@@ -112,6 +116,18 @@ export class InterviewSession {
   @Column({ name: 'meetingId', nullable: true })
   meetingId?: string;
 
+  @ApiProperty({ description: 'Meeting provider the meeting was created with, e.g. jitsi or integration' })
+  @Column({ name: 'meetingProvider', nullable: true })
+  meetingProvider?: string;
+
+  @ApiProperty({ description: 'Video conferencing integration the meeting was created through' })
+  @Column({ name: 'meetingIntegrationId', type: 'uuid', nullable: true })
+  meetingIntegrationId?: string;
+
+  // Host links can sign in as the meeting owner, so they are only loaded on request
+  @Column({ name: 'meetingLinks', type: 'jsonb', nullable: true, select: false })
+  meetingLinks?: Partial<Record<'host' | 'interviewer' | 'candidate', string>>;
+
   @ApiProperty({ description: 'Recording URL if recorded' })
   @Column({ name: 'recordingUrl', nullable: true })
   recordingUrl?: string;
@@ -164,6 +180,10 @@ export class InterviewSession {
   @Column({ name: 'reminderSent', default: false })
   reminderSent: boolean;
 
+  @ApiProperty({ description: 'iCalendar SEQUENCE, incremented when the time changes or it is cancelled' })
+  @Column({ name: 'calendarSequence', default: 0 })
+  calendarSequence: number;
+
   @ApiProperty({ description: 'Follow-up email sent' })
   @Column({ name: 'followupSent', default: false })
   followupSent: boolean;
@@ -223,6 +243,20 @@ export class InterviewSession {
   }
 
   // Methods
+  getInterviewerIds(): string[] {
+    return [this.interviewerId, ...(this.panelInterviewerIds || [])].filter(Boolean) as string[];
+  }
+
+  isInterviewer(userId: string): boolean {
+    return this.getInterviewerIds().includes(userId);
+  }
+
+  getMeetingUrl(userId: string, links = this.meetingLinks): string | undefined {
+    if (userId === this.interviewerId) return links?.host || links?.interviewer || this.meetingUrl;
+    if (this.isInterviewer(userId)) return links?.interviewer || this.meetingUrl;
+    return links?.candidate || this.meetingUrl;
+  }
+
   start(): void {
     if (this.status !== InterviewStatus.SCHEDULED) throw new Error('Interview must be scheduled to start');
     this.status = InterviewStatus.IN_PROGRESS;
@@ -241,6 +275,7 @@ export class InterviewSession {
   cancel(reason?: string): void {
     if (this.status === InterviewStatus.COMPLETED) throw new Error('Cannot cancel completed interview');
     this.status = InterviewStatus.CANCELLED;
+    this.calendarSequence = (this.calendarSequence || 0) + 1;
     if (reason) this.metadata = { ...this.metadata, cancellationReason: reason };
   }
 
@@ -253,6 +288,7 @@ export class InterviewSession {
     };
     this.scheduledAt = newTime;
     this.reminderSent = false;
+    this.calendarSequence = (this.calendarSequence || 0) + 1;
   }
 
   addFeedback(category: string, rating: number, comments?: string): void {
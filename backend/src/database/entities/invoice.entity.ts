@@ -585,6 +585,40 @@ export class Invoice {
     return `${prefix}-${year}${month}-${timestamp}`;
   }
 
+  static createOneTime(organizationId: string, currency: string): Partial<Invoice> {
+    const now = new Date();
+
+    return {
+      invoiceNumber: Invoice.generateInvoiceNumber(),
+      organizationId,
+      status: InvoiceStatus.DRAFT,
+      type: InvoiceType.ONE_TIME,
+      issueDate: now,
+      dueDate: now,
+      subtotalCents: 0,
+      taxCents: 0,
+      discountCents: 0,
+      totalCents: 0,
+      amountPaidCents: 0,
+      amountDueCents: 0,
+      currency,
+      lineItems: [],
+      taxBreakdown: [],
+      discounts: [],
+      deliveryInfo: {},
+      paymentTerms: {
+        paymentDueDays: 0,
+        autoCollectionEnabled: false,
+        dunningEnabled: false,
+      },
+      providerData: {},
+      metadata: {
+        source: 'api',
+        auditTrail: [],
+      },
+    };
+  }
+
   static createFromSubscription(
     subscription: Subscription,
     periodStart: Date,
@@ -12,6 +12,7 @@ import { ApiProperty } from '@nestjs/swagger';
 import { Job } from './job.entity';
 import { User } from '../entities/user.entity';
 import { UserResume } from './user-resume.entity';
+import { HiringPipeline } from './hiring-pipeline.entity';
 
 export enum ApplicationStatus {
   APPLIED = 'applied',
@@ -23,6 +24,7 @@ export enum ApplicationStatus {
   WITHDRAWN = 'withdrawn',
 }
 
+// Stage keys of the built-in pipeline; configured pipelines define their own
 export enum ApplicationStage {
   SCREENING = 'screening',
   PHONE_SCREEN = 'phone_screen',
@@ -96,13 +98,17 @@ export class JobApplication {
   })
   status: ApplicationStatus;
 
-  @ApiProperty({ enum: ApplicationStage, description: 'Application stage' })
+  @ApiProperty({ description: 'Stage key within the hiring pipeline' })
   @Column({
-    type: 'enum',
-    enum: ApplicationStage,
+    type: 'varchar',
+    length: 64,
     default: ApplicationStage.SCREENING,
   })
-  stage: ApplicationStage;
+  stage: string;
+
+  @ApiProperty({ description: 'Hiring pipeline ID (null while on the built-in pipeline)' })
+  @Column({ name: 'pipelineId', type: 'uuid', nullable: true })
+  pipelineId?: string;
 
   @ApiProperty({ enum: ApplicationSource, description: 'Application source' })
   @Column({
@@ -222,6 +228,8 @@ export class JobApplication {
       rating: number;
       feedback: string;
       recommendation: 'hire' | 'no_hire' | 'maybe';
+      // Stage the application was in when the feedback was given
+      stage?: string;
     }>;
   };
 
@@ -258,6 +266,10 @@ export class JobApplication {
   @JoinColumn({ name: 'assignedTo' })
   assignee?: User;
 
+  @ManyToOne(() => HiringPipeline, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'pipelineId' })
+  pipeline?: HiringPipeline;
+
   // Virtual properties
   get candidateName(): string {
     if (this.candidate) return this.candidate.fullName;
@@ -303,7 +315,7 @@ export class JobApplication {
     this.updateStageFromStatus(newStatus);
   }
 
-  updateStage(newStage: ApplicationStage, performedBy: string, notes?: string): void {
+  updateStage(newStage: string, performedBy: string, notes?: string): void {
     const oldStage = this.stage;
     this.stage = newStage;
     this.lastActivityAt = new Date();
@@ -415,7 +427,7 @@ export class JobApplication {
 
   addInterviewFeedback(feedback: JobApplication['interviewData']['feedback'][0], performedBy: string): void {
     if (!this.interviewData.feedback) this.interviewData.feedback = [];
-    this.interviewData.feedback.push(feedback);
+    this.interviewData.feedback.push({ ...feedback, stage: this.stage });
     this.lastActivityAt = new Date();
     this.addTimelineEntry({
       action: 'interview_feedback',
@@ -444,7 +456,14 @@ export class JobApplication {
     return maxScore > 0 ? Math.round((score / maxScore) * 100) : 0;
   }
 
+  getScorecardCount(stage: string): number {
+    return (this.interviewData.feedback || []).filter(feedback => feedback.stage === stage).length;
+  }
+
+  // Configured pipelines move stages explicitly; only the built-in one follows status
   private updateStageFromStatus(status: ApplicationStatus): void {
+    if (this.pipelineId) return;
+
     switch (status) {
       case ApplicationStatus.APPLIED: this.stage = ApplicationStage.SCREENING; break;
       case ApplicationStatus.SCREENING: this.stage = ApplicationStage.PHONE_SCREEN; break;
@@ -485,7 +504,8 @@ export class JobApplication {
     return JobApplication.getStatusFlow()[this.status].includes(newStatus);
   }
 
-  canAdvanceToStage(newStage: ApplicationStage): boolean {
-    return JobApplication.getStageFlow()[this.stage].includes(newStage);
+  canAdvanceToStage(newStage: string): boolean {
+    const next = JobApplication.getStageFlow()[this.stage as ApplicationStage] || [];
+    return next.includes(newStage as ApplicationStage);
   }
 }
@@ -19,6 +19,8 @@ export enum NotificationStatus {
   READ = 'read',
   FAILED = 'failed',
   CANCELLED = 'cancelled',
+  // Held back for the user's next digest
+  DIGEST_PENDING = 'digest_pending',
 }
 
 export enum NotificationPriority {
@@ -171,6 +173,15 @@ export class Notification {
     cost?: number;
     deviceTokens?: string[];
     failedTokens?: string[];
+    devices?: Array<{
+      deviceId: string;
+      platform: string;
+      provider: string;
+      success: boolean;
+      messageId?: string;
+      error?: string;
+      pruned?: boolean;
+    }>;
     responseStatus?: number;
     responseBody?: string;
     responseHeaders?: Record<string, string>;
@@ -211,6 +222,8 @@ export class Notification {
     sourceSystem?: string;
     sourceEvent?: string;
     sourceUserId?: string;
+    digestId?: string;
+    digestSize?: number;
     customFields?: Record<string, any>;
   };
 
@@ -239,6 +252,10 @@ export class Notification {
     return this.status === NotificationStatus.PENDING;
   }
 
+  get isHeldForDigest(): boolean {
+    return this.status === NotificationStatus.DIGEST_PENDING;
+  }
+
   get isSent(): boolean {
     return [
       NotificationStatus.SENT,
@@ -304,6 +321,13 @@ export class Notification {
     if (this.sentAt) this.deliveryInfo.deliveryDuration = this.deliveredAt.getTime() - this.sentAt.getTime();
   }
 
+  markDeliveredInDigest(digestId: string): void {
+    this.status = NotificationStatus.DELIVERED;
+    this.sentAt = this.sentAt || new Date();
+    this.deliveredAt = new Date();
+    this.metadata = { ...this.metadata, digestId };
+  }
+
   markAsRead(): void {
     this.status = NotificationStatus.READ;
     this.readAt = new Date();
@@ -408,6 +432,7 @@ export class Notification {
       [NotificationStatus.READ]: 'Read',
       [NotificationStatus.FAILED]: 'Failed',
       [NotificationStatus.CANCELLED]: 'Cancelled',
+      [NotificationStatus.DIGEST_PENDING]: 'Held for digest',
     };
     return names[status] || status;
   }
@@ -23,6 +23,18 @@ export enum MembershipRole {
   LEARNER = 'learner',
 }
 
+/**
+ * Membership roles from most to least privileged
+ */
+export const MEMBERSHIP_ROLE_PRECEDENCE: MembershipRole[] = [
+  MembershipRole.OWNER,
+  MembershipRole.ADMIN,
+  MembershipRole.MANAGER,
+  MembershipRole.HR,
+  MembershipRole.INTERVIEWER,
+  MembershipRole.LEARNER,
+];
+
 /**
  * Membership status enumeration
  */
@@ -82,6 +94,15 @@ export class OrganizationMembership {
   @Column({ name: 'invitationExpiresAt', type: 'timestamp', nullable: true })
   invitationExpiresAt?: Date;
 
+  // Identifier of the user in the organization's provisioning (SCIM) client
+  @Column({ name: 'externalId', type: 'varchar', length: 255, nullable: true })
+  externalId?: string;
+
+  // The organization's SCIM client created the account, so it may change
+  // the account's profile and status, not just this membership
+  @Column({ name: 'managesAccount', type: 'boolean', default: false })
+  managesAccount: boolean;
+
   @CreateDateColumn({ name: 'createdAt' })
   createdAt: Date;
 
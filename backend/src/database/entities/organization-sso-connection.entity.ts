@@ -0,0 +1,136 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from './organization.entity';
+import { MembershipRole } from './organization-membership.entity';
+
+export enum SsoProtocol {
+  SAML = 'saml',
+  OIDC = 'oidc',
+}
+
+export interface SamlConnectionConfig {
+  // IdP single sign-on URL (HTTP-Redirect binding)
+  entryPoint: string;
+  idpIssuer?: string;
+  // PEM or base64 signing certificate(s) of the IdP
+  idpCertificates: string[];
+  identifierFormat?: string;
+  wantAuthnResponseSigned?: boolean;
+}
+
+export interface OidcConnectionConfig {
+  // Issuer URL, discovered through /.well-known/openid-configuration
+  issuerUrl: string;
+  clientId: string;
+  // Encrypted at rest, never returned by the API
+  clientSecret?: string;
+  scopes?: string[];
+}
+
+/**
+ * Which IdP attribute or claim holds each user field
+ */
+export interface SsoAttributeMapping {
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  groups?: string;
+}
+
+/**
+ * Grants a membership role when an IdP attribute (groups by default) contains a value
+ */
+export interface SsoRoleMapping {
+  attribute?: string;
+  value: string;
+  role: MembershipRole;
+}
+
+/**
+ * Organization SSO Connection entity
+ * SAML 2.0 or OpenID Connect identity provider of an organization. Users
+ * whose email domain is one of the verified domains sign in through it and
+ * are provisioned into the organization on their first login
+ */
+@Entity('organization_sso_connections')
+@Index(['organizationId'])
+export class OrganizationSsoConnection {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'organizationId', type: 'uuid' })
+  organizationId: string;
+
+  @Column({ name: 'name', type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ name: 'protocol', type: 'enum', enum: SsoProtocol })
+  protocol: SsoProtocol;
+
+  @Column({ name: 'enabled', type: 'boolean', default: false })
+  enabled: boolean;
+
+  @Column({ name: 'domains', type: 'text', array: true, default: '{}' })
+  domains: string[];
+
+  @Column({ name: 'verifiedDomains', type: 'text', array: true, default: '{}' })
+  verifiedDomains: string[];
+
+  // Expected in a DNS TXT record of each domain
+  @Column({ name: 'domainVerificationToken', type: 'varchar', length: 64 })
+  domainVerificationToken: string;
+
+  @Column({ name: 'samlConfig', type: 'jsonb', nullable: true })
+  samlConfig?: SamlConnectionConfig;
+
+  @Column({ name: 'oidcConfig', type: 'jsonb', nullable: true })
+  oidcConfig?: OidcConnectionConfig;
+
+  @Column({ name: 'attributeMapping', type: 'jsonb', default: {} })
+  attributeMapping: SsoAttributeMapping;
+
+  @Column({ name: 'roleMappings', type: 'jsonb', default: [] })
+  roleMappings: SsoRoleMapping[];
+
+  @Column({
+    name: 'defaultRole',
+    type: 'enum',
+    enum: MembershipRole,
+    default: MembershipRole.LEARNER,
+  })
+  defaultRole: MembershipRole;
+
+  // Create users and memberships on first login
+  @Column({ name: 'jitProvisioning', type: 'boolean', default: true })
+  jitProvisioning: boolean;
+
+  @Column({ name: 'createdBy', type: 'uuid' })
+  createdBy: string;
+
+  @Column({ name: 'lastLoginAt', type: 'timestamp', nullable: true })
+  lastLoginAt?: Date;
+
+  @CreateDateColumn({ name: 'createdAt' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updatedAt' })
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization?: Organization;
+
+  // Methods
+  isDomainVerified(domain: string): boolean {
+    return this.verifiedDomains.includes(domain.toLowerCase());
+  }
+}
@@ -97,6 +97,7 @@ export class Plan {
     maxOrganizations?: number;
     maxCourses?: number;
     maxStudentsPerCourse?: number;
+    premiumCourses?: boolean;
     maxStorageGB?: number;
     maxBandwidthGB?: number;
     customBranding?: boolean;
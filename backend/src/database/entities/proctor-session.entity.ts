@@ -0,0 +1,108 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { AssessmentAttempt } from './assessment-attempt.entity';
+import { SecurityViolation } from './security-violation.entity';
+
+/**
+ * Proctor session status enumeration
+ */
+export enum ProctorSessionStatus {
+  ACTIVE = 'active',
+  COMPLETED = 'completed',
+  TERMINATED = 'terminated',
+}
+
+/**
+ * Proctor Session entity
+ * Browser monitoring session attached to an assessment attempt
+ */
+@Entity('proctor_sessions')
+@Index(['attemptId'])
+@Index(['userId', 'status'])
+@Index(['status', 'expiresAt'])
+@Index(['startTime'])
+export class ProctorSession {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'attemptId', type: 'uuid' })
+  attemptId: string;
+
+  @Column({ name: 'userId', type: 'uuid' })
+  userId: string;
+
+  @Column({
+    name: 'status',
+    type: 'enum',
+    enum: ProctorSessionStatus,
+    default: ProctorSessionStatus.ACTIVE,
+  })
+  status: ProctorSessionStatus;
+
+  @Column({ name: 'startTime', type: 'timestamp' })
+  startTime: Date;
+
+  @Column({ name: 'endTime', type: 'timestamp', nullable: true })
+  endTime?: Date;
+
+  @Column({ name: 'expiresAt', type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ name: 'terminationReason', type: 'varchar', length: 255, nullable: true })
+  terminationReason?: string;
+
+  @Column({ name: 'browserFingerprint', type: 'varchar', length: 255, default: '' })
+  browserFingerprint: string;
+
+  @Column({ name: 'ipAddress', type: 'varchar', length: 45, default: '' })
+  ipAddress: string;
+
+  @Column({ name: 'userAgent', type: 'text', default: '' })
+  userAgent: string;
+
+  @Column({ name: 'screenResolution', type: 'varchar', length: 50, default: '' })
+  screenResolution: string;
+
+  @Column({ name: 'timezone', type: 'varchar', length: 100, default: '' })
+  timezone: string;
+
+  @Column({ name: 'metadata', type: 'jsonb', default: '{}' })
+  metadata: Record<string, any>;
+
+  @CreateDateColumn({ name: 'createdAt' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updatedAt' })
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => AssessmentAttempt, { eager: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'attemptId' })
+  attempt?: AssessmentAttempt;
+
+  @ManyToOne(() => User, { eager: false })
+  @JoinColumn({ name: 'userId' })
+  user?: User;
+
+  @OneToMany(() => SecurityViolation, violation => violation.session)
+  violations?: SecurityViolation[];
+
+  // Virtual properties
+  get isActive(): boolean {
+    return this.status === ProctorSessionStatus.ACTIVE;
+  }
+
+  get isExpired(): boolean {
+    return this.isActive && this.expiresAt < new Date();
+  }
+}
@@ -0,0 +1,36 @@
+import { ResumeExportFrequency, ResumeExportSchedule } from './resume-export-schedule.entity';
+
+describe('ResumeExportSchedule', () => {
+  const buildSchedule = (overrides: Partial<ResumeExportSchedule> = {}): ResumeExportSchedule =>
+    Object.assign(new ResumeExportSchedule(), {
+      frequency: ResumeExportFrequency.DAILY,
+      createdAt: new Date('2026-01-31T08:00:00Z'),
+      nextRunAt: new Date('2026-01-31T08:00:00Z'),
+      ...overrides,
+    });
+
+  it('advances daily and weekly schedules keeping the time of day', () => {
+    const from = new Date('2026-01-31T08:00:05Z');
+
+    expect(buildSchedule().computeNextRun(from)).toEqual(new Date('2026-02-01T08:00:00Z'));
+    expect(buildSchedule({ frequency: ResumeExportFrequency.WEEKLY }).computeNextRun(from)).toEqual(
+      new Date('2026-02-07T08:00:00Z'),
+    );
+  });
+
+  it('skips runs missed while the queue was down or the schedule paused', () => {
+    const from = new Date('2026-02-04T12:00:00Z');
+
+    expect(buildSchedule().computeNextRun(from)).toEqual(new Date('2026-02-05T08:00:00Z'));
+  });
+
+  it('keeps monthly schedules on their day of month', () => {
+    const monthly = buildSchedule({ frequency: ResumeExportFrequency.MONTHLY });
+
+    monthly.nextRunAt = monthly.computeNextRun(new Date('2026-01-31T09:00:00Z'));
+    expect(monthly.nextRunAt).toEqual(new Date('2026-02-28T08:00:00Z'));
+
+    monthly.nextRunAt = monthly.computeNextRun(new Date('2026-02-28T09:00:00Z'));
+    expect(monthly.nextRunAt).toEqual(new Date('2026-03-31T08:00:00Z'));
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { UserResume } from './user-resume.entity';
+
+export enum ResumeExportFrequency {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly',
+}
+
+export enum ResumeExportFormat {
+  PDF = 'pdf',
+  PDF_ATS = 'pdf-ats',
+}
+
+export enum ResumeExportScheduleStatus {
+  ACTIVE = 'active',
+  PAUSED = 'paused',
+}
+
+/**
+ * Resume Export Schedule entity
+ * Regenerates a resume export on a fixed cadence and optionally emails it to
+ * a list of recipients, e.g. placement officers
+ */
+@Entity('resume_export_schedules')
+@Index(['resumeId'])
+@Index(['userId'])
+@Index(['status', 'nextRunAt'])
+export class ResumeExportSchedule {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'resumeId', type: 'uuid' })
+  resumeId: string;
+
+  // User who created the schedule; exports run with their permissions
+  @Column({ name: 'userId', type: 'uuid' })
+  userId: string;
+
+  @Column({ name: 'frequency', type: 'enum', enum: ResumeExportFrequency })
+  frequency: ResumeExportFrequency;
+
+  @Column({
+    name: 'format',
+    type: 'enum',
+    enum: ResumeExportFormat,
+    default: ResumeExportFormat.PDF,
+  })
+  format: ResumeExportFormat;
+
+  @Column({
+    name: 'status',
+    type: 'enum',
+    enum: ResumeExportScheduleStatus,
+    default: ResumeExportScheduleStatus.ACTIVE,
+  })
+  status: ResumeExportScheduleStatus;
+
+  @Column({ name: 'emailDelivery', type: 'boolean', default: false })
+  emailDelivery: boolean;
+
+  @Column({ name: 'recipients', type: 'text', array: true, default: '{}' })
+  recipients: string[];
+
+  @Column({ name: 'nextRunAt', type: 'timestamp' })
+  nextRunAt: Date;
+
+  @Column({ name: 'lastRunAt', type: 'timestamp', nullable: true })
+  lastRunAt?: Date;
+
+  @Column({ name: 'lastFilename', type: 'varchar', length: 255, nullable: true })
+  lastFilename?: string;
+
+  @Column({ name: 'lastError', type: 'text', nullable: true })
+  lastError?: string;
+
+  @Column({ name: 'runCount', type: 'integer', default: 0 })
+  runCount: number;
+
+  @Column({ name: 'failureCount', type: 'integer', default: 0 })
+  failureCount: number;
+
+  @CreateDateColumn({ name: 'createdAt' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updatedAt' })
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => UserResume, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'resumeId' })
+  resume?: UserResume;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user?: User;
+
+  // Methods
+  isActive(): boolean {
+    return this.status === ResumeExportScheduleStatus.ACTIVE;
+  }
+
+  /**
+   * Next run after `from`, keeping the time of day of the previous run and,
+   * for monthly schedules, the day of month it was created on. Missed runs
+   * are skipped rather than replayed
+   */
+  computeNextRun(from: Date = new Date()): Date {
+    const next = new Date(this.nextRunAt || from);
+    const anchorDay = (this.createdAt || next).getUTCDate();
+
+    while (next <= from) {
+      switch (this.frequency) {
+        case ResumeExportFrequency.DAILY:
+          next.setUTCDate(next.getUTCDate() + 1);
+          break;
+        case ResumeExportFrequency.WEEKLY:
+          next.setUTCDate(next.getUTCDate() + 7);
+          break;
+        case ResumeExportFrequency.MONTHLY: {
+          next.setUTCDate(1);
+          next.setUTCMonth(next.getUTCMonth() + 1);
+          const daysInMonth = new Date(
+            Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0),
+          ).getUTCDate();
+          next.setUTCDate(Math.min(anchorDay, daysInMonth));
+          break;
+        }
+      }
+    }
+
+    return next;
+  }
+}
@@ -0,0 +1,67 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from './organization.entity';
+import { MembershipRole } from './organization-membership.entity';
+import { Team } from './team.entity';
+
+/**
+ * SCIM Group entity
+ * A group pushed by an organization's provisioning client. Each group maps
+ * either to a membership role or to an HR team, and its members receive
+ * that role or join that team
+ */
+@Entity('scim_groups')
+@Index(['organizationId', 'displayName'], { unique: true })
+@Index(['organizationId', 'externalId'])
+export class ScimGroup {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'organizationId', type: 'uuid' })
+  organizationId: string;
+
+  @Column({ name: 'displayName', type: 'varchar', length: 255 })
+  displayName: string;
+
+  @Column({ name: 'externalId', type: 'varchar', length: 255, nullable: true })
+  externalId?: string;
+
+  // Set for groups that grant a membership role
+  @Column({ name: 'membershipRole', type: 'enum', enum: MembershipRole, nullable: true })
+  membershipRole?: MembershipRole;
+
+  // Set for groups backed by an HR team
+  @Column({ name: 'teamId', type: 'uuid', nullable: true })
+  teamId?: string;
+
+  @Column({ name: 'memberIds', type: 'uuid', array: true, default: '{}' })
+  memberIds: string[];
+
+  @CreateDateColumn({ name: 'createdAt' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updatedAt' })
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization?: Organization;
+
+  @ManyToOne(() => Team, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'teamId' })
+  team?: Team;
+
+  // Virtual properties
+  get isRoleGroup(): boolean {
+    return !!this.membershipRole;
+  }
+}
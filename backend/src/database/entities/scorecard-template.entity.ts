@@ -0,0 +1,109 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from './organization.entity';
+import { Job } from './job.entity';
+import { User } from './user.entity';
+
+export interface ScorecardCompetency {
+  key: string;
+  name: string;
+  description?: string;
+  // Relative weight in the overall score
+  weight: number;
+}
+
+export interface ScorecardQuestion {
+  key: string;
+  prompt: string;
+  required: boolean;
+}
+
+export interface ScorecardRatingScale {
+  min: number;
+  max: number;
+  // Optional label per rating value, e.g. { "1": "Strong no" }
+  labels?: Record<string, string>;
+}
+
+/**
+ * Scorecard Template entity
+ * Competencies, rating scale and questions interviewers fill in after an
+ * interview. Templates belong to an organization and can be narrowed to a
+ * job, a pipeline stage, or both
+ */
+@Entity('scorecard_templates')
+@Index(['organizationId', 'jobId', 'stageKey'])
+export class ScorecardTemplate {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'organizationId', type: 'uuid' })
+  organizationId: string;
+
+  @Column({ name: 'jobId', type: 'uuid', nullable: true })
+  jobId?: string;
+
+  // Hiring pipeline stage key the template applies to
+  @Column({ name: 'stageKey', type: 'varchar', length: 64, nullable: true })
+  stageKey?: string;
+
+  @Column({ name: 'name', type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ name: 'description', type: 'text', nullable: true })
+  description?: string;
+
+  @Column({ name: 'ratingScale', type: 'jsonb', default: { min: 1, max: 5 } })
+  ratingScale: ScorecardRatingScale;
+
+  @Column({ name: 'competencies', type: 'jsonb', default: [] })
+  competencies: ScorecardCompetency[];
+
+  @Column({ name: 'questions', type: 'jsonb', default: [] })
+  questions: ScorecardQuestion[];
+
+  @Column({ name: 'isActive', type: 'boolean', default: true })
+  isActive: boolean;
+
+  @Column({ name: 'createdById', type: 'uuid', nullable: true })
+  createdById?: string;
+
+  @CreateDateColumn({ name: 'createdAt' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updatedAt' })
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization;
+
+  @ManyToOne(() => Job, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'jobId' })
+  job?: Job;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'createdById' })
+  createdBy?: User;
+
+  // Methods
+  /**
+   * How well the template fits a job and stage: job and stage matches rank
+   * above job-only, stage-only and organization-wide templates. Returns -1
+   * when the template is scoped to a different job or stage
+   */
+  specificityFor(jobId?: string, stageKey?: string): number {
+    if (this.jobId && this.jobId !== jobId) return -1;
+    if (this.stageKey && this.stageKey !== stageKey) return -1;
+    return (this.jobId ? 2 : 0) + (this.stageKey ? 1 : 0);
+  }
+}
@@ -0,0 +1,115 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ProctorSession } from './proctor-session.entity';
+
+/**
+ * Security violation type enumeration
+ */
+export enum ViolationType {
+  TAB_SWITCH = 'tab_switch',
+  WINDOW_BLUR = 'window_blur',
+  COPY_PASTE = 'copy_paste',
+  RIGHT_CLICK = 'right_click',
+  DEV_TOOLS = 'dev_tools',
+  FULLSCREEN_EXIT = 'fullscreen_exit',
+  SUSPICIOUS_TIMING = 'suspicious_timing',
+  MULTIPLE_SESSIONS = 'multiple_sessions',
+  IP_CHANGE = 'ip_change',
+  BROWSER_CHANGE = 'browser_change',
+}
+
+/**
+ * Security violation severity enumeration
+ */
+export enum ViolationSeverity {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+  CRITICAL = 'critical',
+}
+
+/**
+ * Security Violation entity
+ * Suspicious browser activity recorded during a proctor session
+ */
+@Entity('security_violations')
+@Index(['sessionId'])
+@Index(['attemptId'])
+@Index(['userId'])
+@Index(['flagged', 'timestamp'])
+export class SecurityViolation {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'sessionId', type: 'uuid' })
+  sessionId: string;
+
+  @Column({ name: 'attemptId', type: 'uuid' })
+  attemptId: string;
+
+  @Column({ name: 'userId', type: 'uuid' })
+  userId: string;
+
+  @Column({ name: 'type', type: 'enum', enum: ViolationType })
+  type: ViolationType;
+
+  @Column({
+    name: 'severity',
+    type: 'enum',
+    enum: ViolationSeverity,
+    default: ViolationSeverity.MEDIUM,
+  })
+  severity: ViolationSeverity;
+
+  @Column({ name: 'timestamp', type: 'timestamp' })
+  timestamp: Date;
+
+  @Column({ name: 'details', type: 'jsonb', default: '{}' })
+  details: Record<string, any>;
+
+  @Column({ name: 'flagged', type: 'boolean', default: false })
+  flagged: boolean;
+
+  @Column({ name: 'reviewed', type: 'boolean', default: false })
+  reviewed: boolean;
+
+  @Column({ name: 'reviewedBy', type: 'uuid', nullable: true })
+  reviewedBy?: string;
+
+  @Column({ name: 'reviewedAt', type: 'timestamp', nullable: true })
+  reviewedAt?: Date;
+
+  @Column({ name: 'reviewNotes', type: 'text', nullable: true })
+  reviewNotes?: string;
+
+  @CreateDateColumn({ name: 'createdAt' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updatedAt' })
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => ProctorSession, session => session.violations, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'sessionId' })
+  session?: ProctorSession;
+
+  // Methods
+  review(reviewerId: string, notes?: string, flagged?: boolean): void {
+    this.reviewed = true;
+    this.reviewedBy = reviewerId;
+    this.reviewedAt = new Date();
+    this.reviewNotes = notes;
+
+    if (flagged !== undefined) {
+      this.flagged = flagged;
+    }
+  }
+}
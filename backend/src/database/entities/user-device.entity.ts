@@ -0,0 +1,96 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+
+export enum DevicePlatform {
+  IOS = 'ios',
+  ANDROID = 'android',
+  WEB = 'web',
+}
+
+export enum PushProvider {
+  FCM = 'fcm',
+  WEB_PUSH = 'web_push',
+}
+
+/**
+ * User Device entity
+ * Push target registered by a client: an FCM registration token for the
+ * mobile apps or a Web Push subscription for browsers
+ */
+@Entity('user_devices')
+@Index(['token'], { unique: true })
+@Index(['userId', 'isActive'])
+export class UserDevice {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'userId', type: 'uuid' })
+  userId: string;
+
+  @Column({ name: 'platform', type: 'enum', enum: DevicePlatform })
+  platform: DevicePlatform;
+
+  @Column({ name: 'provider', type: 'enum', enum: PushProvider })
+  provider: PushProvider;
+
+  // FCM registration token, or the subscription endpoint for Web Push
+  @Column({ name: 'token', type: 'text' })
+  token: string;
+
+  // Web Push subscription keys (base64url)
+  @Column({ name: 'webPushKeys', type: 'jsonb', nullable: true })
+  webPushKeys?: {
+    p256dh: string;
+    auth: string;
+  };
+
+  @Column({ name: 'deviceName', type: 'varchar', length: 255, nullable: true })
+  deviceName?: string;
+
+  @Column({ name: 'appVersion', type: 'varchar', length: 50, nullable: true })
+  appVersion?: string;
+
+  @Column({ name: 'userAgent', type: 'text', nullable: true })
+  userAgent?: string;
+
+  @Column({ name: 'isActive', type: 'boolean', default: true })
+  isActive: boolean;
+
+  @Column({ name: 'lastSeenAt', type: 'timestamp' })
+  lastSeenAt: Date;
+
+  @Column({ name: 'lastDeliveredAt', type: 'timestamp', nullable: true })
+  lastDeliveredAt?: Date;
+
+  // Consecutive failed deliveries, reset on success
+  @Column({ name: 'failureCount', type: 'integer', default: 0 })
+  failureCount: number;
+
+  @Column({ name: 'lastError', type: 'text', nullable: true })
+  lastError?: string;
+
+  @CreateDateColumn({ name: 'createdAt' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updatedAt' })
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user?: User;
+
+  // Methods
+  static providerFor(platform: DevicePlatform): PushProvider {
+    return platform === DevicePlatform.WEB ? PushProvider.WEB_PUSH : PushProvider.FCM;
+  }
+}
@@ -0,0 +1,85 @@
+import { UserNotificationPreferences } from './user-notification-preferences.entity';
+
+describe('UserNotificationPreferences', () => {
+  const buildPreference = (
+    frequencySettings: UserNotificationPreferences['frequencySettings'],
+  ): UserNotificationPreferences =>
+    Object.assign(new UserNotificationPreferences(), {
+      ...UserNotificationPreferences.createDefault('user-1'),
+      frequencySettings,
+    });
+
+  it('holds only low and medium priority notifications of digest categories', () => {
+    const preference = buildPreference({ digestEnabled: true, digestFrequency: 'daily' });
+
+    expect(preference.isDigestEligible('social', 'medium')).toBe(true);
+    expect(preference.isDigestEligible(undefined, 'low')).toBe(true);
+    expect(preference.isDigestEligible('social', 'high')).toBe(false);
+    expect(preference.isDigestEligible('hr', 'medium')).toBe(false);
+
+    preference.frequencySettings.digestCategories = ['hr'];
+    expect(preference.isDigestEligible('hr', 'medium')).toBe(true);
+
+    preference.frequencySettings.digestEnabled = false;
+    expect(preference.isDigestEligible('hr', 'medium')).toBe(false);
+  });
+
+  it('schedules digests at the chosen time in the user timezone', () => {
+    const daily = buildPreference({
+      digestEnabled: true,
+      digestFrequency: 'daily',
+      digestTime: '09:00',
+    });
+
+    // 10:00 in New York (EST, UTC-5): next digest is tomorrow 09:00
+    expect(daily.computeNextDigestAt('America/New_York', new Date('2026-01-14T15:00:00Z'))).toEqual(
+      new Date('2026-01-15T14:00:00Z'),
+    );
+    // After the DST change the offset is UTC-4
+    expect(daily.computeNextDigestAt('America/New_York', new Date('2026-03-10T12:00:00Z'))).toEqual(
+      new Date('2026-03-10T13:00:00Z'),
+    );
+
+    const weekly = buildPreference({
+      digestEnabled: true,
+      digestFrequency: 'weekly',
+      digestTime: '18:30',
+      digestDays: ['friday'],
+    });
+    // Wednesday 2026-01-14 -> Friday 2026-01-16 18:30 in Kolkata (UTC+5:30)
+    expect(weekly.computeNextDigestAt('Asia/Kolkata', new Date('2026-01-14T00:00:00Z'))).toEqual(
+      new Date('2026-01-16T13:00:00Z'),
+    );
+
+    expect(buildPreference({ digestEnabled: false }).computeNextDigestAt('UTC')).toBeNull();
+  });
+
+  it('defers to the end of overnight quiet hours', () => {
+    const preference = buildPreference({
+      quietHours: {
+        enabled: true,
+        startTime: '22:00',
+        endTime: '07:00',
+        timezone: 'Europe/Berlin',
+      },
+    });
+
+    // 23:30 Berlin (UTC+1) -> 07:00 the next morning
+    expect(preference.quietHoursEndAt(new Date('2026-01-14T22:30:00Z'))).toEqual(
+      new Date('2026-01-15T06:00:00Z'),
+    );
+    // 05:00 Berlin -> 07:00 the same morning
+    expect(preference.quietHoursEndAt(new Date('2026-01-15T04:00:00Z'))).toEqual(
+      new Date('2026-01-15T06:00:00Z'),
+    );
+    // 12:00 Berlin is outside quiet hours
+    expect(preference.quietHoursEndAt(new Date('2026-01-15T11:00:00Z'))).toBeNull();
+
+    preference.frequencySettings.quietHours!.weekendsOnly = true;
+    expect(preference.quietHoursEndAt(new Date('2026-01-14T22:30:00Z'))).toBeNull();
+    // Saturday night
+    expect(preference.quietHoursEndAt(new Date('2026-01-17T22:30:00Z'))).toEqual(
+      new Date('2026-01-18T06:00:00Z'),
+    );
+  });
+});
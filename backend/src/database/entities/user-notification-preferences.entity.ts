@@ -12,12 +12,26 @@ import {
 import { ApiProperty } from '@nestjs/swagger';
 import { User } from '../entities/user.entity';
 import { NotificationChannel } from './notification-template.entity';
+import { parseTimeOfDay, zonedParts, addDays, zonedTimeToUtc } from '../../common/utils/zoned-time';
+
+// Categories held for the digest unless the user picks their own
+export const DEFAULT_DIGEST_CATEGORIES = [
+  'general',
+  'social',
+  'marketing',
+  'community',
+  'course_updates',
+  'recommendations',
+];
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
 
 @Entity('user_notification_preferences')
 @Unique(['userId', 'templateKey', 'channel'])
 @Index(['userId'])
 @Index(['templateKey'])
 @Index(['channel', 'isEnabled'])
+@Index(['nextDigestAt'])
 export class UserNotificationPreferences {
   @ApiProperty({ description: 'Preference ID' })
   @PrimaryGeneratedColumn('uuid')
@@ -63,8 +77,14 @@ export class UserNotificationPreferences {
     digestFrequency?: 'daily' | 'weekly';
     digestTime?: string;
     digestDays?: string[];
+    digestChannel?: 'email' | 'in_app';
+    digestCategories?: string[];
   };
 
+  @ApiProperty({ description: 'Next digest delivery time (global preference only)' })
+  @Column({ name: 'nextDigestAt', type: 'timestamp', nullable: true })
+  nextDigestAt?: Date;
+
   @ApiProperty({ description: 'Channel-specific settings' })
   @Column({ name: 'channelSettings', type: 'jsonb', default: {} })
   channelSettings: {
@@ -218,24 +238,89 @@ export class UserNotificationPreferences {
   }
 
   get isInQuietHours(): boolean {
-    if (!this.hasQuietHours) return false;
+    return this.quietHoursEndAt() !== null;
+  }
+
+  get isDigestEnabled(): boolean {
+    return this.frequencySettings.digestEnabled || false;
+  }
+
+  /**
+   * End of the quiet period `from` falls in, or null outside quiet hours
+   */
+  quietHoursEndAt(from: Date = new Date()): Date | null {
+    if (!this.hasQuietHours) return null;
 
-    const now = new Date();
     const quietHours = this.frequencySettings.quietHours!;
-    const userTime = new Date(now.toLocaleString('en-US', { timeZone: quietHours.timezone }));
-    const currentHour = userTime.getHours();
-    const currentMinute = userTime.getMinutes();
-    const currentTime = currentHour * 60 + currentMinute;
-    const [startHour, startMinute] = quietHours.startTime.split(':').map(Number);
-    const [endHour, endMinute] = quietHours.endTime.split(':').map(Number);
-    const startTime = startHour * 60 + startMinute;
-    const endTime = endHour * 60 + endMinute;
-
-    if (startTime <= endTime) {
-      return currentTime >= startTime && currentTime <= endTime;
-    } else {
-      return currentTime >= startTime || currentTime <= endTime;
+    const local = zonedParts(from, quietHours.timezone);
+    const currentTime = local.hour * 60 + local.minute;
+    const startTime = parseTimeOfDay(quietHours.startTime);
+    const endTime = parseTimeOfDay(quietHours.endTime);
+    if (startTime === null || endTime === null || startTime === endTime) return null;
+
+    const overnight = startTime > endTime;
+    const inQuietHours = overnight
+      ? currentTime >= startTime || currentTime < endTime
+      : currentTime >= startTime && currentTime < endTime;
+    if (!inQuietHours) return null;
+
+    // Overnight periods belong to the day they started on
+    const startDay = overnight && currentTime < endTime ? addDays(local, -1) : local;
+    if (quietHours.weekendsOnly && ![0, 6].includes(startDay.weekday)) return null;
+
+    const endDay = overnight && currentTime >= startTime ? addDays(local, 1) : local;
+    return zonedTimeToUtc(
+      { ...endDay, hour: Math.floor(endTime / 60), minute: endTime % 60 },
+      quietHours.timezone,
+    );
+  }
+
+  /**
+   * Whether a notification should wait for the digest instead of being
+   * sent right away. High and urgent notifications are never held
+   */
+  isDigestEligible(category?: string, priority?: string): boolean {
+    if (!this.isEnabled || !this.isDigestEnabled) return false;
+    if (priority === 'high' || priority === 'urgent') return false;
+
+    const categories = this.frequencySettings.digestCategories?.length
+      ? this.frequencySettings.digestCategories
+      : DEFAULT_DIGEST_CATEGORIES;
+    return categories.includes(category || 'general');
+  }
+
+  /**
+   * Next digest delivery after `from` at `digestTime` in the user's timezone.
+   * Weekly digests go out on `digestDays` (Monday by default), daily digests
+   * every day unless days are given
+   */
+  computeNextDigestAt(timezone: string, from: Date = new Date()): Date | null {
+    if (!this.isDigestEnabled) return null;
+
+    const time = parseTimeOfDay(this.frequencySettings.digestTime || '09:00') ?? 9 * 60;
+    const configuredDays = (this.frequencySettings.digestDays || [])
+      .map(day => WEEKDAYS.indexOf(day.toLowerCase()))
+      .filter(day => day >= 0);
+    const days =
+      configuredDays.length > 0
+        ? configuredDays
+        : this.frequencySettings.digestFrequency === 'weekly'
+          ? [1]
+          : [0, 1, 2, 3, 4, 5, 6];
+
+    const today = zonedParts(from, timezone);
+    for (let offset = 0; offset <= 7; offset++) {
+      const day = addDays(today, offset);
+      if (!days.includes(day.weekday)) continue;
+
+      const candidate = zonedTimeToUtc(
+        { ...day, hour: Math.floor(time / 60), minute: time % 60 },
+        timezone,
+      );
+      if (candidate > from) return candidate;
     }
+
+    return null;
   }
 
   shouldReceiveNotification(templateKey?: string, channel?: NotificationChannel, priority?: string): boolean {
@@ -248,8 +333,7 @@ export class UserNotificationPreferences {
       if (currentLevel < minLevel) return false;
     }
 
-    if (this.isInQuietHours) return false;
-
+    // Quiet hours defer delivery (see quietHoursEndAt) rather than block it
     if (!this.checkFrequencyLimits()) return false;
 
     return true;
@@ -0,0 +1,103 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+
+export enum SessionDeviceType {
+  DESKTOP = 'desktop',
+  MOBILE = 'mobile',
+  TABLET = 'tablet',
+  UNKNOWN = 'unknown',
+}
+
+export enum SessionRevocationReason {
+  LOGOUT = 'logout',
+  USER_REVOKED = 'user_revoked',
+  SIGN_OUT_EVERYWHERE = 'sign_out_everywhere',
+  TOKEN_REUSE = 'token_reuse',
+  PASSWORD_RESET = 'password_reset',
+}
+
+/**
+ * User Session entity
+ * One signed-in device. The session is also the refresh token family: every
+ * refresh rotates refreshTokenId, and presenting an older token from the same
+ * family revokes the whole session
+ */
+@Entity('user_sessions')
+@Index(['userId'])
+@Index(['userId', 'revokedAt'])
+export class UserSession {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'userId', type: 'uuid' })
+  userId: string;
+
+  // jti of the only refresh token of this family that may still be used
+  @Column({ name: 'refreshTokenId', type: 'uuid' })
+  refreshTokenId: string;
+
+  @Column({ name: 'rotationCount', type: 'integer', default: 0 })
+  rotationCount: number;
+
+  @Column({ name: 'deviceName', type: 'varchar', length: 255, nullable: true })
+  deviceName?: string;
+
+  @Column({
+    name: 'deviceType',
+    type: 'enum',
+    enum: SessionDeviceType,
+    default: SessionDeviceType.UNKNOWN,
+  })
+  deviceType: SessionDeviceType;
+
+  @Column({ name: 'ipAddress', type: 'varchar', length: 45, nullable: true })
+  ipAddress?: string;
+
+  @Column({ name: 'userAgent', type: 'text', nullable: true })
+  userAgent?: string;
+
+  @CreateDateColumn({ name: 'createdAt' })
+  createdAt: Date;
+
+  @Column({ name: 'lastUsedAt', type: 'timestamp' })
+  lastUsedAt: Date;
+
+  @Column({ name: 'expiresAt', type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ name: 'revokedAt', type: 'timestamp', nullable: true })
+  revokedAt?: Date;
+
+  @Column({
+    name: 'revokedReason',
+    type: 'enum',
+    enum: SessionRevocationReason,
+    nullable: true,
+  })
+  revokedReason?: SessionRevocationReason;
+
+  // Relations
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user?: User;
+
+  // Virtual properties
+  get isActive(): boolean {
+    return !this.revokedAt && this.expiresAt > new Date();
+  }
+
+  // Methods
+  revoke(reason: SessionRevocationReason): void {
+    if (this.revokedAt) return;
+    this.revokedAt = new Date();
+    this.revokedReason = reason;
+  }
+}
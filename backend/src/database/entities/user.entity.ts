@@ -145,6 +145,27 @@ export class User {
   @Exclude({ toPlainOnly: true })
   refreshTokenHash?: string;
 
+  @Column({ type: 'boolean', default: false })
+  mfaEnabled: boolean;
+
+  @Column({ type: 'timestamp', nullable: true })
+  mfaEnabledAt?: Date;
+
+  // Encrypted TOTP secret, also set while an enrollment is pending
+  @Column({ type: 'text', nullable: true })
+  @Exclude({ toPlainOnly: true })
+  mfaSecret?: string;
+
+  // Last accepted TOTP time step, so a code cannot be replayed
+  @Column({ type: 'bigint', nullable: true })
+  @Exclude({ toPlainOnly: true })
+  mfaLastUsedStep?: string;
+
+  // Hashes of unused recovery codes
+  @Column({ type: 'jsonb', nullable: true })
+  @Exclude({ toPlainOnly: true })
+  mfaRecoveryCodes?: string[];
+
   @Column({ name: 'createdAt' })
   createdAt: Date;
 
@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Adds the pending_review attempt status used while open-ended answers wait
+ * for manual grading
+ */
+export class AddPendingReviewAttemptStatus1791072000000 implements MigrationInterface {
+  name = 'AddPendingReviewAttemptStatus1791072000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TYPE "assessmentAttemptStatusEnum" ADD VALUE IF NOT EXISTS 'pending_review' AFTER 'submitted';
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Postgres cannot drop an enum value, so only move attempts back to submitted
+    await queryRunner.query(`
+      UPDATE "assessment_attempts" SET "status" = 'submitted' WHERE "status" = 'pending_review';
+    `);
+  }
+}
@@ -0,0 +1,99 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Adds proctor sessions for assessment attempts and the security violations
+ * recorded during them
+ */
+export class AddProctorSessions1791158400000 implements MigrationInterface {
+  name = 'AddProctorSessions1791158400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "proctorSessionStatusEnum" AS ENUM ('active', 'completed', 'terminated');
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "proctor_sessions" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "attemptId" uuid NOT NULL,
+        "userId" uuid NOT NULL,
+        "status" "proctorSessionStatusEnum" NOT NULL DEFAULT 'active',
+        "startTime" TIMESTAMP NOT NULL,
+        "endTime" TIMESTAMP,
+        "expiresAt" TIMESTAMP NOT NULL,
+        "terminationReason" character varying(255),
+        "browserFingerprint" character varying(255) NOT NULL DEFAULT '',
+        "ipAddress" character varying(45) NOT NULL DEFAULT '',
+        "userAgent" text NOT NULL DEFAULT '',
+        "screenResolution" character varying(50) NOT NULL DEFAULT '',
+        "timezone" character varying(100) NOT NULL DEFAULT '',
+        "metadata" jsonb NOT NULL DEFAULT '{}'::jsonb,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_proctor_sessions_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_proctor_sessions_attemptId" FOREIGN KEY ("attemptId") REFERENCES "assessment_attempts"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_proctor_sessions_userId" FOREIGN KEY ("userId") REFERENCES "users"("id")
+      );
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_proctor_sessions_attemptId" ON "proctor_sessions" ("attemptId");
+      CREATE INDEX IF NOT EXISTS "IDX_proctor_sessions_userId_status" ON "proctor_sessions" ("userId", "status");
+      CREATE INDEX IF NOT EXISTS "IDX_proctor_sessions_status_expiresAt" ON "proctor_sessions" ("status", "expiresAt");
+      CREATE INDEX IF NOT EXISTS "IDX_proctor_sessions_startTime" ON "proctor_sessions" ("startTime");
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "violationTypeEnum" AS ENUM (
+        'tab_switch',
+        'window_blur',
+        'copy_paste',
+        'right_click',
+        'dev_tools',
+        'fullscreen_exit',
+        'suspicious_timing',
+        'multiple_sessions',
+        'ip_change',
+        'browser_change'
+      );
+      CREATE TYPE "violationSeverityEnum" AS ENUM ('low', 'medium', 'high', 'critical');
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "security_violations" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "sessionId" uuid NOT NULL,
+        "attemptId" uuid NOT NULL,
+        "userId" uuid NOT NULL,
+        "type" "violationTypeEnum" NOT NULL,
+        "severity" "violationSeverityEnum" NOT NULL DEFAULT 'medium',
+        "timestamp" TIMESTAMP NOT NULL,
+        "details" jsonb NOT NULL DEFAULT '{}'::jsonb,
+        "flagged" boolean NOT NULL DEFAULT false,
+        "reviewed" boolean NOT NULL DEFAULT false,
+        "reviewedBy" uuid,
+        "reviewedAt" TIMESTAMP,
+        "reviewNotes" text,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_security_violations_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_security_violations_sessionId" FOREIGN KEY ("sessionId") REFERENCES "proctor_sessions"("id") ON DELETE CASCADE
+      );
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_security_violations_sessionId" ON "security_violations" ("sessionId");
+      CREATE INDEX IF NOT EXISTS "IDX_security_violations_attemptId" ON "security_violations" ("attemptId");
+      CREATE INDEX IF NOT EXISTS "IDX_security_violations_userId" ON "security_violations" ("userId");
+      CREATE INDEX IF NOT EXISTS "IDX_security_violations_flagged_timestamp" ON "security_violations" ("flagged", "timestamp");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "security_violations";`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "violationSeverityEnum";`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "violationTypeEnum";`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "proctor_sessions";`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "proctorSessionStatusEnum";`);
+  }
+}
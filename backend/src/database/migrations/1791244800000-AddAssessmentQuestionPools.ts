@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Adds the question pool rules assessments draw per-attempt variants from
+ */
+export class AddAssessmentQuestionPools1791244800000 implements MigrationInterface {
+  name = 'AddAssessmentQuestionPools1791244800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "assessments" ADD COLUMN IF NOT EXISTS "questionPools" jsonb NOT NULL DEFAULT '[]'::jsonb;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "assessments" DROP COLUMN IF EXISTS "questionPools";`);
+  }
+}
@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Adds per-organization certificate templates used to render certificate PDFs
+ */
+export class AddCertificateTemplates1791331200000 implements MigrationInterface {
+  name = 'AddCertificateTemplates1791331200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "certificate_templates" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "organizationId" uuid NOT NULL,
+        "name" character varying(255) NOT NULL,
+        "description" text,
+        "type" "certificateTypeEnum",
+        "isDefault" boolean NOT NULL DEFAULT false,
+        "pageSize" character varying(20) NOT NULL DEFAULT 'A4',
+        "orientation" character varying(20) NOT NULL DEFAULT 'landscape',
+        "backgroundColor" character varying(20),
+        "backgroundImageUrl" text,
+        "borderColor" character varying(20),
+        "logoUrl" text,
+        "fonts" jsonb NOT NULL DEFAULT '[]'::jsonb,
+        "elements" jsonb NOT NULL DEFAULT '[]'::jsonb,
+        "createdBy" uuid,
+        "isArchived" boolean NOT NULL DEFAULT false,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_certificate_templates_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_certificate_templates_organizationId" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id")
+      );
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_certificate_templates_organizationId" ON "certificate_templates" ("organizationId");
+      CREATE INDEX IF NOT EXISTS "IDX_certificate_templates_organizationId_type" ON "certificate_templates" ("organizationId", "type");
+      CREATE INDEX IF NOT EXISTS "IDX_certificate_templates_isDefault" ON "certificate_templates" ("isDefault");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "certificate_templates";`);
+  }
+}
@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Adds the organization key pairs that sign exported badge credentials
+ */
+export class AddCredentialSigningKeys1791417600000 implements MigrationInterface {
+  name = 'AddCredentialSigningKeys1791417600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "credential_signing_keys" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "organizationId" uuid NOT NULL,
+        "algorithm" character varying(20) NOT NULL DEFAULT 'RS256',
+        "publicKeyPem" text NOT NULL,
+        "publicKeyJwk" jsonb NOT NULL,
+        "encryptedPrivateKey" text NOT NULL,
+        "isActive" boolean NOT NULL DEFAULT true,
+        "retiredAt" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_credential_signing_keys_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_credential_signing_keys_organizationId" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id")
+      );
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_credential_signing_keys_organizationId" ON "credential_signing_keys" ("organizationId");
+      CREATE INDEX IF NOT EXISTS "IDX_credential_signing_keys_organizationId_isActive" ON "credential_signing_keys" ("organizationId", "isActive");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "credential_signing_keys";`);
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Adds the interview type that selects the AI prompt templates, the planned
+ * questions and the LLM token usage of AI mock interviews
+ */
+export class AddAiInterviewPlanAndUsage1791504000000 implements MigrationInterface {
+  name = 'AddAiInterviewPlanAndUsage1791504000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "ai_mock_interviews"
+        ADD COLUMN IF NOT EXISTS "interviewType" "interviewTypeEnum" NOT NULL DEFAULT 'technical',
+        ADD COLUMN IF NOT EXISTS "questions" jsonb NOT NULL DEFAULT '[]'::jsonb,
+        ADD COLUMN IF NOT EXISTS "aiUsage" jsonb NOT NULL DEFAULT '{}'::jsonb;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "ai_mock_interviews"
+        DROP COLUMN IF EXISTS "aiUsage",
+        DROP COLUMN IF EXISTS "questions",
+        DROP COLUMN IF EXISTS "interviewType";
+    `);
+  }
+}
@@ -0,0 +1,47 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Adds per-device user sessions, each tracking one rotating refresh token
+ * family
+ */
+export class AddUserSessions1791590400000 implements MigrationInterface {
+  name = 'AddUserSessions1791590400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "sessionDeviceTypeEnum" AS ENUM ('desktop', 'mobile', 'tablet', 'unknown');
+      CREATE TYPE "sessionRevocationReasonEnum" AS ENUM ('logout', 'user_revoked', 'sign_out_everywhere', 'token_reuse', 'password_reset');
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "user_sessions" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "userId" uuid NOT NULL,
+        "refreshTokenId" uuid NOT NULL,
+        "rotationCount" integer NOT NULL DEFAULT 0,
+        "deviceName" character varying(255),
+        "deviceType" "sessionDeviceTypeEnum" NOT NULL DEFAULT 'unknown',
+        "ipAddress" character varying(45),
+        "userAgent" text,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "lastUsedAt" TIMESTAMP NOT NULL,
+        "expiresAt" TIMESTAMP NOT NULL,
+        "revokedAt" TIMESTAMP,
+        "revokedReason" "sessionRevocationReasonEnum",
+        CONSTRAINT "PK_user_sessions_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_user_sessions_userId" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE
+      );
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_user_sessions_userId" ON "user_sessions" ("userId");
+      CREATE INDEX IF NOT EXISTS "IDX_user_sessions_userId_revokedAt" ON "user_sessions" ("userId", "revokedAt");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "user_sessions";`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "sessionRevocationReasonEnum";`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "sessionDeviceTypeEnum";`);
+  }
+}
@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Adds TOTP multi-factor authentication settings and recovery codes to users
+ */
+export class AddUserMfa1791676800000 implements MigrationInterface {
+  name = 'AddUserMfa1791676800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "users"
+        ADD COLUMN IF NOT EXISTS "mfaEnabled" boolean NOT NULL DEFAULT false,
+        ADD COLUMN IF NOT EXISTS "mfaEnabledAt" TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS "mfaSecret" text,
+        ADD COLUMN IF NOT EXISTS "mfaLastUsedStep" bigint,
+        ADD COLUMN IF NOT EXISTS "mfaRecoveryCodes" jsonb;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "users"
+        DROP COLUMN IF EXISTS "mfaRecoveryCodes",
+        DROP COLUMN IF EXISTS "mfaLastUsedStep",
+        DROP COLUMN IF EXISTS "mfaSecret",
+        DROP COLUMN IF EXISTS "mfaEnabledAt",
+        DROP COLUMN IF EXISTS "mfaEnabled";
+    `);
+  }
+}
@@ -0,0 +1,48 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Adds per-organization SAML and OpenID Connect identity providers
+ */
+export class AddOrganizationSsoConnections1791763200000 implements MigrationInterface {
+  name = 'AddOrganizationSsoConnections1791763200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "ssoProtocolEnum" AS ENUM ('saml', 'oidc');
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "organization_sso_connections" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "organizationId" uuid NOT NULL,
+        "name" character varying(255) NOT NULL,
+        "protocol" "ssoProtocolEnum" NOT NULL,
+        "enabled" boolean NOT NULL DEFAULT false,
+        "domains" text[] NOT NULL DEFAULT '{}',
+        "verifiedDomains" text[] NOT NULL DEFAULT '{}',
+        "domainVerificationToken" character varying(64) NOT NULL,
+        "samlConfig" jsonb,
+        "oidcConfig" jsonb,
+        "attributeMapping" jsonb NOT NULL DEFAULT '{}'::jsonb,
+        "roleMappings" jsonb NOT NULL DEFAULT '[]'::jsonb,
+        "defaultRole" "membershipRoleEnum" NOT NULL DEFAULT 'learner',
+        "jitProvisioning" boolean NOT NULL DEFAULT true,
+        "createdBy" uuid NOT NULL,
+        "lastLoginAt" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_organization_sso_connections_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_organization_sso_connections_organizationId" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE
+      );
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_organization_sso_connections_organizationId" ON "organization_sso_connections" ("organizationId");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "organization_sso_connections";`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "ssoProtocolEnum";`);
+  }
+}
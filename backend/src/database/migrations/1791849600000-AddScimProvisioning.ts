@@ -0,0 +1,49 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Adds SCIM groups and the provisioning client's identifiers on memberships.
+ * managesAccount marks accounts the organization's SCIM client created, which
+ * it may change beyond the membership itself
+ */
+export class AddScimProvisioning1791849600000 implements MigrationInterface {
+  name = 'AddScimProvisioning1791849600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "organization_memberships"
+        ADD COLUMN IF NOT EXISTS "externalId" character varying(255),
+        ADD COLUMN IF NOT EXISTS "managesAccount" boolean NOT NULL DEFAULT false;
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "scim_groups" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "organizationId" uuid NOT NULL,
+        "displayName" character varying(255) NOT NULL,
+        "externalId" character varying(255),
+        "membershipRole" "membershipRoleEnum",
+        "teamId" uuid,
+        "memberIds" uuid[] NOT NULL DEFAULT '{}',
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_scim_groups_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_scim_groups_organizationId" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_scim_groups_teamId" FOREIGN KEY ("teamId") REFERENCES "teams"("id") ON DELETE SET NULL
+      );
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "IDX_scim_groups_organizationId_displayName" ON "scim_groups" ("organizationId", "displayName");
+      CREATE INDEX IF NOT EXISTS "IDX_scim_groups_organizationId_externalId" ON "scim_groups" ("organizationId", "externalId");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "scim_groups";`);
+    await queryRunner.query(`
+      ALTER TABLE "organization_memberships"
+        DROP COLUMN IF EXISTS "managesAccount",
+        DROP COLUMN IF EXISTS "externalId";
+    `);
+  }
+}
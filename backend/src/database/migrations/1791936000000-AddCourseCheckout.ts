@@ -0,0 +1,90 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Adds course coupons and the orders of paid course checkout
+ */
+export class AddCourseCheckout1791936000000 implements MigrationInterface {
+  name = 'AddCourseCheckout1791936000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "courseCouponDiscountTypeEnum" AS ENUM ('percentage', 'fixed');
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "course_coupons" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "organizationId" uuid NOT NULL,
+        "courseId" uuid,
+        "code" character varying(64) NOT NULL,
+        "discountType" "courseCouponDiscountTypeEnum" NOT NULL,
+        "discountValue" integer NOT NULL,
+        "currency" character varying(3),
+        "maxRedemptions" integer,
+        "redemptionCount" integer NOT NULL DEFAULT 0,
+        "validFrom" TIMESTAMP,
+        "validUntil" TIMESTAMP,
+        "isActive" boolean NOT NULL DEFAULT true,
+        "createdBy" uuid NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_course_coupons_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_course_coupons_organizationId" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_course_coupons_courseId" FOREIGN KEY ("courseId") REFERENCES "courses"("id") ON DELETE CASCADE
+      );
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "IDX_course_coupons_organizationId_code" ON "course_coupons" ("organizationId", "code");
+      CREATE INDEX IF NOT EXISTS "IDX_course_coupons_courseId" ON "course_coupons" ("courseId");
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "courseOrderStatusEnum" AS ENUM ('pending', 'paid', 'failed', 'cancelled', 'refunded');
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "course_orders" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "userId" uuid NOT NULL,
+        "courseId" uuid NOT NULL,
+        "organizationId" uuid NOT NULL,
+        "status" "courseOrderStatusEnum" NOT NULL DEFAULT 'pending',
+        "paymentProvider" "paymentProviderEnum" NOT NULL,
+        "providerOrderId" character varying(255),
+        "providerPaymentId" character varying(255),
+        "amountCents" integer NOT NULL,
+        "discountCents" integer NOT NULL DEFAULT 0,
+        "totalCents" integer NOT NULL,
+        "currency" character varying(3) NOT NULL,
+        "couponId" uuid,
+        "couponCode" character varying(64),
+        "paymentId" uuid,
+        "invoiceId" uuid,
+        "enrollmentId" uuid,
+        "paidAt" TIMESTAMP,
+        "refundedAt" TIMESTAMP,
+        "failureReason" text,
+        "refundReason" text,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_course_orders_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_course_orders_userId" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_course_orders_courseId" FOREIGN KEY ("courseId") REFERENCES "courses"("id") ON DELETE CASCADE
+      );
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_course_orders_userId_courseId" ON "course_orders" ("userId", "courseId");
+      CREATE INDEX IF NOT EXISTS "IDX_course_orders_paymentProvider_providerOrderId" ON "course_orders" ("paymentProvider", "providerOrderId");
+      CREATE INDEX IF NOT EXISTS "IDX_course_orders_status_createdAt" ON "course_orders" ("status", "createdAt");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "course_orders";`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "courseOrderStatusEnum";`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "course_coupons";`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "courseCouponDiscountTypeEnum";`);
+  }
+}
@@ -0,0 +1,53 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Adds recurring resume exports with optional email delivery
+ */
+export class AddResumeExportSchedules1792022400000 implements MigrationInterface {
+  name = 'AddResumeExportSchedules1792022400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "resumeExportFrequencyEnum" AS ENUM ('daily', 'weekly', 'monthly');
+      CREATE TYPE "resumeExportFormatEnum" AS ENUM ('pdf', 'pdf-ats');
+      CREATE TYPE "resumeExportScheduleStatusEnum" AS ENUM ('active', 'paused');
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "resume_export_schedules" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "resumeId" uuid NOT NULL,
+        "userId" uuid NOT NULL,
+        "frequency" "resumeExportFrequencyEnum" NOT NULL,
+        "format" "resumeExportFormatEnum" NOT NULL DEFAULT 'pdf',
+        "status" "resumeExportScheduleStatusEnum" NOT NULL DEFAULT 'active',
+        "emailDelivery" boolean NOT NULL DEFAULT false,
+        "recipients" text[] NOT NULL DEFAULT '{}',
+        "nextRunAt" TIMESTAMP NOT NULL,
+        "lastRunAt" TIMESTAMP,
+        "lastFilename" character varying(255),
+        "lastError" text,
+        "runCount" integer NOT NULL DEFAULT 0,
+        "failureCount" integer NOT NULL DEFAULT 0,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_resume_export_schedules_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_resume_export_schedules_resumeId" FOREIGN KEY ("resumeId") REFERENCES "user_resumes"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_resume_export_schedules_userId" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE
+      );
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_resume_export_schedules_resumeId" ON "resume_export_schedules" ("resumeId");
+      CREATE INDEX IF NOT EXISTS "IDX_resume_export_schedules_userId" ON "resume_export_schedules" ("userId");
+      CREATE INDEX IF NOT EXISTS "IDX_resume_export_schedules_status_nextRunAt" ON "resume_export_schedules" ("status", "nextRunAt");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "resume_export_schedules";`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "resumeExportScheduleStatusEnum";`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "resumeExportFormatEnum";`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "resumeExportFrequencyEnum";`);
+  }
+}
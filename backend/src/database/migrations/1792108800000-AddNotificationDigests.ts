@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Adds the digest_pending notification status for notifications held back
+ * for a digest, and the next digest time on notification preferences
+ */
+export class AddNotificationDigests1792108800000 implements MigrationInterface {
+  name = 'AddNotificationDigests1792108800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TYPE "notificationStatusEnum" ADD VALUE IF NOT EXISTS 'digest_pending';
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "user_notification_preferences" ADD COLUMN IF NOT EXISTS "nextDigestAt" TIMESTAMP;
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_user_notification_preferences_nextDigestAt" ON "user_notification_preferences" ("nextDigestAt");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_user_notification_preferences_nextDigestAt";`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_notification_preferences" DROP COLUMN IF EXISTS "nextDigestAt";`,
+    );
+
+    // Postgres cannot drop an enum value, so release held notifications instead
+    await queryRunner.query(`
+      UPDATE "notifications" SET "status" = 'pending' WHERE "status" = 'digest_pending';
+    `);
+  }
+}
@@ -0,0 +1,50 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Adds the registry of devices that receive push notifications over FCM or
+ * Web Push
+ */
+export class AddUserDevices1792195200000 implements MigrationInterface {
+  name = 'AddUserDevices1792195200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "devicePlatformEnum" AS ENUM ('ios', 'android', 'web');
+      CREATE TYPE "pushProviderEnum" AS ENUM ('fcm', 'web_push');
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "user_devices" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "userId" uuid NOT NULL,
+        "platform" "devicePlatformEnum" NOT NULL,
+        "provider" "pushProviderEnum" NOT NULL,
+        "token" text NOT NULL,
+        "webPushKeys" jsonb,
+        "deviceName" character varying(255),
+        "appVersion" character varying(50),
+        "userAgent" text,
+        "isActive" boolean NOT NULL DEFAULT true,
+        "lastSeenAt" TIMESTAMP NOT NULL,
+        "lastDeliveredAt" TIMESTAMP,
+        "failureCount" integer NOT NULL DEFAULT 0,
+        "lastError" text,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_user_devices_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_user_devices_userId" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE
+      );
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "IDX_user_devices_token" ON "user_devices" ("token");
+      CREATE INDEX IF NOT EXISTS "IDX_user_devices_userId_isActive" ON "user_devices" ("userId", "isActive");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "user_devices";`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "pushProviderEnum";`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "devicePlatformEnum";`);
+  }
+}
@@ -0,0 +1,55 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Adds the catalogue of database backups with their storage location,
+ * encryption parameters and verification state
+ */
+export class AddDatabaseBackups1792281600000 implements MigrationInterface {
+  name = 'AddDatabaseBackups1792281600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "backupTypeEnum" AS ENUM ('full', 'schema');
+      CREATE TYPE "backupStatusEnum" AS ENUM ('pending', 'in_progress', 'completed', 'failed');
+      CREATE TYPE "backupTriggerEnum" AS ENUM ('scheduled', 'manual');
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "database_backups" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "type" "backupTypeEnum" NOT NULL,
+        "status" "backupStatusEnum" NOT NULL DEFAULT 'pending',
+        "trigger" "backupTriggerEnum" NOT NULL,
+        "filename" character varying(255) NOT NULL,
+        "sizeBytes" bigint NOT NULL DEFAULT 0,
+        "checksum" character varying(64),
+        "encryption" jsonb,
+        "localPath" text,
+        "storageKey" text,
+        "tables" text[] NOT NULL DEFAULT '{}',
+        "recordCount" integer NOT NULL DEFAULT 0,
+        "durationMs" integer NOT NULL DEFAULT 0,
+        "error" text,
+        "triggeredById" uuid,
+        "completedAt" TIMESTAMP,
+        "verifiedAt" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_database_backups_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_database_backups_triggeredById" FOREIGN KEY ("triggeredById") REFERENCES "users"("id") ON DELETE SET NULL
+      );
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_database_backups_status_createdAt" ON "database_backups" ("status", "createdAt");
+      CREATE INDEX IF NOT EXISTS "IDX_database_backups_type_createdAt" ON "database_backups" ("type", "createdAt");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "database_backups";`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "backupTriggerEnum";`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "backupStatusEnum";`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "backupTypeEnum";`);
+  }
+}
@@ -0,0 +1,77 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Adds configurable hiring pipelines. Application stages become free-form
+ * keys so existing rows keep their values, which are the stage keys of the
+ * built-in pipeline. Applications are moved onto configured pipelines with
+ * POST hr/pipelines/migrate-applications once those pipelines exist
+ */
+export class AddHiringPipelines1792373477000 implements MigrationInterface {
+  name = 'AddHiringPipelines1792373477000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "hiring_pipelines" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "organizationId" uuid NOT NULL,
+        "jobId" uuid,
+        "name" character varying(255) NOT NULL,
+        "description" text,
+        "isDefault" boolean NOT NULL DEFAULT false,
+        "allowStageSkipping" boolean NOT NULL DEFAULT false,
+        "stages" jsonb NOT NULL DEFAULT '[]'::jsonb,
+        "createdById" uuid,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_hiring_pipelines_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_hiring_pipelines_organizationId" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_hiring_pipelines_jobId" FOREIGN KEY ("jobId") REFERENCES "jobs"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_hiring_pipelines_createdById" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL
+      );
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_hiring_pipelines_organizationId_isDefault" ON "hiring_pipelines" ("organizationId", "isDefault");
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_hiring_pipelines_jobId" ON "hiring_pipelines" ("jobId");
+    `);
+
+    // Keep the existing stage values while dropping the fixed enum
+    await queryRunner.query(`
+      ALTER TABLE "job_applications" ALTER COLUMN "stage" DROP DEFAULT;
+      ALTER TABLE "job_applications" ALTER COLUMN "stage" TYPE character varying(64) USING "stage"::text;
+      ALTER TABLE "job_applications" ALTER COLUMN "stage" SET DEFAULT 'screening';
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "job_applications" ADD COLUMN IF NOT EXISTS "pipelineId" uuid;
+      ALTER TABLE "job_applications" ADD CONSTRAINT "FK_job_applications_pipelineId" FOREIGN KEY ("pipelineId") REFERENCES "hiring_pipelines"("id") ON DELETE SET NULL;
+    `);
+
+    await queryRunner.query(`DROP TYPE IF EXISTS "applicationStageEnum";`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "job_applications" DROP CONSTRAINT IF EXISTS "FK_job_applications_pipelineId";
+      ALTER TABLE "job_applications" DROP COLUMN IF EXISTS "pipelineId";
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "applicationStageEnum" AS ENUM ('screening', 'phone_screen', 'technical', 'onsite', 'final', 'offer', 'hired');
+    `);
+
+    // Custom stage keys have no enum value and fall back to the first stage
+    await queryRunner.query(`
+      ALTER TABLE "job_applications" ALTER COLUMN "stage" DROP DEFAULT;
+      UPDATE "job_applications" SET "stage" = 'screening'
+        WHERE "stage" NOT IN ('screening', 'phone_screen', 'technical', 'onsite', 'final', 'offer', 'hired');
+      ALTER TABLE "job_applications" ALTER COLUMN "stage" TYPE "applicationStageEnum" USING "stage"::"applicationStageEnum";
+      ALTER TABLE "job_applications" ALTER COLUMN "stage" SET DEFAULT 'screening';
+    `);
+
+    await queryRunner.query(`DROP TABLE IF EXISTS "hiring_pipelines";`);
+  }
+}
@@ -0,0 +1,85 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Adds scorecard templates, per-interviewer scorecards and panel
+ * interviewers on interview sessions
+ */
+export class AddInterviewScorecards1792460000000 implements MigrationInterface {
+  name = 'AddInterviewScorecards1792460000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "interview_sessions" ADD COLUMN IF NOT EXISTS "panelInterviewerIds" uuid[] NOT NULL DEFAULT '{}';
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "scorecard_templates" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "organizationId" uuid NOT NULL,
+        "jobId" uuid,
+        "stageKey" character varying(64),
+        "name" character varying(255) NOT NULL,
+        "description" text,
+        "ratingScale" jsonb NOT NULL DEFAULT '{"min":1,"max":5}'::jsonb,
+        "competencies" jsonb NOT NULL DEFAULT '[]'::jsonb,
+        "questions" jsonb NOT NULL DEFAULT '[]'::jsonb,
+        "isActive" boolean NOT NULL DEFAULT true,
+        "createdById" uuid,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_scorecard_templates_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_scorecard_templates_organizationId" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_scorecard_templates_jobId" FOREIGN KEY ("jobId") REFERENCES "jobs"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_scorecard_templates_createdById" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL
+      );
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_scorecard_templates_organizationId_jobId_stageKey" ON "scorecard_templates" ("organizationId", "jobId", "stageKey");
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "scorecardRecommendationEnum" AS ENUM ('strong_hire', 'hire', 'no_hire', 'strong_no_hire');
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "interview_scorecards" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "interviewSessionId" uuid NOT NULL,
+        "templateId" uuid,
+        "interviewerId" uuid NOT NULL,
+        "candidateId" uuid NOT NULL,
+        "jobId" uuid,
+        "stageKey" character varying(64),
+        "ratingScale" jsonb NOT NULL,
+        "ratings" jsonb NOT NULL DEFAULT '[]'::jsonb,
+        "answers" jsonb NOT NULL DEFAULT '[]'::jsonb,
+        "overallScore" numeric(5,2) NOT NULL,
+        "recommendation" "scorecardRecommendationEnum" NOT NULL,
+        "notes" text,
+        "submittedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_interview_scorecards_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_interview_scorecards_interviewSessionId" FOREIGN KEY ("interviewSessionId") REFERENCES "interview_sessions"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_interview_scorecards_templateId" FOREIGN KEY ("templateId") REFERENCES "scorecard_templates"("id") ON DELETE SET NULL,
+        CONSTRAINT "FK_interview_scorecards_interviewerId" FOREIGN KEY ("interviewerId") REFERENCES "users"("id") ON DELETE CASCADE
+      );
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "IDX_interview_scorecards_interviewSessionId_interviewerId" ON "interview_scorecards" ("interviewSessionId", "interviewerId");
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_interview_scorecards_jobId_candidateId" ON "interview_scorecards" ("jobId", "candidateId");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "interview_scorecards";`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "scorecardRecommendationEnum";`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "scorecard_templates";`);
+    await queryRunner.query(
+      `ALTER TABLE "interview_sessions" DROP COLUMN IF EXISTS "panelInterviewerIds";`,
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Adds tokenised interview booking links. Interviewer availability is kept
+ * on the existing hr_profiles.workSchedule column
+ */
+export class AddInterviewBookingLinks1792546000000 implements MigrationInterface {
+  name = 'AddInterviewBookingLinks1792546000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "bookingLinkStatusEnum" AS ENUM ('pending', 'booked', 'cancelled');
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "interview_booking_links" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "organizationId" uuid NOT NULL,
+        "tokenHash" character varying(64) NOT NULL,
+        "candidateId" uuid NOT NULL,
+        "jobId" uuid,
+        "interviewerIds" uuid[] NOT NULL,
+        "type" "interviewTypeEnum" NOT NULL,
+        "mode" "interviewModeEnum" NOT NULL,
+        "durationMinutes" integer NOT NULL DEFAULT 60,
+        "windowStart" TIMESTAMP NOT NULL,
+        "windowEnd" TIMESTAMP NOT NULL,
+        "minNoticeHours" integer NOT NULL DEFAULT 24,
+        "rescheduleDeadlineHours" integer NOT NULL DEFAULT 24,
+        "candidateTimezone" character varying(64),
+        "status" "bookingLinkStatusEnum" NOT NULL DEFAULT 'pending',
+        "interviewSessionId" uuid,
+        "rescheduleCount" integer NOT NULL DEFAULT 0,
+        "bookedAt" TIMESTAMP,
+        "expiresAt" TIMESTAMP NOT NULL,
+        "createdById" uuid,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_interview_booking_links_id" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_interview_booking_links_tokenHash" UNIQUE ("tokenHash"),
+        CONSTRAINT "FK_interview_booking_links_organizationId" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_interview_booking_links_candidateId" FOREIGN KEY ("candidateId") REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_interview_booking_links_jobId" FOREIGN KEY ("jobId") REFERENCES "jobs"("id") ON DELETE SET NULL,
+        CONSTRAINT "FK_interview_booking_links_interviewSessionId" FOREIGN KEY ("interviewSessionId") REFERENCES "interview_sessions"("id") ON DELETE SET NULL,
+        CONSTRAINT "FK_interview_booking_links_createdById" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL
+      );
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_interview_booking_links_organizationId_status" ON "interview_booking_links" ("organizationId", "status");
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_interview_booking_links_candidateId" ON "interview_booking_links" ("candidateId");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "interview_booking_links";`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "bookingLinkStatusEnum";`);
+  }
+}
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Adds the iCalendar SEQUENCE counter to interview sessions and per-user
+ * secret calendar feed tokens
+ */
+export class AddCalendarFeeds1792632000000 implements MigrationInterface {
+  name = 'AddCalendarFeeds1792632000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "interview_sessions" ADD COLUMN IF NOT EXISTS "calendarSequence" integer NOT NULL DEFAULT 0;
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "calendar_feeds" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "userId" uuid NOT NULL,
+        "tokenHash" character varying(64) NOT NULL,
+        "lastAccessedAt" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_calendar_feeds_id" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_calendar_feeds_userId" UNIQUE ("userId"),
+        CONSTRAINT "UQ_calendar_feeds_tokenHash" UNIQUE ("tokenHash"),
+        CONSTRAINT "FK_calendar_feeds_userId" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE
+      );
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "calendar_feeds";`);
+    await queryRunner.query(
+      `ALTER TABLE "interview_sessions" DROP COLUMN IF EXISTS "calendarSequence";`,
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Records which meeting provider created an interview's meeting and stores
+ * the per-role join links
+ */
+export class AddInterviewMeetingProviders1792718000000 implements MigrationInterface {
+  name = 'AddInterviewMeetingProviders1792718000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "interview_sessions"
+        ADD COLUMN IF NOT EXISTS "meetingProvider" character varying,
+        ADD COLUMN IF NOT EXISTS "meetingIntegrationId" uuid,
+        ADD COLUMN IF NOT EXISTS "meetingLinks" jsonb;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "interview_sessions"
+        DROP COLUMN IF EXISTS "meetingLinks",
+        DROP COLUMN IF EXISTS "meetingIntegrationId",
+        DROP COLUMN IF EXISTS "meetingProvider";
+    `);
+  }
+}
@@ -3,6 +3,7 @@ EventEmitter.defaultMaxListeners = 30;
 import { NestFactory, Reflector } from '@nestjs/core';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { ConfigService } from '@nestjs/config';
 import helmet from 'helmet';
 import compression from 'compression';
@@ -32,8 +33,9 @@ async function bootstrap(): Promise<void> {
     const winstonLogger = createWinstonLogger();
 
     // Create NestJS application with Winston logger
-    const app = await NestFactory.create(AppModule, {
-      
+    const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+      // Payment webhooks verify signatures against the raw body
+      rawBody: true,
     });
 
     // Get configuration service
@@ -62,6 +64,9 @@ async function bootstrap(): Promise<void> {
     // Compression middleware
     app.use(compression());
 
+    // SCIM clients send application/scim+json bodies
+    app.useBodyParser('json', { type: 'application/scim+json' });
+
     // CORS configuration
     app.enableCors({
       origin: configService.get<string>('CORS_ORIGIN', 'http://localhost:3001'),
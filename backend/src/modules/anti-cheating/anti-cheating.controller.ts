@@ -28,6 +28,7 @@ import { AntiCheatService } from './services/anti-cheating.service';
 import {
   StartProctorSessionDto,
   RecordViolationDto,
+  ReviewViolationDto,
   ValidateBrowserDto,
   AnalyzeTimingDto,
   ProctorSessionDto,
@@ -371,33 +372,7 @@ export class AntiCheatController {
     @Param('sessionId') sessionId: string,
   ): Promise<ProctorSessionDto> {
     try {
-      // In a real implementation, this would retrieve from the service
-      // For now, return a mock session
-      const mockSession = {
-        id: sessionId,
-        attemptId: 'attempt-123',
-        userId: 'user-456',
-        startTime: new Date(Date.now() - 3600000), // 1 hour ago
-        endTime: new Date(),
-        status: 'completed',
-        violations: [
-          {
-            id: 'violation-1',
-            type: 'tab_switch',
-            severity: 'medium',
-            timestamp: new Date(Date.now() - 1800000), // 30 minutes ago
-            flagged: true,
-          },
-        ],
-        browserFingerprint: 'fp_123456',
-        ipAddress: '192.168.1.100',
-        userAgent: 'Mozilla/5.0...',
-        screenResolution: '1920x1080',
-        timezone: 'America/New_York',
-        metadata: {},
-      };
-
-      return new ProctorSessionDto(mockSession);
+      return await this.antiCheatService.getProctorSession(sessionId);
     } catch (error) {
       throw new HttpException(
         error.message || 'Failed to get proctor session',
@@ -408,6 +383,7 @@ export class AntiCheatController {
 
   @Put('violations/:violationId/review')
   @UseGuards(RolesGuard)
+  @UsePipes(new ValidationPipe({ transform: true }))
   @Roles(UserRole.ADMIN, UserRole.INSTRUCTOR)
   @ApiOperation({ summary: 'Review and update a security violation' })
   @ApiParam({ name: 'violationId', type: 'string' })
@@ -423,15 +399,14 @@ export class AntiCheatController {
     status: HttpStatus.FORBIDDEN,
     description: 'Insufficient permissions',
   })
+  @ApiBody({ type: ReviewViolationDto })
   async reviewViolation(
     @Param('violationId') violationId: string,
-    @Body('reviewNotes') reviewNotes: string,
-    @Body('flagged') flagged: boolean,
+    @Body() reviewDto: ReviewViolationDto,
     @Request() req: any,
   ): Promise<{ message: string }> {
     try {
-      // In a real implementation, this would update the violation in the database
-      // For now, just return success
+      await this.antiCheatService.reviewViolation(violationId, reviewDto, req.user);
       return { message: 'Violation reviewed successfully' };
     } catch (error) {
       throw new HttpException(
@@ -1,11 +1,14 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AntiCheatController } from './anti-cheating.controller';
 import { AntiCheatService } from './services/anti-cheating.service';
 import { Assessment } from '../../database/entities/assessment.entity';
 import { AssessmentAttempt } from '../../database/entities/assessment-attempt.entity';
 import { User } from '../../database/entities/user.entity';
 import { Enrollment } from '../../database/entities/enrollment.entity';
+import { ProctorSession } from '../../database/entities/proctor-session.entity';
+import { SecurityViolation } from '../../database/entities/security-violation.entity';
 
 @Module({
   imports: [
@@ -14,7 +17,10 @@ import { Enrollment } from '../../database/entities/enrollment.entity';
       AssessmentAttempt,
       User,
       Enrollment,
+      ProctorSession,
+      SecurityViolation,
     ]),
+    ScheduleModule.forRoot(),
   ],
   controllers: [AntiCheatController],
   providers: [AntiCheatService],
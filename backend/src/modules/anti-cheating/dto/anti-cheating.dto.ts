@@ -13,25 +13,12 @@ import {
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
-export enum ViolationType {
-  TAB_SWITCH = 'tab_switch',
-  WINDOW_BLUR = 'window_blur',
-  COPY_PASTE = 'copy_paste',
-  RIGHT_CLICK = 'right_click',
-  DEV_TOOLS = 'dev_tools',
-  FULLSCREEN_EXIT = 'fullscreen_exit',
-  SUSPICIOUS_TIMING = 'suspicious_timing',
-  MULTIPLE_SESSIONS = 'multiple_sessions',
-  IP_CHANGE = 'ip_change',
-  BROWSER_CHANGE = 'browser_change',
-}
+import {
+  ViolationType,
+  ViolationSeverity,
+} from '../../../database/entities/security-violation.entity';
 
-export enum ViolationSeverity {
-  LOW = 'low',
-  MEDIUM = 'medium',
-  HIGH = 'high',
-  CRITICAL = 'critical',
-}
+export { ViolationType, ViolationSeverity };
 
 export class StartProctorSessionDto {
   @ApiProperty({ description: 'Assessment attempt ID' })
@@ -79,6 +66,18 @@ export class RecordViolationDto {
   details?: Record<string, any>;
 }
 
+export class ReviewViolationDto {
+  @ApiPropertyOptional({ description: 'Reviewer notes' })
+  @IsOptional()
+  @IsString()
+  reviewNotes?: string;
+
+  @ApiPropertyOptional({ description: 'Keep or clear the review flag' })
+  @IsOptional()
+  @IsBoolean()
+  flagged?: boolean;
+}
+
 export class ValidateBrowserDto {
   @ApiProperty({ description: 'User agent string' })
   @IsString()
@@ -0,0 +1,188 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { NotFoundException } from '@nestjs/common';
+import { AntiCheatService } from './anti-cheating.service';
+import { Assessment } from '../../../database/entities/assessment.entity';
+import { AssessmentAttempt } from '../../../database/entities/assessment-attempt.entity';
+import { User } from '../../../database/entities/user.entity';
+import { Enrollment } from '../../../database/entities/enrollment.entity';
+import {
+  ProctorSession,
+  ProctorSessionStatus,
+} from '../../../database/entities/proctor-session.entity';
+import {
+  SecurityViolation,
+  ViolationSeverity,
+  ViolationType,
+} from '../../../database/entities/security-violation.entity';
+
+describe('AntiCheatService', () => {
+  let service: AntiCheatService;
+
+  const mockRepositories = {
+    attempt: {
+      findOne: jest.fn(),
+      update: jest.fn(),
+    },
+    session: {
+      find: jest.fn(),
+      findOne: jest.fn(),
+      update: jest.fn(),
+    },
+    violation: {
+      create: jest.fn(data => Object.assign(new SecurityViolation(), data)),
+      save: jest.fn(entity => Promise.resolve({ id: 'violation-1', ...entity })),
+      count: jest.fn(),
+      find: jest.fn(),
+      findOne: jest.fn(),
+    },
+  };
+
+  const mockEventEmitter = { emit: jest.fn() };
+
+  const learner = { id: 'learner-1' } as User;
+
+  const buildSession = (overrides: Partial<ProctorSession> = {}): ProctorSession =>
+    Object.assign(new ProctorSession(), {
+      id: 'session-1',
+      attemptId: 'attempt-1',
+      userId: 'learner-1',
+      status: ProctorSessionStatus.ACTIVE,
+      startTime: new Date(Date.now() - 60000),
+      expiresAt: new Date(Date.now() + 60000),
+      metadata: {},
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AntiCheatService,
+        { provide: getRepositoryToken(Assessment), useValue: {} },
+        { provide: getRepositoryToken(AssessmentAttempt), useValue: mockRepositories.attempt },
+        { provide: getRepositoryToken(User), useValue: {} },
+        { provide: getRepositoryToken(Enrollment), useValue: {} },
+        { provide: getRepositoryToken(ProctorSession), useValue: mockRepositories.session },
+        { provide: getRepositoryToken(SecurityViolation), useValue: mockRepositories.violation },
+        { provide: EventEmitter2, useValue: mockEventEmitter },
+      ],
+    }).compile();
+
+    service = module.get<AntiCheatService>(AntiCheatService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('recordViolation', () => {
+    it('persists the violation and links a summary into the attempt', async () => {
+      const session = buildSession();
+      mockRepositories.session.findOne.mockResolvedValue(session);
+      mockRepositories.session.find.mockResolvedValue([session]);
+      mockRepositories.attempt.findOne.mockResolvedValue({ assessment: { metadata: {} } });
+      mockRepositories.violation.count.mockResolvedValue(1);
+      mockRepositories.violation.find.mockResolvedValue([
+        Object.assign(new SecurityViolation(), {
+          type: ViolationType.COPY_PASTE,
+          severity: ViolationSeverity.CRITICAL,
+          flagged: true,
+          reviewed: false,
+          timestamp: new Date(),
+        }),
+      ]);
+
+      const result = await service.recordViolation(
+        'session-1',
+        { type: ViolationType.COPY_PASTE, severity: ViolationSeverity.CRITICAL },
+        learner,
+      );
+
+      expect(result.flagged).toBe(true);
+      expect(mockRepositories.violation.save).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionId: 'session-1', attemptId: 'attempt-1' }),
+      );
+      expect(mockRepositories.attempt.update).toHaveBeenCalledWith('attempt-1', {
+        proctoring: expect.objectContaining({
+          sessionIds: ['session-1'],
+          violationCount: 1,
+          flaggedViolationCount: 1,
+          highestSeverity: ViolationSeverity.CRITICAL,
+          violationsByType: { copy_paste: 1 },
+        }),
+      });
+    });
+  });
+
+  describe('sweepExpiredSessions', () => {
+    it('terminates expired sessions and flags their attempts', async () => {
+      const session = buildSession({ expiresAt: new Date(Date.now() - 1000) });
+      mockRepositories.session.find.mockResolvedValueOnce([session]).mockResolvedValue([session]);
+      mockRepositories.session.update.mockResolvedValue({ affected: 1 });
+      mockRepositories.violation.find.mockResolvedValue([]);
+
+      await service.sweepExpiredSessions();
+
+      expect(mockRepositories.session.update).toHaveBeenCalledWith(
+        { id: 'session-1', status: ProctorSessionStatus.ACTIVE },
+        expect.objectContaining({
+          status: ProctorSessionStatus.TERMINATED,
+          terminationReason: 'Session timeout',
+        }),
+      );
+      expect(mockRepositories.attempt.update).toHaveBeenCalledWith('attempt-1', {
+        flaggedForReview: true,
+      });
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+        'proctor.session.terminated',
+        expect.objectContaining({ reason: 'Session timeout' }),
+      );
+    });
+
+    it('skips sessions already closed by another instance', async () => {
+      mockRepositories.session.find.mockResolvedValue([
+        buildSession({ expiresAt: new Date(Date.now() - 1000) }),
+      ]);
+      mockRepositories.session.update.mockResolvedValue({ affected: 0 });
+
+      await service.sweepExpiredSessions();
+
+      expect(mockRepositories.attempt.update).not.toHaveBeenCalled();
+      expect(mockEventEmitter.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reviewViolation', () => {
+    it('records the reviewer on the stored violation', async () => {
+      mockRepositories.violation.findOne.mockResolvedValue(
+        Object.assign(new SecurityViolation(), {
+          id: 'violation-1',
+          attemptId: 'attempt-1',
+          flagged: true,
+          reviewed: false,
+        }),
+      );
+      mockRepositories.session.find.mockResolvedValue([]);
+      mockRepositories.violation.find.mockResolvedValue([]);
+
+      const result = await service.reviewViolation(
+        'violation-1',
+        { reviewNotes: 'Accidental', flagged: false },
+        { id: 'instructor-1' } as User,
+      );
+
+      expect(result.reviewed).toBe(true);
+      expect(result.flagged).toBe(false);
+      expect(result.reviewedBy).toBe('instructor-1');
+    });
+
+    it('throws when the violation does not exist', async () => {
+      mockRepositories.violation.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.reviewViolation('missing', {}, { id: 'instructor-1' } as User),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
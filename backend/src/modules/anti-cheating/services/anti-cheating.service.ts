@@ -1,47 +1,36 @@
-import { Injectable, Logger, ForbiddenException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  ForbiddenException,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Repository, LessThan, MoreThan } from 'typeorm';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Cron, CronExpression } from '@nestjs/schedule';
 import { Assessment } from '../../../database/entities/assessment.entity';
 import { AssessmentAttempt } from '../../../database/entities/assessment-attempt.entity';
 import { User } from '../../../database/entities/user.entity';
 import { Enrollment } from '../../../database/entities/enrollment.entity';
+import {
+  ProctorSession,
+  ProctorSessionStatus,
+} from '../../../database/entities/proctor-session.entity';
+import {
+  SecurityViolation,
+  ViolationType,
+  ViolationSeverity,
+} from '../../../database/entities/security-violation.entity';
 import {
   ProctorSessionDto,
   SuspiciousActivityDto,
   AntiCheatConfigDto,
   SecurityViolationDto,
   BrowserLockdownDto,
+  ReviewViolationDto,
 } from '../dto/anti-cheating.dto';
 
-export interface ProctorSession {
-  id: string;
-  attemptId: string;
-  userId: string;
-  startTime: Date;
-  endTime?: Date;
-  status: 'active' | 'completed' | 'terminated';
-  violations: SecurityViolation[];
-  browserFingerprint: string;
-  ipAddress: string;
-  userAgent: string;
-  screenResolution: string;
-  timezone: string;
-  metadata: Record<string, any>;
-}
-
-export interface SecurityViolation {
-  id: string;
-  type: 'tab_switch' | 'window_blur' | 'copy_paste' | 'right_click' | 'dev_tools' | 'fullscreen_exit' | 'suspicious_timing' | 'multiple_sessions' | 'ip_change' | 'browser_change';
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  timestamp: Date;
-  details: Record<string, any>;
-  flagged: boolean;
-  reviewed: boolean;
-  reviewedBy?: string;
-  reviewNotes?: string;
-}
-
 export interface AntiCheatConfig {
   enableBrowserLockdown: boolean;
   preventTabSwitching: boolean;
@@ -63,10 +52,25 @@ export interface AntiCheatConfig {
   enableKeystrokeAnalysis: boolean;
 }
 
+/**
+ * Violation summary stored in AssessmentAttempt.proctoring
+ */
+export interface ProctoringSummary {
+  sessionIds: string[];
+  sessionStatus?: ProctorSessionStatus;
+  terminationReason?: string;
+  violationCount: number;
+  flaggedViolationCount: number;
+  unreviewedFlaggedCount: number;
+  highestSeverity?: ViolationSeverity;
+  violationsByType: Record<string, number>;
+  lastViolationAt?: Date;
+  updatedAt: Date;
+}
+
 @Injectable()
 export class AntiCheatService {
   private readonly logger = new Logger(AntiCheatService.name);
-  private proctorSessions = new Map<string, ProctorSession>();
   private defaultConfig: AntiCheatConfig = {
     enableBrowserLockdown: true,
     preventTabSwitching: true,
@@ -97,6 +101,10 @@ export class AntiCheatService {
     private userRepository: Repository<User>,
     @InjectRepository(Enrollment)
     private enrollmentRepository: Repository<Enrollment>,
+    @InjectRepository(ProctorSession)
+    private sessionRepository: Repository<ProctorSession>,
+    @InjectRepository(SecurityViolation)
+    private violationRepository: Repository<SecurityViolation>,
     private eventEmitter: EventEmitter2,
   ) {}
 
@@ -112,43 +120,46 @@ export class AntiCheatService {
       });
 
       if (!attempt) {
-        throw new Error('Assessment attempt not found');
+        throw new NotFoundException('Assessment attempt not found');
       }
 
       if (attempt.userId !== user.id) {
         throw new ForbiddenException('Access denied to this attempt');
       }
 
-      // Check for existing active sessions
-      const existingSessions = Array.from(this.proctorSessions.values())
-        .filter(s => s.userId === user.id && s.status === 'active');
+      // Check for existing active sessions, closing any the sweeper has not reached yet
+      const existingSessions = await this.sessionRepository.find({
+        where: { userId: user.id, status: ProctorSessionStatus.ACTIVE },
+      });
 
-      if (existingSessions.length > 0) {
+      for (const existing of existingSessions.filter(s => s.isExpired)) {
+        await this.terminateSession(existing, 'Session timeout');
+      }
+
+      if (existingSessions.some(s => !s.isExpired)) {
         throw new ForbiddenException('User already has an active proctoring session');
       }
 
-      // Create new proctor session
-      const session: ProctorSession = {
-        id: this.generateSessionId(),
-        attemptId,
-        userId: user.id,
-        startTime: new Date(),
-        status: 'active',
-        violations: [],
-        browserFingerprint: sessionData.browserFingerprint || '',
-        ipAddress: sessionData.ipAddress || '',
-        userAgent: sessionData.userAgent || '',
-        screenResolution: sessionData.screenResolution || '',
-        timezone: sessionData.timezone || '',
-        metadata: sessionData.metadata || {},
-      };
-
-      this.proctorSessions.set(session.id, session);
-
-      // Set session timeout
-      setTimeout(() => {
-        this.handleSessionTimeout(session.id);
-      }, this.getAssessmentConfig(attempt.assessment).sessionTimeout);
+      const startTime = new Date();
+      const session = await this.sessionRepository.save(
+        this.sessionRepository.create({
+          attemptId,
+          userId: user.id,
+          startTime,
+          expiresAt: new Date(
+            startTime.getTime() + this.getAssessmentConfig(attempt.assessment).sessionTimeout,
+          ),
+          status: ProctorSessionStatus.ACTIVE,
+          browserFingerprint: sessionData.browserFingerprint || '',
+          ipAddress: sessionData.ipAddress || '',
+          userAgent: sessionData.userAgent || '',
+          screenResolution: sessionData.screenResolution || '',
+          timezone: sessionData.timezone || '',
+          metadata: sessionData.metadata || {},
+        }),
+      );
+
+      await this.syncAttemptProctoring(attemptId);
 
       // Emit event
       this.eventEmitter.emit('proctor.session.started', {
@@ -159,7 +170,7 @@ export class AntiCheatService {
 
       this.logger.log(`Started proctor session ${session.id} for attempt ${attemptId}`);
 
-      return new ProctorSessionDto(session);
+      return new ProctorSessionDto({ ...session, violations: [] });
     } catch (error) {
       this.logger.error(`Failed to start proctor session for attempt ${attemptId}`, error);
       throw error;
@@ -168,20 +179,19 @@ export class AntiCheatService {
 
   async endProctorSession(sessionId: string, user: User): Promise<void> {
     try {
-      const session = this.proctorSessions.get(sessionId);
-      if (!session) {
-        throw new Error('Proctor session not found');
-      }
+      const session = await this.findSession(sessionId);
 
       if (session.userId !== user.id) {
         throw new ForbiddenException('Access denied to this session');
       }
 
-      session.status = 'completed';
-      session.endTime = new Date();
+      if (!(await this.closeSession(session, ProctorSessionStatus.COMPLETED))) {
+        throw new BadRequestException('Proctor session is no longer active');
+      }
 
       // Analyze session for final violations
       await this.analyzeSessionCompletion(session);
+      await this.syncAttemptProctoring(session.attemptId);
 
       // Emit event
       this.eventEmitter.emit('proctor.session.ended', {
@@ -202,40 +212,49 @@ export class AntiCheatService {
     user: User,
   ): Promise<SecurityViolationDto> {
     try {
-      const session = this.proctorSessions.get(sessionId);
-      if (!session) {
-        throw new Error('Proctor session not found');
-      }
+      const session = await this.findSession(sessionId);
 
       if (session.userId !== user.id) {
         throw new ForbiddenException('Access denied to this session');
       }
 
-      const violation: SecurityViolation = {
-        id: this.generateViolationId(),
-        type: violationData.type || 'tab_switch',
-        severity: violationData.severity || 'medium',
+      if (!session.isActive) {
+        throw new BadRequestException('Proctor session is no longer active');
+      }
+
+      const violation = this.violationRepository.create({
+        sessionId,
+        attemptId: session.attemptId,
+        userId: session.userId,
+        type: violationData.type || ViolationType.TAB_SWITCH,
+        severity: violationData.severity || ViolationSeverity.MEDIUM,
         timestamp: new Date(),
         details: violationData.details || {},
         flagged: false,
         reviewed: false,
-      };
+      });
 
       // Determine if violation should be auto-flagged
-      const config = await this.getSessionConfig(sessionId);
-      violation.flagged = this.shouldAutoFlag(violation, session.violations, config);
+      const config = await this.getSessionConfig(session);
+      const recentViolationCount = await this.violationRepository.count({
+        where: { sessionId, timestamp: MoreThan(new Date(Date.now() - 300000)) }, // 5 minutes
+      });
+      violation.flagged = this.shouldAutoFlag(violation, recentViolationCount, config);
 
-      session.violations.push(violation);
+      const savedViolation = await this.violationRepository.save(violation);
 
       // Check if maximum violations exceeded
-      if (session.violations.length >= config.maxViolationsAllowed) {
-        await this.terminateSession(sessionId, 'Maximum violations exceeded');
+      const violationCount = await this.violationRepository.count({ where: { sessionId } });
+      if (violationCount >= config.maxViolationsAllowed) {
+        await this.terminateSession(session, 'Maximum violations exceeded');
+      } else {
+        await this.syncAttemptProctoring(session.attemptId);
       }
 
       // Emit event
       this.eventEmitter.emit('proctor.violation.recorded', {
         session,
-        violation,
+        violation: savedViolation,
         user,
       });
 
@@ -243,13 +262,26 @@ export class AntiCheatService {
         `Recorded ${violation.severity} violation: ${violation.type} in session ${sessionId}`,
       );
 
-      return new SecurityViolationDto(violation);
+      return new SecurityViolationDto(savedViolation);
     } catch (error) {
       this.logger.error(`Failed to record violation for session ${sessionId}`, error);
       throw error;
     }
   }
 
+  async getProctorSession(sessionId: string): Promise<ProctorSessionDto> {
+    const session = await this.sessionRepository.findOne({
+      where: { id: sessionId },
+      relations: ['violations'],
+    });
+
+    if (!session) {
+      throw new NotFoundException('Proctor session not found');
+    }
+
+    return new ProctorSessionDto(session);
+  }
+
   async getSuspiciousActivity(
     assessmentId?: string,
     userId?: string,
@@ -257,44 +289,53 @@ export class AntiCheatService {
     endDate?: Date,
   ): Promise<SuspiciousActivityDto[]> {
     try {
-      const activities: SuspiciousActivityDto[] = [];
-
-      // Filter sessions based on criteria
-      const sessions = Array.from(this.proctorSessions.values()).filter(session => {
-        if (assessmentId && !session.attemptId.includes(assessmentId)) return false;
-        if (userId && session.userId !== userId) return false;
-        if (startDate && session.startTime < startDate) return false;
-        if (endDate && session.startTime > endDate) return false;
-        return true;
-      });
+      // Only sessions with at least one flagged violation are returned
+      const queryBuilder = this.sessionRepository
+        .createQueryBuilder('session')
+        .innerJoinAndSelect('session.violations', 'violation', 'violation.flagged = :flagged', {
+          flagged: true,
+        })
+        .innerJoin('session.attempt', 'attempt');
+
+      if (assessmentId) {
+        queryBuilder.andWhere('attempt.assessmentId = :assessmentId', { assessmentId });
+      }
 
-      for (const session of sessions) {
-        const flaggedViolations = session.violations.filter(v => v.flagged);
-        
-        if (flaggedViolations.length > 0) {
-          activities.push(new SuspiciousActivityDto({
-            sessionId: session.id,
-            attemptId: session.attemptId,
-            userId: session.userId,
-            violationCount: flaggedViolations.length,
-            highestSeverity: this.getHighestSeverity(flaggedViolations),
-            timestamp: session.startTime,
-            status: session.status,
-            violations: flaggedViolations,
-          }));
-        }
+      if (userId) {
+        queryBuilder.andWhere('session.userId = :userId', { userId });
       }
 
+      if (startDate) {
+        queryBuilder.andWhere('session.startTime >= :startDate', { startDate });
+      }
+
+      if (endDate) {
+        queryBuilder.andWhere('session.startTime <= :endDate', { endDate });
+      }
+
+      const sessions = await queryBuilder.getMany();
+
+      const activities = sessions.map(session => new SuspiciousActivityDto({
+        sessionId: session.id,
+        attemptId: session.attemptId,
+        userId: session.userId,
+        violationCount: session.violations.length,
+        highestSeverity: this.getHighestSeverity(session.violations),
+        timestamp: session.startTime,
+        status: session.status,
+        violations: session.violations,
+      }));
+
       // Sort by severity and violation count
       activities.sort((a, b) => {
         const severityOrder = { critical: 4, high: 3, medium: 2, low: 1 };
         const aSeverity = severityOrder[a.highestSeverity];
         const bSeverity = severityOrder[b.highestSeverity];
-        
+
         if (aSeverity !== bSeverity) {
           return bSeverity - aSeverity;
         }
-        
+
         return b.violationCount - a.violationCount;
       });
 
@@ -305,6 +346,34 @@ export class AntiCheatService {
     }
   }
 
+  async reviewViolation(
+    violationId: string,
+    reviewDto: ReviewViolationDto,
+    user: User,
+  ): Promise<SecurityViolationDto> {
+    const violation = await this.violationRepository.findOne({
+      where: { id: violationId },
+    });
+
+    if (!violation) {
+      throw new NotFoundException('Violation not found');
+    }
+
+    violation.review(user.id, reviewDto.reviewNotes, reviewDto.flagged);
+    const savedViolation = await this.violationRepository.save(violation);
+
+    await this.syncAttemptProctoring(violation.attemptId);
+
+    this.eventEmitter.emit('proctor.violation.reviewed', {
+      violation: savedViolation,
+      reviewer: user,
+    });
+
+    this.logger.log(`Violation ${violationId} reviewed by ${user.id}`);
+
+    return new SecurityViolationDto(savedViolation);
+  }
+
   async getBrowserLockdownConfig(assessmentId: string): Promise<BrowserLockdownDto> {
     try {
       const assessment = await this.assessmentRepository.findOne({
@@ -430,66 +499,136 @@ export class AntiCheatService {
     return { valid, warnings };
   }
 
-  private async terminateSession(sessionId: string, reason: string): Promise<void> {
-    const session = this.proctorSessions.get(sessionId);
-    if (!session) return;
+  // Scheduled session sweeper
+  @Cron(CronExpression.EVERY_MINUTE)
+  async sweepExpiredSessions(): Promise<void> {
+    try {
+      const expiredSessions = await this.sessionRepository.find({
+        where: { status: ProctorSessionStatus.ACTIVE, expiresAt: LessThan(new Date()) },
+        order: { expiresAt: 'ASC' },
+        take: 100,
+      });
 
-    session.status = 'terminated';
-    session.endTime = new Date();
-    session.metadata.terminationReason = reason;
+      for (const session of expiredSessions) {
+        await this.terminateSession(session, 'Session timeout');
+      }
+    } catch (error) {
+      this.logger.error(`Error sweeping expired proctor sessions: ${error.message}`);
+    }
+  }
+
+  /**
+   * Move an active session to its final status. The status guard in the
+   * update makes this safe when several instances race on the same session
+   */
+  private async closeSession(
+    session: ProctorSession,
+    status: ProctorSessionStatus,
+    reason?: string,
+  ): Promise<boolean> {
+    const endTime = new Date();
+    const result = await this.sessionRepository.update(
+      { id: session.id, status: ProctorSessionStatus.ACTIVE },
+      { status, endTime, terminationReason: reason },
+    );
+
+    if (!result.affected) return false;
+
+    session.status = status;
+    session.endTime = endTime;
+    session.terminationReason = reason;
+    return true;
+  }
+
+  private async terminateSession(session: ProctorSession, reason: string): Promise<void> {
+    if (!(await this.closeSession(session, ProctorSessionStatus.TERMINATED, reason))) return;
 
     // Flag the attempt for review
     await this.attemptRepository.update(session.attemptId, {
       flaggedForReview: true,
     });
+    await this.syncAttemptProctoring(session.attemptId);
 
     this.eventEmitter.emit('proctor.session.terminated', {
       session,
       reason,
     });
 
-    this.logger.warn(`Terminated proctor session ${sessionId}: ${reason}`);
-  }
-
-  private async handleSessionTimeout(sessionId: string): Promise<void> {
-    const session = this.proctorSessions.get(sessionId);
-    if (!session || session.status !== 'active') return;
-
-    await this.terminateSession(sessionId, 'Session timeout');
+    this.logger.warn(`Terminated proctor session ${session.id}: ${reason}`);
   }
 
   private async analyzeSessionCompletion(session: ProctorSession): Promise<void> {
     // Perform final analysis on the completed session
-    const violationsByType = this.groupViolationsByType(session.violations);
-    
+    const tabSwitches = await this.violationRepository.count({
+      where: { sessionId: session.id, type: ViolationType.TAB_SWITCH },
+    });
+
     // Check for patterns that might indicate cheating
-    if (violationsByType['tab_switch']?.length > 5) {
-      session.violations.push({
-        id: this.generateViolationId(),
-        type: 'suspicious_timing',
-        severity: 'high',
-        timestamp: new Date(),
-        details: { reason: 'Excessive tab switching detected' },
-        flagged: true,
-        reviewed: false,
-      });
+    if (tabSwitches > 5) {
+      await this.violationRepository.save(
+        this.violationRepository.create({
+          sessionId: session.id,
+          attemptId: session.attemptId,
+          userId: session.userId,
+          type: ViolationType.SUSPICIOUS_TIMING,
+          severity: ViolationSeverity.HIGH,
+          timestamp: new Date(),
+          details: { reason: 'Excessive tab switching detected' },
+          flagged: true,
+          reviewed: false,
+        }),
+      );
     }
   }
 
+  /**
+   * Write the violation summary of every session on the attempt into
+   * AssessmentAttempt.proctoring so graders see it alongside the attempt
+   */
+  private async syncAttemptProctoring(attemptId: string): Promise<void> {
+    const [sessions, violations] = await Promise.all([
+      this.sessionRepository.find({
+        where: { attemptId },
+        order: { startTime: 'ASC' },
+      }),
+      this.violationRepository.find({
+        where: { attemptId },
+        order: { timestamp: 'ASC' },
+      }),
+    ]);
+
+    const latestSession = sessions[sessions.length - 1];
+    const flaggedViolations = violations.filter(v => v.flagged);
+    const violationsByType = this.groupViolationsByType(violations);
+
+    const summary: ProctoringSummary = {
+      sessionIds: sessions.map(s => s.id),
+      sessionStatus: latestSession?.status,
+      terminationReason: latestSession?.terminationReason,
+      violationCount: violations.length,
+      flaggedViolationCount: flaggedViolations.length,
+      unreviewedFlaggedCount: flaggedViolations.filter(v => !v.reviewed).length,
+      highestSeverity: violations.length ? this.getHighestSeverity(violations) : undefined,
+      violationsByType: Object.fromEntries(
+        Object.entries(violationsByType).map(([type, list]) => [type, list.length]),
+      ),
+      lastViolationAt: violations[violations.length - 1]?.timestamp,
+      updatedAt: new Date(),
+    };
+
+    await this.attemptRepository.update(attemptId, { proctoring: { ...summary } });
+  }
+
   private shouldAutoFlag(
     violation: SecurityViolation,
-    existingViolations: SecurityViolation[],
+    recentViolationCount: number,
     config: AntiCheatConfig,
   ): boolean {
     // Auto-flag critical violations
-    if (violation.severity === 'critical') return true;
+    if (violation.severity === ViolationSeverity.CRITICAL) return true;
 
     // Auto-flag if threshold exceeded
-    const recentViolations = existingViolations.filter(
-      v => Date.now() - v.timestamp.getTime() < 300000 // 5 minutes
-    );
-
-    return recentViolations.length >= config.autoFlagThreshold;
+    return recentViolationCount >= config.autoFlagThreshold;
   }
 
   private getAssessmentConfig(assessment: Assessment): AntiCheatConfig {
@@ -499,12 +638,10 @@ export class AntiCheatService {
       ...(assessment.metadata?.antiCheatConfig && typeof assessment.metadata.antiCheatConfig === 'object'
         ? assessment.metadata.antiCheatConfig
         : {}),
-    };}
-
-  private async getSessionConfig(sessionId: string): Promise<AntiCheatConfig> {
-    const session = this.proctorSessions.get(sessionId);
-    if (!session) return this.defaultConfig;
+    };
+  }
 
+  private async getSessionConfig(session: ProctorSession): Promise<AntiCheatConfig> {
     const attempt = await this.attemptRepository.findOne({
       where: { id: session.attemptId },
       relations: ['assessment'],
@@ -513,13 +650,30 @@ export class AntiCheatService {
     return attempt ? this.getAssessmentConfig(attempt.assessment) : this.defaultConfig;
   }
 
-  private getHighestSeverity(violations: SecurityViolation[]): 'low' | 'medium' | 'high' | 'critical' {
-    const severityOrder = ['low', 'medium', 'high', 'critical'];
+  private async findSession(sessionId: string): Promise<ProctorSession> {
+    const session = await this.sessionRepository.findOne({
+      where: { id: sessionId },
+    });
+
+    if (!session) {
+      throw new NotFoundException('Proctor session not found');
+    }
+
+    return session;
+  }
+
+  private getHighestSeverity(violations: SecurityViolation[]): ViolationSeverity {
+    const severityOrder = [
+      ViolationSeverity.LOW,
+      ViolationSeverity.MEDIUM,
+      ViolationSeverity.HIGH,
+      ViolationSeverity.CRITICAL,
+    ];
     return violations.reduce((highest, violation) => {
       return severityOrder.indexOf(violation.severity) > severityOrder.indexOf(highest)
         ? violation.severity
         : highest;
-    }, 'low' as any);
+    }, ViolationSeverity.LOW);
   }
 
   private groupViolationsByType(violations: SecurityViolation[]): Record<string, SecurityViolation[]> {
@@ -531,12 +685,4 @@ export class AntiCheatService {
       return groups;
     }, {} as Record<string, SecurityViolation[]>);
   }
-
-  private generateSessionId(): string {
-    return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
-
-  private generateViolationId(): string {
-    return `violation_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
 }
@@ -26,6 +26,7 @@ import {
 } from '@nestjs/swagger';
 import { UserRole } from '../../database/entities/user.entity';
 import { AssessmentService } from './services/assessment.service';
+import { GradingService } from './services/grading.service';
 import {
   CreateAssessmentDto,
   UpdateAssessmentDto,
@@ -37,6 +38,8 @@ import {
   AssessmentResponseDto,
   AssessmentAttemptResponseDto,
   AssessmentListResponseDto,
+  GradingQueueQueryDto,
+  GradeQuestionDto,
 } from './dto/assessment.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '@/common/guards/roles.guard';
@@ -47,7 +50,10 @@ import { Roles } from '@/common/decorators/roles.decorator';
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth('JWT-auth')
 export class AssessmentsController {
-  constructor(private readonly assessmentService: AssessmentService) {}
+  constructor(
+    private readonly assessmentService: AssessmentService,
+    private readonly gradingService: GradingService,
+  ) {}
 
  @Post()
 // @UseGuards(RolesGuard)
@@ -127,7 +133,7 @@ export class AssessmentsController {
         createAssessmentDto,
         req.user,
       );
-      return new AssessmentResponseDto(assessment);
+      return new AssessmentResponseDto(assessment, { includeAnswerKey: true });
     } catch (error) {
       throw new HttpException(
         error.message || 'Failed to create assessment',
@@ -166,7 +172,8 @@ export class AssessmentsController {
         id,
         req.user,
       );
-      return new AssessmentResponseDto(assessment);
+      // Questions are only loaded for users who manage the assessment
+      return new AssessmentResponseDto(assessment, { includeAnswerKey: true });
     } catch (error) {
       throw new HttpException(
         error.message || 'Failed to retrieve assessment',
@@ -325,7 +332,7 @@ export class AssessmentsController {
         id,
         req.user,
       );
-      return new AssessmentResponseDto(assessment);
+      return new AssessmentResponseDto(assessment, { includeAnswerKey: true });
     } catch (error) {
       throw new HttpException(
         error.message || 'Failed to publish assessment',
@@ -370,7 +377,7 @@ export class AssessmentsController {
       addQuestionDto as any,
         req.user,
       );
-      return new AssessmentResponseDto(assessment);
+      return new AssessmentResponseDto(assessment, { includeAnswerKey: true });
     } catch (error) {
       throw new HttpException(
         error.message || 'Failed to add question',
@@ -422,7 +429,7 @@ export class AssessmentsController {
         updateQuestionDto as any,
         req.user,
       );
-      return new AssessmentResponseDto(assessment);
+      return new AssessmentResponseDto(assessment, { includeAnswerKey: true });
     } catch (error) {
       throw new HttpException(
         error.message || 'Failed to update question',
@@ -470,7 +477,7 @@ export class AssessmentsController {
         questionIndex.toString(),
         req.user,
       );
-      return new AssessmentResponseDto(assessment);
+      return new AssessmentResponseDto(assessment, { includeAnswerKey: true });
     } catch (error) {
       throw new HttpException(
         error.message || 'Failed to remove question',
@@ -685,7 +692,7 @@ export class AssessmentsController {
         reason,
         req.user,
       );
-      return new AssessmentAttemptResponseDto(attempt);
+      return new AssessmentAttemptResponseDto(attempt, { includeAnswerKey: true });
     } catch (error) {
       throw new HttpException(
         error.message || 'Failed to flag assessment attempt',
@@ -693,4 +700,83 @@ export class AssessmentsController {
       );
     }
   }
+
+  @Get('grading/queue')
+  //@UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.INSTRUCTOR)
+  @UsePipes(new ValidationPipe({ transform: true }))
+  @ApiOperation({ summary: 'List ungraded responses awaiting manual review' })
+  @ApiQuery({ name: 'courseId', required: false, type: String })
+  @ApiQuery({ name: 'assessmentId', required: false, type: String })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Grading queue retrieved successfully',
+  })
+  async getGradingQueue(
+    @Query() queryDto: GradingQueueQueryDto,
+    @Request() req: any,
+  ) {
+    try {
+      return await this.gradingService.getGradingQueue(queryDto, req.user);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to retrieve grading queue',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Put('attempts/:attemptId/questions/:questionId/grade')
+  //@UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.INSTRUCTOR)
+  @UsePipes(new ValidationPipe({ transform: true }))
+  @ApiOperation({ summary: 'Grade a manually graded question in an attempt' })
+  @ApiParam({
+    name: 'attemptId',
+    description: 'Assessment attempt ID',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiParam({
+    name: 'questionId',
+    description: 'Question ID',
+    type: 'string',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Question graded successfully',
+    type: AssessmentAttemptResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Attempt is not awaiting review or the grade is invalid',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Insufficient permissions',
+  })
+  @ApiBody({ type: GradeQuestionDto })
+  async gradeQuestion(
+    @Param('attemptId', ParseUUIDPipe) attemptId: string,
+    @Param('questionId') questionId: string,
+    @Body() gradeQuestionDto: GradeQuestionDto,
+    @Request() req: any,
+  ): Promise<AssessmentAttemptResponseDto> {
+    try {
+      const attempt = await this.gradingService.gradeQuestion(
+        attemptId,
+        questionId,
+        gradeQuestionDto,
+        req.user,
+      );
+      return new AssessmentAttemptResponseDto(attempt, { includeAnswerKey: true });
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to grade question',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
 }
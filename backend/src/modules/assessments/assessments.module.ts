@@ -1,6 +1,9 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { AssessmentService } from './services/assessment.service';
+import { CodeRunnerService } from './services/code-runner.service';
+import { CodeGradingService } from './services/code-grading.service';
+import { GradingService } from './services/grading.service';
 import { Assessment } from '../../database/entities/assessment.entity';
 import { AssessmentAttempt } from '../../database/entities/assessment-attempt.entity';
 import { Course } from '../../database/entities/course.entity';
@@ -23,7 +26,7 @@ import { AssessmentsController } from './assessments.controller';
     ]),
   ],
   controllers: [AssessmentsController],
-  providers: [AssessmentService],
+  providers: [AssessmentService, CodeRunnerService, CodeGradingService, GradingService],
   exports: [AssessmentService],
 })
 export class AssessmentsModule {}
@@ -19,6 +19,10 @@ import {
   AssessmentType,
   AssessmentStatus,
   QuestionType,
+  CodeLanguage,
+  ScoreRoundingMode,
+  QuestionDifficulty,
+  AssessmentQuestion,
 } from '../../../database/entities/assessment.entity';
 import { AssessmentAttemptStatus } from '@/database/entities/assessment-attempt.entity';
 
@@ -37,6 +41,165 @@ export class QuestionOptionDto {
   explanation?: string;
 }
 
+export class CodeTestCaseDto {
+  @ApiProperty({ description: 'Test case identifier, unique within the question' })
+  @IsString()
+  id: string;
+
+  @ApiProperty({ description: 'Input passed to the program on stdin' })
+  @IsString()
+  input: string;
+
+  @ApiProperty({ description: 'Expected stdout (trailing whitespace is ignored)' })
+  @IsString()
+  expectedOutput: string;
+
+  @ApiPropertyOptional({ description: 'Relative weight of this test case', minimum: 0, default: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  points?: number;
+
+  @ApiProperty({ description: 'Whether the test case is hidden from students' })
+  @IsBoolean()
+  hidden: boolean;
+}
+
+export class CodeQuestionConfigDto {
+  @ApiProperty({ enum: CodeLanguage, description: 'Language submissions are written in' })
+  @IsEnum(CodeLanguage)
+  language: CodeLanguage;
+
+  @ApiProperty({ type: [CodeTestCaseDto], description: 'Visible and hidden test cases' })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => CodeTestCaseDto)
+  testCases: CodeTestCaseDto[];
+
+  @ApiPropertyOptional({ description: 'Wall-clock limit per test case in milliseconds', minimum: 100, maximum: 10000 })
+  @IsOptional()
+  @IsNumber()
+  @Min(100)
+  @Max(10000)
+  timeLimitMs?: number;
+
+  @ApiPropertyOptional({ description: 'Memory limit in megabytes', minimum: 16, maximum: 512 })
+  @IsOptional()
+  @IsNumber()
+  @Min(16)
+  @Max(512)
+  memoryLimitMb?: number;
+
+  @ApiPropertyOptional({ description: 'Starter code shown to students' })
+  @IsOptional()
+  @IsString()
+  starterCode?: string;
+}
+
+export class RubricLevelDto {
+  @ApiProperty({ description: 'Level identifier, unique within the criterion' })
+  @IsString()
+  id: string;
+
+  @ApiProperty({ description: 'Level label (e.g. Exemplary, Proficient)' })
+  @IsString()
+  label: string;
+
+  @ApiPropertyOptional({ description: 'What work at this level looks like' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ description: 'Rubric points for this level', minimum: 0 })
+  @IsNumber()
+  @Min(0)
+  points: number;
+}
+
+export class RubricCriterionDto {
+  @ApiProperty({ description: 'Criterion identifier, unique within the rubric' })
+  @IsString()
+  id: string;
+
+  @ApiProperty({ description: 'Criterion title' })
+  @IsString()
+  title: string;
+
+  @ApiPropertyOptional({ description: 'Criterion description' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ type: [RubricLevelDto], description: 'Performance levels' })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => RubricLevelDto)
+  levels: RubricLevelDto[];
+}
+
+export class QuestionRubricDto {
+  @ApiProperty({ type: [RubricCriterionDto], description: 'Rubric criteria' })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => RubricCriterionDto)
+  criteria: RubricCriterionDto[];
+}
+
+export class QuestionScoringPolicyDto {
+  @ApiPropertyOptional({
+    description: 'Award partial credit (multi-select, per matching pair, per ordering position)',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  partialCredit?: boolean;
+
+  @ApiPropertyOptional({ description: 'Points deducted for a wrong (non-blank) answer', minimum: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  negativeMarks?: number;
+
+  @ApiPropertyOptional({ description: 'Whether the question score may drop below zero', default: false })
+  @IsOptional()
+  @IsBoolean()
+  allowNegativeScore?: boolean;
+
+  @ApiPropertyOptional({ enum: ScoreRoundingMode, description: 'Rounding applied to earned points' })
+  @IsOptional()
+  @IsEnum(ScoreRoundingMode)
+  rounding?: ScoreRoundingMode;
+
+  @ApiPropertyOptional({ description: 'Decimal places kept when rounding', minimum: 0, maximum: 4, default: 2 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(4)
+  roundingPrecision?: number;
+}
+
+export class QuestionPoolRuleDto {
+  @ApiProperty({ description: 'Pool to draw from', example: 'A' })
+  @IsString()
+  pool: string;
+
+  @ApiProperty({ description: 'Number of questions to draw', minimum: 1 })
+  @IsNumber()
+  @Min(1)
+  count: number;
+
+  @ApiPropertyOptional({
+    enum: QuestionDifficulty,
+    description: 'Only draw questions of this difficulty',
+  })
+  @IsOptional()
+  @IsEnum(QuestionDifficulty)
+  difficulty?: QuestionDifficulty;
+}
+
 export class QuestionDto {
   @ApiProperty({ description: 'Question text' })
   @IsString()
@@ -71,6 +234,47 @@ export class QuestionDto {
   @IsString()
   correctAnswer?: string;
 
+  @ApiPropertyOptional({ description: 'Pool the question belongs to' })
+  @IsOptional()
+  @IsString()
+  pool?: string;
+
+  @ApiPropertyOptional({ enum: QuestionDifficulty, description: 'Question difficulty' })
+  @IsOptional()
+  @IsEnum(QuestionDifficulty)
+  difficulty?: QuestionDifficulty;
+
+  @ApiPropertyOptional({
+    type: QuestionScoringPolicyDto,
+    description: 'Partial credit, negative marking and rounding rules',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => QuestionScoringPolicyDto)
+  scoring?: QuestionScoringPolicyDto;
+
+  @ApiPropertyOptional({
+    description: 'Force manual grading on or off (long answer and file upload default to manual)',
+  })
+  @IsOptional()
+  @IsBoolean()
+  manualGrading?: boolean;
+
+  @ApiPropertyOptional({ type: QuestionRubricDto, description: 'Rubric for manual grading' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => QuestionRubricDto)
+  rubric?: QuestionRubricDto;
+
+  @ApiPropertyOptional({
+    type: CodeQuestionConfigDto,
+    description: 'Language, limits and test cases (for code questions)',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CodeQuestionConfigDto)
+  codeConfig?: CodeQuestionConfigDto;
+
   @ApiPropertyOptional({ description: 'Additional question metadata' })
   @IsOptional()
   @IsObject()
@@ -113,6 +317,16 @@ export class CreateAssessmentDto {
   @Type(() => QuestionDto)
   questions?: QuestionDto[];
 
+  @ApiPropertyOptional({
+    type: [QuestionPoolRuleDto],
+    description: 'Draw each paper from pools instead of using every question',
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => QuestionPoolRuleDto)
+  questionPools?: QuestionPoolRuleDto[];
+
   @ApiPropertyOptional({
     description: 'Time limit in minutes',
     minimum: 1,
@@ -286,6 +500,76 @@ export class SubmitAssessmentAttemptDto {
   metadata?: Record<string, any>;
 }
 
+export class GradingQueueQueryDto {
+  @ApiPropertyOptional({ description: 'Filter by course ID' })
+  @IsOptional()
+  @IsUUID()
+  courseId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by assessment ID' })
+  @IsOptional()
+  @IsUUID()
+  assessmentId?: string;
+
+  @ApiPropertyOptional({ description: 'Page number', minimum: 1, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Attempts per page', minimum: 1, maximum: 100, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class GradeQuestionDto {
+  @ApiPropertyOptional({ description: 'Points awarded (when not grading with a rubric)', minimum: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  score?: number;
+
+  @ApiPropertyOptional({
+    description: 'Selected level ID per rubric criterion ID',
+    example: { clarity: 'proficient', accuracy: 'exemplary' },
+  })
+  @IsOptional()
+  @IsObject()
+  rubricSelections?: Record<string, string>;
+
+  @ApiPropertyOptional({ description: 'Feedback for the learner' })
+  @IsOptional()
+  @IsString()
+  comment?: string;
+}
+
+/**
+ * Question as shown to students: no correct answers, explanations or hidden
+ * test cases, which are only needed for grading
+ */
+export function withoutAnswerKey(question: AssessmentQuestion): AssessmentQuestion {
+  const visible: AssessmentQuestion = {
+    ...question,
+    // Options may be stored as { text, isCorrect, explanation } objects
+    options: question.options?.map((option: any) =>
+      option && typeof option === 'object' ? { text: option.text } : option,
+    ),
+    codeConfig: question.codeConfig && {
+      ...question.codeConfig,
+      testCases: question.codeConfig.testCases.filter(testCase => !testCase.hidden),
+    },
+  };
+  delete visible.correctAnswer;
+  delete visible.explanation;
+
+  return visible;
+}
+
 export class AssessmentResponseDto {
   @ApiProperty({ description: 'Assessment ID' })
   id: string;
@@ -363,7 +647,11 @@ export class AssessmentResponseDto {
     passRate: number;
   };
 
-  constructor(assessment: any) {
+  /**
+   * Questions carry their answer key only with includeAnswerKey, for callers
+   * that may manage the assessment
+   */
+  constructor(assessment: any, options: { includeAnswerKey?: boolean } = {}) {
     this.id = assessment.id;
     this.title = assessment.title;
     this.description = assessment.description;
@@ -386,7 +674,9 @@ export class AssessmentResponseDto {
     this.createdBy = assessment.createdBy;
     this.createdAt = assessment.createdAt;
     this.updatedAt = assessment.updatedAt;
-    this.questions = assessment.questions;
+    this.questions = options.includeAnswerKey
+      ? assessment.questions
+      : assessment.questions?.map(withoutAnswerKey);
     this.statistics = assessment.statistics;
   }
 }
@@ -437,10 +727,19 @@ export class AssessmentAttemptResponseDto {
   @ApiPropertyOptional({ description: 'Flag reason' })
   flagReason?: string;
 
-  @ApiPropertyOptional({ description: 'Assessment details' })
+  @ApiPropertyOptional({ description: 'Assessment details, without its question pool' })
   assessment?: AssessmentResponseDto;
 
-  constructor(attempt: any) {
+  @ApiPropertyOptional({
+    description: 'Questions of this attempt in the order and option order the student saw',
+  })
+  questions?: AssessmentQuestion[];
+
+  /**
+   * Only this attempt's questions are included, with their answer key only
+   * for includeAnswerKey
+   */
+  constructor(attempt: any, options: { includeAnswerKey?: boolean } = {}) {
     this.id = attempt.id;
     this.assessmentId = attempt.assessmentId;
     this.userId = attempt.userId;
@@ -456,7 +755,14 @@ export class AssessmentAttemptResponseDto {
     this.feedback = attempt.feedback;
     this.flaggedForReview = attempt.flaggedForReview;
     this.flagReason = attempt.flagReason;
-    this.assessment = attempt.assessment ? new AssessmentResponseDto(attempt.assessment) : undefined;
+    this.assessment = attempt.assessment
+      ? new AssessmentResponseDto({ ...attempt.assessment, questions: undefined })
+      : undefined;
+
+    const questions: AssessmentQuestion[] | undefined = attempt.assessment?.getVariantQuestions(
+      attempt.questionOrder,
+    );
+    this.questions = options.includeAnswerKey ? questions : questions?.map(withoutAnswerKey);
   }
 }
 
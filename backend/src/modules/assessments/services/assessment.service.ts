@@ -9,10 +9,13 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, FindOptionsWhere } from 'typeorm';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
 import { 
   Assessment, 
   AssessmentType, 
   AssessmentStatus, 
+  AssessmentQuestion,
+  QuestionPoolRule,
   QuestionType 
 } from '@database/entities/assessment.entity';
 import { 
@@ -22,6 +25,8 @@ import {
 import { Course } from '@database/entities/course.entity';
 import { Enrollment } from '@database/entities/enrollment.entity';
 import { AuthenticatedUser } from '@modules/auth/strategies/jwt.strategy';
+import { CodeGradingService } from './code-grading.service';
+import { GradingService } from './grading.service';
 
 /**
  * Assessment creation request interface
@@ -50,15 +55,8 @@ export interface AssessmentCreateRequest {
   oneQuestionAtTime?: boolean;
   availableFrom?: Date;
   availableUntil?: Date;
-  questions?: Array<{
-    type: QuestionType;
-    question: string;
-    options?: string[];
-    correctAnswer?: string | string[];
-    points: number;
-    explanation?: string;
-    metadata?: Record<string, unknown>;
-  }>;
+  questions?: Array<Omit<AssessmentQuestion, 'id'>>;
+  questionPools?: QuestionPoolRule[];
   settings?: Record<string, unknown>;
   metadata?: Record<string, unknown>;
 }
@@ -111,6 +109,8 @@ export class AssessmentService {
     private readonly enrollmentRepository: Repository<Enrollment>,
     private readonly eventEmitter: EventEmitter2,
     private readonly configService: ConfigService,
+    private readonly codeGradingService: CodeGradingService,
+    private readonly gradingService: GradingService,
   ) {}
 
   /**
@@ -314,7 +314,7 @@ export class AssessmentService {
     currentUser: AuthenticatedUser,
     metadata?: Record<string, unknown>,
   ): Promise<AssessmentAttempt> {
-    const assessment = await this.getAssessmentById(assessmentId, currentUser);
+    const assessment = await this.getAssessmentById(assessmentId, currentUser, true);
     console.log('assessment: ', assessment)
     console.log('assessment is available: ', assessment.isAvailable)
     // Check if assessment is available
@@ -372,14 +372,8 @@ export class AssessmentService {
     });
     console.log(attempt);
 
-    // Set question order for randomization
-    // if (assessment.randomizeQuestions) {
-    //   const questionOrder = assessment.getRandomizedQuestions().reduce((acc, q, index) => {
-    //     acc[q.id] = index;
-    //     return acc;
-    //   }, {} as Record<string, number>);
-    //   attempt.setQuestionOrder(questionOrder);
-    // }
+    // Draw this student's paper; the stored seed makes it reproducible
+    attempt.setQuestionOrder(assessment.generateVariant(crypto.randomUUID()));
 
     // Start the attempt
     attempt.start(assessment.timeLimit);
@@ -443,32 +437,38 @@ export class AssessmentService {
     // Submit the attempt
     attempt.submit();
 
-    // Grade the attempt
-    const gradingResult = attempt.assessment.calculateScore(request.responses);
-    attempt.grade(
-      gradingResult.score,
-      gradingResult.score * (gradingResult.totalPoints / 100),
-      gradingResult.totalPoints,
-      gradingResult.correctAnswers,
-      gradingResult.totalQuestions,
-      gradingResult.passed,
+    // Run CODE questions against their test cases in the sandbox
+    const codeResults = await this.codeGradingService.gradeCodeResponses(
+      attempt.assessment,
+      attempt.responses,
+      attempt.getQuestionIds(),
     );
 
-    // Update assessment statistics
-    attempt.assessment.recordAttempt(gradingResult.score, gradingResult.passed);
-    await this.assessmentRepository.save(attempt.assessment);
+    if (Object.keys(codeResults).length > 0) {
+      attempt.setGradingDetails({
+        ...attempt.gradingDetails,
+        code: codeResults,
+      });
+    }
 
-    const savedAttempt = await this.attemptRepository.save(attempt);
+    // Hold the score back until an instructor grades the open-ended answers
+    if (this.gradingService.openManualReview(attempt)) {
+      const pendingAttempt = await this.attemptRepository.save(attempt);
 
-    // Emit attempt submitted event
-    this.eventEmitter.emit('assessment.attemptSubmitted', {
-      attemptId: savedAttempt.id,
-      assessmentId: attempt.assessmentId,
-      userId: currentUser.id,
-      score: gradingResult.score,
-      passed: gradingResult.passed,
-      attemptNumber: savedAttempt.attemptNumber,
-    });
+      this.eventEmitter.emit('assessment.attemptPendingReview', {
+        attemptId: pendingAttempt.id,
+        assessmentId: attempt.assessmentId,
+        courseId: attempt.assessment.courseId,
+        userId: currentUser.id,
+        attemptNumber: pendingAttempt.attemptNumber,
+      });
+
+      this.logger.log(`Assessment attempt awaiting manual review: ${pendingAttempt.id}`);
+      return pendingAttempt;
+    }
+
+    // Grade the attempt
+    const savedAttempt = await this.gradingService.finalizeGrading(attempt);
 
     this.logger.log(`Assessment attempt submitted: ${savedAttempt.id} by user: ${currentUser.id}`);
     return savedAttempt;
@@ -559,15 +559,7 @@ export class AssessmentService {
    */
   async addQuestion(
     assessmentId: string,
-    question: {
-      type: QuestionType;
-      question: string;
-      options?: string[];
-      correctAnswer?: string | string[];
-      points: number;
-      explanation?: string;
-      metadata?: Record<string, unknown>;
-    },
+    question: Omit<AssessmentQuestion, 'id'>,
     currentUser: AuthenticatedUser,
   ): Promise<Assessment> {
     const assessment = await this.getAssessmentById(assessmentId, currentUser, true);
@@ -588,15 +580,7 @@ export class AssessmentService {
   async updateQuestion(
     assessmentId: string,
     questionId: string,
-    updates: Partial<{
-      type: QuestionType;
-      question: string;
-      options?: string[];
-      correctAnswer?: string | string[];
-      points: number;
-      explanation?: string;
-      metadata?: Record<string, unknown>;
-    }>,
+    updates: Partial<Omit<AssessmentQuestion, 'id'>>,
     currentUser: AuthenticatedUser,
   ): Promise<Assessment> {
     const assessment = await this.getAssessmentById(assessmentId, currentUser, true);
@@ -731,6 +715,20 @@ export class AssessmentService {
       errors.push('Graded assessment must have points assigned to questions');
     }
 
+    // Every pool rule must be able to draw its full count
+    const drawnFromPools = new Set<string>();
+    for (const rule of assessment.questionPools || []) {
+      const available = assessment
+        .getPoolQuestions(rule)
+        .filter(question => !drawnFromPools.has(question.id));
+      if (rule.count < 1 || available.length < rule.count) {
+        errors.push(
+          `Pool "${rule.pool}"${rule.difficulty ? ` (${rule.difficulty})` : ''} needs ${rule.count} questions but has ${available.length}`,
+        );
+      }
+      available.slice(0, rule.count).forEach(question => drawnFromPools.add(question.id));
+    }
+
     // Validate questions
     for (const question of assessment.questions) {
       if (!question.question?.trim()) {
@@ -741,6 +739,21 @@ export class AssessmentService {
         errors.push('Multiple choice questions must have at least 2 options');
       }
 
+      if (assessment.requiresManualGrading(question)) {
+        const invalidRubric = question.rubric?.criteria?.some(criterion => !criterion.levels?.length);
+        if (invalidRubric) {
+          errors.push('Every rubric criterion must define at least one level');
+        }
+        continue;
+      }
+
+      if (question.type === QuestionType.CODE) {
+        if (!question.codeConfig?.language || !question.codeConfig.testCases?.length) {
+          errors.push('Code questions must define a language and at least one test case');
+        }
+        continue;
+      }
+
       if (!question.correctAnswer && assessment.isGraded) {
         errors.push('Graded questions must have correct answers defined');
       }
@@ -0,0 +1,96 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CodeGradingService } from './code-grading.service';
+import { CodeRunnerService } from './code-runner.service';
+import {
+  AssessmentQuestion,
+  CodeLanguage,
+  QuestionType,
+} from '../../../database/entities/assessment.entity';
+
+describe('CodeGradingService', () => {
+  let service: CodeGradingService;
+
+  const question: AssessmentQuestion = {
+    id: 'q-sum',
+    type: QuestionType.CODE,
+    question: 'Read two integers from stdin and print their sum',
+    points: 10,
+    codeConfig: {
+      language: CodeLanguage.JAVASCRIPT,
+      timeLimitMs: 2000,
+      testCases: [
+        { id: 't1', input: '1 2', expectedOutput: '3', hidden: false },
+        { id: 't2', input: '10 -4', expectedOutput: '6\n', hidden: true },
+      ],
+    },
+  };
+
+  const sumSource = `
+    const input = require('fs').readFileSync(0, 'utf8').trim().split(/\\s+/).map(Number);
+    console.log(input[0] + input[1]);
+  `;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CodeGradingService,
+        CodeRunnerService,
+        {
+          provide: ConfigService,
+          // nsjail is not available to unit tests
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key === 'CODE_RUNNER_SANDBOX' ? 'process' : defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<CodeGradingService>(CodeGradingService);
+  });
+
+  it('awards full points when every test case passes', async () => {
+    const result = await service.gradeQuestion(question, sumSource);
+
+    expect(result.correct).toBe(true);
+    expect(result.earnedPoints).toBe(10);
+    expect(result.passedTests).toBe(2);
+    expect(result.tests.map(test => test.status)).toEqual(['passed', 'passed']);
+    expect(result.tests[1].hidden).toBe(true);
+  });
+
+  it('awards points per passing test case', async () => {
+    const result = await service.gradeQuestion(question, 'console.log(3);');
+
+    expect(result.correct).toBe(false);
+    expect(result.earnedPoints).toBe(5);
+    expect(result.tests[1].status).toBe('wrong_answer');
+    expect(result.tests[1].stdout.trim()).toBe('3');
+  });
+
+  it('records runtime errors with stderr', async () => {
+    const result = await service.gradeQuestion(question, 'throw new Error("boom");');
+
+    expect(result.earnedPoints).toBe(0);
+    expect(result.tests[0].status).toBe('runtime_error');
+    expect(result.tests[0].stderr).toContain('boom');
+  });
+
+  it('kills submissions that exceed the time limit', async () => {
+    const result = await service.gradeQuestion(
+      { ...question, codeConfig: { ...question.codeConfig, timeLimitMs: 300 } },
+      'while (true) {}',
+    );
+
+    expect(result.tests.every(test => test.status === 'timeout')).toBe(true);
+  });
+
+  it('does not run unanswered questions', async () => {
+    const result = await service.gradeQuestion(question, '   ');
+
+    expect(result.tests.every(test => test.status === 'not_answered')).toBe(true);
+    expect(result.earnedPoints).toBe(0);
+  });
+});
@@ -0,0 +1,198 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  Assessment,
+  AssessmentQuestion,
+  CodeTestCase,
+  ExternalQuestionGrade,
+  QuestionType,
+} from '@database/entities/assessment.entity';
+import { CodeRunnerService, CodeExecutionResult } from './code-runner.service';
+
+/**
+ * Outcome of a single test case run
+ */
+export type CodeTestStatus =
+  | 'passed'
+  | 'wrong_answer'
+  | 'runtime_error'
+  | 'timeout'
+  | 'output_limit_exceeded'
+  | 'not_answered';
+
+/**
+ * Per-test grading result recorded in AssessmentAttempt.gradingDetails
+ */
+export interface CodeTestCaseResult {
+  testCaseId: string;
+  hidden: boolean;
+  status: CodeTestStatus;
+  passed: boolean;
+  points: number;
+  earnedPoints: number;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  durationMs: number;
+}
+
+/**
+ * Grading result for a single CODE question
+ */
+export interface CodeQuestionGradingResult extends ExternalQuestionGrade {
+  questionId: string;
+  language: string;
+  totalPoints: number;
+  passedTests: number;
+  totalTests: number;
+  tests: CodeTestCaseResult[];
+}
+
+/**
+ * Code Grading Service
+ * Runs CODE question submissions against their configured test cases
+ */
+@Injectable()
+export class CodeGradingService {
+  private readonly logger = new Logger(CodeGradingService.name);
+
+  constructor(private readonly codeRunnerService: CodeRunnerService) {}
+
+  /**
+   * Grade every CODE question of an assessment against the given responses,
+   * limited to the attempt's drawn questions when their IDs are given
+   */
+  async gradeCodeResponses(
+    assessment: Assessment,
+    responses: Record<string, string | string[]>,
+    questionIds?: string[],
+  ): Promise<Record<string, CodeQuestionGradingResult>> {
+    const results: Record<string, CodeQuestionGradingResult> = {};
+
+    for (const question of assessment.questions) {
+      if (questionIds && !questionIds.includes(question.id)) continue;
+
+      if (question.type !== QuestionType.CODE || !question.codeConfig?.testCases?.length) {
+        continue;
+      }
+
+      const response = responses[question.id];
+      const source = Array.isArray(response) ? response.join('\n') : response;
+      results[question.id] = await this.gradeQuestion(question, source);
+    }
+
+    return results;
+  }
+
+  /**
+   * Grade a single CODE question. Test cases run one at a time so a
+   * submission never competes with itself for the CPU
+   */
+  async gradeQuestion(
+    question: AssessmentQuestion,
+    source: string | undefined,
+  ): Promise<CodeQuestionGradingResult> {
+    const { language, testCases, timeLimitMs, memoryLimitMb } = question.codeConfig;
+    const totalWeight = testCases.reduce((sum, testCase) => sum + this.getWeight(testCase), 0);
+    const tests: CodeTestCaseResult[] = [];
+
+    for (const testCase of testCases) {
+      const points =
+        totalWeight > 0 ? (question.points * this.getWeight(testCase)) / totalWeight : 0;
+
+      if (!source?.trim()) {
+        tests.push(this.buildTestResult(testCase, points, 'not_answered'));
+        continue;
+      }
+
+      try {
+        const execution = await this.codeRunnerService.execute({
+          language,
+          source,
+          stdin: testCase.input,
+          timeLimitMs,
+          memoryLimitMb,
+        });
+        const status = this.resolveStatus(execution, testCase.expectedOutput);
+        tests.push(this.buildTestResult(testCase, points, status, execution));
+      } catch (error) {
+        this.logger.error(
+          `Failed to run test case ${testCase.id} for question ${question.id}`,
+          error,
+        );
+        tests.push(
+          this.buildTestResult(testCase, points, 'runtime_error', {
+            stdout: '',
+            stderr: error.message,
+            exitCode: null,
+            signal: null,
+            timedOut: false,
+            outputLimitExceeded: false,
+            durationMs: 0,
+          }),
+        );
+      }
+    }
+
+    const passedTests = tests.filter(test => test.passed).length;
+    const earnedPoints = tests.reduce((sum, test) => sum + test.earnedPoints, 0);
+
+    return {
+      questionId: question.id,
+      language,
+      totalPoints: question.points,
+      earnedPoints: Math.round(earnedPoints * 100) / 100,
+      correct: tests.length > 0 && passedTests === tests.length,
+      passedTests,
+      totalTests: tests.length,
+      tests,
+    };
+  }
+
+  /**
+   * Compare outputs ignoring trailing whitespace on each line and at the end
+   */
+  normalizeOutput(output: string): string {
+    return (output || '')
+      .replace(/\r\n/g, '\n')
+      .split('\n')
+      .map(line => line.trimEnd())
+      .join('\n')
+      .trimEnd();
+  }
+
+  private resolveStatus(execution: CodeExecutionResult, expectedOutput: string): CodeTestStatus {
+    if (execution.timedOut) return 'timeout';
+    if (execution.outputLimitExceeded) return 'output_limit_exceeded';
+    if (execution.exitCode !== 0) return 'runtime_error';
+
+    return this.normalizeOutput(execution.stdout) === this.normalizeOutput(expectedOutput)
+      ? 'passed'
+      : 'wrong_answer';
+  }
+
+  private buildTestResult(
+    testCase: CodeTestCase,
+    points: number,
+    status: CodeTestStatus,
+    execution?: CodeExecutionResult,
+  ): CodeTestCaseResult {
+    const passed = status === 'passed';
+
+    return {
+      testCaseId: testCase.id,
+      hidden: testCase.hidden,
+      status,
+      passed,
+      points: Math.round(points * 100) / 100,
+      earnedPoints: passed ? Math.round(points * 100) / 100 : 0,
+      stdout: execution?.stdout ?? '',
+      stderr: execution?.stderr ?? '',
+      exitCode: execution?.exitCode ?? null,
+      durationMs: execution?.durationMs ?? 0,
+    };
+  }
+
+  private getWeight(testCase: CodeTestCase): number {
+    return testCase.points ?? 1;
+  }
+}
@@ -0,0 +1,311 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { spawn } from 'child_process';
+import { existsSync, promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CodeLanguage } from '@database/entities/assessment.entity';
+
+/**
+ * Code execution request interface
+ */
+export interface CodeExecutionRequest {
+  language: CodeLanguage;
+  source: string;
+  stdin?: string;
+  timeLimitMs?: number;
+  memoryLimitMb?: number;
+}
+
+/**
+ * Code execution result interface
+ */
+export interface CodeExecutionResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  outputLimitExceeded: boolean;
+  durationMs: number;
+}
+
+/**
+ * Isolation used for submissions. nsjail runs them in fresh namespaces with no
+ * network, a read-only root built from CODE_RUNNER_SANDBOX_MOUNTS and an
+ * unprivileged user. process only applies ulimits and a dedicated uid, for
+ * development machines without nsjail
+ */
+export type CodeSandboxMode = 'nsjail' | 'process';
+
+/**
+ * Runtime definition for a supported language
+ */
+interface LanguageRuntime {
+  fileName: string;
+  command: (configService: ConfigService) => string;
+  args: (filePath: string, memoryLimitMb: number) => string[];
+  // V8 reserves far more address space than it uses, so node is capped
+  // through its heap flag instead of `ulimit -v`
+  limitAddressSpace: boolean;
+}
+
+const LANGUAGE_RUNTIMES: Record<CodeLanguage, LanguageRuntime> = {
+  [CodeLanguage.JAVASCRIPT]: {
+    fileName: 'main.js',
+    command: configService => configService.get<string>('CODE_RUNNER_NODE_PATH', 'node'),
+    args: (filePath, memoryLimitMb) => [`--max-old-space-size=${memoryLimitMb}`, filePath],
+    limitAddressSpace: false,
+  },
+  [CodeLanguage.PYTHON]: {
+    fileName: 'main.py',
+    command: configService => configService.get<string>('CODE_RUNNER_PYTHON_PATH', 'python3'),
+    args: filePath => ['-I', '-B', filePath],
+    limitAddressSpace: true,
+  },
+};
+
+const DEFAULT_TIME_LIMIT_MS = 2000;
+const MAX_TIME_LIMIT_MS = 10000;
+const DEFAULT_MEMORY_LIMIT_MB = 128;
+const MAX_MEMORY_LIMIT_MB = 512;
+const MAX_OUTPUT_BYTES = 64 * 1024;
+const MAX_SOURCE_BYTES = 64 * 1024;
+const DEFAULT_MAX_PROCESSES = 32;
+// nobody:nogroup
+const DEFAULT_SANDBOX_UID = 65534;
+const DEFAULT_SANDBOX_GID = 65534;
+const DEFAULT_SANDBOX_MOUNTS = '/usr,/lib,/lib64,/bin';
+// Working directory as seen inside the nsjail sandbox
+const JAIL_WORK_DIR = '/sandbox';
+
+/**
+ * Code Runner Service
+ * Executes untrusted submissions in a throwaway working directory inside a
+ * sandbox with CPU, memory, process, file-size and wall-clock limits
+ */
+@Injectable()
+export class CodeRunnerService {
+  private readonly logger = new Logger(CodeRunnerService.name);
+  private readonly sandboxMode: CodeSandboxMode;
+  private readonly sandboxUid: number;
+  private readonly sandboxGid: number;
+  private readonly maxProcesses: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.sandboxMode = this.configService.get<CodeSandboxMode>('CODE_RUNNER_SANDBOX', 'nsjail');
+    this.sandboxUid = Number(this.configService.get('CODE_RUNNER_UID', DEFAULT_SANDBOX_UID));
+    this.sandboxGid = Number(this.configService.get('CODE_RUNNER_GID', DEFAULT_SANDBOX_GID));
+    this.maxProcesses = Number(
+      this.configService.get('CODE_RUNNER_MAX_PROCESSES', DEFAULT_MAX_PROCESSES),
+    );
+
+    if (this.sandboxMode === 'process') {
+      this.logger.warn(
+        'CODE_RUNNER_SANDBOX=process gives submissions no network or filesystem isolation; use nsjail in production',
+      );
+    }
+  }
+
+  /**
+   * Run a single program against the given stdin
+   */
+  async execute(request: CodeExecutionRequest): Promise<CodeExecutionResult> {
+    const runtime = LANGUAGE_RUNTIMES[request.language];
+    if (!runtime) {
+      throw new BadRequestException(`Unsupported language: ${request.language}`);
+    }
+
+    if (Buffer.byteLength(request.source || '', 'utf8') > MAX_SOURCE_BYTES) {
+      throw new BadRequestException('Submitted source exceeds the maximum allowed size');
+    }
+
+    const timeLimitMs = Math.min(request.timeLimitMs || DEFAULT_TIME_LIMIT_MS, MAX_TIME_LIMIT_MS);
+    const memoryLimitMb = Math.min(
+      request.memoryLimitMb || DEFAULT_MEMORY_LIMIT_MB,
+      MAX_MEMORY_LIMIT_MB,
+    );
+
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'volkai-code-'));
+    const filePath = path.join(workDir, runtime.fileName);
+    const sandboxFilePath =
+      this.sandboxMode === 'nsjail' ? path.posix.join(JAIL_WORK_DIR, runtime.fileName) : filePath;
+
+    try {
+      await fs.writeFile(filePath, request.source || '', 'utf8');
+      await this.grantSandboxAccess(workDir, filePath);
+
+      return await this.spawnSandboxed(
+        runtime.command(this.configService),
+        runtime.args(sandboxFilePath, memoryLimitMb),
+        {
+          workDir,
+          stdin: request.stdin || '',
+          timeLimitMs,
+          memoryLimitMb: runtime.limitAddressSpace ? memoryLimitMb : undefined,
+        },
+      );
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true }).catch(error => {
+        this.logger.warn(`Failed to clean up sandbox directory ${workDir}: ${error.message}`);
+      });
+    }
+  }
+
+  /**
+   * The working directory belongs to the API's user; hand it to the sandbox
+   * user when running as root, which dropping to that user requires anyway
+   */
+  private async grantSandboxAccess(workDir: string, filePath: string): Promise<void> {
+    if (process.getuid?.() !== 0) return;
+
+    await fs.chown(workDir, this.sandboxUid, this.sandboxGid);
+    await fs.chown(filePath, this.sandboxUid, this.sandboxGid);
+  }
+
+  /**
+   * Build the sandboxed command line. The process is spawned in its own
+   * process group so a timeout kills anything it forked
+   */
+  private sandboxCommand(
+    command: string,
+    args: string[],
+    options: { workDir: string; timeLimitMs: number; memoryLimitMb?: number },
+  ): { file: string; args: string[]; uid?: number; gid?: number } {
+    const cpuSeconds = Math.ceil(options.timeLimitMs / 1000) + 1;
+
+    if (this.sandboxMode === 'process') {
+      // Only root can switch to the sandbox user
+      const dropPrivileges = process.getuid?.() === 0;
+      const limits = [`ulimit -t ${cpuSeconds}`, 'ulimit -f 1024'];
+      if (options.memoryLimitMb) {
+        limits.push(`ulimit -v ${options.memoryLimitMb * 1024}`);
+      }
+      // ulimit -u counts every process of the uid, the API's own included,
+      // so it is only set for the dedicated sandbox user
+      if (dropPrivileges) {
+        limits.push(`ulimit -u ${this.maxProcesses}`);
+      }
+
+      return {
+        file: 'sh',
+        args: ['-c', `${limits.join('; ')}; exec "$0" "$@"`, command, ...args],
+        ...(dropPrivileges && { uid: this.sandboxUid, gid: this.sandboxGid }),
+      };
+    }
+
+    const mounts = this.configService
+      .get<string>('CODE_RUNNER_SANDBOX_MOUNTS', DEFAULT_SANDBOX_MOUNTS)
+      .split(',')
+      .map(mount => mount.trim())
+      .filter(mount => mount && existsSync(mount));
+
+    const flags: [string, string][] = [
+      ['--mode', 'o'],
+      ['--user', String(this.sandboxUid)],
+      ['--group', String(this.sandboxGid)],
+      ['--hostname', 'sandbox'],
+      ...mounts.map((mount): [string, string] => ['--bindmount_ro', mount]),
+      ['--bindmount', `${options.workDir}:${JAIL_WORK_DIR}`],
+      ['--cwd', JAIL_WORK_DIR],
+      ['--env', `HOME=${JAIL_WORK_DIR}`],
+      ['--env', `TMPDIR=${JAIL_WORK_DIR}`],
+      ['--env', 'PATH=/usr/local/bin:/usr/bin:/bin'],
+      ['--env', 'LANG=C.UTF-8'],
+      ['--time_limit', String(cpuSeconds + 1)],
+      ['--rlimit_cpu', String(cpuSeconds)],
+      ['--rlimit_fsize', '1'],
+      ['--rlimit_nproc', String(this.maxProcesses)],
+      ['--rlimit_as', options.memoryLimitMb ? String(options.memoryLimitMb) : 'inf'],
+    ];
+
+    // nsjail always unshares the network namespace, leaving only loopback
+    return {
+      file: this.configService.get<string>('CODE_RUNNER_NSJAIL_PATH', 'nsjail'),
+      args: [...flags.flat(), '--quiet', '--', command, ...args],
+    };
+  }
+
+  private spawnSandboxed(
+    command: string,
+    args: string[],
+    options: { workDir: string; stdin: string; timeLimitMs: number; memoryLimitMb?: number },
+  ): Promise<CodeExecutionResult> {
+    const sandbox = this.sandboxCommand(command, args, options);
+
+    return new Promise(resolve => {
+      const startedAt = Date.now();
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+      let outputBytes = 0;
+      let timedOut = false;
+      let outputLimitExceeded = false;
+      let settled = false;
+
+      const child = spawn(sandbox.file, sandbox.args, {
+        cwd: options.workDir,
+        uid: sandbox.uid,
+        gid: sandbox.gid,
+        env: {
+          PATH: process.env.PATH,
+          HOME: options.workDir,
+          TMPDIR: options.workDir,
+          LANG: 'C.UTF-8',
+        },
+        detached: true,
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+
+      const killGroup = (): void => {
+        try {
+          process.kill(-child.pid, 'SIGKILL');
+        } catch {
+          // Process group already gone
+        }
+      };
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        killGroup();
+      }, options.timeLimitMs);
+
+      const collect = (target: Buffer[]) => (chunk: Buffer) => {
+        outputBytes += chunk.length;
+        if (outputBytes > MAX_OUTPUT_BYTES) {
+          outputLimitExceeded = true;
+          killGroup();
+          return;
+        }
+        target.push(chunk);
+      };
+
+      child.stdout.on('data', collect(stdout));
+      child.stderr.on('data', collect(stderr));
+
+      const finish = (exitCode: number | null, signal: string | null, spawnError?: Error): void => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+
+        resolve({
+          stdout: Buffer.concat(stdout).toString('utf8'),
+          stderr: spawnError
+            ? `Failed to start runtime: ${spawnError.message}`
+            : Buffer.concat(stderr).toString('utf8'),
+          exitCode,
+          signal,
+          timedOut,
+          outputLimitExceeded,
+          durationMs: Date.now() - startedAt,
+        });
+      };
+
+      child.on('error', error => finish(null, null, error));
+      child.on('close', (code, signal) => finish(code, signal));
+
+      // The program may exit without reading its input
+      child.stdin.on('error', () => undefined);
+      child.stdin.end(options.stdin);
+    });
+  }
+}
@@ -0,0 +1,238 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DataSource } from 'typeorm';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { GradingService } from './grading.service';
+import { Assessment, QuestionType } from '../../../database/entities/assessment.entity';
+import {
+  AssessmentAttempt,
+  AssessmentAttemptStatus,
+} from '../../../database/entities/assessment-attempt.entity';
+import { Course } from '../../../database/entities/course.entity';
+import { AuthenticatedUser } from '../../auth/strategies/jwt.strategy';
+
+describe('GradingService', () => {
+  let service: GradingService;
+
+  const lockedAttemptQuery = {
+    innerJoinAndSelect: jest.fn().mockReturnThis(),
+    setLock: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    getOne: jest.fn(),
+  };
+
+  const mockRepositories = {
+    assessment: { save: jest.fn(entity => Promise.resolve(entity)) },
+    attempt: {
+      save: jest.fn(entity => Promise.resolve(entity)),
+      createQueryBuilder: jest.fn(() => lockedAttemptQuery),
+    },
+  };
+
+  const mockManager = {
+    getRepository: jest.fn(entity =>
+      entity === Assessment ? mockRepositories.assessment : mockRepositories.attempt,
+    ),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn(work => work(mockManager)),
+  };
+
+  const mockEventEmitter = { emit: jest.fn() };
+
+  const instructor = { id: 'instructor-1', permissions: [] } as AuthenticatedUser;
+
+  const buildAttempt = (): AssessmentAttempt => {
+    const assessment = new Assessment();
+    assessment.id = 'assessment-1';
+    assessment.courseId = 'course-1';
+    assessment.passingScore = 60;
+    assessment.totalAttempts = 0;
+    assessment.passCount = 0;
+    assessment.failCount = 0;
+    assessment.course = { id: 'course-1', instructorId: 'instructor-1' } as Course;
+    assessment.questions = [
+      {
+        id: 'mc',
+        type: QuestionType.MULTIPLE_CHOICE,
+        question: 'Pick B',
+        options: ['A', 'B'],
+        correctAnswer: 'B',
+        points: 4,
+      },
+      {
+        id: 'essay',
+        type: QuestionType.LONG_ANSWER,
+        question: 'Explain closures',
+        points: 6,
+        rubric: {
+          criteria: [
+            {
+              id: 'accuracy',
+              title: 'Accuracy',
+              levels: [
+                { id: 'weak', label: 'Weak', points: 0 },
+                { id: 'strong', label: 'Strong', points: 2 },
+              ],
+            },
+            {
+              id: 'clarity',
+              title: 'Clarity',
+              levels: [
+                { id: 'weak', label: 'Weak', points: 0 },
+                { id: 'strong', label: 'Strong', points: 1 },
+              ],
+            },
+          ],
+        },
+      },
+      {
+        id: 'upload',
+        type: QuestionType.FILE_UPLOAD,
+        question: 'Upload your project',
+        points: 10,
+      },
+    ];
+    assessment.updateStatistics();
+
+    const attempt = new AssessmentAttempt();
+    attempt.id = 'attempt-1';
+    attempt.userId = 'learner-1';
+    attempt.assessmentId = assessment.id;
+    attempt.assessment = assessment;
+    attempt.status = AssessmentAttemptStatus.SUBMITTED;
+    attempt.responses = { mc: 'B', essay: 'A closure captures its scope' };
+    attempt.gradingDetails = {};
+    return attempt;
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GradingService,
+        { provide: getRepositoryToken(Assessment), useValue: mockRepositories.assessment },
+        { provide: getRepositoryToken(AssessmentAttempt), useValue: mockRepositories.attempt },
+        { provide: DataSource, useValue: mockDataSource },
+        { provide: EventEmitter2, useValue: mockEventEmitter },
+      ],
+    }).compile();
+
+    service = module.get<GradingService>(GradingService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('openManualReview', () => {
+    it('queues answered open-ended questions and skips blank ones', () => {
+      const attempt = buildAttempt();
+
+      expect(service.openManualReview(attempt)).toBe(true);
+      expect(attempt.status).toBe(AssessmentAttemptStatus.PENDING_REVIEW);
+      expect(Object.keys(attempt.getManualGrades())).toEqual(['essay']);
+    });
+  });
+
+  describe('getGradingQueue', () => {
+    it('counts and pages pending questions rather than attempts', async () => {
+      const first = buildAttempt();
+      first.responses.upload = 'file-1';
+      service.openManualReview(first);
+      const second = buildAttempt();
+      second.id = 'attempt-2';
+      service.openManualReview(second);
+
+      const queueQuery = {
+        innerJoinAndSelect: jest.fn().mockReturnThis(),
+        leftJoinAndSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        orderBy: jest.fn().mockReturnThis(),
+        addOrderBy: jest.fn().mockReturnThis(),
+        clone: jest.fn(() => ({
+          select: jest.fn().mockReturnThis(),
+          getMany: jest.fn().mockResolvedValue([first, second]),
+        })),
+        getMany: jest.fn().mockResolvedValue([second]),
+      };
+      mockRepositories.attempt.createQueryBuilder.mockReturnValueOnce(queueQuery);
+
+      const result = await service.getGradingQueue({ page: 2, limit: 2 }, instructor);
+
+      expect(result.total).toBe(3);
+      expect(result.items.map(item => [item.attemptId, item.questionId])).toEqual([
+        ['attempt-2', 'essay'],
+      ]);
+      expect(queueQuery.andWhere).toHaveBeenCalledWith('attempt.id IN (:...attemptIds)', {
+        attemptIds: ['attempt-2'],
+      });
+    });
+  });
+
+  describe('gradeQuestion', () => {
+    it('scales rubric selections to question points and finalizes the attempt', async () => {
+      const attempt = buildAttempt();
+      service.openManualReview(attempt);
+      lockedAttemptQuery.getOne.mockResolvedValue(attempt);
+
+      const result = await service.gradeQuestion(
+        'attempt-1',
+        'essay',
+        { rubricSelections: { accuracy: 'strong', clarity: 'weak' }, comment: 'Good' },
+        instructor,
+      );
+
+      expect(lockedAttemptQuery.setLock).toHaveBeenCalledWith('pessimistic_write', undefined, [
+        'attempt',
+      ]);
+      expect(result.getManualGrades().essay.earnedPoints).toBe(4);
+      expect(result.status).toBe(AssessmentAttemptStatus.GRADED);
+      expect(result.earnedPoints).toBe(8);
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+        'assessment.attemptSubmitted',
+        expect.objectContaining({ attemptId: 'attempt-1', userId: 'learner-1' }),
+      );
+    });
+
+    it('keeps the attempt pending while other questions are ungraded', async () => {
+      const attempt = buildAttempt();
+      attempt.responses.upload = 'file-1';
+      service.openManualReview(attempt);
+      lockedAttemptQuery.getOne.mockResolvedValue(attempt);
+
+      const result = await service.gradeQuestion('attempt-1', 'upload', { score: 7 }, instructor);
+
+      expect(result.status).toBe(AssessmentAttemptStatus.PENDING_REVIEW);
+      expect(mockEventEmitter.emit).not.toHaveBeenCalledWith(
+        'assessment.attemptSubmitted',
+        expect.anything(),
+      );
+    });
+
+    it('rejects scores above the question points', async () => {
+      const attempt = buildAttempt();
+      service.openManualReview(attempt);
+      lockedAttemptQuery.getOne.mockResolvedValue(attempt);
+
+      await expect(
+        service.gradeQuestion('attempt-1', 'essay', { score: 7 }, instructor),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('rejects graders who do not manage the course', async () => {
+      const attempt = buildAttempt();
+      service.openManualReview(attempt);
+      lockedAttemptQuery.getOne.mockResolvedValue(attempt);
+
+      await expect(
+        service.gradeQuestion('attempt-1', 'essay', { score: 3 }, {
+          id: 'someone-else',
+          permissions: [],
+        } as AuthenticatedUser),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+});
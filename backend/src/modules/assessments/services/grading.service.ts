@@ -0,0 +1,405 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  Assessment,
+  AssessmentQuestion,
+  ExternalQuestionGrade,
+  QuestionRubric,
+  QuestionType,
+} from '@database/entities/assessment.entity';
+import {
+  AssessmentAttempt,
+  AssessmentAttemptStatus,
+} from '@database/entities/assessment-attempt.entity';
+import { Course } from '@database/entities/course.entity';
+import { AuthenticatedUser } from '@modules/auth/strategies/jwt.strategy';
+
+/**
+ * Manual grade request interface
+ * Either a direct score or one level per rubric criterion
+ */
+export interface ManualGradeRequest {
+  score?: number;
+  rubricSelections?: Record<string, string>;
+  comment?: string;
+}
+
+/**
+ * Grading queue filters interface
+ */
+export interface GradingQueueFilters {
+  courseId?: string;
+  assessmentId?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Ungraded response awaiting instructor review
+ */
+export interface GradingQueueItem {
+  attemptId: string;
+  assessmentId: string;
+  assessmentTitle: string;
+  courseId: string;
+  courseTitle?: string;
+  userId: string;
+  learnerName?: string;
+  submittedAt?: Date;
+  questionId: string;
+  questionType: QuestionType;
+  question: string;
+  response: string | string[];
+  maxPoints: number;
+  rubric?: QuestionRubric;
+}
+
+/**
+ * Grading Service
+ * Finalizes attempt scores and runs the manual review workflow for questions
+ * that cannot be auto-graded (long answers, file uploads, projects)
+ */
+@Injectable()
+export class GradingService {
+  private readonly logger = new Logger(GradingService.name);
+
+  constructor(
+    @InjectRepository(Assessment)
+    private readonly assessmentRepository: Repository<Assessment>,
+    @InjectRepository(AssessmentAttempt)
+    private readonly attemptRepository: Repository<AssessmentAttempt>,
+    private readonly dataSource: DataSource,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Queue every answered question that needs an instructor for review.
+   * Returns true when the attempt now awaits manual grading
+   */
+  openManualReview(attempt: AssessmentAttempt): boolean {
+    const { assessment } = attempt;
+    let pending = false;
+
+    for (const question of assessment.getVariantQuestions(attempt.questionOrder)) {
+      if (!assessment.requiresManualGrading(question)) continue;
+
+      // Blank answers score zero without bothering a grader
+      if (!assessment.isAnswered(attempt.responses[question.id])) continue;
+
+      attempt.setManualGrade(question.id, { status: 'pending', maxPoints: question.points });
+      pending = true;
+    }
+
+    if (pending) {
+      attempt.markPendingReview();
+    }
+
+    return pending;
+  }
+
+  /**
+   * Compute the final score from auto-graded answers plus code and manual
+   * grades, update assessment statistics and announce the result.
+   * Pass the manager when called inside a transaction that locks the attempt
+   */
+  async finalizeGrading(
+    attempt: AssessmentAttempt,
+    manager?: EntityManager,
+  ): Promise<AssessmentAttempt> {
+    const assessmentRepository = manager
+      ? manager.getRepository(Assessment)
+      : this.assessmentRepository;
+    const attemptRepository = manager
+      ? manager.getRepository(AssessmentAttempt)
+      : this.attemptRepository;
+
+    const gradingResult = attempt.assessment.calculateScore(
+      attempt.responses,
+      this.collectExternalGrades(attempt),
+      attempt.getQuestionIds(),
+    );
+
+    attempt.grade(
+      gradingResult.score,
+      gradingResult.earnedPoints,
+      gradingResult.totalPoints,
+      gradingResult.correctAnswers,
+      gradingResult.totalQuestions,
+      gradingResult.passed,
+    );
+    attempt.setGradingDetails({
+      ...attempt.gradingDetails,
+      questions: gradingResult.questionResults,
+    });
+
+    // Update assessment statistics
+    attempt.assessment.recordAttempt(gradingResult.score, gradingResult.passed);
+    await assessmentRepository.save(attempt.assessment);
+
+    const savedAttempt = await attemptRepository.save(attempt);
+
+    // Emit attempt submitted event
+    this.eventEmitter.emit('assessment.attemptSubmitted', {
+      attemptId: savedAttempt.id,
+      assessmentId: attempt.assessmentId,
+      userId: attempt.userId,
+      score: gradingResult.score,
+      passed: gradingResult.passed,
+      attemptNumber: savedAttempt.attemptNumber,
+    });
+
+    return savedAttempt;
+  }
+
+  /**
+   * List ungraded responses across the courses the user can grade
+   */
+  async getGradingQueue(
+    filters: GradingQueueFilters,
+    currentUser: AuthenticatedUser,
+  ): Promise<{
+    items: GradingQueueItem[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const { courseId, assessmentId, page = 1, limit = 20 } = filters;
+
+    const queryBuilder = this.attemptRepository
+      .createQueryBuilder('attempt')
+      .innerJoinAndSelect('attempt.assessment', 'assessment')
+      .innerJoinAndSelect('assessment.course', 'course')
+      .leftJoinAndSelect('attempt.user', 'user')
+      .where('attempt.status = :status', { status: AssessmentAttemptStatus.PENDING_REVIEW });
+
+    // Apply access control
+    if (
+      currentUser.permissions?.includes('assessments:manage') &&
+      currentUser.currentOrganizationId
+    ) {
+      queryBuilder.andWhere(
+        '(course.instructorId = :userId OR course.organizationId = :organizationId)',
+        {
+          userId: currentUser.id,
+          organizationId: currentUser.currentOrganizationId,
+        },
+      );
+    } else {
+      queryBuilder.andWhere('course.instructorId = :userId', { userId: currentUser.id });
+    }
+
+    if (courseId) {
+      queryBuilder.andWhere('assessment.courseId = :courseId', { courseId });
+    }
+
+    if (assessmentId) {
+      queryBuilder.andWhere('attempt.assessmentId = :assessmentId', { assessmentId });
+    }
+
+    // Oldest submissions first
+    queryBuilder.orderBy('attempt.submittedAt', 'ASC').addOrderBy('attempt.id', 'ASC');
+
+    // Each pending question is one queue item, so count and page over those
+    const pendingAttempts = await queryBuilder
+      .clone()
+      .select(['attempt.id', 'attempt.gradingDetails'])
+      .getMany();
+    const pending = pendingAttempts.flatMap(attempt =>
+      Object.entries(attempt.getManualGrades())
+        .filter(([, grade]) => grade.status === 'pending')
+        .map(([questionId]) => ({ attemptId: attempt.id, questionId })),
+    );
+
+    const total = pending.length;
+    const pageEntries = pending.slice((page - 1) * limit, page * limit);
+    const attemptIds = [...new Set(pageEntries.map(entry => entry.attemptId))];
+
+    const attempts = attemptIds.length
+      ? await queryBuilder.andWhere('attempt.id IN (:...attemptIds)', { attemptIds }).getMany()
+      : [];
+    const attemptsById = new Map(attempts.map(attempt => [attempt.id, attempt]));
+
+    // An attempt may have been graded in between
+    const items = pageEntries
+      .filter(({ attemptId }) => attemptsById.has(attemptId))
+      .map(({ attemptId, questionId }) => {
+        const attempt = attemptsById.get(attemptId);
+        const question = attempt.assessment.getQuestion(questionId);
+        return {
+          attemptId: attempt.id,
+          assessmentId: attempt.assessmentId,
+          assessmentTitle: attempt.assessment.title,
+          courseId: attempt.assessment.courseId,
+          courseTitle: attempt.assessment.course?.title,
+          userId: attempt.userId,
+          learnerName: attempt.user
+            ? `${attempt.user.firstName} ${attempt.user.lastName}`
+            : undefined,
+          submittedAt: attempt.submittedAt,
+          questionId,
+          questionType: question?.type,
+          question: question?.question,
+          response: attempt.getResponse(questionId),
+          maxPoints: attempt.getManualGrades()[questionId].maxPoints,
+          rubric: question?.rubric,
+        };
+      });
+
+    return { items, total, page, limit };
+  }
+
+  /**
+   * Save an instructor's score for one question. The attempt is finalized
+   * once the last pending question is graded
+   */
+  async gradeQuestion(
+    attemptId: string,
+    questionId: string,
+    request: ManualGradeRequest,
+    currentUser: AuthenticatedUser,
+  ): Promise<AssessmentAttempt> {
+    // Graders of other questions rewrite the same manual grades, so the
+    // attempt stays locked from read to save
+    return this.dataSource.transaction(async manager => {
+      const attempt = await manager
+        .getRepository(AssessmentAttempt)
+        .createQueryBuilder('attempt')
+        .innerJoinAndSelect('attempt.assessment', 'assessment')
+        .innerJoinAndSelect('assessment.course', 'course')
+        .setLock('pessimistic_write', undefined, ['attempt'])
+        .where('attempt.id = :attemptId', { attemptId })
+        .getOne();
+
+      if (!attempt) {
+        throw new NotFoundException(`Assessment attempt not found: ${attemptId}`);
+      }
+
+      if (!this.canUserGrade(attempt.assessment.course, currentUser)) {
+        throw new ForbiddenException('Insufficient permissions to grade this attempt');
+      }
+
+      if (!attempt.isPendingReview) {
+        throw new BadRequestException('Assessment attempt is not awaiting manual review');
+      }
+
+      const question = attempt.assessment.getQuestion(questionId);
+      if (!question) {
+        throw new NotFoundException(`Question not found: ${questionId}`);
+      }
+
+      if (!attempt.getManualGrades()[questionId]) {
+        throw new BadRequestException('Question does not require manual grading in this attempt');
+      }
+
+      const earnedPoints = this.resolveManualPoints(attempt.assessment, question, request);
+
+      attempt.setManualGrade(questionId, {
+        status: 'graded',
+        maxPoints: question.points,
+        earnedPoints,
+        rubricSelections: request.rubricSelections,
+        comment: request.comment,
+        gradedBy: currentUser.id,
+        gradedAt: new Date().toISOString(),
+      });
+
+      this.eventEmitter.emit('assessment.questionGraded', {
+        attemptId,
+        questionId,
+        earnedPoints,
+        gradedBy: currentUser.id,
+      });
+
+      if (attempt.hasPendingManualGrades()) {
+        return await manager.getRepository(AssessmentAttempt).save(attempt);
+      }
+
+      this.logger.log(`Manual grading completed for attempt: ${attemptId}`);
+      return await this.finalizeGrading(attempt, manager);
+    });
+  }
+
+  /**
+   * Turn a direct score or rubric selection into points for the question
+   */
+  private resolveManualPoints(
+    assessment: Assessment,
+    question: AssessmentQuestion,
+    request: ManualGradeRequest,
+  ): number {
+    if (request.rubricSelections) {
+      if (!question.rubric?.criteria?.length) {
+        throw new BadRequestException('Question does not have a rubric');
+      }
+
+      let rubricPoints = 0;
+      for (const criterion of question.rubric.criteria) {
+        const levelId = request.rubricSelections[criterion.id];
+        const level = criterion.levels.find(l => l.id === levelId);
+        if (!level) {
+          throw new BadRequestException(
+            `A valid level is required for criterion: ${criterion.title}`,
+          );
+        }
+        rubricPoints += level.points;
+      }
+
+      const maxRubricPoints = assessment.getRubricMaxPoints(question.rubric);
+      return maxRubricPoints > 0
+        ? Math.round((question.points * rubricPoints * 100) / maxRubricPoints) / 100
+        : 0;
+    }
+
+    if (request.score === undefined || request.score === null) {
+      throw new BadRequestException('Either a score or rubric selections are required');
+    }
+
+    if (request.score < 0 || request.score > question.points) {
+      throw new BadRequestException(`Score must be between 0 and ${question.points}`);
+    }
+
+    return request.score;
+  }
+
+  /**
+   * Grades produced outside the entity: code runner results and instructor grades
+   */
+  private collectExternalGrades(attempt: AssessmentAttempt): Record<string, ExternalQuestionGrade> {
+    const grades: Record<string, ExternalQuestionGrade> = {};
+    const codeResults =
+      (attempt.gradingDetails?.code as Record<string, ExternalQuestionGrade>) || {};
+
+    for (const [questionId, result] of Object.entries(codeResults)) {
+      grades[questionId] = { earnedPoints: result.earnedPoints, correct: result.correct };
+    }
+
+    for (const [questionId, grade] of Object.entries(attempt.getManualGrades())) {
+      if (grade.status !== 'graded') continue;
+      grades[questionId] = {
+        earnedPoints: grade.earnedPoints,
+        correct: grade.earnedPoints >= grade.maxPoints,
+      };
+    }
+
+    return grades;
+  }
+
+  /**
+   * Check if user can grade attempts for a course
+   */
+  private canUserGrade(course: Course, user: AuthenticatedUser): boolean {
+    return (
+      course.instructorId === user.id ||
+      (user.permissions?.includes('assessments:manage') &&
+        course.organizationId === user.currentOrganizationId)
+    );
+  }
+}
@@ -59,7 +59,16 @@ export class AuditService {
    * Log user authentication events
    */
   async logAuth(
-    action: 'login' | 'logout' | 'register' | 'password_reset' | 'email_verification',
+    action:
+      | 'login'
+      | 'logout'
+      | 'register'
+      | 'password_reset'
+      | 'email_verification'
+      | 'session_revoked'
+      | 'refresh_token_reuse'
+      | 'sso_login'
+      | `mfa.${string}`,
     userId?: string,
     metadata?: Record<string, unknown>,
     ipAddress?: string,
@@ -104,7 +113,7 @@ export class AuditService {
    * Log organization management events
    */
   async logOrganizationAction(
-    action: 'create' | 'update' | 'delete' | 'settings_update',
+    action: 'create' | 'update' | 'delete' | 'settings_update' | 'sso_connection_update',
     actorId: string,
     organizationId: string,
     oldValues?: Record<string, unknown>,
@@ -116,6 +116,85 @@ export class AuditListener {
     }
   }
 
+  @OnEvent('user.sessionRevoked')
+  async handleSessionRevoked(payload: {
+    userId: string;
+    sessionId: string;
+    reason: string;
+  }): Promise<void> {
+    try {
+      await this.auditService.logAuth('session_revoked', payload.userId, {
+        sessionId: payload.sessionId,
+        reason: payload.reason,
+      });
+    } catch (error) {
+      this.logger.error('Failed to log session revocation event:', error);
+    }
+  }
+
+  @OnEvent('user.mfa')
+  async handleMfaEvent(payload: {
+    userId: string;
+    event: string;
+    ipAddress?: string;
+    userAgent?: string;
+    metadata?: Record<string, unknown>;
+  }): Promise<void> {
+    try {
+      await this.auditService.logAuth(
+        `mfa.${payload.event}`,
+        payload.userId,
+        payload.metadata,
+        payload.ipAddress,
+        payload.userAgent,
+      );
+    } catch (error) {
+      this.logger.error('Failed to log MFA event:', error);
+    }
+  }
+
+  @OnEvent('user.refreshTokenReused')
+  async handleRefreshTokenReused(payload: {
+    userId: string;
+    sessionId: string;
+    ipAddress?: string;
+    userAgent?: string;
+  }): Promise<void> {
+    try {
+      await this.auditService.logAuth(
+        'refresh_token_reuse',
+        payload.userId,
+        { sessionId: payload.sessionId },
+        payload.ipAddress,
+        payload.userAgent,
+      );
+    } catch (error) {
+      this.logger.error('Failed to log refresh token reuse event:', error);
+    }
+  }
+
+  @OnEvent('user.ssoLogin')
+  async handleSsoLogin(payload: {
+    userId: string;
+    email: string;
+    organizationId: string;
+    connectionId: string;
+    protocol: string;
+    provisioned: boolean;
+  }): Promise<void> {
+    try {
+      await this.auditService.logAuth('sso_login', payload.userId, {
+        email: payload.email,
+        organizationId: payload.organizationId,
+        connectionId: payload.connectionId,
+        protocol: payload.protocol,
+        provisioned: payload.provisioned,
+      });
+    } catch (error) {
+      this.logger.error('Failed to log SSO login event:', error);
+    }
+  }
+
   // User Management Events
   @OnEvent('user.updated')
   async handleUserUpdated(payload: {
@@ -281,6 +360,27 @@ export class AuditListener {
     }
   }
 
+  @OnEvent('organization.ssoConnectionUpdated')
+  async handleSsoConnectionUpdated(payload: {
+    organizationId: string;
+    connectionId: string;
+    updatedBy: string;
+    action: 'created' | 'updated' | 'deleted';
+  }): Promise<void> {
+    try {
+      await this.auditService.logOrganizationAction(
+        'sso_connection_update',
+        payload.updatedBy,
+        payload.organizationId,
+        undefined,
+        undefined,
+        { connectionId: payload.connectionId, action: payload.action },
+      );
+    } catch (error) {
+      this.logger.error('Failed to log SSO connection update event:', error);
+    }
+  }
+
   // Membership Events
   @OnEvent('member.invited')
   async handleMemberInvited(payload: {
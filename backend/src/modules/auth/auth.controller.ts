@@ -9,6 +9,11 @@ import {
   HttpStatus,
   UseGuards,
   Request,
+  Query,
+  Ip,
+  Headers,
+  ParseUUIDPipe,
+  ParseBoolPipe,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { ThrottlerGuard } from '@nestjs/throttler';
@@ -24,6 +29,8 @@ import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { Public } from './decorators/public.decorator';
 import { CurrentUser } from './decorators/current-user.decorator';
 import { AuthenticatedUser } from './strategies/jwt.strategy';
+import { SessionSummary } from './services/session.service';
+import { MfaChallengeResponse } from './services/mfa.service';
 
 /**
  * Authentication Controller
@@ -120,7 +127,9 @@ export class AuthController {
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Login user',
-    description: 'Authenticate user credentials and return access/refresh tokens',
+    description:
+      'Authenticate user credentials and return access/refresh tokens. Users with MFA, or whose ' +
+      'organization requires it, get a challenge token to complete at POST auth/mfa/challenge',
   })
   @ApiResponse({
     status: 200,
@@ -161,8 +170,12 @@ export class AuthController {
     status: 401,
     description: 'Invalid credentials or email not verified',
   })
-  async login(@Body() loginDto: LoginDto): Promise<AuthResponse> {
-    return this.authService.login(loginDto);
+  async login(
+    @Body() loginDto: LoginDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<AuthResponse | MfaChallengeResponse> {
+    return this.authService.login(loginDto, { ipAddress, userAgent });
   }
 
   /**
@@ -174,7 +187,9 @@ export class AuthController {
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Refresh access token',
-    description: 'Generate new access token using valid refresh token',
+    description:
+      'Exchange a refresh token for a new token pair. Each refresh token can be used once; ' +
+      'replaying a used one signs out its session',
   })
   @ApiResponse({
     status: 200,
@@ -199,13 +214,17 @@ export class AuthController {
     status: 401,
     description: 'Invalid or expired refresh token',
   })
-  async refreshToken(@Body() refreshTokenDto: RefreshTokenDto): Promise<{ access: string; refresh: string }> {
-    return this.authService.refreshToken(refreshTokenDto);
+  async refreshToken(
+    @Body() refreshTokenDto: RefreshTokenDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<{ access: string; refresh: string }> {
+    return this.authService.refreshToken(refreshTokenDto, { ipAddress, userAgent });
   }
 
   /**
    * Logout user
-   * Invalidate refresh token and logout user
+   * Revoke the current session and logout user
    */
   @Post('logout')
   @HttpCode(HttpStatus.OK)
@@ -213,7 +232,7 @@ export class AuthController {
   @ApiBearerAuth('JWT-auth')
   @ApiOperation({
     summary: 'Logout user',
-    description: 'Invalidate refresh token and logout current user',
+    description: 'Revoke the current session and its tokens',
   })
   @ApiResponse({
     status: 200,
@@ -228,7 +247,7 @@ export class AuthController {
     },
   })
   async logout(@CurrentUser() user: AuthenticatedUser): Promise<{ message: string }> {
-    await this.authService.logout(user.id);
+    await this.authService.logout(user.id, user.sessionId);
     return { message: 'Logout successful' };
   }
 
@@ -319,8 +338,12 @@ export class AuthController {
     status: 400,
     description: 'Invalid or expired verification token',
   })
-  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto): Promise<{ message: string }> {
-    return await this.authService.verifyEmail(verifyEmailDto);
+  async verifyEmail(
+    @Body() verifyEmailDto: VerifyEmailDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<{ message: string }> {
+    return await this.authService.verifyEmail(verifyEmailDto, { ipAddress, userAgent });
   }
 
   /**
@@ -399,14 +422,14 @@ export class AuthController {
 
   /**
    * Get user's active sessions
-   * List all active JWT sessions for the user
+   * List the devices the user is signed in on
    */
   @Get('sessions')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth('JWT-auth')
   @ApiOperation({
     summary: 'Get active sessions',
-    description: 'Get all active JWT sessions for the current user',
+    description: 'Get all signed-in devices of the current user',
   })
   @ApiResponse({
     status: 200,
@@ -422,9 +445,12 @@ export class AuthController {
           items: {
             type: 'object',
             properties: {
-              sessionId: { type: 'string', example: 'session_123' },
+              sessionId: { type: 'string', example: 'uuid' },
+              deviceName: { type: 'string', example: 'Chrome on macOS' },
+              deviceType: { type: 'string', example: 'desktop' },
               createdAt: { type: 'string', example: '2023-01-01T00:00:00.000Z' },
               lastUsed: { type: 'string', example: '2023-01-01T00:00:00.000Z' },
+              expiresAt: { type: 'string', example: '2023-01-08T00:00:00.000Z' },
               ipAddress: { type: 'string', example: '192.168.1.1' },
               userAgent: { type: 'string', example: 'Mozilla/5.0...' },
               isCurrent: { type: 'boolean', example: true },
@@ -434,21 +460,65 @@ export class AuthController {
       },
     },
   })
-  async getSessions(@CurrentUser() user: AuthenticatedUser): Promise<any[]> {
-    return this.authService.getActiveSessions(user.id);
+  async getSessions(@CurrentUser() user: AuthenticatedUser): Promise<SessionSummary[]> {
+    return this.authService.getActiveSessions(user.id, user.sessionId);
+  }
+
+  /**
+   * Sign out everywhere
+   * Revoke all other sessions of the user, or every session including the current one
+   */
+  @Delete('sessions')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Sign out everywhere',
+    description:
+      'Revoke all sessions of the current user except this one. ' +
+      'Pass includeCurrent=true to sign out this device as well',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sessions revoked successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        statusCode: { type: 'number', example: 200 },
+        message: { type: 'string', example: 'Signed out of 3 sessions' },
+        data: {
+          type: 'object',
+          properties: {
+            revokedSessions: { type: 'number', example: 3 },
+          },
+        },
+      },
+    },
+  })
+  async revokeAllSessions(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('includeCurrent', new ParseBoolPipe({ optional: true })) includeCurrent?: boolean,
+  ): Promise<{ message: string; revokedSessions: number }> {
+    const revokedSessions = await this.authService.revokeAllSessions(
+      user.id,
+      user.sessionId,
+      includeCurrent,
+    );
+    return { message: `Signed out of ${revokedSessions} sessions`, revokedSessions };
   }
 
   /**
    * Revoke specific session
-   * Revoke a specific JWT session by session ID
+   * Sign out a specific device by session ID
    */
   @Delete('sessions/:sessionId')
   @HttpCode(HttpStatus.OK)
-  // @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard)
   @ApiBearerAuth('JWT-auth')
   @ApiOperation({
     summary: 'Revoke session',
-    description: 'Revoke a specific JWT session by session ID',
+    description: 'Revoke a session by ID; its refresh and access tokens stop working',
   })
   @ApiResponse({
     status: 200,
@@ -467,7 +537,7 @@ export class AuthController {
     description: 'Session not found',
   })
   async revokeSession(
-    @Param('sessionId') sessionId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
     @CurrentUser() user: AuthenticatedUser,
   ): Promise<{ message: string }> {
     await this.authService.revokeSession(user.id, sessionId);
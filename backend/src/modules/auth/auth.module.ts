@@ -6,24 +6,39 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { User } from '@/database/entities/user.entity';
 import { Organization } from '@database/entities/organization.entity';
 import { OrganizationMembership } from '@database/entities/organization-membership.entity';
+import { UserSession } from '@database/entities/user-session.entity';
+import { OrganizationSsoConnection } from '@database/entities/organization-sso-connection.entity';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { PermissionsGuard } from './guards/permissions.guard';
 import { PasswordSecurityService } from './services/password-security.service';
+import { SessionService } from './services/session.service';
+import { MfaService } from './services/mfa.service';
+import { MfaController } from './controllers/mfa.controller';
+import { SsoConnectionService } from './services/sso-connection.service';
+import { SsoService } from './services/sso.service';
+import { SsoController } from './controllers/sso.controller';
+import { SsoConnectionController } from './controllers/sso-connection.controller';
 import { SecurityModule } from '../security/security.module';
 import { CommonModule } from '@/common/common.module';
 
 /**
  * Authentication Module
  * Provides complete authentication functionality including JWT tokens,
- * user registration, login, password management, and RBAC
+ * user registration, login, password management, enterprise SSO and RBAC
  */
 @Module({
   imports: [
     // Import required entities
-    TypeOrmModule.forFeature([User, Organization, OrganizationMembership]),
+    TypeOrmModule.forFeature([
+      User,
+      Organization,
+      OrganizationMembership,
+      UserSession,
+      OrganizationSsoConnection,
+    ]),
     
     // Passport configuration
     PassportModule.register({ defaultStrategy: 'jwt' }),
@@ -41,16 +56,23 @@ import { CommonModule } from '@/common/common.module';
     }),
     CommonModule,
   ],
-  controllers: [AuthController],
+  controllers: [AuthController, MfaController, SsoController, SsoConnectionController],
   providers: [
     AuthService,
     JwtStrategy,
     JwtAuthGuard,
     PermissionsGuard,
     PasswordSecurityService,
+    SessionService,
+    MfaService,
+    SsoConnectionService,
+    SsoService,
   ],
   exports: [
     AuthService,
+    SessionService,
+    MfaService,
+    SsoConnectionService,
     JwtStrategy,
     JwtAuthGuard,
     PermissionsGuard,
@@ -4,11 +4,15 @@ import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Repository } from 'typeorm';
-import { ConflictException, UnauthorizedException } from '@nestjs/common';
+import { ConflictException, HttpStatus, UnauthorizedException } from '@nestjs/common';
 import { AuthService } from './auth.service';
+import { PasswordSecurityService } from './services/password-security.service';
+import { SessionService } from './services/session.service';
+import { MfaService } from './services/mfa.service';
 import { User, UserStatus } from '@database/entities/user.entity';
 import { Organization } from '@database/entities/organization.entity';
 import { OrganizationMembership } from '@database/entities/organization-membership.entity';
+import { SessionRevocationReason } from '@database/entities/user-session.entity';
 
 describe('AuthService', () => {
   let service: AuthService;
@@ -63,6 +67,29 @@ describe('AuthService', () => {
     emit: jest.fn(),
   };
 
+  const mockPasswordSecurityService = {
+    hashPassword: jest.fn(),
+    verifyPassword: jest.fn(),
+    needsRehash: jest.fn(),
+  };
+
+  const mockSessionService = {
+    createSession: jest.fn(),
+    verifyRefreshToken: jest.fn(),
+    rotate: jest.fn(),
+    listSessions: jest.fn(),
+    revokeSession: jest.fn(),
+    revokeAllSessions: jest.fn(),
+  };
+
+  const mockMfaService = {
+    isMfaRequired: jest.fn(),
+    createChallenge: jest.fn(),
+    verifyChallengeToken: jest.fn(),
+    verifySecondFactor: jest.fn(),
+    confirmEnrollment: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -91,6 +118,18 @@ describe('AuthService', () => {
           provide: EventEmitter2,
           useValue: mockEventEmitter,
         },
+        {
+          provide: PasswordSecurityService,
+          useValue: mockPasswordSecurityService,
+        },
+        {
+          provide: SessionService,
+          useValue: mockSessionService,
+        },
+        {
+          provide: MfaService,
+          useValue: mockMfaService,
+        },
       ],
     }).compile();
 
@@ -122,13 +161,14 @@ describe('AuthService', () => {
       mockUserRepository.findOne.mockResolvedValue(null);
       mockUserRepository.create.mockReturnValue(mockUser);
       mockUserRepository.save.mockResolvedValue(mockUser);
+      mockPasswordSecurityService.hashPassword.mockResolvedValue({ hash: 'hashedPassword' });
       mockJwtService.signAsync.mockResolvedValue('mock-token');
       mockConfigService.get.mockReturnValue(12);
 
       const result = await service.register(registerDto);
 
       expect(result).toHaveProperty('user');
-      expect(result).toHaveProperty('tokens');
+      expect(mockPasswordSecurityService.hashPassword).toHaveBeenCalledWith(registerDto.password);
       expect(mockUserRepository.findOne).toHaveBeenCalledWith({
         where: { email: registerDto.email },
       });
@@ -156,22 +196,26 @@ describe('AuthService', () => {
         password: 'SecurePass123!',
       };
 
-      const bcrypt = require('bcrypt');
-      jest.spyOn(bcrypt, 'compare').mockResolvedValue(true);
+      mockPasswordSecurityService.verifyPassword.mockResolvedValue(true);
 
       mockUserRepository.findOne.mockResolvedValue(mockUser);
       mockUserRepository.update.mockResolvedValue({});
-      mockJwtService.signAsync.mockResolvedValue('mock-token');
+      mockMfaService.isMfaRequired.mockResolvedValue(false);
+      mockSessionService.createSession.mockResolvedValue({ access: 'mock-token', refresh: 'mock-token' });
       mockMembershipRepository.findOne.mockResolvedValue(null);
 
-      const result = await service.login(loginDto);
+      const result = await service.login(loginDto, { ipAddress: '10.0.0.1', userAgent: 'jest' });
 
+      expect(mockSessionService.createSession).toHaveBeenCalledWith(
+        mockUser,
+        expect.objectContaining({ ipAddress: '10.0.0.1', userAgent: 'jest' }),
+      );
       expect(result).toHaveProperty('user');
       expect(result).toHaveProperty('tokens');
       expect(mockEventEmitter.emit).toHaveBeenCalledWith('user.login', expect.any(Object));
     });
 
-    it('should throw UnauthorizedException for invalid credentials', async () => {
+    it('should reject invalid credentials', async () => {
       const loginDto = {
         email: 'test@example.com',
         password: 'wrongpassword',
@@ -179,10 +223,13 @@ describe('AuthService', () => {
 
       mockUserRepository.findOne.mockResolvedValue(null);
 
-      await expect(service.login(loginDto)).rejects.toThrow(UnauthorizedException);
+      await expect(service.login(loginDto)).rejects.toMatchObject({
+        message: 'Invalid credentials',
+        status: HttpStatus.BAD_REQUEST,
+      });
     });
 
-    it('should throw UnauthorizedException for unverified email', async () => {
+    it('should reject logins with an unverified email', async () => {
       const loginDto = {
         email: 'test@example.com',
         password: 'SecurePass123!',
@@ -191,30 +238,109 @@ describe('AuthService', () => {
       const unverifiedUser = { ...mockUser, emailVerified: false };
       mockUserRepository.findOne.mockResolvedValue(unverifiedUser);
 
-      const bcrypt = require('bcrypt');
-      jest.spyOn(bcrypt, 'compare').mockResolvedValue(true);
+      mockPasswordSecurityService.verifyPassword.mockResolvedValue(true);
+
+      await expect(service.login(loginDto)).rejects.toMatchObject({
+        status: HttpStatus.BAD_REQUEST,
+      });
+    });
+
+    it('should return an MFA challenge instead of tokens when MFA is enabled', async () => {
+      const loginDto = {
+        email: 'test@example.com',
+        password: 'SecurePass123!',
+      };
+
+      mockPasswordSecurityService.verifyPassword.mockResolvedValue(true);
+
+      mockUserRepository.findOne.mockResolvedValue({ ...mockUser, mfaEnabled: true });
+      mockMfaService.createChallenge.mockResolvedValue({
+        mfaRequired: true,
+        enrollmentRequired: false,
+        challengeToken: 'challenge-token',
+        methods: ['totp', 'recovery_code'],
+      });
+
+      const result = await service.login(loginDto);
+
+      expect(result).toHaveProperty('challengeToken', 'challenge-token');
+      expect(mockSessionService.createSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeMfaChallenge', () => {
+    const mfaUser = { ...mockUser, mfaEnabled: true };
+
+    beforeEach(() => {
+      mockMfaService.verifyChallengeToken.mockReturnValue({
+        sub: 'user-1',
+        purpose: 'mfa',
+        deviceName: 'Work laptop',
+      });
+      mockSessionService.createSession.mockResolvedValue({ access: 'mock-token', refresh: 'mock-token' });
+      mockMembershipRepository.findOne.mockResolvedValue(null);
+    });
+
+    it('should issue tokens once the second factor is verified', async () => {
+      mockUserRepository.findOne.mockResolvedValue(mfaUser);
+      mockMfaService.verifySecondFactor.mockResolvedValue('totp');
+
+      const result = await service.completeMfaChallenge(
+        { challengeToken: 'challenge-token', code: '123456' },
+        { ipAddress: '10.0.0.1' },
+      );
+
+      expect(mockMfaService.verifySecondFactor).toHaveBeenCalledWith(
+        mfaUser,
+        { code: '123456', recoveryCode: undefined },
+        { ipAddress: '10.0.0.1' },
+      );
+      expect(mockSessionService.createSession).toHaveBeenCalledWith(
+        mfaUser,
+        expect.objectContaining({ deviceName: 'Work laptop' }),
+      );
+      expect(result).toHaveProperty('tokens');
+    });
+
+    it('should not issue tokens when the second factor is rejected', async () => {
+      mockUserRepository.findOne.mockResolvedValue(mfaUser);
+      mockMfaService.verifySecondFactor.mockRejectedValue(
+        new UnauthorizedException('Invalid authentication code'),
+      );
 
-      await expect(service.login(loginDto)).rejects.toThrow(UnauthorizedException);
+      await expect(
+        service.completeMfaChallenge({ challengeToken: 'challenge-token', code: '000000' }),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockSessionService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should finish required enrollment and return recovery codes', async () => {
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      mockMfaService.confirmEnrollment.mockResolvedValue({ recoveryCodes: ['abcde-fghjk'] });
+
+      const result = await service.completeMfaChallenge({
+        challengeToken: 'challenge-token',
+        code: '123456',
+      });
+
+      expect(mockMfaService.confirmEnrollment).toHaveBeenCalledWith(mockUser, '123456', {});
+      expect(mockMfaService.verifySecondFactor).not.toHaveBeenCalled();
+      expect(result.recoveryCodes).toEqual(['abcde-fghjk']);
     });
   });
 
   describe('refreshToken', () => {
     it('should refresh token successfully', async () => {
       const refreshTokenDto = { refreshToken: 'valid-refresh-token' };
-      const payload = { sub: 'user-1', email: 'test@example.com' };
-
-      mockJwtService.verify.mockReturnValue(payload);
-      mockUserRepository.findOne.mockResolvedValue({
-        ...mockUser,
-        refreshTokenHash: 'hashed-refresh-token',
-      });
+      const payload = { sub: 'user-1', email: 'test@example.com', sid: 'session-1', jti: 'token-1' };
 
-      const bcrypt = require('bcrypt');
-      jest.spyOn(bcrypt, 'compare').mockResolvedValue(true);
-      mockJwtService.signAsync.mockResolvedValue('new-token');
+      mockSessionService.verifyRefreshToken.mockReturnValue(payload);
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      mockSessionService.rotate.mockResolvedValue({ access: 'new-token', refresh: 'new-token' });
 
       const result = await service.refreshToken(refreshTokenDto);
 
+      expect(mockSessionService.rotate).toHaveBeenCalledWith(mockUser, payload, {});
       expect(result).toHaveProperty('access');
       expect(result).toHaveProperty('refresh');
     });
@@ -222,8 +348,8 @@ describe('AuthService', () => {
     it('should throw UnauthorizedException for invalid refresh token', async () => {
       const refreshTokenDto = { refreshToken: 'invalid-refresh-token' };
 
-      mockJwtService.verify.mockImplementation(() => {
-        throw new Error('Invalid token');
+      mockSessionService.verifyRefreshToken.mockImplementation(() => {
+        throw new UnauthorizedException('Invalid or expired refresh token');
       });
 
       await expect(service.refreshToken(refreshTokenDto)).rejects.toThrow(UnauthorizedException);
@@ -234,13 +360,15 @@ describe('AuthService', () => {
     it('should logout user successfully', async () => {
       const userId = 'user-1';
 
-      mockUserRepository.update.mockResolvedValue({});
+      mockSessionService.revokeSession.mockResolvedValue(undefined);
 
-      await service.logout(userId);
+      await service.logout(userId, 'session-1');
 
-      expect(mockUserRepository.update).toHaveBeenCalledWith(userId, {
-        refreshTokenHash: null,
-      });
+      expect(mockSessionService.revokeSession).toHaveBeenCalledWith(
+        userId,
+        'session-1',
+        SessionRevocationReason.LOGOUT,
+      );
     });
   });
 
@@ -3,6 +3,7 @@ import {
   ConflictException,
   UnauthorizedException,
   BadRequestException,
+  NotFoundException,
   Logger,
   HttpException,
   HttpStatus,
@@ -15,22 +16,25 @@ import { EventEmitter2 } from '@nestjs/event-emitter';
 import * as bcrypt from 'bcrypt';
 import { v4 as uuidv4 } from 'uuid';
 import { PasswordSecurityService } from './services/password-security.service';
+import { SessionService, SessionClientInfo, SessionSummary } from './services/session.service';
+import { MfaService, MfaChallengeResponse, MfaEnrollment } from './services/mfa.service';
 import { Role, User, UserStatus } from '@/database/entities/user.entity';
 import { Organization, OrganizationStatus } from '@database/entities/organization.entity';
 import { OrganizationMembership, MembershipRole, MembershipStatus } from '@database/entities/organization-membership.entity';
+import { SessionRevocationReason } from '@database/entities/user-session.entity';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
 import { ForgotPasswordDto } from './dto/forgot-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
 import { VerifyEmailDto } from './dto/verify-email.dto';
-import { JwtPayload } from './strategies/jwt.strategy';
+import { MfaChallengeDto } from './dto/mfa-challenge.dto';
 
 /**
  * Authentication response interface
  */
 export interface AuthResponse {
-  user: Omit<User, 'passwordHash' | 'refreshTokenHash'>;
+  user: Omit<User, 'passwordHash' | 'refreshTokenHash' | 'mfaSecret' | 'mfaRecoveryCodes'>;
   tokens: {
     access: string;
     refresh: string;
@@ -58,6 +62,8 @@ export class AuthService {
     private readonly configService: ConfigService,
     private readonly eventEmitter: EventEmitter2,
     private readonly passwordSecurityService: PasswordSecurityService,
+    private readonly sessionService: SessionService,
+    private readonly mfaService: MfaService,
   ) {}
 
   /**
@@ -146,8 +152,11 @@ export class AuthService {
   /**
    * Authenticate user and return tokens
    */
-  async login(loginDto: LoginDto): Promise<AuthResponse> {
-    const { email, password } = loginDto;
+  async login(
+    loginDto: LoginDto,
+    client: SessionClientInfo = {},
+  ): Promise<AuthResponse | MfaChallengeResponse> {
+    const { email, password, deviceName } = loginDto;
 
     // Find user with password hash
     const user = await this.userRepository.findOne({
@@ -183,16 +192,94 @@ export class AuthService {
       throw new HttpException('Please verify your email before logging in', HttpStatus.BAD_REQUEST);
     }
 
+    // Hold back tokens until the second factor is verified
+    if (user.mfaEnabled || (await this.mfaService.isMfaRequired(user.id))) {
+      return this.mfaService.createChallenge(user, {
+        deviceName,
+        enrollmentRequired: !user.mfaEnabled,
+      });
+    }
+
+    return this.completeLogin(user, { ...client, deviceName });
+  }
+
+  /**
+   * Finish a login with an MFA code or recovery code
+   * Users who still have to enroll confirm their first code here and receive recovery codes
+   */
+  async completeMfaChallenge(
+    mfaChallengeDto: MfaChallengeDto,
+    client: SessionClientInfo = {},
+  ): Promise<AuthResponse & { recoveryCodes?: string[] }> {
+    const { challengeToken, code, recoveryCode } = mfaChallengeDto;
+    const challenge = this.mfaService.verifyChallengeToken(challengeToken);
+
+    const user = await this.userRepository.findOne({
+      where: { id: challenge.sub, status: UserStatus.ACTIVE, deletedAt: null },
+    });
+
+    if (!user) {
+      throw new UnauthorizedException('User not found or inactive');
+    }
+
+    if (!user.mfaEnabled) {
+      const { recoveryCodes } = await this.mfaService.confirmEnrollment(user, code, client);
+      const response = await this.completeLogin(user, { ...client, deviceName: challenge.deviceName });
+      return { ...response, recoveryCodes };
+    }
+
+    await this.mfaService.verifySecondFactor(user, { code, recoveryCode }, client);
+
+    return this.completeLogin(user, { ...client, deviceName: challenge.deviceName });
+  }
+
+  /**
+   * Start the enrollment an organization requires, before the user has tokens
+   */
+  async startMfaChallengeEnrollment(
+    challengeToken: string,
+    client: SessionClientInfo = {},
+  ): Promise<MfaEnrollment> {
+    const challenge = this.mfaService.verifyChallengeToken(challengeToken);
+
+    const user = await this.userRepository.findOne({
+      where: { id: challenge.sub, status: UserStatus.ACTIVE, deletedAt: null },
+    });
+
+    if (!user) {
+      throw new UnauthorizedException('User not found or inactive');
+    }
+
+    return this.mfaService.startEnrollment(user, client);
+  }
+
+  /**
+   * Issue tokens for a user authenticated by an organization identity provider
+   * The IdP is responsible for the second factor, so no MFA challenge is raised
+   */
+  async loginWithSso(userId: string, client: SessionClientInfo = {}): Promise<AuthResponse> {
+    const user = await this.userRepository.findOne({
+      where: { id: userId, status: UserStatus.ACTIVE, deletedAt: null },
+    });
+
+    if (!user) {
+      throw new UnauthorizedException('User not found or inactive');
+    }
+
+    return this.completeLogin(user, client);
+  }
+
+  /**
+   * Start a session once every authentication step has passed
+   */
+  private async completeLogin(user: User, client: SessionClientInfo): Promise<AuthResponse> {
     // Update last login
     await this.userRepository.update(user.id, {
       lastLoginAt: new Date(),
     });
 
-    // Generate tokens
-    const tokens = await this.generateTokens(user);
-
-    // Update refresh token hash
-    await this.updateRefreshTokenHash(user.id, tokens.refresh);
+    // Start a session for this device
+    const tokens = await this.sessionService.createSession(user, client);
 
     // Get user's primary organization
     const membership = await this.membershipRepository.findOne({
@@ -205,9 +292,11 @@ export class AuthService {
       userId: user.id,
       email: user.email,
       organizationId: membership?.organizationId,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
     });
 
-    this.logger.log(`User logged in successfully: ${email}`);
+    this.logger.log(`User logged in successfully: ${user.email}`);
 
     return {
       user: this.sanitizeUser(user),
@@ -218,55 +307,43 @@ export class AuthService {
 
   /**
    * Refresh access token using refresh token
+   * The refresh token is rotated; replaying an already used one revokes its session
    */
-  async refreshToken(refreshTokenDto: RefreshTokenDto): Promise<{ access: string; refresh: string }> {
+  async refreshToken(
+    refreshTokenDto: RefreshTokenDto,
+    client: SessionClientInfo = {},
+  ): Promise<{ access: string; refresh: string }> {
     const { refreshToken } = refreshTokenDto;
-    console.log("secret: ", this.configService.get<string>('jwt.refreshSecret'))
-    try {
-      // Verify refresh token
-      const payload = this.jwtService.verify(refreshToken, {
-        secret: this.configService.get<string>('jwt.refreshSecret'),
-      });
 
-      console.log("Payload: ", payload)
+    const payload = this.sessionService.verifyRefreshToken(refreshToken);
 
-      // Find user and verify refresh token hash
-      const user = await this.userRepository.findOne({
-        where: { id: payload.sub, status: UserStatus.ACTIVE, deletedAt: null },
-      });
-
-      if (!user || !user.refreshTokenHash) {
-        throw new UnauthorizedException('Invalid refresh token');
-      }
-
-      // Verify refresh token hash
-      const isRefreshTokenValid = await bcrypt.compare(refreshToken, user.refreshTokenHash);
-      if (!isRefreshTokenValid) {
-        throw new UnauthorizedException('Invalid refresh token');
-      }
+    const user = await this.userRepository.findOne({
+      where: { id: payload.sub, status: UserStatus.ACTIVE, deletedAt: null },
+    });
 
-      // Generate new tokens
-      const tokens = await this.generateTokens(user);
+    if (!user) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
 
-      // Update refresh token hash
-      await this.updateRefreshTokenHash(user.id, tokens.refresh);
+    const tokens = await this.sessionService.rotate(user, payload, client);
 
-      this.logger.log(`Token refreshed for user: ${user.email}`);
+    this.logger.log(`Token refreshed for user: ${user.email}`);
 
-      return tokens;
-    } catch (error) {
-      console.error('Error refreshing token:', error);
-      throw new UnauthorizedException('Invalid or expired refresh token');
-    }
+    return tokens;
   }
 
   /**
-   * Logout user by clearing refresh token
+   * Logout user by revoking the current session
    */
-  async logout(userId: string): Promise<void> {
-    await this.userRepository.update(userId, {
-      refreshTokenHash: null,
-    });
+  async logout(userId: string, sessionId?: string): Promise<void> {
+    if (sessionId) {
+      try {
+        await this.sessionService.revokeSession(userId, sessionId, SessionRevocationReason.LOGOUT);
+      } catch (error) {
+        // Already revoked from another device
+        if (!(error instanceof NotFoundException)) throw error;
+      }
+    }
 
     this.logger.log(`User logged out: ${userId}`);
   }
@@ -333,9 +410,11 @@ export class AuthService {
       passwordHash,
       passwordResetToken: null,
       passwordResetExpiresAt: null,
-      refreshTokenHash: null, // Invalidate all sessions
     });
 
+    // Invalidate all sessions
+    await this.sessionService.revokeAllSessions(user.id, SessionRevocationReason.PASSWORD_RESET);
+
     // Emit password reset event
     this.eventEmitter.emit('user.passwordReset', {
       userId: user.id,
@@ -355,7 +434,7 @@ export class AuthService {
   /**
    * Verify user email using verification token
    */
-  async verifyEmail(verifyEmailDto: VerifyEmailDto): Promise<any> {
+  async verifyEmail(verifyEmailDto: VerifyEmailDto, client: SessionClientInfo = {}): Promise<any> {
     const { token } = verifyEmailDto;
 
     const user = await this.userRepository.findOne({
@@ -383,13 +462,6 @@ export class AuthService {
       },
     })
 
-    // // // Generate tokens
-    const tokens = await this.generateTokens(user);
-    console.log('Tokens:', tokens);
-    
-    // // // Update user with refresh token hash
-    await this.updateRefreshTokenHash(user.id, tokens.refresh);
-
     // Emit email verification event
     this.eventEmitter.emit('user.emailVerified', {
       userId: user.id,
@@ -398,6 +470,17 @@ export class AuthService {
 
     this.logger.log(`Email verified for user: ${user.email}`);
 
+    // Members of organizations that require MFA have to enroll before getting tokens
+    if (user.mfaEnabled || (await this.mfaService.isMfaRequired(user.id))) {
+      const challenge = await this.mfaService.createChallenge(user, {
+        enrollmentRequired: !user.mfaEnabled,
+      });
+      return { ...challenge, user: this.sanitizeUser(user), organization };
+    }
+
+    // Sign the user in on this device
+    const tokens = await this.sessionService.createSession(user, client);
+
     return {
       tokens,
       user,
@@ -466,60 +549,37 @@ export class AuthService {
 
   /**
    * Get active sessions for user
-   * Note: This is a simplified implementation. In production, you'd store session info in Redis
    */
-  async getActiveSessions(userId: string): Promise<any[]> {
-    // This is a placeholder implementation
-    // In a real application, you would store session information in Redis
-    // and track session IDs, creation times, IP addresses, etc.
-    
-    const user = await this.userRepository.findOne({
-      where: { id: userId, status: UserStatus.ACTIVE, deletedAt: null },
-    });
-
-    if (!user) {
-      throw new UnauthorizedException('User not found');
-    }
-
-    // Return mock session data - replace with actual Redis-based session tracking
-    return [
-      {
-        sessionId: 'current_session',
-        createdAt: user.lastLoginAt || new Date(),
-        lastUsed: new Date(),
-        ipAddress: '127.0.0.1',
-        userAgent: 'Unknown',
-        isCurrent: true,
-      },
-    ];
+  async getActiveSessions(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+    return this.sessionService.listSessions(userId, currentSessionId);
   }
 
   /**
    * Revoke specific session
-   * Note: This is a simplified implementation. In production, you'd remove session from Redis
    */
   async revokeSession(userId: string, sessionId: string): Promise<void> {
-    const user = await this.userRepository.findOne({
-      where: { id: userId, status: UserStatus.ACTIVE, deletedAt: null },
-    });
+    await this.sessionService.revokeSession(userId, sessionId, SessionRevocationReason.USER_REVOKED);
 
-    if (!user) {
-      throw new UnauthorizedException('User not found');
-    }
+    this.logger.log(`Session revoked: ${sessionId} for user: ${userId}`);
+  }
 
-    // In a real implementation, you would:
-    // 1. Remove the session from Redis
-    // 2. Add the session ID to a blacklist
-    // 3. Validate session IDs against the blacklist in JWT strategy
+  /**
+   * Sign out everywhere, keeping the current session unless asked otherwise
+   */
+  async revokeAllSessions(
+    userId: string,
+    currentSessionId?: string,
+    includeCurrent = false,
+  ): Promise<number> {
+    const revoked = await this.sessionService.revokeAllSessions(
+      userId,
+      SessionRevocationReason.SIGN_OUT_EVERYWHERE,
+      includeCurrent ? undefined : currentSessionId,
+    );
 
-    if (sessionId === 'current_session') {
-      // For now, just clear the refresh token to invalidate current session
-      await this.userRepository.update(userId, {
-        refreshTokenHash: null,
-      });
-    }
+    this.logger.log(`Signed out ${revoked} sessions for user: ${userId}`);
 
-    this.logger.log(`Session revoked: ${sessionId} for user: ${userId}`);
+    return revoked;
   }
 
   // Private helper methods
@@ -532,39 +592,6 @@ export class AuthService {
     return bcrypt.hash(password, saltRounds);
   }
 
-  /**
-   * Generate JWT access and refresh tokens
-   */
-  private async generateTokens(user: User): Promise<{ access: string; refresh: string }> {
-    const payload: JwtPayload = {
-      sub: user.id,
-      email: user.email,
-      // iat: Math.floor(Date.now() / 1000),
-      // exp: Math.floor(Date.now() / 1000) + 15 * 60, // 15 minutes
-    };
-
-    const [access, refresh] = await Promise.all([
-      this.jwtService.signAsync(payload, {
-        secret: this.configService.get<string>('jwt.secret'),
-        expiresIn: this.configService.get<string>('jwt.expiresIn'),
-      }),
-      this.jwtService.signAsync(payload, {
-        secret: this.configService.get<string>('jwt.refreshSecret'),
-        expiresIn: this.configService.get<string>('jwt.refreshExpiresIn'),
-      }),
-    ]);
-
-    return { access, refresh };
-  }
-
-  /**
-   * Update user's refresh token hash
-   */
-  private async updateRefreshTokenHash(userId: string, refreshToken: string): Promise<void> {
-    const refreshTokenHash = await bcrypt.hash(refreshToken, 10);
-    await this.userRepository.update(userId, { refreshTokenHash });
-  }
-
   /**
    * Create new organization
    */
@@ -654,7 +681,14 @@ export class AuthService {
    * Remove sensitive fields from user object
    */
   private sanitizeUser(user: User): any {
-    const { passwordHash, refreshTokenHash, ...sanitizedUser } = user;
+    const {
+      passwordHash,
+      refreshTokenHash,
+      mfaSecret,
+      mfaLastUsedStep,
+      mfaRecoveryCodes,
+      ...sanitizedUser
+    } = user;
     return sanitizedUser;
   }
 }
@@ -0,0 +1,252 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Ip,
+  Headers,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { Public } from '../decorators/public.decorator';
+import { AuthenticatedUser } from '../strategies/jwt.strategy';
+import { AuthService, AuthResponse } from '../auth.service';
+import { MfaService, MfaEnrollment, MfaStatus } from '../services/mfa.service';
+import { MfaVerificationDto } from '../dto/mfa-verification.dto';
+import { MfaChallengeDto, MfaChallengeEnrollmentDto } from '../dto/mfa-challenge.dto';
+
+/**
+ * MFA Controller
+ * Handles TOTP enrollment, recovery codes and the second step of login
+ */
+@ApiTags('Multi-Factor Authentication')
+@Controller('auth/mfa')
+export class MfaController {
+  constructor(
+    private readonly mfaService: MfaService,
+    private readonly authService: AuthService,
+  ) {}
+
+  /**
+   * Get MFA status
+   */
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Get MFA status',
+    description:
+      'Whether MFA is enabled, required by an organization, and how many recovery codes remain',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'MFA status retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean', example: true },
+        enabledAt: { type: 'string', example: '2023-01-01T00:00:00.000Z' },
+        required: { type: 'boolean', example: false },
+        recoveryCodesRemaining: { type: 'number', example: 8 },
+      },
+    },
+  })
+  async getStatus(@CurrentUser() user: AuthenticatedUser): Promise<MfaStatus> {
+    return this.mfaService.getStatus(user.id);
+  }
+
+  /**
+   * Start MFA enrollment
+   */
+  @Post('enroll')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Start MFA enrollment',
+    description:
+      'Generate a TOTP secret with its provisioning URI and QR code. MFA is enabled once a code is confirmed',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Enrollment started',
+    schema: {
+      type: 'object',
+      properties: {
+        secret: { type: 'string', example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP' },
+        otpauthUrl: {
+          type: 'string',
+          example: 'otpauth://totp/VolkaiHR:john.doe%40example.com?secret=...',
+        },
+        qrCode: { type: 'string', example: 'data:image/png;base64,iVBORw0KGgo...' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'MFA is already enabled',
+  })
+  async enroll(
+    @CurrentUser() user: AuthenticatedUser,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<MfaEnrollment> {
+    return this.mfaService.startEnrollment(user, { ipAddress, userAgent });
+  }
+
+  /**
+   * Confirm MFA enrollment
+   */
+  @Post('enable')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Enable MFA',
+    description:
+      'Confirm enrollment with a code from the authenticator app. Returns one-time recovery codes, shown only once',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'MFA enabled',
+    schema: {
+      type: 'object',
+      properties: {
+        recoveryCodes: { type: 'array', items: { type: 'string' }, example: ['k7m2p-x9q4r'] },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid authentication code',
+  })
+  async enable(
+    @Body() mfaVerificationDto: MfaVerificationDto,
+    @CurrentUser() user: AuthenticatedUser,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<{ recoveryCodes: string[] }> {
+    return this.mfaService.confirmEnrollment(user, mfaVerificationDto.code, {
+      ipAddress,
+      userAgent,
+    });
+  }
+
+  /**
+   * Disable MFA
+   */
+  @Post('disable')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Disable MFA',
+    description:
+      'Turn MFA off after verifying a code or recovery code. Not allowed when an organization requires MFA',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'MFA disabled',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'MFA is required by an organization',
+  })
+  async disable(
+    @Body() mfaVerificationDto: MfaVerificationDto,
+    @CurrentUser() user: AuthenticatedUser,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<{ message: string }> {
+    await this.mfaService.disable(user.id, mfaVerificationDto, { ipAddress, userAgent });
+    return { message: 'MFA disabled' };
+  }
+
+  /**
+   * Regenerate recovery codes
+   */
+  @Post('recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Regenerate recovery codes',
+    description: 'Replace all recovery codes after verifying the second factor',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Recovery codes regenerated',
+  })
+  async regenerateRecoveryCodes(
+    @Body() mfaVerificationDto: MfaVerificationDto,
+    @CurrentUser() user: AuthenticatedUser,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<{ recoveryCodes: string[] }> {
+    return this.mfaService.regenerateRecoveryCodes(user.id, mfaVerificationDto, {
+      ipAddress,
+      userAgent,
+    });
+  }
+
+  /**
+   * Complete MFA login challenge
+   */
+  @Public()
+  @Post('challenge')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Complete MFA challenge',
+    description:
+      'Exchange the challenge token from login and a second factor for access/refresh tokens',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Login successful',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid challenge token or authentication code',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many failed attempts',
+  })
+  async completeChallenge(
+    @Body() mfaChallengeDto: MfaChallengeDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<AuthResponse & { recoveryCodes?: string[] }> {
+    return this.authService.completeMfaChallenge(mfaChallengeDto, { ipAddress, userAgent });
+  }
+
+  /**
+   * Enroll during login when an organization requires MFA
+   */
+  @Public()
+  @Post('challenge/enroll')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Enroll during login',
+    description:
+      'Start the enrollment required by an organization using the challenge token from login',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Enrollment started',
+  })
+  async enrollDuringChallenge(
+    @Body() mfaChallengeEnrollmentDto: MfaChallengeEnrollmentDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<MfaEnrollment> {
+    return this.authService.startMfaChallengeEnrollment(mfaChallengeEnrollmentDto.challengeToken, {
+      ipAddress,
+      userAgent,
+    });
+  }
+}
@@ -0,0 +1,184 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { AuthenticatedUser } from '../strategies/jwt.strategy';
+import {
+  SsoConnectionService,
+  SsoDomainVerificationResult,
+} from '../services/sso-connection.service';
+import { CreateSsoConnectionDto, UpdateSsoConnectionDto } from '../dto/sso-connection.dto';
+import { OrganizationSsoConnection } from '@database/entities/organization-sso-connection.entity';
+
+/**
+ * SSO Connection Controller
+ * Organization administrators configure SAML and OpenID Connect identity providers
+ */
+@ApiTags('Single Sign-On')
+@Controller('orgs/:orgId/sso-connections')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+export class SsoConnectionController {
+  constructor(private readonly ssoConnectionService: SsoConnectionService) {}
+
+  /**
+   * List SSO connections
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'List SSO connections',
+    description: 'Get the identity providers configured for the organization',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'SSO connections retrieved successfully',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Insufficient permissions',
+  })
+  async findAll(
+    @Param('orgId', ParseUUIDPipe) orgId: string,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<OrganizationSsoConnection[]> {
+    return this.ssoConnectionService.findAll(orgId, currentUser);
+  }
+
+  /**
+   * Create SSO connection
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Create SSO connection',
+    description:
+      'Add a SAML 2.0 or OpenID Connect identity provider. Logins are routed to it once its domains are verified',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'SSO connection created successfully',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Domain already used by another SSO connection',
+  })
+  async create(
+    @Param('orgId', ParseUUIDPipe) orgId: string,
+    @Body() createSsoConnectionDto: CreateSsoConnectionDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<OrganizationSsoConnection> {
+    return this.ssoConnectionService.create(orgId, createSsoConnectionDto, currentUser);
+  }
+
+  /**
+   * Get SSO connection
+   */
+  @Get(':connectionId')
+  @ApiOperation({
+    summary: 'Get SSO connection',
+    description: 'Get an identity provider configuration. Client secrets are never returned',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'SSO connection retrieved successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'SSO connection not found',
+  })
+  async findOne(
+    @Param('orgId', ParseUUIDPipe) orgId: string,
+    @Param('connectionId', ParseUUIDPipe) connectionId: string,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<OrganizationSsoConnection> {
+    return this.ssoConnectionService.findOne(orgId, connectionId, currentUser);
+  }
+
+  /**
+   * Update SSO connection
+   */
+  @Patch(':connectionId')
+  @ApiOperation({
+    summary: 'Update SSO connection',
+    description: 'Changing the domains drops the verification of removed domains',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'SSO connection updated successfully',
+  })
+  async update(
+    @Param('orgId', ParseUUIDPipe) orgId: string,
+    @Param('connectionId', ParseUUIDPipe) connectionId: string,
+    @Body() updateSsoConnectionDto: UpdateSsoConnectionDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<OrganizationSsoConnection> {
+    return this.ssoConnectionService.update(
+      orgId,
+      connectionId,
+      updateSsoConnectionDto,
+      currentUser,
+    );
+  }
+
+  /**
+   * Delete SSO connection
+   */
+  @Delete(':connectionId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete SSO connection',
+    description: 'Members keep their accounts and sign in with a password reset afterwards',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'SSO connection deleted successfully',
+  })
+  async remove(
+    @Param('orgId', ParseUUIDPipe) orgId: string,
+    @Param('connectionId', ParseUUIDPipe) connectionId: string,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<void> {
+    return this.ssoConnectionService.remove(orgId, connectionId, currentUser);
+  }
+
+  /**
+   * Verify domains
+   */
+  @Post(':connectionId/verify-domains')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Verify SSO domains',
+    description:
+      'Check the DNS TXT record of each pending domain. Publish the returned txtRecord value on the domain first',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Domain verification checked',
+    schema: {
+      type: 'object',
+      properties: {
+        verifiedDomains: { type: 'array', items: { type: 'string' }, example: ['acme.com'] },
+        pendingDomains: { type: 'array', items: { type: 'string' }, example: [] },
+        txtRecord: { type: 'string', example: 'volkai-sso-verification=3f1c...' },
+      },
+    },
+  })
+  async verifyDomains(
+    @Param('orgId', ParseUUIDPipe) orgId: string,
+    @Param('connectionId', ParseUUIDPipe) connectionId: string,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<SsoDomainVerificationResult> {
+    return this.ssoConnectionService.verifyDomains(orgId, connectionId, currentUser);
+  }
+}
@@ -0,0 +1,177 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Body,
+  Query,
+  Res,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  Ip,
+  Headers,
+  Logger,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiExcludeEndpoint } from '@nestjs/swagger';
+import { Response } from 'express';
+import { Public } from '../decorators/public.decorator';
+import { AuthService, AuthResponse } from '../auth.service';
+import { SsoService, SsoDiscoveryResult } from '../services/sso.service';
+import { SsoDiscoveryDto, SsoExchangeDto } from '../dto/sso-login.dto';
+
+/**
+ * SSO Controller
+ * Browser-facing endpoints of SAML 2.0 and OpenID Connect logins
+ */
+@ApiTags('Single Sign-On')
+@Controller('auth/sso')
+@Public()
+export class SsoController {
+  private readonly logger = new Logger(SsoController.name);
+
+  constructor(
+    private readonly ssoService: SsoService,
+    private readonly authService: AuthService,
+  ) {}
+
+  /**
+   * Find the SSO connection of an email domain
+   */
+  @Post('discover')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Discover SSO',
+    description: 'Whether the email domain signs in through an organization identity provider',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Discovery result',
+    schema: {
+      type: 'object',
+      properties: {
+        sso: { type: 'boolean', example: true },
+        connectionId: { type: 'string', example: '123e4567-e89b-12d3-a456-426614174000' },
+        protocol: { type: 'string', example: 'oidc' },
+        loginUrl: {
+          type: 'string',
+          example:
+            'http://localhost:3000/api/v1/auth/sso/123e4567-e89b-12d3-a456-426614174000/login',
+        },
+      },
+    },
+  })
+  async discover(@Body() ssoDiscoveryDto: SsoDiscoveryDto): Promise<SsoDiscoveryResult> {
+    return this.ssoService.discover(ssoDiscoveryDto.email);
+  }
+
+  /**
+   * Start an SSO login
+   */
+  @Get(':connectionId/login')
+  @ApiOperation({
+    summary: 'Start SSO login',
+    description: 'Redirects the browser to the identity provider',
+  })
+  @ApiResponse({
+    status: 302,
+    description: 'Redirect to the identity provider',
+  })
+  async login(
+    @Param('connectionId', ParseUUIDPipe) connectionId: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    res.redirect(302, await this.ssoService.getLoginUrl(connectionId));
+  }
+
+  /**
+   * SAML service provider metadata
+   */
+  @Get('saml/:connectionId/metadata')
+  @ApiOperation({
+    summary: 'SAML SP metadata',
+    description: 'Service provider metadata to register with the identity provider',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Metadata XML',
+  })
+  async samlMetadata(
+    @Param('connectionId', ParseUUIDPipe) connectionId: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    const metadata = await this.ssoService.getSamlMetadata(connectionId);
+    res.type('application/xml').send(metadata);
+  }
+
+  /**
+   * SAML assertion consumer service
+   */
+  @Post('saml/:connectionId/acs')
+  @ApiExcludeEndpoint()
+  async samlAcs(
+    @Param('connectionId', ParseUUIDPipe) connectionId: string,
+    @Body() body: { SAMLResponse?: string; RelayState?: string },
+    @Res() res: Response,
+  ): Promise<void> {
+    try {
+      const code = await this.ssoService.handleSamlResponse(
+        connectionId,
+        body.SAMLResponse,
+        body.RelayState,
+      );
+      res.redirect(302, this.ssoService.buildFrontendRedirect({ code }));
+    } catch (error) {
+      this.redirectWithError(res, error);
+    }
+  }
+
+  /**
+   * OpenID Connect redirect URI
+   */
+  @Get('oidc/:connectionId/callback')
+  @ApiExcludeEndpoint()
+  async oidcCallback(
+    @Param('connectionId', ParseUUIDPipe) connectionId: string,
+    @Query() query: Record<string, string>,
+    @Res() res: Response,
+  ): Promise<void> {
+    try {
+      const code = await this.ssoService.handleOidcCallback(connectionId, query);
+      res.redirect(302, this.ssoService.buildFrontendRedirect({ code }));
+    } catch (error) {
+      this.redirectWithError(res, error);
+    }
+  }
+
+  /**
+   * Exchange the one-time SSO code for tokens
+   */
+  @Post('exchange')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Complete SSO login',
+    description: 'Exchange the code from the SSO callback redirect for access/refresh tokens',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Login successful',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid or expired SSO code',
+  })
+  async exchange(
+    @Body() ssoExchangeDto: SsoExchangeDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<AuthResponse> {
+    const userId = await this.ssoService.consumeExchangeCode(ssoExchangeDto.code);
+    return this.authService.loginWithSso(userId, { ipAddress, userAgent });
+  }
+
+  private redirectWithError(res: Response, error: Error): void {
+    this.logger.warn(`SSO login failed: ${error.message}`);
+    res.redirect(302, this.ssoService.buildFrontendRedirect({ error: error.message }));
+  }
+}
@@ -1,4 +1,4 @@
-import { IsEmail, IsString, MinLength } from 'class-validator';
+import { IsEmail, IsOptional, IsString, MaxLength, MinLength } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 /**
@@ -22,4 +22,15 @@ export class LoginDto {
   @IsString()
   @MinLength(1, { message: 'Password is required' })
   password: string;
+
+  @ApiProperty({
+    description: 'Name shown for this device in the session list',
+    example: 'Work laptop',
+    required: false,
+    maxLength: 255,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  deviceName?: string;
 }
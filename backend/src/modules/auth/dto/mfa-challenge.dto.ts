@@ -0,0 +1,30 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { MfaVerificationDto } from './mfa-verification.dto';
+
+/**
+ * Data Transfer Object for starting MFA enrollment during login
+ * Used when an organization requires MFA and the user has not enrolled yet
+ */
+export class MfaChallengeEnrollmentDto {
+  @ApiProperty({
+    description: 'Challenge token returned by login',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Challenge token is required' })
+  challengeToken: string;
+}
+
+/**
+ * Data Transfer Object for completing an MFA login challenge
+ */
+export class MfaChallengeDto extends MfaVerificationDto {
+  @ApiProperty({
+    description: 'Challenge token returned by login',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Challenge token is required' })
+  challengeToken: string;
+}
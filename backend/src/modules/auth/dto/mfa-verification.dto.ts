@@ -0,0 +1,27 @@
+import { IsOptional, IsString, Matches, ValidateIf } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Data Transfer Object for a second factor
+ * Either a code from the authenticator app or a one-time recovery code
+ */
+export class MfaVerificationDto {
+  @ApiProperty({
+    description: 'Six digit code from the authenticator app',
+    example: '123456',
+    required: false,
+  })
+  @ValidateIf(o => !o.recoveryCode)
+  @IsString()
+  @Matches(/^\d{6}$/, { message: 'Authentication code must be 6 digits' })
+  code?: string;
+
+  @ApiProperty({
+    description: 'One-time recovery code, used instead of an authenticator code',
+    example: 'k7m2p-x9q4r',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  recoveryCode?: string;
+}
@@ -0,0 +1,201 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsFQDN,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, OmitType, PartialType } from '@nestjs/swagger';
+import { MembershipRole } from '@database/entities/organization-membership.entity';
+import { SsoProtocol } from '@database/entities/organization-sso-connection.entity';
+
+// The owner role is never granted by an identity provider
+const SSO_ASSIGNABLE_ROLES = Object.values(MembershipRole).filter(
+  role => role !== MembershipRole.OWNER,
+);
+
+export class SamlConnectionConfigDto {
+  @ApiProperty({
+    description: 'IdP single sign-on URL',
+    example: 'https://idp.example.com/saml2/idp/SSOService.php',
+  })
+  @IsUrl({ require_tld: false })
+  entryPoint: string;
+
+  @ApiPropertyOptional({ description: 'Expected issuer (entity ID) of the IdP' })
+  @IsOptional()
+  @IsString()
+  idpIssuer?: string;
+
+  @ApiProperty({ description: 'IdP signing certificates (PEM or base64)', type: [String] })
+  @IsArray()
+  @ArrayMaxSize(5)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  idpCertificates: string[];
+
+  @ApiPropertyOptional({
+    description: 'Requested NameID format',
+    example: 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress',
+  })
+  @IsOptional()
+  @IsString()
+  identifierFormat?: string;
+
+  @ApiPropertyOptional({ description: 'Require the whole response to be signed', default: false })
+  @IsOptional()
+  @IsBoolean()
+  wantAuthnResponseSigned?: boolean;
+}
+
+export class OidcConnectionConfigDto {
+  @ApiProperty({
+    description: 'Issuer URL used for discovery',
+    example: 'https://login.example.com',
+  })
+  @IsUrl({ require_tld: false })
+  issuerUrl: string;
+
+  @ApiProperty({ description: 'Client ID registered with the IdP' })
+  @IsString()
+  @IsNotEmpty()
+  clientId: string;
+
+  @ApiPropertyOptional({ description: 'Client secret. Omit for public clients using PKCE only' })
+  @IsOptional()
+  @IsString()
+  clientSecret?: string;
+
+  @ApiPropertyOptional({
+    description: 'Scopes to request in addition to openid',
+    type: [String],
+    example: ['email', 'profile', 'groups'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  scopes?: string[];
+}
+
+export class SsoAttributeMappingDto {
+  @ApiPropertyOptional({ description: 'Attribute holding the email', example: 'email' })
+  @IsOptional()
+  @IsString()
+  email?: string;
+
+  @ApiPropertyOptional({ description: 'Attribute holding the first name', example: 'given_name' })
+  @IsOptional()
+  @IsString()
+  firstName?: string;
+
+  @ApiPropertyOptional({ description: 'Attribute holding the last name', example: 'family_name' })
+  @IsOptional()
+  @IsString()
+  lastName?: string;
+
+  @ApiPropertyOptional({ description: 'Attribute holding the groups', example: 'groups' })
+  @IsOptional()
+  @IsString()
+  groups?: string;
+}
+
+export class SsoRoleMappingDto {
+  @ApiPropertyOptional({
+    description: 'Attribute to match. Defaults to the groups attribute',
+    example: 'department',
+  })
+  @IsOptional()
+  @IsString()
+  attribute?: string;
+
+  @ApiProperty({ description: 'Value the attribute must contain', example: 'hr-team' })
+  @IsString()
+  @IsNotEmpty()
+  value: string;
+
+  @ApiProperty({ enum: SSO_ASSIGNABLE_ROLES, description: 'Role granted on a match' })
+  @IsIn(SSO_ASSIGNABLE_ROLES)
+  role: MembershipRole;
+}
+
+export class CreateSsoConnectionDto {
+  @ApiProperty({ description: 'Display name', example: 'Acme Okta' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({ enum: SsoProtocol, description: 'Identity provider protocol' })
+  @IsEnum(SsoProtocol)
+  protocol: SsoProtocol;
+
+  @ApiProperty({
+    description: 'Email domains that sign in through this connection',
+    type: [String],
+    example: ['acme.com'],
+  })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsFQDN({}, { each: true })
+  domains: string[];
+
+  @ApiPropertyOptional({ type: SamlConnectionConfigDto })
+  @ValidateIf(o => o.protocol === SsoProtocol.SAML || o.samlConfig !== undefined)
+  @ValidateNested()
+  @Type(() => SamlConnectionConfigDto)
+  samlConfig?: SamlConnectionConfigDto;
+
+  @ApiPropertyOptional({ type: OidcConnectionConfigDto })
+  @ValidateIf(o => o.protocol === SsoProtocol.OIDC || o.oidcConfig !== undefined)
+  @ValidateNested()
+  @Type(() => OidcConnectionConfigDto)
+  oidcConfig?: OidcConnectionConfigDto;
+
+  @ApiPropertyOptional({ type: SsoAttributeMappingDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SsoAttributeMappingDto)
+  attributeMapping?: SsoAttributeMappingDto;
+
+  @ApiPropertyOptional({ type: [SsoRoleMappingDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SsoRoleMappingDto)
+  roleMappings?: SsoRoleMappingDto[];
+
+  @ApiPropertyOptional({
+    enum: SSO_ASSIGNABLE_ROLES,
+    description: 'Role of provisioned members when no mapping matches',
+    default: MembershipRole.LEARNER,
+  })
+  @IsOptional()
+  @IsIn(SSO_ASSIGNABLE_ROLES)
+  defaultRole?: MembershipRole;
+
+  @ApiPropertyOptional({
+    description: 'Create users and memberships on first login',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  jitProvisioning?: boolean;
+
+  @ApiPropertyOptional({ description: 'Allow logins through this connection', default: false })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
+
+export class UpdateSsoConnectionDto extends PartialType(
+  OmitType(CreateSsoConnectionDto, ['protocol'] as const),
+) {}
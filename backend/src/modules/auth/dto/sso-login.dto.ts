@@ -0,0 +1,27 @@
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Data Transfer Object for finding the SSO connection of an email domain
+ */
+export class SsoDiscoveryDto {
+  @ApiProperty({
+    description: 'Email address the user is signing in with',
+    example: 'john.doe@acme.com',
+  })
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  email: string;
+}
+
+/**
+ * Data Transfer Object for exchanging the one-time SSO code for tokens
+ */
+export class SsoExchangeDto {
+  @ApiProperty({
+    description: 'One-time code from the SSO callback redirect',
+    example: 'Yk3n7c2v9QwLxR0pZt5a8s1d4f6g',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Code is required' })
+  code: string;
+}
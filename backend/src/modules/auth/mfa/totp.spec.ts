@@ -0,0 +1,46 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUri,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotp,
+} from './totp';
+
+// RFC 6238 appendix B test secret, "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  it('round-trips base32', () => {
+    const bytes = Buffer.from('hello mfa');
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(base32Decode(generateTotpSecret())).toHaveLength(20);
+  });
+
+  it('matches the RFC 6238 SHA-1 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, getTotpStep(59 * 1000), 8)).toBe('94287082');
+    expect(generateTotp(RFC_SECRET, getTotpStep(1111111109 * 1000), 8)).toBe('07081804');
+    expect(generateTotp(RFC_SECRET, getTotpStep(2000000000 * 1000), 8)).toBe('69279037');
+  });
+
+  it('accepts codes within the drift window only', () => {
+    const now = 1700000000 * 1000;
+    const step = getTotpStep(now);
+    const previous = generateTotp(RFC_SECRET, step - 1);
+    const stale = generateTotp(RFC_SECRET, step - 3);
+
+    expect(verifyTotp(RFC_SECRET, previous, { now })).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, stale, { now })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abc123', { now })).toBeNull();
+  });
+
+  it('builds an otpauth provisioning URI', () => {
+    const uri = buildOtpAuthUri('VolkaiHR', 'jane@example.com', 'JBSWY3DPEHPK3PXP');
+
+    expect(uri).toBe(
+      'otpauth://totp/VolkaiHR:jane%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=VolkaiHR' +
+        '&algorithm=SHA1&digits=6&period=30',
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import * as crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TotpOptions {
+  digits?: number;
+  periodSeconds?: number;
+}
+
+export interface TotpVerifyOptions extends TotpOptions {
+  // Accepted clock drift in periods on either side
+  window?: number;
+  now?: number;
+}
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Random 160-bit secret, base32 encoded as authenticator apps expect
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+export function getTotpStep(now = Date.now(), periodSeconds = 30): number {
+  return Math.floor(now / 1000 / periodSeconds);
+}
+
+/**
+ * HOTP value (RFC 4226) for a time step, as used by TOTP (RFC 6238)
+ */
+export function generateTotp(secret: string, step: number, digits = 6): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+/**
+ * Returns the matching time step, or null when the code is not valid
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  options: TotpVerifyOptions = {},
+): number | null {
+  const digits = options.digits ?? 6;
+  const window = options.window ?? 1;
+  const currentStep = getTotpStep(options.now, options.periodSeconds);
+  const normalized = code.replace(/\s/g, '');
+
+  if (!new RegExp(`^\\d{${digits}}$`).test(normalized)) {
+    return null;
+  }
+
+  for (let offset = -window; offset <= window; offset++) {
+    const step = currentStep + offset;
+    const expected = generateTotp(secret, step, digits);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * otpauth:// URI encoded in the enrollment QR code
+ */
+export function buildOtpAuthUri(
+  issuer: string,
+  accountName: string,
+  secret: string,
+  options: TotpOptions = {},
+): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(options.digits ?? 6),
+    period: String(options.periodSeconds ?? 30),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,164 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { HttpStatus, UnauthorizedException } from '@nestjs/common';
+import { MfaService } from './mfa.service';
+import { PasswordSecurityService } from './password-security.service';
+import { generateTotp, getTotpStep } from '../mfa/totp';
+import { User } from '@database/entities/user.entity';
+import { OrganizationMembership } from '@database/entities/organization-membership.entity';
+
+describe('MfaService', () => {
+  let service: MfaService;
+
+  const config: Record<string, string> = {
+    ENCRYPTION_KEY: 'test-encryption-key',
+  };
+
+  const mockUserRepository = {
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockMembershipRepository = {
+    find: jest.fn(),
+  };
+
+  const mockPasswordSecurityService = {
+    recordMfaEvent: jest.fn(),
+  };
+
+  const mockCacheManager = {
+    get: jest.fn(),
+    set: jest.fn(),
+    del: jest.fn(),
+  };
+
+  const buildUser = (overrides: Partial<User> = {}): User =>
+    Object.assign(new User(), {
+      id: 'user-1',
+      email: 'test@example.com',
+      mfaEnabled: false,
+      ...overrides,
+    });
+
+  /**
+   * Enroll through the service so the stored secret is encrypted the way it expects
+   */
+  const enrolledUser = async (): Promise<{ user: User; secret: string }> => {
+    const { secret } = await service.startEnrollment(buildUser());
+    const { mfaSecret } = mockUserRepository.update.mock.calls[0][1];
+    mockUserRepository.update.mockClear();
+
+    return { user: buildUser({ mfaEnabled: true, mfaSecret, mfaLastUsedStep: '0' }), secret };
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MfaService,
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        {
+          provide: getRepositoryToken(OrganizationMembership),
+          useValue: mockMembershipRepository,
+        },
+        { provide: JwtService, useValue: { signAsync: jest.fn(), verify: jest.fn() } },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string, fallback?: string) => config[key] ?? fallback },
+        },
+        { provide: PasswordSecurityService, useValue: mockPasswordSecurityService },
+        { provide: CACHE_MANAGER, useValue: mockCacheManager },
+      ],
+    }).compile();
+
+    service = module.get<MfaService>(MfaService);
+  });
+
+  describe('verifySecondFactor', () => {
+    it('accepts a current TOTP code and clears earlier failures', async () => {
+      const { user, secret } = await enrolledUser();
+      const step = getTotpStep();
+
+      await expect(
+        service.verifySecondFactor(user, { code: generateTotp(secret, step) }),
+      ).resolves.toBe('totp');
+
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-1', {
+        mfaLastUsedStep: String(step),
+      });
+      expect(mockCacheManager.del).toHaveBeenCalledWith('auth:mfa-failures:user-1');
+    });
+
+    it('rejects a code that was already used', async () => {
+      const { user, secret } = await enrolledUser();
+      const step = getTotpStep();
+      user.mfaLastUsedStep = String(step);
+
+      await expect(
+        service.verifySecondFactor(user, { code: generateTotp(secret, step) }),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('counts failed codes for the whole lockout window', async () => {
+      const { user } = await enrolledUser();
+      mockCacheManager.get.mockResolvedValue(2);
+
+      await expect(service.verifySecondFactor(user, { code: '000000' })).rejects.toThrow(
+        UnauthorizedException,
+      );
+
+      // The Redis store only honours a TTL given as { ttl } in seconds
+      expect(mockCacheManager.set).toHaveBeenCalledWith('auth:mfa-failures:user-1', 3, {
+        ttl: 15 * 60,
+      });
+      expect(mockPasswordSecurityService.recordMfaEvent).toHaveBeenCalledWith(
+        'user-1',
+        'challenge_failed',
+        expect.objectContaining({ metadata: { failedAttempts: 3 } }),
+      );
+    });
+
+    it('locks the user out after too many failed attempts', async () => {
+      const { user, secret } = await enrolledUser();
+      mockCacheManager.get.mockResolvedValue(5);
+
+      const error = await service
+        .verifySecondFactor(user, { code: generateTotp(secret, getTotpStep()) })
+        .catch(caught => caught);
+
+      expect(error.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+      expect(mockPasswordSecurityService.recordMfaEvent).toHaveBeenCalledWith(
+        'user-1',
+        'locked_out',
+        {},
+      );
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('consumes a recovery code', async () => {
+      const { user, secret } = await enrolledUser();
+      const { recoveryCodes } = await service.confirmEnrollment(
+        buildUser({ mfaSecret: user.mfaSecret }),
+        generateTotp(secret, getTotpStep()),
+      );
+      const { mfaRecoveryCodes } = mockUserRepository.update.mock.calls[0][1];
+      mockUserRepository.update.mockClear();
+
+      await expect(
+        service.verifySecondFactor(Object.assign(user, { mfaRecoveryCodes }), {
+          recoveryCode: recoveryCodes[0].toUpperCase(),
+        }),
+      ).resolves.toBe('recovery_code');
+
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-1', {
+        mfaRecoveryCodes: mfaRecoveryCodes.slice(1),
+      });
+    });
+  });
+});
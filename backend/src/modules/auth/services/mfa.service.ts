@@ -0,0 +1,405 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import * as crypto from 'crypto';
+import * as QRCode from 'qrcode';
+import { User, UserStatus } from '@/database/entities/user.entity';
+import { cacheTtl } from '@/common/utils/cache-ttl';
+import { deriveSecretKey, openSecret, sealSecret } from '@/common/utils/secret-box';
+import {
+  OrganizationMembership,
+  MembershipStatus,
+} from '@database/entities/organization-membership.entity';
+import { PasswordSecurityService, MfaEventContext } from './password-security.service';
+import { buildOtpAuthUri, generateTotpSecret, verifyTotp } from '../mfa/totp';
+
+/**
+ * Organization setting listing the membership roles that must use MFA
+ */
+export const MFA_REQUIRED_ROLES_SETTING = 'mfaRequiredRoles';
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const FAILED_ATTEMPTS_KEY_PREFIX = 'auth:mfa-failures:';
+
+export interface MfaStatus {
+  enabled: boolean;
+  enabledAt?: Date;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL
+}
+
+export interface MfaChallengeResponse {
+  mfaRequired: true;
+  enrollmentRequired: boolean;
+  challengeToken: string;
+  methods: Array<'totp' | 'recovery_code'>;
+}
+
+export interface MfaChallengePayload {
+  sub: string;
+  purpose: 'mfa';
+  deviceName?: string;
+  iat?: number;
+  exp?: number;
+}
+
+export interface SecondFactorInput {
+  code?: string;
+  recoveryCode?: string;
+}
+
+/**
+ * MFA Service
+ * TOTP enrollment, recovery codes and the MFA challenge that sits between a
+ * password check and token issuance. Organizations can require MFA for
+ * selected membership roles through their settings
+ */
+@Injectable()
+export class MfaService {
+  private readonly logger = new Logger(MfaService.name);
+  private readonly issuer: string;
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(OrganizationMembership)
+    private readonly membershipRepository: Repository<OrganizationMembership>,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+    private readonly passwordSecurityService: PasswordSecurityService,
+    @Inject(CACHE_MANAGER)
+    private readonly cacheManager: Cache,
+  ) {
+    this.issuer = this.configService.get<string>('MFA_ISSUER', 'VolkaiHR');
+  }
+
+  async getStatus(userId: string): Promise<MfaStatus> {
+    const user = await this.findUser(userId);
+
+    return {
+      enabled: user.mfaEnabled,
+      enabledAt: user.mfaEnabledAt,
+      required: await this.isMfaRequired(user.id),
+      recoveryCodesRemaining: user.mfaRecoveryCodes?.length || 0,
+    };
+  }
+
+  /**
+   * Whether any organization the user belongs to requires MFA for their role
+   */
+  async isMfaRequired(userId: string): Promise<boolean> {
+    const memberships = await this.membershipRepository.find({
+      where: { userId, status: MembershipStatus.ACTIVE },
+      relations: ['organization'],
+    });
+
+    return memberships.some(membership => {
+      const requiredRoles = membership.organization?.settings?.[MFA_REQUIRED_ROLES_SETTING];
+      return Array.isArray(requiredRoles) && requiredRoles.includes(membership.role);
+    });
+  }
+
+  /**
+   * Generate a new TOTP secret. MFA is only turned on once a code from it is confirmed
+   */
+  async startEnrollment(user: User, context: MfaEventContext = {}): Promise<MfaEnrollment> {
+    if (user.mfaEnabled) {
+      throw new ConflictException('MFA is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await this.userRepository.update(user.id, { mfaSecret: this.encryptSecret(secret) });
+
+    const otpauthUrl = buildOtpAuthUri(this.issuer, user.email, secret);
+    this.passwordSecurityService.recordMfaEvent(user.id, 'enrollment_started', context);
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCode: await QRCode.toDataURL(otpauthUrl),
+    };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app and issue recovery codes
+   */
+  async confirmEnrollment(
+    user: User,
+    code: string | undefined,
+    context: MfaEventContext = {},
+  ): Promise<{ recoveryCodes: string[] }> {
+    if (user.mfaEnabled) {
+      throw new ConflictException('MFA is already enabled');
+    }
+
+    if (!user.mfaSecret) {
+      throw new BadRequestException('Start MFA enrollment first');
+    }
+
+    if (!code) {
+      throw new BadRequestException('Authentication code is required');
+    }
+
+    await this.assertNotLockedOut(user.id, context);
+
+    const step = verifyTotp(this.decryptSecret(user.mfaSecret), code);
+    if (step === null) {
+      await this.recordFailure(user.id, context);
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.userRepository.update(user.id, {
+      mfaEnabled: true,
+      mfaEnabledAt: new Date(),
+      mfaLastUsedStep: String(step),
+      mfaRecoveryCodes: recoveryCodes.map(recoveryCode => this.hashRecoveryCode(recoveryCode)),
+    });
+    await this.clearFailures(user.id);
+
+    this.passwordSecurityService.recordMfaEvent(user.id, 'enabled', context);
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Check a TOTP or recovery code. Recovery codes are consumed
+   */
+  async verifySecondFactor(
+    user: User,
+    input: SecondFactorInput,
+    context: MfaEventContext = {},
+  ): Promise<'totp' | 'recovery_code'> {
+    if (!user.mfaEnabled || !user.mfaSecret) {
+      throw new BadRequestException('MFA is not enabled');
+    }
+
+    if (!input.code && !input.recoveryCode) {
+      throw new BadRequestException('An authentication code or recovery code is required');
+    }
+
+    await this.assertNotLockedOut(user.id, context);
+
+    if (input.code) {
+      const step = verifyTotp(this.decryptSecret(user.mfaSecret), input.code);
+
+      // A code is only valid once, even within its time window
+      if (step !== null && step > Number(user.mfaLastUsedStep || 0)) {
+        await this.userRepository.update(user.id, { mfaLastUsedStep: String(step) });
+        await this.clearFailures(user.id);
+        this.passwordSecurityService.recordMfaEvent(user.id, 'challenge_passed', {
+          ...context,
+          metadata: { method: 'totp' },
+        });
+        return 'totp';
+      }
+    } else {
+      const hash = this.hashRecoveryCode(input.recoveryCode);
+      const remaining = (user.mfaRecoveryCodes || []).filter(stored => stored !== hash);
+
+      if (remaining.length < (user.mfaRecoveryCodes || []).length) {
+        await this.userRepository.update(user.id, { mfaRecoveryCodes: remaining });
+        await this.clearFailures(user.id);
+        this.passwordSecurityService.recordMfaEvent(user.id, 'recovery_code_used', {
+          ...context,
+          metadata: { recoveryCodesRemaining: remaining.length },
+        });
+        return 'recovery_code';
+      }
+    }
+
+    return this.recordFailure(user.id, context);
+  }
+
+  async disable(
+    userId: string,
+    input: SecondFactorInput,
+    context: MfaEventContext = {},
+  ): Promise<void> {
+    const user = await this.findUser(userId);
+
+    if (!user.mfaEnabled) {
+      throw new BadRequestException('MFA is not enabled');
+    }
+
+    if (await this.isMfaRequired(user.id)) {
+      throw new ForbiddenException('Your organization requires MFA for your role');
+    }
+
+    await this.verifySecondFactor(user, input, context);
+
+    await this.userRepository.update(user.id, {
+      mfaEnabled: false,
+      mfaEnabledAt: null,
+      mfaSecret: null,
+      mfaLastUsedStep: null,
+      mfaRecoveryCodes: null,
+    });
+
+    this.passwordSecurityService.recordMfaEvent(user.id, 'disabled', context);
+  }
+
+  /**
+   * Replace all recovery codes after verifying the second factor
+   */
+  async regenerateRecoveryCodes(
+    userId: string,
+    input: SecondFactorInput,
+    context: MfaEventContext = {},
+  ): Promise<{ recoveryCodes: string[] }> {
+    const user = await this.findUser(userId);
+    await this.verifySecondFactor(user, input, context);
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.userRepository.update(user.id, {
+      mfaRecoveryCodes: recoveryCodes.map(recoveryCode => this.hashRecoveryCode(recoveryCode)),
+    });
+
+    this.passwordSecurityService.recordMfaEvent(user.id, 'recovery_codes_regenerated', context);
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Short-lived token proving the password step of a login succeeded
+   */
+  async createChallenge(
+    user: User,
+    options: { deviceName?: string; enrollmentRequired: boolean },
+  ): Promise<MfaChallengeResponse> {
+    const payload: MfaChallengePayload = {
+      sub: user.id,
+      purpose: 'mfa',
+      deviceName: options.deviceName,
+    };
+
+    const challengeToken = await this.jwtService.signAsync(payload, {
+      secret: this.configService.get<string>('jwt.mfaChallengeSecret'),
+      expiresIn: this.configService.get<string>('jwt.mfaChallengeExpiresIn'),
+    });
+
+    return {
+      mfaRequired: true,
+      enrollmentRequired: options.enrollmentRequired,
+      challengeToken,
+      methods: options.enrollmentRequired ? ['totp'] : ['totp', 'recovery_code'],
+    };
+  }
+
+  verifyChallengeToken(challengeToken: string): MfaChallengePayload {
+    try {
+      const payload = this.jwtService.verify<MfaChallengePayload>(challengeToken, {
+        secret: this.configService.get<string>('jwt.mfaChallengeSecret'),
+      });
+
+      if (payload.purpose === 'mfa') {
+        return payload;
+      }
+    } catch (error) {
+      this.logger.debug(`MFA challenge token rejected: ${error.message}`);
+    }
+
+    throw new UnauthorizedException('Invalid or expired MFA challenge');
+  }
+
+  private async findUser(userId: string): Promise<User> {
+    const user = await this.userRepository.findOne({
+      where: { id: userId, status: UserStatus.ACTIVE, deletedAt: null },
+    });
+
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    return user;
+  }
+
+  private async assertNotLockedOut(userId: string, context: MfaEventContext): Promise<void> {
+    const failures = Number(await this.cacheManager.get(this.failuresKey(userId))) || 0;
+
+    if (failures >= MAX_FAILED_ATTEMPTS) {
+      this.passwordSecurityService.recordMfaEvent(userId, 'locked_out', context);
+      throw new HttpException(
+        'Too many failed authentication attempts. Try again later',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  private async recordFailure(userId: string, context: MfaEventContext): Promise<never> {
+    const key = this.failuresKey(userId);
+    const failures = (Number(await this.cacheManager.get(key)) || 0) + 1;
+    await this.cacheManager.set(key, failures, cacheTtl(LOCKOUT_MS));
+
+    this.passwordSecurityService.recordMfaEvent(userId, 'challenge_failed', {
+      ...context,
+      metadata: { failedAttempts: failures },
+    });
+
+    throw new UnauthorizedException('Invalid authentication code');
+  }
+
+  private async clearFailures(userId: string): Promise<void> {
+    await this.cacheManager.del(this.failuresKey(userId));
+  }
+
+  private failuresKey(userId: string): string {
+    return `${FAILED_ATTEMPTS_KEY_PREFIX}${userId}`;
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const chars = Array.from(
+        crypto.randomBytes(10),
+        byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length],
+      ).join('');
+      return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+    });
+  }
+
+  private hashRecoveryCode(recoveryCode: string): string {
+    const normalized = recoveryCode.toLowerCase().replace(/[^a-z0-9]/g, '');
+    return crypto
+      .createHmac('sha256', deriveSecretKey(this.getEncryptionSecret(), 'mfa-recovery-code'))
+      .update(normalized)
+      .digest('hex');
+  }
+
+  private getEncryptionSecret(): string {
+    const secret = this.configService.get<string>('ENCRYPTION_KEY');
+    if (!secret) {
+      throw new Error('ENCRYPTION_KEY must be configured to use MFA');
+    }
+    return secret;
+  }
+
+  private encryptSecret(secret: string): string {
+    return sealSecret(secret, this.getEncryptionSecret(), 'mfa-secret');
+  }
+
+  private decryptSecret(encryptedSecret: string): string {
+    return openSecret(encryptedSecret, this.getEncryptionSecret(), 'mfa-secret');
+  }
+}
@@ -2,6 +2,7 @@ import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import  bcrypt from 'bcrypt';
 import  argon2 from 'argon2';
 import  crypto from 'crypto';
@@ -33,6 +34,22 @@ export interface PasswordBreachCheck {
   source?: string;
 }
 
+export type MfaEvent =
+  | 'enrollment_started'
+  | 'enabled'
+  | 'disabled'
+  | 'challenge_passed'
+  | 'challenge_failed'
+  | 'recovery_code_used'
+  | 'recovery_codes_regenerated'
+  | 'locked_out';
+
+export interface MfaEventContext {
+  ipAddress?: string;
+  userAgent?: string;
+  metadata?: Record<string, unknown>;
+}
+
 /**
  * Enhanced Password Security Service
  * Implements advanced password security features including:
@@ -41,6 +58,7 @@ export interface PasswordBreachCheck {
  * - Breach detection
  * - Password history tracking
  * - Secure password generation
+ * - Second factor (MFA) security events
  */
 @Injectable()
 export class PasswordSecurityService {
@@ -69,6 +87,7 @@ export class PasswordSecurityService {
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
     private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2,
   ) {}
 
   /**
@@ -422,6 +441,22 @@ export class PasswordSecurityService {
     return true;
   }
 
+  /**
+   * Record a second factor event for the audit trail
+   */
+  recordMfaEvent(userId: string, event: MfaEvent, context: MfaEventContext = {}): void {
+    const log = event === 'challenge_failed' || event === 'locked_out' ? 'warn' : 'log';
+    this.logger[log](`MFA ${event} for user ${userId}`);
+
+    this.eventEmitter.emit('user.mfa', {
+      userId,
+      event,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      metadata: context.metadata,
+    });
+  }
+
   // Private helper methods
 
   private getRandomChar(chars: string): string {
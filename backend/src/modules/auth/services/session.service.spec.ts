@@ -0,0 +1,175 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { UnauthorizedException } from '@nestjs/common';
+import { SessionService } from './session.service';
+import { User } from '@database/entities/user.entity';
+import {
+  UserSession,
+  SessionDeviceType,
+  SessionRevocationReason,
+} from '@database/entities/user-session.entity';
+
+describe('SessionService', () => {
+  let service: SessionService;
+
+  const user = { id: 'user-1', email: 'test@example.com' } as User;
+
+  const config: Record<string, string> = {
+    'jwt.secret': 'access-secret',
+    'jwt.refreshSecret': 'refresh-secret',
+    'jwt.expiresIn': '15m',
+    'jwt.refreshExpiresIn': '7d',
+  };
+
+  const mockSessionRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    findOne: jest.fn(),
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockJwtService = {
+    signAsync: jest.fn(),
+    verify: jest.fn(),
+  };
+
+  const mockCacheManager = {
+    get: jest.fn(),
+    set: jest.fn(),
+  };
+
+  const mockEventEmitter = {
+    emit: jest.fn(),
+  };
+
+  const buildSession = (overrides: Partial<UserSession> = {}): UserSession =>
+    Object.assign(new UserSession(), {
+      id: 'session-1',
+      userId: user.id,
+      refreshTokenId: 'token-2',
+      rotationCount: 1,
+      deviceType: SessionDeviceType.DESKTOP,
+      lastUsedAt: new Date(),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionService,
+        { provide: getRepositoryToken(UserSession), useValue: mockSessionRepository },
+        { provide: JwtService, useValue: mockJwtService },
+        { provide: ConfigService, useValue: { get: (key: string) => config[key] } },
+        { provide: EventEmitter2, useValue: mockEventEmitter },
+        { provide: CACHE_MANAGER, useValue: mockCacheManager },
+      ],
+    }).compile();
+
+    service = module.get<SessionService>(SessionService);
+    mockJwtService.signAsync.mockImplementation(async (payload: Record<string, string>) =>
+      JSON.stringify(payload),
+    );
+  });
+
+  it('creates a session for the signing-in device', async () => {
+    mockSessionRepository.create.mockImplementation(data => data);
+    mockSessionRepository.save.mockImplementation(async data => ({ ...data, id: 'session-1' }));
+
+    const tokens = await service.createSession(user, {
+      ipAddress: '10.0.0.1',
+      userAgent:
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 ' +
+        '(KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
+    });
+
+    const session = mockSessionRepository.save.mock.calls[0][0];
+    expect(session.deviceType).toBe(SessionDeviceType.MOBILE);
+    expect(session.deviceName).toBe('Safari on iOS');
+    expect(session.expiresAt.getTime() - session.lastUsedAt.getTime()).toBe(
+      7 * 24 * 60 * 60 * 1000,
+    );
+    expect(JSON.parse(tokens.refresh)).toMatchObject({
+      sub: user.id,
+      sid: 'session-1',
+      jti: session.refreshTokenId,
+    });
+  });
+
+  it('rotates the refresh token of the session', async () => {
+    mockSessionRepository.findOne.mockResolvedValue(buildSession());
+    mockSessionRepository.update.mockResolvedValue({ affected: 1 });
+
+    const tokens = await service.rotate(user, {
+      sub: user.id,
+      email: user.email,
+      sid: 'session-1',
+      jti: 'token-2',
+    });
+
+    const refresh = JSON.parse(tokens.refresh);
+    expect(refresh.sid).toBe('session-1');
+    expect(refresh.jti).not.toBe('token-2');
+    expect(mockSessionRepository.update).toHaveBeenCalledTimes(1);
+    expect(mockSessionRepository.update.mock.calls[0][1]).toMatchObject({
+      refreshTokenId: refresh.jti,
+      rotationCount: 2,
+    });
+  });
+
+  it('revokes the whole session when a used refresh token is replayed', async () => {
+    mockSessionRepository.findOne.mockResolvedValue(buildSession());
+    mockSessionRepository.update.mockResolvedValueOnce({ affected: 0 });
+    mockSessionRepository.update.mockResolvedValueOnce({ affected: 1 });
+
+    await expect(
+      service.rotate(user, { sub: user.id, email: user.email, sid: 'session-1', jti: 'token-1' }),
+    ).rejects.toThrow(UnauthorizedException);
+
+    expect(mockSessionRepository.update.mock.calls[1][1]).toMatchObject({
+      revokedReason: SessionRevocationReason.TOKEN_REUSE,
+    });
+    expect(mockCacheManager.set).toHaveBeenCalledWith(
+      'auth:revoked-session:session-1',
+      SessionRevocationReason.TOKEN_REUSE,
+      { ttl: 15 * 60 },
+    );
+    expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      'user.refreshTokenReused',
+      expect.objectContaining({ sessionId: 'session-1' }),
+    );
+  });
+
+  it('rejects access tokens of revoked sessions', async () => {
+    mockCacheManager.get.mockResolvedValueOnce(SessionRevocationReason.LOGOUT);
+    mockCacheManager.get.mockResolvedValueOnce(undefined);
+    mockSessionRepository.findOne.mockResolvedValueOnce(buildSession({ id: 'session-2' }));
+
+    await expect(
+      service.isAccessTokenRevoked({ sub: user.id, email: user.email, sid: 'session-1' }),
+    ).resolves.toBe(true);
+    await expect(
+      service.isAccessTokenRevoked({ sub: user.id, email: user.email, sid: 'session-2' }),
+    ).resolves.toBe(false);
+    expect(mockSessionRepository.findOne).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks the session store when the revocation entry has expired', async () => {
+    mockCacheManager.get.mockResolvedValueOnce(undefined);
+    mockSessionRepository.findOne.mockResolvedValueOnce(
+      buildSession({ revokedAt: new Date(), revokedReason: SessionRevocationReason.LOGOUT }),
+    );
+
+    await expect(
+      service.isAccessTokenRevoked({ sub: user.id, email: user.email, sid: 'session-1' }),
+    ).resolves.toBe(true);
+    expect(mockSessionRepository.findOne).toHaveBeenCalledWith({ where: { id: 'session-1' } });
+  });
+});
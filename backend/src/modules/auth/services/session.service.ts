@@ -0,0 +1,397 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, MoreThan, Not, Repository } from 'typeorm';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { randomUUID } from 'crypto';
+import { User } from '@/database/entities/user.entity';
+import { cacheTtl } from '@/common/utils/cache-ttl';
+import {
+  UserSession,
+  SessionDeviceType,
+  SessionRevocationReason,
+} from '@/database/entities/user-session.entity';
+import { JwtPayload } from '../strategies/jwt.strategy';
+
+const REVOKED_SESSION_KEY_PREFIX = 'auth:revoked-session:';
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// Order matters: Chromium based browsers also report Chrome and Safari
+const BROWSERS: Array<[string, RegExp]> = [
+  ['Edge', /edg\//i],
+  ['Opera', /opr\//i],
+  ['Chrome', /chrome\//i],
+  ['Firefox', /firefox\//i],
+  ['Safari', /safari\//i],
+];
+
+const OPERATING_SYSTEMS: Array<[string, RegExp]> = [
+  ['iOS', /iphone|ipad|ipod/i],
+  ['Android', /android/i],
+  ['Windows', /windows/i],
+  ['macOS', /mac os x|macintosh/i],
+  ['ChromeOS', /cros/i],
+  ['Linux', /linux/i],
+];
+
+/**
+ * Where a sign-in or refresh came from
+ */
+export interface SessionClientInfo {
+  ipAddress?: string;
+  userAgent?: string;
+  deviceName?: string;
+}
+
+export interface SessionTokens {
+  access: string;
+  refresh: string;
+}
+
+export interface SessionSummary {
+  sessionId: string;
+  deviceName?: string;
+  deviceType: SessionDeviceType;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: Date;
+  lastUsed: Date;
+  expiresAt: Date;
+  isCurrent: boolean;
+}
+
+/**
+ * Session Service
+ * Persists one session per signed-in device and rotates its refresh token on
+ * every use. Revoked sessions are also put on a short-lived revocation list so
+ * access tokens already issued for them stop working before they expire
+ */
+@Injectable()
+export class SessionService {
+  private readonly logger = new Logger(SessionService.name);
+
+  constructor(
+    @InjectRepository(UserSession)
+    private readonly sessionRepository: Repository<UserSession>,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2,
+    @Inject(CACHE_MANAGER)
+    private readonly cacheManager: Cache,
+  ) {}
+
+  /**
+   * Start a new session for a user who just signed in
+   */
+  async createSession(user: User, client: SessionClientInfo = {}): Promise<SessionTokens> {
+    const now = new Date();
+    const session = this.sessionRepository.create({
+      userId: user.id,
+      refreshTokenId: randomUUID(),
+      deviceType: this.detectDeviceType(client.userAgent),
+      deviceName: client.deviceName || this.describeDevice(client.userAgent),
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + this.refreshTokenLifetimeMs()),
+    });
+
+    const savedSession = await this.sessionRepository.save(session);
+    return this.issueTokens(user, savedSession);
+  }
+
+  /**
+   * Verify a refresh token and return its payload
+   */
+  verifyRefreshToken(refreshToken: string): JwtPayload {
+    try {
+      return this.jwtService.verify<JwtPayload>(refreshToken, {
+        secret: this.configService.get<string>('jwt.refreshSecret'),
+      });
+    } catch (error) {
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. Presenting a refresh token
+   * that has already been rotated revokes the whole session
+   */
+  async rotate(
+    user: User,
+    payload: JwtPayload,
+    client: SessionClientInfo = {},
+  ): Promise<SessionTokens> {
+    if (!payload.sid || !payload.jti) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const session = await this.sessionRepository.findOne({
+      where: { id: payload.sid, userId: user.id },
+    });
+
+    if (!session || !session.isActive) {
+      throw new UnauthorizedException('Session has expired or was revoked');
+    }
+
+    const refreshTokenId = randomUUID();
+    const now = new Date();
+
+    // Only the current token of the family may be exchanged, even under concurrent requests
+    const result = await this.sessionRepository.update(
+      { id: session.id, refreshTokenId: payload.jti, revokedAt: IsNull() },
+      {
+        refreshTokenId,
+        rotationCount: session.rotationCount + 1,
+        lastUsedAt: now,
+        ipAddress: client.ipAddress || session.ipAddress,
+        userAgent: client.userAgent || session.userAgent,
+      },
+    );
+
+    if (!result.affected) {
+      await this.handleRefreshTokenReuse(session, client);
+      throw new UnauthorizedException('Refresh token has already been used');
+    }
+
+    session.refreshTokenId = refreshTokenId;
+    session.rotationCount += 1;
+    session.lastUsedAt = now;
+
+    return this.issueTokens(user, session);
+  }
+
+  /**
+   * Active sessions of a user, most recently used first
+   */
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+    const sessions = await this.sessionRepository.find({
+      where: { userId, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      order: { lastUsedAt: 'DESC' },
+    });
+
+    return sessions.map(session => ({
+      sessionId: session.id,
+      deviceName: session.deviceName,
+      deviceType: session.deviceType,
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+      createdAt: session.createdAt,
+      lastUsed: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      isCurrent: session.id === currentSessionId,
+    }));
+  }
+
+  async revokeSession(
+    userId: string,
+    sessionId: string,
+    reason: SessionRevocationReason,
+  ): Promise<void> {
+    const session = await this.sessionRepository.findOne({
+      where: { id: sessionId, userId, revokedAt: IsNull() },
+    });
+
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+
+    await this.revokeSessions([session], reason);
+  }
+
+  /**
+   * Revoke every active session of a user, optionally keeping the caller's own
+   */
+  async revokeAllSessions(
+    userId: string,
+    reason: SessionRevocationReason,
+    exceptSessionId?: string,
+  ): Promise<number> {
+    const sessions = await this.sessionRepository.find({
+      where: {
+        userId,
+        revokedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+        ...(exceptSessionId && { id: Not(exceptSessionId) }),
+      },
+    });
+
+    await this.revokeSessions(sessions, reason);
+    return sessions.length;
+  }
+
+  /**
+   * Whether an access token belongs to a revoked session. The cache only
+   * answers positively; a miss or an unreachable cache is settled by the
+   * database
+   */
+  async isAccessTokenRevoked(payload: JwtPayload): Promise<boolean> {
+    // Tokens issued before sessions existed carry no session id and expire on their own
+    if (!payload.sid) {
+      return false;
+    }
+
+    try {
+      const revoked = await this.cacheManager.get(`${REVOKED_SESSION_KEY_PREFIX}${payload.sid}`);
+      if (revoked) {
+        return true;
+      }
+    } catch (error) {
+      this.logger.warn(`Revocation list unavailable, checking session store: ${error.message}`);
+    }
+
+    const session = await this.sessionRepository.findOne({ where: { id: payload.sid } });
+    return !session || !!session.revokedAt;
+  }
+
+  private async issueTokens(user: User, session: UserSession): Promise<SessionTokens> {
+    const payload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      sid: session.id,
+    };
+
+    const [access, refresh] = await Promise.all([
+      this.jwtService.signAsync(
+        { ...payload, jti: randomUUID() },
+        {
+          secret: this.configService.get<string>('jwt.secret'),
+          expiresIn: this.configService.get<string>('jwt.expiresIn'),
+        },
+      ),
+      this.jwtService.signAsync(
+        { ...payload, jti: session.refreshTokenId },
+        {
+          secret: this.configService.get<string>('jwt.refreshSecret'),
+          expiresIn: this.configService.get<string>('jwt.refreshExpiresIn'),
+        },
+      ),
+    ]);
+
+    return { access, refresh };
+  }
+
+  private async handleRefreshTokenReuse(
+    session: UserSession,
+    client: SessionClientInfo,
+  ): Promise<void> {
+    this.logger.warn(
+      `Refresh token reuse detected for session ${session.id} of user ${session.userId}`,
+    );
+
+    await this.revokeSessions([session], SessionRevocationReason.TOKEN_REUSE);
+
+    this.eventEmitter.emit('user.refreshTokenReused', {
+      userId: session.userId,
+      sessionId: session.id,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+    });
+  }
+
+  private async revokeSessions(
+    sessions: UserSession[],
+    reason: SessionRevocationReason,
+  ): Promise<void> {
+    if (!sessions.length) {
+      return;
+    }
+
+    const revokedAt = new Date();
+    await this.sessionRepository.update(
+      { id: In(sessions.map(session => session.id)), revokedAt: IsNull() },
+      { revokedAt, revokedReason: reason },
+    );
+
+    // Access tokens outlive their session by at most their own lifetime
+    const ttl = cacheTtl(this.accessTokenLifetimeMs());
+    await Promise.all(
+      sessions.map(async session => {
+        try {
+          await this.cacheManager.set(`${REVOKED_SESSION_KEY_PREFIX}${session.id}`, reason, ttl);
+        } catch (error) {
+          this.logger.error(`Failed to add session ${session.id} to revocation list`, error);
+        }
+      }),
+    );
+
+    sessions.forEach(session => {
+      this.eventEmitter.emit('user.sessionRevoked', {
+        userId: session.userId,
+        sessionId: session.id,
+        reason,
+      });
+    });
+  }
+
+  private accessTokenLifetimeMs(): number {
+    return this.parseDuration(this.configService.get<string>('jwt.expiresIn'), 15 * 60 * 1000);
+  }
+
+  private refreshTokenLifetimeMs(): number {
+    return this.parseDuration(
+      this.configService.get<string>('jwt.refreshExpiresIn'),
+      7 * 24 * 60 * 60 * 1000,
+    );
+  }
+
+  /**
+   * Parse a jwt expiresIn value such as "15m" or "7d"; bare numbers are seconds
+   */
+  private parseDuration(value: string | number | undefined, fallbackMs: number): number {
+    const match = /^(\d+)\s*([smhd])?$/.exec(String(value ?? '').trim());
+    if (!match) {
+      return fallbackMs;
+    }
+
+    return Number(match[1]) * DURATION_UNITS_MS[match[2] || 's'];
+  }
+
+  private detectDeviceType(userAgent?: string): SessionDeviceType {
+    if (!userAgent) {
+      return SessionDeviceType.UNKNOWN;
+    }
+    if (/ipad|tablet|kindle|silk/i.test(userAgent)) {
+      return SessionDeviceType.TABLET;
+    }
+    if (/mobi|iphone|ipod|android/i.test(userAgent)) {
+      return SessionDeviceType.MOBILE;
+    }
+    if (/windows|macintosh|mac os x|linux|cros/i.test(userAgent)) {
+      return SessionDeviceType.DESKTOP;
+    }
+    return SessionDeviceType.UNKNOWN;
+  }
+
+  /**
+   * Human readable label such as "Chrome on macOS"
+   */
+  private describeDevice(userAgent?: string): string | undefined {
+    if (!userAgent) {
+      return undefined;
+    }
+
+    const browser = BROWSERS.find(([, pattern]) => pattern.test(userAgent))?.[0];
+    const os = OPERATING_SYSTEMS.find(([, pattern]) => pattern.test(userAgent))?.[0];
+
+    if (browser && os) {
+      return `${browser} on ${os}`;
+    }
+    return browser || os;
+  }
+}
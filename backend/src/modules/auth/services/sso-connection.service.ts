@@ -0,0 +1,369 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import * as crypto from 'crypto';
+import { promises as dns } from 'dns';
+import {
+  OrganizationMembership,
+  MembershipStatus,
+} from '@database/entities/organization-membership.entity';
+import {
+  OrganizationSsoConnection,
+  SsoProtocol,
+} from '@database/entities/organization-sso-connection.entity';
+import { openSecret, sealSecret } from '@common/utils/secret-box';
+import { AuthenticatedUser } from '../strategies/jwt.strategy';
+import { CreateSsoConnectionDto, UpdateSsoConnectionDto } from '../dto/sso-connection.dto';
+
+/**
+ * Prefix of the DNS TXT record proving ownership of a domain
+ */
+export const SSO_DOMAIN_VERIFICATION_PREFIX = 'volkai-sso-verification=';
+
+export interface SsoDomainVerificationResult {
+  verifiedDomains: string[];
+  pendingDomains: string[];
+  txtRecord: string;
+}
+
+/**
+ * SSO Connection Service
+ * Organization administrators manage their SAML/OIDC identity providers
+ * here. A domain only routes logins to a connection once a DNS TXT record
+ * proves the organization owns it
+ */
+@Injectable()
+export class SsoConnectionService {
+  private readonly logger = new Logger(SsoConnectionService.name);
+
+  constructor(
+    @InjectRepository(OrganizationSsoConnection)
+    private readonly connectionRepository: Repository<OrganizationSsoConnection>,
+    @InjectRepository(OrganizationMembership)
+    private readonly membershipRepository: Repository<OrganizationMembership>,
+    private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  async findAll(
+    organizationId: string,
+    currentUser: AuthenticatedUser,
+  ): Promise<OrganizationSsoConnection[]> {
+    await this.assertAdmin(organizationId, currentUser);
+
+    const connections = await this.connectionRepository.find({
+      where: { organizationId },
+      order: { createdAt: 'ASC' },
+    });
+
+    return connections.map(connection => this.sanitizeConnection(connection));
+  }
+
+  async findOne(
+    organizationId: string,
+    connectionId: string,
+    currentUser: AuthenticatedUser,
+  ): Promise<OrganizationSsoConnection> {
+    await this.assertAdmin(organizationId, currentUser);
+    return this.sanitizeConnection(await this.findConnection(organizationId, connectionId));
+  }
+
+  async create(
+    organizationId: string,
+    createDto: CreateSsoConnectionDto,
+    currentUser: AuthenticatedUser,
+  ): Promise<OrganizationSsoConnection> {
+    await this.assertAdmin(organizationId, currentUser);
+
+    const domains = this.normalizeDomains(createDto.domains);
+    await this.assertDomainsAvailable(domains);
+
+    const connection = this.connectionRepository.create({
+      organizationId,
+      name: createDto.name,
+      protocol: createDto.protocol,
+      enabled: createDto.enabled ?? false,
+      domains,
+      verifiedDomains: [],
+      domainVerificationToken: crypto.randomBytes(24).toString('hex'),
+      samlConfig: createDto.protocol === SsoProtocol.SAML ? createDto.samlConfig : null,
+      oidcConfig:
+        createDto.protocol === SsoProtocol.OIDC
+          ? this.encryptOidcConfig(createDto.oidcConfig)
+          : null,
+      attributeMapping: createDto.attributeMapping || {},
+      roleMappings: createDto.roleMappings || [],
+      defaultRole: createDto.defaultRole,
+      jitProvisioning: createDto.jitProvisioning ?? true,
+      createdBy: currentUser.id,
+    });
+
+    const savedConnection = await this.connectionRepository.save(connection);
+
+    this.eventEmitter.emit('organization.ssoConnectionUpdated', {
+      organizationId,
+      connectionId: savedConnection.id,
+      updatedBy: currentUser.id,
+      action: 'created',
+    });
+
+    this.logger.log(`SSO connection created: ${savedConnection.id} for ${organizationId}`);
+
+    return this.sanitizeConnection(savedConnection);
+  }
+
+  async update(
+    organizationId: string,
+    connectionId: string,
+    updateDto: UpdateSsoConnectionDto,
+    currentUser: AuthenticatedUser,
+  ): Promise<OrganizationSsoConnection> {
+    await this.assertAdmin(organizationId, currentUser);
+    const connection = await this.findConnection(organizationId, connectionId);
+
+    const { domains, samlConfig, oidcConfig, ...changes } = updateDto;
+    Object.assign(connection, changes);
+
+    if (domains) {
+      const normalizedDomains = this.normalizeDomains(domains);
+      await this.assertDomainsAvailable(normalizedDomains, connection.id);
+
+      connection.domains = normalizedDomains;
+      connection.verifiedDomains = connection.verifiedDomains.filter(domain =>
+        normalizedDomains.includes(domain),
+      );
+    }
+
+    if (samlConfig && connection.protocol === SsoProtocol.SAML) {
+      connection.samlConfig = samlConfig;
+    }
+
+    if (oidcConfig && connection.protocol === SsoProtocol.OIDC) {
+      // Keep the stored secret unless a new one is provided
+      connection.oidcConfig = oidcConfig.clientSecret
+        ? this.encryptOidcConfig(oidcConfig)
+        : { ...oidcConfig, clientSecret: connection.oidcConfig?.clientSecret };
+    }
+
+    const savedConnection = await this.connectionRepository.save(connection);
+
+    this.eventEmitter.emit('organization.ssoConnectionUpdated', {
+      organizationId,
+      connectionId,
+      updatedBy: currentUser.id,
+      action: 'updated',
+    });
+
+    return this.sanitizeConnection(savedConnection);
+  }
+
+  async remove(
+    organizationId: string,
+    connectionId: string,
+    currentUser: AuthenticatedUser,
+  ): Promise<void> {
+    await this.assertAdmin(organizationId, currentUser);
+    const connection = await this.findConnection(organizationId, connectionId);
+
+    await this.connectionRepository.remove(connection);
+
+    this.eventEmitter.emit('organization.ssoConnectionUpdated', {
+      organizationId,
+      connectionId,
+      updatedBy: currentUser.id,
+      action: 'deleted',
+    });
+  }
+
+  /**
+   * Check the DNS TXT records of every unverified domain of a connection
+   */
+  async verifyDomains(
+    organizationId: string,
+    connectionId: string,
+    currentUser: AuthenticatedUser,
+  ): Promise<SsoDomainVerificationResult> {
+    await this.assertAdmin(organizationId, currentUser);
+    const connection = await this.findConnection(organizationId, connectionId);
+
+    const txtRecord = SSO_DOMAIN_VERIFICATION_PREFIX + connection.domainVerificationToken;
+    const skipVerification =
+      this.configService.get<string>('SSO_SKIP_DOMAIN_VERIFICATION') === 'true';
+
+    for (const domain of connection.domains) {
+      if (connection.verifiedDomains.includes(domain)) {
+        continue;
+      }
+
+      if (skipVerification || (await this.hasTxtRecord(domain, txtRecord))) {
+        connection.verifiedDomains = [...connection.verifiedDomains, domain];
+      }
+    }
+
+    await this.connectionRepository.update(connection.id, {
+      verifiedDomains: connection.verifiedDomains,
+    });
+
+    return {
+      verifiedDomains: connection.verifiedDomains,
+      pendingDomains: connection.domains.filter(
+        domain => !connection.verifiedDomains.includes(domain),
+      ),
+      txtRecord,
+    };
+  }
+
+  /**
+   * Enabled connection that owns the verified domain of an email address
+   */
+  async findByEmail(email: string): Promise<OrganizationSsoConnection | null> {
+    const domain = email.split('@').pop()?.trim().toLowerCase();
+    if (!domain) {
+      return null;
+    }
+
+    return this.connectionRepository
+      .createQueryBuilder('connection')
+      .where('connection.enabled = true')
+      .andWhere(':domain = ANY(connection.verifiedDomains)', { domain })
+      .getOne();
+  }
+
+  async findEnabledConnection(connectionId: string): Promise<OrganizationSsoConnection> {
+    const connection = await this.connectionRepository.findOne({
+      where: { id: connectionId, enabled: true },
+    });
+
+    if (!connection) {
+      throw new NotFoundException('SSO connection not found');
+    }
+
+    return connection;
+  }
+
+  async recordLogin(connectionId: string): Promise<void> {
+    await this.connectionRepository.update(connectionId, { lastLoginAt: new Date() });
+  }
+
+  getOidcClientSecret(connection: OrganizationSsoConnection): string | undefined {
+    const encrypted = connection.oidcConfig?.clientSecret;
+    return encrypted ? this.decryptSecret(encrypted) : undefined;
+  }
+
+  // Private helper methods
+
+  private async assertAdmin(organizationId: string, currentUser: AuthenticatedUser): Promise<void> {
+    const membership = await this.membershipRepository.findOne({
+      where: {
+        userId: currentUser.id,
+        organizationId,
+        status: MembershipStatus.ACTIVE,
+      },
+    });
+
+    if (!membership || !membership.isAdmin) {
+      throw new ForbiddenException('Insufficient permissions to manage SSO connections');
+    }
+  }
+
+  private async findConnection(
+    organizationId: string,
+    connectionId: string,
+  ): Promise<OrganizationSsoConnection> {
+    const connection = await this.connectionRepository.findOne({
+      where: { id: connectionId, organizationId },
+    });
+
+    if (!connection) {
+      throw new NotFoundException('SSO connection not found');
+    }
+
+    return connection;
+  }
+
+  private normalizeDomains(domains: string[]): string[] {
+    const normalized = [...new Set(domains.map(domain => domain.trim().toLowerCase()))];
+
+    if (!normalized.length) {
+      throw new BadRequestException('At least one domain is required');
+    }
+
+    return normalized;
+  }
+
+  /**
+   * A domain can belong to a single connection across all organizations
+   */
+  private async assertDomainsAvailable(
+    domains: string[],
+    exceptConnectionId?: string,
+  ): Promise<void> {
+    const query = this.connectionRepository
+      .createQueryBuilder('connection')
+      .where('connection.domains && :domains', { domains });
+
+    if (exceptConnectionId) {
+      query.andWhere('connection.id != :exceptConnectionId', { exceptConnectionId });
+    }
+
+    const existing = await query.getOne();
+    if (existing) {
+      const taken = existing.domains.filter(domain => domains.includes(domain));
+      throw new ConflictException(
+        `Domain already used by another SSO connection: ${taken.join(', ')}`,
+      );
+    }
+  }
+
+  private async hasTxtRecord(domain: string, expected: string): Promise<boolean> {
+    try {
+      const records = await dns.resolveTxt(domain);
+      return records.some(chunks => chunks.join('') === expected);
+    } catch (error) {
+      this.logger.warn(`TXT lookup failed for ${domain}: ${error.message}`);
+      return false;
+    }
+  }
+
+  private sanitizeConnection(connection: OrganizationSsoConnection): OrganizationSsoConnection {
+    if (!connection.oidcConfig) {
+      return connection;
+    }
+
+    const { clientSecret, ...oidcConfig } = connection.oidcConfig;
+    return Object.assign(Object.create(Object.getPrototypeOf(connection)), connection, {
+      oidcConfig: { ...oidcConfig, hasClientSecret: Boolean(clientSecret) },
+    });
+  }
+
+  private encryptOidcConfig<T extends { clientSecret?: string }>(config: T): T {
+    return config.clientSecret
+      ? { ...config, clientSecret: this.encryptSecret(config.clientSecret) }
+      : config;
+  }
+
+  private getEncryptionSecret(): string {
+    const secret = this.configService.get<string>('ENCRYPTION_KEY');
+    if (!secret) {
+      throw new Error('ENCRYPTION_KEY must be configured to store SSO client secrets');
+    }
+    return secret;
+  }
+
+  private encryptSecret(secret: string): string {
+    return sealSecret(secret, this.getEncryptionSecret(), 'sso-client-secret');
+  }
+
+  private decryptSecret(encryptedSecret: string): string {
+    return openSecret(encryptedSecret, this.getEncryptionSecret(), 'sso-client-secret');
+  }
+}
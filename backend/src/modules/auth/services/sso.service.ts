@@ -0,0 +1,485 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import * as crypto from 'crypto';
+import { SAML, ValidateInResponseTo } from '@node-saml/node-saml';
+import { BaseClient, Issuer, generators } from 'openid-client';
+import { Role, User, UserStatus } from '@/database/entities/user.entity';
+import { cacheTtl } from '@/common/utils/cache-ttl';
+import {
+  OrganizationMembership,
+  MembershipRole,
+  MembershipStatus,
+} from '@database/entities/organization-membership.entity';
+import {
+  OrganizationSsoConnection,
+  SsoProtocol,
+} from '@database/entities/organization-sso-connection.entity';
+import { SsoConnectionService } from './sso-connection.service';
+import { SamlCacheProvider } from '../sso/saml-cache.provider';
+import {
+  SsoAttributes,
+  SsoIdentity,
+  extractSsoIdentity,
+  resolveSsoRole,
+} from '../sso/sso-attributes';
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+const EXCHANGE_CODE_TTL_MS = 60 * 1000;
+const STATE_KEY_PREFIX = 'auth:sso-state:';
+const EXCHANGE_CODE_KEY_PREFIX = 'auth:sso-code:';
+const DEFAULT_OIDC_SCOPES = ['email', 'profile'];
+
+interface SsoLoginState {
+  connectionId: string;
+  nonce?: string;
+  codeVerifier?: string;
+}
+
+export interface SsoDiscoveryResult {
+  sso: boolean;
+  connectionId?: string;
+  protocol?: SsoProtocol;
+  loginUrl?: string;
+}
+
+/**
+ * SSO Service
+ * Runs SP-initiated SAML 2.0 and OpenID Connect logins, provisions users
+ * and memberships just in time and hands the browser a one-time code that
+ * the frontend exchanges for regular session tokens
+ */
+@Injectable()
+export class SsoService {
+  private readonly logger = new Logger(SsoService.name);
+  private readonly issuers = new Map<string, Promise<Issuer<BaseClient>>>();
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(OrganizationMembership)
+    private readonly membershipRepository: Repository<OrganizationMembership>,
+    private readonly ssoConnectionService: SsoConnectionService,
+    private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2,
+    @Inject(CACHE_MANAGER)
+    private readonly cacheManager: Cache,
+  ) {}
+
+  /**
+   * Tell the login form whether an email address signs in through SSO
+   */
+  async discover(email: string): Promise<SsoDiscoveryResult> {
+    const connection = await this.ssoConnectionService.findByEmail(email);
+
+    if (!connection) {
+      return { sso: false };
+    }
+
+    return {
+      sso: true,
+      connectionId: connection.id,
+      protocol: connection.protocol,
+      loginUrl: `${this.getApiBaseUrl()}/auth/sso/${connection.id}/login`,
+    };
+  }
+
+  /**
+   * Build the IdP URL that starts a login
+   */
+  async getLoginUrl(connectionId: string): Promise<string> {
+    const connection = await this.ssoConnectionService.findEnabledConnection(connectionId);
+    const state = generators.state();
+
+    if (connection.protocol === SsoProtocol.SAML) {
+      await this.saveState(state, { connectionId });
+      return this.createSaml(connection).getAuthorizeUrlAsync(state, undefined, {});
+    }
+
+    const nonce = generators.nonce();
+    const codeVerifier = generators.codeVerifier();
+    await this.saveState(state, { connectionId, nonce, codeVerifier });
+
+    const client = await this.createOidcClient(connection);
+    const scopes = connection.oidcConfig.scopes?.length
+      ? connection.oidcConfig.scopes
+      : DEFAULT_OIDC_SCOPES;
+
+    return client.authorizationUrl({
+      scope: ['openid', ...scopes.filter(scope => scope !== 'openid')].join(' '),
+      state,
+      nonce,
+      code_challenge: generators.codeChallenge(codeVerifier),
+      code_challenge_method: 'S256',
+    });
+  }
+
+  /**
+   * SAML service provider metadata for the IdP administrator
+   */
+  async getSamlMetadata(connectionId: string): Promise<string> {
+    const connection = await this.ssoConnectionService.findEnabledConnection(connectionId);
+    this.assertProtocol(connection, SsoProtocol.SAML);
+
+    return this.createSaml(connection).generateServiceProviderMetadata(null, null);
+  }
+
+  /**
+   * Validate a SAML response posted to the assertion consumer service
+   * Returns the one-time exchange code
+   */
+  async handleSamlResponse(
+    connectionId: string,
+    samlResponse: string,
+    relayState: string,
+  ): Promise<string> {
+    // IdP-initiated logins carry no state of ours and are not accepted
+    await this.takeState(relayState, connectionId);
+
+    const connection = await this.ssoConnectionService.findEnabledConnection(connectionId);
+    this.assertProtocol(connection, SsoProtocol.SAML);
+
+    let profile: Record<string, unknown> & { nameID: string };
+    try {
+      const result = await this.createSaml(connection).validatePostResponseAsync({
+        SAMLResponse: samlResponse,
+      });
+      profile = result.profile;
+    } catch (error) {
+      this.logger.warn(`SAML response rejected for connection ${connectionId}: ${error.message}`);
+      throw new UnauthorizedException('Invalid SAML response');
+    }
+
+    if (!profile) {
+      throw new UnauthorizedException('Invalid SAML response');
+    }
+
+    const attributes: SsoAttributes = { ...profile };
+    if (!attributes.email && profile.nameID?.includes('@')) {
+      attributes.email = profile.nameID;
+    }
+
+    return this.completeLogin(connection, profile.nameID, attributes);
+  }
+
+  /**
+   * Exchange the OIDC authorization code and validate the ID token
+   * Returns the one-time exchange code
+   */
+  async handleOidcCallback(connectionId: string, params: Record<string, string>): Promise<string> {
+    const state = await this.takeState(params.state, connectionId);
+
+    if (params.error) {
+      throw new UnauthorizedException(params.error_description || params.error);
+    }
+
+    const connection = await this.ssoConnectionService.findEnabledConnection(connectionId);
+    this.assertProtocol(connection, SsoProtocol.OIDC);
+    const client = await this.createOidcClient(connection);
+
+    let attributes: SsoAttributes;
+    try {
+      const tokenSet = await client.callback(this.getOidcRedirectUri(connection.id), params, {
+        state: params.state,
+        nonce: state.nonce,
+        code_verifier: state.codeVerifier,
+      });
+      attributes = { ...tokenSet.claims() };
+
+      // Some IdPs only release profile claims through the userinfo endpoint
+      if (tokenSet.access_token && client.issuer.metadata.userinfo_endpoint) {
+        attributes = { ...(await client.userinfo(tokenSet)), ...attributes };
+      }
+    } catch (error) {
+      this.logger.warn(`OIDC callback rejected for connection ${connectionId}: ${error.message}`);
+      throw new UnauthorizedException('Invalid OpenID Connect response');
+    }
+
+    if (attributes.email_verified === false) {
+      throw new UnauthorizedException('Email address is not verified by the identity provider');
+    }
+
+    return this.completeLogin(connection, String(attributes.sub), attributes);
+  }
+
+  /**
+   * Redeem a one-time code issued after a successful SSO login
+   */
+  async consumeExchangeCode(code: string): Promise<string> {
+    const key = EXCHANGE_CODE_KEY_PREFIX + code;
+    const userId = await this.cacheManager.get<string>(key);
+
+    if (!userId) {
+      throw new UnauthorizedException('Invalid or expired SSO code');
+    }
+
+    await this.cacheManager.del(key);
+    return userId;
+  }
+
+  /**
+   * Frontend page that finishes the login, with either a code or an error
+   */
+  buildFrontendRedirect(result: { code: string } | { error: string }): string {
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL', 'http://localhost:3000');
+    return `${frontendUrl}/sso/callback?${new URLSearchParams(result).toString()}`;
+  }
+
+  // Private helper methods
+
+  private async completeLogin(
+    connection: OrganizationSsoConnection,
+    subject: string,
+    attributes: SsoAttributes,
+  ): Promise<string> {
+    const identity = extractSsoIdentity(subject, attributes, connection.attributeMapping);
+
+    if (!identity.email) {
+      throw new UnauthorizedException('Identity provider did not return an email address');
+    }
+
+    // Only domains the organization proved it owns may sign in
+    const domain = identity.email.split('@').pop();
+    if (!connection.isDomainVerified(domain)) {
+      throw new ForbiddenException('Email domain is not allowed for this SSO connection');
+    }
+
+    const role = resolveSsoRole(
+      attributes,
+      connection.roleMappings,
+      connection.defaultRole,
+      connection.attributeMapping?.groups,
+    );
+    const { user, provisioned } = await this.provisionUser(connection, identity);
+    await this.provisionMembership(connection, user, role);
+    await this.ssoConnectionService.recordLogin(connection.id);
+
+    this.eventEmitter.emit('user.ssoLogin', {
+      userId: user.id,
+      email: user.email,
+      organizationId: connection.organizationId,
+      connectionId: connection.id,
+      protocol: connection.protocol,
+      provisioned,
+    });
+
+    const code = crypto.randomBytes(32).toString('base64url');
+    await this.cacheManager.set(
+      EXCHANGE_CODE_KEY_PREFIX + code,
+      user.id,
+      cacheTtl(EXCHANGE_CODE_TTL_MS),
+    );
+
+    return code;
+  }
+
+  private async provisionUser(
+    connection: OrganizationSsoConnection,
+    identity: SsoIdentity,
+  ): Promise<{ user: User; provisioned: boolean }> {
+    const existingUser = await this.userRepository.findOne({
+      where: { email: identity.email },
+    });
+
+    if (existingUser) {
+      if (!existingUser.isActive) {
+        throw new UnauthorizedException('Account is not active');
+      }
+
+      // The IdP vouches for the address
+      if (!existingUser.emailVerified) {
+        await this.userRepository.update(existingUser.id, { emailVerified: true });
+        existingUser.emailVerified = true;
+      }
+
+      return { user: existingUser, provisioned: false };
+    }
+
+    if (!connection.jitProvisioning) {
+      throw new ForbiddenException('No account exists for this user');
+    }
+
+    const user = this.userRepository.create({
+      email: identity.email,
+      firstName: identity.firstName || identity.email.split('@')[0],
+      lastName: identity.lastName || '',
+      emailVerified: true,
+      status: UserStatus.ACTIVE,
+      roles: Role.USER as string,
+      organizationId: connection.organizationId,
+      createdAt: new Date(),
+    });
+    const savedUser = await this.userRepository.save(user);
+
+    this.eventEmitter.emit('user.registered', {
+      userId: savedUser.id,
+      email: savedUser.email,
+      organizationId: connection.organizationId,
+    });
+
+    this.logger.log(`User provisioned through SSO: ${savedUser.email}`);
+
+    return { user: savedUser, provisioned: true };
+  }
+
+  private async provisionMembership(
+    connection: OrganizationSsoConnection,
+    user: User,
+    role: MembershipRole,
+  ): Promise<void> {
+    const membership = await this.membershipRepository.findOne({
+      where: { userId: user.id, organizationId: connection.organizationId },
+    });
+
+    if (!membership) {
+      if (!connection.jitProvisioning) {
+        throw new ForbiddenException('You are not a member of this organization');
+      }
+
+      await this.membershipRepository.save(
+        this.membershipRepository.create({
+          userId: user.id,
+          organizationId: connection.organizationId,
+          role,
+          status: MembershipStatus.ACTIVE,
+          joinedAt: new Date(),
+        }),
+      );
+      return;
+    }
+
+    // Members removed by an administrator stay removed
+    if (
+      membership.status === MembershipStatus.REMOVED ||
+      membership.status === MembershipStatus.INACTIVE
+    ) {
+      throw new ForbiddenException('Your membership in this organization is not active');
+    }
+
+    const changes: Partial<OrganizationMembership> = {};
+    if (membership.status === MembershipStatus.INVITED) {
+      changes.status = MembershipStatus.ACTIVE;
+      changes.joinedAt = new Date();
+    }
+
+    // Without role mappings roles are managed in the app, and the owner is never changed
+    if (
+      connection.roleMappings.length &&
+      membership.role !== MembershipRole.OWNER &&
+      membership.role !== role
+    ) {
+      changes.role = role;
+    }
+
+    if (Object.keys(changes).length) {
+      await this.membershipRepository.update(membership.id, changes);
+
+      this.eventEmitter.emit('member.updated', {
+        organizationId: connection.organizationId,
+        userId: user.id,
+        updatedBy: user.id,
+        changes: { ...changes, source: 'sso' },
+      });
+    }
+  }
+
+  private createSaml(connection: OrganizationSsoConnection): SAML {
+    const config = connection.samlConfig;
+    const callbackUrl = `${this.getApiBaseUrl()}/auth/sso/saml/${connection.id}/acs`;
+    const issuer = `${this.getApiBaseUrl()}/auth/sso/saml/${connection.id}/metadata`;
+
+    return new SAML({
+      entryPoint: config.entryPoint,
+      idpIssuer: config.idpIssuer,
+      idpCert: config.idpCertificates,
+      issuer,
+      callbackUrl,
+      audience: issuer,
+      identifierFormat: config.identifierFormat || null,
+      wantAssertionsSigned: true,
+      wantAuthnResponseSigned: config.wantAuthnResponseSigned ?? false,
+      validateInResponseTo: ValidateInResponseTo.always,
+      requestIdExpirationPeriodMs: STATE_TTL_MS,
+      cacheProvider: new SamlCacheProvider(this.cacheManager, STATE_TTL_MS),
+      acceptedClockSkewMs: 60 * 1000,
+    });
+  }
+
+  private async createOidcClient(connection: OrganizationSsoConnection): Promise<BaseClient> {
+    const config = connection.oidcConfig;
+
+    // Discovery documents are fetched once per issuer
+    let issuer = this.issuers.get(config.issuerUrl);
+    if (!issuer) {
+      issuer = Issuer.discover(config.issuerUrl);
+      this.issuers.set(config.issuerUrl, issuer);
+    }
+
+    let discovered: Issuer<BaseClient>;
+    try {
+      discovered = await issuer;
+    } catch (error) {
+      this.issuers.delete(config.issuerUrl);
+      this.logger.error(`OIDC discovery failed for ${config.issuerUrl}: ${error.message}`);
+      throw new BadRequestException('Identity provider is unavailable');
+    }
+
+    const clientSecret = this.ssoConnectionService.getOidcClientSecret(connection);
+
+    return new discovered.Client({
+      client_id: config.clientId,
+      client_secret: clientSecret,
+      redirect_uris: [this.getOidcRedirectUri(connection.id)],
+      response_types: ['code'],
+      token_endpoint_auth_method: clientSecret ? 'client_secret_basic' : 'none',
+    });
+  }
+
+  private getOidcRedirectUri(connectionId: string): string {
+    return `${this.getApiBaseUrl()}/auth/sso/oidc/${connectionId}/callback`;
+  }
+
+  private getApiBaseUrl(): string {
+    return this.configService.get<string>('API_BASE_URL', 'http://localhost:3000/api/v1');
+  }
+
+  private assertProtocol(connection: OrganizationSsoConnection, protocol: SsoProtocol): void {
+    if (connection.protocol !== protocol) {
+      throw new BadRequestException(`SSO connection does not use ${protocol.toUpperCase()}`);
+    }
+  }
+
+  private async saveState(state: string, value: SsoLoginState): Promise<void> {
+    await this.cacheManager.set(STATE_KEY_PREFIX + state, value, cacheTtl(STATE_TTL_MS));
+  }
+
+  /**
+   * Read and drop the login state, so each state is used once
+   */
+  private async takeState(state: string, connectionId: string): Promise<SsoLoginState> {
+    if (!state) {
+      throw new UnauthorizedException('Missing SSO state');
+    }
+
+    const key = STATE_KEY_PREFIX + state;
+    const value = await this.cacheManager.get<SsoLoginState>(key);
+    await this.cacheManager.del(key);
+
+    if (!value || value.connectionId !== connectionId) {
+      throw new UnauthorizedException('Invalid or expired SSO state');
+    }
+
+    return value;
+  }
+}
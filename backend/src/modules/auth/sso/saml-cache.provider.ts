@@ -0,0 +1,47 @@
+import { Cache } from 'cache-manager';
+import { CacheItem, CacheProvider } from '@node-saml/node-saml';
+import { cacheTtl } from '@/common/utils/cache-ttl';
+
+const KEY_PREFIX = 'auth:saml-request:';
+
+/**
+ * Stores outstanding SAML AuthnRequest IDs in the shared cache so the
+ * InResponseTo of a response can be checked on any instance
+ */
+export class SamlCacheProvider implements CacheProvider {
+  constructor(
+    private readonly cacheManager: Cache,
+    private readonly ttlMs: number,
+  ) {}
+
+  async saveAsync(key: string, value: string): Promise<CacheItem | null> {
+    const cacheKey = KEY_PREFIX + key;
+    if (await this.cacheManager.get<CacheItem>(cacheKey)) {
+      return null;
+    }
+
+    const item: CacheItem = { value, createdAt: Date.now() };
+    await this.cacheManager.set(cacheKey, item, cacheTtl(this.ttlMs));
+    return item;
+  }
+
+  async getAsync(key: string): Promise<string | null> {
+    const item = await this.cacheManager.get<CacheItem>(KEY_PREFIX + key);
+    return item?.value ?? null;
+  }
+
+  async removeAsync(key: string | null): Promise<string | null> {
+    if (!key) {
+      return null;
+    }
+
+    const cacheKey = KEY_PREFIX + key;
+    const item = await this.cacheManager.get<CacheItem>(cacheKey);
+    if (!item) {
+      return null;
+    }
+
+    await this.cacheManager.del(cacheKey);
+    return key;
+  }
+}
@@ -0,0 +1,65 @@
+import { MembershipRole } from '@database/entities/organization-membership.entity';
+import { extractSsoIdentity, readSsoAttribute, resolveSsoRole } from './sso-attributes';
+
+describe('sso attributes', () => {
+  it('reads single and multi-valued attributes as lists', () => {
+    const attributes = { email: 'a@acme.test', groups: ['hr', 'staff'], empty: null };
+
+    expect(readSsoAttribute(attributes, 'email')).toEqual(['a@acme.test']);
+    expect(readSsoAttribute(attributes, 'groups')).toEqual(['hr', 'staff']);
+    expect(readSsoAttribute(attributes, 'empty')).toEqual([]);
+    expect(readSsoAttribute(attributes, 'missing')).toEqual([]);
+  });
+
+  it('extracts the identity through the mapping and common SAML names', () => {
+    const identity = extractSsoIdentity(
+      'subject-1',
+      {
+        'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress': ' Jane@Acme.test ',
+        first: 'Jane',
+        surname: 'Doe',
+        memberOf: ['engineering'],
+      },
+      { firstName: 'first', lastName: 'surname' },
+    );
+
+    expect(identity).toEqual({
+      subject: 'subject-1',
+      email: 'jane@acme.test',
+      firstName: 'Jane',
+      lastName: 'Doe',
+      groups: ['engineering'],
+    });
+  });
+
+  it('grants the most privileged matching role and never owner', () => {
+    const mappings = [
+      { value: 'interviewers', role: MembershipRole.INTERVIEWER },
+      { value: 'hr-team', role: MembershipRole.HR },
+      { attribute: 'department', value: 'it', role: MembershipRole.ADMIN },
+      { value: 'founders', role: MembershipRole.OWNER },
+    ];
+
+    expect(
+      resolveSsoRole({ groups: ['interviewers', 'hr-team'] }, mappings, MembershipRole.LEARNER),
+    ).toBe(MembershipRole.HR);
+    expect(
+      resolveSsoRole(
+        { groups: ['interviewers'], department: 'it' },
+        mappings,
+        MembershipRole.LEARNER,
+      ),
+    ).toBe(MembershipRole.ADMIN);
+    expect(resolveSsoRole({ groups: ['founders'] }, mappings, MembershipRole.LEARNER)).toBe(
+      MembershipRole.LEARNER,
+    );
+  });
+
+  it('uses a custom groups attribute for mappings without one', () => {
+    const mappings = [{ value: 'managers', role: MembershipRole.MANAGER }];
+
+    expect(resolveSsoRole({ roles: 'managers' }, mappings, MembershipRole.LEARNER, 'roles')).toBe(
+      MembershipRole.MANAGER,
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  MembershipRole,
+  MEMBERSHIP_ROLE_PRECEDENCE,
+} from '@database/entities/organization-membership.entity';
+import {
+  SsoAttributeMapping,
+  SsoRoleMapping,
+} from '@database/entities/organization-sso-connection.entity';
+
+/**
+ * Attributes or claims asserted by an identity provider
+ */
+export type SsoAttributes = Record<string, unknown>;
+
+export interface SsoIdentity {
+  subject: string;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  groups: string[];
+}
+
+const DEFAULT_ATTRIBUTE_NAMES: Required<SsoAttributeMapping> = {
+  email: 'email',
+  firstName: 'given_name',
+  lastName: 'family_name',
+  groups: 'groups',
+};
+
+// Common SAML attribute names used when no mapping is configured
+const FALLBACK_ATTRIBUTE_NAMES: Record<keyof SsoAttributeMapping, string[]> = {
+  email: ['mail', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress'],
+  firstName: ['firstName', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname'],
+  lastName: ['lastName', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/surname'],
+  groups: ['memberOf', 'http://schemas.microsoft.com/ws/2008/06/identity/claims/groups'],
+};
+
+/**
+ * Read an attribute as a list of strings. IdPs send single values as strings
+ * and multi-valued attributes as arrays
+ */
+export function readSsoAttribute(attributes: SsoAttributes, name: string): string[] {
+  const value = attributes[name];
+
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  const values = Array.isArray(value) ? value : [value];
+  return values.filter(item => item !== null && item !== undefined).map(item => String(item));
+}
+
+/**
+ * Map IdP attributes to the user fields, using the connection mapping first
+ */
+export function extractSsoIdentity(
+  subject: string,
+  attributes: SsoAttributes,
+  mapping: SsoAttributeMapping = {},
+): SsoIdentity {
+  const read = (field: keyof SsoAttributeMapping): string[] => {
+    const names = [
+      mapping[field] || DEFAULT_ATTRIBUTE_NAMES[field],
+      ...FALLBACK_ATTRIBUTE_NAMES[field],
+    ];
+
+    for (const name of names) {
+      const values = readSsoAttribute(attributes, name);
+      if (values.length) {
+        return values;
+      }
+    }
+    return [];
+  };
+
+  return {
+    subject,
+    email: read('email')[0]?.trim().toLowerCase(),
+    firstName: read('firstName')[0],
+    lastName: read('lastName')[0],
+    groups: read('groups'),
+  };
+}
+
+/**
+ * Resolve the membership role from the role mappings of a connection.
+ * When several mappings match, the most privileged role wins
+ */
+export function resolveSsoRole(
+  attributes: SsoAttributes,
+  roleMappings: SsoRoleMapping[],
+  defaultRole: MembershipRole,
+  groupsAttribute = DEFAULT_ATTRIBUTE_NAMES.groups,
+): MembershipRole {
+  const matched = roleMappings
+    .filter(mapping => mapping.role !== MembershipRole.OWNER)
+    .filter(mapping =>
+      readSsoAttribute(attributes, mapping.attribute || groupsAttribute).includes(mapping.value),
+    )
+    .map(mapping => mapping.role);
+
+  return MEMBERSHIP_ROLE_PRECEDENCE.find(role => matched.includes(role)) || defaultRole;
+}
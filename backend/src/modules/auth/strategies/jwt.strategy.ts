@@ -6,6 +6,7 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { User, UserStatus } from '@/database/entities/user.entity';
 import { OrganizationMembership, MembershipStatus } from '@database/entities/organization-membership.entity';
+import { SessionService } from '../services/session.service';
 
 /**
  * JWT payload interface
@@ -13,6 +14,8 @@ import { OrganizationMembership, MembershipStatus } from '@database/entities/org
 export interface JwtPayload {
   sub: string; // User ID
   email: string;
+  sid?: string; // Session ID
+  jti?: string; // Token ID
   iat?: number;
   exp?: number;
 }
@@ -24,6 +27,7 @@ export interface AuthenticatedUser extends User {
   currentOrganizationId?: string;
   currentMembership?: OrganizationMembership;
   permissions?: string[];
+  sessionId?: string;
 }
 
 /**
@@ -38,6 +42,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     private readonly userRepository: Repository<User>,
     @InjectRepository(OrganizationMembership)
     private readonly membershipRepository: Repository<OrganizationMembership>,
+    private readonly sessionService: SessionService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -53,6 +58,11 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   async validate(payload: JwtPayload): Promise<AuthenticatedUser> {
     const { sub: userId, email } = payload;
 
+    // Reject access tokens of signed out or revoked sessions
+    if (await this.sessionService.isAccessTokenRevoked(payload)) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
     // Find user with active status
     const user = await this.userRepository.findOne({
       where: {
@@ -88,6 +98,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       currentOrganizationId: currentMembership?.organizationId,
       currentMembership,
       permissions: currentMembership ? this.getUserPermissions(currentMembership) : [],
+      sessionId: payload.sid,
     };
 
     return authenticatedUser;
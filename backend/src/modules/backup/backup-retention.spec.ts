@@ -0,0 +1,41 @@
+import { selectExpiredBackups } from './backup-retention';
+
+const backup = (id: string, iso: string) => ({ id, createdAt: new Date(iso) });
+
+describe('selectExpiredBackups', () => {
+  it('keeps the newest backup per day up to the daily limit', () => {
+    const backups = [
+      backup('mon-early', '2026-03-02T01:00:00Z'),
+      backup('mon-late', '2026-03-02T02:00:00Z'),
+      backup('tue', '2026-03-03T02:00:00Z'),
+      backup('wed', '2026-03-04T02:00:00Z'),
+    ];
+
+    const expired = selectExpiredBackups(backups, { daily: 2, weekly: 0, monthly: 0 });
+
+    expect(expired.map(b => b.id)).toEqual(['mon-late', 'mon-early']);
+  });
+
+  it('keeps one backup per week and month beyond the daily window', () => {
+    const backups = [
+      backup('jan-end', '2026-01-31T02:00:00Z'),
+      backup('feb-week1', '2026-02-03T02:00:00Z'),
+      backup('feb-week1-b', '2026-02-05T02:00:00Z'),
+      backup('feb-week2', '2026-02-10T02:00:00Z'),
+      backup('mar-1', '2026-03-01T02:00:00Z'),
+      backup('mar-2', '2026-03-02T02:00:00Z'),
+    ];
+
+    const expired = selectExpiredBackups(backups, { daily: 1, weekly: 3, monthly: 3 });
+
+    // Days: mar-2. Weeks: mar-2 (Mon 2 Mar), mar-1 (week of 23 Feb), feb-week2.
+    // Months: mar-2, feb-week2, jan-end
+    expect(expired.map(b => b.id).sort()).toEqual(['feb-week1', 'feb-week1-b']);
+  });
+
+  it('expires nothing while every tier has room', () => {
+    const backups = [backup('a', '2026-03-01T00:00:00Z'), backup('b', '2026-03-02T00:00:00Z')];
+
+    expect(selectExpiredBackups(backups, { daily: 7, weekly: 4, monthly: 6 })).toEqual([]);
+  });
+});
@@ -0,0 +1,46 @@
+export interface BackupRetentionPolicy {
+  daily: number;
+  weekly: number;
+  monthly: number;
+}
+
+/**
+ * Pick the backups a grandfather-father-son policy no longer keeps. The
+ * newest backup of each of the last `daily` days, `weekly` weeks and
+ * `monthly` months (UTC, weeks starting Monday) is kept; a backup kept by any
+ * tier survives
+ */
+export function selectExpiredBackups<T extends { id: string; createdAt: Date }>(
+  backups: T[],
+  policy: BackupRetentionPolicy,
+): T[] {
+  const newestFirst = [...backups].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const kept = new Set<string>();
+
+  const tiers: Array<[number, (date: Date) => string]> = [
+    [policy.daily, date => date.toISOString().slice(0, 10)],
+    [policy.weekly, weekKey],
+    [policy.monthly, date => date.toISOString().slice(0, 7)],
+  ];
+
+  for (const [limit, periodOf] of tiers) {
+    const periods = new Set<string>();
+    for (const backup of newestFirst) {
+      if (periods.size >= limit) break;
+
+      const period = periodOf(backup.createdAt);
+      if (!periods.has(period)) {
+        periods.add(period);
+        kept.add(backup.id);
+      }
+    }
+  }
+
+  return newestFirst.filter(backup => !kept.has(backup.id));
+}
+
+function weekKey(date: Date): string {
+  const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return monday.toISOString().slice(0, 10);
+}
@@ -0,0 +1,43 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { BullModule } from '@nestjs/bull';
+import { ConfigModule } from '@nestjs/config';
+
+// Entities
+import { DatabaseBackup } from '@database/entities/database-backup.entity';
+import { SystemConfig } from '@database/entities/system-config.entity';
+
+// Services
+import { BackupService } from './backup.service';
+import { EncryptionService } from '@common/services/encryption.service';
+
+// Controllers
+import { BackupController } from './controllers/backup.controller';
+
+// Processors
+import { BackupProcessor } from './processors/backup.processor';
+
+// External modules
+import { FilesModule } from '../files/files.module';
+import { AuditModule } from '../audit/audit.module';
+
+/**
+ * Backup Module
+ * Encrypted database backups with retention, object storage upload and
+ * admin endpoints to verify, download and restore them
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([DatabaseBackup, SystemConfig]),
+    BullModule.registerQueue({
+      name: 'backups',
+    }),
+    ConfigModule,
+    FilesModule,
+    AuditModule,
+  ],
+  controllers: [BackupController],
+  providers: [BackupService, EncryptionService, BackupProcessor],
+  exports: [BackupService],
+})
+export class BackupModule {}
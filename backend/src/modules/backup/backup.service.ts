@@ -1,341 +1,468 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Cron, CronExpression } from '@nestjs/schedule';
-import { DataSource } from 'typeorm';
+import { InjectRepository } from '@nestjs/typeorm';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { DataSource, Repository } from 'typeorm';
+import { ChildProcess, spawn } from 'child_process';
+import { createReadStream, createWriteStream } from 'fs';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as crypto from 'crypto';
-
-export interface BackupInfo {
-  id: string;
-  type: 'full' | 'incremental' | 'schema';
-  filename: string;
-  size: number;
-  checksum: string;
-  createdAt: Date;
-  status: 'pending' | 'in_progress' | 'completed' | 'failed';
-  error?: string;
-  metadata: {
-    tables: string[];
-    recordCount: number;
-    duration: number;
-  };
-}
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  DatabaseBackup,
+  BackupType,
+  BackupStatus,
+  BackupTrigger,
+} from '../../database/entities/database-backup.entity';
+import {
+  SystemConfig,
+  ConfigCategory,
+  ConfigType,
+} from '../../database/entities/system-config.entity';
+import { EncryptionService } from '../../common/services/encryption.service';
+import { S3Service } from '../files/services/s3.service';
+import { BackupRetentionPolicy, selectExpiredBackups } from './backup-retention';
+
+const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+const RETENTION_CONFIG_KEY = 'backup.retention';
+// Tail of pg_dump/pg_restore stderr kept for error messages
+const MAX_STDERR_LENGTH = 2000;
 
 export interface RestoreOptions {
-  backupId: string;
   targetDatabase?: string;
-  tableFilter?: string[];
-  skipData?: boolean;
-  skipSchema?: boolean;
+  tables?: string[];
+  schemaOnly?: boolean;
+  dataOnly?: boolean;
+  clean?: boolean;
+  confirmOverwrite?: boolean;
+}
+
+export interface RestoreResult {
+  success: boolean;
+  message: string;
+  targetDatabase: string;
+  duration: number;
 }
 
+export interface BackupVerification {
+  valid: boolean;
+  checksum: string;
+  expectedChecksum: string;
+  sizeBytes: number;
+  expectedSizeBytes: number;
+}
+
+/**
+ * Backup Service
+ * Dumps the database with pg_dump, encrypts the archive with a KMS data key,
+ * optionally uploads it to object storage and restores it with pg_restore.
+ * Backup metadata lives in the database_backups table
+ */
 @Injectable()
 export class BackupService {
   private readonly logger = new Logger(BackupService.name);
-  private backups: Map<string, BackupInfo> = new Map();
   private readonly backupDir: string;
+  private readonly encryptionEnabled: boolean;
+  private readonly uploadEnabled: boolean;
+  private readonly keepLocalCopy: boolean;
 
   constructor(
+    @InjectRepository(DatabaseBackup)
+    private backupRepository: Repository<DatabaseBackup>,
+    @InjectRepository(SystemConfig)
+    private systemConfigRepository: Repository<SystemConfig>,
+    @InjectQueue('backups')
+    private backupQueue: Queue,
     private configService: ConfigService,
     private dataSource: DataSource,
+    private encryptionService: EncryptionService,
+    private s3Service: S3Service,
   ) {
     this.backupDir = this.configService.get<string>('BACKUP_DIR') || './backups';
-    this.ensureBackupDirectory();
+    this.encryptionEnabled =
+      this.configService.get<string>('BACKUP_ENCRYPTION_ENABLED') !== 'false';
+    this.uploadEnabled = this.configService.get<string>('BACKUP_S3_UPLOAD') === 'true';
+    this.keepLocalCopy =
+      !this.uploadEnabled || this.configService.get<string>('BACKUP_KEEP_LOCAL') !== 'false';
   }
 
-  private async ensureBackupDirectory(): Promise<void> {
-    try {
-      await fs.access(this.backupDir);
-    } catch {
-      await fs.mkdir(this.backupDir, { recursive: true });
-      this.logger.log(`Created backup directory: ${this.backupDir}`);
-    }
+  /**
+   * Record a pending backup and queue it for the backups processor
+   */
+  async requestBackup(
+    type: BackupType,
+    trigger: BackupTrigger,
+    triggeredById?: string,
+  ): Promise<DatabaseBackup> {
+    const backup = await this.backupRepository.save(
+      this.backupRepository.create({
+        type,
+        trigger,
+        triggeredById,
+        filename: `${type}_backup_${new Date().toISOString().replace(/[:.]/g, '-')}.dump${
+          this.encryptionEnabled ? '.enc' : ''
+        }`,
+      }),
+    );
+
+    await this.backupQueue.add(
+      'create',
+      { backupId: backup.id },
+      { jobId: backup.id, attempts: 1 },
+    );
+    this.logger.log(`Queued ${type} backup ${backup.id} (${trigger})`);
+
+    return backup;
   }
 
-  // Full database backup
-  async createFullBackup(): Promise<BackupInfo> {
-    const backupId = this.generateBackupId();
-    const filename = `full_backup_${new Date().toISOString().replace(/[:.]/g, '-')}.sql`;
-    const filepath = path.join(this.backupDir, filename);
-
-    const backup: BackupInfo = {
-      id: backupId,
-      type: 'full',
-      filename,
-      size: 0,
-      checksum: '',
-      createdAt: new Date(),
-      status: 'pending',
-      metadata: {
-        tables: [],
-        recordCount: 0,
-        duration: 0,
-      },
-    };
+  /**
+   * Dump, encrypt and store a pending backup. Called by the backups processor
+   */
+  async runBackup(backupId: string): Promise<DatabaseBackup | null> {
+    const backup = await this.backupRepository.findOne({ where: { id: backupId } });
+    if (!backup || backup.status !== BackupStatus.PENDING) {
+      this.logger.warn(`Skipping backup ${backupId}: not pending`);
+      return backup;
+    }
+
+    backup.status = BackupStatus.IN_PROGRESS;
+    await this.backupRepository.save(backup);
 
-    this.backups.set(backupId, backup);
+    const startTime = Date.now();
+    const localPath = path.join(this.backupDir, backup.filename);
 
     try {
-      backup.status = 'in_progress';
-      const startTime = Date.now();
-
-      // Get database configuration
-      const dbConfig = this.dataSource.options;
-      const dbName = dbConfig.database as string;
-      const host = (dbConfig as any).host || 'localhost';
-      const port = (dbConfig as any).port || 5432;
-      const username = (dbConfig as any).username;
-      const password = (dbConfig as any).password;
-
-      // Create pg_dump command
-      const dumpCommand = `PGPASSWORD="${password}" pg_dump -h ${host} -p ${port} -U ${username} -d ${dbName} --verbose --no-owner --no-privileges`;
-
-      // Execute backup
-      const { exec } = require('child_process');
-      await new Promise<void>((resolve, reject) => {
-        exec(`${dumpCommand} > ${filepath}`, (error: any, stdout: any, stderr: any) => {
-          if (error) {
-            reject(error);
-          } else {
-            resolve();
-          }
-        });
-      });
+      await fs.mkdir(this.backupDir, { recursive: true });
+
+      let cipher: crypto.CipherGCM | undefined;
+      if (this.encryptionEnabled) {
+        const dataKey = await this.encryptionService.generateDataKey({ backupId: backup.id });
+        const iv = crypto.randomBytes(12);
+        cipher = crypto.createCipheriv(ENCRYPTION_ALGORITHM, dataKey.plaintextKey, iv);
+        backup.encryption = {
+          wrappedKey: dataKey.wrappedKey,
+          keyId: dataKey.keyId,
+          algorithm: ENCRYPTION_ALGORITHM,
+          iv: iv.toString('base64'),
+          authTag: '',
+        };
+      }
+
+      const { args, env } = this.connectionArgs(this.dataSource.options.database as string);
+      const dump = this.spawnTool(
+        'pg_dump',
+        [
+          ...args,
+          '--format=custom',
+          '--no-owner',
+          '--no-privileges',
+          ...(backup.type === BackupType.SCHEMA ? ['--schema-only'] : []),
+        ],
+        env,
+      );
+
+      const hash = crypto.createHash('sha256');
+      await this.settle(
+        pipeline([
+          dump.child.stdout!,
+          ...(cipher ? [cipher] : []),
+          this.hashStream(hash),
+          createWriteStream(localPath),
+        ]),
+        dump.exited,
+      );
+
+      if (cipher) {
+        backup.encryption!.authTag = cipher.getAuthTag().toString('base64');
+      }
 
-      // Get file stats
-      const stats = await fs.stat(filepath);
-      backup.size = stats.size;
+      const stats = await fs.stat(localPath);
+      backup.sizeBytes = stats.size;
+      backup.checksum = hash.digest('hex');
+      backup.localPath = localPath;
 
-      // Calculate checksum
-      backup.checksum = await this.calculateChecksum(filepath);
+      if (this.uploadEnabled) {
+        const { storagePath } = await this.s3Service.uploadFile(createReadStream(localPath), {
+          filename: backup.filename,
+          mimeType: 'application/octet-stream',
+          sizeBytes: stats.size,
+        });
+        backup.storageKey = storagePath;
 
-      // Get metadata
-      backup.metadata = await this.getBackupMetadata();
-      backup.metadata.duration = Date.now() - startTime;
-      backup.status = 'completed';
+        if (!this.keepLocalCopy) {
+          await fs.unlink(localPath);
+          backup.localPath = null;
+        }
+      }
 
-      this.logger.log(`Full backup completed: ${filename} (${this.formatBytes(backup.size)})`);
+      Object.assign(backup, await this.getBackupMetadata());
+      backup.status = BackupStatus.COMPLETED;
+      backup.completedAt = new Date();
+      backup.durationMs = Date.now() - startTime;
+      await this.backupRepository.save(backup);
 
+      this.logger.log(
+        `${backup.type} backup completed: ${backup.filename} (${this.formatBytes(stats.size)})`,
+      );
     } catch (error) {
-      backup.status = 'failed';
+      backup.status = BackupStatus.FAILED;
       backup.error = error.message;
-      this.logger.error(`Full backup failed: ${error.message}`);
+      backup.durationMs = Date.now() - startTime;
+      backup.localPath = null;
+      await this.backupRepository.save(backup);
+      await fs.rm(localPath, { force: true });
+
+      this.logger.error(`${backup.type} backup ${backup.id} failed: ${error.message}`);
     }
 
     return backup;
   }
 
-  // Schema-only backup
-  async createSchemaBackup(): Promise<BackupInfo> {
-    const backupId = this.generateBackupId();
-    const filename = `schema_backup_${new Date().toISOString().replace(/[:.]/g, '-')}.sql`;
-    const filepath = path.join(this.backupDir, filename);
-
-    const backup: BackupInfo = {
-      id: backupId,
-      type: 'schema',
-      filename,
-      size: 0,
-      checksum: '',
-      createdAt: new Date(),
-      status: 'pending',
-      metadata: {
-        tables: [],
-        recordCount: 0,
-        duration: 0,
+  async listBackups(
+    filters: { type?: BackupType; status?: BackupStatus },
+    page = 1,
+    limit = 20,
+  ): Promise<{ backups: DatabaseBackup[]; total: number }> {
+    const [backups, total] = await this.backupRepository.findAndCount({
+      where: {
+        ...(filters.type && { type: filters.type }),
+        ...(filters.status && { status: filters.status }),
       },
-    };
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
 
-    this.backups.set(backupId, backup);
+    return { backups, total };
+  }
 
-    try {
-      backup.status = 'in_progress';
-      const startTime = Date.now();
-
-      // Get database configuration
-      const dbConfig = this.dataSource.options;
-      const dbName = dbConfig.database as string;
-      const host = (dbConfig as any).host || 'localhost';
-      const port = (dbConfig as any).port || 5432;
-      const username = (dbConfig as any).username;
-      const password = (dbConfig as any).password;
-
-      // Create pg_dump command for schema only
-      const dumpCommand = `PGPASSWORD="${password}" pg_dump -h ${host} -p ${port} -U ${username} -d ${dbName} --schema-only --verbose --no-owner --no-privileges`;
-
-      // Execute backup
-      const { exec } = require('child_process');
-      await new Promise<void>((resolve, reject) => {
-        exec(`${dumpCommand} > ${filepath}`, (error: any, stdout: any, stderr: any) => {
-          if (error) {
-            reject(error);
-          } else {
-            resolve();
-          }
-        });
-      });
+  async getBackup(backupId: string): Promise<DatabaseBackup> {
+    const backup = await this.backupRepository.findOne({ where: { id: backupId } });
+    if (!backup) {
+      throw new NotFoundException('Backup not found');
+    }
 
-      // Get file stats
-      const stats = await fs.stat(filepath);
-      backup.size = stats.size;
+    return backup;
+  }
 
-      // Calculate checksum
-      backup.checksum = await this.calculateChecksum(filepath);
+  /**
+   * Recompute the checksum of the stored archive and compare it with the one
+   * recorded when the backup was taken
+   */
+  async verifyBackup(backupId: string): Promise<BackupVerification> {
+    const backup = await this.getBackup(backupId);
+    if (!backup.isRestorable()) {
+      throw new BadRequestException('Only completed backups with a stored archive can be verified');
+    }
+
+    const hash = crypto.createHash('sha256');
+    let sizeBytes = 0;
+    for await (const chunk of await this.openArchive(backup)) {
+      hash.update(chunk);
+      sizeBytes += chunk.length;
+    }
 
-      // Get metadata
-      backup.metadata = await this.getBackupMetadata();
-      backup.metadata.duration = Date.now() - startTime;
-      backup.status = 'completed';
+    const verification: BackupVerification = {
+      valid: false,
+      checksum: hash.digest('hex'),
+      expectedChecksum: backup.checksum,
+      sizeBytes,
+      expectedSizeBytes: Number(backup.sizeBytes),
+    };
+    verification.valid =
+      verification.checksum === verification.expectedChecksum &&
+      verification.sizeBytes === verification.expectedSizeBytes;
+
+    if (verification.valid) {
+      await this.backupRepository.update(backup.id, { verifiedAt: new Date() });
+    } else {
+      this.logger.warn(`Backup ${backup.id} failed verification`);
+    }
 
-      this.logger.log(`Schema backup completed: ${filename} (${this.formatBytes(backup.size)})`);
+    return verification;
+  }
 
-    } catch (error) {
-      backup.status = 'failed';
-      backup.error = error.message;
-      this.logger.error(`Schema backup failed: ${error.message}`);
+  /**
+   * Decrypted pg_dump archive, ready for pg_restore
+   */
+  async openDownload(backupId: string): Promise<{ stream: Readable; filename: string }> {
+    const backup = await this.getBackup(backupId);
+    const verification = await this.verifyBackup(backupId);
+    if (!verification.valid) {
+      throw new BadRequestException('Backup failed checksum verification');
     }
 
-    return backup;
+    return {
+      stream: await this.openDecryptedArchive(backup),
+      filename: backup.filename.replace(/\.enc$/, ''),
+    };
   }
 
-  // Restore from backup
-  async restoreFromBackup(options: RestoreOptions): Promise<{
-    success: boolean;
-    message: string;
-    duration: number;
-  }> {
-    const backup = this.backups.get(options.backupId);
-    if (!backup) {
-      throw new Error(`Backup not found: ${options.backupId}`);
+  /**
+   * Restore a backup into the target database (the live one by default) with
+   * pg_restore. The target database must already exist
+   */
+  async restoreBackup(backupId: string, options: RestoreOptions): Promise<RestoreResult> {
+    const backup = await this.getBackup(backupId);
+    const currentDatabase = this.dataSource.options.database as string;
+    const targetDatabase = options.targetDatabase || currentDatabase;
+
+    if (!backup.isRestorable()) {
+      throw new BadRequestException('Backup is not completed or its archive was removed');
+    }
+    if (targetDatabase === currentDatabase && !options.confirmOverwrite) {
+      throw new BadRequestException('Restoring into the live database requires confirmOverwrite');
+    }
+    if (options.schemaOnly && options.dataOnly) {
+      throw new BadRequestException('schemaOnly and dataOnly cannot be combined');
+    }
+    if (options.dataOnly && backup.type === BackupType.SCHEMA) {
+      throw new BadRequestException('Schema backups contain no data');
     }
 
-    if (backup.status !== 'completed') {
-      throw new Error(`Backup is not completed: ${backup.status}`);
+    const verification = await this.verifyBackup(backupId);
+    if (!verification.valid) {
+      throw new BadRequestException('Backup failed checksum verification');
     }
 
     const startTime = Date.now();
-    const filepath = path.join(this.backupDir, backup.filename);
-
     try {
-      // Verify backup file exists and checksum
-      await this.verifyBackup(backup);
-
-      // Get database configuration
-      const dbConfig = this.dataSource.options;
-      const targetDb = options.targetDatabase || (dbConfig.database as string);
-      const host = (dbConfig as any).host || 'localhost';
-      const port = (dbConfig as any).port || 5432;
-      const username = (dbConfig as any).username;
-      const password = (dbConfig as any).password;
-
-      // Create restore command
-      let restoreCommand = `PGPASSWORD="${password}" psql -h ${host} -p ${port} -U ${username} -d ${targetDb}`;
-
-      // Add options
-      if (options.skipData) {
-        // This would require parsing the SQL file to skip INSERT statements
-        this.logger.warn('Skip data option not fully implemented');
-      }
-
-      // Execute restore
-      const { exec } = require('child_process');
-      await new Promise<void>((resolve, reject) => {
-        exec(`${restoreCommand} < ${filepath}`, (error: any, stdout: any, stderr: any) => {
-          if (error) {
-            reject(error);
-          } else {
-            resolve();
-          }
-        });
-      });
+      const { args, env } = this.connectionArgs(targetDatabase);
+      const archive = await this.openDecryptedArchive(backup);
+      const restore = this.spawnTool(
+        'pg_restore',
+        [
+          ...args,
+          '--no-owner',
+          '--no-privileges',
+          '--exit-on-error',
+          ...(options.clean ? ['--clean', '--if-exists'] : []),
+          ...(options.schemaOnly ? ['--schema-only'] : []),
+          ...(options.dataOnly ? ['--data-only'] : []),
+          ...(options.tables || []).map(table => `--table=${table}`),
+        ],
+        env,
+        true,
+      );
+
+      await this.settle(pipeline(archive, restore.child.stdin!), restore.exited);
 
       const duration = Date.now() - startTime;
-      this.logger.log(`Database restored successfully from ${backup.filename} in ${duration}ms`);
+      this.logger.log(`Restored backup ${backup.id} into ${targetDatabase} in ${duration}ms`);
 
       return {
         success: true,
-        message: `Database restored successfully from ${backup.filename}`,
+        message: `Restored ${backup.filename} into ${targetDatabase}`,
+        targetDatabase,
         duration,
       };
-
     } catch (error) {
-      this.logger.error(`Database restore failed: ${error.message}`);
+      this.logger.error(`Restore of backup ${backup.id} failed: ${error.message}`);
+
       return {
         success: false,
         message: `Database restore failed: ${error.message}`,
+        targetDatabase,
         duration: Date.now() - startTime,
       };
     }
   }
 
-  // Verify backup integrity
-  async verifyBackup(backup: BackupInfo): Promise<boolean> {
-    const filepath = path.join(this.backupDir, backup.filename);
+  async deleteBackup(backupId: string): Promise<void> {
+    const backup = await this.getBackup(backupId);
 
-    try {
-      // Check if file exists
-      await fs.access(filepath);
+    if (backup.localPath) {
+      await fs.rm(backup.localPath, { force: true });
+    }
+    if (backup.storageKey) {
+      await this.s3Service.deleteFile(backup.storageKey);
+    }
 
-      // Verify checksum
-      const currentChecksum = await this.calculateChecksum(filepath);
-      if (currentChecksum !== backup.checksum) {
-        throw new Error('Backup file checksum mismatch');
-      }
+    await this.backupRepository.remove(backup);
+    this.logger.log(`Backup deleted: ${backup.filename}`);
+  }
 
-      // Check file size
-      const stats = await fs.stat(filepath);
-      if (stats.size !== backup.size) {
-        throw new Error('Backup file size mismatch');
-      }
+  async getRetentionPolicy(): Promise<BackupRetentionPolicy> {
+    const defaults: BackupRetentionPolicy = {
+      daily: Number(this.configService.get('BACKUP_RETENTION_DAILY', 7)),
+      weekly: Number(this.configService.get('BACKUP_RETENTION_WEEKLY', 4)),
+      monthly: Number(this.configService.get('BACKUP_RETENTION_MONTHLY', 6)),
+    };
 
-      return true;
-    } catch (error) {
-      this.logger.error(`Backup verification failed: ${error.message}`);
-      return false;
-    }
-  }
+    const config = await this.systemConfigRepository.findOne({
+      where: { key: RETENTION_CONFIG_KEY, isActive: true },
+    });
 
-  // List all backups
-  getBackups(): BackupInfo[] {
-    return Array.from(this.backups.values()).sort(
-      (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
-    );
+    return { ...defaults, ...(config?.getParsedValue() || {}) };
   }
 
-  // Get backup by ID
-  getBackup(backupId: string): BackupInfo | null {
-    return this.backups.get(backupId) || null;
+  async updateRetentionPolicy(
+    policy: BackupRetentionPolicy,
+    userId?: string,
+  ): Promise<BackupRetentionPolicy> {
+    let config = await this.systemConfigRepository.findOne({
+      where: { key: RETENTION_CONFIG_KEY },
+    });
+
+    if (config) {
+      config.setValue(policy, userId);
+    } else {
+      config = this.systemConfigRepository.create({
+        key: RETENTION_CONFIG_KEY,
+        name: 'Backup retention',
+        description: 'Backups kept per day, week and month',
+        category: ConfigCategory.SYSTEM,
+        type: ConfigType.JSON,
+        value: JSON.stringify(policy),
+        updatedBy: userId,
+      });
+    }
+
+    await this.systemConfigRepository.save(config);
+    return this.getRetentionPolicy();
   }
 
-  // Delete backup
-  async deleteBackup(backupId: string): Promise<void> {
-    const backup = this.backups.get(backupId);
-    if (!backup) {
-      throw new Error(`Backup not found: ${backupId}`);
-    }
+  /**
+   * Delete completed backups the retention policy no longer keeps. Full and
+   * schema backups are counted separately
+   */
+  async applyRetention(): Promise<number> {
+    const policy = await this.getRetentionPolicy();
+    let deleted = 0;
+
+    for (const type of Object.values(BackupType)) {
+      const backups = await this.backupRepository.find({
+        where: { type, status: BackupStatus.COMPLETED },
+        select: ['id', 'createdAt'],
+      });
 
-    const filepath = path.join(this.backupDir, backup.filename);
+      for (const backup of selectExpiredBackups(backups, policy)) {
+        try {
+          await this.deleteBackup(backup.id);
+          deleted++;
+        } catch (error) {
+          this.logger.error(`Failed to delete expired backup ${backup.id}: ${error.message}`);
+        }
+      }
+    }
 
-    try {
-      await fs.unlink(filepath);
-      this.backups.delete(backupId);
-      this.logger.log(`Backup deleted: ${backup.filename}`);
-    } catch (error) {
-      this.logger.error(`Failed to delete backup: ${error.message}`);
-      throw error;
+    if (deleted > 0) {
+      this.logger.log(`Retention removed ${deleted} backups`);
     }
+
+    return deleted;
   }
 
   // Scheduled backups
   @Cron(CronExpression.EVERY_DAY_AT_2AM)
   async scheduledFullBackup(): Promise<void> {
     try {
-      this.logger.log('Starting scheduled full backup...');
-      await this.createFullBackup();
-      
-      // Clean up old backups (keep last 7 days)
-      await this.cleanupOldBackups(7);
+      this.logger.log('Queueing scheduled full backup...');
+      await this.requestBackup(BackupType.FULL, BackupTrigger.SCHEDULED);
     } catch (error) {
       this.logger.error(`Scheduled backup failed: ${error.message}`);
     }
@@ -344,105 +471,134 @@ export class BackupService {
   @Cron(CronExpression.EVERY_WEEK)
   async scheduledSchemaBackup(): Promise<void> {
     try {
-      this.logger.log('Starting scheduled schema backup...');
-      await this.createSchemaBackup();
+      this.logger.log('Queueing scheduled schema backup...');
+      await this.requestBackup(BackupType.SCHEMA, BackupTrigger.SCHEDULED);
     } catch (error) {
       this.logger.error(`Scheduled schema backup failed: ${error.message}`);
     }
   }
 
-  // Cleanup old backups
-  async cleanupOldBackups(keepDays: number): Promise<void> {
-    const cutoffDate = new Date(Date.now() - keepDays * 24 * 60 * 60 * 1000);
-    const backupsToDelete: string[] = [];
+  // Private helper methods
+  private connectionArgs(database: string): { args: string[]; env: NodeJS.ProcessEnv } {
+    const options = this.dataSource.options as any;
 
-    for (const [id, backup] of this.backups) {
-      if (backup.createdAt < cutoffDate && backup.status === 'completed') {
-        backupsToDelete.push(id);
-      }
-    }
+    return {
+      args: [
+        `--host=${options.host || 'localhost'}`,
+        `--port=${options.port || 5432}`,
+        `--username=${options.username}`,
+        `--dbname=${database}`,
+      ],
+      env: { ...process.env, PGPASSWORD: options.password },
+    };
+  }
 
-    for (const id of backupsToDelete) {
-      try {
-        await this.deleteBackup(id);
-      } catch (error) {
-        this.logger.error(`Failed to cleanup backup ${id}: ${error.message}`);
-      }
-    }
+  /**
+   * Spawn a Postgres client tool without a shell; `exited` rejects with the
+   * tail of stderr when it exits non-zero
+   */
+  private spawnTool(
+    command: string,
+    args: string[],
+    env: NodeJS.ProcessEnv,
+    pipeStdin = false,
+  ): { child: ChildProcess; exited: Promise<void> } {
+    const child = spawn(command, args, {
+      env,
+      stdio: [pipeStdin ? 'pipe' : 'ignore', 'pipe', 'pipe'],
+    });
+
+    let stderr = '';
+    child.stderr!.on('data', chunk => {
+      stderr = (stderr + chunk).slice(-MAX_STDERR_LENGTH);
+    });
+
+    const exited = new Promise<void>((resolve, reject) => {
+      child.on('error', reject);
+      child.on('close', code =>
+        code === 0
+          ? resolve()
+          : reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`)),
+      );
+    });
+
+    return { child, exited };
+  }
 
-    if (backupsToDelete.length > 0) {
-      this.logger.log(`Cleaned up ${backupsToDelete.length} old backups`);
-    }
+  /**
+   * Wait for a stream pipeline and the process feeding or draining it. The
+   * process error wins, since a broken pipe is only its symptom
+   */
+  private async settle(piped: Promise<void>, exited: Promise<void>): Promise<void> {
+    const [pipeResult, exitResult] = await Promise.allSettled([piped, exited]);
+    if (exitResult.status === 'rejected') throw exitResult.reason;
+    if (pipeResult.status === 'rejected') throw pipeResult.reason;
   }
 
-  // Export backup to external storage
-  async exportBackup(backupId: string, destination: string): Promise<void> {
-    const backup = this.backups.get(backupId);
-    if (!backup) {
-      throw new Error(`Backup not found: ${backupId}`);
-    }
+  private hashStream(hash: crypto.Hash): Transform {
+    return new Transform({
+      transform(chunk, _encoding, callback) {
+        hash.update(chunk);
+        callback(null, chunk);
+      },
+    });
+  }
 
-    const sourcePath = path.join(this.backupDir, backup.filename);
-    const destPath = path.join(destination, backup.filename);
+  private async openArchive(backup: DatabaseBackup): Promise<Readable> {
+    if (backup.localPath) {
+      try {
+        await fs.access(backup.localPath);
+        return createReadStream(backup.localPath);
+      } catch {
+        // Fall back to the uploaded copy
+      }
+    }
 
-    try {
-      await fs.copyFile(sourcePath, destPath);
-      this.logger.log(`Backup exported to: ${destPath}`);
-    } catch (error) {
-      this.logger.error(`Failed to export backup: ${error.message}`);
-      throw error;
+    if (backup.storageKey) {
+      return this.s3Service.getObjectStream(backup.storageKey);
     }
-  }
 
-  // Private helper methods
-  private generateBackupId(): string {
-    return `backup_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
+    throw new NotFoundException('Backup archive is missing');
   }
 
-  private async calculateChecksum(filepath: string): Promise<string> {
-    const fileBuffer = await fs.readFile(filepath);
-    return crypto.createHash('sha256').update(fileBuffer).digest('hex');
+  private async openDecryptedArchive(backup: DatabaseBackup): Promise<Readable> {
+    const archive = await this.openArchive(backup);
+    if (!backup.encryption) {
+      return archive;
+    }
+
+    const key = await this.encryptionService.decryptDataKey(backup.encryption.wrappedKey, {
+      backupId: backup.id,
+    });
+    const decipher = crypto.createDecipheriv(
+      backup.encryption.algorithm,
+      key,
+      Buffer.from(backup.encryption.iv, 'base64'),
+    ) as crypto.DecipherGCM;
+    decipher.setAuthTag(Buffer.from(backup.encryption.authTag, 'base64'));
+
+    archive.on('error', error => decipher.destroy(error));
+    return archive.pipe(decipher);
   }
 
-  private async getBackupMetadata(): Promise<{
-    tables: string[];
-    recordCount: number;
-    duration: number;
-  }> {
+  private async getBackupMetadata(): Promise<{ tables: string[]; recordCount: number }> {
     try {
-      // Get table list
-      const tablesResult = await this.dataSource.query(`
-        SELECT table_name 
-        FROM information_schema.tables 
-        WHERE table_schema = 'public' 
-        ORDER BY table_name
+      // Planner statistics; exact counts would scan every table
+      const rows: Array<{ table_name: string; row_estimate: string }> = await this.dataSource
+        .query(`
+        SELECT relname AS table_name, n_live_tup AS row_estimate
+        FROM pg_stat_user_tables
+        WHERE schemaname = 'public'
+        ORDER BY relname
       `);
 
-      const tables = tablesResult.map((row: any) => row.table_name);
-
-      // Get total record count
-      let totalRecords = 0;
-      for (const table of tables) {
-        try {
-          const countResult = await this.dataSource.query(`SELECT COUNT(*) as count FROM "${table}"`);
-          totalRecords += parseInt(countResult[0].count);
-        } catch (error) {
-          // Skip tables that can't be counted
-        }
-      }
-
       return {
-        tables,
-        recordCount: totalRecords,
-        duration: 0, // Will be set by caller
+        tables: rows.map(row => row.table_name),
+        recordCount: rows.reduce((total, row) => total + Number(row.row_estimate), 0),
       };
     } catch (error) {
       this.logger.error(`Failed to get backup metadata: ${error.message}`);
-      return {
-        tables: [],
-        recordCount: 0,
-        duration: 0,
-      };
+      return { tables: [], recordCount: 0 };
     }
   }
 
@@ -462,9 +618,11 @@ export class BackupService {
     estimatedRTO: string; // Recovery Time Objective
     estimatedRPO: string; // Recovery Point Objective
   }> {
+    const policy = await this.getRetentionPolicy();
+
     return {
       backupStrategy: 'Daily full backups with weekly schema backups',
-      retentionPolicy: 'Keep daily backups for 7 days, weekly backups for 4 weeks',
+      retentionPolicy: `Keep the latest backup of the last ${policy.daily} days, ${policy.weekly} weeks and ${policy.monthly} months`,
       recoverySteps: [
         '1. Identify the most recent valid backup',
         '2. Verify backup integrity using checksum',
@@ -478,7 +636,7 @@ export class BackupService {
         '10. Monitor system health',
       ],
       estimatedRTO: '< 30 minutes', // Time to restore service
-      estimatedRPO: '< 24 hours',   // Maximum data loss
+      estimatedRPO: '< 24 hours', // Maximum data loss
     };
   }
 
@@ -487,18 +645,33 @@ export class BackupService {
     steps: Array<{ step: string; status: 'success' | 'failed'; duration: number; error?: string }>;
     totalDuration: number;
   }> {
-    const steps: Array<{ step: string; status: 'success' | 'failed'; duration: number; error?: string }> = [];
+    const steps: Array<{
+      step: string;
+      status: 'success' | 'failed';
+      duration: number;
+      error?: string;
+    }> = [];
     const startTime = Date.now();
+    let backup: DatabaseBackup | null = null;
 
-    // Step 1: Create test backup
+    // Step 1: Create test backup, inline rather than queued
     try {
       const stepStart = Date.now();
-      const backup = await this.createSchemaBackup(); // Use schema backup for testing
+      const pending = await this.backupRepository.save(
+        this.backupRepository.create({
+          type: BackupType.SCHEMA,
+          trigger: BackupTrigger.MANUAL,
+          filename: `dr_test_${new Date().toISOString().replace(/[:.]/g, '-')}.dump${
+            this.encryptionEnabled ? '.enc' : ''
+          }`,
+        }),
+      );
+      backup = await this.runBackup(pending.id);
       steps.push({
         step: 'Create test backup',
-        status: backup.status === 'completed' ? 'success' : 'failed',
+        status: backup?.status === BackupStatus.COMPLETED ? 'success' : 'failed',
         duration: Date.now() - stepStart,
-        error: backup.error,
+        error: backup?.error,
       });
     } catch (error) {
       steps.push({
@@ -510,30 +683,31 @@ export class BackupService {
     }
 
     // Step 2: Verify backup integrity
-    try {
+    if (backup?.status === BackupStatus.COMPLETED) {
       const stepStart = Date.now();
-      const latestBackup = this.getBackups().find(b => b.type === 'schema' && b.status === 'completed');
-      if (latestBackup) {
-        const isValid = await this.verifyBackup(latestBackup);
+      try {
+        const verification = await this.verifyBackup(backup.id);
         steps.push({
           step: 'Verify backup integrity',
-          status: isValid ? 'success' : 'failed',
+          status: verification.valid ? 'success' : 'failed',
           duration: Date.now() - stepStart,
         });
+      } catch (error) {
+        steps.push({
+          step: 'Verify backup integrity',
+          status: 'failed',
+          duration: Date.now() - stepStart,
+          error: error.message,
+        });
       }
-    } catch (error) {
-      steps.push({
-        step: 'Verify backup integrity',
-        status: 'failed',
-        duration: Date.now() - startTime,
-        error: error.message,
-      });
     }
 
     const success = steps.every(s => s.status === 'success');
     const totalDuration = Date.now() - startTime;
 
-    this.logger.log(`Disaster recovery test ${success ? 'passed' : 'failed'} in ${totalDuration}ms`);
+    this.logger.log(
+      `Disaster recovery test ${success ? 'passed' : 'failed'} in ${totalDuration}ms`,
+    );
 
     return {
       success,
@@ -0,0 +1,276 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Res,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  StreamableFile,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { Response } from 'express';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { AdminGuard } from '../../../common/guards/roles.guard';
+import { AdminOnly } from '../../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { User } from '../../../database/entities/user.entity';
+import {
+  BackupTrigger,
+  BackupType,
+  DatabaseBackup,
+} from '../../../database/entities/database-backup.entity';
+import { AuditService } from '../../audit/audit.service';
+import { BackupService } from '../backup.service';
+import {
+  BackupRetentionDto,
+  CreateBackupDto,
+  ListBackupsQueryDto,
+  RestoreBackupDto,
+} from '../dto/backup.dto';
+
+@ApiTags('Admin - Backups')
+@Controller('admin/backups')
+@UseGuards(JwtAuthGuard, AdminGuard)
+@AdminOnly()
+@ApiBearerAuth('JWT-auth')
+export class BackupController {
+  constructor(
+    private readonly backupService: BackupService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List database backups' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Backups retrieved successfully' })
+  async listBackups(@Query() query: ListBackupsQueryDto): Promise<any> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const { backups, total } = await this.backupService.listBackups(
+      { type: query.type, status: query.status },
+      page,
+      limit,
+    );
+
+    return {
+      success: true,
+      backups: backups.map(backup => this.toResponse(backup)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Trigger a backup' })
+  @ApiResponse({ status: HttpStatus.ACCEPTED, description: 'Backup queued' })
+  async createBackup(@Body() dto: CreateBackupDto, @CurrentUser() user: User): Promise<any> {
+    const backup = await this.backupService.requestBackup(
+      dto.type || BackupType.FULL,
+      BackupTrigger.MANUAL,
+      user.id,
+    );
+
+    await this.auditService.log({
+      actorId: user.id,
+      action: 'backup.create',
+      resourceType: 'database_backup',
+      resourceId: backup.id,
+      metadata: { type: backup.type },
+    });
+
+    return {
+      success: true,
+      backup: this.toResponse(backup),
+    };
+  }
+
+  @Get('retention')
+  @ApiOperation({ summary: 'Get the backup retention policy' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Retention policy retrieved' })
+  async getRetentionPolicy(): Promise<any> {
+    return {
+      success: true,
+      retention: await this.backupService.getRetentionPolicy(),
+    };
+  }
+
+  @Put('retention')
+  @ApiOperation({ summary: 'Update the backup retention policy' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Retention policy updated' })
+  async updateRetentionPolicy(
+    @Body() dto: BackupRetentionDto,
+    @CurrentUser() user: User,
+  ): Promise<any> {
+    const retention = await this.backupService.updateRetentionPolicy(
+      { daily: dto.daily, weekly: dto.weekly, monthly: dto.monthly },
+      user.id,
+    );
+
+    return {
+      success: true,
+      retention,
+    };
+  }
+
+  @Post('retention/apply')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete backups the retention policy no longer keeps' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Expired backups deleted' })
+  async applyRetention(): Promise<any> {
+    return {
+      success: true,
+      deleted: await this.backupService.applyRetention(),
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a backup' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Backup retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Backup not found' })
+  @ApiParam({ name: 'id', description: 'Backup ID' })
+  async getBackup(@Param('id', ParseUUIDPipe) id: string): Promise<any> {
+    const backup = await this.backupService.getBackup(id);
+
+    return {
+      success: true,
+      backup: this.toResponse(backup),
+    };
+  }
+
+  @Get(':id/download')
+  @ApiOperation({ summary: 'Download the decrypted pg_dump archive' })
+  @ApiProduces('application/octet-stream')
+  @ApiResponse({ status: HttpStatus.OK, description: 'Archive stream' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Backup failed verification' })
+  @ApiParam({ name: 'id', description: 'Backup ID' })
+  async downloadBackup(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile> {
+    const { stream, filename } = await this.backupService.openDownload(id);
+
+    await this.auditService.log({
+      actorId: user.id,
+      action: 'backup.download',
+      resourceType: 'database_backup',
+      resourceId: id,
+    });
+
+    res.set({
+      'Content-Type': 'application/octet-stream',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    });
+
+    return new StreamableFile(stream);
+  }
+
+  @Post(':id/verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Verify the checksum of a stored backup' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Verification result' })
+  @ApiParam({ name: 'id', description: 'Backup ID' })
+  async verifyBackup(@Param('id', ParseUUIDPipe) id: string): Promise<any> {
+    return {
+      success: true,
+      verification: await this.backupService.verifyBackup(id),
+    };
+  }
+
+  @Post(':id/restore')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Restore a backup into a target database' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Restore result' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Invalid restore request' })
+  @ApiParam({ name: 'id', description: 'Backup ID' })
+  async restoreBackup(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: RestoreBackupDto,
+    @CurrentUser() user: User,
+  ): Promise<any> {
+    const result = await this.backupService.restoreBackup(id, dto);
+
+    await this.auditService.log({
+      actorId: user.id,
+      action: 'backup.restore',
+      resourceType: 'database_backup',
+      resourceId: id,
+      metadata: {
+        targetDatabase: result.targetDatabase,
+        tables: dto.tables,
+        schemaOnly: dto.schemaOnly,
+        dataOnly: dto.dataOnly,
+        clean: dto.clean,
+        success: result.success,
+      },
+    });
+
+    return result;
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a backup and its stored archive' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Backup deleted' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Backup not found' })
+  @ApiParam({ name: 'id', description: 'Backup ID' })
+  async deleteBackup(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+  ): Promise<any> {
+    await this.backupService.deleteBackup(id);
+
+    await this.auditService.log({
+      actorId: user.id,
+      action: 'backup.delete',
+      resourceType: 'database_backup',
+      resourceId: id,
+    });
+
+    return {
+      success: true,
+      message: 'Backup deleted successfully',
+    };
+  }
+
+  // Wrapped keys and local paths stay server-side
+  private toResponse(backup: DatabaseBackup) {
+    return {
+      id: backup.id,
+      type: backup.type,
+      status: backup.status,
+      trigger: backup.trigger,
+      filename: backup.filename,
+      sizeBytes: Number(backup.sizeBytes),
+      checksum: backup.checksum,
+      encrypted: !!backup.encryption,
+      storedLocally: !!backup.localPath,
+      storedInObjectStorage: !!backup.storageKey,
+      tables: backup.tables,
+      recordCount: backup.recordCount,
+      durationMs: backup.durationMs,
+      error: backup.error,
+      triggeredById: backup.triggeredById,
+      createdAt: backup.createdAt,
+      completedAt: backup.completedAt,
+      verifiedAt: backup.verifiedAt,
+    };
+  }
+}
@@ -0,0 +1,116 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { BackupStatus, BackupType } from '@database/entities/database-backup.entity';
+
+// Plain identifiers only; values are passed to pg_restore as arguments
+const DATABASE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]{0,62}$/;
+const TABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,62}$/;
+
+export class CreateBackupDto {
+  @ApiPropertyOptional({ enum: BackupType, default: BackupType.FULL })
+  @IsOptional()
+  @IsEnum(BackupType)
+  type?: BackupType;
+}
+
+export class ListBackupsQueryDto {
+  @ApiPropertyOptional({ enum: BackupType })
+  @IsOptional()
+  @IsEnum(BackupType)
+  type?: BackupType;
+
+  @ApiPropertyOptional({ enum: BackupStatus })
+  @IsOptional()
+  @IsEnum(BackupStatus)
+  status?: BackupStatus;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export class RestoreBackupDto {
+  @ApiPropertyOptional({
+    description: 'Existing database to restore into; defaults to the live database',
+    example: 'volkai_hr_edu_restore',
+  })
+  @IsOptional()
+  @Matches(DATABASE_NAME_PATTERN, { message: 'targetDatabase must be a plain database name' })
+  targetDatabase?: string;
+
+  @ApiPropertyOptional({
+    description: 'Restore only these tables',
+    type: [String],
+    example: ['users', 'organizations'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @Matches(TABLE_NAME_PATTERN, { each: true, message: 'tables must be plain table names' })
+  tables?: string[];
+
+  @ApiPropertyOptional({ description: 'Restore definitions only', default: false })
+  @IsOptional()
+  @IsBoolean()
+  schemaOnly?: boolean;
+
+  @ApiPropertyOptional({ description: 'Restore rows only', default: false })
+  @IsOptional()
+  @IsBoolean()
+  dataOnly?: boolean;
+
+  @ApiPropertyOptional({ description: 'Drop objects before recreating them', default: false })
+  @IsOptional()
+  @IsBoolean()
+  clean?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Required when restoring into the live database',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  confirmOverwrite?: boolean;
+}
+
+export class BackupRetentionDto {
+  @ApiProperty({ description: 'Days with a kept backup', example: 7 })
+  @IsInt()
+  @Min(1)
+  @Max(366)
+  daily: number;
+
+  @ApiProperty({ description: 'Weeks with a kept backup', example: 4 })
+  @IsInt()
+  @Min(0)
+  @Max(260)
+  weekly: number;
+
+  @ApiProperty({ description: 'Months with a kept backup', example: 6 })
+  @IsInt()
+  @Min(0)
+  @Max(120)
+  monthly: number;
+}
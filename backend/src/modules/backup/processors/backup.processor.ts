@@ -0,0 +1,29 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { BackupStatus, BackupTrigger } from '../../../database/entities/database-backup.entity';
+import { BackupService } from '../backup.service';
+
+@Processor('backups')
+export class BackupProcessor {
+  private readonly logger = new Logger(BackupProcessor.name);
+
+  constructor(private readonly backupService: BackupService) {}
+
+  @Process('create')
+  async processBackup(job: Job<{ backupId: string }>) {
+    const { backupId } = job.data;
+
+    this.logger.log(`Processing backup ${backupId}`);
+
+    const backup = await this.backupService.runBackup(backupId);
+
+    // Prune only after a scheduled backup succeeded, so retention never
+    // removes the last good backup
+    if (backup?.status === BackupStatus.COMPLETED && backup.trigger === BackupTrigger.SCHEDULED) {
+      await this.backupService.applyRetention();
+    }
+
+    return { backupId, status: backup?.status };
+  }
+}
@@ -21,6 +21,7 @@ import { RazorpayService } from './services/razorpay.service';
 // Controllers
 import { PlansController } from './controllers/plans.controller';
 import { SubscriptionsController } from './controllers/subscriptions.controller';
+import { BillingWebhooksController } from './controllers/billing-webhooks.controller';
 
 // External modules
 import { NotificationsModule } from '../notifications/notifications.module';
@@ -58,6 +59,7 @@ import { NotificationsModule } from '../notifications/notifications.module';
   controllers: [
     PlansController,
     SubscriptionsController,
+    BillingWebhooksController,
   ],
   providers: [
     BillingService,
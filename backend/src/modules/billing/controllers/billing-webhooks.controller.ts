@@ -0,0 +1,71 @@
+import {
+  Controller,
+  Post,
+  Headers,
+  Req,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+  RawBodyRequest,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiExcludeController } from '@nestjs/swagger';
+import { Request } from 'express';
+import { StripeService } from '../services/stripe.service';
+import { RazorpayService } from '../services/razorpay.service';
+
+/**
+ * Payment provider webhooks. Events are verified against the raw request
+ * body and forwarded to the provider services, which emit billing.* events
+ */
+@ApiTags('Billing - Webhooks')
+@ApiExcludeController()
+@Controller('billing/webhooks')
+export class BillingWebhooksController {
+  constructor(
+    private readonly stripeService: StripeService,
+    private readonly razorpayService: RazorpayService,
+  ) {}
+
+  @Post('stripe')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Stripe webhook' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Event processed' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Invalid signature' })
+  async handleStripeWebhook(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('stripe-signature') signature: string,
+  ): Promise<{ received: boolean }> {
+    if (!req.rawBody || !signature) {
+      throw new BadRequestException('Missing webhook signature');
+    }
+
+    const event = await this.stripeService.constructWebhookEvent(req.rawBody, signature);
+    await this.stripeService.handleWebhookEvent(event);
+
+    return { received: true };
+  }
+
+  @Post('razorpay')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Razorpay webhook' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Event processed' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Invalid signature' })
+  async handleRazorpayWebhook(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('x-razorpay-signature') signature: string,
+  ): Promise<{ received: boolean }> {
+    const payload = req.rawBody?.toString('utf8');
+
+    if (
+      !payload ||
+      !signature ||
+      !this.razorpayService.verifyWebhookSignature(payload, signature)
+    ) {
+      throw new BadRequestException('Invalid webhook signature');
+    }
+
+    await this.razorpayService.handleWebhookEvent(JSON.parse(payload));
+
+    return { received: true };
+  }
+}
@@ -70,6 +70,26 @@ export interface CreatePaymentDto {
   metadata?: Record<string, any>;
 }
 
+export interface CreateOneTimeInvoiceDto {
+  organizationId: string;
+  currency: string;
+  lineItems: Array<{
+    description: string;
+    quantity?: number;
+    unitPrice: number;
+    metadata?: Record<string, any>;
+  }>;
+  discounts?: Array<{
+    code?: string;
+    name: string;
+    type: 'percentage' | 'fixed';
+    value: number;
+  }>;
+  billingAddress?: Invoice['billingAddress'];
+  createdBy?: string;
+  customFields?: Record<string, any>;
+}
+
 export interface BillingUsage {
   metric: string;
   value: number;
@@ -498,7 +518,15 @@ export class BillingService {
   }
 
   // Invoice Management
-  async createInvoice(subscriptionId: string, type: InvoiceType = InvoiceType.SUBSCRIPTION): Promise<Invoice> {
+  async createInvoice(
+    source: string | CreateOneTimeInvoiceDto,
+    type: InvoiceType = InvoiceType.SUBSCRIPTION,
+  ): Promise<Invoice> {
+    if (typeof source !== 'string') {
+      return this.createOneTimeInvoice(source);
+    }
+
+    const subscriptionId = source;
     const subscription = await this.getSubscription(subscriptionId);
     const plan = await this.getPlan(subscription.planId);
 
@@ -742,6 +770,36 @@ export class BillingService {
   }
 
   // Private helper methods
+  private async createOneTimeInvoice(dto: CreateOneTimeInvoiceDto): Promise<Invoice> {
+    const invoice = this.invoiceRepository.create(Invoice.createOneTime(dto.organizationId, dto.currency));
+
+    for (const item of dto.lineItems) {
+      invoice.addLineItem({
+        type: 'one_time',
+        description: item.description,
+        quantity: item.quantity || 1,
+        unitPrice: item.unitPrice,
+        totalPrice: (item.quantity || 1) * item.unitPrice,
+        metadata: item.metadata,
+      });
+    }
+
+    for (const discount of dto.discounts || []) {
+      invoice.applyDiscount(discount);
+    }
+
+    invoice.billingAddress = dto.billingAddress;
+    invoice.metadata.createdBy = dto.createdBy;
+    invoice.metadata.customFields = dto.customFields;
+
+    const savedInvoice = await this.invoiceRepository.save(invoice);
+
+    this.logger.log(`One-time invoice created: ${savedInvoice.id} for organization: ${dto.organizationId}`);
+    this.eventEmitter.emit('billing.invoice.created', { invoice: savedInvoice });
+
+    return savedInvoice;
+  }
+
   private async createStripeSubscription(
     subscription: Subscription,
     plan: Plan,
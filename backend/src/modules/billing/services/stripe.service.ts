@@ -456,6 +456,9 @@ export class StripeService {
         case 'payment_intent.payment_failed':
           await this.handlePaymentIntentFailed(event.data.object as Stripe.PaymentIntent);
           break;
+        case 'charge.refunded':
+          await this.handleChargeRefunded(event.data.object as Stripe.Charge);
+          break;
         default:
           this.logger.log(`Unhandled Stripe webhook event type: ${event.type}`);
       }
@@ -529,6 +532,15 @@ export class StripeService {
     });
   }
 
+  private async handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
+    // This would record refunds issued from the Stripe dashboard
+    this.eventEmitter.emit('billing.charge.refunded', {
+      provider: 'stripe',
+      paymentIntentId: typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id,
+      charge,
+    });
+  }
+
   // Utility methods
   private mapPlanIntervalToStripe(interval: string): Stripe.PriceCreateParams.Recurring.Interval {
     const intervalMap = {
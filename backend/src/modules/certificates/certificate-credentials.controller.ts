@@ -0,0 +1,211 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  UseGuards,
+  Request,
+  Response,
+  HttpStatus,
+  ParseUUIDPipe,
+  HttpException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiBearerAuth } from '@nestjs/swagger';
+import { Response as ExpressResponse } from 'express';
+import { UserRole } from '../../database/entities/user.entity';
+import {
+  CertificateCredentialService,
+  CertificateCredentialExport,
+} from './services/certificate-credential.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '@/common/guards/roles.guard';
+import { Roles } from '@/common/decorators/roles.decorator';
+
+/**
+ * Open Badges / Verifiable Credential export. The public routes serve the
+ * hosted documents referenced from inside exported credentials
+ */
+@ApiTags('Certificate Credentials')
+@Controller('certificates')
+export class CertificateCredentialsController {
+  constructor(private readonly credentialService: CertificateCredentialService) {}
+
+  @Get(':id/credential')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Export certificate as signed Open Badges credential' })
+  @ApiParam({ name: 'id', description: 'Certificate ID', type: 'string', format: 'uuid' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Open Badges 3.0 credential, its VC-JWT and the Open Badges 2.0 assertion',
+  })
+  @ApiResponse({ status: HttpStatus.GONE, description: 'Certificate has been revoked' })
+  async exportCredential(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: any,
+  ): Promise<CertificateCredentialExport> {
+    try {
+      return await this.credentialService.exportCredential(id, req.user);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to export certificate credential',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post('signing-keys/rotate')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Rotate the organization credential signing key' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Public JWK of the new signing key' })
+  async rotateSigningKey(@Request() req: any): Promise<Record<string, unknown>> {
+    try {
+      return await this.credentialService.rotateSigningKey(req.user);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to rotate signing key',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('public/credentials/:code')
+  @ApiOperation({ summary: 'Hosted Open Badges 3.0 credential' })
+  @ApiParam({ name: 'code', description: 'Certificate verification code', type: 'string' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'OpenBadgeCredential document' })
+  async getHostedCredential(
+    @Param('code') code: string,
+    @Response() res: ExpressResponse,
+  ): Promise<void> {
+    try {
+      this.sendDocument(res, await this.credentialService.getHostedCredential(code));
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to retrieve credential',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('public/credentials/:code/jwt')
+  @ApiOperation({ summary: 'Hosted signed credential (VC-JWT)' })
+  @ApiParam({ name: 'code', description: 'Certificate verification code', type: 'string' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Compact JWS signed with the issuer key' })
+  async getHostedCredentialJwt(
+    @Param('code') code: string,
+    @Response() res: ExpressResponse,
+  ): Promise<void> {
+    try {
+      const jwt = await this.credentialService.getHostedCredentialJwt(code);
+
+      res.set({ 'Content-Type': 'application/vc+jwt' });
+      res.send(jwt);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to retrieve credential',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('public/badges/:code')
+  @ApiOperation({ summary: 'Hosted Open Badges 2.0 assertion' })
+  @ApiParam({ name: 'code', description: 'Certificate verification code', type: 'string' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Badge assertion document' })
+  async getHostedAssertion(
+    @Param('code') code: string,
+    @Response() res: ExpressResponse,
+  ): Promise<void> {
+    try {
+      this.sendDocument(res, await this.credentialService.getHostedAssertion(code));
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to retrieve badge assertion',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('public/achievements/:courseId')
+  @ApiOperation({ summary: 'Hosted badge class for a course' })
+  @ApiParam({ name: 'courseId', description: 'Course ID', type: 'string', format: 'uuid' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Badge class document' })
+  async getAchievement(
+    @Param('courseId', ParseUUIDPipe) courseId: string,
+    @Response() res: ExpressResponse,
+  ): Promise<void> {
+    try {
+      this.sendDocument(res, await this.credentialService.getAchievement(courseId));
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to retrieve badge class',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('public/issuers/:organizationId')
+  @ApiOperation({ summary: 'Hosted issuer profile' })
+  @ApiParam({
+    name: 'organizationId',
+    description: 'Organization ID',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Issuer profile document' })
+  async getIssuerProfile(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Response() res: ExpressResponse,
+  ): Promise<void> {
+    try {
+      this.sendDocument(res, await this.credentialService.getIssuerProfile(organizationId));
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to retrieve issuer profile',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('public/issuers/:organizationId/jwks')
+  @ApiOperation({ summary: 'Issuer public keys for offline credential validation' })
+  @ApiParam({
+    name: 'organizationId',
+    description: 'Organization ID',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiResponse({ status: HttpStatus.OK, description: 'JSON Web Key Set' })
+  async getIssuerJwks(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Response() res: ExpressResponse,
+  ): Promise<void> {
+    try {
+      this.sendDocument(
+        res,
+        await this.credentialService.getIssuerJwks(organizationId),
+        'application/jwk-set+json',
+      );
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to retrieve issuer keys',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Hosted documents are sent as-is, outside the standard API response envelope,
+   * so badge validators can consume them directly
+   */
+  private sendDocument(
+    res: ExpressResponse,
+    document: object,
+    contentType = 'application/ld+json',
+  ): void {
+    res.set({ 'Content-Type': contentType });
+    res.send(JSON.stringify(document));
+  }
+}
@@ -0,0 +1,206 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  Response,
+  HttpStatus,
+  ParseUUIDPipe,
+  ValidationPipe,
+  UsePipes,
+  HttpException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiBody,
+} from '@nestjs/swagger';
+import { Response as ExpressResponse } from 'express';
+import { UserRole } from '../../database/entities/user.entity';
+import { CertificateType } from '../../database/entities/certificate.entity';
+import { CertificateTemplateService } from './services/certificate-template.service';
+import {
+  CreateCertificateTemplateDto,
+  UpdateCertificateTemplateDto,
+  PreviewCertificateTemplateDto,
+  CertificateTemplateResponseDto,
+} from './dto/certificate.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '@/common/guards/roles.guard';
+import { Roles } from '@/common/decorators/roles.decorator';
+
+@ApiTags('Certificate Templates')
+@Controller('certificates/templates')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.INSTRUCTOR)
+@ApiBearerAuth('JWT-auth')
+export class CertificateTemplatesController {
+  constructor(private readonly templateService: CertificateTemplateService) {}
+
+  @Post()
+  @UsePipes(new ValidationPipe({ transform: true }))
+  @ApiOperation({ summary: 'Create certificate template' })
+  @ApiBody({ type: CreateCertificateTemplateDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Certificate template created successfully',
+    type: CertificateTemplateResponseDto,
+  })
+  async createTemplate(
+    @Body() createTemplateDto: CreateCertificateTemplateDto,
+    @Request() req: any,
+  ): Promise<CertificateTemplateResponseDto> {
+    try {
+      const template = await this.templateService.createTemplate(createTemplateDto, req.user);
+      return new CertificateTemplateResponseDto(template);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to create certificate template',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List certificate templates of the current organization' })
+  @ApiQuery({ name: 'type', required: false, enum: CertificateType })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Certificate templates retrieved successfully',
+    type: [CertificateTemplateResponseDto],
+  })
+  async getTemplates(
+    @Request() req: any,
+    @Query('type') type?: CertificateType,
+  ): Promise<CertificateTemplateResponseDto[]> {
+    try {
+      const templates = await this.templateService.getTemplates(req.user, type);
+      return templates.map(template => new CertificateTemplateResponseDto(template));
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to retrieve certificate templates',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get certificate template by ID' })
+  @ApiParam({ name: 'id', description: 'Template ID', type: 'string', format: 'uuid' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Certificate template retrieved successfully',
+    type: CertificateTemplateResponseDto,
+  })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Certificate template not found' })
+  async getTemplate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: any,
+  ): Promise<CertificateTemplateResponseDto> {
+    try {
+      const template = await this.templateService.getTemplateById(id, req.user);
+      return new CertificateTemplateResponseDto(template);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to retrieve certificate template',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Put(':id')
+  @UsePipes(new ValidationPipe({ transform: true }))
+  @ApiOperation({ summary: 'Update certificate template' })
+  @ApiParam({ name: 'id', description: 'Template ID', type: 'string', format: 'uuid' })
+  @ApiBody({ type: UpdateCertificateTemplateDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Certificate template updated successfully',
+    type: CertificateTemplateResponseDto,
+  })
+  async updateTemplate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateTemplateDto: UpdateCertificateTemplateDto,
+    @Request() req: any,
+  ): Promise<CertificateTemplateResponseDto> {
+    try {
+      const template = await this.templateService.updateTemplate(id, updateTemplateDto, req.user);
+      return new CertificateTemplateResponseDto(template);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to update certificate template',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete certificate template' })
+  @ApiParam({ name: 'id', description: 'Template ID', type: 'string', format: 'uuid' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Certificate template deleted successfully' })
+  async deleteTemplate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: any,
+  ): Promise<{ message: string }> {
+    try {
+      await this.templateService.deleteTemplate(id, req.user);
+      return { message: 'Certificate template deleted successfully' };
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to delete certificate template',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post(':id/preview')
+  @UsePipes(new ValidationPipe({ transform: true }))
+  @ApiOperation({ summary: 'Render certificate template preview with sample data' })
+  @ApiParam({ name: 'id', description: 'Template ID', type: 'string', format: 'uuid' })
+  @ApiBody({ type: PreviewCertificateTemplateDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Certificate preview PDF',
+    content: {
+      'application/pdf': {
+        schema: {
+          type: 'string',
+          format: 'binary',
+        },
+      },
+    },
+  })
+  async previewTemplate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() previewDto: PreviewCertificateTemplateDto,
+    @Response() res: ExpressResponse,
+    @Request() req: any,
+  ): Promise<void> {
+    try {
+      const buffer = await this.templateService.renderPreview(id, previewDto, req.user);
+
+      res.set({
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="certificate_template_${id}.pdf"`,
+        'Content-Length': buffer.length,
+      });
+
+      res.send(buffer);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to render certificate template preview',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -71,7 +71,12 @@ export class CertificatesController {
   ): Promise<CertificateResponseDto> {
     try {
       const certificate = await this.certificateService.generateCertificate(
-        generateCertificateDto.enrollmentId as any,
+        {
+          enrollmentId: generateCertificateDto.enrollmentId,
+          type: generateCertificateDto.type,
+          templateId: generateCertificateDto.template,
+          customData: generateCertificateDto.metadata,
+        },
         req.user,
       );
       return new CertificateResponseDto(certificate);
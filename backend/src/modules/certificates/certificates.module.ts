@@ -1,8 +1,15 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { CertificatesController } from './certificates.controller';
+import { CertificateTemplatesController } from './certificate-templates.controller';
+import { CertificateCredentialsController } from './certificate-credentials.controller';
 import { CertificateService } from './services/certificate.service';
+import { CertificateTemplateService } from './services/certificate-template.service';
+import { CertificateRendererService } from './services/certificate-renderer.service';
+import { CertificateCredentialService } from './services/certificate-credential.service';
 import { Certificate } from '../../database/entities/certificate.entity';
+import { CertificateTemplate } from '../../database/entities/certificate-template.entity';
+import { CredentialSigningKey } from '../../database/entities/credential-signing-key.entity';
 import { Enrollment } from '../../database/entities/enrollment.entity';
 import { Course } from '../../database/entities/course.entity';
 import { User } from '../../database/entities/user.entity';
@@ -17,6 +24,8 @@ import { ImageProcessorService } from '../files/services/image-processor.service
   imports: [
     TypeOrmModule.forFeature([
       Certificate,
+      CertificateTemplate,
+      CredentialSigningKey,
       Enrollment,
       Course,
       User,
@@ -25,8 +34,22 @@ import { ImageProcessorService } from '../files/services/image-processor.service
     ]),
     
   ],
-  controllers: [CertificatesController],
-  providers: [CertificateService, FileManagerService, S3Service, VirusScannerService, ImageProcessorService],
+  // Template routes are registered first so they are not captured by certificates/:id
+  controllers: [
+    CertificateTemplatesController,
+    CertificateCredentialsController,
+    CertificatesController,
+  ],
+  providers: [
+    CertificateService,
+    CertificateTemplateService,
+    CertificateRendererService,
+    CertificateCredentialService,
+    FileManagerService,
+    S3Service,
+    VirusScannerService,
+    ImageProcessorService,
+  ],
   exports: [CertificateService],
 })
 export class CertificatesModule {}
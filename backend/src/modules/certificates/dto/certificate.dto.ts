@@ -4,13 +4,27 @@ import {
   IsEnum,
   IsUUID,
   IsObject,
+  IsBoolean,
+  IsNumber,
+  IsArray,
+  IsIn,
+  Min,
+  Max,
   ValidateIf,
+  ValidateNested,
 } from 'class-validator';
-import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
 import {
   CertificateStatus,
   CertificateType,
 } from '../../../database/entities/certificate.entity';
+import {
+  CertificateElementType,
+  CertificateTemplate,
+  CertificateTemplateElement,
+  CertificateTemplateFont,
+} from '../../../database/entities/certificate-template.entity';
 
 export class GenerateCertificateDto {
   @ApiProperty({ description: 'Enrollment ID for certificate generation' })
@@ -22,9 +36,9 @@ export class GenerateCertificateDto {
   @IsEnum(CertificateType)
   type?: CertificateType;
 
-  @ApiPropertyOptional({ description: 'Custom certificate template' })
+  @ApiPropertyOptional({ description: 'Certificate template ID' })
   @IsOptional()
-  @IsString()
+  @IsUUID()
   template?: string;
 
   @ApiPropertyOptional({ description: 'Additional certificate metadata' })
@@ -248,3 +262,253 @@ export class CertificateStatisticsDto {
     this.topPerformers = data.topPerformers;
   }
 }
+
+export class CertificateTemplateFontDto {
+  @ApiProperty({ description: 'Font name referenced by text elements' })
+  @IsString()
+  name: string;
+
+  @ApiProperty({ description: 'Font file URL (TTF/OTF) or data URI' })
+  @IsString()
+  url: string;
+}
+
+export class CertificateTemplateElementDto {
+  @ApiProperty({ description: 'Element ID, unique within the template' })
+  @IsString()
+  id: string;
+
+  @ApiProperty({ enum: CertificateElementType, description: 'Element type' })
+  @IsEnum(CertificateElementType)
+  type: CertificateElementType;
+
+  @ApiProperty({ description: 'X position in points from the left edge' })
+  @IsNumber()
+  @Min(0)
+  x: number;
+
+  @ApiProperty({ description: 'Y position in points from the top edge' })
+  @IsNumber()
+  @Min(0)
+  y: number;
+
+  @ApiPropertyOptional({ description: 'Width in points' })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  width?: number;
+
+  @ApiPropertyOptional({ description: 'Height in points' })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  height?: number;
+
+  @ApiPropertyOptional({
+    description: 'Text content, may reference certificate data as {{fieldName}}',
+  })
+  @IsOptional()
+  @IsString()
+  content?: string;
+
+  @ApiPropertyOptional({ description: 'Image URL or data URI for image, logo and signature elements' })
+  @IsOptional()
+  @IsString()
+  imageUrl?: string;
+
+  @ApiPropertyOptional({ description: 'Font name, standard PDF font or a template font' })
+  @IsOptional()
+  @IsString()
+  font?: string;
+
+  @ApiPropertyOptional({ description: 'Font size in points' })
+  @IsOptional()
+  @IsNumber()
+  @Min(4)
+  @Max(200)
+  fontSize?: number;
+
+  @ApiPropertyOptional({ description: 'Text or line colour' })
+  @IsOptional()
+  @IsString()
+  color?: string;
+
+  @ApiPropertyOptional({ enum: ['left', 'center', 'right'], description: 'Text alignment' })
+  @IsOptional()
+  @IsIn(['left', 'center', 'right'])
+  align?: 'left' | 'center' | 'right';
+
+  @ApiPropertyOptional({ description: 'Signature caption' })
+  @IsOptional()
+  @IsString()
+  label?: string;
+
+  @ApiPropertyOptional({ description: 'Skip the element when a referenced field is empty' })
+  @IsOptional()
+  @IsBoolean()
+  hideWhenEmpty?: boolean;
+
+  @ApiPropertyOptional({
+    enum: CertificateType,
+    isArray: true,
+    description: 'Only render on certificates of these types',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(CertificateType, { each: true })
+  certificateTypes?: CertificateType[];
+}
+
+export class CreateCertificateTemplateDto {
+  @ApiProperty({ description: 'Template name' })
+  @IsString()
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Template description' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({
+    enum: CertificateType,
+    description: 'Certificate type the template is for; omit to use it for every type',
+  })
+  @IsOptional()
+  @IsEnum(CertificateType)
+  type?: CertificateType;
+
+  @ApiPropertyOptional({ description: 'Use as the organization default for its type' })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+
+  @ApiPropertyOptional({ description: 'Page size', default: 'A4' })
+  @IsOptional()
+  @IsIn(['A4', 'A3', 'LETTER', 'LEGAL'])
+  pageSize?: string;
+
+  @ApiPropertyOptional({ enum: ['portrait', 'landscape'], default: 'landscape' })
+  @IsOptional()
+  @IsIn(['portrait', 'landscape'])
+  orientation?: 'portrait' | 'landscape';
+
+  @ApiPropertyOptional({ description: 'Background colour' })
+  @IsOptional()
+  @IsString()
+  backgroundColor?: string;
+
+  @ApiPropertyOptional({ description: 'Background image URL or data URI' })
+  @IsOptional()
+  @IsString()
+  backgroundImageUrl?: string;
+
+  @ApiPropertyOptional({ description: 'Border colour, omit for no border' })
+  @IsOptional()
+  @IsString()
+  borderColor?: string;
+
+  @ApiPropertyOptional({ description: 'Logo URL, defaults to the organization logo' })
+  @IsOptional()
+  @IsString()
+  logoUrl?: string;
+
+  @ApiPropertyOptional({ type: [CertificateTemplateFontDto], description: 'Custom fonts' })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CertificateTemplateFontDto)
+  fonts?: CertificateTemplateFontDto[];
+
+  @ApiPropertyOptional({
+    type: [CertificateTemplateElementDto],
+    description: 'Positioned page elements',
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CertificateTemplateElementDto)
+  elements?: CertificateTemplateElementDto[];
+}
+
+export class UpdateCertificateTemplateDto extends PartialType(CreateCertificateTemplateDto) {}
+
+export class PreviewCertificateTemplateDto {
+  @ApiPropertyOptional({ enum: CertificateType, description: 'Certificate type to preview' })
+  @IsOptional()
+  @IsEnum(CertificateType)
+  type?: CertificateType;
+
+  @ApiPropertyOptional({ description: 'Overrides for the sample certificate data' })
+  @IsOptional()
+  @IsObject()
+  data?: Record<string, any>;
+}
+
+export class CertificateTemplateResponseDto {
+  @ApiProperty({ description: 'Template ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Organization ID' })
+  organizationId: string;
+
+  @ApiProperty({ description: 'Template name' })
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Template description' })
+  description?: string;
+
+  @ApiPropertyOptional({ enum: CertificateType, description: 'Certificate type' })
+  type?: CertificateType;
+
+  @ApiProperty({ description: 'Organization default for its type' })
+  isDefault: boolean;
+
+  @ApiProperty({ description: 'Page size' })
+  pageSize: string;
+
+  @ApiProperty({ description: 'Page orientation' })
+  orientation: 'portrait' | 'landscape';
+
+  @ApiPropertyOptional({ description: 'Background colour' })
+  backgroundColor?: string;
+
+  @ApiPropertyOptional({ description: 'Background image URL' })
+  backgroundImageUrl?: string;
+
+  @ApiPropertyOptional({ description: 'Border colour' })
+  borderColor?: string;
+
+  @ApiPropertyOptional({ description: 'Logo URL' })
+  logoUrl?: string;
+
+  @ApiProperty({ description: 'Custom fonts' })
+  fonts: CertificateTemplateFont[];
+
+  @ApiProperty({ description: 'Positioned page elements' })
+  elements: CertificateTemplateElement[];
+
+  @ApiProperty({ description: 'Creation date' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Last update date' })
+  updatedAt: Date;
+
+  constructor(template: CertificateTemplate) {
+    this.id = template.id;
+    this.organizationId = template.organizationId;
+    this.name = template.name;
+    this.description = template.description;
+    this.type = template.type;
+    this.isDefault = template.isDefault;
+    this.pageSize = template.pageSize;
+    this.orientation = template.orientation;
+    this.backgroundColor = template.backgroundColor;
+    this.backgroundImageUrl = template.backgroundImageUrl;
+    this.borderColor = template.borderColor;
+    this.logoUrl = template.logoUrl;
+    this.fonts = template.fonts;
+    this.elements = template.elements;
+    this.createdAt = template.createdAt;
+    this.updatedAt = template.updatedAt;
+  }
+}
@@ -0,0 +1,157 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { ConfigService } from '@nestjs/config';
+import { GoneException } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { CertificateCredentialService } from './certificate-credential.service';
+import {
+  Certificate,
+  CertificateStatus,
+  CertificateType,
+} from '../../../database/entities/certificate.entity';
+import { CredentialSigningKey } from '../../../database/entities/credential-signing-key.entity';
+import { Course } from '../../../database/entities/course.entity';
+import { Organization } from '../../../database/entities/organization.entity';
+
+describe('CertificateCredentialService', () => {
+  let service: CertificateCredentialService;
+  let storedKeys: CredentialSigningKey[];
+
+  const mockRepositories = {
+    certificate: {
+      findOne: jest.fn(),
+      update: jest.fn(),
+    },
+    signingKey: {
+      create: jest.fn(data => Object.assign(new CredentialSigningKey(), data)),
+      save: jest.fn(key => {
+        storedKeys.push(key);
+        return Promise.resolve(key);
+      }),
+      findOne: jest.fn(() => Promise.resolve(storedKeys.find(key => key.isActive) || null)),
+      find: jest.fn(() => Promise.resolve(storedKeys)),
+    },
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: string) =>
+      key === 'ENCRYPTION_KEY' ? 'test-encryption-key-0123456789ab' : defaultValue,
+    ),
+  };
+
+  const buildCertificate = (overrides: Partial<Certificate> = {}): Certificate =>
+    Object.assign(new Certificate(), {
+      id: 'certificate-1',
+      userId: 'learner-1',
+      courseId: 'course-1',
+      enrollmentId: 'enrollment-1',
+      organizationId: 'org-1',
+      certificateNumber: 'CERT-0001',
+      verificationCode: 'ABC123',
+      title: 'Certificate of Completion - TypeScript Basics',
+      type: CertificateType.COMPLETION,
+      status: CertificateStatus.ISSUED,
+      finalScore: 92,
+      issuedAt: new Date('2026-01-15T10:00:00Z'),
+      verificationData: {},
+      isPublic: true,
+      user: { email: 'Jane@Example.com' },
+      course: { title: 'TypeScript Basics' },
+      organization: { name: 'Acme Academy' },
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    storedKeys = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CertificateCredentialService,
+        { provide: getRepositoryToken(Certificate), useValue: mockRepositories.certificate },
+        {
+          provide: getRepositoryToken(CredentialSigningKey),
+          useValue: mockRepositories.signingKey,
+        },
+        { provide: getRepositoryToken(Course), useValue: {} },
+        { provide: getRepositoryToken(Organization), useValue: {} },
+        { provide: EventEmitter2, useValue: { emit: jest.fn() } },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<CertificateCredentialService>(CertificateCredentialService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('exportCredential', () => {
+    it('signs a VC-JWT that validates against the published issuer keys', async () => {
+      mockRepositories.certificate.findOne.mockResolvedValue(buildCertificate());
+
+      const result = await service.exportCredential('certificate-1', {
+        id: 'learner-1',
+      } as any);
+
+      const [header, payload, signature] = result.jwt.split('.');
+      const { kid, alg } = JSON.parse(Buffer.from(header, 'base64url').toString());
+      const jwks = await service.getIssuerJwks('org-1');
+      const jwk = jwks.keys.find(key => key.kid === kid);
+
+      expect(alg).toBe('RS256');
+      expect(
+        crypto.verify(
+          'sha256',
+          Buffer.from(`${header}.${payload}`),
+          crypto.createPublicKey({ key: jwk as crypto.JsonWebKey, format: 'jwk' }),
+          Buffer.from(signature, 'base64url'),
+        ),
+      ).toBe(true);
+      expect(JSON.parse(Buffer.from(payload, 'base64url').toString()).vc).toEqual(
+        result.credential,
+      );
+      expect(storedKeys[0].encryptedPrivateKey).not.toContain('PRIVATE KEY');
+    });
+
+    it('hashes the recipient email with a salt kept on the certificate', async () => {
+      const certificate = buildCertificate();
+      mockRepositories.certificate.findOne.mockResolvedValue(certificate);
+
+      const result = await service.exportCredential('certificate-1', {
+        id: 'learner-1',
+      } as any);
+
+      const salt = certificate.verificationData.credentialSalt as string;
+      const expectedHash = `sha256$${crypto
+        .createHash('sha256')
+        .update(`jane@example.com${salt}`)
+        .digest('hex')}`;
+      const subject = result.credential.credentialSubject as any;
+
+      expect(subject.identifier[0].identityHash).toBe(expectedHash);
+      expect((result.assertion.recipient as any).identity).toBe(expectedHash);
+      expect(subject.achievement.id).toContain('/certificates/public/achievements/course-1');
+      expect((result.credential.evidence as any[])[0].id).toBe('urn:uuid:enrollment-1');
+      expect(JSON.stringify(result.credential)).not.toContain('Jane@Example.com');
+    });
+  });
+
+  describe('hosted documents', () => {
+    it('reports revoked certificates in the hosted assertion but refuses to sign them', async () => {
+      mockRepositories.certificate.findOne.mockResolvedValue(
+        buildCertificate({
+          status: CertificateStatus.REVOKED,
+          revokedReason: 'Academic misconduct',
+        }),
+      );
+
+      const assertion = await service.getHostedAssertion('ABC123');
+
+      expect(assertion.revoked).toBe(true);
+      expect(assertion.revocationReason).toBe('Academic misconduct');
+      await expect(service.getHostedCredentialJwt('ABC123')).rejects.toThrow(GoneException);
+    });
+  });
+});
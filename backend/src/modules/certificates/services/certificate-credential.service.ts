@@ -0,0 +1,512 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  GoneException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { promisify } from 'util';
+import { Certificate, CertificateStatus } from '@database/entities/certificate.entity';
+import { CredentialSigningKey } from '@database/entities/credential-signing-key.entity';
+import { Course } from '@database/entities/course.entity';
+import { Organization } from '@database/entities/organization.entity';
+import { openSecret, sealSecret } from '@common/utils/secret-box';
+import { AuthenticatedUser } from '@modules/auth/strategies/jwt.strategy';
+
+const generateKeyPair = promisify(crypto.generateKeyPair);
+
+const OB3_CONTEXT = [
+  'https://www.w3.org/2018/credentials/v1',
+  'https://purl.imsglobal.org/spec/ob/v3p0/context-3.0.3.json',
+];
+const OB2_CONTEXT = 'https://w3id.org/openbadges/v2';
+
+/**
+ * Exported credential in every supported format
+ */
+export interface CertificateCredentialExport {
+  // Open Badges 3.0 OpenBadgeCredential (W3C Verifiable Credential)
+  credential: Record<string, unknown>;
+  // Same credential signed as a VC-JWT with the organization key
+  jwt: string;
+  // Open Badges 2.0 hosted assertion
+  assertion: Record<string, unknown>;
+}
+
+/**
+ * JSON Web Key Set published for an issuer
+ */
+export interface IssuerJwks {
+  keys: Record<string, unknown>[];
+}
+
+/**
+ * Certificate Credential Service
+ * Exports certificates as Open Badges / W3C Verifiable Credentials signed with
+ * organization keys, and serves the hosted documents third parties validate against
+ */
+@Injectable()
+export class CertificateCredentialService {
+  private readonly logger = new Logger(CertificateCredentialService.name);
+
+  constructor(
+    @InjectRepository(Certificate)
+    private readonly certificateRepository: Repository<Certificate>,
+    @InjectRepository(CredentialSigningKey)
+    private readonly signingKeyRepository: Repository<CredentialSigningKey>,
+    @InjectRepository(Course)
+    private readonly courseRepository: Repository<Course>,
+    @InjectRepository(Organization)
+    private readonly organizationRepository: Repository<Organization>,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Export a certificate as signed badge credentials for its owner
+   */
+  async exportCredential(
+    certificateId: string,
+    currentUser: AuthenticatedUser,
+  ): Promise<CertificateCredentialExport> {
+    const certificate = await this.certificateRepository.findOne({
+      where: { id: certificateId },
+      relations: ['user', 'course', 'organization'],
+    });
+
+    if (!certificate) {
+      throw new NotFoundException(`Certificate not found: ${certificateId}`);
+    }
+
+    if (
+      certificate.userId !== currentUser.id &&
+      !currentUser.permissions?.includes('certificates:manage')
+    ) {
+      throw new ForbiddenException('Access denied to this certificate');
+    }
+
+    this.assertExportable(certificate);
+
+    const credential = await this.buildCredential(certificate);
+    const result = {
+      credential,
+      jwt: await this.signCredential(certificate, credential),
+      assertion: await this.buildAssertion(certificate),
+    };
+
+    this.eventEmitter.emit('certificate.credential.exported', {
+      certificateId: certificate.id,
+      userId: currentUser.id,
+      exportedAt: new Date(),
+    });
+
+    return result;
+  }
+
+  /**
+   * Hosted Open Badges 3.0 credential document
+   */
+  async getHostedCredential(verificationCode: string): Promise<Record<string, unknown>> {
+    const certificate = await this.getPublicCertificate(verificationCode);
+    this.assertExportable(certificate);
+
+    return await this.buildCredential(certificate);
+  }
+
+  /**
+   * Hosted VC-JWT for the credential
+   */
+  async getHostedCredentialJwt(verificationCode: string): Promise<string> {
+    const certificate = await this.getPublicCertificate(verificationCode);
+    this.assertExportable(certificate);
+
+    return await this.signCredential(certificate, await this.buildCredential(certificate));
+  }
+
+  /**
+   * Hosted Open Badges 2.0 assertion. Revoked certificates stay resolvable
+   * and are reported as revoked, as hosted verification requires
+   */
+  async getHostedAssertion(verificationCode: string): Promise<Record<string, unknown>> {
+    const certificate = await this.getPublicCertificate(verificationCode);
+
+    if (certificate.status === CertificateStatus.PENDING) {
+      throw new NotFoundException('Certificate not found');
+    }
+
+    return await this.buildAssertion(certificate);
+  }
+
+  /**
+   * Issuer profile of an organization
+   */
+  async getIssuerProfile(organizationId: string): Promise<Record<string, unknown>> {
+    const organization = await this.organizationRepository.findOne({
+      where: { id: organizationId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException(`Issuer not found: ${organizationId}`);
+    }
+
+    const issuerId = this.getIssuerUrl(organizationId);
+
+    return {
+      '@context': [...OB3_CONTEXT, OB2_CONTEXT],
+      id: issuerId,
+      type: ['Profile', 'Issuer'],
+      name: organization.name,
+      url:
+        organization.website ||
+        this.configService.get<string>('APP_BASE_URL', 'https://app.volkaihr.com'),
+      ...(organization.logoUrl && { image: organization.logoUrl }),
+      publicKey: `${issuerId}/jwks`,
+    };
+  }
+
+  /**
+   * Badge class describing what a course certificate stands for
+   */
+  async getAchievement(courseId: string): Promise<Record<string, unknown>> {
+    const course = await this.courseRepository.findOne({ where: { id: courseId } });
+
+    if (!course) {
+      throw new NotFoundException(`Achievement not found: ${courseId}`);
+    }
+
+    return {
+      '@context': OB2_CONTEXT,
+      id: this.getAchievementUrl(courseId),
+      type: 'BadgeClass',
+      name: course.title,
+      description: course.description || `Certificate for the course "${course.title}"`,
+      ...(course.thumbnailUrl && { image: course.thumbnailUrl }),
+      criteria: { narrative: this.getCriteriaNarrative(course) },
+      issuer: this.getIssuerUrl(course.organizationId),
+      tags: course.tags || [],
+    };
+  }
+
+  /**
+   * Public keys, current and retired, that credentials of an issuer can be validated with
+   */
+  async getIssuerJwks(organizationId: string): Promise<IssuerJwks> {
+    const keys = await this.signingKeyRepository.find({
+      where: { organizationId },
+      order: { createdAt: 'DESC' },
+    });
+
+    return { keys: keys.map(key => key.publicKeyJwk) };
+  }
+
+  /**
+   * Retire the organization's active signing key and create a new one
+   */
+  async rotateSigningKey(currentUser: AuthenticatedUser): Promise<Record<string, unknown>> {
+    if (!currentUser.currentOrganizationId) {
+      throw new BadRequestException('An organization context is required to rotate signing keys');
+    }
+
+    const activeKeys = await this.signingKeyRepository.find({
+      where: { organizationId: currentUser.currentOrganizationId, isActive: true },
+    });
+
+    for (const key of activeKeys) {
+      key.retire();
+      await this.signingKeyRepository.save(key);
+    }
+
+    const key = await this.createSigningKey(currentUser.currentOrganizationId);
+
+    this.eventEmitter.emit('certificate.signing_key.rotated', {
+      organizationId: currentUser.currentOrganizationId,
+      keyId: key.id,
+      rotatedBy: currentUser.id,
+    });
+
+    return key.publicKeyJwk;
+  }
+
+  private async buildCredential(certificate: Certificate): Promise<Record<string, unknown>> {
+    const issuerId = this.getIssuerUrl(certificate.organizationId);
+    const salt = await this.getRecipientSalt(certificate);
+    const evidence: Record<string, unknown>[] = [
+      {
+        id: `urn:uuid:${certificate.enrollmentId}`,
+        type: ['Evidence'],
+        name: 'Course enrollment',
+        narrative: this.getEvidenceNarrative(certificate),
+      },
+    ];
+
+    if (certificate.publicUrl) {
+      evidence.push({
+        id: certificate.publicUrl,
+        type: ['Evidence'],
+        name: 'Certificate document',
+        genre: 'Certificate',
+      });
+    }
+
+    return {
+      '@context': OB3_CONTEXT,
+      id: this.getCredentialUrl(certificate.verificationCode),
+      type: ['VerifiableCredential', 'OpenBadgeCredential'],
+      name: certificate.title,
+      issuer: {
+        id: issuerId,
+        type: ['Profile'],
+        name: certificate.organization?.name,
+        ...(certificate.organization?.logoUrl && { image: certificate.organization.logoUrl }),
+      },
+      issuanceDate: certificate.issuedAt.toISOString(),
+      ...(certificate.expiresAt && { expirationDate: certificate.expiresAt.toISOString() }),
+      credentialSubject: {
+        type: ['AchievementSubject'],
+        identifier: [
+          {
+            type: 'IdentityObject',
+            identityType: 'emailAddress',
+            hashed: true,
+            identityHash: this.hashIdentity(certificate.user.email, salt),
+            salt,
+          },
+        ],
+        achievement: {
+          id: this.getAchievementUrl(certificate.courseId),
+          type: ['Achievement'],
+          achievementType: 'Certificate',
+          name: certificate.course?.title,
+          description: certificate.description || certificate.title,
+          criteria: { narrative: this.getCriteriaNarrative(certificate.course) },
+          creator: { id: issuerId, type: ['Profile'] },
+        },
+        ...(certificate.finalScore !== null &&
+          certificate.finalScore !== undefined && {
+            result: [
+              {
+                type: ['Result'],
+                value: String(certificate.finalScore),
+                achievedLevel: certificate.gradeDisplay,
+              },
+            ],
+          }),
+      },
+      evidence,
+    };
+  }
+
+  private async buildAssertion(certificate: Certificate): Promise<Record<string, unknown>> {
+    const salt = await this.getRecipientSalt(certificate);
+
+    return {
+      '@context': OB2_CONTEXT,
+      id: this.getAssertionUrl(certificate.verificationCode),
+      type: 'Assertion',
+      recipient: {
+        type: 'email',
+        hashed: true,
+        salt,
+        identity: this.hashIdentity(certificate.user.email, salt),
+      },
+      badge: this.getAchievementUrl(certificate.courseId),
+      verification: { type: 'hosted' },
+      issuedOn: certificate.issuedAt.toISOString(),
+      ...(certificate.expiresAt && { expires: certificate.expiresAt.toISOString() }),
+      evidence: [
+        {
+          id: certificate.publicUrl || this.getVerificationPageUrl(certificate.verificationCode),
+          narrative: this.getEvidenceNarrative(certificate),
+        },
+      ],
+      ...(certificate.isRevoked && {
+        revoked: true,
+        revocationReason: certificate.revokedReason || 'Revoked by issuer',
+      }),
+    };
+  }
+
+  /**
+   * Sign the credential as a compact VC-JWT (RS256)
+   */
+  private async signCredential(
+    certificate: Certificate,
+    credential: Record<string, unknown>,
+  ): Promise<string> {
+    const key = await this.getActiveSigningKey(certificate.organizationId);
+    const header = { alg: key.algorithm, typ: 'JWT', kid: key.publicKeyJwk.kid };
+    const payload = {
+      iss: credential.issuer && (credential.issuer as Record<string, unknown>).id,
+      jti: credential.id,
+      sub: certificate.verificationCode,
+      iat: Math.floor(Date.now() / 1000),
+      nbf: Math.floor(certificate.issuedAt.getTime() / 1000),
+      ...(certificate.expiresAt && { exp: Math.floor(certificate.expiresAt.getTime() / 1000) }),
+      vc: credential,
+    };
+
+    const signingInput = [header, payload]
+      .map(part => Buffer.from(JSON.stringify(part)).toString('base64url'))
+      .join('.');
+    const signature = crypto.sign(
+      'sha256',
+      Buffer.from(signingInput),
+      this.decryptPrivateKey(key.encryptedPrivateKey),
+    );
+
+    return `${signingInput}.${signature.toString('base64url')}`;
+  }
+
+  private async getActiveSigningKey(organizationId: string): Promise<CredentialSigningKey> {
+    const key = await this.signingKeyRepository.findOne({
+      where: { organizationId, isActive: true },
+      order: { createdAt: 'DESC' },
+      select: [
+        'id',
+        'organizationId',
+        'algorithm',
+        'publicKeyPem',
+        'publicKeyJwk',
+        'encryptedPrivateKey',
+        'isActive',
+        'createdAt',
+      ],
+    });
+
+    return key || (await this.createSigningKey(organizationId));
+  }
+
+  private async createSigningKey(organizationId: string): Promise<CredentialSigningKey> {
+    const { publicKey, privateKey } = await generateKeyPair('rsa', { modulusLength: 2048 });
+    const id = crypto.randomUUID();
+    const key = this.signingKeyRepository.create({
+      id,
+      organizationId,
+      algorithm: 'RS256',
+      publicKeyPem: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+      // The kid is the issuer-scoped key URL so verifiers can resolve it from the JWKS
+      publicKeyJwk: {
+        ...publicKey.export({ format: 'jwk' }),
+        kid: `${this.getIssuerUrl(organizationId)}#${id}`,
+        alg: 'RS256',
+        use: 'sig',
+      },
+      encryptedPrivateKey: this.encryptPrivateKey(
+        privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+      ),
+      isActive: true,
+    });
+
+    const savedKey = await this.signingKeyRepository.save(key);
+
+    this.logger.log(`Credential signing key created for organization: ${organizationId}`);
+    return savedKey;
+  }
+
+  /**
+   * Salt for the hashed recipient email, kept on the certificate so every
+   * export of the same credential carries the same identity hash
+   */
+  private async getRecipientSalt(certificate: Certificate): Promise<string> {
+    const existingSalt = certificate.verificationData?.credentialSalt as string;
+    if (existingSalt) return existingSalt;
+
+    const salt = crypto.randomBytes(16).toString('hex');
+    certificate.setVerificationData({ credentialSalt: salt });
+    await this.certificateRepository.update(certificate.id, {
+      verificationData: certificate.verificationData,
+    });
+
+    return salt;
+  }
+
+  private async getPublicCertificate(verificationCode: string): Promise<Certificate> {
+    const certificate = await this.certificateRepository.findOne({
+      where: { verificationCode },
+      relations: ['user', 'course', 'organization'],
+    });
+
+    if (!certificate || !certificate.isPublic) {
+      throw new NotFoundException('Certificate not found');
+    }
+
+    return certificate;
+  }
+
+  private assertExportable(certificate: Certificate): void {
+    if (certificate.isRevoked) {
+      throw new GoneException('Certificate has been revoked');
+    }
+
+    if (!certificate.isValid) {
+      throw new BadRequestException('Only issued, unexpired certificates can be exported');
+    }
+  }
+
+  private hashIdentity(email: string, salt: string): string {
+    const hash = crypto.createHash('sha256').update(`${email.toLowerCase()}${salt}`).digest('hex');
+    return `sha256$${hash}`;
+  }
+
+  private getCriteriaNarrative(course?: Course): string {
+    return (
+      course?.learningObjectives ||
+      `Complete the course "${course?.title}" and meet its passing score.`
+    );
+  }
+
+  private getEvidenceNarrative(certificate: Certificate): string {
+    const score =
+      certificate.finalScore !== null && certificate.finalScore !== undefined
+        ? ` with a final score of ${certificate.finalScore}%`
+        : '';
+    return `Completed the course "${certificate.course?.title}"${score}. Certificate number ${certificate.certificateNumber}.`;
+  }
+
+  private getApiBaseUrl(): string {
+    return this.configService.get<string>('API_BASE_URL', 'http://localhost:3000/api/v1');
+  }
+
+  private getIssuerUrl(organizationId: string): string {
+    return `${this.getApiBaseUrl()}/certificates/public/issuers/${organizationId}`;
+  }
+
+  private getAchievementUrl(courseId: string): string {
+    return `${this.getApiBaseUrl()}/certificates/public/achievements/${courseId}`;
+  }
+
+  private getCredentialUrl(verificationCode: string): string {
+    return `${this.getApiBaseUrl()}/certificates/public/credentials/${verificationCode}`;
+  }
+
+  private getAssertionUrl(verificationCode: string): string {
+    return `${this.getApiBaseUrl()}/certificates/public/badges/${verificationCode}`;
+  }
+
+  private getVerificationPageUrl(verificationCode: string): string {
+    const baseUrl = this.configService.get<string>('APP_BASE_URL', 'https://app.volkaihr.com');
+    return `${baseUrl}/certificates/verify/${verificationCode}`;
+  }
+
+  private getEncryptionSecret(): string {
+    const secret = this.configService.get<string>('ENCRYPTION_KEY');
+    if (!secret) {
+      throw new Error('ENCRYPTION_KEY must be configured to sign certificate credentials');
+    }
+    return secret;
+  }
+
+  private encryptPrivateKey(privateKeyPem: string): string {
+    return sealSecret(privateKeyPem, this.getEncryptionSecret(), 'credential-signing-key');
+  }
+
+  private decryptPrivateKey(encryptedPrivateKey: string): string {
+    return openSecret(encryptedPrivateKey, this.getEncryptionSecret(), 'credential-signing-key');
+  }
+}
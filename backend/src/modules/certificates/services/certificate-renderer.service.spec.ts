@@ -0,0 +1,60 @@
+import { CertificateType } from '../../../database/entities/certificate.entity';
+import { CertificateElementType } from '../../../database/entities/certificate-template.entity';
+import {
+  CertificateRendererService,
+  DEFAULT_CERTIFICATE_LAYOUT,
+} from './certificate-renderer.service';
+
+describe('CertificateRendererService', () => {
+  const service = new CertificateRendererService();
+
+  describe('interpolate', () => {
+    it('replaces placeholders with template data', () => {
+      expect(
+        service.interpolate('{{ recipientName }} completed {{courseName}}{{missing}}', {
+          recipientName: 'Jane Doe',
+          courseName: 'TypeScript Basics',
+        }),
+      ).toBe('Jane Doe completed TypeScript Basics');
+    });
+  });
+
+  describe('render', () => {
+    it('renders the default layout to a PDF', async () => {
+      const pdf = await service.render(DEFAULT_CERTIFICATE_LAYOUT, {
+        type: CertificateType.EXCELLENCE,
+        data: { recipientName: 'Jane Doe', courseName: 'TypeScript Basics' },
+        verificationUrl: 'https://example.com/certificates/verify/ABC123',
+      });
+
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    });
+
+    it('renders QR codes and skips assets from local paths and internal hosts', async () => {
+      const pdf = await service.render(
+        {
+          ...DEFAULT_CERTIFICATE_LAYOUT,
+          backgroundImageUrl: '/etc/passwd',
+          logoUrl: 'http://169.254.169.254/latest/meta-data/',
+          elements: [
+            { id: 'qr', type: CertificateElementType.QR_CODE, x: 700, y: 450, width: 80 },
+            {
+              id: 'signature',
+              type: CertificateElementType.SIGNATURE,
+              x: 100,
+              y: 440,
+              label: '{{instructorName}}',
+            },
+          ],
+        },
+        {
+          type: CertificateType.COMPLETION,
+          data: { instructorName: 'Course Instructor' },
+          verificationUrl: 'https://example.com/certificates/verify/ABC123',
+        },
+      );
+
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    });
+  });
+});
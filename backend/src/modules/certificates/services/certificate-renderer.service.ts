@@ -0,0 +1,358 @@
+import { Injectable, Logger } from '@nestjs/common';
+import PDFDocument from 'pdfkit';
+import axios from 'axios';
+import * as http from 'http';
+import * as https from 'https';
+import * as QRCode from 'qrcode';
+import { CertificateType } from '@database/entities/certificate.entity';
+import { parsePublicHttpUrl, publicAddressLookup } from '@common/utils/public-address';
+import {
+  CertificateElementType,
+  CertificateTemplate,
+  CertificateTemplateElement,
+} from '@database/entities/certificate-template.entity';
+
+/**
+ * Page, branding and element definition needed to draw a certificate
+ */
+export type CertificateLayout = Pick<
+  CertificateTemplate,
+  | 'pageSize'
+  | 'orientation'
+  | 'backgroundColor'
+  | 'backgroundImageUrl'
+  | 'borderColor'
+  | 'logoUrl'
+  | 'fonts'
+  | 'elements'
+>;
+
+/**
+ * Values a layout is rendered with
+ */
+export interface CertificateRenderContext {
+  type: CertificateType;
+  data: Record<string, unknown>;
+  verificationUrl: string;
+  // Used when the layout has no logo of its own
+  fallbackLogoUrl?: string;
+}
+
+/**
+ * Heading and award sentence for each certificate type, exposed to
+ * templates as {{heading}} and {{awardText}}
+ */
+export const CERTIFICATE_TYPE_WORDING: Record<
+  CertificateType,
+  { heading: string; awardText: string }
+> = {
+  [CertificateType.COMPLETION]: {
+    heading: 'CERTIFICATE OF COMPLETION',
+    awardText: 'has successfully completed the course',
+  },
+  [CertificateType.ACHIEVEMENT]: {
+    heading: 'CERTIFICATE OF ACHIEVEMENT',
+    awardText: 'has achieved the learning outcomes of the course',
+  },
+  [CertificateType.PARTICIPATION]: {
+    heading: 'CERTIFICATE OF PARTICIPATION',
+    awardText: 'has participated in the course',
+  },
+  [CertificateType.EXCELLENCE]: {
+    heading: 'CERTIFICATE OF EXCELLENCE',
+    awardText: 'has completed with excellence the course',
+  },
+};
+
+const centered = (id: string, content: string, y: number, fontSize: number, color: string) => ({
+  id,
+  type: CertificateElementType.TEXT,
+  content,
+  x: 0,
+  y,
+  fontSize,
+  color,
+  align: 'center' as const,
+});
+
+/**
+ * Layout used when an organization has no template of its own
+ */
+export const DEFAULT_CERTIFICATE_LAYOUT: CertificateLayout = {
+  pageSize: 'A4',
+  orientation: 'landscape',
+  backgroundColor: '#f8f9fa',
+  borderColor: '#007bff',
+  fonts: [],
+  elements: [
+    centered('heading', '{{heading}}', 100, 36, '#007bff'),
+    centered('intro', 'This is to certify that', 180, 28, '#333333'),
+    centered('recipient', '{{recipientName}}', 220, 32, '#007bff'),
+    centered('award', '{{awardText}}', 280, 20, '#333333'),
+    centered('course', '{{courseName}}', 320, 24, '#007bff'),
+    {
+      ...centered('score', 'Final Score: {{finalScore}}% | Grade: {{grade}}', 380, 16, '#333333'),
+      hideWhenEmpty: true,
+    },
+    centered('issued', 'Issued on: {{issuedAt}}', 420, 14, '#666666'),
+    centered('organization', '{{organizationName}}', 460, 16, '#333333'),
+    {
+      id: 'footer',
+      type: CertificateElementType.TEXT,
+      content:
+        'Certificate Number: {{certificateNumber}}\nVerification Code: {{verificationCode}}\nVerify at: {{verificationUrl}}',
+      x: 50,
+      y: 515,
+      fontSize: 10,
+      color: '#999999',
+    },
+  ],
+};
+
+const MAX_ASSET_BYTES = 5 * 1024 * 1024;
+// Asset fetches only connect to hosts that resolve to public addresses
+const PUBLIC_HTTP_AGENT = new http.Agent({ lookup: publicAddressLookup });
+const PUBLIC_HTTPS_AGENT = new https.Agent({ lookup: publicAddressLookup });
+
+/**
+ * Certificate Renderer Service
+ * Draws certificate PDFs from a template layout with PDFKit
+ */
+@Injectable()
+export class CertificateRendererService {
+  private readonly logger = new Logger(CertificateRendererService.name);
+
+  /**
+   * Render a layout to a PDF buffer. Remote assets are fetched up front because
+   * PDFKit draws synchronously; assets that fail to load are left out
+   */
+  async render(layout: CertificateLayout, context: CertificateRenderContext): Promise<Buffer> {
+    const data = {
+      ...CERTIFICATE_TYPE_WORDING[context.type],
+      verificationUrl: context.verificationUrl,
+      ...context.data,
+    };
+    const elements = layout.elements.filter(
+      element =>
+        !element.certificateTypes?.length || element.certificateTypes.includes(context.type),
+    );
+    const logoUrl = layout.logoUrl || context.fallbackLogoUrl;
+
+    const assets = await this.loadAssets([
+      layout.backgroundImageUrl,
+      logoUrl,
+      ...elements.map(element => element.imageUrl),
+      ...layout.fonts.map(font => font.url),
+    ]);
+    const qrCode = elements.some(element => element.type === CertificateElementType.QR_CODE)
+      ? await QRCode.toBuffer(context.verificationUrl, { margin: 1, width: 300 })
+      : undefined;
+
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({
+          size: layout.pageSize || 'A4',
+          layout: layout.orientation || 'landscape',
+          margin: 0,
+        });
+
+        const buffers: Buffer[] = [];
+        doc.on('data', buffers.push.bind(buffers));
+        doc.on('end', () => resolve(Buffer.concat(buffers)));
+
+        const fonts = new Set<string>();
+        for (const font of layout.fonts) {
+          const fontData = assets.get(font.url);
+          if (!fontData) continue;
+          doc.registerFont(font.name, fontData);
+          fonts.add(font.name);
+        }
+
+        // Background
+        if (layout.backgroundColor) {
+          doc.rect(0, 0, doc.page.width, doc.page.height).fill(layout.backgroundColor);
+        }
+
+        const background = assets.get(layout.backgroundImageUrl);
+        if (background) {
+          doc.image(background, 0, 0, { width: doc.page.width, height: doc.page.height });
+        }
+
+        // Border
+        if (layout.borderColor) {
+          doc
+            .rect(30, 30, doc.page.width - 60, doc.page.height - 60)
+            .lineWidth(3)
+            .stroke(layout.borderColor);
+        }
+
+        for (const element of elements) {
+          switch (element.type) {
+            case CertificateElementType.TEXT:
+              this.drawText(doc, element, data, fonts);
+              break;
+            case CertificateElementType.LOGO:
+              this.drawImage(doc, element, assets.get(element.imageUrl || logoUrl));
+              break;
+            case CertificateElementType.IMAGE:
+              this.drawImage(doc, element, assets.get(element.imageUrl));
+              break;
+            case CertificateElementType.SIGNATURE:
+              this.drawSignature(doc, element, assets.get(element.imageUrl), data, fonts);
+              break;
+            case CertificateElementType.QR_CODE:
+              this.drawImage(
+                doc,
+                { ...element, height: element.height ?? element.width ?? 80 },
+                qrCode,
+              );
+              break;
+          }
+        }
+
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Replace {{field}} placeholders with template data values
+   */
+  interpolate(content: string, data: Record<string, unknown>): string {
+    return content.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, field: string) =>
+      this.formatValue(data[field]),
+    );
+  }
+
+  private drawText(
+    doc: any,
+    element: CertificateTemplateElement,
+    data: Record<string, unknown>,
+    fonts: Set<string>,
+  ): void {
+    const content = element.content || '';
+    const placeholders = content.match(/\{\{\s*([\w.]+)\s*\}\}/g) || [];
+
+    if (
+      element.hideWhenEmpty &&
+      placeholders.some(placeholder => !this.formatValue(data[placeholder.replace(/[{}\s]/g, '')]))
+    ) {
+      return;
+    }
+
+    doc
+      .font(this.resolveFont(element.font, fonts))
+      .fontSize(element.fontSize || 14)
+      .fillColor(element.color || '#333333')
+      .text(this.interpolate(content, data), element.x, element.y, {
+        width: element.width ?? doc.page.width - element.x * 2,
+        align: element.align || 'left',
+      });
+  }
+
+  private drawImage(
+    doc: any,
+    element: CertificateTemplateElement,
+    image: Buffer | undefined,
+  ): void {
+    if (!image) return;
+
+    const width = element.width ?? 120;
+    doc.image(
+      image,
+      element.x,
+      element.y,
+      element.height ? { fit: [width, element.height] } : { width },
+    );
+  }
+
+  private drawSignature(
+    doc: any,
+    element: CertificateTemplateElement,
+    image: Buffer | undefined,
+    data: Record<string, unknown>,
+    fonts: Set<string>,
+  ): void {
+    const width = element.width ?? 160;
+    const height = element.height ?? 50;
+
+    this.drawImage(doc, { ...element, width, height }, image);
+
+    // Signature line with the signer's caption underneath
+    const lineY = element.y + height + 4;
+    doc
+      .moveTo(element.x, lineY)
+      .lineTo(element.x + width, lineY)
+      .lineWidth(1)
+      .stroke(element.color || '#333333');
+
+    if (element.label) {
+      doc
+        .font(this.resolveFont(element.font, fonts))
+        .fontSize(element.fontSize || 10)
+        .fillColor(element.color || '#333333')
+        .text(this.interpolate(element.label, data), element.x, lineY + 4, {
+          width,
+          align: 'center',
+        });
+    }
+  }
+
+  private resolveFont(font: string | undefined, fonts: Set<string>): string {
+    const standardFonts = [
+      'Helvetica',
+      'Helvetica-Bold',
+      'Helvetica-Oblique',
+      'Times-Roman',
+      'Times-Bold',
+      'Times-Italic',
+      'Courier',
+      'Courier-Bold',
+    ];
+    return font && (fonts.has(font) || standardFonts.includes(font)) ? font : 'Helvetica';
+  }
+
+  private formatValue(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    if (value instanceof Date) return value.toLocaleDateString();
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+      return new Date(value).toLocaleDateString();
+    }
+    return String(value);
+  }
+
+  /**
+   * Fetch images and fonts from data URIs or public http(s) URLs.
+   * Local paths, private networks and redirects are never followed so
+   * templates cannot pull files off the server or probe internal services
+   */
+  private async loadAssets(urls: Array<string | undefined>): Promise<Map<string, Buffer>> {
+    const assets = new Map<string, Buffer>();
+
+    for (const url of new Set(urls.filter(Boolean))) {
+      try {
+        if (url.startsWith('data:')) {
+          assets.set(url, Buffer.from(url.substring(url.indexOf(',') + 1), 'base64'));
+        } else if (/^https?:\/\//.test(url)) {
+          const response = await axios.get<ArrayBuffer>(parsePublicHttpUrl(url).href, {
+            responseType: 'arraybuffer',
+            timeout: 10000,
+            maxContentLength: MAX_ASSET_BYTES,
+            maxRedirects: 0,
+            httpAgent: PUBLIC_HTTP_AGENT,
+            httpsAgent: PUBLIC_HTTPS_AGENT,
+          });
+          assets.set(url, Buffer.from(response.data));
+        } else {
+          this.logger.warn(`Skipping unsupported certificate asset URL: ${url}`);
+        }
+      } catch (error) {
+        this.logger.warn(`Failed to load certificate asset ${url}: ${error.message}`);
+      }
+    }
+
+    return assets;
+  }
+}
@@ -0,0 +1,281 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { CertificateType } from '@database/entities/certificate.entity';
+import {
+  CertificateTemplate,
+  CertificateTemplateElement,
+  CertificateTemplateFont,
+} from '@database/entities/certificate-template.entity';
+import { Organization } from '@database/entities/organization.entity';
+import { AuthenticatedUser } from '@modules/auth/strategies/jwt.strategy';
+import { CertificateRendererService } from './certificate-renderer.service';
+
+/**
+ * Certificate template create/update request interface
+ */
+export interface CertificateTemplateRequest {
+  name: string;
+  description?: string;
+  type?: CertificateType;
+  isDefault?: boolean;
+  pageSize?: string;
+  orientation?: 'portrait' | 'landscape';
+  backgroundColor?: string;
+  backgroundImageUrl?: string;
+  borderColor?: string;
+  logoUrl?: string;
+  fonts?: CertificateTemplateFont[];
+  elements?: CertificateTemplateElement[];
+}
+
+/**
+ * Certificate template preview request interface
+ */
+export interface CertificateTemplatePreviewRequest {
+  type?: CertificateType;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Certificate Template Service
+ * Manages organization certificate templates and picks the one a certificate is rendered with
+ */
+@Injectable()
+export class CertificateTemplateService {
+  private readonly logger = new Logger(CertificateTemplateService.name);
+
+  constructor(
+    @InjectRepository(CertificateTemplate)
+    private readonly templateRepository: Repository<CertificateTemplate>,
+    @InjectRepository(Organization)
+    private readonly organizationRepository: Repository<Organization>,
+    private readonly rendererService: CertificateRendererService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Create a template for the user's current organization
+   */
+  async createTemplate(
+    request: CertificateTemplateRequest,
+    currentUser: AuthenticatedUser,
+  ): Promise<CertificateTemplate> {
+    const organizationId = this.getOrganizationId(currentUser);
+    this.validateElements(request.elements || []);
+
+    const template = this.templateRepository.create({
+      ...request,
+      organizationId,
+      fonts: request.fonts || [],
+      elements: request.elements || [],
+      isDefault: request.isDefault ?? false,
+      createdBy: currentUser.id,
+    });
+
+    if (template.isDefault) {
+      await this.clearDefault(organizationId, template.type);
+    }
+
+    const savedTemplate = await this.templateRepository.save(template);
+
+    this.eventEmitter.emit('certificate.template.created', {
+      templateId: savedTemplate.id,
+      organizationId,
+      createdBy: currentUser.id,
+    });
+
+    this.logger.log(`Certificate template created: ${savedTemplate.id}`);
+    return savedTemplate;
+  }
+
+  /**
+   * List the templates of the user's current organization
+   */
+  async getTemplates(
+    currentUser: AuthenticatedUser,
+    type?: CertificateType,
+  ): Promise<CertificateTemplate[]> {
+    const organizationId = this.getOrganizationId(currentUser);
+
+    return await this.templateRepository.find({
+      where: { organizationId, isArchived: false, ...(type && { type }) },
+      order: { isDefault: 'DESC', updatedAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Get template by ID with organization access control
+   */
+  async getTemplateById(
+    templateId: string,
+    currentUser: AuthenticatedUser,
+  ): Promise<CertificateTemplate> {
+    const template = await this.templateRepository.findOne({
+      where: { id: templateId, isArchived: false },
+    });
+
+    if (!template) {
+      throw new NotFoundException(`Certificate template not found: ${templateId}`);
+    }
+
+    if (template.organizationId !== currentUser.currentOrganizationId) {
+      throw new ForbiddenException('Access denied to this certificate template');
+    }
+
+    return template;
+  }
+
+  /**
+   * Update template
+   */
+  async updateTemplate(
+    templateId: string,
+    request: Partial<CertificateTemplateRequest>,
+    currentUser: AuthenticatedUser,
+  ): Promise<CertificateTemplate> {
+    const template = await this.getTemplateById(templateId, currentUser);
+
+    if (request.elements) {
+      this.validateElements(request.elements);
+    }
+
+    Object.assign(template, request);
+
+    if (request.isDefault) {
+      await this.clearDefault(template.organizationId, template.type, template.id);
+    }
+
+    const savedTemplate = await this.templateRepository.save(template);
+
+    this.eventEmitter.emit('certificate.template.updated', {
+      templateId,
+      organizationId: template.organizationId,
+      updatedBy: currentUser.id,
+    });
+
+    return savedTemplate;
+  }
+
+  /**
+   * Archive template. Issued certificates keep their rendered PDFs
+   */
+  async deleteTemplate(templateId: string, currentUser: AuthenticatedUser): Promise<void> {
+    const template = await this.getTemplateById(templateId, currentUser);
+
+    template.isArchived = true;
+    template.isDefault = false;
+    await this.templateRepository.save(template);
+
+    this.eventEmitter.emit('certificate.template.deleted', {
+      templateId,
+      organizationId: template.organizationId,
+      deletedBy: currentUser.id,
+    });
+  }
+
+  /**
+   * Render a template with sample data, overridable per field
+   */
+  async renderPreview(
+    templateId: string,
+    request: CertificateTemplatePreviewRequest,
+    currentUser: AuthenticatedUser,
+  ): Promise<Buffer> {
+    const template = await this.getTemplateById(templateId, currentUser);
+    const organization = await this.organizationRepository.findOne({
+      where: { id: template.organizationId },
+    });
+
+    return await this.rendererService.render(template, {
+      type: request.type || template.type || CertificateType.COMPLETION,
+      verificationUrl: 'https://example.com/certificates/verify/PREVIEW',
+      fallbackLogoUrl: organization?.logoUrl,
+      data: {
+        recipientName: 'Jane Doe',
+        courseName: 'Sample Course',
+        organizationName: organization?.name || 'Your Organization',
+        instructorName: 'Course Instructor',
+        completionDate: new Date(),
+        issuedAt: new Date(),
+        certificateNumber: 'CERT-PREVIEW',
+        verificationCode: 'PREVIEW',
+        finalScore: 95,
+        grade: 'A',
+        ...request.data,
+      },
+    });
+  }
+
+  /**
+   * Pick the template a certificate is rendered with: the requested one,
+   * then the organization's template for the type, then its general default.
+   * Returns null when the built-in layout should be used
+   */
+  async resolveTemplate(
+    organizationId: string,
+    type: CertificateType,
+    templateId?: string,
+  ): Promise<CertificateTemplate | null> {
+    const templates = await this.templateRepository.find({
+      where: [
+        { organizationId, isArchived: false, type },
+        { organizationId, isArchived: false, type: IsNull() },
+      ],
+      order: { updatedAt: 'DESC' },
+    });
+
+    const requested = templateId && templates.find(template => template.id === templateId);
+    if (requested) return requested;
+
+    const rank = (template: CertificateTemplate) =>
+      (template.type === type ? 2 : 0) + (template.isDefault ? 1 : 0);
+    const candidates = templates
+      .filter(template => template.type === type || template.isDefault)
+      .sort((a, b) => rank(b) - rank(a));
+
+    return candidates[0] || null;
+  }
+
+  private async clearDefault(
+    organizationId: string,
+    type: CertificateType | undefined,
+    exceptId?: string,
+  ): Promise<void> {
+    const defaults = await this.templateRepository.find({
+      where: { organizationId, isDefault: true, type: type ?? IsNull() },
+    });
+
+    for (const template of defaults.filter(t => t.id !== exceptId)) {
+      template.isDefault = false;
+      await this.templateRepository.save(template);
+    }
+  }
+
+  private validateElements(elements: CertificateTemplateElement[]): void {
+    const ids = new Set<string>();
+
+    for (const element of elements) {
+      if (ids.has(element.id)) {
+        throw new BadRequestException(`Duplicate template element ID: ${element.id}`);
+      }
+      ids.add(element.id);
+    }
+  }
+
+  private getOrganizationId(currentUser: AuthenticatedUser): string {
+    if (!currentUser.currentOrganizationId) {
+      throw new BadRequestException(
+        'An organization context is required for certificate templates',
+      );
+    }
+    return currentUser.currentOrganizationId;
+  }
+}
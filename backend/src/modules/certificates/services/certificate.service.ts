@@ -9,7 +9,6 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { ConfigService } from '@nestjs/config';
-import  PDFDocument from 'pdfkit';
 import * as fs from 'fs';
 import * as path from 'path';
 import { 
@@ -21,8 +20,14 @@ import { Enrollment } from '@database/entities/enrollment.entity';
 import { Course } from '@database/entities/course.entity';
 import { User } from '@/database/entities/user.entity';
 import { Organization } from '@database/entities/organization.entity';
+import { CertificateTemplate } from '@database/entities/certificate-template.entity';
 import { FileManagerService } from '@modules/files/services/file-manager.service';
 import { AuthenticatedUser } from '@modules/auth/strategies/jwt.strategy';
+import { CertificateTemplateService } from './certificate-template.service';
+import {
+  CertificateRendererService,
+  DEFAULT_CERTIFICATE_LAYOUT,
+} from './certificate-renderer.service';
 
 /**
  * Certificate generation request interface
@@ -50,27 +55,6 @@ export interface CertificateVerificationResult {
   };
 }
 
-/**
- * Certificate template interface
- */
-export interface CertificateTemplate {
-  id: string;
-  name: string;
-  type: CertificateType;
-  layout: {
-    width: number;
-    height: number;
-    orientation: 'portrait' | 'landscape';
-  };
-  elements: Array<{
-    type: 'text' | 'image' | 'signature' | 'qr_code';
-    content: string;
-    position: { x: number; y: number };
-    style?: Record<string, unknown>;
-  }>;
-  styles: Record<string, unknown>;
-}
-
 /**
  * Certificate Service
  * Handles certificate generation, verification, and management
@@ -93,6 +77,8 @@ export class CertificateService {
     @InjectRepository(Organization)
     private readonly organizationRepository: Repository<Organization>,
     private readonly fileManagerService: FileManagerService,
+    private readonly templateService: CertificateTemplateService,
+    private readonly rendererService: CertificateRendererService,
     private readonly eventEmitter: EventEmitter2,
     private readonly configService: ConfigService,
   ) {
@@ -135,7 +121,7 @@ export class CertificateService {
       console.log('request: ',request)
       // Check if certificate already exists
       const existingCertificate = await this.certificateRepository.findOne({
-        where: { enrollmentId: request as any },
+        where: { enrollmentId: request.enrollmentId },
       });
       console.log('existing :',existingCertificate)
 
@@ -153,13 +139,20 @@ export class CertificateService {
       // Determine certificate type
       const certificateType = request.type || this.determineCertificateType(enrollment);
 
+      // Resolve organization template, falling back to the built-in layout
+      const template = await this.templateService.resolveTemplate(
+        enrollment.course.organizationId,
+        certificateType,
+        request.templateId,
+      );
+
       console.log("Certificate type: ", certificateType)
 
       // Create certificate record
       const certificate = this.certificateRepository.create({
         userId: enrollment.userId,
         courseId: enrollment.course.id,
-        enrollmentId: request as any,
+        enrollmentId: request.enrollmentId,
         organizationId: enrollment.course.organizationId,
         certificateNumber,
         verificationCode,
@@ -171,7 +164,7 @@ export class CertificateService {
         passingScore: enrollment.course.passingScore,
         grade: this.calculateGrade(enrollment.finalScore),
         issuedAt: new Date(),
-        templateId: request.templateId || 'default',
+        templateId: template?.id || 'default',
         templateData: {
           ...request.customData,
           recipientName: `${enrollment.user.firstName} ${enrollment.user.lastName}`,
@@ -194,7 +187,11 @@ export class CertificateService {
       console.log('savedCertificate: ', savedCertificate);
 
       // Generate PDF certificate
-      const pdfBuffer = await this.generateCertificatePDF(savedCertificate);
+      const pdfBuffer = await this.generateCertificatePDF(
+        savedCertificate,
+        template,
+        enrollment.course.organization,
+      );
       console.log("PDF Buffer: ", pdfBuffer)
 
       // Upload PDF to file storage
@@ -507,83 +504,16 @@ export class CertificateService {
   /**
    * Generate certificate PDF
    */
-  private async generateCertificatePDF(certificate: Certificate): Promise<Buffer> {
-    return new Promise((resolve, reject) => {
-      try {
-        const doc = new PDFDocument({
-          layout: 'landscape',
-          size: 'A4',
-        });
-
-        const buffers: Buffer[] = [];
-        doc.on('data', buffers.push.bind(buffers));
-        doc.on('end', () => {
-          const pdfBuffer = Buffer.concat(buffers);
-          resolve(pdfBuffer);
-        });
-
-        // Certificate design
-        const templateData = certificate.getTemplateData();
-        
-        // Background
-        doc.rect(0, 0, doc.page.width, doc.page.height)
-           .fill('#f8f9fa');
-
-        // Border
-        doc.rect(30, 30, doc.page.width - 60, doc.page.height - 60)
-           .stroke('#007bff', 3);
-
-        // Header
-        doc.fontSize(36)
-           .fillColor('#007bff')
-           .text('CERTIFICATE OF COMPLETION', 0, 100, { align: 'center' });
-
-        // Recipient name
-        doc.fontSize(28)
-           .fillColor('#333333')
-           .text('This is to certify that', 0, 180, { align: 'center' });
-
-        doc.fontSize(32)
-           .fillColor('#007bff')
-           .text(templateData.recipientName as string, 0, 220, { align: 'center' });
-
-        // Course completion text
-        doc.fontSize(20)
-           .fillColor('#333333')
-           .text('has successfully completed the course', 0, 280, { align: 'center' });
-
-        doc.fontSize(24)
-           .fillColor('#007bff')
-           .text(templateData.courseName as string, 0, 320, { align: 'center' });
-
-        // Score and grade
-        if (templateData.finalScore) {
-          doc.fontSize(16)
-             .fillColor('#333333')
-             .text(`Final Score: ${templateData.finalScore}% | Grade: ${templateData.grade}`, 0, 380, { align: 'center' });
-        }
-
-        // Issue date
-        doc.fontSize(14)
-           .fillColor('#666666')
-           .text(`Issued on: ${new Date(templateData.issuedAt as Date).toLocaleDateString()}`, 0, 420, { align: 'center' });
-
-        // Organization name
-        doc.fontSize(16)
-           .fillColor('#333333')
-           .text(templateData.organizationName as string, 0, 460, { align: 'center' });
-
-        // Certificate number and verification
-        doc.fontSize(10)
-           .fillColor('#999999')
-           .text(`Certificate Number: ${certificate.certificateNumber}`, 50, doc.page.height - 80)
-           .text(`Verification Code: ${certificate.verificationCode}`, 50, doc.page.height - 65)
-           .text(`Verify at: ${this.getVerificationUrl(certificate.verificationCode)}`, 50, doc.page.height - 50);
-
-        doc.end();
-      } catch (error) {
-        reject(error);
-      }
+  private async generateCertificatePDF(
+    certificate: Certificate,
+    template: CertificateTemplate | null,
+    organization?: Organization,
+  ): Promise<Buffer> {
+    return await this.rendererService.render(template || DEFAULT_CERTIFICATE_LAYOUT, {
+      type: certificate.type,
+      data: certificate.getTemplateData(),
+      verificationUrl: this.getVerificationUrl(certificate.verificationCode),
+      fallbackLogoUrl: organization?.logoUrl,
     });
   }
 
@@ -14,6 +14,15 @@ export interface EmailTemplate {
   text?: string;
 }
 
+/**
+ * Email attachment interface
+ */
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
 /**
  * Email options interface
  */
@@ -26,6 +35,7 @@ export interface EmailOptions {
   text?: string;
   from?: string;
   fromName?: string;
+  attachments?: EmailAttachment[];
 }
 
 /**
@@ -63,6 +73,7 @@ export class EmailService {
         text,
         from,
         fromName,
+        attachments,
       } = options;
 
       let emailHtml = html;
@@ -85,6 +96,12 @@ export class EmailService {
         subject,
         html: emailHtml,
         text: emailText,
+        attachments: attachments?.map(attachment => ({
+          filename: attachment.filename,
+          content: attachment.content.toString('base64'),
+          type: attachment.contentType,
+          disposition: 'attachment',
+        })),
       };
 
       // Send email via SendGrid
@@ -264,6 +281,135 @@ export class EmailService {
     });
   }
 
+  /**
+   * Send a scheduled resume export with the generated file attached
+   */
+  async sendResumeExport(
+    to: string[],
+    candidateName: string,
+    resumeTitle: string,
+    frequency: string,
+    attachment: EmailAttachment,
+  ): Promise<void> {
+    await this.sendEmail({
+      to,
+      subject: `Latest resume - ${candidateName}`,
+      template: 'resume-export',
+      context: {
+        candidateName,
+        resumeTitle,
+        frequency,
+        generatedAt: new Date().toLocaleString(),
+      },
+      attachments: [attachment],
+    });
+  }
+
+  /**
+   * Send the email configured on a hiring pipeline stage
+   */
+  async sendPipelineStageEmail(
+    to: string,
+    subject: string,
+    context: {
+      candidateName: string;
+      jobTitle: string;
+      stageName: string;
+      message: string;
+    },
+    template: string = 'pipeline-stage',
+  ): Promise<void> {
+    await this.sendEmail({
+      to,
+      subject,
+      template,
+      context,
+    });
+  }
+
+  /**
+   * Send a candidate the link to book an interview slot
+   */
+  async sendInterviewBookingInvite(
+    to: string,
+    context: {
+      candidateName: string;
+      jobTitle: string;
+      bookingUrl: string;
+      durationMinutes: number;
+      expiresAt: string;
+      message?: string;
+    },
+  ): Promise<void> {
+    await this.sendEmail({
+      to,
+      subject: `Book your interview - ${context.jobTitle}`,
+      template: 'interview-booking-invite',
+      context,
+    });
+  }
+
+  /**
+   * Confirm a booked or rescheduled interview to a participant
+   */
+  async sendInterviewBookingConfirmation(
+    to: string,
+    context: {
+      recipientName: string;
+      jobTitle: string;
+      scheduledAt: string;
+      durationMinutes: number;
+      meetingUrl?: string;
+      manageUrl?: string;
+      rescheduled: boolean;
+    },
+    invite?: EmailAttachment,
+  ): Promise<void> {
+    await this.sendEmail({
+      to,
+      subject: `Interview ${context.rescheduled ? 'Rescheduled' : 'Confirmed'} - ${context.jobTitle}`,
+      template: 'interview-booking-confirmation',
+      context,
+      attachments: invite ? [invite] : undefined,
+    });
+  }
+
+  /**
+   * Send a participant the calendar invite for a scheduled, moved or cancelled interview
+   */
+  async sendInterviewCalendarUpdate(
+    to: string,
+    context: {
+      recipientName: string;
+      jobTitle: string;
+      scheduledAt: string;
+      durationMinutes: number;
+      meetingUrl?: string;
+      eventType: 'scheduled' | 'rescheduled' | 'cancelled';
+      reason?: string;
+    },
+    invite: EmailAttachment,
+  ): Promise<void> {
+    const headline = {
+      scheduled: 'Scheduled',
+      rescheduled: 'Rescheduled',
+      cancelled: 'Cancelled',
+    }[context.eventType];
+
+    await this.sendEmail({
+      to,
+      subject: `Interview ${headline} - ${context.jobTitle}`,
+      template: 'interview-calendar',
+      context: {
+        ...context,
+        headline,
+        rescheduled: context.eventType === 'rescheduled',
+        cancelled: context.eventType === 'cancelled',
+      },
+      attachments: [invite],
+    });
+  }
+
   /**
    * Render email template with context
    */
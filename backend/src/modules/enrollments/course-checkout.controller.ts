@@ -0,0 +1,122 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { CourseOrder } from '../../database/entities/course-order.entity';
+import { CourseCoupon } from '../../database/entities/course-coupon.entity';
+import { CourseCheckoutService, CourseCheckoutSession } from './services/course-checkout.service';
+import {
+  CreateCourseCheckoutDto,
+  CreateCourseCouponDto,
+  RefundCourseOrderDto,
+} from './dto/course-checkout.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../auth/strategies/jwt.strategy';
+
+@ApiTags('Course Checkout')
+@Controller('enrollments/checkout')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+export class CourseCheckoutController {
+  constructor(private readonly checkoutService: CourseCheckoutService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Start checkout for a paid course' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Order created, awaiting payment' })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Course is not purchasable or coupon is invalid',
+  })
+  @ApiResponse({ status: HttpStatus.CONFLICT, description: 'Course has already been purchased' })
+  async createCheckout(
+    @Body() dto: CreateCourseCheckoutDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<CourseCheckoutSession> {
+    return this.checkoutService.createCheckout(dto, user);
+  }
+
+  @Get('orders')
+  @ApiOperation({ summary: 'List my course orders' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Orders retrieved successfully' })
+  async getMyOrders(@CurrentUser() user: AuthenticatedUser): Promise<CourseOrder[]> {
+    return this.checkoutService.getUserOrders(user);
+  }
+
+  @Get('orders/:orderId')
+  @ApiOperation({ summary: 'Get a course order' })
+  @ApiParam({ name: 'orderId', description: 'Order ID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Order retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Order not found' })
+  async getOrder(
+    @Param('orderId', ParseUUIDPipe) orderId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<CourseOrder> {
+    return this.checkoutService.getOrder(orderId, user);
+  }
+
+  @Post('orders/:orderId/refund')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Refund a course order and revoke the enrollment' })
+  @ApiParam({ name: 'orderId', description: 'Order ID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Order refunded' })
+  @ApiResponse({ status: HttpStatus.FORBIDDEN, description: 'Organization admin access required' })
+  async refundOrder(
+    @Param('orderId', ParseUUIDPipe) orderId: string,
+    @Body() dto: RefundCourseOrderDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<CourseOrder> {
+    return this.checkoutService.refundOrder(orderId, dto, user);
+  }
+
+  @Post('coupons')
+  @ApiOperation({ summary: 'Create a course coupon' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Coupon created' })
+  @ApiResponse({ status: HttpStatus.CONFLICT, description: 'Coupon code already exists' })
+  async createCoupon(
+    @Body() dto: CreateCourseCouponDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<CourseCoupon> {
+    return this.checkoutService.createCoupon(dto, user);
+  }
+
+  @Get('coupons')
+  @ApiOperation({ summary: 'List course coupons of an organization' })
+  @ApiQuery({ name: 'organizationId', required: true })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Coupons retrieved successfully' })
+  async getCoupons(
+    @Query('organizationId', ParseUUIDPipe) organizationId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<CourseCoupon[]> {
+    return this.checkoutService.getCoupons(organizationId, user);
+  }
+
+  @Delete('coupons/:couponId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Deactivate a course coupon' })
+  @ApiParam({ name: 'couponId', description: 'Coupon ID' })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT, description: 'Coupon deactivated' })
+  async deactivateCoupon(
+    @Param('couponId', ParseUUIDPipe) couponId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    return this.checkoutService.deactivateCoupon(couponId, user);
+  }
+}
@@ -0,0 +1,95 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsUUID,
+  IsDateString,
+  Length,
+  Matches,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PaymentProvider } from '../../../database/entities/payment.entity';
+import { CourseCouponDiscountType } from '../../../database/entities/course-coupon.entity';
+
+export class CreateCourseCheckoutDto {
+  @ApiProperty({ description: 'Paid course to purchase' })
+  @IsUUID()
+  courseId: string;
+
+  @ApiProperty({
+    enum: [PaymentProvider.STRIPE, PaymentProvider.RAZORPAY],
+    description: 'Payment provider',
+  })
+  @IsIn([PaymentProvider.STRIPE, PaymentProvider.RAZORPAY])
+  provider: PaymentProvider;
+
+  @ApiPropertyOptional({ description: 'Coupon code', example: 'LAUNCH20' })
+  @IsOptional()
+  @IsString()
+  @Length(1, 64)
+  couponCode?: string;
+}
+
+export class RefundCourseOrderDto {
+  @ApiPropertyOptional({ description: 'Refund reason', example: 'Requested by learner' })
+  @IsOptional()
+  @IsString()
+  @Length(1, 500)
+  reason?: string;
+}
+
+export class CreateCourseCouponDto {
+  @ApiProperty({ description: 'Organization selling the courses' })
+  @IsUUID()
+  organizationId: string;
+
+  @ApiPropertyOptional({ description: 'Restrict the coupon to one course' })
+  @IsOptional()
+  @IsUUID()
+  courseId?: string;
+
+  @ApiProperty({ description: 'Coupon code', example: 'LAUNCH20' })
+  @Matches(/^[A-Za-z0-9_-]{3,64}$/, {
+    message: 'code must be 3-64 letters, digits, dashes or underscores',
+  })
+  code: string;
+
+  @ApiProperty({ enum: CourseCouponDiscountType, description: 'Discount type' })
+  @IsEnum(CourseCouponDiscountType)
+  discountType: CourseCouponDiscountType;
+
+  @ApiProperty({
+    description:
+      'Percentage (1-100), or an amount in the smallest currency unit for fixed discounts',
+    example: 20,
+  })
+  @IsInt()
+  @Min(1)
+  discountValue: number;
+
+  @ApiPropertyOptional({ description: 'Currency of a fixed discount', example: 'USD' })
+  @ValidateIf(dto => dto.discountType === CourseCouponDiscountType.FIXED)
+  @IsString()
+  @Length(3, 3)
+  currency?: string;
+
+  @ApiPropertyOptional({ description: 'Maximum number of redemptions' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxRedemptions?: number;
+
+  @ApiPropertyOptional({ description: 'Start of validity' })
+  @IsOptional()
+  @IsDateString()
+  validFrom?: string;
+
+  @ApiPropertyOptional({ description: 'End of validity' })
+  @IsOptional()
+  @IsDateString()
+  validUntil?: string;
+}
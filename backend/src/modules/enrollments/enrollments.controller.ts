@@ -73,7 +73,7 @@ export class EnrollmentsController {
     console.log("body: ",enrollUserDto)
     try {
       const enrollment = await this.enrollmentService.enrollUser(
-        req.user.id,
+        enrollUserDto,
         user,
         enrollUserDto.courseId
       );
@@ -1,7 +1,9 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { EnrollmentsController } from './enrollments.controller';
+import { CourseCheckoutController } from './course-checkout.controller';
 import { EnrollmentService } from './services/enrollment.service';
+import { CourseCheckoutService } from './services/course-checkout.service';
 import { Enrollment } from '../../database/entities/enrollment.entity';
 import { LessonProgress } from '../../database/entities/lesson-progress.entity';
 import { Course } from '../../database/entities/course.entity';
@@ -9,6 +11,12 @@ import { Module as CourseModule } from '../../database/entities/module.entity';
 import { Lesson } from '../../database/entities/lesson.entity';
 import { User } from '../../database/entities/user.entity';
 import { Certificate } from '../../database/entities/certificate.entity';
+import { CourseOrder } from '../../database/entities/course-order.entity';
+import { CourseCoupon } from '../../database/entities/course-coupon.entity';
+import { Invoice } from '../../database/entities/invoice.entity';
+import { Payment } from '../../database/entities/payment.entity';
+import { OrganizationMembership } from '../../database/entities/organization-membership.entity';
+import { BillingModule } from '../billing/billing.module';
 
 @Module({
   imports: [
@@ -20,10 +28,17 @@ import { Certificate } from '../../database/entities/certificate.entity';
       Lesson,
       User,
       Certificate,
+      CourseOrder,
+      CourseCoupon,
+      Invoice,
+      Payment,
+      OrganizationMembership,
     ]),
+    BillingModule,
   ],
-  controllers: [EnrollmentsController],
-  providers: [EnrollmentService],
+  // Checkout routes are registered first so "enrollments/checkout" is not read as an enrollment ID
+  controllers: [CourseCheckoutController, EnrollmentsController],
+  providers: [EnrollmentService, CourseCheckoutService],
   exports: [EnrollmentService],
 })
 export class EnrollmentsModule {}
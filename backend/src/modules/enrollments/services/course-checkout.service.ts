@@ -0,0 +1,775 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
+import { ConfigService } from '@nestjs/config';
+import { Course, CourseAccessType } from '@database/entities/course.entity';
+import { CourseOrder, CourseOrderStatus } from '@database/entities/course-order.entity';
+import { CourseCoupon, CourseCouponDiscountType } from '@database/entities/course-coupon.entity';
+import { Enrollment } from '@database/entities/enrollment.entity';
+import { Invoice } from '@database/entities/invoice.entity';
+import { Payment, PaymentMethod, PaymentProvider } from '@database/entities/payment.entity';
+import { User } from '@database/entities/user.entity';
+import {
+  OrganizationMembership,
+  MembershipStatus,
+} from '@database/entities/organization-membership.entity';
+import { AuthenticatedUser } from '@modules/auth/strategies/jwt.strategy';
+import { BillingService } from '@modules/billing/services/billing.service';
+import { StripeService } from '@modules/billing/services/stripe.service';
+import { RazorpayService } from '@modules/billing/services/razorpay.service';
+import { EnrollmentService } from './enrollment.service';
+import {
+  CreateCourseCheckoutDto,
+  CreateCourseCouponDto,
+  RefundCourseOrderDto,
+} from '../dto/course-checkout.dto';
+
+/**
+ * What the client needs to collect the payment with the provider's SDK
+ */
+export interface CourseCheckoutSession {
+  orderId: string;
+  status: CourseOrderStatus;
+  provider: PaymentProvider;
+  amountCents: number;
+  discountCents: number;
+  totalCents: number;
+  currency: string;
+  // Stripe payment intent client secret
+  clientSecret?: string;
+  // Razorpay order and public key for Razorpay Checkout
+  providerOrderId?: string;
+  keyId?: string;
+  // Set when a coupon covers the whole price
+  enrollmentId?: string;
+}
+
+/**
+ * Payment confirmed by a provider webhook
+ */
+interface VerifiedPayment {
+  providerPaymentId: string;
+  amountCents: number;
+  currency: string;
+  paymentMethod: PaymentMethod;
+  providerData: Record<string, unknown>;
+}
+
+const RAZORPAY_METHODS: Record<string, PaymentMethod> = {
+  card: PaymentMethod.CARD,
+  upi: PaymentMethod.UPI,
+  netbanking: PaymentMethod.NET_BANKING,
+  wallet: PaymentMethod.WALLET,
+  emi: PaymentMethod.EMI,
+};
+
+/**
+ * Course Checkout Service
+ * Sells paid courses through Stripe or Razorpay. Orders are fulfilled only
+ * from verified payment webhooks: the payment and a receipt invoice are
+ * recorded through billing and the enrollment is activated. Refunds revoke
+ * the enrollment
+ */
+@Injectable()
+export class CourseCheckoutService {
+  private readonly logger = new Logger(CourseCheckoutService.name);
+
+  constructor(
+    @InjectRepository(CourseOrder)
+    private readonly orderRepository: Repository<CourseOrder>,
+    @InjectRepository(CourseCoupon)
+    private readonly couponRepository: Repository<CourseCoupon>,
+    @InjectRepository(Course)
+    private readonly courseRepository: Repository<Course>,
+    @InjectRepository(Enrollment)
+    private readonly enrollmentRepository: Repository<Enrollment>,
+    @InjectRepository(Invoice)
+    private readonly invoiceRepository: Repository<Invoice>,
+    @InjectRepository(Payment)
+    private readonly paymentRepository: Repository<Payment>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(OrganizationMembership)
+    private readonly membershipRepository: Repository<OrganizationMembership>,
+    private readonly enrollmentService: EnrollmentService,
+    private readonly billingService: BillingService,
+    private readonly stripeService: StripeService,
+    private readonly razorpayService: RazorpayService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Start the purchase of a paid course
+   */
+  async createCheckout(
+    dto: CreateCourseCheckoutDto,
+    currentUser: AuthenticatedUser,
+  ): Promise<CourseCheckoutSession> {
+    const course = await this.courseRepository.findOne({ where: { id: dto.courseId } });
+
+    if (!course) {
+      throw new NotFoundException(`Course not found: ${dto.courseId}`);
+    }
+    if (!course.canEnroll(currentUser.id, currentUser.currentOrganizationId)) {
+      throw new BadRequestException('Course is not available for enrollment');
+    }
+    if (course.accessType === CourseAccessType.PREMIUM) {
+      throw new BadRequestException(
+        'Premium courses are unlocked by an organization subscription, not purchased',
+      );
+    }
+    if (course.accessType !== CourseAccessType.PAID || !course.price || Number(course.price) <= 0) {
+      throw new BadRequestException('Only paid courses go through checkout');
+    }
+
+    const enrollment = await this.enrollmentRepository.findOne({
+      where: { userId: currentUser.id, courseId: course.id },
+    });
+    if (
+      enrollment &&
+      (enrollment.isActive || enrollment.isCompleted || enrollment.hasValidPayment)
+    ) {
+      throw new ConflictException('Course has already been purchased');
+    }
+
+    // Earlier unpaid attempts are superseded by this one and give back their coupon
+    const pendingOrders = await this.orderRepository.find({
+      where: { userId: currentUser.id, courseId: course.id, status: CourseOrderStatus.PENDING },
+    });
+    for (const pendingOrder of pendingOrders) {
+      await this.closeUnpaidOrder(pendingOrder, CourseOrderStatus.CANCELLED);
+    }
+
+    const amountCents = Math.round(Number(course.price) * 100);
+    const coupon = dto.couponCode ? await this.reserveCoupon(dto.couponCode, course) : null;
+    const discountCents = coupon ? coupon.calculateDiscount(amountCents) : 0;
+
+    let order: CourseOrder;
+    try {
+      order = await this.orderRepository.save(
+        this.orderRepository.create({
+          userId: currentUser.id,
+          courseId: course.id,
+          organizationId: course.organizationId,
+          status: CourseOrderStatus.PENDING,
+          paymentProvider: dto.provider,
+          amountCents,
+          discountCents,
+          totalCents: amountCents - discountCents,
+          currency: course.currency,
+          couponId: coupon?.id,
+          couponCode: coupon?.code,
+        }),
+      );
+    } catch (error) {
+      if (coupon) await this.releaseCouponRedemption(coupon.id);
+      throw error;
+    }
+
+    try {
+      return await this.startPayment(order, course);
+    } catch (error) {
+      await this.closeUnpaidOrder(order, CourseOrderStatus.FAILED, 'Checkout could not be started');
+      throw error;
+    }
+  }
+
+  async getUserOrders(currentUser: AuthenticatedUser): Promise<CourseOrder[]> {
+    return this.orderRepository.find({
+      where: { userId: currentUser.id },
+      relations: ['course'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async getOrder(orderId: string, currentUser: AuthenticatedUser): Promise<CourseOrder> {
+    const order = await this.findOrder(orderId);
+
+    if (order.userId !== currentUser.id) {
+      await this.assertAdmin(order.organizationId, currentUser);
+    }
+
+    return order;
+  }
+
+  /**
+   * Refund a paid order and revoke the enrollment
+   */
+  async refundOrder(
+    orderId: string,
+    dto: RefundCourseOrderDto,
+    currentUser: AuthenticatedUser,
+  ): Promise<CourseOrder> {
+    const order = await this.findOrder(orderId);
+    await this.assertAdmin(order.organizationId, currentUser);
+
+    if (!order.isPaid) {
+      throw new BadRequestException('Only paid orders can be refunded');
+    }
+
+    if (order.paymentId) {
+      await this.billingService.refundPayment(order.paymentId, undefined, dto.reason);
+    }
+
+    return this.markRefunded(order, dto.reason || 'Refunded', currentUser.id);
+  }
+
+  // Coupons
+
+  async createCoupon(
+    dto: CreateCourseCouponDto,
+    currentUser: AuthenticatedUser,
+  ): Promise<CourseCoupon> {
+    await this.assertAdmin(dto.organizationId, currentUser);
+
+    if (dto.discountType === CourseCouponDiscountType.PERCENTAGE && dto.discountValue > 100) {
+      throw new BadRequestException('A percentage discount cannot exceed 100');
+    }
+
+    if (dto.courseId) {
+      const course = await this.courseRepository.findOne({
+        where: { id: dto.courseId, organizationId: dto.organizationId },
+      });
+      if (!course) {
+        throw new NotFoundException(`Course not found: ${dto.courseId}`);
+      }
+    }
+
+    const code = dto.code.toUpperCase();
+    const existing = await this.couponRepository.findOne({
+      where: { organizationId: dto.organizationId, code },
+    });
+    if (existing) {
+      throw new ConflictException(`Coupon ${code} already exists`);
+    }
+
+    const coupon = await this.couponRepository.save(
+      this.couponRepository.create({
+        organizationId: dto.organizationId,
+        courseId: dto.courseId,
+        code,
+        discountType: dto.discountType,
+        discountValue: dto.discountValue,
+        currency:
+          dto.discountType === CourseCouponDiscountType.FIXED ? dto.currency?.toUpperCase() : null,
+        maxRedemptions: dto.maxRedemptions,
+        validFrom: dto.validFrom ? new Date(dto.validFrom) : null,
+        validUntil: dto.validUntil ? new Date(dto.validUntil) : null,
+        isActive: true,
+        createdBy: currentUser.id,
+      }),
+    );
+
+    this.logger.log(`Course coupon created: ${code} in ${dto.organizationId} by ${currentUser.id}`);
+    return coupon;
+  }
+
+  async getCoupons(
+    organizationId: string,
+    currentUser: AuthenticatedUser,
+  ): Promise<CourseCoupon[]> {
+    await this.assertAdmin(organizationId, currentUser);
+
+    return this.couponRepository.find({
+      where: { organizationId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async deactivateCoupon(couponId: string, currentUser: AuthenticatedUser): Promise<void> {
+    const coupon = await this.couponRepository.findOne({ where: { id: couponId } });
+
+    if (!coupon) {
+      throw new NotFoundException(`Coupon not found: ${couponId}`);
+    }
+
+    await this.assertAdmin(coupon.organizationId, currentUser);
+    await this.couponRepository.update(coupon.id, { isActive: false });
+  }
+
+  // Payment webhooks
+
+  @OnEvent('billing.payment.succeeded')
+  async handleStripePaymentSucceeded(event: {
+    provider: string;
+    paymentIntentId: string;
+    paymentIntent: any;
+  }) {
+    if (event.provider !== 'stripe') return;
+
+    const paymentIntent = event.paymentIntent;
+    await this.handleVerifiedPayment(PaymentProvider.STRIPE, event.paymentIntentId, {
+      providerPaymentId: paymentIntent.latest_charge || paymentIntent.id,
+      amountCents: paymentIntent.amount_received ?? paymentIntent.amount,
+      currency: paymentIntent.currency,
+      paymentMethod: PaymentMethod.CARD,
+      providerData: {
+        stripe: { paymentIntentId: paymentIntent.id, chargeId: paymentIntent.latest_charge },
+      },
+    });
+  }
+
+  @OnEvent('billing.payment.captured')
+  async handleRazorpayPaymentCaptured(event: {
+    provider: string;
+    paymentId: string;
+    payment: any;
+  }) {
+    if (event.provider !== 'razorpay' || !event.payment?.order_id) return;
+
+    const payment = event.payment;
+    await this.handleVerifiedPayment(PaymentProvider.RAZORPAY, payment.order_id, {
+      providerPaymentId: payment.id,
+      amountCents: payment.amount,
+      currency: payment.currency,
+      paymentMethod: RAZORPAY_METHODS[payment.method] || PaymentMethod.CARD,
+      providerData: { razorpay: { paymentId: payment.id, orderId: payment.order_id } },
+    });
+  }
+
+  @OnEvent('billing.payment.failed')
+  async handlePaymentFailed(event: { provider: string; paymentIntent?: any; payment?: any }) {
+    try {
+      const [provider, providerOrderId, reason] =
+        event.provider === 'stripe'
+          ? [
+              PaymentProvider.STRIPE,
+              event.paymentIntent?.id,
+              event.paymentIntent?.last_payment_error?.message,
+            ]
+          : [PaymentProvider.RAZORPAY, event.payment?.order_id, event.payment?.error_description];
+
+      if (!providerOrderId) return;
+
+      const order = await this.orderRepository.findOne({
+        where: { paymentProvider: provider, providerOrderId, status: CourseOrderStatus.PENDING },
+      });
+      if (!order) return;
+
+      await this.closeUnpaidOrder(order, CourseOrderStatus.FAILED, reason || 'Payment failed');
+    } catch (error) {
+      this.logger.error('Failed to record failed course payment', error);
+    }
+  }
+
+  @OnEvent('billing.charge.refunded')
+  async handleStripeChargeRefunded(event: {
+    provider: string;
+    paymentIntentId?: string;
+    charge: any;
+  }) {
+    if (event.provider !== 'stripe' || !event.paymentIntentId) return;
+
+    // Partial refunds keep the enrollment
+    await this.handleProviderRefund(
+      PaymentProvider.STRIPE,
+      event.paymentIntentId,
+      event.charge.amount_refunded,
+      event.charge.refunded === true,
+    );
+  }
+
+  @OnEvent('billing.refund.created')
+  async handleRazorpayRefundCreated(event: { provider: string; refund: any }) {
+    if (event.provider !== 'razorpay' || !event.refund?.payment_id) return;
+
+    const order = await this.orderRepository.findOne({
+      where: {
+        paymentProvider: PaymentProvider.RAZORPAY,
+        providerPaymentId: event.refund.payment_id,
+      },
+    });
+    if (!order?.providerOrderId) return;
+
+    await this.handleProviderRefund(
+      PaymentProvider.RAZORPAY,
+      order.providerOrderId,
+      event.refund.amount,
+      event.refund.amount >= order.totalCents,
+    );
+  }
+
+  // Private helper methods
+
+  /**
+   * Fulfill a fully discounted order right away, otherwise open the payment
+   * with the provider
+   */
+  private async startPayment(order: CourseOrder, course: Course): Promise<CourseCheckoutSession> {
+    if (order.totalCents === 0) {
+      return this.toSession(await this.fulfillOrder(order, null));
+    }
+
+    const notes = { courseOrderId: order.id, courseId: course.id, userId: order.userId };
+
+    if (order.paymentProvider === PaymentProvider.STRIPE) {
+      const paymentIntent = await this.stripeService.createPaymentIntent({
+        amount: order.totalCents,
+        currency: order.currency,
+        description: `Course: ${course.title}`,
+        metadata: notes,
+        automaticPaymentMethods: true,
+      });
+
+      order.providerOrderId = paymentIntent.id;
+      await this.orderRepository.save(order);
+
+      return { ...this.toSession(order), clientSecret: paymentIntent.client_secret };
+    }
+
+    const razorpayOrder = await this.razorpayService.createOrder({
+      amount: order.totalCents,
+      currency: order.currency,
+      receipt: order.id,
+      notes,
+    });
+
+    order.providerOrderId = razorpayOrder.id;
+    await this.orderRepository.save(order);
+
+    return {
+      ...this.toSession(order),
+      providerOrderId: razorpayOrder.id,
+      keyId: this.configService.get<string>('RAZORPAY_KEY_ID'),
+    };
+  }
+
+  private async handleVerifiedPayment(
+    provider: PaymentProvider,
+    providerOrderId: string,
+    payment: VerifiedPayment,
+  ): Promise<void> {
+    try {
+      const order = await this.orderRepository.findOne({
+        where: { paymentProvider: provider, providerOrderId },
+      });
+
+      // Not a course purchase, or already fulfilled
+      if (!order || !order.awaitsPayment) return;
+
+      if (
+        Number(payment.amountCents) !== order.totalCents ||
+        payment.currency?.toUpperCase() !== order.currency.toUpperCase()
+      ) {
+        this.logger.error(
+          `Course order ${order.id} paid ${payment.amountCents} ${payment.currency}, expected ${order.totalCents} ${order.currency}`,
+        );
+        await this.closeUnpaidOrder(
+          order,
+          CourseOrderStatus.FAILED,
+          'Paid amount does not match the order',
+        );
+        return;
+      }
+
+      await this.fulfillOrder(order, payment);
+    } catch (error) {
+      this.logger.error(`Failed to fulfill course order for ${provider} ${providerOrderId}`, error);
+    }
+  }
+
+  /**
+   * Record payment and receipt, then activate the enrollment. The order is
+   * claimed first so that duplicate webhooks cannot fulfill it twice
+   */
+  private async fulfillOrder(
+    order: CourseOrder,
+    verifiedPayment: VerifiedPayment | null,
+  ): Promise<CourseOrder> {
+    const previousStatus = order.status;
+    const paidAt = new Date();
+
+    const claim = await this.orderRepository.update(
+      { id: order.id, status: previousStatus },
+      { status: CourseOrderStatus.PAID, paidAt },
+    );
+    if (!claim.affected) {
+      return this.findOrder(order.id);
+    }
+
+    try {
+      const course = await this.courseRepository.findOne({ where: { id: order.courseId } });
+
+      if (verifiedPayment) {
+        const invoice = await this.createReceipt(order, course);
+        const payment = await this.billingService.createPayment({
+          organizationId: order.organizationId,
+          invoiceId: invoice.id,
+          amount: order.totalCents,
+          currency: order.currency,
+          paymentProvider: order.paymentProvider,
+          paymentMethod: verifiedPayment.paymentMethod,
+          description: `Course purchase: ${course.title}`,
+          metadata: { courseOrderId: order.id, courseId: order.courseId, userId: order.userId },
+        });
+
+        payment.providerPaymentId = verifiedPayment.providerPaymentId;
+        payment.markAsSucceeded(verifiedPayment.providerData);
+        await this.paymentRepository.save(payment);
+
+        invoice.markAsPaid(order.totalCents, paidAt);
+        await this.invoiceRepository.save(invoice);
+
+        order.paymentId = payment.id;
+        order.invoiceId = invoice.id;
+        order.providerPaymentId = verifiedPayment.providerPaymentId;
+      }
+
+      const enrollment = await this.enrollmentService.enrollPaidUser(order.courseId, order.userId, {
+        amount: order.totalCents / 100,
+        currency: order.currency,
+        transactionId: verifiedPayment?.providerPaymentId || order.id,
+      });
+
+      // The coupon was reserved at checkout and given back when the order
+      // failed or was replaced, so a late payment takes it again
+      if (order.couponId && previousStatus !== CourseOrderStatus.PENDING) {
+        await this.couponRepository.increment({ id: order.couponId }, 'redemptionCount', 1);
+      }
+
+      Object.assign(order, {
+        status: CourseOrderStatus.PAID,
+        paidAt,
+        enrollmentId: enrollment.id,
+        failureReason: null,
+      });
+      const savedOrder = await this.orderRepository.save(order);
+
+      this.eventEmitter.emit('course.purchased', {
+        orderId: order.id,
+        userId: order.userId,
+        courseId: order.courseId,
+        organizationId: order.organizationId,
+        enrollmentId: enrollment.id,
+        totalCents: order.totalCents,
+        currency: order.currency,
+        invoiceId: order.invoiceId,
+      });
+
+      this.logger.log(`Course order fulfilled: ${order.id}`);
+      return savedOrder;
+    } catch (error) {
+      // Release the claim so the provider's webhook retry can fulfill it
+      await this.orderRepository.update(order.id, { status: previousStatus, paidAt: null });
+      throw error;
+    }
+  }
+
+  /**
+   * One-time invoice issued as the learner's receipt
+   */
+  private async createReceipt(order: CourseOrder, course: Course): Promise<Invoice> {
+    const user = await this.userRepository.findOne({ where: { id: order.userId } });
+
+    const invoice = await this.billingService.createInvoice({
+      organizationId: order.organizationId,
+      currency: order.currency,
+      lineItems: [
+        {
+          description: `Course: ${course.title}`,
+          unitPrice: order.amountCents,
+          metadata: { courseId: course.id },
+        },
+      ],
+      discounts: order.discountCents
+        ? [
+            {
+              code: order.couponCode,
+              name: `Coupon ${order.couponCode}`,
+              type: 'fixed',
+              value: order.discountCents,
+            },
+          ]
+        : [],
+      createdBy: order.userId,
+      customFields: {
+        courseOrderId: order.id,
+        userId: order.userId,
+        customerName: user?.fullName,
+        customerEmail: user?.email,
+      },
+    });
+
+    invoice.finalize();
+    return this.invoiceRepository.save(invoice);
+  }
+
+  private async handleProviderRefund(
+    provider: PaymentProvider,
+    providerOrderId: string,
+    refundedCents: number,
+    fullRefund: boolean,
+  ): Promise<void> {
+    try {
+      const order = await this.orderRepository.findOne({
+        where: { paymentProvider: provider, providerOrderId, status: CourseOrderStatus.PAID },
+      });
+      if (!order) return;
+
+      // Refunds issued from the provider's dashboard are not in our payment record yet
+      const payment = order.paymentId
+        ? await this.paymentRepository.findOne({ where: { id: order.paymentId } })
+        : null;
+      if (payment?.canBeRefunded) {
+        payment.refund(
+          Math.min(Number(refundedCents), payment.refundableAmount),
+          `Refunded through ${provider}`,
+        );
+        await this.paymentRepository.save(payment);
+      }
+
+      if (fullRefund) {
+        await this.markRefunded(order, `Refunded through ${provider}`);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to process ${provider} refund for ${providerOrderId}`, error);
+    }
+  }
+
+  private async markRefunded(
+    order: CourseOrder,
+    reason: string,
+    refundedBy?: string,
+  ): Promise<CourseOrder> {
+    const refundedAt = new Date();
+
+    // Claimed first so that a provider webhook racing an admin refund does
+    // not revoke and release the coupon twice
+    const claim = await this.orderRepository.update(
+      { id: order.id, status: CourseOrderStatus.PAID },
+      { status: CourseOrderStatus.REFUNDED, refundedAt, refundReason: reason },
+    );
+    if (!claim.affected) {
+      return this.findOrder(order.id);
+    }
+
+    Object.assign(order, { status: CourseOrderStatus.REFUNDED, refundedAt, refundReason: reason });
+
+    if (order.couponId) {
+      await this.releaseCouponRedemption(order.couponId);
+    }
+
+    if (order.enrollmentId) {
+      await this.enrollmentService.revokePaidEnrollment(order.enrollmentId, reason);
+    }
+
+    this.eventEmitter.emit('course.refunded', {
+      orderId: order.id,
+      userId: order.userId,
+      courseId: order.courseId,
+      organizationId: order.organizationId,
+      refundedBy,
+      reason,
+    });
+
+    this.logger.log(`Course order refunded: ${order.id}`);
+    return order;
+  }
+
+  /**
+   * Validate the coupon and take one of its redemptions. The count is raised
+   * with a single conditional update so concurrent checkouts cannot overrun
+   * maxRedemptions
+   */
+  private async reserveCoupon(code: string, course: Course): Promise<CourseCoupon> {
+    const coupon = await this.couponRepository.findOne({
+      where: { organizationId: course.organizationId, code: code.trim().toUpperCase() },
+    });
+
+    if (!coupon || !coupon.isRedeemable(course)) {
+      throw new BadRequestException('Coupon is invalid or has expired');
+    }
+
+    const reservation = await this.couponRepository
+      .createQueryBuilder()
+      .update(CourseCoupon)
+      .set({ redemptionCount: () => '"redemptionCount" + 1' })
+      .where('id = :id', { id: coupon.id })
+      .andWhere('("maxRedemptions" IS NULL OR "redemptionCount" < "maxRedemptions")')
+      .execute();
+
+    if (!reservation.affected) {
+      throw new BadRequestException('Coupon is invalid or has expired');
+    }
+
+    return coupon;
+  }
+
+  private async releaseCouponRedemption(couponId: string): Promise<void> {
+    await this.couponRepository
+      .createQueryBuilder()
+      .update(CourseCoupon)
+      .set({ redemptionCount: () => '"redemptionCount" - 1' })
+      .where('id = :id', { id: couponId })
+      .andWhere('"redemptionCount" > 0')
+      .execute();
+  }
+
+  /**
+   * Cancel or fail an unpaid order. A pending order gives back the coupon
+   * redemption it reserved, once, by whoever moves it out of pending
+   */
+  private async closeUnpaidOrder(
+    order: CourseOrder,
+    status: CourseOrderStatus.CANCELLED | CourseOrderStatus.FAILED,
+    failureReason?: string,
+  ): Promise<void> {
+    const result = await this.orderRepository.update(
+      { id: order.id, status: order.status },
+      { status, ...(failureReason && { failureReason }) },
+    );
+
+    if (result.affected && order.status === CourseOrderStatus.PENDING && order.couponId) {
+      await this.releaseCouponRedemption(order.couponId);
+    }
+  }
+
+  private async findOrder(orderId: string): Promise<CourseOrder> {
+    const order = await this.orderRepository.findOne({
+      where: { id: orderId },
+      relations: ['course'],
+    });
+
+    if (!order) {
+      throw new NotFoundException(`Order not found: ${orderId}`);
+    }
+
+    return order;
+  }
+
+  private async assertAdmin(organizationId: string, currentUser: AuthenticatedUser): Promise<void> {
+    const membership = await this.membershipRepository.findOne({
+      where: {
+        userId: currentUser.id,
+        organizationId,
+        status: MembershipStatus.ACTIVE,
+      },
+    });
+
+    if (!membership || !membership.isAdmin) {
+      throw new ForbiddenException('Insufficient permissions to manage course sales');
+    }
+  }
+
+  private toSession(order: CourseOrder): CourseCheckoutSession {
+    return {
+      orderId: order.id,
+      status: order.status,
+      provider: order.paymentProvider,
+      amountCents: order.amountCents,
+      discountCents: order.discountCents,
+      totalCents: order.totalCents,
+      currency: order.currency,
+      ...(order.enrollmentId && { enrollmentId: order.enrollmentId }),
+    };
+  }
+}
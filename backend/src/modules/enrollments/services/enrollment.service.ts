@@ -18,10 +18,11 @@ import {
   LessonProgress, 
   LessonProgressStatus 
 } from '@database/entities/lesson-progress.entity';
-import { Course } from '@database/entities/course.entity';
+import { Course, CourseAccessType } from '@database/entities/course.entity';
 import { Module } from '@database/entities/module.entity';
 import { Lesson } from '@database/entities/lesson.entity';
 import { AuthenticatedUser } from '@modules/auth/strategies/jwt.strategy';
+import { BillingService } from '@modules/billing/services/billing.service';
 
 /**
  * Enrollment request interface
@@ -32,6 +33,15 @@ export interface EnrollmentRequest {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Verified payment of a paid course
+ */
+export interface EnrollmentPayment {
+  amount: number;
+  currency: string;
+  transactionId: string;
+}
+
 /**
  * Progress update interface
  */
@@ -115,6 +125,7 @@ export class EnrollmentService {
     private readonly lessonRepository: Repository<Lesson>,
     private readonly eventEmitter: EventEmitter2,
     private readonly configService: ConfigService,
+    private readonly billingService: BillingService,
   ) {}
 
   /**
@@ -125,113 +136,113 @@ export class EnrollmentService {
     currentUser: AuthenticatedUser | any,
     courseId?:string,
   ): Promise<Enrollment> {
-    this.logger.log(`Enrolling user ${currentUser.id} in course: ${request.courseId}`);
+    const targetCourseId = courseId || request.courseId;
+    this.logger.log(`Enrolling user ${currentUser.id} in course: ${targetCourseId}`);
 
     try {
       // Check if course exists and is available
-      const   course = await this.courseRepository.findOne({
-        where: { id: request.courseId },
-        relations: ['modules', 'modules.lessons'],
-      });
+      const course = await this.findCourseForEnrollment(targetCourseId);
 
-      if (!course) {
-        throw new NotFoundException(`Course not found: ${request.courseId}`);
-      }
-      console.log('currentUser: ', currentUser);
-      if (course.canEnroll(currentUser.id, currentUser.currentOrganizationId)) {
+      if (!course.canEnroll(currentUser.id, currentUser.currentOrganizationId)) {
         throw new BadRequestException('Course is not available for enrollment');
       }
-      console.log({
-          userId: currentUser.id,
-          courseId: courseId,
-        })
+
       // Check if user is already enrolled
       const existingEnrollment = await this.enrollmentRepository.findOne({
         where: {
           userId: currentUser.id,
-          courseId: courseId,
+          courseId: targetCourseId,
         },
       });
 
-      console.log('existingEnrollment: ', existingEnrollment);  
-
-      if (existingEnrollment) {
-        if (existingEnrollment.isActive || existingEnrollment.isCompleted) {
-          throw new ConflictException('User is already enrolled in this course');
-        }
-        
-        // Reactivate cancelled/expired enrollment
-        existingEnrollment.status = EnrollmentStatus.ACTIVE;
-        existingEnrollment.enrolledAt = new Date();
-        existingEnrollment.updateLastAccessed();
-        
-        const savedEnrollment = await this.enrollmentRepository.save(existingEnrollment);
-        
-        // Emit enrollment reactivated event
-        this.eventEmitter.emit('enrollment.reactivated', {
-          enrollmentId: savedEnrollment.id,
-          userId: currentUser.id,
-          courseId: request.courseId,
-        });
-        
-        return savedEnrollment;
+      if (existingEnrollment && (existingEnrollment.isActive || existingEnrollment.isCompleted)) {
+        throw new ConflictException('User is already enrolled in this course');
       }
 
-      // Calculate total lessons for progress tracking
-      const totalLessons = course.modules?.reduce((sum, module) => 
-        sum + (module.lessons?.length || 0), 0) || 0;
+      // A purchase remains valid after unenrolling, until it is refunded
+      if (!existingEnrollment?.hasValidPayment) {
+        await this.assertEnrollmentAccess(course, currentUser);
+      }
 
-      console.log({
-        userId: currentUser.id,
-        courseId: courseId,
-        status: course.requiresApproval ? EnrollmentStatus.PENDING : EnrollmentStatus.ACTIVE,
-        totalLessons,
-        notes: request.notes,
-        metadata: request.metadata || {},
-        receiveNotifications: true,
-      })
-      // Create new enrollment
-      const enrollment = this.enrollmentRepository.create({
-        userId: currentUser.id,
-        courseId: courseId,
+      return await this.activateEnrollment(course, currentUser.id, existingEnrollment, {
         status: course.requiresApproval ? EnrollmentStatus.PENDING : EnrollmentStatus.ACTIVE,
-        totalLessons,
         notes: request.notes,
-        metadata: request.metadata || {},
-        receiveNotifications: true,
+        metadata: request.metadata,
       });
+    } catch (error) {
+      this.logger.error(`Failed to enroll user ${currentUser.id} in course ${targetCourseId}:`, error);
+      throw error;
+    }
+  }
 
-      if (!course.requiresApproval) {
-        enrollment.start();
-      }
+  /**
+   * Enroll the buyer of a paid course once the payment is verified
+   */
+  async enrollPaidUser(
+    courseId: string,
+    userId: string,
+    payment: EnrollmentPayment,
+  ): Promise<Enrollment> {
+    const course = await this.findCourseForEnrollment(courseId);
+    const existingEnrollment = await this.enrollmentRepository.findOne({
+      where: { userId, courseId },
+    });
 
-      const savedEnrollment = await this.enrollmentRepository.save(enrollment);
+    if (existingEnrollment && (existingEnrollment.isActive || existingEnrollment.isCompleted)) {
+      existingEnrollment.recordPayment(payment.amount, payment.currency, payment.transactionId);
+      return this.enrollmentRepository.save(existingEnrollment);
+    }
 
-      // Update course enrollment count
-      await this.courseRepository.update(request.courseId, {
-        totalEnrollments: course.totalEnrollments + 1,
-      });
+    return this.activateEnrollment(course, userId, existingEnrollment, {
+      status: EnrollmentStatus.ACTIVE,
+      payment,
+    });
+  }
 
-      // Initialize lesson progress records
-      if (course.modules && course.modules.length > 0) {
-        await this.initializeLessonProgress(savedEnrollment, course.modules);
-      }
+  /**
+   * Revoke access to a paid course after its payment was refunded
+   */
+  async revokePaidEnrollment(enrollmentId: string, reason?: string): Promise<void> {
+    const enrollment = await this.enrollmentRepository.findOne({
+      where: { id: enrollmentId },
+      relations: ['course'],
+    });
 
-      // Emit enrollment created event
-      this.eventEmitter.emit('enrollment.created', {
-        enrollmentId: savedEnrollment.id,
-        userId: currentUser.id,
-        courseId: request.courseId,
-        status: savedEnrollment.status,
-        requiresApproval: course.requiresApproval,
+    if (!enrollment || !enrollment.hasValidPayment) {
+      return;
+    }
+
+    const wasEnrolled = !enrollment.isCancelled && !enrollment.isExpired;
+    enrollment.revokeForRefund(reason);
+    await this.enrollmentRepository.save(enrollment);
+
+    if (wasEnrolled) {
+      await this.courseRepository.update(enrollment.courseId, {
+        totalEnrollments: Math.max(0, enrollment.course.totalEnrollments - 1),
       });
+    }
 
-      this.logger.log(`User enrolled successfully: ${savedEnrollment.id}`);
-      return savedEnrollment;
-    } catch (error) {
-      this.logger.error(`Failed to enroll user ${currentUser.id} in course ${request.courseId}:`, error);
-      throw error;
+    this.eventEmitter.emit('enrollment.cancelled', {
+      enrollmentId,
+      userId: enrollment.userId,
+      courseId: enrollment.courseId,
+      reason,
+      refunded: true,
+    });
+
+    this.logger.log(`Paid enrollment revoked: ${enrollmentId}`);
+  }
+
+  /**
+   * Whether the organization's subscription unlocks premium courses
+   */
+  async hasPremiumAccess(organizationId?: string): Promise<boolean> {
+    if (!organizationId) {
+      return false;
     }
+
+    const subscription = await this.billingService.getOrganizationSubscription(organizationId);
+    return !!subscription?.isActive && !!subscription.plan?.hasFeature('premiumCourses');
   }
 
   /**
@@ -712,6 +723,125 @@ export class EnrollmentService {
 
   // Private helper methods
 
+  private async findCourseForEnrollment(courseId: string): Promise<Course> {
+    const course = courseId
+      ? await this.courseRepository.findOne({
+          where: { id: courseId },
+          relations: ['modules', 'modules.lessons'],
+        })
+      : null;
+
+    if (!course) {
+      throw new NotFoundException(`Course not found: ${courseId}`);
+    }
+
+    return course;
+  }
+
+  /**
+   * Paid courses go through checkout; premium courses need an organization subscription
+   */
+  private async assertEnrollmentAccess(course: Course, currentUser: AuthenticatedUser): Promise<void> {
+    if (!course.isPaid || course.instructorId === currentUser.id) {
+      return;
+    }
+
+    if (course.accessType === CourseAccessType.PAID) {
+      throw new ForbiddenException('This course must be purchased through checkout');
+    }
+
+    if (!(await this.hasPremiumAccess(currentUser.currentOrganizationId))) {
+      throw new ForbiddenException(
+        'Premium courses require an organization subscription that includes them',
+      );
+    }
+  }
+
+  /**
+   * Create the enrollment, or reactivate a cancelled/expired one
+   */
+  private async activateEnrollment(
+    course: Course,
+    userId: string,
+    existingEnrollment: Enrollment | null,
+    options: {
+      status: EnrollmentStatus;
+      notes?: string;
+      metadata?: Record<string, unknown>;
+      payment?: EnrollmentPayment;
+    },
+  ): Promise<Enrollment> {
+    if (existingEnrollment) {
+      // Reactivate cancelled/expired enrollment
+      existingEnrollment.status = EnrollmentStatus.ACTIVE;
+      existingEnrollment.enrolledAt = new Date();
+      existingEnrollment.updateLastAccessed();
+      if (options.payment) {
+        const { amount, currency, transactionId } = options.payment;
+        existingEnrollment.recordPayment(amount, currency, transactionId);
+      }
+
+      const savedEnrollment = await this.enrollmentRepository.save(existingEnrollment);
+
+      // Emit enrollment reactivated event
+      this.eventEmitter.emit('enrollment.reactivated', {
+        enrollmentId: savedEnrollment.id,
+        userId,
+        courseId: course.id,
+      });
+
+      return savedEnrollment;
+    }
+
+    // Calculate total lessons for progress tracking
+    const totalLessons = course.modules?.reduce((sum, module) =>
+      sum + (module.lessons?.length || 0), 0) || 0;
+
+    // Create new enrollment
+    const enrollment = this.enrollmentRepository.create({
+      userId,
+      courseId: course.id,
+      status: options.status,
+      totalLessons,
+      notes: options.notes,
+      metadata: options.metadata || {},
+      receiveNotifications: true,
+    });
+
+    if (options.status === EnrollmentStatus.ACTIVE) {
+      enrollment.start();
+    }
+    if (options.payment) {
+      const { amount, currency, transactionId } = options.payment;
+      enrollment.recordPayment(amount, currency, transactionId);
+    }
+
+    const savedEnrollment = await this.enrollmentRepository.save(enrollment);
+
+    // Update course enrollment count
+    await this.courseRepository.update(course.id, {
+      totalEnrollments: course.totalEnrollments + 1,
+    });
+
+    // Initialize lesson progress records
+    if (course.modules && course.modules.length > 0) {
+      await this.initializeLessonProgress(savedEnrollment, course.modules);
+    }
+
+    // Emit enrollment created event
+    this.eventEmitter.emit('enrollment.created', {
+      enrollmentId: savedEnrollment.id,
+      userId,
+      courseId: course.id,
+      status: savedEnrollment.status,
+      requiresApproval: course.requiresApproval,
+      paid: !!options.payment,
+    });
+
+    this.logger.log(`User enrolled successfully: ${savedEnrollment.id}`);
+    return savedEnrollment;
+  }
+
   /**
    * Initialize lesson progress records for enrollment
    */
@@ -5,6 +5,7 @@ import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { Upload } from '@aws-sdk/lib-storage';
 import * as crypto from 'crypto';
 import * as path from 'path';
+import { Readable } from 'stream';
 
 /**
  * S3 upload options interface
@@ -48,12 +49,16 @@ export class S3Service {
     this.bucketName = this.configService.get<string>('AWS_S3_BUCKET', 'volkai-hr-edu-files');
     this.cdnDomain = this.configService.get<string>('AWS_CLOUDFRONT_DOMAIN');
 
+    // Custom endpoint for S3-compatible storage such as MinIO
+    const endpoint = this.configService.get<string>('AWS_S3_ENDPOINT');
+
     this.s3Client = new S3Client({
       region: this.region,
       credentials: {
         accessKeyId: this.configService.get<string>('AWS_ACCESS_KEY_ID', ''),
         secretAccessKey: this.configService.get<string>('AWS_SECRET_ACCESS_KEY', ''),
       },
+      ...(endpoint && { endpoint, forcePathStyle: true }),
     });
 
     this.logger.log(`S3 Service initialized for bucket: ${this.bucketName} in region: ${this.region}`);
@@ -165,7 +170,7 @@ export class S3Service {
    * Upload file directly to S3
    */
   async uploadFile(
-    buffer: Buffer,
+    body: Buffer | Readable,
     options: S3UploadOptions,
   ): Promise<{ storagePath: string; publicUrl?: string; cdnUrl?: string }> {
     const { filename, mimeType, organizationId, userId, isPublic = false } = options;
@@ -178,7 +183,7 @@ export class S3Service {
         params: {
           Bucket: this.bucketName,
           Key: storagePath,
-          Body: buffer,
+          Body: body,
           ContentType: mimeType,
           Metadata: {
             'original-filename': filename,
@@ -280,6 +285,50 @@ export class S3Service {
     }
   }
 
+  /**
+   * Download file contents from S3
+   */
+  async downloadFile(storagePath: string): Promise<Buffer> {
+    try {
+      const getObjectCommand = new GetObjectCommand({
+        Bucket: this.bucketName,
+        Key: storagePath,
+      });
+
+      const response = await this.s3Client.send(getObjectCommand);
+      if (!response.Body) {
+        throw new Error('Empty response body');
+      }
+
+      return Buffer.from(await response.Body.transformToByteArray());
+    } catch (error) {
+      this.logger.error(`Failed to download file ${storagePath}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stream file contents from S3 without buffering them, for large objects
+   */
+  async getObjectStream(storagePath: string): Promise<Readable> {
+    try {
+      const getObjectCommand = new GetObjectCommand({
+        Bucket: this.bucketName,
+        Key: storagePath,
+      });
+
+      const response = await this.s3Client.send(getObjectCommand);
+      if (!response.Body) {
+        throw new Error('Empty response body');
+      }
+
+      return response.Body as Readable;
+    } catch (error) {
+      this.logger.error(`Failed to open file stream ${storagePath}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Copy file within S3
    */
@@ -25,6 +25,7 @@ import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../../auth/decorators/current-user.decorator';
 import { User, UserRole } from '../../../database/entities/user.entity';
 import { ApplicationTrackingService } from '../services/application-tracking.service';
+import { HiringPipelineService } from '../services/hiring-pipeline.service';
 import {
   CreateApplicationDto,
   UpdateApplicationDto,
@@ -45,6 +46,7 @@ import { Roles } from '@/common/decorators/roles.decorator';
 export class ApplicationTrackingController {
   constructor(
     private readonly applicationService: ApplicationTrackingService,
+    private readonly pipelineService: HiringPipelineService,
   ) {}
 
   @Post()
@@ -421,47 +423,21 @@ export class ApplicationTrackingController {
   @Get('pipeline/:jobId')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN, UserRole.HR, UserRole.MANAGER)
-  @ApiOperation({ summary: 'Get application pipeline for a job' })
+  @ApiOperation({ summary: 'Get applications for a job grouped by the stages of its pipeline' })
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Application pipeline retrieved successfully',
   })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Job not found',
+  })
   @ApiParam({ name: 'jobId', description: 'Job ID' })
   async getApplicationPipeline(
     @Param('jobId', ParseUUIDPipe) jobId: string,
     @CurrentUser() user: any,
   ): Promise<any> {
-    const searchDto = { jobId, limit: 100 };
-    const applications = await this.applicationService.searchApplications(searchDto, user);
-
-    // Group applications by stage
-    const pipeline = applications.items.reduce((acc, app) => {
-      if (!acc[app.stage]) {
-        acc[app.stage] = [];
-      }
-      acc[app.stage].push(app);
-      return acc;
-    }, {} as Record<string, ApplicationResponseDto[]>);
-
-    // Calculate pipeline metrics
-    const metrics = {
-      total: applications.total,
-      byStage: Object.keys(pipeline).reduce((acc, stage) => {
-        acc[stage] = pipeline[stage].length;
-        return acc;
-      }, {} as Record<string, number>),
-      byStatus: applications.items.reduce((acc, app) => {
-        acc[app.status] = (acc[app.status] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>),
-    };
-
-    return {
-      jobId,
-      pipeline,
-      metrics,
-      stageOrder: ['screening', 'phone_screen', 'technical', 'onsite', 'final', 'offer', 'hired'],
-    };
+    return await this.pipelineService.getJobPipeline(jobId, user);
   }
 
   @Get('analytics/overview')
@@ -0,0 +1,149 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { UserRole } from '../../../database/entities/user.entity';
+import { HiringPipeline } from '../../../database/entities/hiring-pipeline.entity';
+import { HiringPipelineService } from '../services/hiring-pipeline.service';
+import {
+  CreatePipelineDto,
+  UpdatePipelineDto,
+  ListPipelinesDto,
+  MigrateApplicationsDto,
+} from '../dto/hiring-pipeline.dto';
+import { RolesGuard } from '@/common/guards/roles.guard';
+import { Roles } from '@/common/decorators/roles.decorator';
+
+@ApiTags('Hiring Pipelines')
+@Controller('hr/pipelines')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class HiringPipelineController {
+  constructor(private readonly pipelineService: HiringPipelineService) {}
+
+  @Post()
+  @Roles(UserRole.ADMIN, UserRole.HR)
+  @ApiOperation({ summary: 'Create an organization template or job pipeline' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Pipeline created successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid stages or the job already has a pipeline',
+  })
+  async createPipeline(
+    @Body(ValidationPipe) createDto: CreatePipelineDto,
+    @CurrentUser() user: any,
+  ): Promise<HiringPipeline> {
+    return await this.pipelineService.createPipeline(createDto, user);
+  }
+
+  @Get()
+  @Roles(UserRole.ADMIN, UserRole.HR, UserRole.MANAGER)
+  @ApiOperation({ summary: 'List pipelines of your organization' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Pipelines retrieved successfully',
+  })
+  async listPipelines(
+    @Query(ValidationPipe) query: ListPipelinesDto,
+    @CurrentUser() user: any,
+  ): Promise<HiringPipeline[]> {
+    return await this.pipelineService.listPipelines(user, query.jobId);
+  }
+
+  @Post('migrate-applications')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.ADMIN, UserRole.HR)
+  @ApiOperation({ summary: 'Move applications on the built-in pipeline onto configured pipelines' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Applications migrated',
+    schema: {
+      type: 'object',
+      properties: {
+        migrated: { type: 'number' },
+        remapped: { type: 'number' },
+      },
+    },
+  })
+  async migrateApplications(
+    @Body(ValidationPipe) migrateDto: MigrateApplicationsDto,
+    @CurrentUser() user: any,
+  ): Promise<{ migrated: number; remapped: number }> {
+    return await this.pipelineService.migrateApplications(user, migrateDto.jobId);
+  }
+
+  @Get(':id')
+  @Roles(UserRole.ADMIN, UserRole.HR, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Get a pipeline' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Pipeline retrieved successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Pipeline not found',
+  })
+  @ApiParam({ name: 'id', description: 'Pipeline ID' })
+  async getPipeline(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+  ): Promise<HiringPipeline> {
+    return await this.pipelineService.getPipeline(id, user);
+  }
+
+  @Put(':id')
+  @Roles(UserRole.ADMIN, UserRole.HR)
+  @ApiOperation({ summary: 'Update a pipeline' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Pipeline updated successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid stages or applications on removed stages',
+  })
+  @ApiParam({ name: 'id', description: 'Pipeline ID' })
+  async updatePipeline(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(ValidationPipe) updateDto: UpdatePipelineDto,
+    @CurrentUser() user: any,
+  ): Promise<HiringPipeline> {
+    return await this.pipelineService.updatePipeline(id, updateDto, user);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.ADMIN, UserRole.HR)
+  @ApiOperation({ summary: 'Delete a pipeline no application uses' })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Pipeline deleted successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Pipeline is still in use',
+  })
+  @ApiParam({ name: 'id', description: 'Pipeline ID' })
+  async deletePipeline(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+  ): Promise<void> {
+    await this.pipelineService.deletePipeline(id, user);
+  }
+}
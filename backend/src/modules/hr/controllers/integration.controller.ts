@@ -23,6 +23,8 @@ import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../../auth/decorators/current-user.decorator';
 import { User, UserRole } from '../../../database/entities/user.entity';
 import { IntegrationService } from '../services/integration.service';
+import { BulkParseResumesDto, ParseResumeDto } from '../dto/integration.dto';
+import { AuthenticatedUser } from '../../auth/strategies/jwt.strategy';
 import { RolesGuard } from '@/common/guards/roles.guard';
 import { Roles } from '@/common/decorators/roles.decorator';
 
@@ -38,7 +40,7 @@ export class IntegrationController {
   @Post('parse-resume')
   @UseGuards(RolesGuard)
   @Roles(UserRole.ADMIN, UserRole.HR, UserRole.MANAGER)
-  @ApiOperation({ summary: 'Parse resume from file URL' })
+  @ApiOperation({ summary: 'Parse resume from an uploaded file or URL' })
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Resume parsed successfully',
@@ -48,10 +50,10 @@ export class IntegrationController {
     description: 'Failed to parse resume file',
   })
   async parseResumeFromFile(
-    @Body('fileUrl') fileUrl: string,
-    @Body('applicationId') applicationId?: string,
+    @Body() parseResumeDto: ParseResumeDto,
+    @CurrentUser() user: AuthenticatedUser,
   ): Promise<any> {
-    return await this.integrationService.parseResumeFromFile(fileUrl, applicationId);
+    return await this.integrationService.parseResumeFromFile(parseResumeDto, user);
   }
 
   @Post('parse-resume-text')
@@ -298,38 +300,40 @@ export class IntegrationController {
   @Post('bulk-parse')
   @UseGuards(RolesGuard)
   @Roles(UserRole.ADMIN, UserRole.HR)
-  @ApiBody({
-    schema: {
-      type: 'object',
-      properties: {
-        applicationIds: {
-          type: 'array',
-          items: {
-            type: 'string',
-          },
-        },
-      },
-      required: ['applicationIds'],
-    },
-  })
-  @ApiOperation({ summary: 'Bulk parse resumes for multiple applications' })
+  @ApiOperation({ summary: 'Bulk parse application resumes and uploaded CVs' })
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Bulk parsing initiated successfully',
   })
   async bulkParseResumes(
-    @Body('applicationIds') applicationIds: string[],
+    @Body() bulkParseDto: BulkParseResumesDto,
+    @CurrentUser() user: AuthenticatedUser,
   ): Promise<any> {
-    // This would typically queue bulk parsing jobs
+    const queued = await this.integrationService.queueBulkResumeParsing(bulkParseDto, user);
+
     return {
       success: true,
-      message: `Bulk parsing initiated for ${applicationIds.length} applications`,
-      applicationIds,
-      estimatedCompletionTime: '15 minutes',
-      jobId: `bulk_parse_${Date.now()}`,
+      message: `Bulk parsing initiated for ${queued.queued} resumes`,
+      ...queued,
     };
   }
 
+  @Get('bulk-parse/:jobId')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.HR)
+  @ApiOperation({ summary: 'Get bulk resume parsing progress and results' })
+  @ApiParam({ name: 'jobId', description: 'Bulk parsing job ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Bulk parsing status retrieved successfully',
+  })
+  async getBulkParseStatus(
+    @Param('jobId') jobId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<any> {
+    return await this.integrationService.getBulkParsingStatus(jobId, user);
+  }
+
   @Get('skill-matching/:jobId/analytics')
   @UseGuards(RolesGuard)
   @Roles(UserRole.ADMIN, UserRole.HR, UserRole.MANAGER)
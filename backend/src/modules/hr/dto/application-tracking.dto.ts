@@ -16,7 +16,6 @@ import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
 import { 
   ApplicationStatus, 
-  ApplicationStage, 
   ApplicationSource 
 } from '../../../database/entities/job-application.entity';
 
@@ -75,10 +74,10 @@ export class UpdateApplicationDto {
   @IsEnum(ApplicationStatus)
   status?: ApplicationStatus;
 
-  @ApiPropertyOptional({ enum: ApplicationStage, description: 'Application stage' })
+  @ApiPropertyOptional({ description: 'Stage key from the job\'s hiring pipeline' })
   @IsOptional()
-  @IsEnum(ApplicationStage)
-  stage?: ApplicationStage;
+  @IsString()
+  stage?: string;
 
   @ApiPropertyOptional({ description: 'Application rating (1-5)' })
   @IsOptional()
@@ -148,10 +147,10 @@ export class SearchApplicationsDto {
   @IsEnum(ApplicationStatus)
   status?: ApplicationStatus;
 
-  @ApiPropertyOptional({ enum: ApplicationStage, description: 'Filter by stage' })
+  @ApiPropertyOptional({ description: 'Filter by stage key' })
   @IsOptional()
-  @IsEnum(ApplicationStage)
-  stage?: ApplicationStage;
+  @IsString()
+  stage?: string;
 
   @ApiPropertyOptional({ description: 'Filter by assigned recruiter' })
   @IsOptional()
@@ -220,10 +219,10 @@ export class BulkUpdateApplicationsDto {
   @IsEnum(ApplicationStatus)
   status?: ApplicationStatus;
 
-  @ApiPropertyOptional({ enum: ApplicationStage, description: 'New stage' })
+  @ApiPropertyOptional({ description: 'New stage key, checked against each application\'s pipeline' })
   @IsOptional()
-  @IsEnum(ApplicationStage)
-  stage?: ApplicationStage;
+  @IsString()
+  stage?: string;
 
   @ApiPropertyOptional({ description: 'Assign to user ID' })
   @IsOptional()
@@ -261,8 +260,11 @@ export class ApplicationResponseDto {
   @ApiProperty({ enum: ApplicationStatus, description: 'Application status' })
   status: ApplicationStatus;
 
-  @ApiProperty({ enum: ApplicationStage, description: 'Application stage' })
-  stage: ApplicationStage;
+  @ApiProperty({ description: 'Stage key within the hiring pipeline' })
+  stage: string;
+
+  @ApiPropertyOptional({ description: 'Hiring pipeline ID' })
+  pipelineId?: string;
 
   @ApiProperty({ enum: ApplicationSource, description: 'Application source' })
   source: ApplicationSource;
@@ -374,6 +376,7 @@ export class ApplicationResponseDto {
     this.coverLetter = application.coverLetter;
     this.status = application.status;
     this.stage = application.stage;
+    this.pipelineId = application.pipelineId;
     this.source = application.source;
     this.notes = application.notes;
     this.rating = application.rating;
@@ -487,10 +490,26 @@ export class ApplicationTimelineDto {
     timestamp: Date;
   }>;
 
+  @ApiPropertyOptional({ description: 'Pipeline the application moves through' })
+  pipeline?: {
+    id?: string;
+    name: string;
+    currentStage: string;
+    stages: Array<{
+      key: string;
+      name: string;
+      type: string;
+      enteredAt?: Date;
+      scorecardsSubmitted: number;
+      requiredScorecards: number;
+    }>;
+  };
+
   constructor(data: any) {
     this.applicationId = data.applicationId;
     this.timeline = data.timeline;
     this.communications = data.communications;
+    this.pipeline = data.pipeline;
   }
 }
 
@@ -0,0 +1,136 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsUUID,
+  IsObject,
+  ValidateNested,
+  ArrayMinSize,
+  ArrayMaxSize,
+  Matches,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, OmitType, PartialType } from '@nestjs/swagger';
+import {
+  PipelineStageType,
+  StageActionType,
+} from '../../../database/entities/hiring-pipeline.entity';
+
+export class PipelineStageActionDto {
+  @ApiProperty({
+    enum: StageActionType,
+    description: 'Action run when an application enters the stage',
+  })
+  @IsEnum(StageActionType)
+  type: StageActionType;
+
+  @ApiProperty({
+    description:
+      'send_email: { subject, message, template? }; schedule_interview: { interviewType, interviewers, offsetHours? }; assign_reviewer: { reviewerIds }',
+  })
+  @IsObject()
+  config: Record<string, any>;
+}
+
+export class PipelineStageDto {
+  @ApiProperty({ description: 'Stable stage key stored on applications', example: 'take_home' })
+  @IsString()
+  @Matches(/^[a-z0-9_]{1,64}$/, {
+    message: 'key may only contain lowercase letters, digits and underscores',
+  })
+  key: string;
+
+  @ApiProperty({ description: 'Display name', example: 'Take-home exercise' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ enum: PipelineStageType, description: 'Stage type' })
+  @IsEnum(PipelineStageType)
+  type: PipelineStageType;
+
+  @ApiPropertyOptional({
+    description: 'Interview feedback entries required before leaving the stage',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(20)
+  requiredScorecards?: number;
+
+  @ApiPropertyOptional({ description: 'Actions run on entry', type: [PipelineStageActionDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => PipelineStageActionDto)
+  actions?: PipelineStageActionDto[];
+}
+
+export class CreatePipelineDto {
+  @ApiProperty({ description: 'Pipeline name' })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Pipeline description' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Job the pipeline applies to; omit for an organization template',
+  })
+  @IsOptional()
+  @IsUUID()
+  jobId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Organization ID (admins only, defaults to your organization)',
+  })
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+
+  @ApiPropertyOptional({ description: 'Use this template for jobs without their own pipeline' })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+
+  @ApiPropertyOptional({ description: 'Allow applications to jump forward over stages' })
+  @IsOptional()
+  @IsBoolean()
+  allowStageSkipping?: boolean;
+
+  @ApiProperty({ description: 'Ordered stages', type: [PipelineStageDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(30)
+  @ValidateNested({ each: true })
+  @Type(() => PipelineStageDto)
+  stages: PipelineStageDto[];
+}
+
+export class UpdatePipelineDto extends PartialType(
+  OmitType(CreatePipelineDto, ['jobId', 'organizationId'] as const),
+) {}
+
+export class ListPipelinesDto {
+  @ApiPropertyOptional({ description: 'Only pipelines for this job' })
+  @IsOptional()
+  @IsUUID()
+  jobId?: string;
+}
+
+export class MigrateApplicationsDto {
+  @ApiPropertyOptional({ description: 'Only migrate applications for this job' })
+  @IsOptional()
+  @IsUUID()
+  jobId?: string;
+}
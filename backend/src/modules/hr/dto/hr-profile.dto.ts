@@ -124,6 +124,7 @@ export class CreateHRProfileDto {
     workLocation?: 'office' | 'remote' | 'hybrid';
     preferredWorkDays?: string[];
     flexibleHours?: boolean;
+    blackoutDates?: Array<{ start: string; end: string; reason?: string; }>;
   };
 }
 
@@ -0,0 +1,42 @@
+import { IsOptional, IsUUID, IsUrl, IsArray, ArrayMaxSize } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ParseResumeDto {
+  @ApiPropertyOptional({
+    description: 'ID of a PDF, DOCX or text file uploaded through the files API',
+  })
+  @IsOptional()
+  @IsUUID()
+  fileId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Resume URL, parsed by the external service when configured',
+  })
+  @IsOptional()
+  @IsUrl()
+  fileUrl?: string;
+
+  @ApiPropertyOptional({ description: 'Application to store the parsed resume on' })
+  @IsOptional()
+  @IsUUID()
+  applicationId?: string;
+}
+
+export class BulkParseResumesDto {
+  @ApiPropertyOptional({
+    description: 'Applications whose attached resume should be parsed',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsUUID('all', { each: true })
+  applicationIds?: string[];
+
+  @ApiPropertyOptional({ description: 'Uploaded CV files to parse', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsUUID('all', { each: true })
+  fileIds?: string[];
+}
@@ -1,12 +1,14 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { HttpModule } from '@nestjs/axios';
+import { BullModule } from '@nestjs/bull';
 import { ConfigModule } from '@nestjs/config';
 import { ScheduleModule } from '@nestjs/schedule';
 
 // Entities
 import { Job } from '../../database/entities/job.entity';
 import { JobApplication } from '../../database/entities/job-application.entity';
+import { HiringPipeline } from '../../database/entities/hiring-pipeline.entity';
 import { HRProfile } from '../../database/entities/hr-profile.entity';
 import { Team } from '../../database/entities/team.entity';
 import { TeamMember } from '../../database/entities/team-member.entity';
@@ -15,6 +17,7 @@ import { Organization } from '../../database/entities/organization.entity';
 import { UserResume } from '../../database/entities/user-resume.entity';
 import { InterviewSession } from '../../database/entities/interview-session.entity';
 import { Skill } from '../../database/entities/skill.entity';
+import { File } from '../../database/entities/file.entity';
 
 // Services
 import { JobManagementService } from './services/job-management.service';
@@ -22,6 +25,11 @@ import { ApplicationTrackingService } from './services/application-tracking.serv
 import { HRProfileService } from './services/hr-profile.service';
 import { TeamManagementService } from './services/team-management.service';
 import { IntegrationService } from './services/integration.service';
+import { ResumeParserService } from './services/resume-parser.service';
+import { HiringPipelineService } from './services/hiring-pipeline.service';
+
+// Processors
+import { ResumeParsingProcessor } from './processors/resume-parsing.processor';
 
 // Controllers
 import { JobManagementController } from './controllers/job-management.controller';
@@ -29,6 +37,11 @@ import { ApplicationTrackingController } from './controllers/application-trackin
 import { HRProfileController } from './controllers/hr-profile.controller';
 import { TeamManagementController } from './controllers/team-management.controller';
 import { IntegrationController } from './controllers/integration.controller';
+import { HiringPipelineController } from './controllers/hiring-pipeline.controller';
+
+// External modules
+import { FilesModule } from '../files/files.module';
+import { EmailModule } from '../email/email.module';
 
 @Module({
   imports: [
@@ -36,6 +49,7 @@ import { IntegrationController } from './controllers/integration.controller';
       // Job and Application entities
       Job,
       JobApplication,
+      HiringPipeline,
       
       // HR Profile and Team entities
       HRProfile,
@@ -48,13 +62,25 @@ import { IntegrationController } from './controllers/integration.controller';
       UserResume,
       InterviewSession,
       Skill,
+      File,
     ]),
+    BullModule.registerQueue({
+      name: 'resume-parsing',
+      defaultJobOptions: {
+        // Finished jobs hold the results polled by recruiters
+        removeOnComplete: 100,
+        removeOnFail: 50,
+        attempts: 1,
+      },
+    }),
     HttpModule.register({
       timeout: 10000,
       maxRedirects: 5,
     }),
     ConfigModule,
     ScheduleModule.forRoot(),
+    FilesModule,
+    EmailModule,
   ],
   controllers: [
     JobManagementController,
@@ -62,6 +88,7 @@ import { IntegrationController } from './controllers/integration.controller';
     HRProfileController,
     TeamManagementController,
     IntegrationController,
+    HiringPipelineController,
   ],
   providers: [
     JobManagementService,
@@ -69,6 +96,9 @@ import { IntegrationController } from './controllers/integration.controller';
     HRProfileService,
     TeamManagementService,
     IntegrationService,
+    ResumeParserService,
+    HiringPipelineService,
+    ResumeParsingProcessor,
   ],
   exports: [
     JobManagementService,
@@ -76,6 +106,7 @@ import { IntegrationController } from './controllers/integration.controller';
     HRProfileService,
     TeamManagementService,
     IntegrationService,
+    HiringPipelineService,
   ],
 })
 export class HRModule {}
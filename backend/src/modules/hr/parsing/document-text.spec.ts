@@ -0,0 +1,151 @@
+import { deflateRawSync, deflateSync } from 'zlib';
+import PDFDocument from 'pdfkit';
+import { DocumentExtractionError, extractDocumentText } from './document-text';
+
+const renderPdf = (lines: string[]): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument();
+    const chunks: Buffer[] = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+    lines.forEach((line, index) => {
+      if (index === 2) doc.addPage();
+      doc.text(line);
+    });
+    doc.end();
+  });
+
+/**
+ * Minimal DOCX archive with deflated entries
+ */
+const buildDocx = (files: Record<string, string>): Buffer => {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuffer = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(content), 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(Buffer.byteLength(content), 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, nameBuffer, data);
+    centralParts.push(central, nameBuffer);
+    offset += local.length + nameBuffer.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+};
+
+/**
+ * Single-page PDF whose page content is the given stream objects, alongside
+ * streams that nothing references
+ */
+const buildPdf = (contentStreams: Buffer[], unreferencedStreams: Buffer[] = []): Buffer => {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /Contents [${contentStreams
+      .map((_, index) => `${index + 4} 0 R`)
+      .join(' ')}] >>`,
+  ].map(dictionary => Buffer.from(dictionary));
+
+  for (const stream of [...contentStreams, ...unreferencedStreams]) {
+    objects.push(
+      Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`),
+        stream,
+        Buffer.from('\nendstream'),
+      ]),
+    );
+  }
+
+  return Buffer.concat([
+    Buffer.from('%PDF-1.4\n'),
+    ...objects.map((object, index) =>
+      Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`), object, Buffer.from('\nendobj\n')]),
+    ),
+    Buffer.from('trailer\n<< /Root 1 0 R >>\n%%EOF\n'),
+  ]);
+};
+
+const paragraph = (text: string) => `<w:p><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+
+describe('extractDocumentText', () => {
+  it('extracts text from PDF pages in order', async () => {
+    const pdf = await renderPdf([
+      'Jane Doe',
+      'jane.doe@example.com',
+      'Work Experience',
+      'Engineer at Acme (2019 - 2021)',
+    ]);
+
+    const { format, text } = extractDocumentText(pdf, 'application/pdf');
+
+    expect(format).toBe('pdf');
+    expect(text.split('\n')).toEqual([
+      'Jane Doe',
+      'jane.doe@example.com',
+      '',
+      'Work Experience',
+      'Engineer at Acme (2019 - 2021)',
+    ]);
+  });
+
+  it('inflates only the streams pages refer to, within one budget per document', () => {
+    // 10 MB of padding compresses to a few kilobytes
+    const bomb = deflateSync(Buffer.alloc(10 * 1024 * 1024, ' '));
+    const text = deflateSync(Buffer.from('BT /F1 12 Tf (Jane Doe) Tj ET'));
+
+    expect(extractDocumentText(buildPdf([text], Array(20).fill(bomb))).text).toBe('Jane Doe');
+    expect(() => extractDocumentText(buildPdf([text, ...Array(6).fill(bomb)]))).toThrow(
+      DocumentExtractionError,
+    );
+  });
+
+  it('extracts paragraphs from DOCX headers and body', () => {
+    const docx = buildDocx({
+      '[Content_Types].xml': '<Types/>',
+      'word/header1.xml': `<w:hdr>${paragraph('Jane Doe')}</w:hdr>`,
+      'word/document.xml': `<w:document><w:body>${paragraph('Skills')}${paragraph(
+        'C++, R&amp;D<w:tab/>Go',
+      )}</w:body></w:document>`,
+    });
+
+    expect(extractDocumentText(docx, undefined, 'cv.docx')).toEqual({
+      format: 'docx',
+      text: 'Jane Doe\n\nSkills\nC++, R&D\tGo',
+    });
+  });
+
+  it('decodes plain text and rejects binary formats', () => {
+    expect(extractDocumentText(Buffer.from('\ufeffJane Doe\r\nEngineer'), 'text/plain').text).toBe(
+      'Jane Doe\nEngineer',
+    );
+    expect(() =>
+      extractDocumentText(Buffer.from([0x00, 0x01, 0x02, 0x03, 0x00]), 'image/png'),
+    ).toThrow(DocumentExtractionError);
+  });
+});
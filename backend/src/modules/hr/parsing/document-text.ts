@@ -0,0 +1,802 @@
+import { constants as zlibConstants, inflateRawSync, inflateSync } from 'zlib';
+
+/**
+ * Plain text extraction from resume documents (PDF, DOCX and plain text)
+ * without native dependencies. PDF support covers the text operators of
+ * page content streams with FlateDecode compression, object streams and
+ * ToUnicode maps; scanned documents have no text layer and yield nothing
+ */
+
+export type DocumentFormat = 'pdf' | 'docx' | 'text';
+
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  text: string;
+}
+
+export class DocumentExtractionError extends Error {}
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+// Decompressed size limit per archive entry, and for all streams of a PDF
+// together, against zip bombs
+const MAX_INFLATED_BYTES = 50 * 1024 * 1024;
+
+export function detectDocumentFormat(
+  buffer: Buffer,
+  mimeType?: string,
+  filename?: string,
+): DocumentFormat | null {
+  const extension = filename?.split('.').pop()?.toLowerCase();
+
+  if (buffer.length < 4) {
+    return 'text';
+  }
+  if (buffer.subarray(0, 1024).includes('%PDF-')) {
+    return 'pdf';
+  }
+  if (buffer.readUInt32LE(0) === 0x04034b50) {
+    return mimeType === DOCX_MIME_TYPE ||
+      extension === 'docx' ||
+      findZipEntry(buffer, 'word/document.xml')
+      ? 'docx'
+      : null;
+  }
+  if (
+    mimeType?.startsWith('text/') ||
+    ['txt', 'text', 'md'].includes(extension) ||
+    !buffer.subarray(0, 4096).includes(0)
+  ) {
+    return 'text';
+  }
+
+  return null;
+}
+
+export function extractDocumentText(
+  buffer: Buffer,
+  mimeType?: string,
+  filename?: string,
+): ExtractedDocument {
+  if (!buffer?.length) {
+    throw new DocumentExtractionError('Document is empty');
+  }
+
+  const format = detectDocumentFormat(buffer, mimeType, filename);
+
+  switch (format) {
+    case 'pdf':
+      return { format, text: normalizeText(extractPdfText(buffer)) };
+    case 'docx':
+      return { format, text: normalizeText(extractDocxText(buffer)) };
+    case 'text':
+      return { format, text: normalizeText(decodePlainText(buffer)) };
+    default:
+      throw new DocumentExtractionError(
+        'Unsupported document format, expected PDF, DOCX or plain text',
+      );
+  }
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\u00a0\u2000-\u200b\u3000]/g, ' ')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function decodePlainText(buffer: Buffer): string {
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return buffer.subarray(2).toString('utf16le');
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return Buffer.from(buffer.subarray(2)).swap16().toString('utf16le');
+  }
+
+  const text = buffer.toString('utf8').replace(/^\ufeff/, '');
+  // Legacy single-byte encodings do not survive UTF-8 decoding
+  return text.includes('\ufffd') ? buffer.toString('latin1') : text;
+}
+
+// DOCX
+
+function extractDocxText(buffer: Buffer): string {
+  const document = readZipEntry(buffer, 'word/document.xml');
+  if (!document) {
+    throw new DocumentExtractionError('DOCX document body not found');
+  }
+
+  // Contact details are often placed in the page header
+  const headers = listZipEntries(buffer)
+    .filter(name => /^word\/header\d*\.xml$/.test(name))
+    .map(name => wordXmlToText(readZipEntry(buffer, name).toString('utf8')));
+
+  return [...headers, wordXmlToText(document.toString('utf8'))].join('\n');
+}
+
+function wordXmlToText(xml: string): string {
+  const output: string[] = [];
+  let inText = false;
+
+  for (const match of xml.matchAll(/<(\/?)([\w:]+)[^>]*?(\/?)>|([^<]+)/g)) {
+    const [, closing, tag, selfClosing, content] = match;
+
+    if (content !== undefined) {
+      if (inText) output.push(decodeXmlEntities(content));
+      continue;
+    }
+
+    if (tag === 'w:t') {
+      inText = !closing && !selfClosing;
+    } else if (tag === 'w:tab' && !closing) {
+      output.push('\t');
+    } else if ((tag === 'w:br' || tag === 'w:cr') && !closing) {
+      output.push('\n');
+    } else if (tag === 'w:p' && (closing || selfClosing)) {
+      output.push('\n');
+    } else if (tag === 'w:tc' && closing) {
+      output.push('\t');
+    }
+  }
+
+  return output.join('');
+}
+
+function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+    if (named[code.toLowerCase()]) return named[code.toLowerCase()];
+    const codePoint =
+      code[1] === 'x' || code[1] === 'X'
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+    return Number.isFinite(codePoint) ? String.fromCodePoint(codePoint) : entity;
+  });
+}
+
+// ZIP
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readZipDirectory(buffer: Buffer): ZipEntry[] {
+  // The end of central directory record sits within the last 64KB (comment included)
+  let end = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 65557); offset--) {
+    if (buffer.readUInt32LE(offset) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new DocumentExtractionError('Invalid ZIP archive');
+  }
+
+  const entries: ZipEntry[] = [];
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let index = 0; index < count && offset + 46 <= buffer.length; index++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) break;
+
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    entries.push({
+      name: buffer.toString('utf8', offset + 46, offset + 46 + nameLength),
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + buffer.readUInt16LE(offset + 30) + buffer.readUInt16LE(offset + 32);
+  }
+
+  return entries;
+}
+
+function listZipEntries(buffer: Buffer): string[] {
+  return readZipDirectory(buffer).map(entry => entry.name);
+}
+
+function findZipEntry(buffer: Buffer, name: string): ZipEntry | undefined {
+  try {
+    return readZipDirectory(buffer).find(entry => entry.name === name);
+  } catch {
+    return undefined;
+  }
+}
+
+function readZipEntry(buffer: Buffer, name: string): Buffer | null {
+  const entry = findZipEntry(buffer, name);
+  if (!entry) return null;
+
+  const header = entry.localHeaderOffset;
+  if (buffer.readUInt32LE(header) !== 0x04034b50) {
+    throw new DocumentExtractionError(`Corrupt ZIP entry ${name}`);
+  }
+
+  const start = header + 30 + buffer.readUInt16LE(header + 26) + buffer.readUInt16LE(header + 28);
+  const data = buffer.subarray(start, start + entry.compressedSize);
+
+  if (entry.method === 0) return data;
+  if (entry.method === 8) return inflateRawSync(data, { maxOutputLength: MAX_INFLATED_BYTES });
+
+  throw new DocumentExtractionError(`Unsupported ZIP compression method ${entry.method}`);
+}
+
+// PDF
+
+interface PdfObject {
+  dictionary: string;
+  // Encoded stream data, inflated on first read through pdfStream
+  rawStream?: Buffer;
+  stream?: Buffer;
+}
+
+// Decompressed bytes the rest of the document may still inflate
+interface InflateBudget {
+  remaining: number;
+}
+
+interface PdfFont {
+  codeLength: number;
+  toUnicode?: Map<string, string>;
+}
+
+type PdfToken =
+  | { type: 'string'; value: Buffer }
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'operator'; value: string }
+  | { type: 'array'; value: PdfToken[] };
+
+const WIN_ANSI_OVERRIDES: Record<number, string> = {
+  0x80: '€',
+  0x85: '…',
+  0x91: '‘',
+  0x92: '’',
+  0x93: '“',
+  0x94: '”',
+  0x95: '•',
+  0x96: '–',
+  0x97: '—',
+};
+
+function extractPdfText(buffer: Buffer): string {
+  if (/\/Encrypt\s+\d+\s+\d+\s+R/.test(buffer.toString('latin1'))) {
+    throw new DocumentExtractionError('Encrypted PDF documents are not supported');
+  }
+
+  const budget: InflateBudget = { remaining: MAX_INFLATED_BYTES };
+  const objects = readPdfObjects(buffer, budget);
+  const fontCache = new Map<string, PdfFont>();
+  const pages = orderedPages(objects);
+
+  return pages
+    .map(pageNumber => {
+      const page = objects.get(pageNumber);
+      const fonts = resolvePageFonts(page, objects, fontCache, budget);
+      const content = Buffer.concat(
+        referenceList(dictionaryValue(page.dictionary, 'Contents'))
+          .map(ref => pdfStream(objects.get(ref), budget))
+          .filter(Boolean),
+      );
+      return contentStreamText(content, fonts);
+    })
+    .join('\n\n');
+}
+
+function readPdfObjects(buffer: Buffer, budget: InflateBudget): Map<number, PdfObject> {
+  const source = buffer.toString('latin1');
+  const objects = new Map<number, PdfObject>();
+  const objectPattern = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = objectPattern.exec(source))) {
+    const start = match.index + match[0].length;
+    const end = source.indexOf('endobj', start);
+    if (end < 0) break;
+
+    const body = source.slice(start, end);
+    const streamIndex = body.search(/\bstream\r?\n/);
+    const object: PdfObject = { dictionary: streamIndex < 0 ? body : body.slice(0, streamIndex) };
+
+    if (streamIndex >= 0) {
+      const dataStart =
+        start + streamIndex + body.slice(streamIndex).match(/^stream\r?\n/)[0].length;
+      const dataEnd = source.lastIndexOf('endstream', end);
+      object.rawStream = buffer.subarray(dataStart, dataEnd);
+    }
+
+    objects.set(Number(match[1]), object);
+    objectPattern.lastIndex = end;
+  }
+
+  // PDF 1.5+ keeps page and font dictionaries in compressed object streams
+  for (const object of [...objects.values()]) {
+    if (!/\/Type\s*\/ObjStm/.test(object.dictionary)) continue;
+
+    const stream = pdfStream(object, budget);
+    if (!stream) continue;
+
+    const first = Number(dictionaryValue(object.dictionary, 'First'));
+    const content = stream.toString('latin1');
+    const header = content.slice(0, first).trim().split(/\s+/).map(Number);
+
+    for (let index = 0; index + 1 < header.length; index += 2) {
+      const offset = first + header[index + 1];
+      const next = index + 3 < header.length ? first + header[index + 3] : content.length;
+      if (!objects.has(header[index])) {
+        objects.set(header[index], { dictionary: content.slice(offset, next) });
+      }
+    }
+  }
+
+  return objects;
+}
+
+/**
+ * Decoded data of a stream object. Only streams that are read get inflated,
+ * each charged to the budget of the whole document
+ */
+function pdfStream(object: PdfObject | undefined, budget: InflateBudget): Buffer | undefined {
+  if (!object?.rawStream) return object?.stream;
+
+  object.stream = decodePdfStream(object.dictionary, object.rawStream, budget);
+  object.rawStream = undefined;
+  return object.stream;
+}
+
+function decodePdfStream(
+  dictionary: string,
+  data: Buffer,
+  budget: InflateBudget,
+): Buffer | undefined {
+  if (/\/Subtype\s*\/Image/.test(dictionary)) return undefined;
+
+  const filters = (dictionaryValue(dictionary, 'Filter') || '').match(/\/\w+/g) || [];
+  let decoded = data;
+
+  for (const filter of filters) {
+    if (filter !== '/FlateDecode' && filter !== '/Fl') return undefined;
+    const input = decoded;
+    try {
+      decoded = inflateWithinBudget(input, budget);
+    } catch (error) {
+      if (error instanceof DocumentExtractionError) throw error;
+      // Accept truncated streams, as PDF readers do
+      try {
+        decoded = inflateWithinBudget(input, budget, zlibConstants.Z_SYNC_FLUSH);
+      } catch (retryError) {
+        if (retryError instanceof DocumentExtractionError) throw retryError;
+        return undefined;
+      }
+    }
+  }
+
+  return decoded;
+}
+
+function inflateWithinBudget(data: Buffer, budget: InflateBudget, finishFlush?: number): Buffer {
+  let inflated: Buffer;
+  try {
+    inflated = inflateSync(data, {
+      ...(finishFlush !== undefined && { finishFlush }),
+      maxOutputLength: Math.max(budget.remaining, 1),
+    });
+  } catch (error) {
+    if (error?.code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new DocumentExtractionError('PDF document decompresses beyond the size limit');
+    }
+    throw error;
+  }
+
+  budget.remaining -= inflated.length;
+  return inflated;
+}
+
+/**
+ * Raw value of a dictionary key: an indirect reference, a nested dictionary,
+ * an array or a single token
+ */
+function dictionaryValue(dictionary: string, key: string): string | undefined {
+  const match = new RegExp(`/${key}(?![\\w.-])\\s*`).exec(dictionary);
+  if (!match) return undefined;
+
+  const start = match.index + match[0].length;
+  const rest = dictionary.slice(start);
+
+  const reference = /^\d+\s+\d+\s+R\b/.exec(rest);
+  if (reference) return reference[0];
+
+  const open = rest.startsWith('<<') ? '<<' : rest.startsWith('[') ? '[' : null;
+  if (open) {
+    const close = open === '<<' ? '>>' : ']';
+    let depth = 0;
+    for (let index = 0; index < rest.length; index++) {
+      if (rest.startsWith(open, index)) {
+        depth++;
+        index += open.length - 1;
+      } else if (rest.startsWith(close, index)) {
+        depth--;
+        index += close.length - 1;
+        if (depth === 0) return rest.slice(0, index + 1);
+      }
+    }
+    return rest;
+  }
+
+  return /^\/?[^\s/<>[\]()]*/.exec(rest)[0];
+}
+
+function referenceList(value?: string): number[] {
+  return value ? [...value.matchAll(/(\d+)\s+\d+\s+R\b/g)].map(match => Number(match[1])) : [];
+}
+
+function resolveDictionary(
+  value: string | undefined,
+  objects: Map<number, PdfObject>,
+): string | undefined {
+  if (!value) return undefined;
+  const [reference] = /^\d+\s+\d+\s+R$/.test(value) ? referenceList(value) : [];
+  return reference !== undefined ? objects.get(reference)?.dictionary : value;
+}
+
+function orderedPages(objects: Map<number, PdfObject>): number[] {
+  const catalog = [...objects.values()].find(object =>
+    /\/Type\s*\/Catalog/.test(object.dictionary),
+  );
+  const pages: number[] = [];
+  const visited = new Set<number>();
+
+  const walk = (reference: number) => {
+    if (visited.has(reference)) return;
+    visited.add(reference);
+
+    const dictionary = objects.get(reference)?.dictionary || '';
+    if (/\/Type\s*\/Pages\b/.test(dictionary)) {
+      referenceList(dictionaryValue(dictionary, 'Kids')).forEach(walk);
+    } else if (/\/Type\s*\/Page\b/.test(dictionary)) {
+      pages.push(reference);
+    }
+  };
+
+  referenceList(catalog && dictionaryValue(catalog.dictionary, 'Pages')).forEach(walk);
+
+  if (pages.length) return pages;
+
+  // Damaged page tree: fall back to object order
+  return [...objects.entries()]
+    .filter(([, object]) => /\/Type\s*\/Page\b/.test(object.dictionary))
+    .map(([reference]) => reference)
+    .sort((a, b) => a - b);
+}
+
+function resolvePageFonts(
+  page: PdfObject,
+  objects: Map<number, PdfObject>,
+  cache: Map<string, PdfFont>,
+  budget: InflateBudget,
+): Map<string, PdfFont> {
+  // Resources may be inherited from an ancestor of the page tree
+  let node: string | undefined = page.dictionary;
+  let resources: string | undefined;
+  for (let depth = 0; node && !resources && depth < 32; depth++) {
+    resources = resolveDictionary(dictionaryValue(node, 'Resources'), objects);
+    const [parent] = referenceList(dictionaryValue(node, 'Parent'));
+    node = parent !== undefined ? objects.get(parent)?.dictionary : undefined;
+  }
+
+  const fontDictionary =
+    resolveDictionary(resources && dictionaryValue(resources, 'Font'), objects) || '';
+  const fonts = new Map<string, PdfFont>();
+
+  for (const match of fontDictionary.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R\b/g)) {
+    const [, name, reference] = match;
+    if (!cache.has(reference)) {
+      cache.set(
+        reference,
+        loadFont(objects.get(Number(reference))?.dictionary || '', objects, budget),
+      );
+    }
+    fonts.set(name, cache.get(reference));
+  }
+
+  return fonts;
+}
+
+function loadFont(
+  dictionary: string,
+  objects: Map<number, PdfObject>,
+  budget: InflateBudget,
+): PdfFont {
+  const composite = /\/Subtype\s*\/Type0/.test(dictionary);
+  const [toUnicodeReference] = referenceList(dictionaryValue(dictionary, 'ToUnicode'));
+  const cmap =
+    toUnicodeReference !== undefined
+      ? pdfStream(objects.get(toUnicodeReference), budget)
+      : undefined;
+
+  if (!cmap) {
+    return { codeLength: composite ? 2 : 1 };
+  }
+
+  return parseToUnicodeCMap(cmap.toString('latin1'), composite ? 2 : 1);
+}
+
+function parseToUnicodeCMap(cmap: string, defaultCodeLength: number): PdfFont {
+  const toUnicode = new Map<string, string>();
+  const codespace = /begincodespacerange\s*<([0-9a-fA-F]+)>/.exec(cmap);
+  const codeLength = codespace ? Math.max(1, codespace[1].length / 2) : defaultCodeLength;
+
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const entry of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      toUnicode.set(entry[1].toLowerCase(), utf16HexToString(entry[2]));
+    }
+  }
+
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const entry of block[1].matchAll(
+      /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g,
+    )) {
+      const low = parseInt(entry[1], 16);
+      const high = Math.min(parseInt(entry[2], 16), low + 0xffff);
+      const width = entry[1].length;
+      const targets = entry[3].startsWith('[')
+        ? [...entry[3].matchAll(/<([0-9a-fA-F]*)>/g)].map(m => m[1])
+        : null;
+      const base = targets ? 0 : parseInt(entry[3].slice(1, -1) || '0', 16);
+
+      for (let code = low; code <= high; code++) {
+        const key = code.toString(16).padStart(width, '0');
+        if (targets) {
+          if (targets[code - low] !== undefined)
+            toUnicode.set(key, utf16HexToString(targets[code - low]));
+        } else {
+          toUnicode.set(
+            key,
+            String.fromCharCode(...utf16Units(base + code - low, entry[3].length - 2)),
+          );
+        }
+      }
+    }
+  }
+
+  return { codeLength, toUnicode };
+}
+
+function utf16HexToString(hex: string): string {
+  const units: number[] = [];
+  for (let index = 0; index + 4 <= hex.length; index += 4) {
+    units.push(parseInt(hex.slice(index, index + 4), 16));
+  }
+  return String.fromCharCode(...units);
+}
+
+function utf16Units(value: number, hexLength: number): number[] {
+  return hexLength > 4 ? [Math.floor(value / 0x10000), value % 0x10000] : [value];
+}
+
+function decodePdfString(bytes: Buffer, font?: PdfFont): string {
+  if (font?.toUnicode) {
+    let text = '';
+    for (let index = 0; index + font.codeLength <= bytes.length; index += font.codeLength) {
+      const code = bytes.subarray(index, index + font.codeLength).toString('hex');
+      text +=
+        font.toUnicode.get(code) ?? (font.codeLength === 1 ? decodeWinAnsi(bytes[index]) : '');
+    }
+    return text;
+  }
+
+  // Composite fonts without a ToUnicode map cannot be decoded
+  if (font?.codeLength === 2) return '';
+
+  let text = '';
+  for (const byte of bytes) {
+    text += decodeWinAnsi(byte);
+  }
+  return text;
+}
+
+function decodeWinAnsi(byte: number): string {
+  return (
+    WIN_ANSI_OVERRIDES[byte] ?? (byte >= 0x20 || byte === 0x09 ? String.fromCharCode(byte) : '')
+  );
+}
+
+function contentStreamText(content: Buffer, fonts: Map<string, PdfFont>): string {
+  const tokens = tokenizeContentStream(content);
+  const output: string[] = [];
+  let operands: PdfToken[] = [];
+  let font: PdfFont | undefined;
+  let lineY: number | null = null;
+
+  const write = (text: string) => output.push(text);
+  const newLine = () => {
+    if (output.length && output[output.length - 1] !== '\n') write('\n');
+  };
+  const space = () => {
+    const last = output[output.length - 1];
+    if (last && !/\s$/.test(last)) write(' ');
+  };
+  const moveTo = (y: number) => {
+    if (lineY !== null && Math.abs(y - lineY) > 1) newLine();
+    else space();
+    lineY = y;
+  };
+
+  for (const token of tokens) {
+    if (token.type !== 'operator') {
+      operands.push(token);
+      continue;
+    }
+
+    const numbers = operands.map(operand => (operand.type === 'number' ? operand.value : 0));
+    const last = operands[operands.length - 1];
+
+    switch (token.value) {
+      case 'Tf':
+        font = operands[0]?.type === 'name' ? fonts.get(operands[0].value) : undefined;
+        break;
+      case 'Td':
+      case 'TD':
+        if (numbers[1]) {
+          moveTo((lineY ?? 0) + numbers[1]);
+        } else if (numbers[0]) {
+          space();
+        }
+        break;
+      case 'Tm':
+        moveTo(numbers[5]);
+        break;
+      case 'T*':
+        newLine();
+        break;
+      case "'":
+      case '"':
+        newLine();
+        if (last?.type === 'string') write(decodePdfString(last.value, font));
+        break;
+      case 'Tj':
+        if (last?.type === 'string') write(decodePdfString(last.value, font));
+        break;
+      case 'TJ':
+        if (last?.type === 'array') {
+          for (const item of last.value) {
+            if (item.type === 'string') write(decodePdfString(item.value, font));
+            // Large negative adjustments stand in for word spaces
+            else if (item.type === 'number' && item.value < -200) space();
+          }
+        }
+        break;
+    }
+
+    operands = [];
+  }
+
+  return output.join('');
+}
+
+function tokenizeContentStream(content: Buffer): PdfToken[] {
+  const tokens: PdfToken[] = [];
+  const stack: PdfToken[][] = [tokens];
+  let index = 0;
+
+  const push = (token: PdfToken) => stack[stack.length - 1].push(token);
+
+  while (index < content.length) {
+    const char = String.fromCharCode(content[index]);
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '%') {
+      while (index < content.length && content[index] !== 0x0a && content[index] !== 0x0d) index++;
+    } else if (char === '(') {
+      const [value, next] = readLiteralString(content, index + 1);
+      push({ type: 'string', value });
+      index = next;
+    } else if (char === '<' && content[index + 1] === 0x3c) {
+      // Inline dictionaries (marked content properties) carry no text
+      let depth = 0;
+      while (index < content.length) {
+        if (content[index] === 0x3c && content[index + 1] === 0x3c) {
+          depth++;
+          index += 2;
+        } else if (content[index] === 0x3e && content[index + 1] === 0x3e) {
+          depth--;
+          index += 2;
+          if (depth === 0) break;
+        } else index++;
+      }
+    } else if (char === '<') {
+      const end = content.indexOf(0x3e, index);
+      const hex = content
+        .toString('latin1', index + 1, end < 0 ? content.length : end)
+        .replace(/[^0-9a-fA-F]/g, '');
+      push({ type: 'string', value: Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex') });
+      index = end < 0 ? content.length : end + 1;
+    } else if (char === '[') {
+      const array: PdfToken[] = [];
+      push({ type: 'array', value: array });
+      stack.push(array);
+      index++;
+    } else if (char === ']') {
+      if (stack.length > 1) stack.pop();
+      index++;
+    } else {
+      let end = index + 1;
+      while (end < content.length && !/[\s()<>[\]/%]/.test(String.fromCharCode(content[end])))
+        end++;
+      const word = content.toString('latin1', index, end);
+      index = end;
+
+      if (char === '/') {
+        push({ type: 'name', value: word.slice(1) });
+      } else if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+        push({ type: 'number', value: Number(word) });
+      } else if (word === 'BI') {
+        // Skip inline image data up to the EI operator
+        const end = content.indexOf('EI', index, 'latin1');
+        index = end < 0 ? content.length : end + 2;
+      } else {
+        stack.length = 1;
+        tokens.push({ type: 'operator', value: word });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function readLiteralString(content: Buffer, start: number): [Buffer, number] {
+  const bytes: number[] = [];
+  let depth = 1;
+  let index = start;
+
+  while (index < content.length) {
+    const byte = content[index];
+
+    if (byte === 0x5c) {
+      const next = content[index + 1];
+      const escapes: Record<number, number> = {
+        0x6e: 0x0a,
+        0x72: 0x0d,
+        0x74: 0x09,
+        0x62: 0x08,
+        0x66: 0x0c,
+      };
+
+      if (next >= 0x30 && next <= 0x37) {
+        let octal = '';
+        let cursor = index + 1;
+        while (octal.length < 3 && content[cursor] >= 0x30 && content[cursor] <= 0x37) {
+          octal += String.fromCharCode(content[cursor++]);
+        }
+        bytes.push(parseInt(octal, 8) & 0xff);
+        index = cursor;
+        continue;
+      }
+      if (next === 0x0d || next === 0x0a) {
+        // Line continuation
+        index += next === 0x0d && content[index + 2] === 0x0a ? 3 : 2;
+        continue;
+      }
+      bytes.push(escapes[next] ?? next);
+      index += 2;
+      continue;
+    }
+
+    if (byte === 0x28) depth++;
+    if (byte === 0x29 && --depth === 0) {
+      return [Buffer.from(bytes), index + 1];
+    }
+
+    bytes.push(byte);
+    index++;
+  }
+
+  return [Buffer.from(bytes), index];
+}
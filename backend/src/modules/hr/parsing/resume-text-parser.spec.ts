@@ -0,0 +1,117 @@
+import { parseDateRange, parseResumeText } from './resume-text-parser';
+
+const RESUME = `JANE DOE
+Senior Software Engineer
+San Francisco, CA | +1 (415) 555-0142 | jane.doe@example.com
+linkedin.com/in/janedoe | https://janedoe.dev/
+
+Summary
+Backend engineer with nine years of experience building payment and billing platforms at scale.
+
+Work Experience
+Senior Software Engineer at Stripe Inc   Jan 2020 - Present
+- Led the migration of invoicing to an event-driven architecture
+- Mentored six engineers
+Acme Corp, Berlin
+Software Developer
+03/2016 – 12/2019
+Built internal tooling in TypeScript.
+
+Education
+Stanford University
+Bachelor of Science in Computer Science, 2012 - 2016, GPA: 3.8/4.0
+
+Skills
+Languages: TypeScript, Python, Go
+PostgreSQL; Kubernetes | AWS
+
+Certifications
+AWS Certified Solutions Architect - Amazon Web Services, Mar 2021 (Expires Mar 2024)
+
+Languages
+English (Native), Spanish - Fluent, German B1
+
+References
+John Roe, john.roe@example.org`;
+
+describe('parseResumeText', () => {
+  const parsed = parseResumeText(RESUME);
+
+  it('extracts contact details from the header', () => {
+    expect(parsed.personalInfo).toMatchObject({
+      firstName: 'Jane',
+      lastName: 'Doe',
+      email: 'jane.doe@example.com',
+      phone: '+1 (415) 555-0142',
+      address: 'San Francisco, CA',
+      linkedin: 'https://linkedin.com/in/janedoe',
+      website: 'https://janedoe.dev/',
+    });
+    expect(parsed.personalInfo.confidence.email).toBeGreaterThan(0.9);
+    expect(parsed.summary).toContain('Backend engineer');
+  });
+
+  it('splits experience entries with dates, employers and descriptions', () => {
+    expect(parsed.experience).toHaveLength(2);
+    expect(parsed.experience[0]).toMatchObject({
+      position: 'Senior Software Engineer',
+      company: 'Stripe Inc',
+      startDate: '2020-01',
+      current: true,
+    });
+    expect(parsed.experience[0].description).toContain('Mentored six engineers');
+    expect(parsed.experience[1]).toMatchObject({
+      position: 'Software Developer',
+      company: 'Acme Corp',
+      location: 'Berlin',
+      startDate: '2016-03',
+      endDate: '2019-12',
+      current: false,
+    });
+    expect(parsed.experience[0].confidence).toBeGreaterThan(0.8);
+  });
+
+  it('extracts education, skills, certifications and languages', () => {
+    expect(parsed.education[0]).toMatchObject({
+      institution: 'Stanford University',
+      degree: 'Bachelor of Science',
+      field: 'Computer Science',
+      startDate: '2012',
+      endDate: '2016',
+      gpa: 3.8,
+    });
+    expect(parsed.skills.map(skill => skill.name)).toEqual([
+      'TypeScript',
+      'Python',
+      'Go',
+      'PostgreSQL',
+      'Kubernetes',
+      'AWS',
+    ]);
+    expect(parsed.skills[0].category).toBe('Languages');
+    expect(parsed.certifications[0]).toMatchObject({
+      name: 'AWS Certified Solutions Architect',
+      issuer: 'Amazon Web Services',
+      issueDate: '2021-03',
+      expiryDate: '2024-03',
+    });
+    expect(parsed.languages).toEqual([
+      { name: 'English', proficiency: 'native', confidence: 0.9 },
+      { name: 'Spanish', proficiency: 'fluent', confidence: 0.9 },
+      { name: 'German', proficiency: 'conversational', confidence: 0.9 },
+    ]);
+  });
+
+  it('normalises date formats', () => {
+    expect(parseDateRange('Sept 2018 to Oct. 2019')).toMatchObject({
+      startDate: '2018-09',
+      endDate: '2019-10',
+      current: false,
+    });
+    expect(parseDateRange('2021/04 - current')).toMatchObject({
+      startDate: '2021-04',
+      current: true,
+    });
+    expect(parseDateRange('no dates here')).toBeNull();
+  });
+});
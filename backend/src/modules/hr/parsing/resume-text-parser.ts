@@ -0,0 +1,711 @@
+/**
+ * Heuristic resume parsing: splits plain resume text into sections and
+ * extracts contact details, dated experience and education entries,
+ * skills, certifications and languages. Every extracted value carries a
+ * confidence between 0 and 1 so reviewers can tell guesses from matches
+ */
+
+export type ResumeSection =
+  | 'header'
+  | 'summary'
+  | 'experience'
+  | 'education'
+  | 'skills'
+  | 'certifications'
+  | 'languages'
+  | 'other';
+
+export interface ParsedDateRange {
+  startDate: string;
+  endDate?: string;
+  current: boolean;
+  confidence: number;
+}
+
+export interface ResumeTextParseResult {
+  personalInfo: {
+    firstName: string;
+    lastName: string;
+    email: string;
+    phone?: string;
+    address?: string;
+    linkedin?: string;
+    website?: string;
+    confidence: Record<string, number>;
+  };
+  summary?: string;
+  experience: Array<{
+    company: string;
+    position: string;
+    startDate: string;
+    endDate?: string;
+    current: boolean;
+    description: string;
+    location?: string;
+    confidence: number;
+  }>;
+  education: Array<{
+    institution: string;
+    degree: string;
+    field: string;
+    startDate: string;
+    endDate?: string;
+    current: boolean;
+    gpa?: number;
+    confidence: number;
+  }>;
+  skills: Array<{ name: string; category?: string; confidence: number }>;
+  certifications: Array<{
+    name: string;
+    issuer: string;
+    issueDate: string;
+    expiryDate?: string;
+    confidence: number;
+  }>;
+  languages: Array<{ name: string; proficiency: string; confidence: number }>;
+  sections: ResumeSection[];
+  confidence: number;
+}
+
+interface Line {
+  text: string;
+  bullet: boolean;
+}
+
+const SECTION_HEADINGS: Record<Exclude<ResumeSection, 'header'>, string[]> = {
+  summary: [
+    'summary',
+    'professional summary',
+    'career summary',
+    'profile',
+    'professional profile',
+    'about me',
+    'about',
+    'objective',
+    'career objective',
+  ],
+  experience: [
+    'experience',
+    'work experience',
+    'professional experience',
+    'relevant experience',
+    'employment',
+    'employment history',
+    'work history',
+    'career history',
+    'professional background',
+  ],
+  education: [
+    'education',
+    'academic background',
+    'academic qualifications',
+    'educational background',
+    'education and training',
+    'qualifications',
+  ],
+  skills: [
+    'skills',
+    'technical skills',
+    'key skills',
+    'core skills',
+    'core competencies',
+    'competencies',
+    'technologies',
+    'tech stack',
+    'tools and technologies',
+    'skills and tools',
+  ],
+  certifications: [
+    'certifications',
+    'certificates',
+    'certification',
+    'licenses and certifications',
+    'licences and certifications',
+    'certifications and licenses',
+    'accreditations',
+  ],
+  languages: ['languages', 'language skills', 'spoken languages'],
+  other: [
+    'projects',
+    'personal projects',
+    'interests',
+    'hobbies',
+    'references',
+    'awards',
+    'honors',
+    'honours',
+    'achievements',
+    'publications',
+    'volunteering',
+    'volunteer experience',
+    'activities',
+  ],
+};
+
+const HEADING_LOOKUP = new Map<string, ResumeSection>(
+  Object.entries(SECTION_HEADINGS).flatMap(([section, headings]) =>
+    headings.map(heading => [heading, section as ResumeSection] as [string, ResumeSection]),
+  ),
+);
+
+const MONTHS: Record<string, number> = {
+  jan: 1,
+  feb: 2,
+  mar: 3,
+  apr: 4,
+  may: 5,
+  jun: 6,
+  jul: 7,
+  aug: 8,
+  sep: 9,
+  sept: 9,
+  oct: 10,
+  nov: 11,
+  dec: 12,
+};
+
+const MONTH_NAME =
+  '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const DATE = `(?:${MONTH_NAME}\\s*,?\\s*\\d{4}|\\d{1,2}[/.-]\\d{4}|\\d{4}[/.-]\\d{1,2}(?!\\d)|(?:19|20)\\d{2})`;
+const PRESENT = '(?:present|current|currently|now|today|ongoing|date)';
+const DATE_RANGE_PATTERN = new RegExp(
+  `(${DATE})\\s*(?:-|–|—|to|until|till)\\s*(${DATE}|${PRESENT})`,
+  'i',
+);
+const SINGLE_DATE_PATTERN = new RegExp(`(${DATE})`, 'i');
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+const PHONE_PATTERN = /(?:\+|\b)\d[\d\s().-]{7,}\d\b/;
+const LINKEDIN_PATTERN = /(?:https?:\/\/)?(?:[\w-]+\.)?linkedin\.com\/in\/[\w%-]+\/?/i;
+const URL_PATTERN =
+  /(?:https?:\/\/|www\.)[^\s,;|]+|\b[\w-]+\.(?:dev|io|me|com|net|org)\/[^\s,;|]*/i;
+
+const POSITION_KEYWORDS =
+  /\b(engineer|developer|programmer|manager|intern|analyst|designer|consultant|lead|director|specialist|architect|scientist|officer|head|coordinator|administrator|assistant|associate|executive|president|founder|co-founder|teacher|lecturer|professor|accountant|recruiter|representative|technician|supervisor|strategist|writer|editor|researcher|owner|partner|cto|ceo|cfo|vp|sde|devops|qa|tester|nurse|advisor|trainee|apprentice)\b/i;
+const LEGAL_SUFFIXES =
+  /\b(inc|llc|ltd|limited|gmbh|corp|corporation|company|co|plc|pvt|ag|sa|bv)\b(?!-)/i;
+const COMPANY_KEYWORDS =
+  /\b(inc|llc|ltd|limited|gmbh|corp|corporation|company|co|plc|pvt|technologies|technology|labs|solutions|group|systems|software|services|consulting|partners|bank|agency|studio|studios|ventures|holdings|foundation|university|hospital|ag|sa|bv)\b(?!-)/i;
+const INSTITUTION_KEYWORDS =
+  /\b(university|college|institute|school|academy|polytechnic|universidad|universit[ée]|conservatory|iit|mit)\b/i;
+const DEGREE_PATTERN =
+  /\b(ph\.?\s?d|doctorate|doctor of [a-z]+|master(?:'s)?(?: of [a-z]+)?|m\.?\s?sc|m\.?\s?s\.?|m\.?\s?a\.?|mba|m\.?\s?tech|m\.?\s?eng|bachelor(?:'s)?(?: of [a-z]+)?|b\.?\s?sc|b\.?\s?s\.?|b\.?\s?a\.?|b\.?\s?tech|b\.?\s?e\.?|b\.?\s?eng|associate(?:'s)? degree|associate of [a-z]+|diploma|high school diploma|ged|a-levels?|gcse)(?=\s|,|\.|$|\()/i;
+const GPA_PATTERN = /\b(?:c?gpa|grade)\s*[:\-]?\s*(\d+(?:\.\d+)?)(?:\s*\/\s*(\d+(?:\.\d+)?))?/i;
+const KNOWN_ISSUERS =
+  /\b(amazon web services|aws|microsoft|google(?: cloud)?|oracle|cisco|comptia|pmi|project management institute|scrum alliance|scrum\.org|isc2|\(isc\)²|isaca|linux foundation|cncf|red hat|salesforce|hashicorp|axelos|ibm|vmware|coursera|udemy|edx)\b/i;
+
+const PROFICIENCY_LEVELS: Array<[RegExp, string]> = [
+  [/\b(native|mother tongue|first language|bilingual)\b/i, 'native'],
+  [/\b(fluent|full professional|c2|c1)\b/i, 'fluent'],
+  [/\b(professional|proficient|advanced|business|working proficiency|b2)\b/i, 'professional'],
+  [/\b(conversational|intermediate|good|b1)\b/i, 'conversational'],
+  [/\b(basic|beginner|elementary|limited|a1|a2)\b/i, 'basic'],
+];
+
+const NAME_STOPWORDS = /\b(resume|curriculum|vitae|cv|page|profile|contact)\b/i;
+
+export function parseResumeText(text: string): ResumeTextParseResult {
+  const sections = splitSections(text);
+  const allLines = [...sections.values()].flat();
+
+  const personalInfo = extractPersonalInfo(sections.get('header') || [], allLines);
+  const experience = extractExperience(sections.get('experience') || []);
+  const education = extractEducation(sections.get('education') || []);
+  const skills = extractSkills(sections.get('skills') || []);
+  const certifications = extractCertifications(sections.get('certifications') || []);
+  const languages = extractLanguages(sections.get('languages') || []);
+  const summary = extractSummary(sections.get('summary'), sections.get('header'));
+
+  const scores = [
+    ...Object.values(personalInfo.confidence),
+    ...experience.map(entry => entry.confidence),
+    ...education.map(entry => entry.confidence),
+    ...skills.map(skill => skill.confidence),
+    ...certifications.map(cert => cert.confidence),
+    ...languages.map(language => language.confidence),
+  ];
+
+  return {
+    personalInfo,
+    summary,
+    experience,
+    education,
+    skills,
+    certifications,
+    languages,
+    sections: [...sections.keys()],
+    confidence: scores.length
+      ? round(scores.reduce((sum, score) => sum + score, 0) / scores.length)
+      : 0,
+  };
+}
+
+/**
+ * Parse a single date or date range, normalised to YYYY-MM or YYYY
+ */
+export function parseDateRange(text: string): ParsedDateRange | null {
+  const range = DATE_RANGE_PATTERN.exec(text);
+  if (range) {
+    const start = normalizeDate(range[1]);
+    const current = new RegExp(`^${PRESENT}$`, 'i').test(range[2].trim());
+    const end = current ? undefined : normalizeDate(range[2]);
+    if (!start) return null;
+
+    return {
+      startDate: start,
+      endDate: end,
+      current,
+      confidence: start.length > 4 && (current || end?.length > 4) ? 1 : 0.7,
+    };
+  }
+
+  const single = SINGLE_DATE_PATTERN.exec(text);
+  const date = single && normalizeDate(single[1]);
+  return date ? { startDate: date, current: false, confidence: date.length > 4 ? 0.6 : 0.5 } : null;
+}
+
+function splitSections(text: string): Map<ResumeSection, Line[]> {
+  const sections = new Map<ResumeSection, Line[]>([['header', []]]);
+  let current: ResumeSection = 'header';
+
+  for (const rawLine of text.split('\n')) {
+    const bullet = /^\s*[•▪●◦○■□►▶✓✔*·\-–]\s+/.test(rawLine);
+    const line = rawLine
+      .replace(/^\s*[•▪●◦○■□►▶✓✔*·\-–]\s+/, '')
+      // Tabs and wide gaps separate columns of the original layout
+      .replace(/\s*\t\s*|\s{3,}/g, ' | ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (!line) continue;
+
+    const heading = detectHeading(line);
+    // "Languages: Python, Go" inside the skills section is a skill group
+    if (heading && !(heading.rest && current === 'skills')) {
+      current = heading.section;
+      if (!sections.has(current)) sections.set(current, []);
+      // "Skills: Python, SQL" keeps its content on the heading line
+      if (heading.rest) sections.get(current).push({ text: heading.rest, bullet: false });
+      continue;
+    }
+
+    sections.get(current).push({ text: line, bullet });
+  }
+
+  return sections;
+}
+
+function detectHeading(line: string): { section: ResumeSection; rest?: string } | null {
+  const [label, ...rest] = line.split(':');
+  const key = label
+    .toLowerCase()
+    .replace(/&/g, 'and')
+    .replace(/[^a-z ]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  const section = HEADING_LOOKUP.get(key);
+
+  if (!section) return null;
+  if (rest.length && rest.join(':').trim()) {
+    return { section, rest: rest.join(':').trim() };
+  }
+  // A heading line has nothing but the heading
+  return label.trim().split(/\s+/).length <= 5 ? { section } : null;
+}
+
+function extractPersonalInfo(
+  header: Line[],
+  allLines: Line[],
+): ResumeTextParseResult['personalInfo'] {
+  const confidence: Record<string, number> = {};
+  const contactLines = header.length ? header : allLines.slice(0, 10);
+  const headerText = contactLines.map(line => line.text).join('\n');
+  // References at the end may list other people's contact details
+  const searchText = `${headerText}\n${allLines.map(line => line.text).join('\n')}`;
+
+  const email = EMAIL_PATTERN.exec(searchText)?.[0]?.toLowerCase() || '';
+  if (email) confidence.email = 0.99;
+
+  const linkedinMatch = LINKEDIN_PATTERN.exec(searchText)?.[0];
+  const linkedin =
+    linkedinMatch &&
+    (linkedinMatch.startsWith('http') ? linkedinMatch : `https://${linkedinMatch}`);
+  if (linkedin) confidence.linkedin = 0.95;
+
+  const phone = findPhone(headerText);
+  if (phone) confidence.phone = 0.85;
+
+  const website = searchText
+    .split(/\s+/)
+    .map(token => URL_PATTERN.exec(token)?.[0])
+    .find(url => url && !/linkedin\.com/i.test(url) && !url.includes('@'));
+  if (website) confidence.website = 0.8;
+
+  let firstName = '';
+  let lastName = '';
+  const nameIndex = contactLines.findIndex(line => isNameLine(line.text));
+  if (nameIndex >= 0) {
+    const parts = contactLines[nameIndex].text.split(/\s+/);
+    firstName = capitalize(parts[0]);
+    lastName = parts.slice(1).map(capitalize).join(' ');
+    confidence.name = nameIndex <= 1 ? 0.9 : 0.6;
+  } else if (email) {
+    // Fall back to john.doe@example.com
+    const parts = email
+      .split('@')[0]
+      .split(/[._-]/)
+      .filter(part => /^[a-z]{2,}$/.test(part));
+    if (parts.length >= 2) {
+      firstName = capitalize(parts[0]);
+      lastName = parts.slice(1).map(capitalize).join(' ');
+      confidence.name = 0.4;
+    }
+  }
+
+  const address = contactLines
+    .slice(0, 8)
+    .flatMap(line => line.text.split(/\s*[|•·]\s*/))
+    .map(part => part.trim())
+    .find(
+      part =>
+        /^[A-Za-zÀ-ÿ0-9 .'-]+,\s*[A-Za-zÀ-ÿ .'-]+(?:,\s*[A-Za-zÀ-ÿ0-9 .'-]+)?$/.test(part) &&
+        !EMAIL_PATTERN.test(part) &&
+        !PHONE_PATTERN.test(part) &&
+        !DATE_RANGE_PATTERN.test(part) &&
+        part.split(/\s+/).length <= 8,
+    );
+  if (address) confidence.address = 0.5;
+
+  return {
+    firstName,
+    lastName,
+    email,
+    phone,
+    address,
+    linkedin,
+    website,
+    confidence,
+  };
+}
+
+function findPhone(text: string): string | undefined {
+  for (const match of text.matchAll(new RegExp(PHONE_PATTERN, 'g'))) {
+    const candidate = match[0].trim();
+    const digits = candidate.replace(/\D/g, '');
+    // Skip date ranges such as 2019 - 2021
+    if (digits.length >= 8 && digits.length <= 15 && !DATE_RANGE_PATTERN.test(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+function isNameLine(text: string): boolean {
+  const words = text.split(/\s+/);
+  return (
+    words.length >= 2 &&
+    words.length <= 4 &&
+    words.every(word => /^[A-Za-zÀ-ÿ][A-Za-zÀ-ÿ'.-]*$/.test(word)) &&
+    words.every(word => word[0] === word[0].toUpperCase()) &&
+    !NAME_STOPWORDS.test(text) &&
+    !POSITION_KEYWORDS.test(text) &&
+    !HEADING_LOOKUP.has(text.toLowerCase())
+  );
+}
+
+function extractSummary(summary?: Line[], header?: Line[]): string | undefined {
+  if (summary?.length) {
+    return summary.map(line => line.text).join(' ');
+  }
+
+  // Unlabelled summary paragraphs sit under the contact block
+  const paragraph = (header || []).filter(line => line.text.split(/\s+/).length >= 12);
+  return paragraph.length ? paragraph.map(line => line.text).join(' ') : undefined;
+}
+
+function extractExperience(lines: Line[]): ResumeTextParseResult['experience'] {
+  const ranges = lines.map(line =>
+    line.bullet ? null : DATE_RANGE_PATTERN.test(line.text) && parseDateRange(line.text),
+  );
+  const anchors = ranges.map((range, index) => (range ? index : -1)).filter(index => index >= 0);
+
+  // Header lines of each entry: up to two short lines above the dates
+  const starts = anchors.map((anchor, position) => {
+    const floor = position > 0 ? anchors[position - 1] + 1 : 0;
+    let start = anchor;
+    while (start - 1 >= floor && anchor - start < 2 && isEntryHeaderLine(lines[start - 1])) {
+      start--;
+    }
+    return start;
+  });
+
+  return anchors.map((anchor, position) => {
+    const end = position + 1 < starts.length ? starts[position + 1] : lines.length;
+    const dates = ranges[anchor] as ParsedDateRange;
+
+    const headerLines = lines.slice(starts[position], anchor + 1).map(line => line.text);
+    let descriptionStart = anchor + 1;
+    // Company or title on the line below the dates
+    if (
+      headerLines.length < 2 &&
+      descriptionStart < end &&
+      isEntryHeaderLine(lines[descriptionStart])
+    ) {
+      headerLines.push(lines[descriptionStart].text);
+      descriptionStart++;
+    }
+
+    const pieces = headerLines
+      .map(text => text.replace(DATE_RANGE_PATTERN, ' '))
+      .flatMap(text => text.split(/\s+(?:at|@)\s+|\s*[|•·]\s*|\s+[-–—]\s+|\t+|\s{3,}/i))
+      .map(piece => piece.replace(/^[,;()\s-]+|[,;()\s-]+$/g, '').trim())
+      .filter(Boolean);
+
+    const { position: title, company, location, confidence } = classifyExperiencePieces(pieces);
+
+    return {
+      company,
+      position: title,
+      startDate: dates.startDate,
+      endDate: dates.endDate,
+      current: dates.current,
+      description: lines
+        .slice(descriptionStart, end)
+        .map(line => (line.bullet ? `- ${line.text}` : line.text))
+        .join('\n'),
+      location,
+      confidence: round(Math.min(1, dates.confidence * 0.4 + confidence)),
+    };
+  });
+}
+
+function isEntryHeaderLine(line: Line): boolean {
+  return !line.bullet && line.text.split(/\s+/).length <= 10 && !/[.!?]$/.test(line.text);
+}
+
+function classifyExperiencePieces(pieces: string[]): {
+  position: string;
+  company: string;
+  location?: string;
+  confidence: number;
+} {
+  const remaining = [...pieces];
+  const take = (predicate: (piece: string) => boolean): string | undefined => {
+    const index = remaining.findIndex(predicate);
+    return index >= 0 ? remaining.splice(index, 1)[0] : undefined;
+  };
+
+  const location = take(
+    piece =>
+      /^(remote|hybrid|on-?site)$/i.test(piece) ||
+      (/^[A-Z][A-Za-zÀ-ÿ .'-]+,\s*[A-Z][A-Za-zÀ-ÿ .'-]+$/.test(piece) &&
+        !COMPANY_KEYWORDS.test(piece)),
+  );
+
+  let confidence = 0;
+  // "Software Engineer" is a title, "Software Inc" an employer
+  let position = take(piece => POSITION_KEYWORDS.test(piece) && !LEGAL_SUFFIXES.test(piece));
+  if (position) confidence += 0.3;
+
+  let company = take(piece => COMPANY_KEYWORDS.test(piece));
+  if (company) confidence += 0.3;
+
+  // Without keywords, resumes usually lead with the title
+  if (!position && remaining.length) {
+    position = remaining.shift();
+    confidence += 0.1;
+  }
+  if (!company && remaining.length) {
+    company = remaining.shift();
+    confidence += 0.15;
+  }
+
+  // "Acme Corp, Berlin"
+  const companyLocation =
+    company && /^(.+?),\s*([A-Z][A-Za-zÀ-ÿ .'-]+(?:,\s*[A-Z][A-Za-z]+)?)$/.exec(company);
+  if (companyLocation && !location && !COMPANY_KEYWORDS.test(companyLocation[2])) {
+    return {
+      position: position || '',
+      company: companyLocation[1],
+      location: companyLocation[2],
+      confidence,
+    };
+  }
+
+  return { position: position || '', company: company || '', location, confidence };
+}
+
+function extractEducation(lines: Line[]): ResumeTextParseResult['education'] {
+  const entries: Array<{ lines: string[]; hasInstitution: boolean; hasDegree: boolean }> = [];
+
+  for (const line of lines) {
+    const hasInstitution = INSTITUTION_KEYWORDS.test(line.text);
+    const hasDegree = DEGREE_PATTERN.test(line.text);
+    const current = entries[entries.length - 1];
+
+    if (
+      !current ||
+      (hasInstitution && current.hasInstitution) ||
+      (hasDegree && current.hasDegree && !hasInstitution)
+    ) {
+      entries.push({ lines: [line.text], hasInstitution, hasDegree });
+    } else {
+      current.lines.push(line.text);
+      current.hasInstitution = current.hasInstitution || hasInstitution;
+      current.hasDegree = current.hasDegree || hasDegree;
+    }
+  }
+
+  return entries
+    .filter(entry => entry.hasInstitution || entry.hasDegree)
+    .map(entry => {
+      const text = entry.lines.join(' | ');
+      const dates = parseDateRange(text);
+      const institutionLine = entry.lines.find(line => INSTITUTION_KEYWORDS.test(line));
+      const institution = institutionLine
+        ?.split(/\s*[|,•·]\s*|\s+[-–—]\s+/)
+        .find(part => INSTITUTION_KEYWORDS.test(part))
+        ?.replace(DATE_RANGE_PATTERN, '')
+        .trim();
+
+      const degreeMatch = DEGREE_PATTERN.exec(text);
+      const afterDegree = degreeMatch ? text.slice(degreeMatch.index + degreeMatch[0].length) : '';
+      const field =
+        /^\s*(?:of|in|,|-|–)?\s*(?:science in |arts in )?([A-Za-z&/ ]{2,60}?)(?=\s*(?:[|,(]|\d|$))/i
+          .exec(afterDegree)?.[1]
+          ?.trim();
+
+      const gpaMatch = GPA_PATTERN.exec(text);
+      const gpa = gpaMatch ? parseFloat(gpaMatch[1]) : undefined;
+
+      let confidence = 0;
+      if (institution) confidence += 0.35;
+      if (degreeMatch) confidence += 0.3;
+      if (field) confidence += 0.1;
+      if (dates) confidence += 0.25 * dates.confidence;
+
+      return {
+        institution: institution || '',
+        degree: degreeMatch?.[0].trim() || '',
+        field: field && !INSTITUTION_KEYWORDS.test(field) ? field : '',
+        startDate: dates?.endDate || dates?.current ? dates.startDate : '',
+        endDate: dates?.endDate || (dates && !dates.current ? dates.startDate : undefined),
+        current: dates?.current || false,
+        gpa,
+        confidence: round(confidence),
+      };
+    });
+}
+
+function extractSkills(lines: Line[]): ResumeTextParseResult['skills'] {
+  const skills = new Map<string, { name: string; category?: string; confidence: number }>();
+
+  for (const line of lines) {
+    // "Languages: Python, Go" groups skills under a category
+    const categoryMatch = /^([A-Za-z &/]{2,40}):\s*(.+)$/.exec(line.text);
+    const category = categoryMatch?.[1].trim();
+    const items = (categoryMatch ? categoryMatch[2] : line.text).split(/\s*[,;|•·]\s*|\s{2,}|\t/);
+
+    for (const item of items) {
+      const name = item
+        .replace(/\(.*?\)/g, '')
+        .replace(/\.$/, '')
+        .trim();
+      if (!name || name.length > 40 || name.split(/\s+/).length > 4) continue;
+
+      const key = name.toLowerCase();
+      if (!skills.has(key)) {
+        skills.set(key, { name, category, confidence: 0.6 });
+      }
+    }
+  }
+
+  return [...skills.values()];
+}
+
+function extractCertifications(lines: Line[]): ResumeTextParseResult['certifications'] {
+  return lines
+    .filter(line => line.text.split(/\s+/).length <= 20)
+    .map(line => {
+      const dates = parseDateRange(line.text);
+      const expiry = /(?:expires?|expiry|valid (?:until|through))\s*:?\s*(.+)$/i.exec(line.text);
+      const text = line.text
+        .replace(/\(?(?:expires?|expiry|valid (?:until|through))\s*:?.*$/i, '')
+        .replace(DATE_RANGE_PATTERN, '')
+        .replace(SINGLE_DATE_PATTERN, '')
+        .replace(/[(),\s|-]+$/, '')
+        .trim();
+
+      const parts = text.split(/\s+by\s+|\s*[|•·,]\s*|\s+[-–—]\s+/i).filter(Boolean);
+      const issuerIndex = parts.findIndex((part, index) => index > 0 && KNOWN_ISSUERS.test(part));
+      const issuer =
+        issuerIndex > 0 ? parts[issuerIndex] : parts[1] || KNOWN_ISSUERS.exec(text)?.[0] || '';
+      const name = parts[0] || text;
+
+      let confidence = 0.5;
+      if (KNOWN_ISSUERS.test(issuer)) confidence += 0.3;
+      else if (issuer) confidence += 0.15;
+      if (dates) confidence += 0.2 * dates.confidence;
+
+      return {
+        name,
+        issuer,
+        issueDate: dates?.startDate || '',
+        expiryDate: (expiry && parseDateRange(expiry[1])?.startDate) || dates?.endDate,
+        confidence: round(Math.min(confidence, 1)),
+      };
+    })
+    .filter(cert => cert.name.length > 1);
+}
+
+function extractLanguages(lines: Line[]): ResumeTextParseResult['languages'] {
+  const languages: ResumeTextParseResult['languages'] = [];
+
+  for (const item of lines.flatMap(line => line.text.split(/\s*[,;|•·]\s*/))) {
+    const isLevel = (text: string) => PROFICIENCY_LEVELS.some(([pattern]) => pattern.test(text));
+    const words = /^([A-Za-zÀ-ÿ]+)(?: ([A-Za-zÀ-ÿ]+)(?![\w]))?/.exec(item.trim());
+    // "Mandarin Chinese" or "English native"
+    const name = words && (words[2] && !isLevel(words[2]) ? `${words[1]} ${words[2]}` : words[1]);
+    if (!name || isLevel(name)) continue;
+
+    const level = PROFICIENCY_LEVELS.find(([pattern]) => pattern.test(item.slice(name.length)));
+    languages.push({
+      name: capitalize(name),
+      proficiency: level ? level[1] : 'conversational',
+      confidence: level ? 0.9 : 0.6,
+    });
+  }
+
+  return languages;
+}
+
+function normalizeDate(value: string): string | undefined {
+  const text = value.trim().toLowerCase();
+
+  const named = new RegExp(`^(${MONTH_NAME})\\s*,?\\s*(\\d{4})$`, 'i').exec(text);
+  if (named) {
+    const month = MONTHS[named[1].replace('.', '').slice(0, named[1].startsWith('sept') ? 4 : 3)];
+    return `${named[2]}-${String(month).padStart(2, '0')}`;
+  }
+
+  const monthFirst = /^(\d{1,2})[/.-](\d{4})$/.exec(text);
+  if (monthFirst && Number(monthFirst[1]) >= 1 && Number(monthFirst[1]) <= 12) {
+    return `${monthFirst[2]}-${monthFirst[1].padStart(2, '0')}`;
+  }
+
+  const yearFirst = /^(\d{4})[/.-](\d{1,2})$/.exec(text);
+  if (yearFirst && Number(yearFirst[2]) >= 1 && Number(yearFirst[2]) <= 12) {
+    return `${yearFirst[1]}-${yearFirst[2].padStart(2, '0')}`;
+  }
+
+  return /^(19|20)\d{2}$/.test(text) ? text : undefined;
+}
+
+function capitalize(word: string): string {
+  return word === word.toUpperCase() || word === word.toLowerCase()
+    ? word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+    : word;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
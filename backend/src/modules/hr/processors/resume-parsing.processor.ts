@@ -0,0 +1,35 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import {
+  IntegrationService,
+  BulkResumeParseItem,
+  BulkResumeParseResult,
+} from '../services/integration.service';
+
+@Processor('resume-parsing')
+export class ResumeParsingProcessor {
+  private readonly logger = new Logger(ResumeParsingProcessor.name);
+
+  constructor(private readonly integrationService: IntegrationService) {}
+
+  @Process('bulk-parse')
+  async processBulkParse(
+    job: Job<{ items: BulkResumeParseItem[]; requestedBy: string; organizationId?: string }>,
+  ) {
+    const { items } = job.data;
+
+    this.logger.log(`Processing bulk resume parsing ${job.id}: ${items.length} resumes`);
+
+    const results: BulkResumeParseResult[] = [];
+    for (const item of items) {
+      results.push(await this.integrationService.parseBulkItem(item));
+      await job.progress(Math.round((results.length / items.length) * 100));
+    }
+
+    const parsed = results.filter(result => result.status === 'parsed').length;
+    this.logger.log(`Bulk resume parsing ${job.id} completed: ${parsed}/${items.length} parsed`);
+
+    return { parsed, failed: items.length - parsed, results };
+  }
+}
@@ -2,7 +2,8 @@ import { Injectable, Logger, NotFoundException, ForbiddenException, BadRequestEx
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, DataSource, In } from 'typeorm';
 import { EventEmitter2 } from '@nestjs/event-emitter';
-import { JobApplication, ApplicationStatus, ApplicationStage } from '../../../database/entities/job-application.entity';
+import { JobApplication, ApplicationStatus } from '../../../database/entities/job-application.entity';
+import { HiringPipeline } from '../../../database/entities/hiring-pipeline.entity';
 import { Job } from '../../../database/entities/job.entity';
 import { User, UserRole } from '../../../database/entities/user.entity';
 import { UserResume } from '../../../database/entities/user-resume.entity';
@@ -16,6 +17,7 @@ import {
   ApplicationTimelineDto,
   ScreeningResultsDto,
 } from '../dto/application-tracking.dto';
+import { HiringPipelineService } from './hiring-pipeline.service';
 
 @Injectable()
 export class ApplicationTrackingService {
@@ -32,6 +34,7 @@ export class ApplicationTrackingService {
     private resumeRepository: Repository<UserResume>,
     private dataSource: DataSource,
     private eventEmitter: EventEmitter2,
+    private pipelineService: HiringPipelineService,
   ) {}
 
   async createApplication(
@@ -89,7 +92,6 @@ export class ApplicationTrackingService {
         source: createDto.source || 'direct',
         formData: createDto.formData || {},
         status: ApplicationStatus.APPLIED,
-        stage: ApplicationStage.SCREENING,
       })
       
       const application:any = this.applicationRepository.create({
@@ -102,7 +104,6 @@ export class ApplicationTrackingService {
         source: createDto.source || 'direct',
         formData: createDto.formData || {},
         status: ApplicationStatus.APPLIED,
-        stage: ApplicationStage.SCREENING,
       } as any);
 
       // Add initial timeline entry
@@ -112,6 +113,9 @@ export class ApplicationTrackingService {
         performedBy: user?.id || 'external_candidate',
       } as any);
 
+      // Place on the first stage of the job's pipeline and run its entry actions
+      await this.pipelineService.enterFirstStage(application, job, user);
+
       // Perform auto-screening if resume is available
       if (resume) {
         await this.performAutoScreening(application, resume, job);
@@ -283,10 +287,8 @@ export class ApplicationTrackingService {
       }
 
       if (updateDto.stage && updateDto.stage !== application.stage) {
-        if (!application.canAdvanceToStage(updateDto.stage)) {
-          throw new BadRequestException(`Cannot advance from ${application.stage} to ${updateDto.stage}`);
-        }
-        application.updateStage(updateDto.stage, user.id, updateDto.notes);
+        const pipeline = await this.pipelineService.resolveForApplication(application);
+        await this.pipelineService.moveToStage(application, pipeline, updateDto.stage, user, updateDto.notes);
       }
 
       // Update other fields
@@ -340,6 +342,7 @@ export class ApplicationTrackingService {
 
       const errors: string[] = [];
       let updated = 0;
+      const pipelines = new Map<string, HiringPipeline>();
 
       await this.dataSource.transaction(async manager => {
         for (const application of applications) {
@@ -357,13 +360,19 @@ export class ApplicationTrackingService {
               }
             }
 
-            if (bulkUpdateDto.stage) {
-              if (application.canAdvanceToStage(bulkUpdateDto.stage)) {
-                application.updateStage(bulkUpdateDto.stage, user.id, bulkUpdateDto.notes);
-              } else {
-                errors.push(`Cannot update stage for application ${application.id}`);
+            if (bulkUpdateDto.stage && bulkUpdateDto.stage !== application.stage) {
+              const pipelineKey = application.pipelineId || 'default';
+              if (!pipelines.has(pipelineKey)) {
+                pipelines.set(pipelineKey, await this.pipelineService.resolveForApplication(application));
+              }
+              const pipeline = pipelines.get(pipelineKey)!;
+
+              const stageError = pipeline.getMoveError(application, bulkUpdateDto.stage);
+              if (stageError) {
+                errors.push(`Cannot update stage for application ${application.id}: ${stageError}`);
                 continue;
               }
+              await this.pipelineService.moveToStage(application, pipeline, bulkUpdateDto.stage, user, bulkUpdateDto.notes);
             }
 
             if (bulkUpdateDto.assignedTo !== undefined) {
@@ -589,6 +598,7 @@ export class ApplicationTrackingService {
         communications: application.communications.sort((a, b) => 
           new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
         ),
+        pipeline: await this.pipelineService.describeProgress(application),
       };
 
       return new ApplicationTimelineDto(timeline);
@@ -0,0 +1,608 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, IsNull, Not } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import * as Handlebars from 'handlebars';
+import {
+  HiringPipeline,
+  PipelineStage,
+  PipelineStageAction,
+  PipelineStageType,
+  StageActionType,
+} from '../../../database/entities/hiring-pipeline.entity';
+import {
+  JobApplication,
+  ApplicationStatus,
+} from '../../../database/entities/job-application.entity';
+import { Job } from '../../../database/entities/job.entity';
+import { User, UserRole } from '../../../database/entities/user.entity';
+import { EmailService } from '../../email/email.service';
+import { CreatePipelineDto, UpdatePipelineDto } from '../dto/hiring-pipeline.dto';
+import { ApplicationResponseDto } from '../dto/application-tracking.dto';
+
+@Injectable()
+export class HiringPipelineService {
+  private readonly logger = new Logger(HiringPipelineService.name);
+
+  constructor(
+    @InjectRepository(HiringPipeline)
+    private pipelineRepository: Repository<HiringPipeline>,
+    @InjectRepository(JobApplication)
+    private applicationRepository: Repository<JobApplication>,
+    @InjectRepository(Job)
+    private jobRepository: Repository<Job>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    private emailService: EmailService,
+    private eventEmitter: EventEmitter2,
+  ) {}
+
+  async createPipeline(createDto: CreatePipelineDto, user: User): Promise<HiringPipeline> {
+    const organizationId = this.resolveOrganizationId(createDto.organizationId, user);
+
+    if (createDto.jobId) {
+      const job = await this.jobRepository.findOne({ where: { id: createDto.jobId } });
+      if (!job || job.organizationId !== organizationId) {
+        throw new NotFoundException('Job not found');
+      }
+
+      const existing = await this.pipelineRepository.findOne({ where: { jobId: createDto.jobId } });
+      if (existing) {
+        throw new BadRequestException('Job already has a pipeline');
+      }
+    }
+
+    await this.validateStages(createDto.stages, organizationId);
+
+    // Job pipelines are never organization defaults
+    const isDefault = !createDto.jobId && !!createDto.isDefault;
+    if (isDefault) {
+      await this.clearDefault(organizationId);
+    }
+
+    const pipeline = this.pipelineRepository.create({
+      organizationId,
+      jobId: createDto.jobId,
+      name: createDto.name,
+      description: createDto.description,
+      isDefault,
+      allowStageSkipping: !!createDto.allowStageSkipping,
+      stages: createDto.stages,
+      createdById: user.id,
+    });
+
+    const savedPipeline = await this.pipelineRepository.save(pipeline);
+    this.logger.log(
+      `Hiring pipeline created: ${savedPipeline.id} for organization ${organizationId}`,
+    );
+
+    return savedPipeline;
+  }
+
+  async listPipelines(user: User, jobId?: string): Promise<HiringPipeline[]> {
+    const where: any = {};
+    if (user.roles !== UserRole.ADMIN) {
+      where.organizationId = user.organizationId;
+    }
+    if (jobId) {
+      where.jobId = jobId;
+    }
+
+    return this.pipelineRepository.find({
+      where,
+      order: { isDefault: 'DESC', createdAt: 'ASC' },
+    });
+  }
+
+  async getPipeline(id: string, user: User): Promise<HiringPipeline> {
+    const pipeline = await this.pipelineRepository.findOne({ where: { id } });
+
+    if (!pipeline) {
+      throw new NotFoundException('Pipeline not found');
+    }
+
+    this.validatePipelineAccess(pipeline, user);
+    return pipeline;
+  }
+
+  async updatePipeline(
+    id: string,
+    updateDto: UpdatePipelineDto,
+    user: User,
+  ): Promise<HiringPipeline> {
+    const pipeline = await this.getPipeline(id, user);
+
+    if (updateDto.stages) {
+      await this.validateStages(updateDto.stages, pipeline.organizationId);
+
+      // Applications may not be left on a stage that no longer exists
+      const keys = updateDto.stages.map(stage => stage.key);
+      const stranded = await this.applicationRepository.count({
+        where: { pipelineId: pipeline.id, stage: Not(In(keys)) },
+      });
+      if (stranded > 0) {
+        throw new BadRequestException(
+          `${stranded} applications are on stages removed from this pipeline; move them first`,
+        );
+      }
+
+      pipeline.stages = updateDto.stages;
+    }
+
+    if (updateDto.isDefault !== undefined && !pipeline.jobId) {
+      if (updateDto.isDefault && !pipeline.isDefault) {
+        await this.clearDefault(pipeline.organizationId);
+      }
+      pipeline.isDefault = updateDto.isDefault;
+    }
+
+    if (updateDto.name !== undefined) pipeline.name = updateDto.name;
+    if (updateDto.description !== undefined) pipeline.description = updateDto.description;
+    if (updateDto.allowStageSkipping !== undefined)
+      pipeline.allowStageSkipping = updateDto.allowStageSkipping;
+
+    const updatedPipeline = await this.pipelineRepository.save(pipeline);
+    this.logger.log(`Hiring pipeline updated: ${id} by user ${user.id}`);
+
+    return updatedPipeline;
+  }
+
+  async deletePipeline(id: string, user: User): Promise<void> {
+    const pipeline = await this.getPipeline(id, user);
+
+    const inUse = await this.applicationRepository.count({ where: { pipelineId: pipeline.id } });
+    if (inUse > 0) {
+      throw new BadRequestException(`Pipeline is used by ${inUse} applications`);
+    }
+
+    await this.pipelineRepository.remove(pipeline);
+    this.logger.log(`Hiring pipeline deleted: ${id} by user ${user.id}`);
+  }
+
+  /**
+   * Pipeline for new applications to a job: the job's own pipeline, else
+   * the organization default, else the built-in one
+   */
+  async resolveForJob(job: Job): Promise<HiringPipeline> {
+    const jobPipeline = await this.pipelineRepository.findOne({ where: { jobId: job.id } });
+    if (jobPipeline) return jobPipeline;
+
+    const orgDefault = await this.pipelineRepository.findOne({
+      where: { organizationId: job.organizationId, jobId: IsNull(), isDefault: true },
+    });
+
+    return orgDefault || HiringPipeline.createDefault(job.organizationId);
+  }
+
+  /**
+   * Pipeline an existing application moves through. Applications that were
+   * never migrated stay on the built-in pipeline their stage keys belong to
+   */
+  async resolveForApplication(application: JobApplication): Promise<HiringPipeline> {
+    if (application.pipelineId) {
+      const pipeline =
+        application.pipeline ||
+        (await this.pipelineRepository.findOne({ where: { id: application.pipelineId } }));
+      if (pipeline) return pipeline;
+    }
+
+    return HiringPipeline.createDefault(application.job?.organizationId);
+  }
+
+  /**
+   * Place a new application on the first stage of its job's pipeline
+   */
+  async enterFirstStage(application: JobApplication, job: Job, performedBy?: User): Promise<void> {
+    const pipeline = await this.resolveForJob(job);
+
+    application.pipelineId = pipeline.id;
+    application.stage = pipeline.firstStage.key;
+
+    await this.runEntryActions(application, pipeline.firstStage, performedBy);
+  }
+
+  /**
+   * Move an application to another stage of its pipeline and run the
+   * stage's entry actions. Throws when the pipeline forbids the move
+   */
+  async moveToStage(
+    application: JobApplication,
+    pipeline: HiringPipeline,
+    stageKey: string,
+    user: User,
+    notes?: string,
+  ): Promise<void> {
+    const error = pipeline.getMoveError(application, stageKey);
+    if (error) {
+      throw new BadRequestException(error);
+    }
+
+    const stage = pipeline.getStage(stageKey)!;
+    application.updateStage(stage.key, user.id, notes);
+
+    await this.runEntryActions(application, stage, user);
+  }
+
+  /**
+   * Applications for a job grouped by the stages of its pipeline, in order
+   */
+  async getJobPipeline(jobId: string, user: User): Promise<any> {
+    const job = await this.jobRepository.findOne({ where: { id: jobId } });
+    if (!job) {
+      throw new NotFoundException('Job not found');
+    }
+
+    const isAdmin = user.roles === UserRole.ADMIN;
+    if (!isAdmin && user.organizationId !== job.organizationId) {
+      throw new ForbiddenException('Access denied to this job');
+    }
+
+    const pipeline = await this.resolveForJob(job);
+    const applications = await this.applicationRepository.find({
+      where: { jobId },
+      relations: ['candidate', 'assignee'],
+      order: { lastActivityAt: 'DESC' },
+    });
+
+    // Group by the pipeline each application is on, so unmigrated ones show as such
+    const grouped = pipeline.stages.reduce(
+      (acc, stage) => {
+        acc[stage.key] = [];
+        return acc;
+      },
+      {} as Record<string, ApplicationResponseDto[]>,
+    );
+    const unassigned: ApplicationResponseDto[] = [];
+
+    for (const application of applications) {
+      const onPipeline = (application.pipelineId || undefined) === pipeline.id;
+      if (onPipeline && grouped[application.stage]) {
+        grouped[application.stage].push(new ApplicationResponseDto(application));
+      } else {
+        unassigned.push(new ApplicationResponseDto(application));
+      }
+    }
+
+    return {
+      jobId,
+      pipelineId: pipeline.id,
+      pipelineName: pipeline.name,
+      stages: pipeline.stages.map(stage => ({
+        key: stage.key,
+        name: stage.name,
+        type: stage.type,
+        requiredScorecards: stage.requiredScorecards || 0,
+        count: grouped[stage.key].length,
+      })),
+      stageOrder: pipeline.stages.map(stage => stage.key),
+      pipeline: grouped,
+      unassigned,
+      metrics: {
+        total: applications.length,
+        byStage: Object.keys(grouped).reduce(
+          (acc, key) => {
+            acc[key] = grouped[key].length;
+            return acc;
+          },
+          {} as Record<string, number>,
+        ),
+        byStatus: applications.reduce(
+          (acc, app) => {
+            acc[app.status] = (acc[app.status] || 0) + 1;
+            return acc;
+          },
+          {} as Record<string, number>,
+        ),
+      },
+    };
+  }
+
+  /**
+   * Stage overview for the application timeline: when each stage was last
+   * entered and how many scorecards it has
+   */
+  async describeProgress(application: JobApplication): Promise<any> {
+    const pipeline = await this.resolveForApplication(application);
+
+    const enteredAt: Record<string, Date> = {};
+    for (const entry of application.timeline) {
+      const key = entry.metadata?.newStage;
+      if (entry.action !== 'stage_changed' || !key) continue;
+
+      const timestamp = new Date(entry.timestamp);
+      if (!enteredAt[key] || timestamp > enteredAt[key]) {
+        enteredAt[key] = timestamp;
+      }
+    }
+
+    return {
+      id: pipeline.id,
+      name: pipeline.name,
+      currentStage: application.stage,
+      stages: pipeline.stages.map(stage => ({
+        key: stage.key,
+        name: stage.name,
+        type: stage.type,
+        enteredAt:
+          enteredAt[stage.key] ||
+          (stage.key === application.stage ? application.appliedAt : undefined),
+        scorecardsSubmitted: application.getScorecardCount(stage.key),
+        requiredScorecards: stage.requiredScorecards || 0,
+      })),
+    };
+  }
+
+  /**
+   * Move applications still on the built-in pipeline onto the pipeline
+   * their job now resolves to. Stages are kept when the pipeline has the
+   * same key and otherwise mapped to the closest stage type
+   */
+  async migrateApplications(
+    user: User,
+    jobId?: string,
+  ): Promise<{ migrated: number; remapped: number }> {
+    const jobWhere: any = {};
+    if (user.roles !== UserRole.ADMIN) {
+      jobWhere.organizationId = user.organizationId;
+    }
+    if (jobId) {
+      jobWhere.id = jobId;
+    }
+
+    const jobs = await this.jobRepository.find({ where: jobWhere });
+    let migrated = 0;
+    let remapped = 0;
+
+    for (const job of jobs) {
+      const pipeline = await this.resolveForJob(job);
+      // Nothing to do while the job still uses the built-in pipeline
+      if (!pipeline.id) continue;
+
+      const applications = await this.applicationRepository.find({
+        where: { jobId: job.id, pipelineId: IsNull() },
+      });
+
+      for (const application of applications) {
+        const stage = pipeline.mapLegacyStage(application.stage);
+        if (stage.key !== application.stage) {
+          remapped++;
+        }
+
+        application.addTimelineEntry({
+          action: 'pipeline_assigned',
+          description: `Moved to pipeline ${pipeline.name} at stage ${stage.name}`,
+          performedBy: user.id,
+          metadata: { pipelineId: pipeline.id, oldStage: application.stage, newStage: stage.key },
+        });
+        application.pipelineId = pipeline.id;
+        application.stage = stage.key;
+        migrated++;
+      }
+
+      await this.applicationRepository.save(applications);
+    }
+
+    this.logger.log(
+      `Migrated ${migrated} applications to configured pipelines (${remapped} remapped)`,
+    );
+
+    return { migrated, remapped };
+  }
+
+  // Private helper methods
+  private async runEntryActions(
+    application: JobApplication,
+    stage: PipelineStage,
+    performedBy?: User,
+  ): Promise<void> {
+    for (const action of stage.actions || []) {
+      try {
+        switch (action.type) {
+          case StageActionType.SEND_EMAIL:
+            await this.sendStageEmail(application, stage, action);
+            break;
+          case StageActionType.SCHEDULE_INTERVIEW:
+            this.scheduleStageInterview(application, action, performedBy);
+            break;
+          case StageActionType.ASSIGN_REVIEWER:
+            await this.assignReviewer(application, action, performedBy);
+            break;
+        }
+      } catch (error) {
+        // A failing action must not block the stage change itself
+        this.logger.warn(
+          `Stage action ${action.type} failed for application ${application.id}: ${error.message}`,
+        );
+        application.addTimelineEntry({
+          action: 'stage_action_failed',
+          description: `Automatic ${action.type} on entering ${stage.name} failed`,
+          performedBy: 'system',
+          metadata: { stage: stage.key, type: action.type, error: error.message },
+        });
+      }
+    }
+  }
+
+  private async sendStageEmail(
+    application: JobApplication,
+    stage: PipelineStage,
+    action: PipelineStageAction,
+  ): Promise<void> {
+    if (application.candidateId && !application.candidate) {
+      application.candidate = await this.userRepository.findOne({
+        where: { id: application.candidateId },
+      });
+    }
+    if (!application.job) {
+      application.job = await this.jobRepository.findOne({ where: { id: application.jobId } });
+    }
+
+    const to = application.candidateEmail;
+    if (!to) {
+      throw new Error('Candidate has no email address');
+    }
+
+    const context = {
+      candidateName: application.candidateName,
+      jobTitle: application.job?.title || '',
+      stageName: stage.name,
+    };
+    // Placeholders are filled here; the email template escapes the result
+    const subject = Handlebars.compile(action.config.subject, { noEscape: true })(context);
+    const message = Handlebars.compile(action.config.message, { noEscape: true })(context);
+
+    await this.emailService.sendPipelineStageEmail(
+      to,
+      subject,
+      { ...context, message },
+      action.config.template,
+    );
+
+    application.addTimelineEntry({
+      action: 'stage_email_sent',
+      description: `Email "${subject}" sent on entering ${stage.name}`,
+      performedBy: 'system',
+      metadata: { stage: stage.key, subject },
+    });
+  }
+
+  private scheduleStageInterview(
+    application: JobApplication,
+    action: PipelineStageAction,
+    performedBy?: User,
+  ): void {
+    const offsetHours = action.config.offsetHours ?? 48;
+    const interviewData = {
+      id: `interview_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type: action.config.interviewType || 'interview',
+      scheduledAt: new Date(Date.now() + offsetHours * 60 * 60 * 1000),
+      interviewers: action.config.interviewers,
+    };
+
+    application.scheduleInterview(interviewData, performedBy?.id || 'system');
+
+    this.eventEmitter.emit('interview.scheduled', {
+      application,
+      interviewData,
+      user: performedBy,
+    });
+  }
+
+  // Picks the reviewer with the fewest open applications
+  private async assignReviewer(
+    application: JobApplication,
+    action: PipelineStageAction,
+    performedBy?: User,
+  ): Promise<void> {
+    const reviewerIds: string[] = action.config.reviewerIds;
+
+    const loads = await this.applicationRepository
+      .createQueryBuilder('application')
+      .select('application.assignedTo', 'reviewerId')
+      .addSelect('COUNT(*)', 'count')
+      .where('application.assignedTo IN (:...reviewerIds)', { reviewerIds })
+      .andWhere('application.status NOT IN (:...closed)', {
+        closed: [ApplicationStatus.HIRED, ApplicationStatus.REJECTED, ApplicationStatus.WITHDRAWN],
+      })
+      .groupBy('application.assignedTo')
+      .getRawMany();
+
+    const countFor = (id: string) => Number(loads.find(load => load.reviewerId === id)?.count || 0);
+    const reviewerId = reviewerIds.reduce((best, id) =>
+      countFor(id) < countFor(best) ? id : best,
+    );
+
+    application.assignTo(reviewerId, performedBy?.id || 'system');
+  }
+
+  private async validateStages(stages: PipelineStage[], organizationId: string): Promise<void> {
+    const keys = new Set<string>();
+    for (const stage of stages) {
+      if (keys.has(stage.key)) {
+        throw new BadRequestException(`Duplicate stage key: ${stage.key}`);
+      }
+      keys.add(stage.key);
+    }
+
+    const hiredIndex = stages.findIndex(stage => stage.type === PipelineStageType.HIRED);
+    if (hiredIndex !== -1 && hiredIndex !== stages.length - 1) {
+      throw new BadRequestException('A hired stage must be the last stage');
+    }
+
+    const userIds = new Set<string>();
+    for (const stage of stages) {
+      for (const action of stage.actions || []) {
+        const config = action.config;
+
+        switch (action.type) {
+          case StageActionType.SEND_EMAIL:
+            if (typeof config.subject !== 'string' || typeof config.message !== 'string') {
+              throw new BadRequestException(
+                `send_email on ${stage.key} needs a subject and message`,
+              );
+            }
+            if (config.template !== undefined && !/^[a-z0-9-]+$/.test(config.template)) {
+              throw new BadRequestException(`Invalid email template on ${stage.key}`);
+            }
+            break;
+          case StageActionType.SCHEDULE_INTERVIEW:
+            if (!Array.isArray(config.interviewers) || config.interviewers.length === 0) {
+              throw new BadRequestException(
+                `schedule_interview on ${stage.key} needs interviewers`,
+              );
+            }
+            if (config.offsetHours !== undefined && !(Number(config.offsetHours) >= 0)) {
+              throw new BadRequestException(`Invalid offsetHours on ${stage.key}`);
+            }
+            config.interviewers.forEach((id: string) => userIds.add(id));
+            break;
+          case StageActionType.ASSIGN_REVIEWER:
+            if (!Array.isArray(config.reviewerIds) || config.reviewerIds.length === 0) {
+              throw new BadRequestException(`assign_reviewer on ${stage.key} needs reviewerIds`);
+            }
+            config.reviewerIds.forEach((id: string) => userIds.add(id));
+            break;
+        }
+      }
+    }
+
+    if (userIds.size > 0) {
+      const found = await this.userRepository.count({
+        where: { id: In([...userIds]), organizationId },
+      });
+      if (found !== userIds.size) {
+        throw new BadRequestException('Interviewers and reviewers must belong to the organization');
+      }
+    }
+  }
+
+  private async clearDefault(organizationId: string): Promise<void> {
+    await this.pipelineRepository.update(
+      { organizationId, jobId: IsNull(), isDefault: true },
+      { isDefault: false },
+    );
+  }
+
+  private resolveOrganizationId(requested: string | undefined, user: User): string {
+    if (requested && user.roles === UserRole.ADMIN) {
+      return requested;
+    }
+    if (!user.organizationId) {
+      throw new BadRequestException('An organization is required to manage pipelines');
+    }
+    return user.organizationId;
+  }
+
+  private validatePipelineAccess(pipeline: HiringPipeline, user: User): void {
+    const isAdmin = user.roles === UserRole.ADMIN;
+    if (!isAdmin && user.organizationId !== pipeline.organizationId) {
+      throw new ForbiddenException('Access denied to this pipeline');
+    }
+  }
+}
@@ -1,15 +1,28 @@
-import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, Repository } from 'typeorm';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { HttpService } from '@nestjs/axios';
 import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
 import { JobApplication } from '../../../database/entities/job-application.entity';
 import { UserResume } from '../../../database/entities/user-resume.entity';
 import { InterviewSession } from '../../../database/entities/interview-session.entity';
-import { User } from '../../../database/entities/user.entity';
+import { User, UserRole } from '../../../database/entities/user.entity';
 import { Job } from '../../../database/entities/job.entity';
 import { Skill } from '../../../database/entities/skill.entity';
+import { File } from '../../../database/entities/file.entity';
+import { AuthenticatedUser } from '../../auth/strategies/jwt.strategy';
+import { ResumeParserService } from './resume-parser.service';
+import { BulkParseResumesDto, ParseResumeDto } from '../dto/integration.dto';
 
 export interface ParsedResumeData {
   personalInfo: {
@@ -20,6 +33,8 @@ export interface ParsedResumeData {
     address?: string;
     linkedin?: string;
     website?: string;
+    // Per field, between 0 and 1
+    confidence?: Record<string, number>;
   };
   summary?: string;
   experience: Array<{
@@ -30,6 +45,7 @@ export interface ParsedResumeData {
     current: boolean;
     description: string;
     location?: string;
+    confidence?: number;
   }>;
   education: Array<{
     institution: string;
@@ -39,24 +55,49 @@ export interface ParsedResumeData {
     endDate?: string;
     current: boolean;
     gpa?: number;
+    confidence?: number;
   }>;
   skills: Array<{
     name: string;
     category?: string;
     level?: string;
+    // Catalogue skill the name was normalised to
+    skillId?: string;
+    confidence?: number;
   }>;
   certifications: Array<{
     name: string;
     issuer: string;
     issueDate: string;
     expiryDate?: string;
+    confidence?: number;
   }>;
   languages: Array<{
     name: string;
     proficiency: string;
+    confidence?: number;
   }>;
+  confidence?: number;
 }
 
+export interface BulkResumeParseItem {
+  applicationId?: string;
+  fileId?: string;
+}
+
+export interface BulkResumeParseResult extends BulkResumeParseItem {
+  status: 'parsed' | 'failed';
+  data?: ParsedResumeData;
+  error?: string;
+}
+
+const RESUME_MIME_TYPES = [
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'text/plain',
+];
+const MAX_BULK_PARSE_ITEMS = 100;
+
 export interface SkillMatchResult {
   requiredSkills: string[];
   candidateSkills: string[];
@@ -86,17 +127,51 @@ export class IntegrationService {
     private jobRepository: Repository<Job>,
     @InjectRepository(Skill)
     private skillRepository: Repository<Skill>,
+    @InjectRepository(File)
+    private fileRepository: Repository<File>,
+    @InjectQueue('resume-parsing')
+    private resumeParsingQueue: Queue,
+    private resumeParserService: ResumeParserService,
     private httpService: HttpService,
     private configService: ConfigService,
     private eventEmitter: EventEmitter2,
   ) {}
 
-  async parseResumeFromFile(fileUrl: string, applicationId?: string): Promise<ParsedResumeData> {
+  /**
+   * Parse a resume uploaded through the files module (fileId) or hosted
+   * elsewhere (fileUrl). URLs go to the external parsing service when one is
+   * configured, otherwise they must point at a file of the files module
+   */
+  async parseResumeFromFile(
+    dto: ParseResumeDto,
+    currentUser: AuthenticatedUser,
+  ): Promise<ParsedResumeData> {
+    const { fileId, fileUrl, applicationId } = dto;
+    const fileRef = fileId || fileUrl;
+
+    if (!fileRef) {
+      throw new BadRequestException('Either fileId or fileUrl is required');
+    }
+
     try {
-      this.logger.log(`Starting resume parsing for file: ${fileUrl}`);
+      this.logger.log(`Starting resume parsing for file: ${fileRef}`);
+
+      if (applicationId) {
+        await this.findAccessibleApplication(applicationId, currentUser);
+      }
+
+      const file = fileId ? await this.findAccessibleFile(fileId, currentUser) : null;
+      let parsedData = file ? null : await this.callResumeParsingService(fileUrl);
 
-      // Use external resume parsing service or implement internal parsing
-      const parsedData = await this.callResumeParsingService(fileUrl);
+      if (!parsedData) {
+        const target = file || (await this.findFileByUrl(fileUrl, currentUser));
+        if (!target) {
+          throw new BadRequestException(
+            'Resume URL does not belong to an uploaded file; upload it through the files API first',
+          );
+        }
+        parsedData = await this.resumeParserService.parseFile(target);
+      }
 
       // Validate and clean parsed data
       const cleanedData = this.validateAndCleanResumeData(parsedData);
@@ -109,19 +184,145 @@ export class IntegrationService {
       // Emit event
       this.eventEmitter.emit('resume.parsed', {
         fileUrl,
+        fileId,
         applicationId,
         parsedData: cleanedData,
       });
 
-      this.logger.log(`Resume parsing completed for file: ${fileUrl}`);
+      this.logger.log(`Resume parsing completed for file: ${fileRef}`);
 
       return cleanedData;
     } catch (error) {
-      this.logger.error(`Failed to parse resume from file: ${fileUrl}`, error);
+      this.logger.error(`Failed to parse resume from file: ${fileRef}`, error);
+      if (error instanceof HttpException) {
+        throw error;
+      }
       throw new BadRequestException('Failed to parse resume file');
     }
   }
 
+  /**
+   * Queue parsing of application resumes and uploaded CVs
+   */
+  async queueBulkResumeParsing(
+    dto: BulkParseResumesDto,
+    currentUser: AuthenticatedUser,
+  ): Promise<{ jobId: string; queued: number; applicationIds: string[]; fileIds: string[] }> {
+    const applicationIds = [...new Set(dto.applicationIds || [])];
+    const fileIds = [...new Set(dto.fileIds || [])];
+    const total = applicationIds.length + fileIds.length;
+
+    if (!total) {
+      throw new BadRequestException('Provide applicationIds or fileIds to parse');
+    }
+    if (total > MAX_BULK_PARSE_ITEMS) {
+      throw new BadRequestException(`At most ${MAX_BULK_PARSE_ITEMS} resumes can be parsed per request`);
+    }
+
+    // Access is checked up front, the worker runs without a user
+    if (applicationIds.length) {
+      const applications = await this.applicationRepository.find({
+        where: { id: In(applicationIds) },
+        relations: ['job'],
+      });
+      const missing = applicationIds.filter(id => !applications.some(application => application.id === id));
+      if (missing.length) {
+        throw new NotFoundException(`Applications not found: ${missing.join(', ')}`);
+      }
+      applications.forEach(application => this.assertApplicationAccess(application, currentUser));
+    }
+
+    if (fileIds.length) {
+      const files = await this.fileRepository.find({ where: { id: In(fileIds) } });
+      const inaccessible = fileIds.filter(
+        id => !files.some(file => file.id === id && file.canAccess(currentUser.id, currentUser.currentOrganizationId)),
+      );
+      if (inaccessible.length) {
+        throw new NotFoundException(`Files not found: ${inaccessible.join(', ')}`);
+      }
+    }
+
+    const items: BulkResumeParseItem[] = [
+      ...applicationIds.map(applicationId => ({ applicationId })),
+      ...fileIds.map(fileId => ({ fileId })),
+    ];
+
+    const job = await this.resumeParsingQueue.add('bulk-parse', {
+      items,
+      requestedBy: currentUser.id,
+      organizationId: currentUser.currentOrganizationId,
+    });
+
+    this.logger.log(`Queued bulk resume parsing ${job.id} for ${total} resumes`);
+
+    return { jobId: String(job.id), queued: total, applicationIds, fileIds };
+  }
+
+  async getBulkParsingStatus(jobId: string, currentUser: AuthenticatedUser): Promise<{
+    jobId: string;
+    state: string;
+    progress: number;
+    results?: BulkResumeParseResult[];
+    failedReason?: string;
+  }> {
+    const job = await this.resumeParsingQueue.getJob(jobId);
+
+    if (!job || (job.data.requestedBy !== currentUser.id && currentUser.roles !== UserRole.ADMIN)) {
+      throw new NotFoundException(`Bulk parsing job not found: ${jobId}`);
+    }
+
+    return {
+      jobId: String(job.id),
+      state: await job.getState(),
+      progress: typeof job.progress() === 'number' ? job.progress() : 0,
+      results: job.returnvalue?.results,
+      failedReason: job.failedReason,
+    };
+  }
+
+  /**
+   * Parse one bulk item; failures are reported rather than thrown so the
+   * rest of the batch carries on
+   */
+  async parseBulkItem(item: BulkResumeParseItem): Promise<BulkResumeParseResult> {
+    try {
+      let file: File | null;
+
+      if (item.applicationId) {
+        const application = await this.applicationRepository.findOne({
+          where: { id: item.applicationId },
+          relations: ['job'],
+        });
+        file = application && (await this.findApplicationResumeFile(application));
+        if (!file) {
+          return { ...item, status: 'failed', error: 'No resume file attached to the application' };
+        }
+      } else {
+        file = await this.fileRepository.findOne({ where: { id: item.fileId } });
+        if (!file) {
+          return { ...item, status: 'failed', error: 'File not found' };
+        }
+      }
+
+      const data = this.validateAndCleanResumeData(await this.resumeParserService.parseFile(file));
+
+      if (item.applicationId) {
+        await this.updateApplicationWithParsedData(item.applicationId, data);
+      }
+
+      this.eventEmitter.emit('resume.parsed', {
+        fileId: file.id,
+        applicationId: item.applicationId,
+        parsedData: data,
+      });
+
+      return { ...item, status: 'parsed', data };
+    } catch (error) {
+      this.logger.warn(`Bulk resume parsing failed for ${item.applicationId || item.fileId}: ${error.message}`);
+      return { ...item, status: 'failed', error: error.message };
+    }
+  }
+
   async parseResumeFromText(resumeText: string): Promise<ParsedResumeData> {
     try {
       this.logger.log('Starting resume parsing from text');
@@ -342,14 +543,14 @@ export class IntegrationService {
   }
 
   // Private helper methods
-  private async callResumeParsingService(fileUrl: string): Promise<any> {
+  private async callResumeParsingService(fileUrl?: string): Promise<any> {
     try {
       const parsingServiceUrl = this.configService.get('RESUME_PARSING_SERVICE_URL');
       const apiKey = this.configService.get('RESUME_PARSING_API_KEY');
 
-      if (!parsingServiceUrl) {
-        // Fallback to basic parsing if no external service configured
-        return this.basicResumeParser(fileUrl);
+      if (!parsingServiceUrl || !fileUrl) {
+        // Built-in parsing when no external service is configured
+        return null;
       }
 
       const response = await this.httpService.axiosRef.post(
@@ -367,8 +568,8 @@ export class IntegrationService {
       return response.data;
     } catch (error) {
       this.logger.error('Resume parsing service call failed', error);
-      // Fallback to basic parsing
-      return this.basicResumeParser(fileUrl);
+      // Fall back to built-in parsing
+      return null;
     }
   }
 
@@ -378,7 +579,7 @@ export class IntegrationService {
       const apiKey = this.configService.get('AI_SERVICE_API_KEY');
 
       if (!aiServiceUrl) {
-        return this.basicTextParser(resumeText);
+        return this.resumeParserService.parseText(resumeText);
       }
 
       const response = await this.httpService.axiosRef.post(
@@ -396,7 +597,7 @@ export class IntegrationService {
       return response.data;
     } catch (error) {
       this.logger.error('AI resume parsing failed', error);
-      return this.basicTextParser(resumeText);
+      return this.resumeParserService.parseText(resumeText);
     }
   }
 
@@ -411,6 +612,7 @@ export class IntegrationService {
         address: rawData.personalInfo?.address?.trim(),
         linkedin: rawData.personalInfo?.linkedin?.trim(),
         website: rawData.personalInfo?.website?.trim(),
+        confidence: rawData.personalInfo?.confidence,
       },
       summary: rawData.summary?.trim(),
       experience: (rawData.experience || []).map((exp: any) => ({
@@ -421,6 +623,7 @@ export class IntegrationService {
         current: exp.current || false,
         description: exp.description?.trim() || '',
         location: exp.location?.trim(),
+        confidence: exp.confidence,
       })),
       education: (rawData.education || []).map((edu: any) => ({
         institution: edu.institution?.trim() || '',
@@ -430,22 +633,28 @@ export class IntegrationService {
         endDate: edu.endDate,
         current: edu.current || false,
         gpa: edu.gpa ? parseFloat(edu.gpa) : undefined,
+        confidence: edu.confidence,
       })),
       skills: (rawData.skills || []).map((skill: any) => ({
         name: skill.name?.trim() || skill,
         category: skill.category?.trim(),
         level: skill.level?.trim(),
+        skillId: skill.skillId,
+        confidence: skill.confidence,
       })),
       certifications: (rawData.certifications || []).map((cert: any) => ({
         name: cert.name?.trim() || '',
         issuer: cert.issuer?.trim() || '',
         issueDate: cert.issueDate || '',
         expiryDate: cert.expiryDate,
+        confidence: cert.confidence,
       })),
       languages: (rawData.languages || []).map((lang: any) => ({
         name: lang.name?.trim() || '',
         proficiency: lang.proficiency?.trim() || 'conversational',
+        confidence: lang.confidence,
       })),
+      confidence: rawData.confidence,
     };
 
     return cleanedData;
@@ -699,27 +908,74 @@ export class IntegrationService {
     return extractedSkills.filter(skill => validSkills.has(skill.toLowerCase()));
   }
 
-  private basicResumeParser(fileUrl: string): any {
-    // Basic fallback parser - would need actual implementation
-    return {
-      personalInfo: { firstName: '', lastName: '', email: '' },
-      experience: [],
-      education: [],
-      skills: [],
-      certifications: [],
-      languages: [],
-    };
+  private async findAccessibleApplication(
+    applicationId: string,
+    currentUser: AuthenticatedUser,
+  ): Promise<JobApplication> {
+    const application = await this.applicationRepository.findOne({
+      where: { id: applicationId },
+      relations: ['job'],
+    });
+
+    if (!application) {
+      throw new NotFoundException('Application not found');
+    }
+
+    this.assertApplicationAccess(application, currentUser);
+    return application;
   }
 
-  private basicTextParser(resumeText: string): any {
-    // Basic text parsing fallback
-    return {
-      personalInfo: { firstName: '', lastName: '', email: '' },
-      experience: [],
-      education: [],
-      skills: [],
-      certifications: [],
-      languages: [],
-    };
+  private assertApplicationAccess(application: JobApplication, currentUser: AuthenticatedUser): void {
+    if (
+      currentUser.roles !== UserRole.ADMIN &&
+      application.job?.organizationId !== currentUser.currentOrganizationId
+    ) {
+      throw new ForbiddenException('Access denied to this application');
+    }
+  }
+
+  private async findAccessibleFile(fileId: string, currentUser: AuthenticatedUser): Promise<File> {
+    const file = await this.fileRepository.findOne({ where: { id: fileId } });
+
+    if (!file || !file.canAccess(currentUser.id, currentUser.currentOrganizationId)) {
+      throw new NotFoundException(`File not found: ${fileId}`);
+    }
+
+    return file;
+  }
+
+  private async findFileByUrl(fileUrl: string | undefined, currentUser: AuthenticatedUser): Promise<File | null> {
+    if (!fileUrl) return null;
+
+    const file = await this.findFileForUrl(fileUrl);
+    return file && file.canAccess(currentUser.id, currentUser.currentOrganizationId) ? file : null;
+  }
+
+  /**
+   * Files module record behind a public, CDN or API URL
+   */
+  private async findFileForUrl(url: string): Promise<File | null> {
+    const fileId = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i.exec(url)?.[0];
+
+    return this.fileRepository.findOne({
+      where: [{ publicUrl: url }, { cdnUrl: url }, ...(fileId ? [{ id: fileId }] : [])],
+    });
+  }
+
+  private async findApplicationResumeFile(application: JobApplication): Promise<File | null> {
+    const attachments = (application.formData?.attachments || [])
+      .filter(attachment => RESUME_MIME_TYPES.includes(attachment.type) || /\.(pdf|docx|txt)$/i.test(attachment.name))
+      // Prefer attachments named like a CV
+      .sort((a, b) => Number(/resume|cv/i.test(b.name)) - Number(/resume|cv/i.test(a.name)));
+
+    for (const attachment of attachments) {
+      const file = await this.findFileForUrl(attachment.url);
+      // Attachment URLs come from the candidate: only their own or the employer's files count
+      if (file && (file.ownerId === application.candidateId || file.canAccess(undefined, application.job?.organizationId))) {
+        return file;
+      }
+    }
+
+    return null;
   }
 }
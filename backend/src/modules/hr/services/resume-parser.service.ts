@@ -0,0 +1,218 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { File } from '../../../database/entities/file.entity';
+import { Skill } from '../../../database/entities/skill.entity';
+import { S3Service } from '../../files/services/s3.service';
+import { DocumentExtractionError, extractDocumentText } from '../parsing/document-text';
+import { parseResumeText } from '../parsing/resume-text-parser';
+import { ParsedResumeData } from './integration.service';
+
+interface SkillCatalog {
+  loadedAt: number;
+  byKey: Map<string, Skill>;
+}
+
+const SKILL_CATALOG_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Resume Parser Service
+ * Built-in resume parsing for PDF, DOCX and plain text uploads held by the
+ * files module. Extracted skills are normalised against the skill catalogue
+ */
+@Injectable()
+export class ResumeParserService {
+  private readonly logger = new Logger(ResumeParserService.name);
+  private readonly maxFileSize: number;
+  private skillCatalog: SkillCatalog | null = null;
+
+  constructor(
+    @InjectRepository(Skill)
+    private readonly skillRepository: Repository<Skill>,
+    private readonly s3Service: S3Service,
+    private readonly configService: ConfigService,
+  ) {
+    // 10MB
+    this.maxFileSize = this.configService.get<number>(
+      'RESUME_PARSER_MAX_FILE_SIZE',
+      10 * 1024 * 1024,
+    );
+  }
+
+  /**
+   * Parse a resume stored through the files module
+   */
+  async parseFile(file: File): Promise<ParsedResumeData> {
+    if (file.isVirusInfected) {
+      throw new BadRequestException(`File ${file.id} failed the virus scan`);
+    }
+    if (Number(file.sizeBytes) > this.maxFileSize) {
+      throw new BadRequestException(`File ${file.id} is too large to parse`);
+    }
+
+    const buffer = await this.s3Service.downloadFile(file.storagePath);
+    return this.parseDocument(buffer, file.mimeType, file.originalFilename || file.filename);
+  }
+
+  async parseDocument(
+    buffer: Buffer,
+    mimeType?: string,
+    filename?: string,
+  ): Promise<ParsedResumeData> {
+    let text: string;
+    try {
+      text = extractDocumentText(buffer, mimeType, filename).text;
+    } catch (error) {
+      if (error instanceof DocumentExtractionError) {
+        throw new BadRequestException(error.message);
+      }
+      this.logger.error(`Failed to read resume document ${filename || ''}`, error);
+      throw new BadRequestException('Resume document could not be read');
+    }
+
+    if (!text) {
+      throw new BadRequestException(
+        'Resume document contains no text (scanned documents are not supported)',
+      );
+    }
+
+    return this.parseText(text);
+  }
+
+  async parseText(text: string): Promise<ParsedResumeData> {
+    const parsed = parseResumeText(text);
+
+    return {
+      ...parsed,
+      skills: await this.normalizeSkills(parsed.skills, text),
+    };
+  }
+
+  /**
+   * Map extracted skills onto the catalogue (names and aliases) and pick up
+   * catalogue skills mentioned elsewhere in the resume
+   */
+  private async normalizeSkills(
+    extracted: Array<{ name: string; category?: string; confidence: number }>,
+    text: string,
+  ): Promise<ParsedResumeData['skills']> {
+    const catalog = await this.loadSkillCatalog();
+    const skills = new Map<string, ParsedResumeData['skills'][number]>();
+
+    const add = (key: string, skill: ParsedResumeData['skills'][number]) => {
+      const existing = skills.get(key);
+      if (!existing || existing.confidence < skill.confidence) {
+        skills.set(key, skill);
+      }
+    };
+
+    for (const item of extracted) {
+      const key = skillKey(item.name);
+      const exact = catalog.byKey.get(key);
+      const match = exact || this.findSimilarSkill(key, catalog);
+
+      if (match) {
+        add(match.id, {
+          name: match.name,
+          category: match.category?.name || item.category,
+          skillId: match.id,
+          confidence: exact ? 0.95 : 0.75,
+        });
+      } else if (key) {
+        add(key, { name: item.name, category: item.category, confidence: item.confidence });
+      }
+    }
+
+    // Skills named in experience descriptions rather than the skills section
+    const words = text.split(/[\s,;:|()[\]{}"'•]+/).filter(Boolean);
+    for (let index = 0; index < words.length; index++) {
+      for (let size = 3; size >= 1; size--) {
+        const phrase = words.slice(index, index + size).join(' ');
+        const key = skillKey(phrase.replace(/\.$/, ''));
+        const skill = key.length >= 3 || /[+#]/.test(key) ? catalog.byKey.get(key) : undefined;
+
+        if (skill && !skills.has(skill.id)) {
+          add(skill.id, {
+            name: skill.name,
+            category: skill.category?.name,
+            skillId: skill.id,
+            confidence: 0.5,
+          });
+        }
+      }
+    }
+
+    return [...skills.values()];
+  }
+
+  private findSimilarSkill(key: string, catalog: SkillCatalog): Skill | undefined {
+    if (key.length < 5) return undefined;
+
+    let best: { skill: Skill; score: number } | undefined;
+    for (const [candidateKey, skill] of catalog.byKey) {
+      if (Math.abs(candidateKey.length - key.length) > 3) continue;
+      const score = diceCoefficient(key, candidateKey);
+      if (score >= 0.85 && (!best || score > best.score)) {
+        best = { skill, score };
+      }
+    }
+
+    return best?.skill;
+  }
+
+  private async loadSkillCatalog(): Promise<SkillCatalog> {
+    if (this.skillCatalog && Date.now() - this.skillCatalog.loadedAt < SKILL_CATALOG_TTL_MS) {
+      return this.skillCatalog;
+    }
+
+    const skills = await this.skillRepository.find({
+      where: { isActive: true },
+      relations: ['category'],
+    });
+
+    const byKey = new Map<string, Skill>();
+    // Verified and popular skills win when names or aliases collide
+    skills
+      .sort(
+        (a, b) =>
+          Number(b.isVerified) - Number(a.isVerified) || b.popularityScore - a.popularityScore,
+      )
+      .forEach(skill => {
+        for (const name of [skill.name, ...(skill.aliases || [])]) {
+          const key = skillKey(name);
+          if (key && !byKey.has(key)) byKey.set(key, skill);
+        }
+      });
+
+    this.skillCatalog = { loadedAt: Date.now(), byKey };
+    return this.skillCatalog;
+  }
+}
+
+/**
+ * Comparison key: "Node.js", "NodeJS" and "node js" share one
+ */
+function skillKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9+#]/g, '');
+}
+
+function diceCoefficient(a: string, b: string): number {
+  const bigrams = (value: string) => {
+    const counts = new Map<string, number>();
+    for (let index = 0; index < value.length - 1; index++) {
+      const bigram = value.slice(index, index + 2);
+      counts.set(bigram, (counts.get(bigram) || 0) + 1);
+    }
+    return counts;
+  };
+
+  const first = bigrams(a);
+  const second = bigrams(b);
+  let overlap = 0;
+  for (const [bigram, count] of first) {
+    overlap += Math.min(count, second.get(bigram) || 0);
+  }
+
+  return (2 * overlap) / (a.length - 1 + (b.length - 1));
+}
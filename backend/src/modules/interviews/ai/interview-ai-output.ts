@@ -0,0 +1,190 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsArray,
+  IsNumber,
+  Min,
+  Max,
+  ArrayMinSize,
+  ValidateNested,
+  validateSync,
+  ValidationError,
+} from 'class-validator';
+import { plainToInstance, Type, ClassConstructor } from 'class-transformer';
+import { InterviewDifficulty } from '../../../database/entities/interview-question-bank.entity';
+import { QuestionType } from '../../../database/entities/interview-question.entity';
+
+/**
+ * Raised when model output is not valid JSON or does not match the expected schema
+ */
+export class AiOutputValidationError extends Error {
+  constructor(
+    message: string,
+    readonly rawOutput: string,
+  ) {
+    super(message);
+    this.name = 'AiOutputValidationError';
+  }
+}
+
+export class GeneratedQuestionOutput {
+  @IsString()
+  text: string;
+
+  @IsEnum(QuestionType)
+  type: QuestionType;
+
+  @IsEnum(InterviewDifficulty)
+  difficulty: InterviewDifficulty;
+
+  @IsOptional()
+  @IsString()
+  skillCategory?: string;
+
+  @IsOptional()
+  @IsString()
+  expectedAnswer?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  followUpQuestions?: string[];
+}
+
+export class GeneratedQuestionsOutput {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => GeneratedQuestionOutput)
+  questions: GeneratedQuestionOutput[];
+}
+
+export class AnswerEvaluationOutput {
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  score: number;
+
+  @IsString()
+  feedback: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  strengths: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  suggestions: string[];
+}
+
+export class FollowUpQuestionOutput {
+  @IsString()
+  question: string;
+
+  @IsOptional()
+  @IsString()
+  rationale?: string;
+}
+
+export class DetailedAnalysisOutput {
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  communication: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  technicalKnowledge: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  problemSolving: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  leadership: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  teamwork: number;
+}
+
+export class InterviewFeedbackOutput {
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  overallScore: number;
+
+  @IsArray()
+  @IsString({ each: true })
+  strengths: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  improvementAreas: string[];
+
+  @ValidateNested()
+  @Type(() => DetailedAnalysisOutput)
+  detailedAnalysis: DetailedAnalysisOutput;
+
+  @IsArray()
+  @IsString({ each: true })
+  recommendations: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  nextSteps: string[];
+}
+
+/**
+ * Parse a model reply into a validated output object. Tolerates the JSON
+ * being wrapped in a markdown code fence or surrounded by prose
+ */
+export function parseStructuredOutput<T extends object>(
+  rawOutput: string,
+  schema: ClassConstructor<T>,
+): T {
+  const start = rawOutput.indexOf('{');
+  const end = rawOutput.lastIndexOf('}');
+
+  if (start === -1 || end < start) {
+    throw new AiOutputValidationError('Model output does not contain a JSON object', rawOutput);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawOutput.substring(start, end + 1));
+  } catch (error) {
+    throw new AiOutputValidationError(
+      `Model output is not valid JSON: ${error.message}`,
+      rawOutput,
+    );
+  }
+
+  const output = plainToInstance(schema, parsed);
+  const errors = validateSync(output, { whitelist: true });
+
+  if (errors.length > 0) {
+    throw new AiOutputValidationError(
+      `Model output does not match schema: ${formatValidationErrors(errors).join('; ')}`,
+      rawOutput,
+    );
+  }
+
+  return output;
+}
+
+function formatValidationErrors(errors: ValidationError[], path = ''): string[] {
+  return errors.flatMap(error => {
+    const property = path ? `${path}.${error.property}` : error.property;
+    const messages = Object.values(error.constraints || {}).map(
+      message => `${property}: ${message}`,
+    );
+    return [...messages, ...formatValidationErrors(error.children || [], property)];
+  });
+}
@@ -0,0 +1,114 @@
+import { InterviewType } from '../../../database/entities/interview-session.entity';
+import { InterviewDifficulty } from '../../../database/entities/interview-question-bank.entity';
+import { QuestionType } from '../../../database/entities/interview-question.entity';
+
+/**
+ * Injection token for the configured interview AI provider
+ */
+export const INTERVIEW_AI_PROVIDER = 'INTERVIEW_AI_PROVIDER';
+
+/**
+ * Interview details every prompt is built from
+ */
+export interface InterviewAiContext {
+  interviewType: InterviewType;
+  jobRole: string;
+  jobDescription?: string;
+  companyName?: string;
+  difficulty: InterviewDifficulty;
+  focusAreas?: string[];
+  customInstructions?: string;
+}
+
+export interface TranscriptTurn {
+  speaker: 'ai' | 'user';
+  message: string;
+}
+
+export interface GeneratedInterviewQuestion {
+  text: string;
+  type: QuestionType;
+  difficulty: InterviewDifficulty;
+  skillCategory?: string;
+  expectedAnswer?: string;
+  followUpQuestions?: string[];
+}
+
+export interface AnswerEvaluation {
+  score: number;
+  feedback: string;
+  strengths: string[];
+  suggestions: string[];
+}
+
+export interface FollowUpQuestion {
+  question: string;
+  rationale?: string;
+}
+
+export interface InterviewFeedback {
+  overallScore: number;
+  strengths: string[];
+  improvementAreas: string[];
+  detailedAnalysis: {
+    communication: number;
+    technicalKnowledge: number;
+    problemSolving: number;
+    leadership: number;
+    teamwork: number;
+  };
+  recommendations: string[];
+  nextSteps: string[];
+}
+
+/**
+ * Token usage and estimated cost of a single provider call
+ */
+export interface AiUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Provider output together with what producing it cost
+ */
+export interface InterviewAiResult<T> {
+  data: T;
+  provider: string;
+  model: string;
+  usage: AiUsage;
+}
+
+/**
+ * Interview AI provider
+ * Implementations turn interview context into questions, scores and feedback.
+ * Every method resolves to validated, structured data or rejects
+ */
+export interface InterviewAiProvider {
+  readonly name: string;
+
+  generateQuestions(
+    context: InterviewAiContext,
+    count: number,
+  ): Promise<InterviewAiResult<GeneratedInterviewQuestion[]>>;
+
+  scoreAnswer(
+    context: InterviewAiContext,
+    question: string,
+    answer: string,
+  ): Promise<InterviewAiResult<AnswerEvaluation>>;
+
+  generateFollowUp(
+    context: InterviewAiContext,
+    transcript: TranscriptTurn[],
+    lastAnswer: string,
+  ): Promise<InterviewAiResult<FollowUpQuestion>>;
+
+  generateFeedback(
+    context: InterviewAiContext,
+    transcript: TranscriptTurn[],
+    skillScores: Record<string, number>,
+  ): Promise<InterviewAiResult<InterviewFeedback>>;
+}
@@ -0,0 +1,60 @@
+import { InterviewType } from '../../../database/entities/interview-session.entity';
+import { countFillerWords } from '../speech/speech-metrics';
+
+export interface LiveHintInput {
+  interviewType: InterviewType;
+  partialAnswer: string;
+  elapsedSeconds: number;
+  timeLimitSeconds: number;
+}
+
+export interface LiveHint {
+  code: string;
+  message: string;
+}
+
+/**
+ * Cheap rule-based hints on a partial answer. Runs on every streamed chunk,
+ * so it never calls the model provider
+ */
+export function buildLiveHint(input: LiveHintInput): LiveHint | null {
+  const text = input.partialAnswer.toLowerCase();
+  const words = text.split(/\s+/).filter(Boolean);
+
+  if (input.timeLimitSeconds > 0 && input.elapsedSeconds >= input.timeLimitSeconds * 0.8) {
+    return {
+      code: 'time_running_out',
+      message: 'Time is almost up. Start wrapping up your answer.',
+    };
+  }
+
+  const fillerCount = Object.values(countFillerWords(text)).reduce((sum, count) => sum + count, 0);
+  if (words.length >= 20 && fillerCount / words.length > 0.05) {
+    return {
+      code: 'filler_words',
+      message: 'Try to pause briefly instead of using filler words.',
+    };
+  }
+
+  if (words.length > 250) {
+    return { code: 'too_long', message: 'Your answer is getting long. Summarize the key point.' };
+  }
+
+  if (
+    input.interviewType === InterviewType.BEHAVIORAL &&
+    words.length >= 60 &&
+    !/result|outcome|impact/.test(text)
+  ) {
+    return { code: 'missing_result', message: 'Explain the result of your actions.' };
+  }
+
+  if (
+    input.interviewType === InterviewType.TECHNICAL &&
+    words.length >= 60 &&
+    !/because|trade-?off|instead/.test(text)
+  ) {
+    return { code: 'missing_reasoning', message: 'Explain why you chose this approach.' };
+  }
+
+  return null;
+}
@@ -0,0 +1,183 @@
+import { InterviewType } from '../../../database/entities/interview-session.entity';
+import { InterviewDifficulty } from '../../../database/entities/interview-question-bank.entity';
+import { QuestionType } from '../../../database/entities/interview-question.entity';
+import { InterviewAiContext, TranscriptTurn } from './interview-ai.types';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Interviewer persona and evaluation focus for each interview type
+ */
+export interface InterviewPromptTemplate {
+  persona: string;
+  focus: string;
+  questionTypes: QuestionType[];
+  scoringCriteria: string[];
+}
+
+export const INTERVIEW_PROMPT_TEMPLATES: Record<InterviewType, InterviewPromptTemplate> = {
+  [InterviewType.TECHNICAL]: {
+    persona: 'a senior engineer running a technical interview',
+    focus: 'technical depth, correctness, trade-offs and practical problem solving',
+    questionTypes: [QuestionType.TECHNICAL, QuestionType.CODING, QuestionType.SYSTEM_DESIGN],
+    scoringCriteria: ['technical accuracy', 'depth of reasoning', 'clarity of explanation'],
+  },
+  [InterviewType.BEHAVIORAL]: {
+    persona: 'an experienced hiring manager running a behavioral interview',
+    focus: 'past behavior shown through concrete examples using the STAR method',
+    questionTypes: [QuestionType.BEHAVIORAL, QuestionType.SITUATIONAL],
+    scoringCriteria: ['specific example', 'clear actions and ownership', 'measurable result'],
+  },
+  [InterviewType.HR]: {
+    persona: 'an HR partner running a screening interview',
+    focus: 'motivation, culture fit, career goals and expectations',
+    questionTypes: [QuestionType.GENERAL, QuestionType.BEHAVIORAL],
+    scoringCriteria: ['motivation', 'self-awareness', 'professionalism'],
+  },
+  [InterviewType.CASE_STUDY]: {
+    persona: 'a consultant running a case interview',
+    focus: 'structuring ambiguous business problems, analysis and recommendations',
+    questionTypes: [QuestionType.CASE_STUDY, QuestionType.SITUATIONAL],
+    scoringCriteria: ['problem structure', 'quantitative reasoning', 'actionable recommendation'],
+  },
+  [InterviewType.GROUP]: {
+    persona: 'a facilitator assessing a candidate in a group discussion',
+    focus: 'collaboration, building on ideas of others and constructive disagreement',
+    questionTypes: [QuestionType.SITUATIONAL, QuestionType.BEHAVIORAL],
+    scoringCriteria: ['collaboration', 'influence', 'communication'],
+  },
+  [InterviewType.PANEL]: {
+    persona: 'a panel of interviewers from engineering, product and HR',
+    focus: 'a balanced view of technical skill, behavior and role fit',
+    questionTypes: [QuestionType.TECHNICAL, QuestionType.BEHAVIORAL, QuestionType.GENERAL],
+    scoringCriteria: ['technical ability', 'behavioral evidence', 'role fit'],
+  },
+};
+
+const JSON_INSTRUCTION =
+  'Respond with a single JSON object only, no markdown and no text outside the JSON.';
+
+function describeCandidate(context: InterviewAiContext): string {
+  return [
+    `Role: ${context.jobRole}`,
+    context.companyName && `Company: ${context.companyName}`,
+    `Difficulty: ${context.difficulty}`,
+    context.focusAreas?.length && `Focus areas: ${context.focusAreas.join(', ')}`,
+    context.jobDescription && `Job description:\n${context.jobDescription}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+function systemPrompt(context: InterviewAiContext): ChatMessage {
+  const template = INTERVIEW_PROMPT_TEMPLATES[context.interviewType];
+
+  return {
+    role: 'system',
+    content: [
+      `You are ${template.persona}. The interview assesses ${template.focus}.`,
+      context.customInstructions && `Additional instructions: ${context.customInstructions}`,
+      JSON_INSTRUCTION,
+    ]
+      .filter(Boolean)
+      .join('\n'),
+  };
+}
+
+function formatTranscript(transcript: TranscriptTurn[]): string {
+  return transcript
+    .map(turn => `${turn.speaker === 'ai' ? 'Interviewer' : 'Candidate'}: ${turn.message}`)
+    .join('\n');
+}
+
+export function buildQuestionGenerationPrompt(
+  context: InterviewAiContext,
+  count: number,
+): ChatMessage[] {
+  const template = INTERVIEW_PROMPT_TEMPLATES[context.interviewType];
+
+  return [
+    systemPrompt(context),
+    {
+      role: 'user',
+      content: [
+        describeCandidate(context),
+        `Write ${count} interview questions for this candidate, ordered as they should be asked.`,
+        `Allowed question types: ${template.questionTypes.join(', ')}.`,
+        `Allowed difficulties: ${Object.values(InterviewDifficulty).join(', ')}.`,
+        'Schema: {"questions": [{"text": string, "type": string, "difficulty": string, ' +
+          '"skillCategory": string, "expectedAnswer": string, "followUpQuestions": string[]}]}',
+      ].join('\n\n'),
+    },
+  ];
+}
+
+export function buildAnswerScoringPrompt(
+  context: InterviewAiContext,
+  question: string,
+  answer: string,
+): ChatMessage[] {
+  const template = INTERVIEW_PROMPT_TEMPLATES[context.interviewType];
+
+  return [
+    systemPrompt(context),
+    {
+      role: 'user',
+      content: [
+        describeCandidate(context),
+        `Question: ${question}`,
+        `Candidate answer: ${answer}`,
+        `Score the answer from 0 to 100 on: ${template.scoringCriteria.join(', ')}.`,
+        'Feedback is addressed to the candidate in two or three sentences.',
+        'Schema: {"score": number, "feedback": string, "strengths": string[], "suggestions": string[]}',
+      ].join('\n\n'),
+    },
+  ];
+}
+
+export function buildFollowUpPrompt(
+  context: InterviewAiContext,
+  transcript: TranscriptTurn[],
+  lastAnswer: string,
+): ChatMessage[] {
+  return [
+    systemPrompt(context),
+    {
+      role: 'user',
+      content: [
+        describeCandidate(context),
+        `Conversation so far:\n${formatTranscript(transcript)}`,
+        `Latest answer: ${lastAnswer}`,
+        'Ask one follow-up question that probes a gap or vague point in the latest answer. ' +
+          'Do not repeat earlier questions.',
+        'Schema: {"question": string, "rationale": string}',
+      ].join('\n\n'),
+    },
+  ];
+}
+
+export function buildFeedbackPrompt(
+  context: InterviewAiContext,
+  transcript: TranscriptTurn[],
+  skillScores: Record<string, number>,
+): ChatMessage[] {
+  return [
+    systemPrompt(context),
+    {
+      role: 'user',
+      content: [
+        describeCandidate(context),
+        `Interview transcript:\n${formatTranscript(transcript)}`,
+        `Per-skill scores so far: ${JSON.stringify(skillScores)}`,
+        'Write final feedback for the candidate. All scores are 0 to 100.',
+        'Schema: {"overallScore": number, "strengths": string[], "improvementAreas": string[], ' +
+          '"detailedAnalysis": {"communication": number, "technicalKnowledge": number, ' +
+          '"problemSolving": number, "leadership": number, "teamwork": number}, ' +
+          '"recommendations": string[], "nextSteps": string[]}',
+      ].join('\n\n'),
+    },
+  ];
+}
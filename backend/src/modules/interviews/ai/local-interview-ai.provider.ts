@@ -0,0 +1,313 @@
+import { Injectable } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { InterviewType } from '../../../database/entities/interview-session.entity';
+import { QuestionType } from '../../../database/entities/interview-question.entity';
+import {
+  AiUsage,
+  AnswerEvaluation,
+  FollowUpQuestion,
+  GeneratedInterviewQuestion,
+  InterviewAiContext,
+  InterviewAiProvider,
+  InterviewAiResult,
+  InterviewFeedback,
+  TranscriptTurn,
+} from './interview-ai.types';
+
+const QUESTION_BANK: Record<InterviewType, Array<[QuestionType, string, string]>> = {
+  [InterviewType.TECHNICAL]: [
+    [
+      QuestionType.TECHNICAL,
+      'Walk me through the architecture of a system you built as a {role}.',
+      'technical',
+    ],
+    [
+      QuestionType.TECHNICAL,
+      'How do you diagnose a performance problem in production?',
+      'problem_solving',
+    ],
+    [
+      QuestionType.SYSTEM_DESIGN,
+      'Design a service that handles a sudden tenfold increase in traffic.',
+      'technical',
+    ],
+    [
+      QuestionType.CODING,
+      'How would you test a function that depends on the current time?',
+      'technical',
+    ],
+    [
+      QuestionType.TECHNICAL,
+      'Describe a technical trade-off you made and what you would change now.',
+      'problem_solving',
+    ],
+    [QuestionType.TECHNICAL, 'How do you keep your {role} skills current?', 'communication'],
+  ],
+  [InterviewType.BEHAVIORAL]: [
+    [
+      QuestionType.BEHAVIORAL,
+      'Tell me about a time you disagreed with a teammate. What happened?',
+      'teamwork',
+    ],
+    [
+      QuestionType.BEHAVIORAL,
+      'Describe a project that failed and what you learned from it.',
+      'problem_solving',
+    ],
+    [
+      QuestionType.SITUATIONAL,
+      'You are about to miss a deadline. What do you do?',
+      'communication',
+    ],
+    [
+      QuestionType.BEHAVIORAL,
+      'Tell me about a time you took the lead without being asked.',
+      'leadership',
+    ],
+    [
+      QuestionType.BEHAVIORAL,
+      'Describe the most difficult feedback you have received.',
+      'communication',
+    ],
+    [QuestionType.BEHAVIORAL, 'Give an example of how you helped a colleague succeed.', 'teamwork'],
+  ],
+  [InterviewType.HR]: [
+    [QuestionType.GENERAL, 'Why are you interested in this {role} position?', 'communication'],
+    [QuestionType.GENERAL, 'Where do you see your career in three years?', 'communication'],
+    [QuestionType.BEHAVIORAL, 'What kind of team culture helps you do your best work?', 'teamwork'],
+    [QuestionType.GENERAL, 'What motivates you in your professional career?', 'communication'],
+    [
+      QuestionType.BEHAVIORAL,
+      'How do you handle pressure and competing priorities?',
+      'problem_solving',
+    ],
+  ],
+  [InterviewType.CASE_STUDY]: [
+    [
+      QuestionType.CASE_STUDY,
+      'A key product metric dropped 20% last week. How do you investigate?',
+      'problem_solving',
+    ],
+    [
+      QuestionType.CASE_STUDY,
+      'How would you estimate the market size for a new {role} tool?',
+      'problem_solving',
+    ],
+    [
+      QuestionType.SITUATIONAL,
+      'Two stakeholders want conflicting features. How do you decide?',
+      'leadership',
+    ],
+    [
+      QuestionType.CASE_STUDY,
+      'How would you decide whether to build or buy a critical component?',
+      'technical',
+    ],
+  ],
+  [InterviewType.GROUP]: [
+    [
+      QuestionType.SITUATIONAL,
+      'The group is stuck between two ideas. How do you move it forward?',
+      'leadership',
+    ],
+    [
+      QuestionType.BEHAVIORAL,
+      'Tell me about a time you changed your mind because of a colleague.',
+      'teamwork',
+    ],
+    [
+      QuestionType.SITUATIONAL,
+      'One member dominates the discussion. What do you do?',
+      'communication',
+    ],
+    [QuestionType.BEHAVIORAL, 'How do you make sure quieter team members are heard?', 'teamwork'],
+  ],
+  [InterviewType.PANEL]: [
+    [
+      QuestionType.GENERAL,
+      'Introduce yourself and the work you are most proud of as a {role}.',
+      'communication',
+    ],
+    [
+      QuestionType.TECHNICAL,
+      'Explain a complex technical topic to a non-technical panel member.',
+      'communication',
+    ],
+    [
+      QuestionType.BEHAVIORAL,
+      'Tell us about a time you balanced quality against speed.',
+      'problem_solving',
+    ],
+    [
+      QuestionType.TECHNICAL,
+      'Which tools would you introduce in your first three months, and why?',
+      'technical',
+    ],
+    [QuestionType.BEHAVIORAL, 'Describe how you handled a conflict with a manager.', 'leadership'],
+  ],
+};
+
+const PROFESSIONAL_KEYWORDS = [
+  'experience',
+  'skills',
+  'project',
+  'team',
+  'challenge',
+  'solution',
+  'result',
+  'learned',
+  'because',
+  'impact',
+];
+
+const STAR_KEYWORDS = ['situation', 'task', 'action', 'result'];
+
+const NO_USAGE: AiUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+
+/**
+ * Local Interview AI Provider
+ * Deterministic, offline implementation for development, tests and as a
+ * fallback when the configured model provider is unavailable. The same input
+ * always produces the same output
+ */
+@Injectable()
+export class LocalInterviewAiProvider implements InterviewAiProvider {
+  readonly name = 'local';
+
+  async generateQuestions(
+    context: InterviewAiContext,
+    count: number,
+  ): Promise<InterviewAiResult<GeneratedInterviewQuestion[]>> {
+    const bank = QUESTION_BANK[context.interviewType] || QUESTION_BANK[InterviewType.BEHAVIORAL];
+    const offset =
+      this.hash(`${context.interviewType}:${context.jobRole}:${context.difficulty}`) % bank.length;
+
+    const questions = Array.from({ length: Math.min(count, bank.length) }, (_, index) => {
+      const [type, text, skillCategory] = bank[(offset + index) % bank.length];
+      return {
+        text: text.replace('{role}', context.jobRole),
+        type,
+        difficulty: context.difficulty,
+        skillCategory,
+      };
+    });
+
+    return this.result(questions);
+  }
+
+  async scoreAnswer(
+    context: InterviewAiContext,
+    question: string,
+    answer: string,
+  ): Promise<InterviewAiResult<AnswerEvaluation>> {
+    const text = answer.toLowerCase();
+    const wordCount = answer.split(/\s+/).filter(Boolean).length;
+    const keywords = PROFESSIONAL_KEYWORDS.filter(keyword => text.includes(keyword));
+    const usesStar =
+      context.interviewType === InterviewType.BEHAVIORAL &&
+      STAR_KEYWORDS.filter(keyword => text.includes(keyword)).length >= 3;
+
+    const score = Math.min(
+      100,
+      Math.min(wordCount * 2, 70) + keywords.length * 5 + (usesStar ? 10 : 0),
+    );
+
+    const strengths: string[] = [];
+    const suggestions: string[] = [];
+
+    if (wordCount >= 40) strengths.push('Detailed answer');
+    else suggestions.push('Expand your answer with more detail');
+
+    if (keywords.length >= 3) strengths.push('Concrete, experience-based examples');
+    else suggestions.push('Use a specific example from your experience');
+
+    if (usesStar) strengths.push('Clear STAR structure');
+    else if (context.interviewType === InterviewType.BEHAVIORAL) {
+      suggestions.push('Structure the answer as situation, task, action and result');
+    }
+
+    const feedback =
+      score >= 80
+        ? 'Strong answer with relevant detail.'
+        : score >= 50
+          ? 'Reasonable answer. Adding concrete examples and outcomes would make it stronger.'
+          : 'The answer is brief. Describe what you did and what the outcome was.';
+
+    return this.result({ score, feedback, strengths, suggestions });
+  }
+
+  async generateFollowUp(
+    context: InterviewAiContext,
+    transcript: TranscriptTurn[],
+    lastAnswer: string,
+  ): Promise<InterviewAiResult<FollowUpQuestion>> {
+    const wordCount = lastAnswer.split(/\s+/).filter(Boolean).length;
+    const text = lastAnswer.toLowerCase();
+
+    let question: string;
+    if (wordCount < 30) {
+      question = 'Could you walk me through a specific example of that in more detail?';
+    } else if (!/result|outcome|impact|improv/.test(text)) {
+      question = 'What was the outcome, and how did you measure it?';
+    } else if (!/team|we |colleague/.test(text)) {
+      question = 'Who else was involved, and how did you work with them?';
+    } else {
+      question = `Looking back, what would you do differently as a ${context.jobRole}?`;
+    }
+
+    return this.result({ question, rationale: 'Probes the least developed part of the answer' });
+  }
+
+  async generateFeedback(
+    context: InterviewAiContext,
+    transcript: TranscriptTurn[],
+    skillScores: Record<string, number>,
+  ): Promise<InterviewAiResult<InterviewFeedback>> {
+    const scores = Object.values(skillScores);
+    const overallScore = scores.length
+      ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length)
+      : 0;
+    const skill = (name: string) => Math.round(skillScores[name] ?? overallScore);
+
+    const ranked = Object.entries(skillScores).sort(([, a], [, b]) => b - a);
+    const strengths = ranked.filter(([, score]) => score >= 70).map(([name]) => this.label(name));
+    const improvementAreas = ranked
+      .filter(([, score]) => score < 70)
+      .reverse()
+      .map(([name]) => this.label(name));
+
+    return this.result({
+      overallScore,
+      strengths: strengths.length ? strengths : ['Completed the interview'],
+      improvementAreas,
+      detailedAnalysis: {
+        communication: skill('communication'),
+        technicalKnowledge: skill('technical'),
+        problemSolving: skill('problem_solving'),
+        leadership: skill('leadership'),
+        teamwork: skill('teamwork'),
+      },
+      recommendations: improvementAreas.length
+        ? improvementAreas.map(area => `Practice questions that focus on ${area.toLowerCase()}`)
+        : ['Practice at a higher difficulty level'],
+      nextSteps: [
+        overallScore >= 80
+          ? 'Schedule a mock interview at a higher difficulty'
+          : `Repeat a ${context.interviewType} mock interview after practicing`,
+      ],
+    });
+  }
+
+  private result<T>(data: T): InterviewAiResult<T> {
+    return { data, provider: this.name, model: 'local-heuristic-v1', usage: { ...NO_USAGE } };
+  }
+
+  private label(skill: string): string {
+    const text = skill.replace(/_/g, ' ');
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+
+  private hash(value: string): number {
+    return crypto.createHash('sha256').update(value).digest().readUInt32BE(0);
+  }
+}
@@ -0,0 +1,102 @@
+import { of } from 'rxjs';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { InterviewType } from '../../../database/entities/interview-session.entity';
+import { InterviewDifficulty } from '../../../database/entities/interview-question-bank.entity';
+import { InterviewAiContext } from './interview-ai.types';
+import { AiOutputValidationError } from './interview-ai-output';
+import { OpenAiCompatibleProvider } from './openai-compatible.provider';
+import { LocalInterviewAiProvider } from './local-interview-ai.provider';
+
+const context: InterviewAiContext = {
+  interviewType: InterviewType.BEHAVIORAL,
+  jobRole: 'Backend Engineer',
+  difficulty: InterviewDifficulty.INTERMEDIATE,
+};
+
+describe('OpenAiCompatibleProvider', () => {
+  const config: Record<string, string> = {
+    LLM_API_KEY: 'test-key',
+    LLM_INPUT_COST_PER_1K_TOKENS: '0.5',
+    LLM_OUTPUT_COST_PER_1K_TOKENS: '1.5',
+  };
+  const configService = {
+    get: (key: string, defaultValue?: unknown) => config[key] ?? defaultValue,
+  } as unknown as ConfigService;
+
+  function createProvider(content: string) {
+    const httpService = {
+      post: jest.fn().mockReturnValue(
+        of({
+          data: {
+            model: 'gpt-4o-mini',
+            choices: [{ message: { content } }],
+            usage: { prompt_tokens: 1000, completion_tokens: 200, total_tokens: 1200 },
+          },
+        }),
+      ),
+    };
+    const provider = new OpenAiCompatibleProvider(
+      httpService as unknown as HttpService,
+      configService,
+    );
+    return { provider, httpService };
+  }
+
+  it('parses a fenced JSON reply and reports usage and cost', async () => {
+    const { provider, httpService } = createProvider(
+      '```json\n{"score": 72, "feedback": "Good example.", "strengths": ["Specific"], "suggestions": []}\n```',
+    );
+
+    const result = await provider.scoreAnswer(context, 'Tell me about a conflict.', 'An answer');
+
+    expect(result.data.score).toBe(72);
+    expect(result.usage).toEqual({
+      promptTokens: 1000,
+      completionTokens: 200,
+      totalTokens: 1200,
+      costUsd: 0.8,
+    });
+    expect(httpService.post).toHaveBeenCalledWith(
+      'https://api.openai.com/v1/chat/completions',
+      expect.objectContaining({ response_format: { type: 'json_object' } }),
+      { headers: { Authorization: 'Bearer test-key' } },
+    );
+  });
+
+  it('rejects replies that do not match the schema', async () => {
+    const { provider } = createProvider('{"score": 140, "feedback": "Too high"}');
+
+    await expect(provider.scoreAnswer(context, 'Question', 'Answer')).rejects.toBeInstanceOf(
+      AiOutputValidationError,
+    );
+  });
+});
+
+describe('LocalInterviewAiProvider', () => {
+  const provider = new LocalInterviewAiProvider();
+
+  it('generates the same questions for the same context', async () => {
+    const first = await provider.generateQuestions(context, 3);
+    const second = await provider.generateQuestions(context, 3);
+
+    expect(first.data).toHaveLength(3);
+    expect(second.data).toEqual(first.data);
+    expect(first.usage.totalTokens).toBe(0);
+  });
+
+  it('scores structured answers higher than short ones', async () => {
+    const short = await provider.scoreAnswer(context, 'Question', 'I fixed it.');
+    const detailed = await provider.scoreAnswer(
+      context,
+      'Question',
+      'The situation was a project with a missed deadline. My task was to recover the release, ' +
+        'so the action I took was to split the work with the team and talk to each stakeholder. ' +
+        'The result was a release one week later, and I learned to raise risks early because ' +
+        'the impact of surprises is much larger than the impact of bad news.',
+    );
+
+    expect(detailed.data.score).toBeGreaterThan(short.data.score);
+    expect(detailed.data.strengths).toContain('Clear STAR structure');
+  });
+});
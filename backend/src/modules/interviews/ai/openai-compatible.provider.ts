@@ -0,0 +1,157 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { ClassConstructor } from 'class-transformer';
+import {
+  AnswerEvaluation,
+  FollowUpQuestion,
+  GeneratedInterviewQuestion,
+  InterviewAiContext,
+  InterviewAiProvider,
+  InterviewAiResult,
+  InterviewFeedback,
+  TranscriptTurn,
+} from './interview-ai.types';
+import {
+  AnswerEvaluationOutput,
+  FollowUpQuestionOutput,
+  GeneratedQuestionsOutput,
+  InterviewFeedbackOutput,
+  parseStructuredOutput,
+} from './interview-ai-output';
+import {
+  ChatMessage,
+  buildAnswerScoringPrompt,
+  buildFeedbackPrompt,
+  buildFollowUpPrompt,
+  buildQuestionGenerationPrompt,
+} from './interview-prompts';
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices: Array<{ message: { content: string } }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+/**
+ * Provider for any OpenAI-compatible chat completions API
+ * (OpenAI, Azure OpenAI, vLLM, Ollama, LiteLLM, ...)
+ */
+@Injectable()
+export class OpenAiCompatibleProvider implements InterviewAiProvider {
+  readonly name = 'openai-compatible';
+  private readonly logger = new Logger(OpenAiCompatibleProvider.name);
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+  private readonly model: string;
+  private readonly temperature: number;
+  private readonly inputCostPer1k: number;
+  private readonly outputCostPer1k: number;
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+  ) {
+    this.baseUrl = this.configService.get('LLM_API_BASE_URL', 'https://api.openai.com/v1');
+    this.apiKey = this.configService.get('LLM_API_KEY');
+    this.model = this.configService.get('LLM_MODEL', 'gpt-4o-mini');
+    this.temperature = Number(this.configService.get('LLM_TEMPERATURE', 0.4));
+    this.inputCostPer1k = Number(this.configService.get('LLM_INPUT_COST_PER_1K_TOKENS', 0));
+    this.outputCostPer1k = Number(this.configService.get('LLM_OUTPUT_COST_PER_1K_TOKENS', 0));
+  }
+
+  async generateQuestions(
+    context: InterviewAiContext,
+    count: number,
+  ): Promise<InterviewAiResult<GeneratedInterviewQuestion[]>> {
+    const result = await this.complete(
+      buildQuestionGenerationPrompt(context, count),
+      GeneratedQuestionsOutput,
+    );
+    return { ...result, data: result.data.questions.slice(0, count) };
+  }
+
+  async scoreAnswer(
+    context: InterviewAiContext,
+    question: string,
+    answer: string,
+  ): Promise<InterviewAiResult<AnswerEvaluation>> {
+    return this.complete(
+      buildAnswerScoringPrompt(context, question, answer),
+      AnswerEvaluationOutput,
+    );
+  }
+
+  async generateFollowUp(
+    context: InterviewAiContext,
+    transcript: TranscriptTurn[],
+    lastAnswer: string,
+  ): Promise<InterviewAiResult<FollowUpQuestion>> {
+    return this.complete(
+      buildFollowUpPrompt(context, transcript, lastAnswer),
+      FollowUpQuestionOutput,
+    );
+  }
+
+  async generateFeedback(
+    context: InterviewAiContext,
+    transcript: TranscriptTurn[],
+    skillScores: Record<string, number>,
+  ): Promise<InterviewAiResult<InterviewFeedback>> {
+    return this.complete(
+      buildFeedbackPrompt(context, transcript, skillScores),
+      InterviewFeedbackOutput,
+    );
+  }
+
+  /**
+   * Run a chat completion in JSON mode and validate the reply against the schema
+   */
+  private async complete<T extends object>(
+    messages: ChatMessage[],
+    schema: ClassConstructor<T>,
+  ): Promise<InterviewAiResult<T>> {
+    const response = await firstValueFrom(
+      this.httpService.post<ChatCompletionResponse>(
+        `${this.baseUrl}/chat/completions`,
+        {
+          model: this.model,
+          messages,
+          temperature: this.temperature,
+          response_format: { type: 'json_object' },
+        },
+        {
+          headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+        },
+      ),
+    );
+
+    const content = response.data.choices?.[0]?.message?.content || '';
+    const usage = response.data.usage;
+    const promptTokens = usage?.prompt_tokens || 0;
+    const completionTokens = usage?.completion_tokens || 0;
+
+    this.logger.debug(
+      `LLM call used ${promptTokens} prompt and ${completionTokens} completion tokens`,
+    );
+
+    return {
+      data: parseStructuredOutput(content, schema),
+      provider: this.name,
+      model: response.data.model || this.model,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: usage?.total_tokens || promptTokens + completionTokens,
+        costUsd:
+          (promptTokens / 1000) * this.inputCostPer1k +
+          (completionTokens / 1000) * this.outputCostPer1k,
+      },
+    };
+  }
+}
@@ -0,0 +1,102 @@
+import {
+  InterviewSession,
+  InterviewStatus,
+} from '../../../database/entities/interview-session.entity';
+import { Assessment } from '../../../database/entities/assessment.entity';
+import { Lesson } from '../../../database/entities/lesson.entity';
+import { User } from '../../../database/entities/user.entity';
+import { IcsAttendee, IcsEvent } from './ics';
+
+const MINUTE = 60 * 1000;
+
+export function displayName(user?: Pick<User, 'firstName' | 'lastName'>): string | undefined {
+  const name = [user?.firstName, user?.lastName].filter(Boolean).join(' ');
+  return name || undefined;
+}
+
+/**
+ * Calendar event for an interview. The UID only depends on the session ID so
+ * invites, updates, cancellations and feed entries all refer to one event
+ */
+export function interviewEvent(
+  session: InterviewSession,
+  options: {
+    uidDomain: string;
+    // Join link for the calendar's owner; defaults to the candidate link
+    meetingUrl?: string;
+    organizer?: IcsAttendee;
+    attendees?: IcsAttendee[];
+  },
+): IcsEvent {
+  const meetingUrl = options.meetingUrl || session.meetingUrl;
+  const start = new Date(session.scheduledAt);
+  const candidateName = displayName(session.candidate);
+  const details = [
+    `${session.type} interview${session.job ? ` for ${session.job.title}` : ''}`,
+    candidateName && `Candidate: ${candidateName}`,
+    meetingUrl && `Join: ${meetingUrl}`,
+  ].filter(Boolean);
+
+  return {
+    uid: `interview-${session.id}@${options.uidDomain}`,
+    sequence: session.calendarSequence || 0,
+    start,
+    end: new Date(start.getTime() + (session.durationMinutes || 60) * MINUTE),
+    summary: `Interview${session.job ? `: ${session.job.title}` : ''}${candidateName ? ` - ${candidateName}` : ''}`,
+    description: details.join('\n'),
+    location: meetingUrl || session.mode,
+    url: meetingUrl,
+    status: session.status === InterviewStatus.CANCELLED ? 'CANCELLED' : 'CONFIRMED',
+    organizer: options.organizer,
+    attendees: options.attendees,
+    lastModified: session.updatedAt,
+    alarmMinutes: 15,
+  };
+}
+
+/**
+ * Calendar event for a live session lesson, timed by its `startsAt` metadata
+ */
+export function liveSessionEvent(
+  lesson: Lesson,
+  options: { uidDomain: string; courseTitle?: string },
+): IcsEvent | null {
+  const startsAt = lesson.getMetadata<string>('startsAt');
+  const start = startsAt ? new Date(startsAt) : null;
+  if (!start || isNaN(start.getTime())) return null;
+
+  const joinUrl = lesson.getMetadata<string>('joinUrl');
+  return {
+    uid: `live-session-${lesson.id}@${options.uidDomain}`,
+    sequence: lesson.version || 0,
+    start,
+    end: new Date(start.getTime() + (lesson.estimatedDurationMinutes || 60) * MINUTE),
+    summary: `Live session: ${lesson.title}`,
+    description: [options.courseTitle, lesson.description].filter(Boolean).join('\n') || undefined,
+    location: joinUrl,
+    url: joinUrl,
+    status: 'CONFIRMED',
+    lastModified: lesson.updatedAt,
+    alarmMinutes: 15,
+  };
+}
+
+/**
+ * Instant event at an assessment's closing time
+ */
+export function assessmentDeadlineEvent(
+  assessment: Assessment,
+  options: { uidDomain: string; courseTitle?: string },
+): IcsEvent | null {
+  if (!assessment.availableUntil) return null;
+
+  return {
+    uid: `assessment-deadline-${assessment.id}@${options.uidDomain}`,
+    start: new Date(assessment.availableUntil),
+    summary: `Deadline: ${assessment.title}`,
+    description: options.courseTitle,
+    status: 'CONFIRMED',
+    lastModified: assessment.updatedAt,
+    alarmMinutes: 24 * 60,
+  };
+}
@@ -0,0 +1,106 @@
+import { buildCalendar, escapeText, foldLine } from './ics';
+
+const now = new Date('2026-03-01T08:00:00Z');
+
+describe('buildCalendar', () => {
+  it('writes a CRLF-delimited request with attendees and an alarm', () => {
+    const ics = buildCalendar({
+      method: 'REQUEST',
+      now,
+      events: [
+        {
+          uid: 'interview-1@example.com',
+          sequence: 2,
+          start: new Date('2026-03-02T14:00:00Z'),
+          end: new Date('2026-03-02T15:00:00Z'),
+          summary: 'Interview: Engineer',
+          organizer: { email: 'hr@example.com', name: 'Hiring Team' },
+          attendees: [{ email: 'candidate@example.com', name: 'Ada Lovelace' }],
+          alarmMinutes: 15,
+        },
+      ],
+    });
+
+    const lines = ics.split('\r\n');
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('METHOD:REQUEST');
+    expect(lines).toContain('UID:interview-1@example.com');
+    expect(lines).toContain('SEQUENCE:2');
+    expect(lines).toContain('DTSTAMP:20260301T080000Z');
+    expect(lines).toContain('DTSTART:20260302T140000Z');
+    expect(lines).toContain('DTEND:20260302T150000Z');
+    expect(lines).toContain('ORGANIZER;CN="Hiring Team":mailto:hr@example.com');
+    expect(lines).toContain('TRIGGER:-PT15M');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('drops the alarm from cancellations and the end from instants', () => {
+    const ics = buildCalendar({
+      method: 'CANCEL',
+      now,
+      events: [
+        {
+          uid: 'assessment-deadline-1@example.com',
+          start: new Date('2026-03-02T14:00:00Z'),
+          end: new Date('2026-03-02T14:00:00Z'),
+          summary: 'Deadline',
+          status: 'CANCELLED',
+          alarmMinutes: 60,
+        },
+      ],
+    });
+
+    expect(ics).toContain('STATUS:CANCELLED');
+    expect(ics).not.toContain('DTEND');
+    expect(ics).not.toContain('VALARM');
+  });
+
+  it('keeps names and addresses from injecting properties', () => {
+    const ics = buildCalendar({
+      method: 'REQUEST',
+      now,
+      events: [
+        {
+          uid: 'interview-1@example.com',
+          start: new Date('2026-03-02T14:00:00Z'),
+          summary: 'Interview',
+          organizer: { email: 'hr@example.com', name: 'Hiring\r\nATTACH:https://evil.test/x' },
+          attendees: [
+            { email: 'candidate@example.com', name: 'Ada "Countess"\rLovelace' },
+            { email: 'x@example.com\r\nATTACH:https://evil.test/y', name: 'Mallory' },
+            { email: 'not-an-email', name: 'Nobody' },
+          ],
+        },
+      ],
+    });
+
+    const lines = ics.replace(/\r\n /g, '').split('\r\n');
+    expect(lines.some(line => line.startsWith('ATTACH'))).toBe(false);
+    expect(lines).toContain(
+      'ORGANIZER;CN="Hiring  ATTACH:https://evil.test/x":mailto:hr@example.com',
+    );
+    expect(lines.filter(line => line.startsWith('ATTENDEE'))).toEqual([
+      'ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE' +
+        `;CN="Ada 'Countess' Lovelace":mailto:candidate@example.com`,
+    ]);
+  });
+});
+
+describe('escapeText', () => {
+  it('escapes separators and newlines', () => {
+    expect(escapeText('a,b;c\\d\ne\rf')).toBe('a\\,b\\;c\\\\d\\ne\\nf');
+  });
+});
+
+describe('foldLine', () => {
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const folded = foldLine(`SUMMARY:${'é'.repeat(60)}`);
+    const parts = folded.split('\r\n');
+
+    expect(parts.length).toBeGreaterThan(1);
+    parts.forEach(part => expect(Buffer.byteLength(part)).toBeLessThanOrEqual(75));
+    expect(parts.map((part, index) => (index ? part.slice(1) : part)).join('')).toBe(
+      `SUMMARY:${'é'.repeat(60)}`,
+    );
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Minimal RFC 5545 (iCalendar) writer for interview invites and feeds
+ */
+
+export type IcsMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL';
+
+export interface IcsAttendee {
+  email: string;
+  name?: string;
+  role?: 'REQ-PARTICIPANT' | 'OPT-PARTICIPANT' | 'CHAIR';
+}
+
+export interface IcsEvent {
+  // Stable across updates so calendars replace rather than duplicate events
+  uid: string;
+  // Incremented on every change the attendees should see
+  sequence?: number;
+  start: Date;
+  // Omitted for instants such as deadlines
+  end?: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  organizer?: IcsAttendee;
+  attendees?: IcsAttendee[];
+  lastModified?: Date;
+  // Minutes before the start to show a reminder
+  alarmMinutes?: number;
+}
+
+const PRODUCT_ID = '-//Volkai HR Edu//Interviews//EN';
+
+export function buildCalendar(options: {
+  events: IcsEvent[];
+  method?: IcsMethod;
+  name?: string;
+  now?: Date;
+}): string {
+  const stamp = formatDateTime(options.now || new Date());
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODUCT_ID}`, 'CALSCALE:GREGORIAN'];
+  if (options.method) lines.push(`METHOD:${options.method}`);
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+
+  for (const event of options.events) {
+    lines.push(...eventLines(event, stamp));
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function eventLines(event: IcsEvent, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence || 0}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatDateTime(event.start)}`,
+  ];
+  if (event.end && event.end.getTime() !== event.start.getTime()) {
+    lines.push(`DTEND:${formatDateTime(event.end)}`);
+  }
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatDateTime(event.lastModified)}`);
+  if (event.organizer && isValidEmail(event.organizer.email))
+    lines.push(`ORGANIZER${nameParam(event.organizer)}:mailto:${event.organizer.email}`);
+
+  for (const attendee of event.attendees || []) {
+    if (!isValidEmail(attendee.email)) continue;
+    lines.push(
+      `ATTENDEE;ROLE=${attendee.role || 'REQ-PARTICIPANT'};PARTSTAT=NEEDS-ACTION;RSVP=TRUE` +
+        `${nameParam(attendee)}:mailto:${attendee.email}`,
+    );
+  }
+
+  if (event.alarmMinutes && event.status !== 'CANCELLED') {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(event.summary)}`,
+      `TRIGGER:-PT${event.alarmMinutes}M`,
+      'END:VALARM',
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * UTC date-time, e.g. 20260302T140000Z
+ */
+export function formatDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+// Quoted so names containing ':' or ';' stay inside the parameter. Parameter
+// values cannot be escaped, so line breaks and other control characters that
+// would start a new property are removed
+function nameParam(person: IcsAttendee): string {
+  const name = person.name
+    ?.replace(/[\x00-\x1f\x7f]/g, ' ')
+    .replace(/"/g, "'")
+    .trim();
+  return name ? `;CN="${name}"` : '';
+}
+
+// Addresses are written unquoted into mailto: values
+function isValidEmail(email: string | undefined): boolean {
+  return !!email && /^[^\s@:;,"<>()[\]\\]+@[^\s@:;,"<>()[\]\\]+\.[^\s@:;,"<>()[\]\\]+$/.test(email);
+}
+
+/**
+ * Fold lines longer than 75 octets, continuing with a single space.
+ * Multi-byte characters are never split
+ */
+export function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let limit = 75;
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+      // Continuation lines start with a space, which counts towards the limit
+      limit = 74;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
@@ -0,0 +1,123 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  UseGuards,
+  Request,
+  Res,
+  HttpStatus,
+  HttpCode,
+  HttpException,
+  StreamableFile,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { Response } from 'express';
+import { CalendarFeedService } from '../services/calendar-feed.service';
+import { CalendarFeedStatusDto, CalendarFeedUrlDto } from '../dto/calendar-feed.dto';
+import { JwtAuthGuard } from '@/common/guards/jwt-auth.guard';
+import { Public } from '../../auth/decorators/public.decorator';
+
+@ApiTags('Interview Calendar')
+@Controller('interviews/calendar')
+@UseGuards(JwtAuthGuard)
+export class CalendarFeedController {
+  constructor(private readonly calendarFeedService: CalendarFeedService) {}
+
+  @Get('feed')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Get the status of your calendar feed' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Calendar feed status retrieved successfully',
+    type: CalendarFeedStatusDto,
+  })
+  async getFeedStatus(@Request() req: any): Promise<CalendarFeedStatusDto> {
+    try {
+      return await this.calendarFeedService.getFeedStatus(req.user);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to get calendar feed',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post('feed')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Create or rotate your calendar feed URL' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'New feed URL issued; any previous URL stops working',
+    type: CalendarFeedUrlDto,
+  })
+  async rotateFeed(@Request() req: any): Promise<CalendarFeedUrlDto> {
+    try {
+      return await this.calendarFeedService.rotateFeed(req.user);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to create calendar feed',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Delete('feed')
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke your calendar feed URL' })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT, description: 'Calendar feed revoked' })
+  async revokeFeed(@Request() req: any): Promise<void> {
+    try {
+      await this.calendarFeedService.revokeFeed(req.user);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to revoke calendar feed',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('feed/:token')
+  @Public()
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({ summary: 'Subscribe to interviews, live sessions and assessment deadlines' })
+  @ApiParam({ name: 'token', description: 'Feed token, optionally ending in .ics' })
+  @ApiProduces('text/calendar')
+  @ApiResponse({ status: HttpStatus.OK, description: 'iCalendar feed' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Calendar feed not found' })
+  async getFeed(
+    @Param('token') token: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile> {
+    try {
+      const ics = Buffer.from(
+        await this.calendarFeedService.renderFeed(token.replace(/\.ics$/, '')),
+        'utf8',
+      );
+
+      res.set({
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="calendar.ics"',
+        'Content-Length': ics.length,
+        'Cache-Control': 'private, max-age=300',
+      });
+
+      return new StreamableFile(ics);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to get calendar feed',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
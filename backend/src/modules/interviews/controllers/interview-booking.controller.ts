@@ -0,0 +1,225 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  HttpStatus,
+  HttpCode,
+  ParseUUIDPipe,
+  ValidationPipe,
+  UsePipes,
+  HttpException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiBody,
+} from '@nestjs/swagger';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { UserRole } from '../../../database/entities/user.entity';
+import { InterviewSession } from '../../../database/entities/interview-session.entity';
+import { InterviewBookingLink } from '../../../database/entities/interview-booking-link.entity';
+import { InterviewBookingService } from '../services/interview-booking.service';
+import { WeeklySchedule } from '../scheduling/availability';
+import {
+  UpdateAvailabilityDto,
+  CreateBookingLinkDto,
+  ListBookingLinksDto,
+  BookSlotDto,
+  BookingPageDto,
+} from '../dto/interview-booking.dto';
+import { JwtAuthGuard } from '@/common/guards/jwt-auth.guard';
+import { RolesGuard } from '@/common/guards/roles.guard';
+import { Roles } from '@/common/decorators/roles.decorator';
+import { Public } from '../../auth/decorators/public.decorator';
+
+@ApiTags('Interview Booking')
+@Controller('interviews/booking')
+@UseGuards(JwtAuthGuard)
+export class InterviewBookingController {
+  constructor(private readonly bookingService: InterviewBookingService) {}
+
+  @Get('availability')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Get your published interview availability' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Availability retrieved successfully' })
+  async getAvailability(@Request() req: any): Promise<WeeklySchedule> {
+    try {
+      return await this.bookingService.getAvailability(req.user);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to get availability',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Put('availability')
+  @ApiBearerAuth('JWT-auth')
+  @UsePipes(new ValidationPipe({ transform: true }))
+  @ApiOperation({ summary: 'Publish weekly availability and blackout dates' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Availability updated successfully' })
+  @ApiBody({ type: UpdateAvailabilityDto })
+  async updateAvailability(
+    @Body() updateDto: UpdateAvailabilityDto,
+    @Request() req: any,
+  ): Promise<WeeklySchedule> {
+    try {
+      return await this.bookingService.updateAvailability(updateDto, req.user);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to update availability',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post('links')
+  @ApiBearerAuth('JWT-auth')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.HR, UserRole.MANAGER)
+  @UsePipes(new ValidationPipe({ transform: true }))
+  @ApiOperation({ summary: 'Send a candidate a link to book an interview slot' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Booking link created and emailed' })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid window or interviewers without availability',
+  })
+  @ApiBody({ type: CreateBookingLinkDto })
+  async createBookingLink(
+    @Body() createDto: CreateBookingLinkDto,
+    @Request() req: any,
+  ): Promise<{ link: InterviewBookingLink; bookingUrl: string }> {
+    try {
+      return await this.bookingService.createBookingLink(createDto, req.user);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to create booking link',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('links')
+  @ApiBearerAuth('JWT-auth')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.HR, UserRole.MANAGER)
+  @UsePipes(new ValidationPipe({ transform: true }))
+  @ApiOperation({ summary: 'List booking links in your organization' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Booking links retrieved successfully' })
+  async listBookingLinks(
+    @Query() query: ListBookingLinksDto,
+    @Request() req: any,
+  ): Promise<InterviewBookingLink[]> {
+    try {
+      return await this.bookingService.listBookingLinks(query, req.user);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to list booking links',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Delete('links/:id')
+  @ApiBearerAuth('JWT-auth')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.HR, UserRole.MANAGER)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Cancel a booking link' })
+  @ApiParam({ name: 'id', description: 'Booking link ID' })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT, description: 'Booking link cancelled' })
+  async cancelBookingLink(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: any,
+  ): Promise<void> {
+    try {
+      await this.bookingService.cancelBookingLink(id, req.user);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to cancel booking link',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('public/:token')
+  @Public()
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({ summary: 'Get the interview and free slots for a booking link' })
+  @ApiParam({ name: 'token', description: 'Booking token from the invitation' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Booking page retrieved successfully',
+    type: BookingPageDto,
+  })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Booking link not found' })
+  async getBookingPage(@Param('token') token: string): Promise<BookingPageDto> {
+    try {
+      return await this.bookingService.getBookingPage(token);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to get booking page',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post('public/:token')
+  @Public()
+  @UseGuards(ThrottlerGuard)
+  @UsePipes(new ValidationPipe({ transform: true }))
+  @ApiOperation({ summary: 'Book an interview slot' })
+  @ApiParam({ name: 'token', description: 'Booking token from the invitation' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Interview booked' })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Slot no longer available or link already used',
+  })
+  @ApiBody({ type: BookSlotDto })
+  async bookSlot(
+    @Param('token') token: string,
+    @Body() bookDto: BookSlotDto,
+  ): Promise<InterviewSession> {
+    try {
+      return await this.bookingService.bookSlot(token, bookDto);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to book interview',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post('public/:token/reschedule')
+  @Public()
+  @UseGuards(ThrottlerGuard)
+  @UsePipes(new ValidationPipe({ transform: true }))
+  @ApiOperation({ summary: 'Move a booked interview to another slot' })
+  @ApiParam({ name: 'token', description: 'Booking token from the invitation' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Interview rescheduled' })
+  @ApiResponse({ status: HttpStatus.FORBIDDEN, description: 'Reschedule deadline has passed' })
+  @ApiBody({ type: BookSlotDto })
+  async rescheduleBooking(
+    @Param('token') token: string,
+    @Body() bookDto: BookSlotDto,
+  ): Promise<InterviewSession> {
+    try {
+      return await this.bookingService.rescheduleBooking(token, bookDto);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to reschedule interview',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
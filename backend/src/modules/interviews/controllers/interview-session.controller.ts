@@ -38,6 +38,7 @@ import {
   InterviewSessionListResponseDto,
   InterviewCalendarEventDto,
   InterviewStatsDto,
+  InterviewJoinLinkDto,
 } from '../dto/interview-session.dto';
 import { JwtAuthGuard } from '@/common/guards/jwt-auth.guard';
 import { RolesGuard } from '@/common/guards/roles.guard';
@@ -317,6 +318,61 @@ export class InterviewSessionController {
     }
   }
 
+  @Get(':id/join')
+  @ApiOperation({ summary: 'Get your join link for the interview meeting' })
+  @ApiParam({ name: 'id', type: 'string', format: 'uuid' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Join link retrieved successfully',
+    type: InterviewJoinLinkDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Not a participant of this interview',
+  })
+  async getJoinLink(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: any,
+  ): Promise<InterviewJoinLinkDto> {
+    try {
+      return await this.interviewSessionService.getJoinLink(id, req.user);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to get join link',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post(':id/recording/sync')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.INSTRUCTOR, UserRole.CONTENT_CREATOR)
+  @ApiOperation({ summary: 'Pull the meeting recording into the interview' })
+  @ApiParam({ name: 'id', type: 'string', format: 'uuid' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Recording stored and linked to the interview',
+    type: InterviewSessionResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'The meeting provider has no recording yet',
+  })
+  async syncRecording(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: any,
+  ): Promise<InterviewSessionResponseDto> {
+    try {
+      const session = await this.interviewSessionService.syncRecording(id, req.user);
+      return new InterviewSessionResponseDto(session);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to sync recording',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   @Get('user/:userId/upcoming')
   @ApiOperation({ summary: 'Get upcoming interviews for user' })
   @ApiParam({ name: 'userId', type: 'string', format: 'uuid' })
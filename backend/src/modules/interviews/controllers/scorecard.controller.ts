@@ -0,0 +1,229 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  HttpStatus,
+  HttpCode,
+  ParseUUIDPipe,
+  ValidationPipe,
+  UsePipes,
+  HttpException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiBody,
+} from '@nestjs/swagger';
+import { UserRole } from '../../../database/entities/user.entity';
+import { ScorecardTemplate } from '../../../database/entities/scorecard-template.entity';
+import { InterviewScorecard } from '../../../database/entities/interview-scorecard.entity';
+import {
+  ScorecardService,
+  SessionScorecardsView,
+  ScorecardDebrief,
+} from '../services/scorecard.service';
+import {
+  CreateScorecardTemplateDto,
+  UpdateScorecardTemplateDto,
+  ListScorecardTemplatesDto,
+  SubmitScorecardDto,
+  DebriefQueryDto,
+} from '../dto/scorecard.dto';
+import { JwtAuthGuard } from '@/common/guards/jwt-auth.guard';
+import { RolesGuard } from '@/common/guards/roles.guard';
+import { Roles } from '@/common/decorators/roles.decorator';
+
+@ApiTags('Interview Scorecards')
+@Controller('interviews/scorecards')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+export class ScorecardController {
+  constructor(private readonly scorecardService: ScorecardService) {}
+
+  @Post('templates')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.HR, UserRole.MANAGER)
+  @UsePipes(new ValidationPipe({ transform: true }))
+  @ApiOperation({ summary: 'Create a scorecard template' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Template created successfully' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Invalid template' })
+  @ApiBody({ type: CreateScorecardTemplateDto })
+  async createTemplate(
+    @Body() createDto: CreateScorecardTemplateDto,
+    @Request() req: any,
+  ): Promise<ScorecardTemplate> {
+    try {
+      return await this.scorecardService.createTemplate(createDto, req.user);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to create scorecard template',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('templates')
+  @UsePipes(new ValidationPipe({ transform: true }))
+  @ApiOperation({ summary: 'List scorecard templates in your organization' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Templates retrieved successfully' })
+  async listTemplates(
+    @Query() query: ListScorecardTemplatesDto,
+    @Request() req: any,
+  ): Promise<ScorecardTemplate[]> {
+    try {
+      return await this.scorecardService.listTemplates(query, req.user);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to list scorecard templates',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('templates/:id')
+  @ApiOperation({ summary: 'Get a scorecard template' })
+  @ApiParam({ name: 'id', description: 'Template ID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Template retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Template not found' })
+  async getTemplate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: any,
+  ): Promise<ScorecardTemplate> {
+    try {
+      return await this.scorecardService.getTemplate(id, req.user);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to get scorecard template',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Put('templates/:id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.HR, UserRole.MANAGER)
+  @UsePipes(new ValidationPipe({ transform: true }))
+  @ApiOperation({ summary: 'Update a scorecard template' })
+  @ApiParam({ name: 'id', description: 'Template ID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Template updated successfully' })
+  @ApiBody({ type: UpdateScorecardTemplateDto })
+  async updateTemplate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateDto: UpdateScorecardTemplateDto,
+    @Request() req: any,
+  ): Promise<ScorecardTemplate> {
+    try {
+      return await this.scorecardService.updateTemplate(id, updateDto, req.user);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to update scorecard template',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Delete('templates/:id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.HR, UserRole.MANAGER)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a scorecard template' })
+  @ApiParam({ name: 'id', description: 'Template ID' })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT, description: 'Template deleted successfully' })
+  async deleteTemplate(@Param('id', ParseUUIDPipe) id: string, @Request() req: any): Promise<void> {
+    try {
+      await this.scorecardService.deleteTemplate(id, req.user);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to delete scorecard template',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('debrief')
+  @UsePipes(new ValidationPipe({ transform: true }))
+  @ApiOperation({ summary: "Aggregated scorecards for a candidate across a job's interviews" })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Debrief retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.FORBIDDEN, description: 'Submit your own scorecard first' })
+  async getDebrief(
+    @Query() query: DebriefQueryDto,
+    @Request() req: any,
+  ): Promise<ScorecardDebrief> {
+    try {
+      return await this.scorecardService.getDebrief(query, req.user);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to get debrief',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('sessions/:sessionId/template')
+  @ApiOperation({ summary: 'Get the scorecard template that applies to an interview' })
+  @ApiParam({ name: 'sessionId', description: 'Interview session ID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Template retrieved successfully' })
+  async getSessionTemplate(
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Request() req: any,
+  ): Promise<ScorecardTemplate | null> {
+    try {
+      return await this.scorecardService.resolveTemplateForSession(sessionId, req.user);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to get scorecard template',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post('sessions/:sessionId')
+  @UsePipes(new ValidationPipe({ transform: true }))
+  @ApiOperation({ summary: 'Submit your scorecard for an interview' })
+  @ApiParam({ name: 'sessionId', description: 'Interview session ID' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Scorecard submitted successfully' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Invalid or duplicate scorecard' })
+  @ApiBody({ type: SubmitScorecardDto })
+  async submitScorecard(
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Body() submitDto: SubmitScorecardDto,
+    @Request() req: any,
+  ): Promise<InterviewScorecard> {
+    try {
+      return await this.scorecardService.submitScorecard(sessionId, submitDto, req.user);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to submit scorecard',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('sessions/:sessionId')
+  @ApiOperation({ summary: 'Get scorecards for an interview (hidden until you submit yours)' })
+  @ApiParam({ name: 'sessionId', description: 'Interview session ID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Scorecards retrieved successfully' })
+  async getSessionScorecards(
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Request() req: any,
+  ): Promise<SessionScorecardsView> {
+    try {
+      return await this.scorecardService.getSessionScorecards(sessionId, req.user);
+    } catch (error) {
+      throw new HttpException(
+        error.message || 'Failed to get scorecards',
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -8,6 +8,7 @@ import {
   IsNumber,
   IsObject,
   IsUrl,
+  ValidateIf,
   Min,
   Max,
 } from 'class-validator';
@@ -19,6 +20,7 @@ import {
 } from '../../../database/entities/ai-mock-interview.entity';
 import { InterviewDifficulty } from '../../../database/entities/interview-question-bank.entity';
 import { QuestionType } from '../../../database/entities/interview-question.entity';
+import { InterviewType } from '../../../database/entities/interview-session.entity';
 
 export class CreateAiMockInterviewDto {
   @ApiPropertyOptional({ description: 'User ID (admin only)' })
@@ -40,6 +42,14 @@ export class CreateAiMockInterviewDto {
   @IsString()
   companyName?: string;
 
+  @ApiPropertyOptional({
+    enum: InterviewType,
+    description: 'Interview type, selects the AI prompt templates',
+  })
+  @IsOptional()
+  @IsEnum(InterviewType)
+  interviewType?: InterviewType;
+
   @ApiPropertyOptional({ enum: InterviewDifficulty, description: 'Interview difficulty level' })
   @IsOptional()
   @IsEnum(InterviewDifficulty)
@@ -134,11 +144,21 @@ export class SubmitAiResponseDto {
   @IsString()
   questionText: string;
 
-  @ApiProperty({ description: 'User response text' })
+  @ApiPropertyOptional({
+    description: 'User response text, optional when an audio file is provided',
+  })
+  @ValidateIf(o => !o.audioFileId)
   @IsString()
-  response: string;
+  response?: string;
+
+  @ApiPropertyOptional({
+    description: 'ID of the uploaded audio answer, analyzed and transcribed offline',
+  })
+  @IsOptional()
+  @IsUUID()
+  audioFileId?: string;
 
-  @ApiPropertyOptional({ description: 'Audio recording URL' })
+  @ApiPropertyOptional({ description: 'Audio recording URL for playback' })
   @IsOptional()
   @IsUrl()
   audioUrl?: string;
@@ -181,6 +201,9 @@ export class AiMockInterviewResponseDto {
   @ApiPropertyOptional({ description: 'Company name' })
   companyName?: string;
 
+  @ApiProperty({ enum: InterviewType, description: 'Interview type' })
+  interviewType: InterviewType;
+
   @ApiProperty({ enum: InterviewDifficulty, description: 'Interview difficulty' })
   difficulty: InterviewDifficulty;
 
@@ -264,6 +287,17 @@ export class AiMockInterviewResponseDto {
     };
   };
 
+  @ApiPropertyOptional({ description: 'AI token usage and cost' })
+  aiUsage?: {
+    provider?: string;
+    model?: string;
+    calls?: number;
+    promptTokens?: number;
+    completionTokens?: number;
+    totalTokens?: number;
+    costUsd?: number;
+  };
+
   @ApiProperty({ description: 'Follow-up recommendations' })
   followUpRecommendations: {
     courses?: Array<{
@@ -309,6 +343,7 @@ export class AiMockInterviewResponseDto {
     this.jobRole = interview.jobRole;
     this.jobDescription = interview.jobDescription;
     this.companyName = interview.companyName;
+    this.interviewType = interview.interviewType;
     this.difficulty = interview.difficulty;
     this.durationMinutes = interview.durationMinutes;
     this.format = interview.format;
@@ -324,6 +359,7 @@ export class AiMockInterviewResponseDto {
     this.skillScores = interview.skillScores;
     this.aiFeedback = interview.aiFeedback;
     this.analytics = interview.analytics;
+    this.aiUsage = interview.aiUsage;
     this.followUpRecommendations = interview.followUpRecommendations;
     this.createdAt = interview.createdAt;
     this.updatedAt = interview.updatedAt;
@@ -0,0 +1,23 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CalendarFeedStatusDto {
+  @ApiProperty({ description: 'Whether a calendar feed URL is active' })
+  active: boolean;
+
+  @ApiPropertyOptional({ description: 'When the current feed URL was issued' })
+  issuedAt?: Date;
+
+  @ApiPropertyOptional({ description: 'When a calendar app last fetched the feed' })
+  lastAccessedAt?: Date;
+}
+
+export class CalendarFeedUrlDto {
+  @ApiProperty({
+    description: 'Secret subscription URL; shown once, rotate to get a new one',
+    example: 'https://api.example.com/api/v1/interviews/calendar/feed/abc123.ics',
+  })
+  feedUrl: string;
+
+  @ApiProperty({ description: 'When the feed URL was issued' })
+  issuedAt: Date;
+}
@@ -0,0 +1,238 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsArray,
+  IsInt,
+  IsUUID,
+  IsDateString,
+  ValidateNested,
+  ArrayMinSize,
+  ArrayMaxSize,
+  Matches,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { InterviewType, InterviewMode } from '../../../database/entities/interview-session.entity';
+import { BookingLinkStatus } from '../../../database/entities/interview-booking-link.entity';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class DayHoursDto {
+  @ApiProperty({ description: 'Start time (HH:mm)', example: '09:00' })
+  @Matches(TIME_PATTERN, { message: 'start must be HH:mm' })
+  start: string;
+
+  @ApiProperty({ description: 'End time (HH:mm)', example: '17:00' })
+  @Matches(TIME_PATTERN, { message: 'end must be HH:mm' })
+  end: string;
+}
+
+export class WorkingHoursDto {
+  @ApiPropertyOptional({ type: DayHoursDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DayHoursDto)
+  monday?: DayHoursDto;
+
+  @ApiPropertyOptional({ type: DayHoursDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DayHoursDto)
+  tuesday?: DayHoursDto;
+
+  @ApiPropertyOptional({ type: DayHoursDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DayHoursDto)
+  wednesday?: DayHoursDto;
+
+  @ApiPropertyOptional({ type: DayHoursDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DayHoursDto)
+  thursday?: DayHoursDto;
+
+  @ApiPropertyOptional({ type: DayHoursDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DayHoursDto)
+  friday?: DayHoursDto;
+
+  @ApiPropertyOptional({ type: DayHoursDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DayHoursDto)
+  saturday?: DayHoursDto;
+
+  @ApiPropertyOptional({ type: DayHoursDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DayHoursDto)
+  sunday?: DayHoursDto;
+}
+
+export class BlackoutDateDto {
+  @ApiProperty({ description: 'First blocked day (YYYY-MM-DD)', example: '2026-12-24' })
+  @Matches(DATE_PATTERN, { message: 'start must be YYYY-MM-DD' })
+  start: string;
+
+  @ApiProperty({ description: 'Last blocked day, inclusive (YYYY-MM-DD)', example: '2026-12-26' })
+  @Matches(DATE_PATTERN, { message: 'end must be YYYY-MM-DD' })
+  end: string;
+
+  @ApiPropertyOptional({ description: 'Reason' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  reason?: string;
+}
+
+export class UpdateAvailabilityDto {
+  @ApiPropertyOptional({
+    description: 'IANA timezone of the working hours',
+    example: 'Europe/Berlin',
+  })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @ApiPropertyOptional({ description: 'Weekly working hours', type: WorkingHoursDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => WorkingHoursDto)
+  workingHours?: WorkingHoursDto;
+
+  @ApiPropertyOptional({ description: 'Days without interviews', type: [BlackoutDateDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => BlackoutDateDto)
+  blackoutDates?: BlackoutDateDto[];
+}
+
+export class CreateBookingLinkDto {
+  @ApiProperty({ description: 'Candidate user ID' })
+  @IsUUID()
+  candidateId: string;
+
+  @ApiPropertyOptional({ description: 'Job ID' })
+  @IsOptional()
+  @IsUUID()
+  jobId?: string;
+
+  @ApiProperty({ description: 'Panel interviewers; the first one leads the interview' })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @IsUUID(4, { each: true })
+  interviewerIds: string[];
+
+  @ApiProperty({ enum: InterviewType, description: 'Interview type' })
+  @IsEnum(InterviewType)
+  type: InterviewType;
+
+  @ApiProperty({ enum: InterviewMode, description: 'Interview mode' })
+  @IsEnum(InterviewMode)
+  mode: InterviewMode;
+
+  @ApiPropertyOptional({ description: 'Interview duration in minutes', default: 60 })
+  @IsOptional()
+  @IsInt()
+  @Min(15)
+  @Max(480)
+  durationMinutes?: number;
+
+  @ApiProperty({ description: 'Earliest slot offered' })
+  @IsDateString()
+  windowStart: string;
+
+  @ApiProperty({ description: 'Latest slot end offered' })
+  @IsDateString()
+  windowEnd: string;
+
+  @ApiPropertyOptional({ description: 'Minimum notice before a slot in hours', default: 24 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(336)
+  minNoticeHours?: number;
+
+  @ApiPropertyOptional({
+    description: 'Hours before the interview after which it cannot be rescheduled',
+    default: 24,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(168)
+  rescheduleDeadlineHours?: number;
+
+  @ApiPropertyOptional({ description: 'Link expiry; defaults to the end of the window' })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+
+  @ApiPropertyOptional({ description: 'Personal message included in the invitation email' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  message?: string;
+}
+
+export class ListBookingLinksDto {
+  @ApiPropertyOptional({ enum: BookingLinkStatus, description: 'Filter by status' })
+  @IsOptional()
+  @IsEnum(BookingLinkStatus)
+  status?: BookingLinkStatus;
+
+  @ApiPropertyOptional({ description: 'Filter by candidate' })
+  @IsOptional()
+  @IsUUID()
+  candidateId?: string;
+}
+
+export class BookSlotDto {
+  @ApiProperty({ description: 'Chosen slot start, one of the offered slots' })
+  @IsDateString()
+  scheduledAt: string;
+
+  @ApiPropertyOptional({
+    description: 'Candidate IANA timezone for confirmations',
+    example: 'Asia/Kolkata',
+  })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+}
+
+export class BookingPageDto {
+  @ApiProperty({ description: 'Link status' })
+  status: BookingLinkStatus;
+
+  @ApiProperty({ description: 'Job title' })
+  jobTitle?: string;
+
+  @ApiProperty({ description: 'Interview type' })
+  type: InterviewType;
+
+  @ApiProperty({ description: 'Interview mode' })
+  mode: InterviewMode;
+
+  @ApiProperty({ description: 'Interview duration in minutes' })
+  durationMinutes: number;
+
+  @ApiProperty({ description: 'Booked slot, if any' })
+  scheduledAt?: Date;
+
+  @ApiProperty({ description: 'Whether the booked slot can still be moved' })
+  canReschedule: boolean;
+
+  @ApiProperty({ description: 'Free slot start times', type: [Date] })
+  slots: Date[];
+}
@@ -31,6 +31,12 @@ export class CreateInterviewSessionDto {
   @IsUUID()
   interviewerId?: string;
 
+  @ApiPropertyOptional({ description: 'Additional panel interviewer user IDs', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsUUID(undefined, { each: true })
+  panelInterviewerIds?: string[];
+
   @ApiPropertyOptional({ description: 'Job ID this interview is for' })
   @IsOptional()
   @IsUUID()
@@ -257,6 +263,9 @@ export class InterviewSessionResponseDto {
   @ApiProperty({ description: 'Interviewer user ID' })
   interviewerId?: string;
 
+  @ApiProperty({ description: 'Additional panel interviewer user IDs' })
+  panelInterviewerIds: string[];
+
   @ApiProperty({ description: 'Job ID' })
   jobId?: string;
 
@@ -375,6 +384,7 @@ export class InterviewSessionResponseDto {
     this.organizationId = session.organizationId;
     this.candidateId = session.candidateId;
     this.interviewerId = session.interviewerId;
+    this.panelInterviewerIds = session.panelInterviewerIds || [];
     this.jobId = session.jobId;
     this.type = session.type;
     this.mode = session.mode;
@@ -560,3 +570,14 @@ export class InterviewStatsDto {
     this.monthlyTrends = data.monthlyTrends;
   }
 }
+
+export class InterviewJoinLinkDto {
+  @ApiProperty({ description: 'Interview session ID' })
+  interviewId: string;
+
+  @ApiProperty({ description: 'Meeting provider, e.g. jitsi or integration' })
+  provider?: string;
+
+  @ApiProperty({ description: 'Join link for the requesting participant' })
+  meetingUrl?: string;
+}
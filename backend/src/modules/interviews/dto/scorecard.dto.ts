@@ -0,0 +1,224 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNumber,
+  IsUUID,
+  IsObject,
+  ValidateNested,
+  ArrayMinSize,
+  ArrayMaxSize,
+  Matches,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { ScorecardRecommendation } from '../../../database/entities/interview-scorecard.entity';
+
+const KEY_PATTERN = /^[a-z0-9_]{1,64}$/;
+const KEY_MESSAGE = 'key may only contain lowercase letters, digits and underscores';
+
+export class ScorecardCompetencyDto {
+  @ApiProperty({ description: 'Stable competency key', example: 'system_design' })
+  @IsString()
+  @Matches(KEY_PATTERN, { message: KEY_MESSAGE })
+  key: string;
+
+  @ApiProperty({ description: 'Display name', example: 'System design' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'What interviewers should assess' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ description: 'Relative weight in the overall score', example: 2 })
+  @IsNumber()
+  @Min(0.1)
+  @Max(100)
+  weight: number;
+}
+
+export class ScorecardQuestionDto {
+  @ApiProperty({ description: 'Stable question key', example: 'concerns' })
+  @IsString()
+  @Matches(KEY_PATTERN, { message: KEY_MESSAGE })
+  key: string;
+
+  @ApiProperty({ description: 'Question shown to interviewers' })
+  @IsString()
+  @MaxLength(500)
+  prompt: string;
+
+  @ApiProperty({ description: 'Whether an answer is required to submit' })
+  @IsBoolean()
+  required: boolean;
+}
+
+export class ScorecardRatingScaleDto {
+  @ApiProperty({ description: 'Lowest rating', example: 1 })
+  @IsInt()
+  @Min(0)
+  min: number;
+
+  @ApiProperty({ description: 'Highest rating', example: 4 })
+  @IsInt()
+  @Max(10)
+  max: number;
+
+  @ApiPropertyOptional({
+    description: 'Label per rating value',
+    example: { '1': 'Strong no', '4': 'Strong yes' },
+  })
+  @IsOptional()
+  @IsObject()
+  labels?: Record<string, string>;
+}
+
+export class CreateScorecardTemplateDto {
+  @ApiProperty({ description: 'Template name' })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Template description' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Job the template applies to' })
+  @IsOptional()
+  @IsUUID()
+  jobId?: string;
+
+  @ApiPropertyOptional({ description: 'Hiring pipeline stage key the template applies to' })
+  @IsOptional()
+  @IsString()
+  @Matches(KEY_PATTERN, { message: KEY_MESSAGE })
+  stageKey?: string;
+
+  @ApiPropertyOptional({
+    description: 'Rating scale (defaults to 1-5)',
+    type: ScorecardRatingScaleDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ScorecardRatingScaleDto)
+  ratingScale?: ScorecardRatingScaleDto;
+
+  @ApiProperty({ description: 'Weighted competencies', type: [ScorecardCompetencyDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => ScorecardCompetencyDto)
+  competencies: ScorecardCompetencyDto[];
+
+  @ApiPropertyOptional({ description: 'Questions', type: [ScorecardQuestionDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => ScorecardQuestionDto)
+  questions?: ScorecardQuestionDto[];
+}
+
+export class UpdateScorecardTemplateDto extends PartialType(CreateScorecardTemplateDto) {
+  @ApiPropertyOptional({
+    description: 'Inactive templates are no longer picked for new scorecards',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class ListScorecardTemplatesDto {
+  @ApiPropertyOptional({ description: 'Filter by job' })
+  @IsOptional()
+  @IsUUID()
+  jobId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by stage key' })
+  @IsOptional()
+  @IsString()
+  stageKey?: string;
+}
+
+export class CompetencyRatingDto {
+  @ApiProperty({ description: 'Competency key from the template' })
+  @IsString()
+  competencyKey: string;
+
+  @ApiProperty({ description: 'Rating on the template scale' })
+  @IsInt()
+  rating: number;
+
+  @ApiPropertyOptional({ description: 'Evidence for the rating' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  notes?: string;
+}
+
+export class QuestionAnswerDto {
+  @ApiProperty({ description: 'Question key from the template' })
+  @IsString()
+  questionKey: string;
+
+  @ApiProperty({ description: 'Answer' })
+  @IsString()
+  @MaxLength(5000)
+  answer: string;
+}
+
+export class SubmitScorecardDto {
+  @ApiPropertyOptional({
+    description: 'Template to use; defaults to the best match for the job and stage',
+  })
+  @IsOptional()
+  @IsUUID()
+  templateId?: string;
+
+  @ApiProperty({ description: 'One rating per competency', type: [CompetencyRatingDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CompetencyRatingDto)
+  ratings: CompetencyRatingDto[];
+
+  @ApiPropertyOptional({
+    description: 'Answers to the template questions',
+    type: [QuestionAnswerDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => QuestionAnswerDto)
+  answers?: QuestionAnswerDto[];
+
+  @ApiProperty({ enum: ScorecardRecommendation, description: 'Hiring recommendation' })
+  @IsEnum(ScorecardRecommendation)
+  recommendation: ScorecardRecommendation;
+
+  @ApiPropertyOptional({ description: 'Overall notes' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(10000)
+  notes?: string;
+}
+
+export class DebriefQueryDto {
+  @ApiProperty({ description: 'Job ID' })
+  @IsUUID()
+  jobId: string;
+
+  @ApiProperty({ description: 'Candidate user ID' })
+  @IsUUID()
+  candidateId: string;
+}
@@ -0,0 +1,279 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { JwtService } from '@nestjs/jwt';
+import { InterviewType } from '../../../database/entities/interview-session.entity';
+import {
+  AiMockInterview,
+  AiInterviewStatus,
+} from '../../../database/entities/ai-mock-interview.entity';
+import { User } from '../../../database/entities/user.entity';
+import { AiMockInterviewGateway } from './ai-mock-interview.gateway';
+import { AiMockInterviewService, CurrentAiQuestion } from '../services/ai-mock-interview.service';
+
+describe('AiMockInterviewGateway', () => {
+  let gateway: AiMockInterviewGateway;
+
+  const roomEmit = jest.fn();
+
+  const mockAiMockInterviewService = {
+    getAiMockInterviewById: jest.fn(),
+    getCurrentQuestion: jest.fn(),
+    startAiInterview: jest.fn(),
+    analyzeAudioAnswer: jest.fn(),
+    submitAiResponse: jest.fn(),
+  };
+
+  const user = Object.assign(new User(), { id: 'user-1' });
+
+  const interview = Object.assign(new AiMockInterview(), {
+    id: 'interview-1',
+    userId: 'user-1',
+    status: AiInterviewStatus.IN_PROGRESS,
+    interviewType: InterviewType.TECHNICAL,
+    config: { enableHints: false },
+    transcript: { conversations: [{ speaker: 'ai', text: 'Tell me about yourself' }] },
+  });
+
+  const buildQuestion = (questionNumber: number): CurrentAiQuestion => ({
+    text: `Question ${questionNumber}`,
+    questionNumber,
+    totalQuestions: 3,
+    isFollowUp: false,
+    askedAt: new Date(),
+    timeLimitSeconds: 120,
+  });
+
+  const buildClient = (id: string) => ({
+    id,
+    user,
+    userId: user.id,
+    join: jest.fn(),
+    leave: jest.fn(),
+    emit: jest.fn(),
+    disconnect: jest.fn(),
+  });
+
+  const emitted = (client: ReturnType<typeof buildClient>, event: string) =>
+    client.emit.mock.calls.filter(([name]) => name === event).map(([, payload]) => payload);
+
+  const roomEvents = (event: string) =>
+    roomEmit.mock.calls.filter(([name]) => name === event).map(([, payload]) => payload);
+
+  const join = async (client: ReturnType<typeof buildClient>) => {
+    await gateway.handleJoinInterview(client as any, { interviewId: interview.id });
+    const states = emitted(client, 'interview_state');
+    return states[states.length - 1];
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    jest.useFakeTimers();
+
+    mockAiMockInterviewService.getAiMockInterviewById.mockResolvedValue(interview);
+    mockAiMockInterviewService.getCurrentQuestion.mockReturnValue(buildQuestion(1));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AiMockInterviewGateway,
+        { provide: JwtService, useValue: { verify: jest.fn() } },
+        { provide: getRepositoryToken(User), useValue: { findOne: jest.fn() } },
+        { provide: AiMockInterviewService, useValue: mockAiMockInterviewService },
+      ],
+    }).compile();
+
+    gateway = module.get<AiMockInterviewGateway>(AiMockInterviewGateway);
+    gateway.server = { to: jest.fn(() => ({ emit: roomEmit })) } as any;
+  });
+
+  afterEach(() => {
+    gateway.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  describe('join_interview', () => {
+    it('sends the interview state with the current question', async () => {
+      const client = buildClient('socket-1');
+
+      const state = await join(client);
+
+      expect(client.join).toHaveBeenCalledWith('ai-interview:interview-1');
+      expect(state).toEqual(
+        expect.objectContaining({
+          interviewId: 'interview-1',
+          currentQuestion: expect.objectContaining({ questionNumber: 1 }),
+          partialAnswer: '',
+          lastSequence: -1,
+          resumed: false,
+        }),
+      );
+      expect(roomEvents('question_timer')).toHaveLength(1);
+    });
+
+    it('resumes the buffered answer after a reconnect', async () => {
+      const first = buildClient('socket-1');
+      await join(first);
+      gateway.handleAnswerChunk(first as any, {
+        interviewId: interview.id,
+        sequence: 0,
+        text: 'I build ',
+      });
+      gateway.handleDisconnect(first as any);
+
+      const second = buildClient('socket-2');
+      const state = await join(second);
+
+      expect(state).toEqual(
+        expect.objectContaining({ partialAnswer: 'I build ', lastSequence: 0, resumed: true }),
+      );
+    });
+
+    it('drops the buffered answer of an interview left idle too long', async () => {
+      const first = buildClient('socket-1');
+      await join(first);
+      gateway.handleAnswerChunk(first as any, { interviewId: interview.id, text: 'I build ' });
+      gateway.handleDisconnect(first as any);
+
+      jest.advanceTimersByTime(15 * 60 * 1000);
+
+      const state = await join(buildClient('socket-2'));
+      expect(state).toEqual(expect.objectContaining({ partialAnswer: '', resumed: false }));
+    });
+
+    it('rejects interviews that are no longer running', async () => {
+      mockAiMockInterviewService.getAiMockInterviewById.mockResolvedValue({
+        ...interview,
+        status: AiInterviewStatus.COMPLETED,
+      });
+      const client = buildClient('socket-1');
+
+      await join(client);
+
+      expect(client.join).not.toHaveBeenCalled();
+      expect(emitted(client, 'interview_error')).toEqual([
+        expect.objectContaining({ message: 'Interview is completed' }),
+      ]);
+    });
+  });
+
+  describe('answer_chunk', () => {
+    it('ignores chunks at or below the last sequence received', async () => {
+      const client = buildClient('socket-1');
+      await join(client);
+
+      for (const [sequence, text] of [
+        [0, 'I '],
+        [1, 'build '],
+        [1, 'build '],
+        [0, 'I '],
+        [2, 'APIs'],
+      ] as const) {
+        gateway.handleAnswerChunk(client as any, { interviewId: interview.id, sequence, text });
+      }
+
+      const state = await join(client);
+      expect(state).toEqual(
+        expect.objectContaining({ partialAnswer: 'I build APIs', lastSequence: 2 }),
+      );
+    });
+
+    it('rejects audio beyond the size limit', async () => {
+      const client = buildClient('socket-1');
+      await join(client);
+
+      gateway.handleAnswerChunk(client as any, {
+        interviewId: interview.id,
+        audio: Buffer.alloc(1024),
+      });
+      gateway.handleAnswerChunk(client as any, {
+        interviewId: interview.id,
+        audio: Buffer.alloc(25 * 1024 * 1024),
+      });
+
+      expect(emitted(client, 'interview_error')).toEqual([
+        expect.objectContaining({ message: 'Audio answer is too large' }),
+      ]);
+      const state = await join(client);
+      expect(state.bufferedAudioBytes).toBe(1024);
+    });
+
+    it('rejects answer text beyond the size limit', async () => {
+      const client = buildClient('socket-1');
+      await join(client);
+
+      gateway.handleAnswerChunk(client as any, {
+        interviewId: interview.id,
+        text: 'x'.repeat(64 * 1024 + 1),
+      });
+
+      expect(emitted(client, 'interview_error')).toEqual([
+        expect.objectContaining({ message: 'Answer text is too long' }),
+      ]);
+    });
+
+    it('requires joining the interview first', () => {
+      const client = buildClient('socket-1');
+
+      gateway.handleAnswerChunk(client as any, { interviewId: interview.id, text: 'Hello' });
+
+      expect(emitted(client, 'interview_error')).toEqual([
+        expect.objectContaining({ message: 'Join the interview first' }),
+      ]);
+    });
+  });
+
+  describe('answer_complete', () => {
+    it('evaluates the answer and sends the next question', async () => {
+      const client = buildClient('socket-1');
+      await join(client);
+      gateway.handleAnswerChunk(client as any, { interviewId: interview.id, text: 'I build APIs' });
+
+      mockAiMockInterviewService.getCurrentQuestion
+        .mockReturnValueOnce(buildQuestion(1))
+        .mockReturnValueOnce(buildQuestion(2));
+      mockAiMockInterviewService.submitAiResponse.mockResolvedValue({
+        score: 80,
+        feedback: 'Clear answer',
+        strengths: ['Structure'],
+        suggestions: [],
+        nextQuestion: 'Question 2',
+      });
+
+      await gateway.handleAnswerComplete(client as any, {
+        interviewId: interview.id,
+        skillCategory: 'apis',
+      });
+
+      expect(mockAiMockInterviewService.submitAiResponse).toHaveBeenCalledWith(
+        'interview-1',
+        expect.objectContaining({
+          questionText: 'Question 1',
+          response: 'I build APIs',
+          skillCategory: 'apis',
+        }),
+        user,
+        undefined,
+      );
+      expect(roomEvents('answer_evaluated')).toEqual([
+        expect.objectContaining({ interviewId: 'interview-1', score: 80 }),
+      ]);
+      expect(roomEvents('question')).toEqual([
+        expect.objectContaining({ interviewId: 'interview-1', questionNumber: 2 }),
+      ]);
+
+      const state = await join(client);
+      expect(state).toEqual(expect.objectContaining({ partialAnswer: '', lastSequence: -1 }));
+    });
+
+    it('rejects an empty answer without submitting it', async () => {
+      const client = buildClient('socket-1');
+      await join(client);
+
+      await gateway.handleAnswerComplete(client as any, { interviewId: interview.id });
+
+      expect(mockAiMockInterviewService.submitAiResponse).not.toHaveBeenCalled();
+      expect(emitted(client, 'interview_error')).toEqual([
+        expect.objectContaining({ message: 'The answer is empty' }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,556 @@
+import {
+  WebSocketGateway,
+  WebSocketServer,
+  SubscribeMessage,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  MessageBody,
+  ConnectedSocket,
+} from '@nestjs/websockets';
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { Server, Socket } from 'socket.io';
+import { JwtService } from '@nestjs/jwt';
+import { OnEvent } from '@nestjs/event-emitter';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { User } from '../../../database/entities/user.entity';
+import {
+  AiMockInterview,
+  AiInterviewStatus,
+} from '../../../database/entities/ai-mock-interview.entity';
+import { InterviewType } from '../../../database/entities/interview-session.entity';
+import { AiMockInterviewService, CurrentAiQuestion } from '../services/ai-mock-interview.service';
+import { buildLiveHint } from '../ai/interview-live-hints';
+
+interface AuthenticatedSocket extends Socket {
+  userId?: string;
+  user?: User;
+}
+
+interface LiveInterviewSession {
+  interviewId: string;
+  userId: string;
+  interviewType: InterviewType;
+  hintsEnabled: boolean;
+  socketIds: Set<string>;
+  currentQuestion?: CurrentAiQuestion;
+  answerChunks: string[];
+  answerBytes: number;
+  audioChunks: Buffer[];
+  audioBytes: number;
+  audioMimeType?: string;
+  lastSequence: number;
+  lastHintCode?: string;
+  lastHintAt?: number;
+  timer?: NodeJS.Timeout;
+  evictionTimer?: NodeJS.Timeout;
+  processing: boolean;
+}
+
+const TIMER_TICK_MS = 5000;
+const HINT_INTERVAL_MS = 15000;
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+const MAX_ANSWER_TEXT_BYTES = 64 * 1024;
+// How long the buffered answer of an interview nobody is connected to is kept
+const IDLE_SESSION_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Streams AI mock interviews over Socket.IO. Candidates stream answer text or
+ * audio chunks and receive live hints, question timers and the next question
+ * as soon as an answer is evaluated
+ */
+@WebSocketGateway({
+  cors: {
+    origin: process.env.FRONTEND_URL || 'http://localhost:3000',
+    credentials: true,
+  },
+  namespace: '/ai-mock-interviews',
+})
+export class AiMockInterviewGateway
+  implements OnGatewayConnection, OnGatewayDisconnect, OnModuleDestroy
+{
+  @WebSocketServer()
+  server: Server;
+
+  private readonly logger = new Logger(AiMockInterviewGateway.name);
+  private readonly sessions = new Map<string, LiveInterviewSession>();
+
+  constructor(
+    private jwtService: JwtService,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    private aiMockInterviewService: AiMockInterviewService,
+  ) {}
+
+  async handleConnection(client: AuthenticatedSocket) {
+    try {
+      const token = this.extractTokenFromSocket(client);
+      if (!token) {
+        client.disconnect();
+        return;
+      }
+
+      const payload = this.jwtService.verify(token);
+      const user = await this.userRepository.findOne({
+        where: { id: payload.sub },
+      });
+
+      if (!user) {
+        client.disconnect();
+        return;
+      }
+
+      client.userId = user.id;
+      client.user = user;
+    } catch (error) {
+      this.logger.error('Connection authentication failed', error);
+      client.disconnect();
+    }
+  }
+
+  handleDisconnect(client: AuthenticatedSocket) {
+    for (const session of this.sessions.values()) {
+      if (session.socketIds.delete(client.id) && session.socketIds.size === 0) {
+        // Keep the buffered answer for a while so a reconnecting client can resume it
+        this.suspendSession(session);
+      }
+    }
+  }
+
+  @OnEvent('ai.interview.completed')
+  handleInterviewCompleted(data: { interview: AiMockInterview }) {
+    this.closeSession(data.interview.id);
+  }
+
+  @OnEvent('ai.interview.cancelled')
+  handleInterviewCancelled(data: { interview: AiMockInterview; reason: string }) {
+    this.server.to(this.room(data.interview.id)).emit('interview_cancelled', {
+      interviewId: data.interview.id,
+      reason: data.reason,
+      timestamp: new Date(),
+    });
+    this.closeSession(data.interview.id);
+  }
+
+  /**
+   * Join or rejoin an interview. The current question, the transcript so far
+   * and any buffered partial answer are sent back so the client can resume
+   */
+  @SubscribeMessage('join_interview')
+  async handleJoinInterview(
+    @ConnectedSocket() client: AuthenticatedSocket,
+    @MessageBody() data: { interviewId: string },
+  ) {
+    if (!client.user) return;
+
+    try {
+      const interview = await this.aiMockInterviewService.getAiMockInterviewById(
+        data.interviewId,
+        client.user,
+      );
+
+      if (
+        interview.status !== AiInterviewStatus.PENDING &&
+        interview.status !== AiInterviewStatus.IN_PROGRESS
+      ) {
+        throw new Error(`Interview is ${interview.status}`);
+      }
+
+      const session = this.getOrCreateSession(interview);
+      session.socketIds.add(client.id);
+      this.cancelEviction(session);
+      client.join(this.room(interview.id));
+
+      this.sendInterviewState(client, interview, session);
+      this.startTimer(session, this.aiMockInterviewService.getCurrentQuestion(interview));
+    } catch (error) {
+      this.emitError(client, data?.interviewId, error);
+    }
+  }
+
+  @SubscribeMessage('start_interview')
+  async handleStartInterview(
+    @ConnectedSocket() client: AuthenticatedSocket,
+    @MessageBody() data: { interviewId: string; networkQuality?: string; location?: string },
+  ) {
+    const session = this.getJoinedSession(client, data?.interviewId);
+    if (!session) return;
+
+    try {
+      const interview = await this.aiMockInterviewService.startAiInterview(
+        data.interviewId,
+        { networkQuality: data.networkQuality, location: data.location },
+        client.user,
+      );
+      const currentQuestion = this.aiMockInterviewService.getCurrentQuestion(interview);
+
+      if (currentQuestion) {
+        this.server.to(this.room(interview.id)).emit('question', {
+          interviewId: interview.id,
+          ...currentQuestion,
+        });
+      }
+      this.startTimer(session, currentQuestion);
+    } catch (error) {
+      this.emitError(client, data.interviewId, error);
+    }
+  }
+
+  /**
+   * Buffer a chunk of the answer in progress. Text chunks are concatenated as
+   * sent; audio chunks are transcribed when the answer is completed.
+   * Sequence numbers restart with each answer; chunks at or below the last one
+   * received are ignored, so a client can safely resend after reconnecting
+   */
+  @SubscribeMessage('answer_chunk')
+  handleAnswerChunk(
+    @ConnectedSocket() client: AuthenticatedSocket,
+    @MessageBody()
+    data: {
+      interviewId: string;
+      sequence?: number;
+      text?: string;
+      audio?: Buffer | string;
+      mimeType?: string;
+    },
+  ) {
+    const session = this.getJoinedSession(client, data?.interviewId);
+    if (!session || session.processing) return;
+
+    if (data.sequence !== undefined) {
+      if (data.sequence <= session.lastSequence) return;
+      session.lastSequence = data.sequence;
+    }
+
+    if (data.text) {
+      const textBytes = Buffer.byteLength(data.text);
+      if (session.answerBytes + textBytes > MAX_ANSWER_TEXT_BYTES) {
+        this.emitError(client, data.interviewId, new Error('Answer text is too long'));
+        return;
+      }
+      session.answerChunks.push(data.text);
+      session.answerBytes += textBytes;
+    }
+
+    if (data.audio) {
+      const audio = Buffer.isBuffer(data.audio) ? data.audio : Buffer.from(data.audio, 'base64');
+      if (session.audioBytes + audio.length > MAX_AUDIO_BYTES) {
+        this.emitError(client, data.interviewId, new Error('Audio answer is too large'));
+        return;
+      }
+      session.audioChunks.push(audio);
+      session.audioBytes += audio.length;
+      session.audioMimeType = data.mimeType || session.audioMimeType;
+    }
+
+    if (data.text) {
+      this.sendLiveHint(session);
+    }
+  }
+
+  /**
+   * Finish the answer in progress: evaluate it and send the feedback, then
+   * the next question or the final results
+   */
+  @SubscribeMessage('answer_complete')
+  async handleAnswerComplete(
+    @ConnectedSocket() client: AuthenticatedSocket,
+    @MessageBody() data: { interviewId: string; skillCategory?: string },
+  ) {
+    const session = this.getJoinedSession(client, data?.interviewId);
+    if (!session || session.processing) return;
+
+    session.processing = true;
+    const room = this.room(session.interviewId);
+
+    try {
+      const interview = await this.aiMockInterviewService.getAiMockInterviewById(
+        session.interviewId,
+        client.user,
+      );
+      const currentQuestion = this.aiMockInterviewService.getCurrentQuestion(interview);
+      if (!currentQuestion) {
+        throw new Error('There is no question awaiting an answer');
+      }
+
+      // Audio is analyzed even when text was streamed too, for the speech metrics
+      const speechAnalysis = session.audioChunks.length
+        ? await this.aiMockInterviewService.analyzeAudioAnswer(
+            Buffer.concat(session.audioChunks),
+            session.audioMimeType || 'audio/webm',
+          )
+        : undefined;
+      const response = session.answerChunks.join('').trim() || speechAnalysis?.transcript?.trim();
+      if (!response) {
+        throw new Error('The answer is empty');
+      }
+
+      this.server.to(room).emit('answer_processing', {
+        interviewId: session.interviewId,
+        transcript: response,
+      });
+
+      const result = await this.aiMockInterviewService.submitAiResponse(
+        session.interviewId,
+        {
+          questionText: currentQuestion.text,
+          response,
+          skillCategory: data.skillCategory,
+          responseTime: Math.round((Date.now() - currentQuestion.askedAt.getTime()) / 1000),
+        },
+        client.user,
+        speechAnalysis,
+      );
+      this.stopTimer(session);
+      this.resetAnswer(session);
+
+      this.server.to(room).emit('answer_evaluated', {
+        interviewId: session.interviewId,
+        score: result.score,
+        feedback: result.feedback,
+        strengths: result.strengths,
+        suggestions: result.suggestions,
+        speechAnalysis: result.speechAnalysis,
+      });
+
+      const updatedInterview = await this.aiMockInterviewService.getAiMockInterviewById(
+        session.interviewId,
+        client.user,
+      );
+      const nextQuestion = this.aiMockInterviewService.getCurrentQuestion(updatedInterview);
+
+      if (result.nextQuestion && nextQuestion) {
+        this.server.to(room).emit('question', {
+          interviewId: session.interviewId,
+          ...nextQuestion,
+        });
+        this.startTimer(session, nextQuestion);
+      } else {
+        this.server.to(room).emit('interview_completed', {
+          interviewId: updatedInterview.id,
+          overallScore: updatedInterview.overallScore,
+          feedback: updatedInterview.aiFeedback,
+          recommendations: updatedInterview.followUpRecommendations,
+        });
+      }
+    } catch (error) {
+      this.emitError(client, session.interviewId, error);
+    } finally {
+      session.processing = false;
+    }
+  }
+
+  @SubscribeMessage('leave_interview')
+  handleLeaveInterview(
+    @ConnectedSocket() client: AuthenticatedSocket,
+    @MessageBody() data: { interviewId: string },
+  ) {
+    const session = this.getJoinedSession(client, data?.interviewId);
+    if (!session) return;
+
+    client.leave(this.room(session.interviewId));
+    session.socketIds.delete(client.id);
+    if (session.socketIds.size === 0) {
+      this.suspendSession(session);
+    }
+  }
+
+  // Private helper methods
+  private room(interviewId: string): string {
+    return `ai-interview:${interviewId}`;
+  }
+
+  private getOrCreateSession(interview: AiMockInterview): LiveInterviewSession {
+    let session = this.sessions.get(interview.id);
+
+    if (!session) {
+      session = {
+        interviewId: interview.id,
+        userId: interview.userId,
+        interviewType: interview.interviewType || InterviewType.TECHNICAL,
+        hintsEnabled: interview.config?.enableHints !== false,
+        socketIds: new Set(),
+        answerChunks: [],
+        answerBytes: 0,
+        audioChunks: [],
+        audioBytes: 0,
+        lastSequence: -1,
+        processing: false,
+      };
+      this.sessions.set(interview.id, session);
+    }
+
+    return session;
+  }
+
+  private getJoinedSession(
+    client: AuthenticatedSocket,
+    interviewId?: string,
+  ): LiveInterviewSession | undefined {
+    if (!client.user || !interviewId) return undefined;
+
+    const session = this.sessions.get(interviewId);
+    if (!session || !session.socketIds.has(client.id)) {
+      this.emitError(client, interviewId, new Error('Join the interview first'));
+      return undefined;
+    }
+
+    return session;
+  }
+
+  private sendInterviewState(
+    client: AuthenticatedSocket,
+    interview: AiMockInterview,
+    session: LiveInterviewSession,
+  ): void {
+    const partialAnswer = session.answerChunks.join('');
+
+    client.emit('interview_state', {
+      interviewId: interview.id,
+      status: interview.status,
+      interviewType: interview.interviewType,
+      hintsEnabled: session.hintsEnabled,
+      transcript: interview.transcript.conversations || [],
+      currentQuestion: this.aiMockInterviewService.getCurrentQuestion(interview),
+      partialAnswer,
+      bufferedAudioBytes: session.audioBytes,
+      lastSequence: session.lastSequence,
+      resumed: (interview.transcript.conversations || []).length > 1 || !!partialAnswer,
+      timestamp: new Date(),
+    });
+  }
+
+  /**
+   * Emit the remaining time for the current question every few seconds and a
+   * single time-up event when it runs out. The timer is based on when the
+   * question was added to the transcript, so it survives reconnects
+   */
+  private startTimer(session: LiveInterviewSession, question: CurrentAiQuestion | null): void {
+    this.stopTimer(session);
+    session.currentQuestion = question || undefined;
+    if (!question) return;
+
+    const expiresAt = question.askedAt.getTime() + question.timeLimitSeconds * 1000;
+    const tick = () => {
+      const remainingSeconds = Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000));
+
+      this.server.to(this.room(session.interviewId)).emit('question_timer', {
+        interviewId: session.interviewId,
+        questionNumber: question.questionNumber,
+        timeLimitSeconds: question.timeLimitSeconds,
+        remainingSeconds,
+        expiresAt: new Date(expiresAt),
+      });
+
+      if (remainingSeconds === 0) {
+        this.server.to(this.room(session.interviewId)).emit('question_time_up', {
+          interviewId: session.interviewId,
+          questionNumber: question.questionNumber,
+        });
+        this.stopTimer(session);
+      }
+    };
+
+    tick();
+    if (Date.now() < expiresAt) {
+      session.timer = setInterval(tick, TIMER_TICK_MS);
+    }
+  }
+
+  private stopTimer(session: LiveInterviewSession): void {
+    if (session.timer) {
+      clearInterval(session.timer);
+      session.timer = undefined;
+    }
+  }
+
+  private sendLiveHint(session: LiveInterviewSession): void {
+    const question = session.currentQuestion;
+    if (!question || !session.hintsEnabled) return;
+    if (session.lastHintAt && Date.now() - session.lastHintAt < HINT_INTERVAL_MS) return;
+
+    const hint = buildLiveHint({
+      interviewType: session.interviewType,
+      partialAnswer: session.answerChunks.join(''),
+      elapsedSeconds: (Date.now() - question.askedAt.getTime()) / 1000,
+      timeLimitSeconds: question.timeLimitSeconds,
+    });
+    if (!hint || hint.code === session.lastHintCode) return;
+
+    session.lastHintCode = hint.code;
+    session.lastHintAt = Date.now();
+    this.server.to(this.room(session.interviewId)).emit('live_hint', {
+      interviewId: session.interviewId,
+      questionNumber: question.questionNumber,
+      ...hint,
+    });
+  }
+
+  private resetAnswer(session: LiveInterviewSession): void {
+    session.answerChunks = [];
+    session.answerBytes = 0;
+    session.audioChunks = [];
+    session.audioBytes = 0;
+    session.audioMimeType = undefined;
+    session.lastSequence = -1;
+    session.lastHintCode = undefined;
+    session.lastHintAt = undefined;
+  }
+
+  /**
+   * Stop the timer of an interview nobody is connected to, and drop the
+   * session with its buffered answer unless someone rejoins in time
+   */
+  private suspendSession(session: LiveInterviewSession): void {
+    this.stopTimer(session);
+    this.cancelEviction(session);
+    session.evictionTimer = setTimeout(() => {
+      if (session.socketIds.size === 0 && this.sessions.get(session.interviewId) === session) {
+        this.closeSession(session.interviewId);
+      }
+    }, IDLE_SESSION_TTL_MS);
+  }
+
+  private cancelEviction(session: LiveInterviewSession): void {
+    if (session.evictionTimer) {
+      clearTimeout(session.evictionTimer);
+      session.evictionTimer = undefined;
+    }
+  }
+
+  private closeSession(interviewId: string): void {
+    const session = this.sessions.get(interviewId);
+    if (!session) return;
+
+    this.stopTimer(session);
+    this.cancelEviction(session);
+    this.sessions.delete(interviewId);
+  }
+
+  private emitError(client: Socket, interviewId: string | undefined, error: Error): void {
+    this.logger.warn(`AI interview ${interviewId} socket error: ${error.message}`);
+    client.emit('interview_error', {
+      interviewId,
+      message: error.message || 'Request failed',
+      timestamp: new Date(),
+    });
+  }
+
+  private extractTokenFromSocket(client: Socket): string | null {
+    const token =
+      client.handshake.auth?.token ||
+      client.handshake.headers?.authorization?.replace('Bearer ', '') ||
+      client.request.headers?.authorization?.replace('Bearer ', '');
+
+    return token || null;
+  }
+
+  onModuleDestroy(): void {
+    this.sessions.forEach(session => {
+      this.stopTimer(session);
+      this.cancelEviction(session);
+    });
+    this.sessions.clear();
+    this.logger.log('AI mock interview gateway destroyed');
+  }
+}
@@ -1,18 +1,44 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { HttpModule } from '@nestjs/axios';
-import { ConfigModule } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 
 // Controllers
 import { InterviewSessionController } from './controllers/interview-session.controller';
 import { AiMockInterviewController } from './controllers/ai-mock-interview.controller';
 import { QuestionBankController } from './controllers/question-bank.controller';
+import { ScorecardController } from './controllers/scorecard.controller';
+import { InterviewBookingController } from './controllers/interview-booking.controller';
+import { CalendarFeedController } from './controllers/calendar-feed.controller';
 
 // Services
 import { InterviewSessionService } from './services/interview-session.service';
 import { AiMockInterviewService } from './services/ai-mock-interview.service';
 import { QuestionBankService } from './services/question-bank.service';
 import { InterviewAnalyticsService } from './services/interview-analytics.service';
+import { SpeechAnalysisService } from './services/speech-analysis.service';
+import { ScorecardService } from './services/scorecard.service';
+import { InterviewBookingService } from './services/interview-booking.service';
+import { CalendarFeedService } from './services/calendar-feed.service';
+import { InterviewMeetingService } from './services/interview-meeting.service';
+
+// Gateways
+import { AiMockInterviewGateway } from './gateways/ai-mock-interview.gateway';
+
+// AI providers
+import { INTERVIEW_AI_PROVIDER } from './ai/interview-ai.types';
+import { OpenAiCompatibleProvider } from './ai/openai-compatible.provider';
+import { LocalInterviewAiProvider } from './ai/local-interview-ai.provider';
+
+// Speech recognition engines
+import { SPEECH_RECOGNITION_ENGINE } from './speech/speech-recognition.types';
+import { WhisperCppEngine } from './speech/whisper-cpp.engine';
+import { RemoteSpeechEngine } from './speech/remote-speech.engine';
+
+// Meeting providers
+import { JitsiMeetingProvider } from './meetings/jitsi-meeting.provider';
+import { VideoIntegrationMeetingProvider } from './meetings/video-integration-meeting.provider';
 
 // Entities
 import { InterviewSession } from '../../database/entities/interview-session.entity';
@@ -23,6 +49,21 @@ import { AiMockInterview } from '../../database/entities/ai-mock-interview.entit
 import { Job } from '../../database/entities/job.entity';
 import { User } from '../../database/entities/user.entity';
 import { Organization } from '../../database/entities/organization.entity';
+import { File } from '../../database/entities/file.entity';
+import { ScorecardTemplate } from '../../database/entities/scorecard-template.entity';
+import { InterviewScorecard } from '../../database/entities/interview-scorecard.entity';
+import { JobApplication } from '../../database/entities/job-application.entity';
+import { InterviewBookingLink } from '../../database/entities/interview-booking-link.entity';
+import { HRProfile } from '../../database/entities/hr-profile.entity';
+import { CalendarFeed } from '../../database/entities/calendar-feed.entity';
+import { Lesson } from '../../database/entities/lesson.entity';
+import { Assessment } from '../../database/entities/assessment.entity';
+import { Enrollment } from '../../database/entities/enrollment.entity';
+
+// External modules
+import { FilesModule } from '../files/files.module';
+import { EmailModule } from '../email/email.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
 
 @Module({
   imports: [
@@ -35,29 +76,90 @@ import { Organization } from '../../database/entities/organization.entity';
       Job,
       User,
       Organization,
+      File,
+      ScorecardTemplate,
+      InterviewScorecard,
+      JobApplication,
+      InterviewBookingLink,
+      HRProfile,
+      CalendarFeed,
+      Lesson,
+      Assessment,
+      Enrollment,
     ]),
     HttpModule.register({
       timeout: 30000,
       maxRedirects: 5,
     }),
+    JwtModule.registerAsync({
+      imports: [ConfigModule],
+      useFactory: async (configService: ConfigService) => ({
+        secret: configService.get<string>('JWT_SECRET'),
+        signOptions: { expiresIn: '1h' },
+      }),
+      inject: [ConfigService],
+    }),
     ConfigModule,
+    FilesModule,
+    EmailModule,
+    WebhooksModule,
   ],
   controllers: [
     InterviewSessionController,
     AiMockInterviewController,
     QuestionBankController,
+    ScorecardController,
+    InterviewBookingController,
+    CalendarFeedController,
   ],
   providers: [
     InterviewSessionService,
     AiMockInterviewService,
     QuestionBankService,
     InterviewAnalyticsService,
+    ScorecardService,
+    InterviewBookingService,
+    CalendarFeedService,
+    InterviewMeetingService,
+    JitsiMeetingProvider,
+    VideoIntegrationMeetingProvider,
+    AiMockInterviewGateway,
+    OpenAiCompatibleProvider,
+    LocalInterviewAiProvider,
+    {
+      // LLM_PROVIDER=openai uses any OpenAI-compatible API, anything else the offline provider
+      provide: INTERVIEW_AI_PROVIDER,
+      useFactory: (
+        configService: ConfigService,
+        openAiProvider: OpenAiCompatibleProvider,
+        localProvider: LocalInterviewAiProvider,
+      ) => (configService.get('LLM_PROVIDER', 'local') === 'openai' ? openAiProvider : localProvider),
+      inject: [ConfigService, OpenAiCompatibleProvider, LocalInterviewAiProvider],
+    },
+    SpeechAnalysisService,
+    WhisperCppEngine,
+    RemoteSpeechEngine,
+    {
+      // ASR_ENGINE=whisper-cpp runs offline, remote uses SPEECH_SERVICE_URL, none disables transcripts
+      provide: SPEECH_RECOGNITION_ENGINE,
+      useFactory: (
+        configService: ConfigService,
+        whisperCppEngine: WhisperCppEngine,
+        remoteEngine: RemoteSpeechEngine,
+      ) => {
+        const engine = configService.get('ASR_ENGINE', 'whisper-cpp');
+        if (engine === 'none') return null;
+        return engine === 'remote' ? remoteEngine : whisperCppEngine;
+      },
+      inject: [ConfigService, WhisperCppEngine, RemoteSpeechEngine],
+    },
   ],
   exports: [
     InterviewSessionService,
     AiMockInterviewService,
     QuestionBankService,
     InterviewAnalyticsService,
+    ScorecardService,
   ],
 })
 export class InterviewsModule {}
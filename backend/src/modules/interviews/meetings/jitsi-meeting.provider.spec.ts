@@ -0,0 +1,66 @@
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { JitsiMeetingProvider } from './jitsi-meeting.provider';
+import { MeetingRequest } from './meeting-provider.types';
+
+const request: MeetingRequest = {
+  title: 'Interview: Backend Engineer',
+  startTime: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  durationMinutes: 45,
+};
+
+describe('JitsiMeetingProvider', () => {
+  const jwtService = new JwtService();
+
+  function createProvider(config: Record<string, string>) {
+    const configService = {
+      get: (key: string, defaultValue?: unknown) => config[key] ?? defaultValue,
+    } as unknown as ConfigService;
+    return new JitsiMeetingProvider(configService, jwtService);
+  }
+
+  it('shares one unguessable room link without app credentials', async () => {
+    const provider = createProvider({ JITSI_BASE_URL: 'https://meet.example.com/' });
+
+    const meeting = await provider.createMeeting(request);
+
+    expect(meeting.meetingId).toMatch(/^interview-[0-9a-f]{24}$/);
+    expect(meeting.links.candidate).toBe(`https://meet.example.com/${meeting.meetingId}`);
+    expect(meeting.links.host).toBe(meeting.links.candidate);
+  });
+
+  it('signs moderator tokens for interviewers and a guest token for the candidate', async () => {
+    const provider = createProvider({
+      JITSI_BASE_URL: 'https://meet.example.com',
+      JITSI_APP_ID: 'volkai',
+      JITSI_APP_SECRET: 'secret',
+    });
+
+    const { meetingId, links } = await provider.createMeeting(request);
+    const claims = (link: string) =>
+      jwtService.verify(new URL(link).searchParams.get('jwt'), { secret: 'secret' });
+
+    expect(claims(links.host)).toMatchObject({
+      aud: 'jitsi',
+      iss: 'volkai',
+      sub: 'meet.example.com',
+      room: meetingId,
+      context: { user: { moderator: true } },
+    });
+    expect(claims(links.interviewer).context.user.moderator).toBe(true);
+    expect(claims(links.candidate).context.user.moderator).toBe(false);
+    expect(claims(links.candidate).exp * 1000).toBeGreaterThan(
+      request.startTime.getTime() + 45 * 60 * 1000,
+    );
+  });
+
+  it('keeps the room when the interview is rescheduled', async () => {
+    const provider = createProvider({});
+    const meeting = await provider.createMeeting(request);
+
+    const updated = await provider.updateMeeting({ ...request, meetingId: meeting.meetingId });
+
+    expect(updated.meetingId).toBe(meeting.meetingId);
+    expect(updated.links.candidate).toBe(`https://meet.jit.si/${meeting.meetingId}`);
+  });
+});
@@ -0,0 +1,96 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import * as crypto from 'crypto';
+import {
+  MeetingLinks,
+  MeetingProvider,
+  MeetingRecording,
+  MeetingRequest,
+  ProvisionedMeeting,
+} from './meeting-provider.types';
+
+// Join tokens stay valid this long after the scheduled end
+const TOKEN_GRACE_SECONDS = 2 * 60 * 60;
+
+/**
+ * Meetings on a Jitsi Meet server, self-hosted or public. Rooms are created on
+ * first join, so only unguessable room names are generated here. With
+ * JITSI_APP_ID and JITSI_APP_SECRET set the server's token authentication is
+ * used and interviewers get moderator tokens, the candidate a guest token
+ */
+@Injectable()
+export class JitsiMeetingProvider implements MeetingProvider {
+  readonly name = 'jitsi';
+  readonly recordsMeetings = false;
+  private readonly baseUrl: string;
+  private readonly appId?: string;
+  private readonly appSecret?: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly jwtService: JwtService,
+  ) {
+    this.baseUrl = this.configService
+      .get('JITSI_BASE_URL', 'https://meet.jit.si')
+      .replace(/\/$/, '');
+    this.appId = this.configService.get('JITSI_APP_ID');
+    this.appSecret = this.configService.get('JITSI_APP_SECRET');
+  }
+
+  async supports(): Promise<boolean> {
+    return true;
+  }
+
+  async createMeeting(request: MeetingRequest): Promise<ProvisionedMeeting> {
+    const room = `interview-${crypto.randomBytes(12).toString('hex')}`;
+    return { provider: this.name, meetingId: room, links: this.links(room, request) };
+  }
+
+  // Rooms have no schedule; only the token lifetimes follow the new time
+  async updateMeeting(request: MeetingRequest): Promise<ProvisionedMeeting> {
+    return {
+      provider: this.name,
+      meetingId: request.meetingId,
+      links: this.links(request.meetingId, request),
+    };
+  }
+
+  // Nothing to delete; a room disappears when its last participant leaves
+  async cancelMeeting(): Promise<void> {}
+
+  // Jibri uploads recordings itself, they cannot be listed through Jitsi
+  async listRecordings(): Promise<MeetingRecording[]> {
+    return [];
+  }
+
+  private links(room: string, request: MeetingRequest): MeetingLinks {
+    const url = `${this.baseUrl}/${room}`;
+    if (!this.appId || !this.appSecret) {
+      return { host: url, interviewer: url, candidate: url };
+    }
+
+    const moderatorUrl = `${url}?jwt=${this.token(room, request, true)}`;
+    return {
+      host: moderatorUrl,
+      interviewer: moderatorUrl,
+      candidate: `${url}?jwt=${this.token(room, request, false)}`,
+    };
+  }
+
+  private token(room: string, request: MeetingRequest, moderator: boolean): string {
+    const endsAt = request.startTime.getTime() + request.durationMinutes * 60 * 1000;
+    const expiresIn = Math.max(Math.round((endsAt - Date.now()) / 1000), 0) + TOKEN_GRACE_SECONDS;
+
+    return this.jwtService.sign(
+      {
+        aud: 'jitsi',
+        iss: this.appId,
+        sub: new URL(this.baseUrl).hostname,
+        room,
+        context: { user: { moderator } },
+      },
+      { secret: this.appSecret, algorithm: 'HS256', expiresIn },
+    );
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Who a join link is for. Hosts can start the meeting and admit others,
+ * interviewers join with moderator rights where the provider supports it
+ */
+export type MeetingRole = 'host' | 'interviewer' | 'candidate';
+
+export type MeetingLinks = Partial<Record<MeetingRole, string>>;
+
+export interface MeetingRequest {
+  title: string;
+  startTime: Date;
+  durationMinutes: number;
+  description?: string;
+  organizationId?: string;
+  // Existing provider meeting, set for updates and cancellations
+  meetingId?: string;
+  integrationId?: string;
+}
+
+export interface ProvisionedMeeting {
+  provider: string;
+  meetingId: string;
+  links: MeetingLinks;
+  // Video conferencing integration the meeting was created through
+  integrationId?: string;
+}
+
+export interface MeetingRecording {
+  id: string;
+  downloadUrl: string;
+  mimeType: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Creates the video meeting for an interview session and keeps it in step
+ * with the session's schedule
+ */
+export interface MeetingProvider {
+  readonly name: string;
+
+  // Whether listRecordings can ever return anything
+  readonly recordsMeetings: boolean;
+
+  // Whether meetings for the organization can be created through this provider
+  supports(organizationId?: string): Promise<boolean>;
+
+  createMeeting(request: MeetingRequest): Promise<ProvisionedMeeting>;
+
+  updateMeeting(request: MeetingRequest): Promise<ProvisionedMeeting>;
+
+  cancelMeeting(request: MeetingRequest): Promise<void>;
+
+  listRecordings(request: MeetingRequest): Promise<MeetingRecording[]>;
+}
@@ -0,0 +1,84 @@
+import { Injectable } from '@nestjs/common';
+import {
+  IntegrationService,
+  VideoMeeting,
+  VideoMeetingInput,
+} from '../../webhooks/services/integration.service';
+import {
+  MeetingProvider,
+  MeetingRecording,
+  MeetingRequest,
+  ProvisionedMeeting,
+} from './meeting-provider.types';
+
+/**
+ * Meetings through the organization's video conferencing integration
+ * (Zoom, Microsoft Teams or Google Meet)
+ */
+@Injectable()
+export class VideoIntegrationMeetingProvider implements MeetingProvider {
+  readonly name = 'integration';
+  readonly recordsMeetings = true;
+
+  constructor(private readonly integrationService: IntegrationService) {}
+
+  async supports(organizationId?: string): Promise<boolean> {
+    if (!organizationId) return false;
+    return !!(await this.integrationService.findVideoConferencingIntegration(organizationId));
+  }
+
+  async createMeeting(request: MeetingRequest): Promise<ProvisionedMeeting> {
+    const integration = await this.integrationService.findVideoConferencingIntegration(
+      request.organizationId,
+    );
+    if (!integration) {
+      throw new Error('No video conferencing integration is connected');
+    }
+
+    const meeting = await this.integrationService.createMeeting(
+      integration.id,
+      this.input(request),
+    );
+    return this.provisioned(meeting, integration.id);
+  }
+
+  async updateMeeting(request: MeetingRequest): Promise<ProvisionedMeeting> {
+    const meeting = await this.integrationService.updateMeeting(
+      request.integrationId,
+      request.meetingId,
+      this.input(request),
+    );
+    return this.provisioned(meeting, request.integrationId);
+  }
+
+  async cancelMeeting(request: MeetingRequest): Promise<void> {
+    await this.integrationService.cancelMeeting(request.integrationId, request.meetingId);
+  }
+
+  async listRecordings(request: MeetingRequest): Promise<MeetingRecording[]> {
+    return this.integrationService.listMeetingRecordings(request.integrationId, request.meetingId);
+  }
+
+  private input(request: MeetingRequest): VideoMeetingInput {
+    return {
+      topic: request.title,
+      startTime: request.startTime,
+      duration: request.durationMinutes,
+      agenda: request.description,
+    };
+  }
+
+  private provisioned(meeting: VideoMeeting, integrationId: string): ProvisionedMeeting {
+    return {
+      provider: this.name,
+      meetingId: meeting.id,
+      integrationId,
+      links: {
+        // Zoom's start URL signs the host in; other providers share one link
+        host: meeting.startUrl || meeting.joinUrl,
+        interviewer: meeting.joinUrl,
+        candidate: meeting.joinUrl,
+      },
+    };
+  }
+}
@@ -0,0 +1,90 @@
+import { findAvailableSlots, weeklyAvailability } from './availability';
+
+const nineToFive = { start: '09:00', end: '17:00' };
+
+describe('weeklyAvailability', () => {
+  it('reads working hours in the schedule timezone', () => {
+    // Monday 2026-03-02
+    const ranges = weeklyAvailability(
+      { timezone: 'America/New_York', workingHours: { monday: nineToFive } },
+      new Date('2026-03-02T00:00:00Z'),
+      new Date('2026-03-03T00:00:00Z'),
+    );
+
+    expect(ranges).toEqual([
+      { start: new Date('2026-03-02T14:00:00Z'), end: new Date('2026-03-02T22:00:00Z') },
+    ]);
+  });
+
+  it('follows DST changes and skips blackout dates', () => {
+    const ranges = weeklyAvailability(
+      {
+        timezone: 'Europe/Berlin',
+        workingHours: { monday: nineToFive, tuesday: nineToFive },
+        blackoutDates: [{ start: '2026-03-31', end: '2026-03-31' }],
+      },
+      new Date('2026-03-23T00:00:00Z'),
+      new Date('2026-04-01T00:00:00Z'),
+    );
+
+    expect(ranges.map(range => range.start.toISOString())).toEqual([
+      '2026-03-23T08:00:00.000Z',
+      '2026-03-24T08:00:00.000Z',
+      // Summer time from 2026-03-29
+      '2026-03-30T07:00:00.000Z',
+    ]);
+  });
+});
+
+describe('findAvailableSlots', () => {
+  const from = new Date('2026-03-02T00:00:00Z');
+  const to = new Date('2026-03-03T00:00:00Z');
+
+  it('only offers slots where the whole panel is free', () => {
+    const slots = findAvailableSlots({
+      schedules: [
+        { timezone: 'UTC', workingHours: { monday: { start: '09:00', end: '12:00' } } },
+        { timezone: 'UTC', workingHours: { monday: { start: '10:00', end: '17:00' } } },
+      ],
+      busy: [],
+      from,
+      to,
+      durationMinutes: 60,
+      stepMinutes: 30,
+    });
+
+    expect(slots.map(slot => slot.toISOString())).toEqual([
+      '2026-03-02T10:00:00.000Z',
+      '2026-03-02T10:30:00.000Z',
+      '2026-03-02T11:00:00.000Z',
+    ]);
+  });
+
+  it('keeps a buffer around busy ranges', () => {
+    const slots = findAvailableSlots({
+      schedules: [{ timezone: 'UTC', workingHours: { monday: { start: '09:00', end: '13:00' } } }],
+      busy: [{ start: new Date('2026-03-02T10:00:00Z'), end: new Date('2026-03-02T11:00:00Z') }],
+      from,
+      to,
+      durationMinutes: 45,
+      stepMinutes: 15,
+      bufferMinutes: 15,
+    });
+
+    expect(slots.map(slot => slot.toISOString())).toEqual([
+      // Ends as the buffer before 10:00 begins
+      '2026-03-02T09:00:00.000Z',
+      '2026-03-02T11:15:00.000Z',
+      '2026-03-02T11:30:00.000Z',
+      '2026-03-02T11:45:00.000Z',
+      '2026-03-02T12:00:00.000Z',
+      '2026-03-02T12:15:00.000Z',
+    ]);
+  });
+
+  it('offers nothing without a panel', () => {
+    expect(findAvailableSlots({ schedules: [], busy: [], from, to, durationMinutes: 30 })).toEqual(
+      [],
+    );
+  });
+});
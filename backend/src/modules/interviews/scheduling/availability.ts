@@ -0,0 +1,163 @@
+import { HRProfile } from '../../../database/entities/hr-profile.entity';
+import {
+  ZonedDate,
+  addDays,
+  parseTimeOfDay,
+  zonedParts,
+  zonedTimeToUtc,
+} from '../../../common/utils/zoned-time';
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export type WeeklySchedule = Pick<
+  HRProfile['workSchedule'],
+  'workingHours' | 'timezone' | 'blackoutDates'
+>;
+
+const DAY_NAMES = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+] as const;
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Working hours of a weekly schedule between `from` and `to` as UTC ranges,
+ * skipping blackout dates. Hours are read in the schedule's timezone, so
+ * ranges follow its DST changes
+ */
+export function weeklyAvailability(schedule: WeeklySchedule, from: Date, to: Date): TimeRange[] {
+  const timezone = schedule.timezone || 'UTC';
+  const ranges: TimeRange[] = [];
+
+  // Start a day early so hours that began before `from` in local time are included
+  let day = addDays(zonedParts(from, timezone), -1);
+  while (zonedTimeToUtc({ ...day, hour: 0, minute: 0 }, timezone) < to) {
+    const hours = schedule.workingHours?.[DAY_NAMES[day.weekday]];
+    const start = parseTimeOfDay(hours?.start);
+    const end = parseTimeOfDay(hours?.end);
+
+    if (start !== null && end !== null && end > start && !isBlackedOut(schedule, day)) {
+      const range = clip(
+        {
+          start: zonedTimeToUtc(atMinute(day, start), timezone),
+          end: zonedTimeToUtc(atMinute(day, end), timezone),
+        },
+        from,
+        to,
+      );
+      if (range) ranges.push(range);
+    }
+
+    day = addDays(day, 1);
+  }
+
+  return ranges;
+}
+
+/**
+ * Slot start times where every schedule is available and nothing in `busy`
+ * overlaps, keeping `bufferMinutes` clear either side of busy ranges. Slots
+ * start on a `stepMinutes` grid
+ */
+export function findAvailableSlots(options: {
+  schedules: WeeklySchedule[];
+  busy: TimeRange[];
+  from: Date;
+  to: Date;
+  durationMinutes: number;
+  stepMinutes?: number;
+  bufferMinutes?: number;
+}): Date[] {
+  const { schedules, busy, from, to, durationMinutes } = options;
+  const step = (options.stepMinutes || 30) * MINUTE;
+  const buffer = (options.bufferMinutes || 0) * MINUTE;
+  if (schedules.length === 0 || from >= to) return [];
+
+  const shared = schedules
+    .map(schedule => weeklyAvailability(schedule, from, to))
+    .reduce((acc, ranges) => intersectRanges(acc, ranges));
+
+  const blocked = busy.map(range => ({
+    start: new Date(range.start.getTime() - buffer),
+    end: new Date(range.end.getTime() + buffer),
+  }));
+
+  const slots: Date[] = [];
+  for (const range of subtractRanges(shared, blocked)) {
+    let start = Math.ceil(range.start.getTime() / step) * step;
+    while (start + durationMinutes * MINUTE <= range.end.getTime()) {
+      slots.push(new Date(start));
+      start += step;
+    }
+  }
+  return slots;
+}
+
+export function intersectRanges(a: TimeRange[], b: TimeRange[]): TimeRange[] {
+  const left = sortRanges(a);
+  const right = sortRanges(b);
+  const result: TimeRange[] = [];
+
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    const start = Math.max(left[i].start.getTime(), right[j].start.getTime());
+    const end = Math.min(left[i].end.getTime(), right[j].end.getTime());
+    if (start < end) result.push({ start: new Date(start), end: new Date(end) });
+
+    if (left[i].end <= right[j].end) i++;
+    else j++;
+  }
+  return result;
+}
+
+export function subtractRanges(ranges: TimeRange[], remove: TimeRange[]): TimeRange[] {
+  const removals = sortRanges(remove);
+
+  return sortRanges(ranges).flatMap(range => {
+    const pieces: TimeRange[] = [];
+    let cursor = range.start.getTime();
+    const end = range.end.getTime();
+
+    for (const removal of removals) {
+      if (removal.end.getTime() <= cursor || removal.start.getTime() >= end) continue;
+      if (removal.start.getTime() > cursor) {
+        pieces.push({ start: new Date(cursor), end: removal.start });
+      }
+      cursor = Math.max(cursor, removal.end.getTime());
+    }
+
+    if (cursor < end) pieces.push({ start: new Date(cursor), end: range.end });
+    return pieces;
+  });
+}
+
+function isBlackedOut(schedule: WeeklySchedule, day: ZonedDate): boolean {
+  const date = [day.year, day.month, day.day].map(part => String(part).padStart(2, '0')).join('-');
+  return (schedule.blackoutDates || []).some(
+    blackout => blackout.start <= date && date <= blackout.end,
+  );
+}
+
+function atMinute(day: ZonedDate, minuteOfDay: number): ZonedDate {
+  return { ...day, hour: Math.floor(minuteOfDay / 60), minute: minuteOfDay % 60 };
+}
+
+function clip(range: TimeRange, from: Date, to: Date): TimeRange | null {
+  const start = range.start > from ? range.start : from;
+  const end = range.end < to ? range.end : to;
+  return start < end ? { start, end } : null;
+}
+
+function sortRanges(ranges: TimeRange[]): TimeRange[] {
+  return [...ranges].sort((a, b) => a.start.getTime() - b.start.getTime());
+}
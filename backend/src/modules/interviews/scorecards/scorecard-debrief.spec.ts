@@ -0,0 +1,93 @@
+import { ScorecardRecommendation } from '../../../database/entities/interview-scorecard.entity';
+import { computeOverallScore, summariseScorecards } from './scorecard-debrief';
+
+const scale = { min: 1, max: 5 };
+
+const scorecard = (
+  recommendation: ScorecardRecommendation,
+  ratings: Record<string, number>,
+  ratingScale = scale,
+) => {
+  const entries = Object.entries(ratings).map(([competencyKey, rating]) => ({
+    competencyKey,
+    competencyName: competencyKey.toUpperCase(),
+    weight: competencyKey === 'coding' ? 2 : 1,
+    rating,
+  }));
+  return {
+    ratingScale,
+    ratings: entries,
+    overallScore: computeOverallScore(entries, ratingScale),
+    recommendation,
+  };
+};
+
+describe('computeOverallScore', () => {
+  it('weights ratings and normalises them to 0-100', () => {
+    const score = computeOverallScore(
+      [
+        { weight: 2, rating: 5 },
+        { weight: 1, rating: 2 },
+      ],
+      scale,
+    );
+
+    // (100 * 2 + 25) / 3
+    expect(score).toBe(75);
+  });
+});
+
+describe('summariseScorecards', () => {
+  it('reports mean, variance and consensus per competency', () => {
+    const summary = summariseScorecards([
+      scorecard(ScorecardRecommendation.HIRE, { coding: 4, design: 5 }),
+      scorecard(ScorecardRecommendation.HIRE, { coding: 4, design: 1 }),
+    ]);
+
+    const coding = summary.competencies.find(c => c.competencyKey === 'coding')!;
+    const design = summary.competencies.find(c => c.competencyKey === 'design')!;
+
+    expect(coding).toMatchObject({ count: 2, mean: 75, variance: 0, consensus: 'strong' });
+    expect(design).toMatchObject({
+      mean: 50,
+      variance: 2500,
+      standardDeviation: 50,
+      consensus: 'split',
+    });
+    expect(summary.suggestedDecision).toBe('hire');
+  });
+
+  it('compares scorecards on different scales', () => {
+    const summary = summariseScorecards([
+      scorecard(ScorecardRecommendation.HIRE, { coding: 5 }),
+      scorecard(ScorecardRecommendation.HIRE, { coding: 4 }, { min: 1, max: 4 }),
+    ]);
+
+    expect(summary.competencies[0]).toMatchObject({ mean: 100, consensus: 'strong' });
+  });
+
+  it('suggests rejecting on any strong no or a no-hire majority', () => {
+    const strongNo = summariseScorecards([
+      scorecard(ScorecardRecommendation.STRONG_HIRE, { coding: 5 }),
+      scorecard(ScorecardRecommendation.HIRE, { coding: 4 }),
+      scorecard(ScorecardRecommendation.STRONG_NO_HIRE, { coding: 1 }),
+    ]);
+    const mixed = summariseScorecards([
+      scorecard(ScorecardRecommendation.HIRE, { coding: 4 }),
+      scorecard(ScorecardRecommendation.NO_HIRE, { coding: 2 }),
+    ]);
+
+    expect(strongNo.suggestedDecision).toBe('no_hire');
+    expect(strongNo.recommendations[ScorecardRecommendation.HIRE]).toBe(1);
+    expect(mixed.suggestedDecision).toBe('discuss');
+  });
+
+  it('has no overall spread or decision without scorecards', () => {
+    expect(summariseScorecards([])).toMatchObject({
+      scorecardCount: 0,
+      overall: null,
+      competencies: [],
+      suggestedDecision: null,
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { ScorecardRatingScale } from '../../../database/entities/scorecard-template.entity';
+import { ScorecardRecommendation } from '../../../database/entities/interview-scorecard.entity';
+
+export type Consensus = 'insufficient' | 'strong' | 'moderate' | 'split';
+
+export interface ScoreSpread {
+  count: number;
+  mean: number;
+  variance: number;
+  standardDeviation: number;
+  min: number;
+  max: number;
+  consensus: Consensus;
+}
+
+export interface CompetencySummary extends ScoreSpread {
+  competencyKey: string;
+  competencyName: string;
+}
+
+export interface DebriefSummary {
+  scorecardCount: number;
+  overall: ScoreSpread | null;
+  competencies: CompetencySummary[];
+  recommendations: Record<ScorecardRecommendation, number>;
+  suggestedDecision: 'hire' | 'no_hire' | 'discuss' | null;
+}
+
+type SubmittedScorecard = {
+  ratingScale: ScorecardRatingScale;
+  ratings: Array<{ competencyKey: string; competencyName: string; weight: number; rating: number }>;
+  overallScore: number;
+  recommendation: ScorecardRecommendation;
+};
+
+/**
+ * Map a rating onto 0-100 so scorecards with different scales compare
+ */
+export function normaliseRating(rating: number, scale: ScorecardRatingScale): number {
+  if (scale.max === scale.min) return 100;
+  return ((rating - scale.min) / (scale.max - scale.min)) * 100;
+}
+
+/**
+ * Weighted average of the ratings on a 0-100 scale
+ */
+export function computeOverallScore(
+  ratings: Array<{ weight: number; rating: number }>,
+  scale: ScorecardRatingScale,
+): number {
+  const totalWeight = ratings.reduce((sum, rating) => sum + rating.weight, 0);
+  if (totalWeight === 0) return 0;
+
+  const weighted = ratings.reduce(
+    (sum, rating) => sum + normaliseRating(rating.rating, scale) * rating.weight,
+    0,
+  );
+  return round(weighted / totalWeight);
+}
+
+/**
+ * Aggregate submitted scorecards for a debrief. Spread is measured on the
+ * 0-100 scale: a standard deviation up to 12.5 (half a point on a 1-5
+ * scale) counts as strong consensus, up to 25 as moderate, above as split
+ */
+export function summariseScorecards(scorecards: SubmittedScorecard[]): DebriefSummary {
+  const byCompetency = new Map<string, { name: string; scores: number[] }>();
+  for (const scorecard of scorecards) {
+    for (const rating of scorecard.ratings) {
+      const entry = byCompetency.get(rating.competencyKey) || {
+        name: rating.competencyName,
+        scores: [],
+      };
+      entry.scores.push(normaliseRating(rating.rating, scorecard.ratingScale));
+      byCompetency.set(rating.competencyKey, entry);
+    }
+  }
+
+  const recommendations = Object.values(ScorecardRecommendation).reduce(
+    (acc, recommendation) => ({ ...acc, [recommendation]: 0 }),
+    {} as Record<ScorecardRecommendation, number>,
+  );
+  scorecards.forEach(scorecard => recommendations[scorecard.recommendation]++);
+
+  return {
+    scorecardCount: scorecards.length,
+    overall: scorecards.length ? spreadOf(scorecards.map(s => Number(s.overallScore))) : null,
+    competencies: [...byCompetency.entries()].map(([competencyKey, { name, scores }]) => ({
+      competencyKey,
+      competencyName: name,
+      ...spreadOf(scores),
+    })),
+    recommendations,
+    suggestedDecision: suggestDecision(recommendations, scorecards.length),
+  };
+}
+
+// Any strong no or a no-hire majority rejects; a unanimous yes hires
+function suggestDecision(
+  recommendations: Record<ScorecardRecommendation, number>,
+  total: number,
+): DebriefSummary['suggestedDecision'] {
+  if (total === 0) return null;
+
+  const noHire =
+    recommendations[ScorecardRecommendation.NO_HIRE] +
+    recommendations[ScorecardRecommendation.STRONG_NO_HIRE];
+  if (recommendations[ScorecardRecommendation.STRONG_NO_HIRE] > 0 || noHire > total / 2) {
+    return 'no_hire';
+  }
+  return noHire === 0 ? 'hire' : 'discuss';
+}
+
+function spreadOf(scores: number[]): ScoreSpread {
+  const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  const variance = scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / scores.length;
+  const standardDeviation = Math.sqrt(variance);
+
+  let consensus: Consensus = 'split';
+  if (scores.length < 2) consensus = 'insufficient';
+  else if (standardDeviation <= 12.5) consensus = 'strong';
+  else if (standardDeviation <= 25) consensus = 'moderate';
+
+  return {
+    count: scores.length,
+    mean: round(mean),
+    variance: round(variance),
+    standardDeviation: round(standardDeviation),
+    min: round(Math.min(...scores)),
+    max: round(Math.max(...scores)),
+    consensus,
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -1,12 +1,11 @@
-import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Injectable, Inject, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { EventEmitter2 } from '@nestjs/event-emitter';
-import { ConfigService } from '@nestjs/config';
-import { HttpService } from '@nestjs/axios';
 import { AiMockInterview, AiInterviewStatus, InterviewFormat } from '../../../database/entities/ai-mock-interview.entity';
-import { InterviewQuestion, QuestionType } from '../../../database/entities/interview-question.entity';
-import { InterviewQuestionBank, InterviewDifficulty } from '../../../database/entities/interview-question-bank.entity';
+import { InterviewQuestion } from '../../../database/entities/interview-question.entity';
+import { InterviewDifficulty } from '../../../database/entities/interview-question-bank.entity';
+import { InterviewType } from '../../../database/entities/interview-session.entity';
 import { User } from '../../../database/entities/user.entity';
 import {
   CreateAiMockInterviewDto,
@@ -17,64 +16,46 @@ import {
   AiMockInterviewListResponseDto,
   AiInterviewAnalyticsDto,
 } from '../dto/ai-mock-interview.dto';
-import { firstValueFrom } from 'rxjs';
-
-interface AIServiceResponse {
-  questions: Array<{
-    text: string;
-    type: QuestionType;
-    difficulty: InterviewDifficulty;
-    expectedAnswer?: string;
-    followUpQuestions?: string[];
-  }>;
-  sessionId: string;
-}
-
-interface SpeechAnalysisResult {
-  confidence: number;
-  pace: number;
-  clarity: number;
-  fillerWords: number;
-  sentiment: string;
-  keywords: string[];
-}
-
-interface AIFeedbackResponse {
-  overallScore: number;
-  strengths: string[];
-  improvementAreas: string[];
-  detailedAnalysis: {
-    communication: number;
-    technicalKnowledge: number;
-    problemSolving: number;
-    leadership: number;
-    teamwork: number;
-  };
-  recommendations: string[];
+import {
+  INTERVIEW_AI_PROVIDER,
+  InterviewAiContext,
+  InterviewAiProvider,
+  InterviewAiResult,
+  TranscriptTurn,
+} from '../ai/interview-ai.types';
+import { LocalInterviewAiProvider } from '../ai/local-interview-ai.provider';
+import { SpeechAnalysisResult, SpeechAnalysisService } from './speech-analysis.service';
+
+// Answers scoring below this get a follow-up question before moving on
+const FOLLOW_UP_SCORE_THRESHOLD = 60;
+
+export interface CurrentAiQuestion {
+  text: string;
+  questionNumber: number;
+  totalQuestions: number;
+  isFollowUp: boolean;
+  skillCategory?: string;
+  askedAt: Date;
+  timeLimitSeconds: number;
 }
 
 @Injectable()
 export class AiMockInterviewService {
   private readonly logger = new Logger(AiMockInterviewService.name);
-  private readonly aiServiceUrl: string;
-  private readonly speechServiceUrl: string;
 
   constructor(
     @InjectRepository(AiMockInterview)
     private aiMockInterviewRepository: Repository<AiMockInterview>,
     @InjectRepository(InterviewQuestion)
     private interviewQuestionRepository: Repository<InterviewQuestion>,
-    @InjectRepository(InterviewQuestionBank)
-    private questionBankRepository: Repository<InterviewQuestionBank>,
     @InjectRepository(User)
     private userRepository: Repository<User>,
     private eventEmitter: EventEmitter2,
-    private configService: ConfigService,
-    private httpService: HttpService,
-  ) {
-    this.aiServiceUrl = this.configService.get('AI_SERVICE_URL', 'http://localhost:8000');
-    this.speechServiceUrl = this.configService.get('SPEECH_SERVICE_URL', 'http://localhost:8001');
-  }
+    @Inject(INTERVIEW_AI_PROVIDER)
+    private aiProvider: InterviewAiProvider,
+    private localAiProvider: LocalInterviewAiProvider,
+    private speechAnalysisService: SpeechAnalysisService,
+  ) {}
 
   async createAiMockInterview(
     createDto: CreateAiMockInterviewDto,
@@ -91,6 +72,7 @@ export class AiMockInterviewService {
         jobRole: createDto.jobRole,
         jobDescription: createDto.jobDescription,
         companyName: createDto.companyName,
+        interviewType: createDto.interviewType || InterviewType.TECHNICAL,
         difficulty: createDto.difficulty || InterviewDifficulty.MEDIUM,
         durationMinutes: createDto.durationMinutes || 30,
         format: createDto.format || InterviewFormat.VOICE_ONLY,
@@ -201,6 +183,11 @@ export class AiMockInterviewService {
       // Start the interview
       interview.start();
 
+      // Open with the first planned question
+      if (interview.questions?.length) {
+        interview.addTranscriptEntry('ai', interview.questions[0].text);
+      }
+
       // Update metadata with session info
       interview.metadata = {
         ...interview.metadata,
@@ -211,9 +198,6 @@ export class AiMockInterviewService {
 
       const updatedInterview = await this.aiMockInterviewRepository.save(interview);
 
-      // Initialize AI session
-      await this.initializeAiSession(updatedInterview);
-
       // Emit event
       this.eventEmitter.emit('ai.interview.started', {
         interview: updatedInterview,
@@ -233,7 +217,15 @@ export class AiMockInterviewService {
     id: string,
     responseDto: SubmitAiResponseDto,
     user: User,
-  ): Promise<{ feedback: string; score: number; nextQuestion?: string }> {
+    speechAnalysis?: SpeechAnalysisResult,
+  ): Promise<{
+    feedback: string;
+    score: number;
+    nextQuestion?: string;
+    strengths?: string[];
+    suggestions?: string[];
+    speechAnalysis?: SpeechAnalysisResult;
+  }> {
     try {
       const interview = await this.getAiMockInterviewById(id, user);
 
@@ -241,27 +233,27 @@ export class AiMockInterviewService {
         throw new BadRequestException('Interview is not in progress');
       }
 
-      // Add response to transcript
-      interview.addTranscriptEntry('user', responseDto.response);
-
-      // Analyze response with AI
-      const analysis = await this.analyzeResponse(
-        responseDto.response,
-        responseDto.questionText,
-        interview.jobRole,
-        interview.difficulty,
-      );
+      // Analyze the recorded answer, which also provides a transcript for audio-only answers
+      if (!speechAnalysis && responseDto.audioFileId) {
+        speechAnalysis = await this.speechAnalysisService.analyzeFile(responseDto.audioFileId, user);
+      }
+      if (speechAnalysis) {
+        this.speechAnalysisService.applyToInterview(interview, speechAnalysis);
+      }
 
-      // Process audio if provided
-      let speechAnalysis: SpeechAnalysisResult | undefined;
-      if (responseDto.audioUrl) {
-        speechAnalysis = await this.analyzeSpeech(responseDto.audioUrl);
-        interview.updatePerformanceMetrics({
-          confidenceLevel: speechAnalysis.confidence,
-          fillerWordCount: (interview.performanceMetrics.fillerWordCount || 0) + speechAnalysis.fillerWords,
-        });
+      const response = responseDto.response?.trim() || speechAnalysis?.transcript?.trim();
+      if (!response) {
+        throw new BadRequestException('The answer is empty or the audio could not be transcribed');
       }
 
+      // Add response to transcript
+      interview.addTranscriptEntry('user', response);
+
+      // Score response with the AI provider
+      const analysis = await this.runAi(interview, 'scoreAnswer', provider =>
+        provider.scoreAnswer(this.buildAiContext(interview), responseDto.questionText, response),
+      );
+
       // Update analytics
       interview.analytics = {
         ...interview.analytics,
@@ -270,8 +262,12 @@ export class AiMockInterviewService {
       };
 
       // Add skill score
-      if (responseDto.skillCategory) {
-        interview.addSkillScore(responseDto.skillCategory, analysis.score);
+      const plannedQuestion = interview.questions?.find(
+        question => question.text === responseDto.questionText,
+      );
+      const skillCategory = responseDto.skillCategory || plannedQuestion?.skillCategory;
+      if (skillCategory) {
+        interview.addSkillScore(skillCategory, analysis.score);
       }
 
       // Generate next question or complete interview
@@ -280,7 +276,11 @@ export class AiMockInterviewService {
       const maxQuestions = this.calculateMaxQuestions(interview.durationMinutes);
 
       if (questionsAnswered < maxQuestions) {
-        nextQuestion = await this.generateNextQuestion(interview, responseDto.response);
+        nextQuestion = await this.generateNextQuestion(
+          interview,
+          response,
+          !!plannedQuestion && analysis.score < FOLLOW_UP_SCORE_THRESHOLD,
+        );
         interview.addTranscriptEntry('ai', nextQuestion);
       } else {
         // Complete interview
@@ -293,6 +293,9 @@ export class AiMockInterviewService {
         feedback: analysis.feedback,
         score: analysis.score,
         nextQuestion,
+        strengths: analysis.strengths,
+        suggestions: analysis.suggestions,
+        speechAnalysis,
       };
     } catch (error) {
       this.logger.error(`Failed to submit AI response for interview ${id}`, error);
@@ -304,11 +307,13 @@ export class AiMockInterviewService {
     try {
       // Complete the interview
       interview.complete();
-      console.log('Interview Complete! ')
 
       // Generate comprehensive feedback
-      // const comprehensiveFeedback = await this.generateComprehensiveFeedback(interview);
-      // interview.aiFeedback = comprehensiveFeedback;
+      const comprehensiveFeedback = await this.generateComprehensiveFeedback(interview);
+      interview.aiFeedback = comprehensiveFeedback;
+      interview.overallScore = interview.overallScore ?? comprehensiveFeedback.overallScore;
+      interview.strengths = comprehensiveFeedback.strengths;
+      interview.improvementAreas = comprehensiveFeedback.improvementAreas;
 
       // Generate follow-up recommendations
       interview.followUpRecommendations = await this.generateRecommendations(interview);
@@ -389,161 +394,151 @@ export class AiMockInterviewService {
     }
   }
 
-  // Private helper methods
-  private async generateAiQuestions(interview: AiMockInterview): Promise<void> {
-    try {
-      const response = await firstValueFrom(
-        this.httpService.post<AIServiceResponse>(`${this.aiServiceUrl}/generate-questions`, {
-          jobRole: interview.jobRole,
-          jobDescription: interview.jobDescription,
-          difficulty: interview.difficulty,
-          questionTypes: interview.config.questionTypes,
-          focusAreas: interview.config.focusAreas,
-          duration: interview.durationMinutes,
-        })
-      );
+  /**
+   * The question awaiting an answer, read from the transcript so a dropped
+   * connection can resume where it left off
+   */
+  getCurrentQuestion(interview: AiMockInterview): CurrentAiQuestion | null {
+    const conversations = interview.transcript.conversations || [];
+    const lastEntry = conversations[conversations.length - 1];
 
-      interview.aiModelVersion = response.data.sessionId;
-      interview.analytics = {
-        ...interview.analytics,
-        questionsAsked: response.data.questions.length,
-      };
-
-      await this.aiMockInterviewRepository.save(interview);
-    } catch (error) {
-      this.logger.error('Failed to generate AI questions', error);
-      // Fallback to predefined questions
-      await this.generateFallbackQuestions(interview);
+    if (interview.status !== AiInterviewStatus.IN_PROGRESS || lastEntry?.speaker !== 'ai') {
+      return null;
     }
+
+    const plannedQuestion = interview.questions?.find(
+      question => question.text === lastEntry.message,
+    );
+
+    return {
+      text: lastEntry.message,
+      questionNumber: conversations.filter(entry => entry.speaker === 'ai').length,
+      totalQuestions: this.calculateMaxQuestions(interview.durationMinutes),
+      isFollowUp: !plannedQuestion,
+      skillCategory: plannedQuestion?.skillCategory,
+      askedAt: new Date(lastEntry.timestamp),
+      timeLimitSeconds: this.getQuestionTimeLimitSeconds(interview),
+    };
   }
 
-  private async generateFallbackQuestions(interview: AiMockInterview): Promise<void> {
-    // Generate basic questions based on job role and difficulty
-    const questionBank = await this.questionBankRepository.findOne({
-      where: { isPublic: true, difficulty: interview.difficulty },
-      relations: ['questions'],
-    });
+  getQuestionTimeLimitSeconds(interview: AiMockInterview): number {
+    const maxQuestions = Math.max(this.calculateMaxQuestions(interview.durationMinutes), 1);
+    return Math.floor((interview.durationMinutes * 60) / maxQuestions);
+  }
 
-    if (questionBank && questionBank.questions.length > 0) {
-      const selectedQuestions = questionBank.getRandomQuestions(5, interview.difficulty);
-      interview.analytics = {
-        ...interview.analytics,
-        questionsAsked: selectedQuestions.length,
-      };
-    }
+  /**
+   * Analyze and transcribe a streamed audio answer
+   */
+  async analyzeAudioAnswer(audio: Buffer, mimeType: string): Promise<SpeechAnalysisResult> {
+    return this.speechAnalysisService.analyzeAudio(audio, mimeType);
   }
 
-  private async initializeAiSession(interview: AiMockInterview): Promise<void> {
-    try {
-      await firstValueFrom(
-        this.httpService.post(`${this.aiServiceUrl}/initialize-session`, {
-          interviewId: interview.id,
-          jobRole: interview.jobRole,
-          difficulty: interview.difficulty,
-          format: interview.format,
-          config: interview.config,
-        })
-      );
-    } catch (error) {
-      this.logger.error('Failed to initialize AI session', error);
-    }
+  // Private helper methods
+  private buildAiContext(interview: AiMockInterview): InterviewAiContext {
+    return {
+      interviewType: interview.interviewType || InterviewType.TECHNICAL,
+      jobRole: interview.jobRole,
+      jobDescription: interview.jobDescription,
+      companyName: interview.companyName,
+      difficulty: interview.difficulty,
+      focusAreas: interview.config?.focusAreas,
+      customInstructions: interview.config?.customInstructions,
+    };
   }
 
-  private async analyzeResponse(
-    response: string,
-    questionText: string,
-    jobRole: string,
-    difficulty: InterviewDifficulty,
-  ): Promise<{ score: number; feedback: string }> {
-    try {
-      const analysisResponse = await firstValueFrom(
-        this.httpService.post(`${this.aiServiceUrl}/analyze-response`, {
-          response,
-          questionText,
-          jobRole,
-          difficulty,
-        })
-      );
+  private getTranscriptTurns(interview: AiMockInterview): TranscriptTurn[] {
+    return (interview.transcript.conversations || []).map(({ speaker, message }) => ({
+      speaker,
+      message,
+    }));
+  }
 
-      return {
-        score: analysisResponse.data.score,
-        feedback: analysisResponse.data.feedback,
-      };
+  /**
+   * Call the configured AI provider, falling back to the local provider when it
+   * fails, and record token usage and cost on the interview
+   */
+  private async runAi<T>(
+    interview: AiMockInterview,
+    operation: string,
+    call: (provider: InterviewAiProvider) => Promise<InterviewAiResult<T>>,
+  ): Promise<T> {
+    let result: InterviewAiResult<T>;
+
+    try {
+      result = await call(this.aiProvider);
     } catch (error) {
-      this.logger.error('Failed to analyze response with AI', error);
-      // Fallback scoring
-      return {
-        score: this.calculateFallbackScore(response),
-        feedback: 'Thank you for your response. Please continue with the next question.',
-      };
+      if (this.aiProvider === this.localAiProvider) throw error;
+
+      this.logger.warn(
+        `AI provider ${this.aiProvider.name} failed for ${operation}, using local provider: ${error.message}`,
+      );
+      result = await call(this.localAiProvider);
     }
+
+    interview.recordAiUsage(operation, result.provider, result.model, result.usage);
+    return result.data;
   }
 
-  private async analyzeSpeech(audioUrl: string): Promise<SpeechAnalysisResult> {
-    try {
-      const response = await firstValueFrom(
-        this.httpService.post(`${this.speechServiceUrl}/analyze`, {
-          audioUrl,
-        })
-      );
+  private async generateAiQuestions(interview: AiMockInterview): Promise<void> {
+    const questions = await this.runAi(interview, 'generateQuestions', provider =>
+      provider.generateQuestions(
+        this.buildAiContext(interview),
+        this.calculateMaxQuestions(interview.durationMinutes),
+      ),
+    );
+
+    interview.questions = questions;
+    interview.analytics = {
+      ...interview.analytics,
+      questionsAsked: questions.length,
+    };
 
-      return response.data;
-    } catch (error) {
-      this.logger.error('Failed to analyze speech', error);
-      return {
-        confidence: 70,
-        pace: 75,
-        clarity: 80,
-        fillerWords: 2,
-        sentiment: 'neutral',
-        keywords: [],
-      };
-    }
+    await this.aiMockInterviewRepository.save(interview);
   }
 
+  /**
+   * Ask a follow-up when the last planned answer was weak or the plan is
+   * exhausted, otherwise move on to the next planned question
+   */
   private async generateNextQuestion(
     interview: AiMockInterview,
     previousResponse: string,
+    needsFollowUp: boolean,
   ): Promise<string> {
-    try {
-      const response = await firstValueFrom(
-        this.httpService.post(`${this.aiServiceUrl}/next-question`, {
-          interviewId: interview.id,
-          previousResponse,
-          context: interview.transcript,
-        })
-      );
+    const plannedIndex =
+      (interview.analytics.questionsAnswered || 0) - (interview.analytics.followUpsAsked || 0);
+    const plannedQuestion = interview.questions?.[plannedIndex];
 
-      return response.data.question;
-    } catch (error) {
-      this.logger.error('Failed to generate next question', error);
-      return this.getFallbackQuestion(interview.jobRole);
+    if (plannedQuestion && !needsFollowUp) {
+      return plannedQuestion.text;
     }
-  }
 
-  private async generateComprehensiveFeedback(interview: AiMockInterview): Promise<AIFeedbackResponse> {
-    try {
-      console.log({
-          interviewId: interview.id,
-          transcript: interview.transcript,
-          skillScores: interview.skillScores,
-          performanceMetrics: interview.performanceMetrics,
-        })
-      const response = await firstValueFrom(
-        this.httpService.post(`${this.aiServiceUrl}/comprehensive-feedback`, {
-          interviewId: interview.id,
-          transcript: interview.transcript,
-          skillScores: interview.skillScores,
-          performanceMetrics: interview.performanceMetrics,
-        })
-      );
+    const followUp = await this.runAi(interview, 'generateFollowUp', provider =>
+      provider.generateFollowUp(
+        this.buildAiContext(interview),
+        this.getTranscriptTurns(interview),
+        previousResponse,
+      ),
+    );
+
+    interview.analytics = {
+      ...interview.analytics,
+      followUpsAsked: (interview.analytics.followUpsAsked || 0) + 1,
+    };
 
-      return response.data;
-    } catch (error) {
-      console.log('error: ', error)
-      this.logger.error('Failed to generate comprehensive feedback', error);
-      return this.generateFallbackFeedback(interview);
-    }
+    return followUp.question;
+  }
+
+  private async generateComprehensiveFeedback(
+    interview: AiMockInterview,
+  ): Promise<AiMockInterview['aiFeedback']> {
+    return this.runAi(interview, 'generateFeedback', provider =>
+      provider.generateFeedback(
+        this.buildAiContext(interview),
+        this.getTranscriptTurns(interview),
+        interview.skillScores,
+      ),
+    );
   }
 
   private async generateRecommendations(interview: AiMockInterview): Promise<any> {
@@ -554,7 +549,9 @@ export class AiMockInterviewService {
     };
 
     // Generate recommendations based on improvement areas
-    if (interview.improvementAreas.includes('communication')) {
+    const improvementAreas = interview.improvementAreas.map(area => area.toLowerCase());
+
+    if (improvementAreas.some(area => area.includes('communication'))) {
       recommendations.courses.push({
         title: 'Effective Communication Skills',
         description: 'Improve your verbal and non-verbal communication',
@@ -562,7 +559,7 @@ export class AiMockInterviewService {
       });
     }
 
-    if (interview.improvementAreas.includes('technical')) {
+    if (improvementAreas.some(area => area.includes('technical'))) {
       recommendations.courses.push({
         title: `Advanced ${interview.jobRole} Skills`,
         description: `Deepen your technical knowledge in ${interview.jobRole}`,
@@ -584,59 +581,6 @@ export class AiMockInterviewService {
     return Math.floor(durationMinutes / 6);
   }
 
-  private calculateFallbackScore(response: string): number {
-    // Simple scoring based on response length and keywords
-    const wordCount = response.split(' ').length;
-    let score = Math.min(wordCount * 2, 80); // Base score from word count
-
-    // Bonus for professional keywords
-    const professionalKeywords = ['experience', 'skills', 'project', 'team', 'challenge', 'solution'];
-    const keywordMatches = professionalKeywords.filter(keyword => 
-      response.toLowerCase().includes(keyword)
-    ).length;
-    
-    score += keywordMatches * 5;
-    
-    return Math.min(score, 100);
-  }
-
-  private getFallbackQuestion(jobRole: string): string {
-    const fallbackQuestions = [
-      `Tell me about a challenging project you worked on in your ${jobRole} role.`,
-      `How do you stay updated with the latest trends in ${jobRole}?`,
-      `Describe a time when you had to work with a difficult team member.`,
-      `What motivates you in your professional career?`,
-      `How do you handle tight deadlines and pressure?`,
-    ];
-
-    return fallbackQuestions[Math.floor(Math.random() * fallbackQuestions.length)];
-  }
-
-  private generateFallbackFeedback(interview: AiMockInterview): AIFeedbackResponse {
-    const overallScore = interview.overallScore || 75;
-    
-    return {
-      overallScore,
-      strengths: overallScore >= 80 ? 
-        ['Good communication skills', 'Relevant experience'] :
-        ['Shows enthusiasm', 'Willing to learn'],
-      improvementAreas: overallScore < 70 ? 
-        ['Technical depth', 'Communication clarity'] :
-        ['Specific examples', 'Confidence'],
-      detailedAnalysis: {
-        communication: overallScore,
-        technicalKnowledge: overallScore - 10,
-        problemSolving: overallScore + 5,
-        leadership: overallScore - 5,
-        teamwork: overallScore,
-      },
-      recommendations: [
-        'Practice more technical questions',
-        'Prepare specific examples from your experience',
-      ],
-    };
-  }
-
   private calculateInterviewAnalytics(interviews: AiMockInterview[]): any {
     const totalInterviews = interviews.length;
     const averageScore = interviews.reduce((sum, i) => sum + (i.overallScore || 0), 0) / totalInterviews;
@@ -0,0 +1,203 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, MoreThanOrEqual } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { CalendarFeed } from '../../../database/entities/calendar-feed.entity';
+import {
+  InterviewSession,
+  InterviewStatus,
+} from '../../../database/entities/interview-session.entity';
+import { Lesson, LessonType } from '../../../database/entities/lesson.entity';
+import { Assessment, AssessmentStatus } from '../../../database/entities/assessment.entity';
+import { Enrollment, EnrollmentStatus } from '../../../database/entities/enrollment.entity';
+import { User } from '../../../database/entities/user.entity';
+import { InterviewSessionService } from './interview-session.service';
+import { buildCalendar, IcsEvent } from '../calendar/ics';
+import {
+  interviewEvent,
+  liveSessionEvent,
+  assessmentDeadlineEvent,
+} from '../calendar/calendar-events';
+import { CalendarFeedStatusDto, CalendarFeedUrlDto } from '../dto/calendar-feed.dto';
+
+// Recent events stay in the feed so calendars don't drop them as soon as they start
+const LOOKBACK_DAYS = 30;
+const DAY = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class CalendarFeedService {
+  private readonly logger = new Logger(CalendarFeedService.name);
+
+  constructor(
+    @InjectRepository(CalendarFeed)
+    private calendarFeedRepository: Repository<CalendarFeed>,
+    @InjectRepository(InterviewSession)
+    private interviewSessionRepository: Repository<InterviewSession>,
+    @InjectRepository(Lesson)
+    private lessonRepository: Repository<Lesson>,
+    @InjectRepository(Assessment)
+    private assessmentRepository: Repository<Assessment>,
+    @InjectRepository(Enrollment)
+    private enrollmentRepository: Repository<Enrollment>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    private interviewSessionService: InterviewSessionService,
+    private configService: ConfigService,
+  ) {}
+
+  async getFeedStatus(user: User): Promise<CalendarFeedStatusDto> {
+    const feed = await this.calendarFeedRepository.findOne({ where: { userId: user.id } });
+
+    return {
+      active: !!feed,
+      issuedAt: feed?.updatedAt,
+      lastAccessedAt: feed?.lastAccessedAt,
+    };
+  }
+
+  /**
+   * Issue a new feed token, invalidating any previous URL. The token is only
+   * returned here; the stored hash cannot be turned back into a URL
+   */
+  async rotateFeed(user: User): Promise<CalendarFeedUrlDto> {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const existing = await this.calendarFeedRepository.findOne({ where: { userId: user.id } });
+
+    const feed = await this.calendarFeedRepository.save(
+      this.calendarFeedRepository.create({
+        ...existing,
+        userId: user.id,
+        tokenHash: this.hashToken(token),
+        lastAccessedAt: null,
+      }),
+    );
+
+    this.logger.log(`Calendar feed ${existing ? 'rotated' : 'created'} for user ${user.id}`);
+
+    return {
+      feedUrl: this.feedUrl(token),
+      issuedAt: feed.updatedAt,
+    };
+  }
+
+  async revokeFeed(user: User): Promise<void> {
+    const result = await this.calendarFeedRepository.delete({ userId: user.id });
+    if (!result.affected) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+  }
+
+  /**
+   * Render the feed for a token as an iCalendar document
+   */
+  async renderFeed(token: string): Promise<string> {
+    const feed = await this.calendarFeedRepository.findOne({
+      where: { tokenHash: this.hashToken(token) },
+    });
+    if (!feed) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    const user = await this.userRepository.findOne({ where: { id: feed.userId } });
+    if (!user) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    const from = new Date(Date.now() - LOOKBACK_DAYS * DAY);
+    const [interviews, courseEvents] = await Promise.all([
+      this.interviewEvents(user, from),
+      this.courseEvents(user, from),
+    ]);
+
+    await this.calendarFeedRepository.update(feed.id, { lastAccessedAt: new Date() });
+
+    return buildCalendar({
+      method: 'PUBLISH',
+      name: 'Volkai HR Edu',
+      events: [...interviews, ...courseEvents].sort(
+        (a, b) => a.start.getTime() - b.start.getTime(),
+      ),
+    });
+  }
+
+  private async interviewEvents(user: User, from: Date): Promise<IcsEvent[]> {
+    const sessions = await this.interviewSessionRepository
+      .createQueryBuilder('session')
+      .leftJoinAndSelect('session.candidate', 'candidate')
+      .leftJoinAndSelect('session.job', 'job')
+      .addSelect('session.meetingLinks')
+      .where(
+        '(session.candidateId = :userId OR session.interviewerId = :userId ' +
+          'OR :userId = ANY(session.panelInterviewerIds))',
+        { userId: user.id },
+      )
+      .andWhere('session.status IN (:...statuses)', {
+        statuses: [
+          InterviewStatus.SCHEDULED,
+          InterviewStatus.IN_PROGRESS,
+          InterviewStatus.CANCELLED,
+        ],
+      })
+      .andWhere('session.scheduledAt >= :from', { from })
+      .orderBy('session.scheduledAt', 'ASC')
+      .getMany();
+
+    const uidDomain = this.interviewSessionService.calendarUidDomain;
+    return sessions.map(session =>
+      interviewEvent(session, { uidDomain, meetingUrl: session.getMeetingUrl(user.id) }),
+    );
+  }
+
+  private async courseEvents(user: User, from: Date): Promise<IcsEvent[]> {
+    const enrollments = await this.enrollmentRepository.find({
+      where: { userId: user.id, status: EnrollmentStatus.ACTIVE },
+    });
+    const courseIds = enrollments.map(enrollment => enrollment.courseId);
+    if (courseIds.length === 0) return [];
+
+    const [lessons, assessments] = await Promise.all([
+      this.lessonRepository
+        .createQueryBuilder('lesson')
+        .innerJoinAndSelect('lesson.module', 'module')
+        .leftJoinAndSelect('module.course', 'course')
+        .where('module.courseId IN (:...courseIds)', { courseIds })
+        .andWhere('lesson.type = :type', { type: LessonType.LIVE_SESSION })
+        .andWhere('lesson.isPublished = true')
+        .getMany(),
+      this.assessmentRepository.find({
+        where: {
+          courseId: In(courseIds),
+          status: AssessmentStatus.PUBLISHED,
+          isPublished: true,
+          availableUntil: MoreThanOrEqual(from),
+        },
+        relations: ['course'],
+      }),
+    ]);
+
+    const uidDomain = this.interviewSessionService.calendarUidDomain;
+    const events = [
+      ...lessons.map(lesson =>
+        liveSessionEvent(lesson, { uidDomain, courseTitle: lesson.module?.course?.title }),
+      ),
+      ...assessments.map(assessment =>
+        assessmentDeadlineEvent(assessment, { uidDomain, courseTitle: assessment.course?.title }),
+      ),
+    ];
+
+    return events.filter((event): event is IcsEvent => !!event && event.start >= from);
+  }
+
+  private feedUrl(token: string): string {
+    const apiBaseUrl = this.configService.get<string>(
+      'API_BASE_URL',
+      'http://localhost:3000/api/v1',
+    );
+    return `${apiBaseUrl.replace(/\/$/, '')}/interviews/calendar/feed/${token}.ics`;
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
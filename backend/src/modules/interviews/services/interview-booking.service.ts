@@ -0,0 +1,512 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, DataSource, EntityManager, In } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import {
+  InterviewBookingLink,
+  BookingLinkStatus,
+} from '../../../database/entities/interview-booking-link.entity';
+import { InterviewSession } from '../../../database/entities/interview-session.entity';
+import { HRProfile } from '../../../database/entities/hr-profile.entity';
+import { User } from '../../../database/entities/user.entity';
+import { Job } from '../../../database/entities/job.entity';
+import { EmailService } from '../../email/email.service';
+import { InterviewSessionService } from './interview-session.service';
+import { InterviewMeetingService } from './interview-meeting.service';
+import { findAvailableSlots, WeeklySchedule } from '../scheduling/availability';
+import { isValidTimezone, formatInTimezone } from '../../../common/utils/zoned-time';
+import {
+  UpdateAvailabilityDto,
+  CreateBookingLinkDto,
+  ListBookingLinksDto,
+  BookSlotDto,
+  BookingPageDto,
+} from '../dto/interview-booking.dto';
+
+const HOUR = 60 * 60 * 1000;
+
+@Injectable()
+export class InterviewBookingService {
+  private readonly logger = new Logger(InterviewBookingService.name);
+
+  constructor(
+    @InjectRepository(InterviewBookingLink)
+    private bookingLinkRepository: Repository<InterviewBookingLink>,
+    @InjectRepository(HRProfile)
+    private hrProfileRepository: Repository<HRProfile>,
+    @InjectRepository(InterviewSession)
+    private interviewSessionRepository: Repository<InterviewSession>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    @InjectRepository(Job)
+    private jobRepository: Repository<Job>,
+    private interviewSessionService: InterviewSessionService,
+    private meetingService: InterviewMeetingService,
+    private emailService: EmailService,
+    private dataSource: DataSource,
+    private eventEmitter: EventEmitter2,
+    private configService: ConfigService,
+  ) {}
+
+  async getAvailability(user: User): Promise<WeeklySchedule> {
+    const profile = await this.hrProfileRepository.findOne({ where: { userId: user.id } });
+    const schedule = profile?.workSchedule || {};
+
+    return {
+      timezone: schedule.timezone || 'UTC',
+      workingHours: schedule.workingHours || {},
+      blackoutDates: schedule.blackoutDates || [],
+    };
+  }
+
+  /**
+   * Publish the user's interview availability on their HR profile work schedule
+   */
+  async updateAvailability(updateDto: UpdateAvailabilityDto, user: User): Promise<WeeklySchedule> {
+    if (updateDto.timezone && !isValidTimezone(updateDto.timezone)) {
+      throw new BadRequestException(`Unknown timezone: ${updateDto.timezone}`);
+    }
+    for (const [day, hours] of Object.entries(updateDto.workingHours || {})) {
+      if (hours && hours.end <= hours.start) {
+        throw new BadRequestException(`Working hours on ${day} must end after they start`);
+      }
+    }
+    for (const blackout of updateDto.blackoutDates || []) {
+      if (blackout.end < blackout.start) {
+        throw new BadRequestException('Blackout dates must end on or after their start');
+      }
+    }
+
+    let profile = await this.hrProfileRepository.findOne({ where: { userId: user.id } });
+    if (!profile) {
+      profile = this.hrProfileRepository.create({
+        userId: user.id,
+        workSchedule: HRProfile.getDefaultWorkSchedule(),
+      });
+    }
+
+    profile.updateWorkSchedule({
+      ...(updateDto.timezone !== undefined && { timezone: updateDto.timezone }),
+      ...(updateDto.workingHours !== undefined && { workingHours: { ...updateDto.workingHours } }),
+      ...(updateDto.blackoutDates !== undefined && { blackoutDates: updateDto.blackoutDates }),
+    });
+    await this.hrProfileRepository.save(profile);
+
+    this.logger.log(`Interview availability updated for user ${user.id}`);
+    return this.getAvailability(user);
+  }
+
+  /**
+   * Create a booking link for a candidate and email it to them. The raw
+   * token is only returned here
+   */
+  async createBookingLink(
+    createDto: CreateBookingLinkDto,
+    user: User,
+  ): Promise<{ link: InterviewBookingLink; bookingUrl: string }> {
+    if (!user.organizationId) {
+      throw new ForbiddenException('You must belong to an organization to send booking links');
+    }
+
+    const windowStart = new Date(createDto.windowStart);
+    const windowEnd = new Date(createDto.windowEnd);
+    if (windowEnd <= windowStart || windowEnd <= new Date()) {
+      throw new BadRequestException(
+        'The booking window must end after it starts and in the future',
+      );
+    }
+
+    const candidate = await this.userRepository.findOne({ where: { id: createDto.candidateId } });
+    if (!candidate) {
+      throw new NotFoundException('Candidate not found');
+    }
+
+    let job: Job | null = null;
+    if (createDto.jobId) {
+      job = await this.jobRepository.findOne({
+        where: { id: createDto.jobId, organizationId: user.organizationId },
+      });
+      if (!job) {
+        throw new NotFoundException('Job not found');
+      }
+    }
+
+    const interviewerIds = [...new Set(createDto.interviewerIds)];
+    // The public link exposes the interviewers' free time and books into their calendars
+    const interviewersInOrganization = await this.userRepository.count({
+      where: { id: In(interviewerIds), organizationId: user.organizationId },
+    });
+    if (interviewersInOrganization !== interviewerIds.length) {
+      throw new BadRequestException('Interviewers must belong to the organization');
+    }
+
+    const profiles = await this.hrProfileRepository.find({ where: { userId: In(interviewerIds) } });
+    const withoutAvailability = interviewerIds.filter(id => {
+      const profile = profiles.find(p => p.userId === id);
+      return !profile || !Object.keys(profile.workSchedule?.workingHours || {}).length;
+    });
+    if (withoutAvailability.length) {
+      throw new BadRequestException(
+        `Interviewers have not published availability: ${withoutAvailability.join(', ')}`,
+      );
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const link = await this.bookingLinkRepository.save(
+      this.bookingLinkRepository.create({
+        organizationId: user.organizationId,
+        tokenHash: this.hashToken(token),
+        candidateId: candidate.id,
+        jobId: job?.id,
+        interviewerIds,
+        type: createDto.type,
+        mode: createDto.mode,
+        durationMinutes: createDto.durationMinutes || 60,
+        windowStart,
+        windowEnd,
+        minNoticeHours: createDto.minNoticeHours ?? 24,
+        rescheduleDeadlineHours: createDto.rescheduleDeadlineHours ?? 24,
+        expiresAt: createDto.expiresAt ? new Date(createDto.expiresAt) : windowEnd,
+        createdById: user.id,
+      }),
+    );
+
+    const bookingUrl = this.bookingUrl(token);
+    try {
+      await this.emailService.sendInterviewBookingInvite(candidate.email, {
+        candidateName: candidate.firstName || candidate.email,
+        jobTitle: job?.title || 'Interview',
+        bookingUrl,
+        durationMinutes: link.durationMinutes,
+        expiresAt: formatInTimezone(link.expiresAt),
+        message: createDto.message,
+      });
+    } catch (error) {
+      this.logger.warn(`Failed to email booking link ${link.id}: ${error.message}`);
+    }
+
+    this.logger.log(`Booking link created: ${link.id} by user ${user.id}`);
+    return { link, bookingUrl };
+  }
+
+  async listBookingLinks(query: ListBookingLinksDto, user: User): Promise<InterviewBookingLink[]> {
+    return this.bookingLinkRepository.find({
+      where: {
+        organizationId: user.organizationId,
+        ...(query.status && { status: query.status }),
+        ...(query.candidateId && { candidateId: query.candidateId }),
+      },
+      relations: ['candidate', 'job'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Stop a link from being used. A session that was already booked is kept
+   */
+  async cancelBookingLink(id: string, user: User): Promise<void> {
+    const link = await this.bookingLinkRepository.findOne({
+      where: { id, organizationId: user.organizationId },
+    });
+    if (!link) {
+      throw new NotFoundException('Booking link not found');
+    }
+
+    link.status = BookingLinkStatus.CANCELLED;
+    await this.bookingLinkRepository.save(link);
+    this.logger.log(`Booking link cancelled: ${id} by user ${user.id}`);
+  }
+
+  /**
+   * What the candidate sees when opening the link: the booked slot, if any,
+   * and the free slots they can book or move to
+   */
+  async getBookingPage(token: string): Promise<BookingPageDto> {
+    const link = await this.findUsableLink(token);
+    const session = link.interviewSessionId
+      ? await this.interviewSessionRepository.findOne({ where: { id: link.interviewSessionId } })
+      : null;
+    const canReschedule = !!session?.canReschedule;
+
+    return {
+      status: link.status,
+      jobTitle: link.job?.title,
+      type: link.type,
+      mode: link.mode,
+      durationMinutes: link.durationMinutes,
+      scheduledAt: session?.scheduledAt,
+      canReschedule,
+      slots:
+        link.isBookable || canReschedule
+          ? await this.computeSlots(link, { excludeSessionId: session?.id })
+          : [],
+    };
+  }
+
+  /**
+   * Book one of the offered slots. The link row and every participant are
+   * locked so two bookings cannot take the same interviewer's time
+   */
+  async bookSlot(token: string, bookDto: BookSlotDto): Promise<InterviewSession> {
+    const scheduledAt = new Date(bookDto.scheduledAt);
+
+    const { link, session } = await this.dataSource.transaction(async manager => {
+      const link = await this.lockLink(manager, token);
+      if (link.status === BookingLinkStatus.BOOKED) {
+        throw new BadRequestException('This interview is already booked; reschedule it instead');
+      }
+      if (!link.isBookable) {
+        throw new BadRequestException('This booking link is no longer valid');
+      }
+
+      await this.lockParticipants(manager, link);
+      await this.assertSlotAvailable(manager, link, scheduledAt);
+
+      const [interviewerId, ...panelInterviewerIds] = link.interviewerIds;
+      const session = await manager.getRepository(InterviewSession).save(
+        manager.getRepository(InterviewSession).create({
+          organizationId: link.organizationId,
+          candidateId: link.candidateId,
+          interviewerId,
+          panelInterviewerIds,
+          jobId: link.jobId,
+          type: link.type,
+          mode: link.mode,
+          scheduledAt,
+          durationMinutes: link.durationMinutes,
+          allowReschedule: true,
+          rescheduleDeadlineHours: link.rescheduleDeadlineHours,
+          metadata: { bookingLinkId: link.id },
+        }),
+      );
+
+      link.status = BookingLinkStatus.BOOKED;
+      link.interviewSessionId = session.id;
+      link.bookedAt = new Date();
+      if (bookDto.timezone && isValidTimezone(bookDto.timezone)) {
+        link.candidateTimezone = bookDto.timezone;
+      }
+      await manager.getRepository(InterviewBookingLink).save(link);
+
+      return { link, session };
+    });
+
+    // Outside the transaction so provider calls never hold the participant locks
+    await this.meetingService.attachMeeting(session);
+    await this.interviewSessionService.sendInterviewNotifications(session, 'scheduled', {
+      email: false,
+    });
+    this.eventEmitter.emit('interview.scheduled', {
+      session,
+      interviewId: session.id,
+      candidateId: session.candidateId,
+      interviewerId: session.interviewerId,
+      scheduledAt: session.scheduledAt,
+      bookingLinkId: link.id,
+    });
+    await this.sendConfirmations(link, session, token, false);
+
+    this.logger.log(`Interview ${session.id} booked through link ${link.id}`);
+    return session;
+  }
+
+  /**
+   * Move a booked interview to another offered slot, up to the session's
+   * reschedule deadline
+   */
+  async rescheduleBooking(token: string, bookDto: BookSlotDto): Promise<InterviewSession> {
+    const scheduledAt = new Date(bookDto.scheduledAt);
+
+    const { link, session } = await this.dataSource.transaction(async manager => {
+      const link = await this.lockLink(manager, token);
+      if (link.status !== BookingLinkStatus.BOOKED || !link.interviewSessionId) {
+        throw new BadRequestException('There is no booked interview to reschedule');
+      }
+
+      const session = await manager
+        .getRepository(InterviewSession)
+        .findOne({ where: { id: link.interviewSessionId } });
+      if (!session) {
+        throw new NotFoundException('Interview session not found');
+      }
+      if (!session.canReschedule) {
+        throw new ForbiddenException(
+          `Interviews can only be rescheduled up to ${session.rescheduleDeadlineHours} hours before they start`,
+        );
+      }
+
+      await this.lockParticipants(manager, link);
+      await this.assertSlotAvailable(manager, link, scheduledAt, session.id);
+
+      session.reschedule(scheduledAt);
+      await manager.getRepository(InterviewSession).save(session);
+
+      link.rescheduleCount += 1;
+      if (bookDto.timezone && isValidTimezone(bookDto.timezone)) {
+        link.candidateTimezone = bookDto.timezone;
+      }
+      await manager.getRepository(InterviewBookingLink).save(link);
+
+      return { link, session };
+    });
+
+    await this.meetingService.rescheduleMeeting(session);
+    await this.interviewSessionService.sendInterviewNotifications(session, 'rescheduled', {
+      email: false,
+    });
+    this.eventEmitter.emit('interview.rescheduled', {
+      session,
+      reason: 'Rescheduled by the candidate through the booking link',
+      bookingLinkId: link.id,
+    });
+    await this.sendConfirmations(link, session, token, true);
+
+    this.logger.log(`Interview ${session.id} rescheduled through link ${link.id}`);
+    return session;
+  }
+
+  // Private helper methods
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private bookingUrl(token: string): string {
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL', 'http://localhost:3000');
+    return `${frontendUrl}/interviews/book/${token}`;
+  }
+
+  private async findUsableLink(token: string): Promise<InterviewBookingLink> {
+    const link = await this.bookingLinkRepository.findOne({
+      where: { tokenHash: this.hashToken(token) },
+      relations: ['job'],
+    });
+    if (!link || link.status === BookingLinkStatus.CANCELLED) {
+      throw new NotFoundException('Booking link not found');
+    }
+    return link;
+  }
+
+  private async lockLink(manager: EntityManager, token: string): Promise<InterviewBookingLink> {
+    const link = await manager
+      .getRepository(InterviewBookingLink)
+      .createQueryBuilder('link')
+      .setLock('pessimistic_write')
+      .where('link.tokenHash = :tokenHash', { tokenHash: this.hashToken(token) })
+      .getOne();
+    if (!link || link.status === BookingLinkStatus.CANCELLED) {
+      throw new NotFoundException('Booking link not found');
+    }
+    return link;
+  }
+
+  // Transaction-scoped advisory locks, taken in a fixed order to avoid deadlocks
+  private async lockParticipants(
+    manager: EntityManager,
+    link: InterviewBookingLink,
+  ): Promise<void> {
+    const participants = [...new Set([link.candidateId, ...link.interviewerIds])].sort();
+    for (const participant of participants) {
+      await manager.query('SELECT pg_advisory_xact_lock(hashtext($1))', [participant]);
+    }
+  }
+
+  private async assertSlotAvailable(
+    manager: EntityManager,
+    link: InterviewBookingLink,
+    scheduledAt: Date,
+    excludeSessionId?: string,
+  ): Promise<void> {
+    const slots = await this.computeSlots(link, { excludeSessionId, manager });
+    if (!slots.some(slot => slot.getTime() === scheduledAt.getTime())) {
+      throw new BadRequestException('The selected slot is no longer available');
+    }
+  }
+
+  private async computeSlots(
+    link: InterviewBookingLink,
+    options: { excludeSessionId?: string; manager?: EntityManager } = {},
+  ): Promise<Date[]> {
+    const profileRepository = options.manager
+      ? options.manager.getRepository(HRProfile)
+      : this.hrProfileRepository;
+    const profiles = await profileRepository.find({ where: { userId: In(link.interviewerIds) } });
+    // An interviewer without a schedule has no free time
+    if (profiles.length < link.interviewerIds.length) return [];
+
+    const from = new Date(
+      Math.max(link.windowStart.getTime(), Date.now() + link.minNoticeHours * HOUR),
+    );
+    const to = new Date(link.windowEnd);
+    if (from >= to) return [];
+
+    const bufferMinutes = this.interviewSessionService.schedulingBufferMinutes;
+    const busy = await this.interviewSessionService.findBusyRanges(
+      [link.candidateId, ...link.interviewerIds],
+      new Date(from.getTime() - bufferMinutes * 60 * 1000),
+      new Date(to.getTime() + bufferMinutes * 60 * 1000),
+      options,
+    );
+
+    return findAvailableSlots({
+      schedules: profiles.map(profile => profile.workSchedule || {}),
+      busy,
+      from,
+      to,
+      durationMinutes: link.durationMinutes,
+      stepMinutes: Number(this.configService.get('INTERVIEW_SLOT_STEP_MINUTES', 30)),
+      bufferMinutes,
+    });
+  }
+
+  private async sendConfirmations(
+    link: InterviewBookingLink,
+    session: InterviewSession,
+    token: string,
+    rescheduled: boolean,
+  ): Promise<void> {
+    const [users, profiles, job, links] = await Promise.all([
+      this.userRepository.find({ where: { id: In([link.candidateId, ...link.interviewerIds]) } }),
+      this.hrProfileRepository.find({ where: { userId: In(link.interviewerIds) } }),
+      link.jobId ? this.jobRepository.findOne({ where: { id: link.jobId } }) : null,
+      this.meetingService.getMeetingLinks(session.id),
+    ]);
+    if (job) session.job = job;
+
+    for (const recipient of users) {
+      const isCandidate = recipient.id === link.candidateId;
+      const timezone = isCandidate
+        ? link.candidateTimezone
+        : profiles.find(profile => profile.userId === recipient.id)?.workSchedule?.timezone;
+      const meetingUrl = session.getMeetingUrl(recipient.id, links);
+      const invite = this.interviewSessionService.buildCalendarInvite(session, users, meetingUrl);
+
+      try {
+        await this.emailService.sendInterviewBookingConfirmation(
+          recipient.email,
+          {
+            recipientName: recipient.firstName || recipient.email,
+            jobTitle: job?.title || 'Interview',
+            scheduledAt: formatInTimezone(session.scheduledAt, timezone),
+            durationMinutes: session.durationMinutes || link.durationMinutes,
+            meetingUrl,
+            manageUrl: isCandidate ? this.bookingUrl(token) : undefined,
+            rescheduled,
+          },
+          invite,
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Failed to send booking confirmation to ${recipient.id}: ${error.message}`,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,295 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull, In, MoreThanOrEqual } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { HttpService } from '@nestjs/axios';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { firstValueFrom } from 'rxjs';
+import { Readable } from 'stream';
+import {
+  InterviewSession,
+  InterviewStatus,
+  InterviewMode,
+} from '../../../database/entities/interview-session.entity';
+import { File, FileOwnerType, FileAccessLevel } from '../../../database/entities/file.entity';
+import { Job } from '../../../database/entities/job.entity';
+import { S3Service } from '../../files/services/s3.service';
+import { FileManagerService } from '../../files/services/file-manager.service';
+import { JitsiMeetingProvider } from '../meetings/jitsi-meeting.provider';
+import { VideoIntegrationMeetingProvider } from '../meetings/video-integration-meeting.provider';
+import {
+  MeetingLinks,
+  MeetingProvider,
+  MeetingRequest,
+  ProvisionedMeeting,
+} from '../meetings/meeting-provider.types';
+
+const DAY = 24 * 60 * 60 * 1000;
+// Aborts a recording download that stops sending data, not a slow one
+const RECORDING_DOWNLOAD_IDLE_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Creates, moves and cancels the video meeting for interview sessions and
+ * stores provider recordings in the files module
+ */
+@Injectable()
+export class InterviewMeetingService {
+  private readonly logger = new Logger(InterviewMeetingService.name);
+
+  constructor(
+    @InjectRepository(InterviewSession)
+    private interviewSessionRepository: Repository<InterviewSession>,
+    @InjectRepository(Job)
+    private jobRepository: Repository<Job>,
+    @InjectRepository(File)
+    private fileRepository: Repository<File>,
+    private jitsiProvider: JitsiMeetingProvider,
+    private integrationProvider: VideoIntegrationMeetingProvider,
+    private s3Service: S3Service,
+    private fileManagerService: FileManagerService,
+    private httpService: HttpService,
+    private eventEmitter: EventEmitter2,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Create the meeting for a saved session. A failed provider never blocks
+   * scheduling; the session is left without a link and the error logged
+   */
+  async attachMeeting(session: InterviewSession): Promise<InterviewSession> {
+    if (session.mode !== InterviewMode.VIDEO && session.mode !== InterviewMode.AUDIO) {
+      return session;
+    }
+
+    const request = await this.meetingRequest(session);
+    let provisioned: ProvisionedMeeting | undefined;
+
+    for (const provider of await this.candidateProviders(session)) {
+      try {
+        provisioned = await provider.createMeeting(request);
+        break;
+      } catch (error) {
+        this.logger.warn(
+          `Failed to create ${provider.name} meeting for interview ${session.id}: ${error.message}`,
+        );
+      }
+    }
+
+    if (!provisioned) {
+      this.logger.error(`No meeting could be created for interview ${session.id}`);
+      return session;
+    }
+
+    await this.applyMeeting(session, provisioned);
+    this.logger.log(`Created ${provisioned.provider} meeting for interview ${session.id}`);
+    return session;
+  }
+
+  /**
+   * Move the meeting after the session was rescheduled
+   */
+  async rescheduleMeeting(session: InterviewSession): Promise<void> {
+    const provider = this.providerFor(session);
+    if (!provider) return;
+
+    try {
+      await this.applyMeeting(
+        session,
+        await provider.updateMeeting(await this.meetingRequest(session)),
+      );
+    } catch (error) {
+      this.logger.warn(`Failed to update meeting for interview ${session.id}: ${error.message}`);
+    }
+  }
+
+  async cancelMeeting(session: InterviewSession): Promise<void> {
+    const provider = this.providerFor(session);
+    if (!provider) return;
+
+    try {
+      await provider.cancelMeeting(await this.meetingRequest(session));
+    } catch (error) {
+      this.logger.warn(`Failed to cancel meeting for interview ${session.id}: ${error.message}`);
+    }
+  }
+
+  async getMeetingLinks(sessionId: string): Promise<MeetingLinks> {
+    const session = await this.interviewSessionRepository
+      .createQueryBuilder('session')
+      .select(['session.id'])
+      .addSelect('session.meetingLinks')
+      .where('session.id = :sessionId', { sessionId })
+      .getOne();
+
+    return session?.meetingLinks || {};
+  }
+
+  /**
+   * Copy the provider's recording into storage and point recordingUrl at the
+   * stored file. Returns false while the provider has no recording yet
+   */
+  async syncRecording(session: InterviewSession): Promise<boolean> {
+    const provider = this.providerFor(session);
+    if (!provider) return false;
+
+    const [recording] = await provider.listRecordings(await this.meetingRequest(session));
+    if (!recording) return false;
+
+    const response = await firstValueFrom(
+      this.httpService.get<Readable>(recording.downloadUrl, {
+        headers: recording.headers,
+        responseType: 'stream',
+        // Recordings can be large; the upload streams straight through
+        timeout: RECORDING_DOWNLOAD_IDLE_TIMEOUT_MS,
+      }),
+    );
+
+    const filename = `interview-${session.id}.mp4`;
+    const { storagePath } = await this.s3Service.uploadFile(response.data, {
+      filename,
+      mimeType: recording.mimeType,
+      sizeBytes: Number(response.headers['content-length']) || 0,
+      organizationId: session.organizationId,
+      userId: session.interviewerId,
+    });
+    // Providers may stream without a length, so read the stored size back
+    const { contentLength } = await this.s3Service.getFileMetadata(storagePath);
+
+    const file = await this.fileRepository.save(
+      this.fileRepository.create({
+        ownerId: session.interviewerId,
+        organizationId: session.organizationId,
+        ownerType: FileOwnerType.ORGANIZATION,
+        filename,
+        originalFilename: filename,
+        mimeType: recording.mimeType,
+        sizeBytes: contentLength,
+        storagePath,
+        accessLevel: FileAccessLevel.ORGANIZATION,
+        tags: ['interview-recording'],
+        description: 'Interview recording',
+        metadata: {
+          interviewSessionId: session.id,
+          meetingProvider: session.meetingProvider,
+          providerRecordingId: recording.id,
+        },
+      }),
+    );
+    await this.fileManagerService.processUploadedFile(file.id);
+
+    const apiBaseUrl = this.configService.get<string>(
+      'API_BASE_URL',
+      'http://localhost:3000/api/v1',
+    );
+    session.recordingUrl = `${apiBaseUrl.replace(/\/$/, '')}/files/${file.id}`;
+    session.metadata = { ...session.metadata, recordingFileId: file.id };
+    await this.interviewSessionRepository.update(session.id, {
+      recordingUrl: session.recordingUrl,
+      metadata: session.metadata,
+    });
+
+    this.eventEmitter.emit('interview.recording.available', {
+      interviewId: session.id,
+      fileId: file.id,
+    });
+
+    this.logger.log(`Stored recording for interview ${session.id} as file ${file.id}`);
+    return true;
+  }
+
+  // Scheduled tasks
+  @Cron(CronExpression.EVERY_HOUR)
+  async syncPendingRecordings(): Promise<void> {
+    const lookbackDays = Number(this.configService.get('INTERVIEW_RECORDING_SYNC_DAYS', 7));
+    // Sessions on providers without recordings would otherwise fill every batch
+    const recordingProviders = [this.jitsiProvider, this.integrationProvider]
+      .filter(provider => provider.recordsMeetings)
+      .map(provider => provider.name);
+
+    try {
+      const sessions = await this.interviewSessionRepository.find({
+        where: {
+          status: InterviewStatus.COMPLETED,
+          meetingProvider: In(recordingProviders),
+          recordingUrl: IsNull(),
+          endedAt: MoreThanOrEqual(new Date(Date.now() - lookbackDays * DAY)),
+        },
+        order: { endedAt: 'ASC' },
+        take: 50,
+      });
+
+      for (const session of sessions) {
+        try {
+          await this.syncRecording(session);
+        } catch (error) {
+          this.logger.warn(
+            `Failed to sync recording for interview ${session.id}: ${error.message}`,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error('Failed to sync interview recordings', error);
+    }
+  }
+
+  /**
+   * Providers to try for a new meeting, in order. INTERVIEW_MEETING_PROVIDER
+   * is auto (connected integration, else Jitsi), integration, jitsi or none
+   */
+  private async candidateProviders(session: InterviewSession): Promise<MeetingProvider[]> {
+    const setting = this.configService.get('INTERVIEW_MEETING_PROVIDER', 'auto');
+    if (setting === 'none') return [];
+    if (setting === 'jitsi') return [this.jitsiProvider];
+
+    const providers: MeetingProvider[] = [];
+    if (await this.integrationProvider.supports(session.organizationId)) {
+      providers.push(this.integrationProvider);
+    }
+    if (setting !== 'integration') {
+      providers.push(this.jitsiProvider);
+    }
+    return providers;
+  }
+
+  private providerFor(session: InterviewSession): MeetingProvider | undefined {
+    return [this.jitsiProvider, this.integrationProvider].find(
+      provider => session.meetingId && provider.name === session.meetingProvider,
+    );
+  }
+
+  private async meetingRequest(session: InterviewSession): Promise<MeetingRequest> {
+    const job =
+      session.job ||
+      (session.jobId ? await this.jobRepository.findOne({ where: { id: session.jobId } }) : null);
+
+    return {
+      title: `Interview${job ? `: ${job.title}` : ''}`,
+      startTime: new Date(session.scheduledAt),
+      durationMinutes: session.durationMinutes || 60,
+      description: `${session.type} interview`,
+      organizationId: session.organizationId,
+      meetingId: session.meetingId,
+      integrationId: session.meetingIntegrationId,
+    };
+  }
+
+  // Links are persisted but kept off the in-memory session, which callers return to clients
+  private async applyMeeting(
+    session: InterviewSession,
+    meeting: ProvisionedMeeting,
+  ): Promise<void> {
+    session.meetingProvider = meeting.provider;
+    session.meetingId = meeting.meetingId;
+    session.meetingIntegrationId = meeting.integrationId;
+    session.meetingUrl = meeting.links.candidate;
+
+    await this.interviewSessionRepository.update(session.id, {
+      meetingProvider: meeting.provider,
+      meetingId: meeting.meetingId,
+      meetingIntegrationId: meeting.integrationId || null,
+      meetingUrl: meeting.links.candidate,
+      meetingLinks: meeting.links,
+    });
+  }
+}
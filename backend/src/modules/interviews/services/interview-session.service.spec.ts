@@ -11,6 +11,8 @@ import { InterviewQuestion } from '../../../database/entities/interview-question
 import { Job } from '../../../database/entities/job.entity';
 import { User, UserRole } from '../../../database/entities/user.entity';
 import { Organization } from '../../../database/entities/organization.entity';
+import { EmailService } from '../../email/email.service';
+import { InterviewMeetingService } from './interview-meeting.service';
 
 describe('InterviewSessionService', () => {
   let service: InterviewSessionService;
@@ -93,6 +95,17 @@ describe('InterviewSessionService', () => {
     get: jest.fn(),
   };
 
+  const mockEmailService = {
+    sendInterviewCalendarUpdate: jest.fn(),
+  };
+
+  const mockMeetingService = {
+    attachMeeting: jest.fn(),
+    rescheduleMeeting: jest.fn(),
+    cancelMeeting: jest.fn(),
+    getMeetingLinks: jest.fn().mockResolvedValue({}),
+  };
+
   const mockDataSource = {
     createQueryRunner: jest.fn().mockReturnValue({
       connect: jest.fn(),
@@ -143,6 +156,14 @@ describe('InterviewSessionService', () => {
           provide: ConfigService,
           useValue: mockConfigService,
         },
+        {
+          provide: EmailService,
+          useValue: mockEmailService,
+        },
+        {
+          provide: InterviewMeetingService,
+          useValue: mockMeetingService,
+        },
       ],
     }).compile();
 
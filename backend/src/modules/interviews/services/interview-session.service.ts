@@ -1,6 +1,6 @@
 import { Injectable, Logger, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, DataSource } from 'typeorm';
+import { Repository, DataSource, EntityManager, In } from 'typeorm';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { ConfigService } from '@nestjs/config';
 import { InterviewSession, InterviewStatus, InterviewType, InterviewMode } from '../../../database/entities/interview-session.entity';
@@ -9,6 +9,11 @@ import { InterviewQuestion } from '../../../database/entities/interview-question
 import { User, UserRole } from '../../../database/entities/user.entity';
 import { Job } from '../../../database/entities/job.entity';
 import { Organization } from '../../../database/entities/organization.entity';
+import { EmailService, EmailAttachment } from '../../email/email.service';
+import { formatInTimezone } from '../../../common/utils/zoned-time';
+import { buildCalendar, IcsAttendee } from '../calendar/ics';
+import { interviewEvent, displayName } from '../calendar/calendar-events';
+import { InterviewMeetingService } from './interview-meeting.service';
 import {
   CreateInterviewSessionDto,
   UpdateInterviewSessionDto,
@@ -18,6 +23,7 @@ import {
   RescheduleInterviewDto,
   StartInterviewDto,
   CompleteInterviewDto,
+  InterviewJoinLinkDto,
 } from '../dto/interview-session.dto';
 
 @Injectable()
@@ -40,6 +46,8 @@ export class InterviewSessionService {
     private dataSource: DataSource,
     private eventEmitter: EventEmitter2,
     private configService: ConfigService,
+    private emailService: EmailService,
+    private meetingService: InterviewMeetingService,
   ) {}
 
   async createInterviewSession(
@@ -80,16 +88,20 @@ export class InterviewSessionService {
       }
 
       // Check for scheduling conflicts
-      await this.checkSchedulingConflicts(createDto.scheduledAt, createDto.candidateId, createDto.interviewerId);
-
-      // Generate meeting URL if needed
-      const meetingData = await this.generateMeetingUrl(createDto.mode);
+      await this.checkSchedulingConflicts(
+        createDto.scheduledAt,
+        createDto.candidateId,
+        [createDto.interviewerId, ...(createDto.panelInterviewerIds || [])],
+        undefined,
+        { durationMinutes: createDto.durationMinutes },
+      );
 
       // Create interview session
       const interviewSession = this.interviewSessionRepository.create({
         organizationId: user.organizationId,
         candidateId: createDto.candidateId,
         interviewerId: createDto.interviewerId,
+        panelInterviewerIds: createDto.panelInterviewerIds || [],
         jobId: createDto.jobId,
         type: createDto.type,
         mode: createDto.mode,
@@ -103,12 +115,13 @@ export class InterviewSessionService {
         preparationTime: createDto.preparationTime || 5,
         allowReschedule: createDto.allowReschedule ?? true,
         rescheduleDeadlineHours: createDto.rescheduleDeadlineHours || 24,
-        meetingUrl: meetingData.meetingUrl,
-        meetingId: meetingData.meetingId,
       });
 
       const savedSession = await this.interviewSessionRepository.save(interviewSession);
 
+      // Create the video meeting
+      await this.meetingService.attachMeeting(savedSession);
+
       // Send notifications
       await this.sendInterviewNotifications(savedSession, 'scheduled');
 
@@ -301,13 +314,15 @@ export class InterviewSessionService {
       await this.checkSchedulingConflicts(
         rescheduleDto.newScheduledAt,
         session.candidateId,
-        session.interviewerId,
-        session.id
+        session.getInterviewerIds(),
+        session.id,
+        { durationMinutes: session.durationMinutes },
       );
 
       // Reschedule
       session.reschedule(new Date(rescheduleDto.newScheduledAt));
       const updatedSession = await this.interviewSessionRepository.save(session);
+      await this.meetingService.rescheduleMeeting(updatedSession);
 
       // Send notifications
       await this.sendInterviewNotifications(updatedSession, 'rescheduled');
@@ -437,6 +452,7 @@ export class InterviewSessionService {
       // Cancel interview
       session.cancel(reason);
       const updatedSession = await this.interviewSessionRepository.save(session);
+      await this.meetingService.cancelMeeting(updatedSession);
 
       // Send notifications
       await this.sendInterviewNotifications(updatedSession, 'cancelled');
@@ -457,6 +473,47 @@ export class InterviewSessionService {
     }
   }
 
+  /**
+   * The caller's own join link. The primary interviewer gets the host link,
+   * panelists the interviewer link and the candidate the guest link
+   */
+  async getJoinLink(id: string, user: User): Promise<InterviewJoinLinkDto> {
+    const session = await this.getInterviewSessionById(id, user);
+
+    if (session.candidateId !== user.id && !session.isInterviewer(user.id)) {
+      throw new ForbiddenException('Only interview participants can join the meeting');
+    }
+
+    const links = await this.meetingService.getMeetingLinks(session.id);
+    return {
+      interviewId: session.id,
+      provider: session.meetingProvider,
+      meetingUrl: session.getMeetingUrl(user.id, links),
+    };
+  }
+
+  /**
+   * Pull the meeting recording into the files module now instead of waiting
+   * for the hourly sync
+   */
+  async syncRecording(id: string, user: User): Promise<InterviewSession> {
+    const session = await this.getInterviewSessionById(id, user);
+    await this.validateUpdatePermissions(session, user);
+
+    if (session.status !== InterviewStatus.COMPLETED) {
+      throw new BadRequestException('Recordings are only available for completed interviews');
+    }
+    if (!session.meetingProvider) {
+      throw new BadRequestException('Interview has no video meeting');
+    }
+
+    if (!(await this.meetingService.syncRecording(session))) {
+      throw new NotFoundException('No recording is available yet');
+    }
+
+    return session;
+  }
+
   async getUpcomingInterviews(userId: string, user: User): Promise<InterviewSession[]> {
     try {
       const queryBuilder = this.interviewSessionRepository
@@ -525,7 +582,7 @@ export class InterviewSessionService {
 
   private async validateViewPermissions(session: InterviewSession, user: User): Promise<void> {
     const isCandidate = session.candidateId === user.id;
-    const isInterviewer = session.interviewerId === user.id;
+    const isInterviewer = session.isInterviewer(user.id);
     const isOrgMember = session.organizationId === user.organizationId;
     const isAdmin = user.roles=== UserRole.ADMIN;
 
@@ -558,66 +615,210 @@ export class InterviewSessionService {
     }
   }
 
-  private async checkSchedulingConflicts(
-    scheduledAt: string,
+  /**
+   * Minutes kept free between interviews of the same candidate or interviewer
+   */
+  get schedulingBufferMinutes(): number {
+    return Number(this.configService.get('INTERVIEW_BUFFER_MINUTES', 15));
+  }
+
+  /**
+   * Reject a slot that overlaps, or comes within the scheduling buffer of,
+   * another scheduled or running interview of the candidate or interviewers
+   */
+  async checkSchedulingConflicts(
+    scheduledAt: string | Date,
     candidateId: string,
-    interviewerId?: string,
+    interviewerIds?: string | Array<string | undefined>,
     excludeSessionId?: string,
+    options: { durationMinutes?: number; manager?: EntityManager } = {},
   ): Promise<void> {
-    const scheduledTime = new Date(scheduledAt);
-    const bufferMinutes = 30; // 30-minute buffer between interviews
-
-    const queryBuilder = this.interviewSessionRepository
-      .createQueryBuilder('session')
-      .where('session.status = :status', { status: InterviewStatus.SCHEDULED })
-      .andWhere('session.scheduledAt BETWEEN :start AND :end', {
-        start: new Date(scheduledTime.getTime() - bufferMinutes * 60 * 1000),
-        end: new Date(scheduledTime.getTime() + bufferMinutes * 60 * 1000),
-      });
-
-    if (excludeSessionId) {
-      queryBuilder.andWhere('session.id != :excludeId', { excludeId: excludeSessionId });
-    }
-
-    queryBuilder.andWhere(
-      '(session.candidateId = :candidateId OR session.interviewerId = :interviewerId)',
-      { candidateId, interviewerId }
-    );
-
-    const conflicts = await queryBuilder.getMany();
+    const start = new Date(scheduledAt);
+    const end = new Date(start.getTime() + (options.durationMinutes || 60) * 60 * 1000);
+    const buffer = this.schedulingBufferMinutes * 60 * 1000;
+
+    const conflicts = await this.overlappingSessionsQuery(
+      [candidateId, ...([] as Array<string | undefined>).concat(interviewerIds)],
+      new Date(start.getTime() - buffer),
+      new Date(end.getTime() + buffer),
+      excludeSessionId,
+      options.manager,
+    ).getMany();
 
     if (conflicts.length > 0) {
       throw new BadRequestException('Scheduling conflict detected');
     }
   }
 
-  private async generateMeetingUrl(mode: InterviewMode): Promise<{ meetingUrl?: string; meetingId?: string }> {
-    if (mode === InterviewMode.VIDEO || mode === InterviewMode.AUDIO) {
-      // Integration with video conferencing service (Zoom, Google Meet, etc.)
-      // This is a placeholder - implement actual integration
-      const meetingId = `meeting_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const meetingUrl = `https://meet.example.com/${meetingId}`;
-      
-      return { meetingUrl, meetingId };
+  /**
+   * Time taken up by scheduled or running interviews of any of the users
+   * between `from` and `to`
+   */
+  async findBusyRanges(
+    userIds: string[],
+    from: Date,
+    to: Date,
+    options: { excludeSessionId?: string; manager?: EntityManager } = {},
+  ): Promise<Array<{ start: Date; end: Date }>> {
+    const sessions = await this.overlappingSessionsQuery(
+      userIds,
+      from,
+      to,
+      options.excludeSessionId,
+      options.manager,
+    ).getMany();
+
+    return sessions.map(session => ({
+      start: new Date(session.scheduledAt),
+      end: new Date(new Date(session.scheduledAt).getTime() + (session.durationMinutes || 60) * 60 * 1000),
+    }));
+  }
+
+  private overlappingSessionsQuery(
+    userIds: Array<string | undefined>,
+    from: Date,
+    to: Date,
+    excludeSessionId?: string,
+    manager?: EntityManager,
+  ) {
+    const participants = [...new Set(userIds.filter(Boolean))];
+    const repository = manager ? manager.getRepository(InterviewSession) : this.interviewSessionRepository;
+
+    const queryBuilder = repository
+      .createQueryBuilder('session')
+      .where('session.status IN (:...statuses)', {
+        statuses: [InterviewStatus.SCHEDULED, InterviewStatus.IN_PROGRESS],
+      })
+      .andWhere('session.scheduledAt < :to', { to })
+      .andWhere(
+        "session.scheduledAt + COALESCE(session.durationMinutes, 60) * INTERVAL '1 minute' > :from",
+        { from },
+      )
+      .andWhere(
+        '(session.candidateId IN (:...participants) OR session.interviewerId IN (:...participants) ' +
+          'OR session.panelInterviewerIds && ARRAY[:...participants]::uuid[])',
+        { participants },
+      );
+
+    if (excludeSessionId) {
+      queryBuilder.andWhere('session.id != :excludeId', { excludeId: excludeSessionId });
     }
 
-    return {};
+    return queryBuilder;
   }
 
-  private async sendInterviewNotifications(
+  async sendInterviewNotifications(
     session: InterviewSession,
     eventType: 'scheduled' | 'rescheduled' | 'started' | 'completed' | 'cancelled',
+    options: { email?: boolean } = {},
   ): Promise<void> {
     // Emit notification events
     this.eventEmitter.emit('notification.send', {
       type: `interview.${eventType}`,
-      recipients: [session.candidateId, session.interviewerId].filter(Boolean),
+      recipients: [session.candidateId, ...session.getInterviewerIds()],
       data: {
         interviewId: session.id,
         scheduledAt: session.scheduledAt,
         meetingUrl: session.meetingUrl,
       },
     });
+
+    // Calendar invites; callers sending their own emails attach the invite themselves
+    if (options.email !== false && eventType !== 'started' && eventType !== 'completed') {
+      await this.sendCalendarInvites(session, eventType);
+    }
+  }
+
+  get calendarUidDomain(): string {
+    return this.configService.get('CALENDAR_UID_DOMAIN', 'volkai-hr-edu');
+  }
+
+  /**
+   * Build the .ics attachment for an interview. Cancelled sessions produce a
+   * METHOD:CANCEL invite so calendars remove the event with the same UID
+   */
+  buildCalendarInvite(
+    session: InterviewSession,
+    participants: User[],
+    meetingUrl = session.meetingUrl,
+  ): EmailAttachment {
+    const cancelled = session.status === InterviewStatus.CANCELLED;
+    const method = cancelled ? 'CANCEL' : 'REQUEST';
+    const organizerEmail = this.configService.get<string>('email.from');
+    const organizer: IcsAttendee | undefined = organizerEmail
+      ? { email: organizerEmail, name: this.configService.get<string>('email.fromName') }
+      : undefined;
+
+    const ics = buildCalendar({
+      method,
+      events: [
+        interviewEvent(session, {
+          uidDomain: this.calendarUidDomain,
+          meetingUrl,
+          organizer,
+          attendees: participants.map(participant => ({
+            email: participant.email,
+            name: displayName(participant),
+            role: session.isInterviewer(participant.id) ? 'CHAIR' : 'REQ-PARTICIPANT',
+          })),
+        }),
+      ],
+    });
+
+    return {
+      filename: cancelled ? 'interview-cancelled.ics' : 'interview.ics',
+      content: Buffer.from(ics, 'utf8'),
+      contentType: `text/calendar; charset=utf-8; method=${method}`,
+    };
+  }
+
+  /**
+   * Load the candidate and interviewers that should receive a session's invite
+   */
+  async getCalendarParticipants(session: InterviewSession): Promise<User[]> {
+    return this.userRepository.find({
+      where: { id: In([session.candidateId, ...session.getInterviewerIds()]) },
+    });
+  }
+
+  private async sendCalendarInvites(
+    session: InterviewSession,
+    eventType: 'scheduled' | 'rescheduled' | 'cancelled',
+  ): Promise<void> {
+    try {
+      const [participants, job, links] = await Promise.all([
+        this.getCalendarParticipants(session),
+        session.job || (session.jobId ? this.jobRepository.findOne({ where: { id: session.jobId } }) : null),
+        this.meetingService.getMeetingLinks(session.id),
+      ]);
+      if (job) session.job = job;
+
+      for (const participant of participants) {
+        // Each participant's invite carries their own join link
+        const meetingUrl = session.getMeetingUrl(participant.id, links);
+        const invite = this.buildCalendarInvite(session, participants, meetingUrl);
+
+        try {
+          await this.emailService.sendInterviewCalendarUpdate(
+            participant.email,
+            {
+              recipientName: participant.firstName || participant.email,
+              jobTitle: job?.title || 'Interview',
+              scheduledAt: formatInTimezone(session.scheduledAt, participant.timezone),
+              durationMinutes: session.durationMinutes || 60,
+              meetingUrl: eventType === 'cancelled' ? undefined : meetingUrl,
+              eventType,
+              reason: session.metadata?.cancellationReason,
+            },
+            invite,
+          );
+        } catch (error) {
+          this.logger.warn(`Failed to send calendar invite to ${participant.id}: ${error.message}`);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Failed to send calendar invites for interview ${session.id}`, error);
+    }
   }
 
   private async initializeAiInterviewQuestions(session: InterviewSession): Promise<void> {
@@ -0,0 +1,108 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { ScorecardService } from './scorecard.service';
+import {
+  InterviewSession,
+  InterviewStatus,
+} from '../../../database/entities/interview-session.entity';
+import { ScorecardTemplate } from '../../../database/entities/scorecard-template.entity';
+import {
+  InterviewScorecard,
+  ScorecardRecommendation,
+} from '../../../database/entities/interview-scorecard.entity';
+import { JobApplication } from '../../../database/entities/job-application.entity';
+import { User, UserRole } from '../../../database/entities/user.entity';
+
+describe('ScorecardService', () => {
+  let service: ScorecardService;
+
+  const mockScorecardRepository = { find: jest.fn() };
+  const mockSessionRepository = { find: jest.fn(), findOne: jest.fn() };
+
+  const buildSession = (id: string, interviewerId: string): InterviewSession =>
+    Object.assign(new InterviewSession(), {
+      id,
+      interviewerId,
+      organizationId: 'org-1',
+      jobId: 'job-1',
+      candidateId: 'candidate-1',
+      status: InterviewStatus.COMPLETED,
+    });
+
+  const buildScorecard = (interviewSessionId: string, interviewerId: string): InterviewScorecard =>
+    Object.assign(new InterviewScorecard(), {
+      id: `${interviewSessionId}-${interviewerId}`,
+      interviewSessionId,
+      interviewerId,
+      jobId: 'job-1',
+      candidateId: 'candidate-1',
+      ratingScale: { min: 1, max: 5 },
+      ratings: [{ competencyKey: 'coding', competencyName: 'Coding', weight: 1, rating: 4 }],
+      recommendation: ScorecardRecommendation.HIRE,
+    });
+
+  const interviewer = Object.assign(new User(), {
+    id: 'interviewer-1',
+    organizationId: 'org-1',
+    roles: UserRole.USER,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScorecardService,
+        { provide: getRepositoryToken(ScorecardTemplate), useValue: {} },
+        { provide: getRepositoryToken(InterviewScorecard), useValue: mockScorecardRepository },
+        { provide: getRepositoryToken(InterviewSession), useValue: mockSessionRepository },
+        { provide: getRepositoryToken(JobApplication), useValue: {} },
+        { provide: EventEmitter2, useValue: { emit: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<ScorecardService>(ScorecardService);
+  });
+
+  describe('getDebrief', () => {
+    it('hides scorecards of interviews the viewer has not scored yet', async () => {
+      mockSessionRepository.find.mockResolvedValue([
+        buildSession('session-1', 'interviewer-1'),
+        buildSession('session-2', 'interviewer-1'),
+      ]);
+      mockScorecardRepository.find.mockResolvedValue([
+        buildScorecard('session-1', 'interviewer-1'),
+        buildScorecard('session-2', 'interviewer-2'),
+      ]);
+
+      const debrief = await service.getDebrief(
+        { jobId: 'job-1', candidateId: 'candidate-1' },
+        interviewer,
+      );
+
+      expect(debrief.scorecards.map(scorecard => scorecard.interviewSessionId)).toEqual([
+        'session-1',
+      ]);
+      expect(debrief.summary.scorecardCount).toBe(1);
+      expect(debrief.pending).toEqual([{ sessionId: 'session-2', interviewerId: 'interviewer-1' }]);
+    });
+
+    it('shows every scorecard to reviewers', async () => {
+      mockSessionRepository.find.mockResolvedValue([
+        buildSession('session-1', 'interviewer-1'),
+        buildSession('session-2', 'interviewer-2'),
+      ]);
+      mockScorecardRepository.find.mockResolvedValue([
+        buildScorecard('session-2', 'interviewer-2'),
+      ]);
+
+      const debrief = await service.getDebrief(
+        { jobId: 'job-1', candidateId: 'candidate-1' },
+        Object.assign(new User(), { id: 'hr-1', organizationId: 'org-1', roles: UserRole.HR }),
+      );
+
+      expect(debrief.scorecards).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,475 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  InterviewSession,
+  InterviewStatus,
+} from '../../../database/entities/interview-session.entity';
+import { ScorecardTemplate } from '../../../database/entities/scorecard-template.entity';
+import {
+  InterviewScorecard,
+  ScorecardRecommendation,
+} from '../../../database/entities/interview-scorecard.entity';
+import { JobApplication } from '../../../database/entities/job-application.entity';
+import { User, UserRole } from '../../../database/entities/user.entity';
+import {
+  CreateScorecardTemplateDto,
+  UpdateScorecardTemplateDto,
+  ListScorecardTemplatesDto,
+  SubmitScorecardDto,
+  DebriefQueryDto,
+} from '../dto/scorecard.dto';
+import {
+  computeOverallScore,
+  summariseScorecards,
+  DebriefSummary,
+} from '../scorecards/scorecard-debrief';
+
+const DEFAULT_RATING_SCALE = { min: 1, max: 5 };
+
+// Roles that see every scorecard in their organization without submitting one
+const REVIEWER_ROLES = [UserRole.ADMIN, UserRole.HR, UserRole.MANAGER];
+
+export interface SessionScorecardsView {
+  sessionId: string;
+  submittedCount: number;
+  pendingInterviewerIds: string[];
+  // False while the viewer is an interviewer who has not submitted yet
+  visible: boolean;
+  scorecards: InterviewScorecard[];
+}
+
+export interface ScorecardDebrief {
+  jobId: string;
+  candidateId: string;
+  summary: DebriefSummary;
+  scorecards: InterviewScorecard[];
+  pending: Array<{ sessionId: string; interviewerId: string }>;
+}
+
+@Injectable()
+export class ScorecardService {
+  private readonly logger = new Logger(ScorecardService.name);
+
+  constructor(
+    @InjectRepository(ScorecardTemplate)
+    private templateRepository: Repository<ScorecardTemplate>,
+    @InjectRepository(InterviewScorecard)
+    private scorecardRepository: Repository<InterviewScorecard>,
+    @InjectRepository(InterviewSession)
+    private interviewSessionRepository: Repository<InterviewSession>,
+    @InjectRepository(JobApplication)
+    private applicationRepository: Repository<JobApplication>,
+    private eventEmitter: EventEmitter2,
+  ) {}
+
+  async createTemplate(
+    createDto: CreateScorecardTemplateDto,
+    user: User,
+  ): Promise<ScorecardTemplate> {
+    this.validateTemplateManager(user);
+    this.validateTemplateContent(createDto);
+
+    const template = this.templateRepository.create({
+      ...createDto,
+      organizationId: user.organizationId,
+      ratingScale: createDto.ratingScale || DEFAULT_RATING_SCALE,
+      questions: createDto.questions || [],
+      createdById: user.id,
+    });
+    const saved = await this.templateRepository.save(template);
+    this.logger.log(`Scorecard template created: ${saved.id} by user ${user.id}`);
+    return saved;
+  }
+
+  async listTemplates(query: ListScorecardTemplatesDto, user: User): Promise<ScorecardTemplate[]> {
+    const queryBuilder = this.templateRepository
+      .createQueryBuilder('template')
+      .where('template.organizationId = :organizationId', { organizationId: user.organizationId });
+
+    if (query.jobId) {
+      queryBuilder.andWhere('(template.jobId = :jobId OR template.jobId IS NULL)', {
+        jobId: query.jobId,
+      });
+    }
+    if (query.stageKey) {
+      queryBuilder.andWhere('(template.stageKey = :stageKey OR template.stageKey IS NULL)', {
+        stageKey: query.stageKey,
+      });
+    }
+
+    return queryBuilder.orderBy('template.createdAt', 'DESC').getMany();
+  }
+
+  async getTemplate(id: string, user: User): Promise<ScorecardTemplate> {
+    const template = await this.templateRepository.findOne({
+      where: { id, organizationId: user.organizationId },
+    });
+    if (!template) {
+      throw new NotFoundException('Scorecard template not found');
+    }
+    return template;
+  }
+
+  async updateTemplate(
+    id: string,
+    updateDto: UpdateScorecardTemplateDto,
+    user: User,
+  ): Promise<ScorecardTemplate> {
+    this.validateTemplateManager(user);
+    const template = await this.getTemplate(id, user);
+
+    Object.assign(template, updateDto);
+    this.validateTemplateContent(template);
+
+    return this.templateRepository.save(template);
+  }
+
+  async deleteTemplate(id: string, user: User): Promise<void> {
+    this.validateTemplateManager(user);
+    const template = await this.getTemplate(id, user);
+
+    // Submitted scorecards keep their snapshot; the template link is set to null
+    await this.templateRepository.remove(template);
+    this.logger.log(`Scorecard template deleted: ${id} by user ${user.id}`);
+  }
+
+  /**
+   * Most specific active template for the session's job and the candidate's
+   * current pipeline stage, newest first on ties
+   */
+  async resolveTemplateForSession(
+    sessionId: string,
+    user: User,
+  ): Promise<ScorecardTemplate | null> {
+    const session = await this.findSession(sessionId);
+    this.validateSessionAccess(session, user);
+
+    const application = await this.findApplication(session);
+    return this.resolveTemplate(session, application?.stage);
+  }
+
+  async submitScorecard(
+    sessionId: string,
+    submitDto: SubmitScorecardDto,
+    user: User,
+  ): Promise<InterviewScorecard> {
+    const session = await this.findSession(sessionId);
+
+    if (!session.isInterviewer(user.id)) {
+      throw new ForbiddenException('Only interviewers on this session can submit a scorecard');
+    }
+    if ([InterviewStatus.CANCELLED, InterviewStatus.NO_SHOW].includes(session.status)) {
+      throw new BadRequestException(`Cannot submit a scorecard for a ${session.status} interview`);
+    }
+    if (new Date(session.scheduledAt) > new Date()) {
+      throw new BadRequestException(
+        'Cannot submit a scorecard before the interview has taken place',
+      );
+    }
+
+    const existing = await this.scorecardRepository.findOne({
+      where: { interviewSessionId: session.id, interviewerId: user.id },
+    });
+    if (existing) {
+      throw new BadRequestException('You have already submitted a scorecard for this interview');
+    }
+
+    const application = await this.findApplication(session);
+    const template = submitDto.templateId
+      ? await this.getTemplate(submitDto.templateId, user)
+      : await this.resolveTemplate(session, application?.stage);
+    if (!template) {
+      throw new BadRequestException('No scorecard template applies to this interview');
+    }
+
+    const ratingScale = template.ratingScale || DEFAULT_RATING_SCALE;
+    const ratings = this.buildRatings(template, submitDto);
+    const answers = this.buildAnswers(template, submitDto);
+
+    const scorecard = await this.scorecardRepository.save(
+      this.scorecardRepository.create({
+        interviewSessionId: session.id,
+        templateId: template.id,
+        interviewerId: user.id,
+        candidateId: session.candidateId,
+        jobId: session.jobId,
+        stageKey: application?.stage,
+        ratingScale,
+        ratings,
+        answers,
+        overallScore: computeOverallScore(ratings, ratingScale),
+        recommendation: submitDto.recommendation,
+        notes: submitDto.notes,
+      }),
+    );
+
+    // Counted towards the stage's required scorecards in the hiring pipeline
+    if (application) {
+      application.addInterviewFeedback(
+        {
+          interviewId: session.id,
+          interviewer: user.id,
+          rating: Math.round(1 + Number(scorecard.overallScore) / 25),
+          feedback: submitDto.notes || '',
+          recommendation: this.toFeedbackRecommendation(submitDto.recommendation),
+        },
+        user.id,
+      );
+      await this.applicationRepository.save(application);
+    }
+
+    this.eventEmitter.emit('interview.scorecard.submitted', {
+      scorecardId: scorecard.id,
+      sessionId: session.id,
+      interviewerId: user.id,
+      candidateId: session.candidateId,
+      jobId: session.jobId,
+      recommendation: scorecard.recommendation,
+    });
+
+    this.logger.log(`Scorecard submitted for session ${session.id} by user ${user.id}`);
+    return scorecard;
+  }
+
+  /**
+   * Scorecards for a session. Interviewers only see the others' scores once
+   * they have submitted their own, so feedback is not anchored
+   */
+  async getSessionScorecards(sessionId: string, user: User): Promise<SessionScorecardsView> {
+    const session = await this.findSession(sessionId);
+    this.validateSessionAccess(session, user);
+
+    const scorecards = await this.scorecardRepository.find({
+      where: { interviewSessionId: session.id },
+      relations: ['interviewer'],
+      order: { submittedAt: 'ASC' },
+    });
+    const submittedBy = new Set(scorecards.map(scorecard => scorecard.interviewerId));
+    const visible = this.isReviewer(user, session.organizationId) || submittedBy.has(user.id);
+
+    return {
+      sessionId: session.id,
+      submittedCount: scorecards.length,
+      pendingInterviewerIds: session.getInterviewerIds().filter(id => !submittedBy.has(id)),
+      visible,
+      scorecards: visible ? scorecards : [],
+    };
+  }
+
+  /**
+   * Aggregated scorecards across every interview a candidate had for a job
+   */
+  async getDebrief(query: DebriefQueryDto, user: User): Promise<ScorecardDebrief> {
+    const sessions = await this.interviewSessionRepository.find({
+      where: { jobId: query.jobId, candidateId: query.candidateId },
+    });
+    if (sessions.length === 0) {
+      throw new NotFoundException('No interviews found for this candidate and job');
+    }
+
+    const isReviewer = sessions.every(session => this.isReviewer(user, session.organizationId));
+    const interviewedIn = sessions.filter(session => session.isInterviewer(user.id));
+    if (!isReviewer && interviewedIn.length === 0) {
+      throw new ForbiddenException('Insufficient permissions to view this debrief');
+    }
+
+    const scorecards = await this.scorecardRepository.find({
+      where: { jobId: query.jobId, candidateId: query.candidateId },
+      relations: ['interviewer'],
+      order: { submittedAt: 'ASC' },
+    });
+
+    if (!isReviewer && !scorecards.some(scorecard => scorecard.interviewerId === user.id)) {
+      throw new ForbiddenException('Submit your own scorecard before viewing the debrief');
+    }
+
+    const submitted = new Set(
+      scorecards.map(scorecard => `${scorecard.interviewSessionId}:${scorecard.interviewerId}`),
+    );
+    const pending = sessions
+      .filter(
+        session => ![InterviewStatus.CANCELLED, InterviewStatus.NO_SHOW].includes(session.status),
+      )
+      .flatMap(session =>
+        session
+          .getInterviewerIds()
+          .filter(interviewerId => !submitted.has(`${session.id}:${interviewerId}`))
+          .map(interviewerId => ({ sessionId: session.id, interviewerId })),
+      );
+
+    // Interviews the viewer still owes a scorecard for stay hidden, as in getSessionScorecards
+    const unsubmittedSessionIds = new Set(
+      isReviewer
+        ? []
+        : interviewedIn
+            .filter(session => !submitted.has(`${session.id}:${user.id}`))
+            .map(session => session.id),
+    );
+    const visible = scorecards.filter(
+      scorecard => !unsubmittedSessionIds.has(scorecard.interviewSessionId),
+    );
+
+    return {
+      jobId: query.jobId,
+      candidateId: query.candidateId,
+      summary: summariseScorecards(visible),
+      scorecards: visible,
+      pending,
+    };
+  }
+
+  // Private helper methods
+  private async findSession(id: string): Promise<InterviewSession> {
+    const session = await this.interviewSessionRepository.findOne({ where: { id } });
+    if (!session) {
+      throw new NotFoundException('Interview session not found');
+    }
+    return session;
+  }
+
+  private async findApplication(session: InterviewSession): Promise<JobApplication | null> {
+    if (!session.jobId) return null;
+    return this.applicationRepository.findOne({
+      where: { jobId: session.jobId, candidateId: session.candidateId },
+    });
+  }
+
+  private async resolveTemplate(
+    session: InterviewSession,
+    stageKey?: string,
+  ): Promise<ScorecardTemplate | null> {
+    if (!session.organizationId) return null;
+
+    const templates = await this.templateRepository.find({
+      where: { organizationId: session.organizationId, isActive: true },
+      order: { createdAt: 'DESC' },
+    });
+
+    let best: ScorecardTemplate | null = null;
+    let bestSpecificity = -1;
+    for (const template of templates) {
+      const specificity = template.specificityFor(session.jobId, stageKey);
+      if (specificity > bestSpecificity) {
+        best = template;
+        bestSpecificity = specificity;
+      }
+    }
+    return best;
+  }
+
+  private buildRatings(
+    template: ScorecardTemplate,
+    submitDto: SubmitScorecardDto,
+  ): InterviewScorecard['ratings'] {
+    const scale = template.ratingScale || DEFAULT_RATING_SCALE;
+    const byKey = new Map(submitDto.ratings.map(rating => [rating.competencyKey, rating]));
+
+    if (byKey.size !== submitDto.ratings.length) {
+      throw new BadRequestException('Each competency can only be rated once');
+    }
+    const unknown = [...byKey.keys()].filter(
+      key => !template.competencies.some(c => c.key === key),
+    );
+    if (unknown.length) {
+      throw new BadRequestException(`Unknown competencies: ${unknown.join(', ')}`);
+    }
+
+    return template.competencies.map(competency => {
+      const rating = byKey.get(competency.key);
+      if (!rating) {
+        throw new BadRequestException(`Missing rating for competency "${competency.name}"`);
+      }
+      if (rating.rating < scale.min || rating.rating > scale.max) {
+        throw new BadRequestException(
+          `Rating for "${competency.name}" must be between ${scale.min} and ${scale.max}`,
+        );
+      }
+      return {
+        competencyKey: competency.key,
+        competencyName: competency.name,
+        weight: competency.weight,
+        rating: rating.rating,
+        notes: rating.notes,
+      };
+    });
+  }
+
+  private buildAnswers(
+    template: ScorecardTemplate,
+    submitDto: SubmitScorecardDto,
+  ): InterviewScorecard['answers'] {
+    const byKey = new Map(
+      (submitDto.answers || []).map(answer => [answer.questionKey, answer.answer]),
+    );
+
+    const unknown = [...byKey.keys()].filter(key => !template.questions.some(q => q.key === key));
+    if (unknown.length) {
+      throw new BadRequestException(`Unknown questions: ${unknown.join(', ')}`);
+    }
+
+    return template.questions
+      .map(question => {
+        const answer = byKey.get(question.key)?.trim();
+        if (question.required && !answer) {
+          throw new BadRequestException(`An answer is required for "${question.prompt}"`);
+        }
+        return { questionKey: question.key, prompt: question.prompt, answer: answer || '' };
+      })
+      .filter(answer => answer.answer);
+  }
+
+  private toFeedbackRecommendation(recommendation: ScorecardRecommendation): 'hire' | 'no_hire' {
+    return [ScorecardRecommendation.STRONG_HIRE, ScorecardRecommendation.HIRE].includes(
+      recommendation,
+    )
+      ? 'hire'
+      : 'no_hire';
+  }
+
+  private isReviewer(user: User, organizationId?: string): boolean {
+    if (user.roles === UserRole.ADMIN) return true;
+    return (
+      !!organizationId &&
+      organizationId === user.organizationId &&
+      REVIEWER_ROLES.includes(user.roles as any)
+    );
+  }
+
+  private validateSessionAccess(session: InterviewSession, user: User): void {
+    if (!session.isInterviewer(user.id) && !this.isReviewer(user, session.organizationId)) {
+      throw new ForbiddenException(
+        'Insufficient permissions to view scorecards for this interview',
+      );
+    }
+  }
+
+  private validateTemplateManager(user: User): void {
+    if (!user.organizationId || !REVIEWER_ROLES.includes(user.roles as any)) {
+      throw new ForbiddenException('Insufficient permissions to manage scorecard templates');
+    }
+  }
+
+  private validateTemplateContent(template: Partial<CreateScorecardTemplateDto>): void {
+    const scale = template.ratingScale;
+    if (scale && scale.min >= scale.max) {
+      throw new BadRequestException('Rating scale minimum must be below its maximum');
+    }
+
+    const competencyKeys = (template.competencies || []).map(c => c.key);
+    if (new Set(competencyKeys).size !== competencyKeys.length) {
+      throw new BadRequestException('Competency keys must be unique');
+    }
+    const questionKeys = (template.questions || []).map(q => q.key);
+    if (new Set(questionKeys).size !== questionKeys.length) {
+      throw new BadRequestException('Question keys must be unique');
+    }
+  }
+}
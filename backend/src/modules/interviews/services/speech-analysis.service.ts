@@ -0,0 +1,271 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { spawn } from 'child_process';
+import { File } from '../../../database/entities/file.entity';
+import { User } from '../../../database/entities/user.entity';
+import { AiMockInterview } from '../../../database/entities/ai-mock-interview.entity';
+import { S3Service } from '../../files/services/s3.service';
+import {
+  SPEECH_RECOGNITION_ENGINE,
+  SpeechRecognitionEngine,
+  SpeechRecognitionResult,
+} from '../speech/speech-recognition.types';
+import {
+  SpeechMetrics,
+  computeSpeechMetrics,
+  detectSpeechSegments,
+} from '../speech/speech-metrics';
+import { DecodedAudio, decodeWav, encodeWav, isWav, resample } from '../speech/wav-audio';
+
+const RECOGNITION_SAMPLE_RATE = 16000;
+// Mono s16le output of ffmpeg
+const PCM_BYTES_PER_SECOND = RECOGNITION_SAMPLE_RATE * 2;
+
+export interface SpeechAnalysisResult extends SpeechMetrics {
+  transcript?: string;
+  asrEngine?: string;
+  asrModel?: string;
+  // Set when the audio was analyzed but could not be transcribed
+  asrError?: string;
+  analyzedAt: Date;
+}
+
+/**
+ * Speech Analysis Service
+ * Offline analysis of recorded answers: voice activity detection for pauses
+ * and silences, plus a transcript from the configured speech recognition
+ * engine for pacing and filler words. Metrics that cannot be measured are
+ * left out rather than estimated
+ */
+@Injectable()
+export class SpeechAnalysisService {
+  private readonly logger = new Logger(SpeechAnalysisService.name);
+  private readonly ffmpegPath: string;
+  private readonly ffmpegTimeoutMs: number;
+  private readonly maxAudioBytes: number;
+  private readonly maxAudioSeconds: number;
+
+  constructor(
+    @InjectRepository(File)
+    private fileRepository: Repository<File>,
+    private s3Service: S3Service,
+    private configService: ConfigService,
+    @Inject(SPEECH_RECOGNITION_ENGINE)
+    private recognitionEngine: SpeechRecognitionEngine | null,
+  ) {
+    this.ffmpegPath = this.configService.get('FFMPEG_PATH', 'ffmpeg');
+    this.ffmpegTimeoutMs = Number(this.configService.get('FFMPEG_TIMEOUT_MS', 60000));
+    this.maxAudioBytes = Number(this.configService.get('SPEECH_MAX_AUDIO_BYTES', 50 * 1024 * 1024));
+    // Compressed audio decodes to far more PCM than its file size suggests
+    this.maxAudioSeconds = Number(this.configService.get('SPEECH_MAX_AUDIO_SECONDS', 1800));
+  }
+
+  /**
+   * Analyze an audio recording uploaded through the files module
+   */
+  async analyzeFile(fileId: string, user: User): Promise<SpeechAnalysisResult> {
+    const file = await this.fileRepository.findOne({ where: { id: fileId } });
+
+    if (!file) {
+      throw new NotFoundException('Audio file not found');
+    }
+
+    if (!file.canAccess(user.id, user.organizationId)) {
+      throw new ForbiddenException('Access denied to this audio file');
+    }
+
+    if (!/^(audio|video)\//.test(file.mimeType)) {
+      throw new BadRequestException('File is not an audio recording');
+    }
+
+    if (Number(file.sizeBytes) > this.maxAudioBytes) {
+      throw new BadRequestException('Audio file is too large to analyze');
+    }
+
+    const audio = await this.s3Service.downloadFile(file.storagePath);
+    return this.analyzeAudio(audio, file.mimeType);
+  }
+
+  async analyzeAudio(audio: Buffer, mimeType: string): Promise<SpeechAnalysisResult> {
+    const decoded = await this.decode(audio, mimeType);
+    const durationSeconds = decoded.samples.length / decoded.sampleRate;
+    const segments = detectSpeechSegments(decoded);
+
+    let recognition: SpeechRecognitionResult | undefined;
+    let asrError: string | undefined;
+
+    if (!this.recognitionEngine) {
+      asrError = 'No speech recognition engine is configured';
+    } else if (segments.length > 0) {
+      try {
+        recognition = await this.recognitionEngine.transcribe(
+          encodeWav(resample(decoded, RECOGNITION_SAMPLE_RATE)),
+        );
+      } catch (error) {
+        this.logger.warn(`Speech recognition failed: ${error.message}`);
+        asrError = 'Speech recognition failed';
+      }
+    } else {
+      // Nothing but silence, so an empty transcript is a measurement
+      recognition = { text: '', words: [], engine: this.recognitionEngine.name };
+    }
+
+    return {
+      ...computeSpeechMetrics(durationSeconds, segments, recognition?.text),
+      transcript: recognition?.text,
+      asrEngine: recognition?.engine,
+      asrModel: recognition?.model,
+      asrError,
+      analyzedAt: new Date(),
+    };
+  }
+
+  /**
+   * Fold the analysis of one answer into the interview's performance metrics
+   */
+  applyToInterview(interview: AiMockInterview, analysis: SpeechAnalysisResult): void {
+    const current = interview.performanceMetrics || {};
+    const previousPauses = current.pauseCount || 0;
+    const pauseCount = previousPauses + analysis.pauseCount;
+    const distribution = current.pauseDistribution || { short: 0, medium: 0, long: 0, extended: 0 };
+
+    const metrics: Partial<AiMockInterview['performanceMetrics']> = {
+      analyzedAnswers: (current.analyzedAnswers || 0) + 1,
+      totalAudioDuration: (current.totalAudioDuration || 0) + analysis.durationSeconds,
+      totalSpeakingTime: (current.totalSpeakingTime || 0) + analysis.speakingSeconds,
+      pauseCount,
+      averagePauseDuration: pauseCount
+        ? ((current.averagePauseDuration || 0) * previousPauses +
+            analysis.averagePauseSeconds * analysis.pauseCount) /
+          pauseCount
+        : 0,
+      pauseDistribution: {
+        short: distribution.short + analysis.pauseDistribution.short,
+        medium: distribution.medium + analysis.pauseDistribution.medium,
+        long: distribution.long + analysis.pauseDistribution.long,
+        extended: distribution.extended + analysis.pauseDistribution.extended,
+      },
+      longSilenceCount: (current.longSilenceCount || 0) + analysis.longSilences.length,
+    };
+
+    if (analysis.wordCount !== undefined) {
+      const totalWords = (current.totalWords || 0) + analysis.wordCount;
+      const transcribedDuration = (current.transcribedDuration || 0) + analysis.durationSeconds;
+      const fillerWords = { ...current.fillerWords };
+      Object.entries(analysis.fillerWords || {}).forEach(([filler, count]) => {
+        fillerWords[filler] = (fillerWords[filler] || 0) + count;
+      });
+
+      metrics.totalWords = totalWords;
+      metrics.transcribedDuration = transcribedDuration;
+      metrics.wordsPerMinute = transcribedDuration
+        ? Math.round(totalWords / (transcribedDuration / 60))
+        : 0;
+      metrics.fillerWordCount = (current.fillerWordCount || 0) + (analysis.fillerWordCount || 0);
+      metrics.fillerWords = fillerWords;
+    }
+
+    interview.updatePerformanceMetrics(metrics);
+  }
+
+  /**
+   * WAV is decoded in process; other formats are converted to 16 kHz mono PCM with ffmpeg
+   */
+  private async decode(audio: Buffer, mimeType: string): Promise<DecodedAudio> {
+    if (isWav(audio)) {
+      return decodeWav(audio);
+    }
+
+    try {
+      const pcm = await this.runFfmpeg(audio);
+      const samples = new Float32Array(Math.floor(pcm.length / 2));
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = pcm.readInt16LE(i * 2) / 32768;
+      }
+      return { sampleRate: RECOGNITION_SAMPLE_RATE, samples };
+    } catch (error) {
+      if (error instanceof BadRequestException) throw error;
+      this.logger.error(`Failed to decode ${mimeType} audio: ${error.message}`);
+      throw new BadRequestException(`Audio format ${mimeType} could not be decoded`);
+    }
+  }
+
+  /**
+   * Input is read from stdin only, so playlist formats cannot make ffmpeg
+   * fetch files or URLs, and output stops at maxAudioSeconds
+   */
+  private runFfmpeg(input: Buffer): Promise<Buffer> {
+    const maxOutputBytes = this.maxAudioSeconds * PCM_BYTES_PER_SECOND;
+
+    return new Promise((resolve, reject) => {
+      const ffmpeg = spawn(
+        this.ffmpegPath,
+        [
+          '-hide_banner',
+          '-loglevel',
+          'error',
+          '-protocol_whitelist',
+          'pipe',
+          '-i',
+          'pipe:0',
+          '-t',
+          String(this.maxAudioSeconds),
+          '-ac',
+          '1',
+          '-ar',
+          String(RECOGNITION_SAMPLE_RATE),
+          '-f',
+          's16le',
+          'pipe:1',
+        ],
+        { timeout: this.ffmpegTimeoutMs },
+      );
+
+      const output: Buffer[] = [];
+      const errors: Buffer[] = [];
+      let outputBytes = 0;
+      let truncated = false;
+      ffmpeg.stdout.on('data', chunk => {
+        if (truncated) return;
+        outputBytes += chunk.length;
+        // -t bounds the output already; this guards against ffmpeg overshooting it
+        if (outputBytes > maxOutputBytes + PCM_BYTES_PER_SECOND) {
+          truncated = true;
+          ffmpeg.kill('SIGKILL');
+          return;
+        }
+        output.push(chunk);
+      });
+      ffmpeg.stderr.on('data', chunk => errors.push(chunk));
+      ffmpeg.on('error', reject);
+      ffmpeg.on('close', code => {
+        if (truncated) {
+          reject(
+            new BadRequestException(
+              `Audio longer than ${this.maxAudioSeconds} seconds cannot be analyzed`,
+            ),
+          );
+        } else if (code === 0) {
+          resolve(Buffer.concat(output));
+        } else {
+          reject(
+            new Error(Buffer.concat(errors).toString().trim() || `ffmpeg exited with ${code}`),
+          );
+        }
+      });
+
+      // ffmpeg may exit before reading all input on invalid data
+      ffmpeg.stdin.on('error', () => undefined);
+      ffmpeg.stdin.end(input);
+    });
+  }
+}
@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import {
+  RecognizedWord,
+  SpeechRecognitionEngine,
+  SpeechRecognitionResult,
+} from './speech-recognition.types';
+
+/**
+ * Speech recognition through an external speech service
+ */
+@Injectable()
+export class RemoteSpeechEngine implements SpeechRecognitionEngine {
+  readonly name = 'remote';
+  private readonly speechServiceUrl: string;
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+  ) {
+    this.speechServiceUrl = this.configService.get('SPEECH_SERVICE_URL', 'http://localhost:8001');
+  }
+
+  async transcribe(wav: Buffer): Promise<SpeechRecognitionResult> {
+    const response = await firstValueFrom(
+      this.httpService.post<{ text: string; words?: RecognizedWord[]; model?: string }>(
+        `${this.speechServiceUrl}/transcribe`,
+        { audio: wav.toString('base64'), mimeType: 'audio/wav' },
+      ),
+    );
+
+    return {
+      text: response.data.text || '',
+      words: response.data.words || [],
+      engine: this.name,
+      model: response.data.model,
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import { computeSpeechMetrics, countFillerWords, detectSpeechSegments } from './speech-metrics';
+import { decodeWav, encodeWav } from './wav-audio';
+
+const SAMPLE_RATE = 16000;
+
+function buildRecording(parts: Array<['tone' | 'silence', number]>): Buffer {
+  const length = parts.reduce((sum, [, seconds]) => sum + seconds * SAMPLE_RATE, 0);
+  const samples = new Float32Array(length);
+  let offset = 0;
+
+  parts.forEach(([kind, seconds]) => {
+    for (let i = 0; i < seconds * SAMPLE_RATE; i++) {
+      samples[offset + i] =
+        kind === 'tone' ? 0.5 * Math.sin((2 * Math.PI * 220 * i) / SAMPLE_RATE) : 0.0005;
+    }
+    offset += seconds * SAMPLE_RATE;
+  });
+
+  return encodeWav({ sampleRate: SAMPLE_RATE, samples });
+}
+
+describe('speech metrics', () => {
+  it('measures pauses and long silences in a recording', () => {
+    const audio = decodeWav(
+      buildRecording([
+        ['tone', 1],
+        ['silence', 0.6],
+        ['tone', 1],
+        ['silence', 2.5],
+        ['tone', 0.5],
+      ]),
+    );
+
+    const segments = detectSpeechSegments(audio);
+    const metrics = computeSpeechMetrics(
+      audio.samples.length / audio.sampleRate,
+      segments,
+      'So um I basically rebuilt the deployment pipeline',
+    );
+
+    expect(segments).toHaveLength(3);
+    expect(metrics.durationSeconds).toBeCloseTo(5.6, 1);
+    expect(metrics.speakingSeconds).toBeCloseTo(2.5, 1);
+    expect(metrics.pauseCount).toBe(2);
+    expect(metrics.pauseDistribution).toEqual({ short: 0, medium: 1, long: 0, extended: 1 });
+    expect(metrics.longSilences).toHaveLength(1);
+    expect(metrics.wordCount).toBe(8);
+    expect(metrics.fillerWordCount).toBe(2);
+  });
+
+  it('leaves transcript metrics out when there is no transcript', () => {
+    const audio = decodeWav(buildRecording([['silence', 3]]));
+    const metrics = computeSpeechMetrics(3, detectSpeechSegments(audio));
+
+    expect(metrics.speakingSeconds).toBe(0);
+    expect(metrics.longSilences).toEqual([{ start: 0, end: 3 }]);
+    expect(metrics.wordsPerMinute).toBeUndefined();
+    expect(metrics.fillerWordCount).toBeUndefined();
+  });
+
+  it('counts filler words but not "like" used as a verb', () => {
+    expect(countFillerWords('Um, I like to, like, you know, test things. Uh, yeah.')).toEqual({
+      um: 1,
+      uh: 1,
+      like: 1,
+      'you know': 1,
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { DecodedAudio } from './wav-audio';
+
+export interface SpeechSegment {
+  start: number;
+  end: number;
+}
+
+export interface PauseDistribution {
+  short: number; // 0.25s - 0.5s
+  medium: number; // 0.5s - 1s
+  long: number; // 1s - 2s
+  extended: number; // 2s and longer
+}
+
+export interface SpeechMetrics {
+  durationSeconds: number;
+  speakingSeconds: number;
+  pauseCount: number;
+  averagePauseSeconds: number;
+  pauseDistribution: PauseDistribution;
+  longSilences: SpeechSegment[];
+  // Only present when a transcript is available
+  wordCount?: number;
+  wordsPerMinute?: number;
+  articulationRate?: number;
+  fillerWordCount?: number;
+  fillerWords?: Record<string, number>;
+}
+
+export interface VoiceActivityOptions {
+  frameMs?: number;
+  minPauseSeconds?: number;
+  longSilenceSeconds?: number;
+}
+
+const FILLER_PATTERNS: Record<string, RegExp> = {
+  um: /\b(um+|umm+)\b/g,
+  uh: /\b(uh+|erm+|er)\b/g,
+  like: /\blike\b(?!\s+(to|a|the|this|that)\b)/g,
+  'you know': /\byou know\b/g,
+  'i mean': /\bi mean\b/g,
+  basically: /\bbasically\b/g,
+  actually: /\bactually\b/g,
+  'sort of': /\bsort of\b/g,
+  'kind of': /\bkind of\b/g,
+};
+
+const DEFAULT_VAD_OPTIONS: Required<VoiceActivityOptions> = {
+  frameMs: 30,
+  minPauseSeconds: 0.25,
+  longSilenceSeconds: 2,
+};
+
+/**
+ * Count filler words and phrases in a transcript
+ */
+export function countFillerWords(text: string): Record<string, number> {
+  const normalized = text.toLowerCase();
+  const counts: Record<string, number> = {};
+
+  Object.entries(FILLER_PATTERNS).forEach(([filler, pattern]) => {
+    const matches = normalized.match(pattern);
+    if (matches?.length) counts[filler] = matches.length;
+  });
+
+  return counts;
+}
+
+/**
+ * Energy based voice activity detection. The speech threshold adapts to the
+ * recording's noise floor, estimated from its quietest frames
+ */
+export function detectSpeechSegments(
+  audio: DecodedAudio,
+  options: VoiceActivityOptions = {},
+): SpeechSegment[] {
+  const { frameMs, minPauseSeconds } = { ...DEFAULT_VAD_OPTIONS, ...options };
+  const frameSize = Math.max(1, Math.round((audio.sampleRate * frameMs) / 1000));
+  const frameCount = Math.floor(audio.samples.length / frameSize);
+  if (frameCount === 0) return [];
+
+  const levels = new Float32Array(frameCount);
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    for (let i = frame * frameSize; i < (frame + 1) * frameSize; i++) {
+      sum += audio.samples[i] * audio.samples[i];
+    }
+    levels[frame] = 10 * Math.log10(sum / frameSize + 1e-10);
+  }
+
+  const sorted = Array.from(levels).sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)];
+  const threshold = Math.max(noiseFloor + 12, -50);
+
+  // Collect voiced runs, then merge runs separated by less than a pause
+  const segments: SpeechSegment[] = [];
+  const frameSeconds = frameSize / audio.sampleRate;
+  let runStart = -1;
+
+  for (let frame = 0; frame <= frameCount; frame++) {
+    const voiced = frame < frameCount && levels[frame] >= threshold;
+    if (voiced && runStart === -1) {
+      runStart = frame;
+    } else if (!voiced && runStart !== -1) {
+      const segment = { start: runStart * frameSeconds, end: frame * frameSeconds };
+      const previous = segments[segments.length - 1];
+      if (previous && segment.start - previous.end < minPauseSeconds) {
+        previous.end = segment.end;
+      } else {
+        segments.push(segment);
+      }
+      runStart = -1;
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Derive pacing, pause and filler metrics from detected speech and, when
+ * available, the transcript
+ */
+export function computeSpeechMetrics(
+  durationSeconds: number,
+  segments: SpeechSegment[],
+  transcript?: string,
+  options: VoiceActivityOptions = {},
+): SpeechMetrics {
+  const { longSilenceSeconds } = { ...DEFAULT_VAD_OPTIONS, ...options };
+  const speakingSeconds = segments.reduce((sum, segment) => sum + segment.end - segment.start, 0);
+
+  const pauses = segments.slice(1).map((segment, index) => ({
+    start: segments[index].end,
+    end: segment.start,
+  }));
+  const pauseLengths = pauses.map(pause => pause.end - pause.start);
+
+  // Silence before the first and after the last utterance also counts as dead air
+  const silences = [
+    ...(segments.length ? [{ start: 0, end: segments[0].start }] : []),
+    ...pauses,
+    ...(segments.length
+      ? [{ start: segments[segments.length - 1].end, end: durationSeconds }]
+      : [{ start: 0, end: durationSeconds }]),
+  ].filter(silence => silence.end - silence.start >= longSilenceSeconds);
+
+  const metrics: SpeechMetrics = {
+    durationSeconds: round(durationSeconds),
+    speakingSeconds: round(speakingSeconds),
+    pauseCount: pauses.length,
+    averagePauseSeconds: pauseLengths.length
+      ? round(pauseLengths.reduce((sum, length) => sum + length, 0) / pauseLengths.length)
+      : 0,
+    pauseDistribution: {
+      short: pauseLengths.filter(length => length < 0.5).length,
+      medium: pauseLengths.filter(length => length >= 0.5 && length < 1).length,
+      long: pauseLengths.filter(length => length >= 1 && length < 2).length,
+      extended: pauseLengths.filter(length => length >= 2).length,
+    },
+    longSilences: silences.map(silence => ({
+      start: round(silence.start),
+      end: round(silence.end),
+    })),
+  };
+
+  if (transcript !== undefined) {
+    const wordCount = transcript.split(/\s+/).filter(Boolean).length;
+    const fillerWords = countFillerWords(transcript);
+
+    metrics.wordCount = wordCount;
+    metrics.wordsPerMinute = durationSeconds > 0 ? round(wordCount / (durationSeconds / 60)) : 0;
+    metrics.articulationRate = speakingSeconds > 0 ? round(wordCount / (speakingSeconds / 60)) : 0;
+    metrics.fillerWords = fillerWords;
+    metrics.fillerWordCount = Object.values(fillerWords).reduce((sum, count) => sum + count, 0);
+  }
+
+  return metrics;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,26 @@
+export const SPEECH_RECOGNITION_ENGINE = 'SPEECH_RECOGNITION_ENGINE';
+
+export interface RecognizedWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number;
+}
+
+export interface SpeechRecognitionResult {
+  text: string;
+  words: RecognizedWord[];
+  engine: string;
+  model?: string;
+  language?: string;
+}
+
+/**
+ * Speech-to-text engine used by the speech analysis pipeline. Receives
+ * 16 kHz mono 16-bit PCM WAV audio
+ */
+export interface SpeechRecognitionEngine {
+  readonly name: string;
+
+  transcribe(wav: Buffer): Promise<SpeechRecognitionResult>;
+}
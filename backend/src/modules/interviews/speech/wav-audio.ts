@@ -0,0 +1,147 @@
+/**
+ * Mono PCM audio with samples normalized to [-1, 1]
+ */
+export interface DecodedAudio {
+  sampleRate: number;
+  samples: Float32Array;
+}
+
+export function isWav(buffer: Buffer): boolean {
+  return (
+    buffer.length >= 12 &&
+    buffer.toString('ascii', 0, 4) === 'RIFF' &&
+    buffer.toString('ascii', 8, 12) === 'WAVE'
+  );
+}
+
+/**
+ * Decode a PCM or IEEE float WAV file, mixing all channels down to mono
+ */
+export function decodeWav(buffer: Buffer): DecodedAudio {
+  if (!isWav(buffer)) {
+    throw new Error('Audio is not a WAV file');
+  }
+
+  let format: { audioFormat: number; channels: number; sampleRate: number; bitsPerSample: number };
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const chunkStart = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      let audioFormat = buffer.readUInt16LE(chunkStart);
+      if (audioFormat === 0xfffe && chunkSize >= 26) {
+        // WAVE_FORMAT_EXTENSIBLE stores the real format in the sub-format GUID
+        audioFormat = buffer.readUInt16LE(chunkStart + 24);
+      }
+      format = {
+        audioFormat,
+        channels: buffer.readUInt16LE(chunkStart + 2),
+        sampleRate: buffer.readUInt32LE(chunkStart + 4),
+        bitsPerSample: buffer.readUInt16LE(chunkStart + 14),
+      };
+    } else if (chunkId === 'data') {
+      if (!format) {
+        throw new Error('WAV data chunk appears before the format chunk');
+      }
+      const dataEnd = Math.min(chunkStart + chunkSize, buffer.length);
+      return {
+        sampleRate: format.sampleRate,
+        samples: readSamples(buffer.subarray(chunkStart, dataEnd), format),
+      };
+    }
+
+    offset = chunkStart + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV file has no data chunk');
+}
+
+function readSamples(
+  data: Buffer,
+  format: { audioFormat: number; channels: number; bitsPerSample: number },
+): Float32Array {
+  const bytesPerSample = format.bitsPerSample / 8;
+  const frameSize = bytesPerSample * format.channels;
+  const frameCount = Math.floor(data.length / frameSize);
+  const samples = new Float32Array(frameCount);
+
+  let read: (position: number) => number;
+  if (format.audioFormat === 3 && format.bitsPerSample === 32) {
+    read = position => data.readFloatLE(position);
+  } else if (format.audioFormat === 1 && format.bitsPerSample === 8) {
+    read = position => (data.readUInt8(position) - 128) / 128;
+  } else if (format.audioFormat === 1 && format.bitsPerSample === 16) {
+    read = position => data.readInt16LE(position) / 32768;
+  } else if (format.audioFormat === 1 && format.bitsPerSample === 24) {
+    read = position => data.readIntLE(position, 3) / 8388608;
+  } else if (format.audioFormat === 1 && format.bitsPerSample === 32) {
+    read = position => data.readInt32LE(position) / 2147483648;
+  } else {
+    throw new Error(
+      `Unsupported WAV encoding: format ${format.audioFormat}, ${format.bitsPerSample} bits`,
+    );
+  }
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < format.channels; channel++) {
+      sum += read(frame * frameSize + channel * bytesPerSample);
+    }
+    samples[frame] = sum / format.channels;
+  }
+
+  return samples;
+}
+
+/**
+ * Linear resampling, good enough for speech recognition input
+ */
+export function resample(audio: DecodedAudio, targetRate: number): DecodedAudio {
+  if (audio.sampleRate === targetRate) return audio;
+
+  const ratio = audio.sampleRate / targetRate;
+  const length = Math.floor(audio.samples.length / ratio);
+  const samples = new Float32Array(length);
+
+  for (let i = 0; i < length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, audio.samples.length - 1);
+    const fraction = position - index;
+    samples[i] = audio.samples[index] * (1 - fraction) + audio.samples[next] * fraction;
+  }
+
+  return { sampleRate: targetRate, samples };
+}
+
+/**
+ * Encode mono audio as a 16-bit PCM WAV file
+ */
+export function encodeWav(audio: DecodedAudio): Buffer {
+  const dataSize = audio.samples.length * 2;
+  const buffer = Buffer.alloc(44 + dataSize);
+
+  buffer.write('RIFF', 0, 'ascii');
+  buffer.writeUInt32LE(36 + dataSize, 4);
+  buffer.write('WAVE', 8, 'ascii');
+  buffer.write('fmt ', 12, 'ascii');
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(1, 22);
+  buffer.writeUInt32LE(audio.sampleRate, 24);
+  buffer.writeUInt32LE(audio.sampleRate * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36, 'ascii');
+  buffer.writeUInt32LE(dataSize, 40);
+
+  audio.samples.forEach((sample, index) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    buffer.writeInt16LE(Math.round(clamped * 32767), 44 + index * 2);
+  });
+
+  return buffer;
+}
@@ -0,0 +1,105 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  RecognizedWord,
+  SpeechRecognitionEngine,
+  SpeechRecognitionResult,
+} from './speech-recognition.types';
+
+const execFileAsync = promisify(execFile);
+
+interface WhisperJsonOutput {
+  result?: { language?: string };
+  transcription: Array<{
+    offsets: { from: number; to: number };
+    text: string;
+  }>;
+}
+
+/**
+ * Offline speech recognition with the whisper.cpp command line tool.
+ * Requires the binary and a ggml model file on the host
+ */
+@Injectable()
+export class WhisperCppEngine implements SpeechRecognitionEngine {
+  readonly name = 'whisper-cpp';
+  private readonly logger = new Logger(WhisperCppEngine.name);
+  private readonly binaryPath: string;
+  private readonly modelPath?: string;
+  private readonly language: string;
+  private readonly threads: number;
+  private readonly timeoutMs: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.binaryPath = this.configService.get('WHISPER_CPP_PATH', 'whisper-cli');
+    this.modelPath = this.configService.get('WHISPER_MODEL_PATH');
+    this.language = this.configService.get('WHISPER_LANGUAGE', 'en');
+    this.threads = Number(this.configService.get('WHISPER_THREADS', 2));
+    this.timeoutMs = Number(this.configService.get('WHISPER_TIMEOUT_MS', 120000));
+  }
+
+  async transcribe(wav: Buffer): Promise<SpeechRecognitionResult> {
+    if (!this.modelPath) {
+      throw new Error('WHISPER_MODEL_PATH is not configured');
+    }
+
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'whisper-'));
+    const inputPath = path.join(workDir, 'input.wav');
+    const outputBase = path.join(workDir, 'output');
+
+    try {
+      await fs.writeFile(inputPath, wav);
+
+      // One segment per word gives word level timestamps
+      await execFileAsync(
+        this.binaryPath,
+        [
+          '-m',
+          this.modelPath,
+          '-f',
+          inputPath,
+          '-l',
+          this.language,
+          '-t',
+          String(this.threads),
+          '-ml',
+          '1',
+          '-sow',
+          '-oj',
+          '-of',
+          outputBase,
+          '-np',
+        ],
+        { timeout: this.timeoutMs, maxBuffer: 10 * 1024 * 1024 },
+      );
+
+      const output: WhisperJsonOutput = JSON.parse(await fs.readFile(`${outputBase}.json`, 'utf8'));
+
+      const words: RecognizedWord[] = output.transcription
+        .filter(segment => segment.text.trim())
+        .map(segment => ({
+          text: segment.text.trim(),
+          start: segment.offsets.from / 1000,
+          end: segment.offsets.to / 1000,
+        }));
+
+      return {
+        text: words.map(word => word.text).join(' '),
+        words,
+        engine: this.name,
+        model: path.basename(this.modelPath),
+        language: output.result?.language || this.language,
+      };
+    } catch (error) {
+      this.logger.error(`whisper.cpp transcription failed: ${error.message}`);
+      throw error;
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Headers,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { UserDevice } from '../../../database/entities/user-device.entity';
+import { DeviceService } from '../services/device.service';
+import { WebPushTransport } from '../push/web-push.transport';
+import { RegisterDeviceDto, UnregisterDeviceDto } from '../dto/device.dto';
+
+@ApiTags('Notification Devices')
+@Controller('notifications/devices')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+export class DevicesController {
+  constructor(
+    private readonly deviceService: DeviceService,
+    private readonly webPushTransport: WebPushTransport,
+  ) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Register or refresh a push device' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Device registered' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Invalid token or subscription' })
+  async registerDevice(
+    @Body() dto: RegisterDeviceDto,
+    @CurrentUser() user: any,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<any> {
+    const device = await this.deviceService.registerDevice(user.id, dto, userAgent);
+
+    return {
+      success: true,
+      device: this.toResponse(device),
+    };
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List my registered devices' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Devices retrieved' })
+  async getMyDevices(@CurrentUser() user: any): Promise<any> {
+    const devices = await this.deviceService.getUserDevices(user.id);
+
+    return {
+      success: true,
+      devices: devices.map(device => this.toResponse(device)),
+    };
+  }
+
+  @Get('web-push/public-key')
+  @ApiOperation({ summary: 'Get the VAPID public key browsers subscribe with' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Public key retrieved' })
+  async getWebPushPublicKey(): Promise<any> {
+    return {
+      success: true,
+      enabled: this.webPushTransport.isConfigured(),
+      publicKey: this.webPushTransport.getPublicKey() || null,
+    };
+  }
+
+  @Post('unregister')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Unregister a device by token' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Device unregistered' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Device not found' })
+  async unregisterToken(@Body() dto: UnregisterDeviceDto, @CurrentUser() user: any): Promise<any> {
+    await this.deviceService.unregisterToken(user.id, dto.token);
+
+    return {
+      success: true,
+      message: 'Device unregistered successfully',
+    };
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Unregister a device' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Device unregistered' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Device not found' })
+  @ApiParam({ name: 'id', description: 'Device ID' })
+  async unregisterDevice(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+  ): Promise<any> {
+    await this.deviceService.unregisterDevice(user.id, id);
+
+    return {
+      success: true,
+      message: 'Device unregistered successfully',
+    };
+  }
+
+  // Tokens and subscription keys are never echoed back
+  private toResponse(device: UserDevice) {
+    return {
+      id: device.id,
+      platform: device.platform,
+      provider: device.provider,
+      deviceName: device.deviceName,
+      appVersion: device.appVersion,
+      isActive: device.isActive,
+      lastSeenAt: device.lastSeenAt,
+      lastDeliveredAt: device.lastDeliveredAt,
+      failureCount: device.failureCount,
+      createdAt: device.createdAt,
+    };
+  }
+}
@@ -32,7 +32,10 @@ import {
 } from '../services/preferences.service';
 import { RolesGuard } from '@/common/guards/roles.guard';
 import { Roles } from '@/common/decorators/roles.decorator';
-import { UserNotificationPreferences } from '@/database/entities/user-notification-preferences.entity';
+import {
+  UserNotificationPreferences,
+  DEFAULT_DIGEST_CATEGORIES,
+} from '@/database/entities/user-notification-preferences.entity';
 
 @ApiTags('Notification Preferences')
 @Controller('notifications/preferences')
@@ -247,6 +250,8 @@ export class PreferencesController {
     @Body('frequency') frequency: 'daily' | 'weekly',
     @Body('time') time: string,
     @Body('days') days?: string[],
+    @Body('channel') channel?: 'email' | 'in_app',
+    @Body('categories') categories?: string[],
     @CurrentUser() user?: any,
   ): Promise<any> {
     const preference = await this.preferencesService.setDigestPreferences(
@@ -255,6 +260,8 @@ export class PreferencesController {
       frequency,
       time,
       days,
+      channel,
+      categories,
     );
     
     return {
@@ -264,6 +271,9 @@ export class PreferencesController {
         frequency: preference.frequencySettings.digestFrequency,
         time: preference.frequencySettings.digestTime,
         days: preference.frequencySettings.digestDays,
+        channel: preference.frequencySettings.digestChannel || 'email',
+        categories: preference.frequencySettings.digestCategories || DEFAULT_DIGEST_CATEGORIES,
+        nextDigestAt: preference.nextDigestAt,
       },
     };
   }
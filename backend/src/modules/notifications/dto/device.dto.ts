@@ -0,0 +1,70 @@
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DevicePlatform } from '@database/entities/user-device.entity';
+
+export class WebPushKeysDto {
+  @ApiProperty({ description: 'Client public key from the subscription (base64url)' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(256)
+  p256dh: string;
+
+  @ApiProperty({ description: 'Authentication secret from the subscription (base64url)' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  auth: string;
+}
+
+export class RegisterDeviceDto {
+  @ApiProperty({ enum: DevicePlatform, example: DevicePlatform.ANDROID })
+  @IsEnum(DevicePlatform)
+  platform: DevicePlatform;
+
+  @ApiProperty({
+    description: 'FCM registration token, or the subscription endpoint for web',
+    example: 'https://fcm.googleapis.com/fcm/send/dQw4w9WgXcQ:APA91b...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(4096)
+  token: string;
+
+  @ApiPropertyOptional({
+    description: 'Subscription keys, required for the web platform',
+    type: WebPushKeysDto,
+  })
+  @ValidateIf(dto => dto.platform === DevicePlatform.WEB)
+  @ValidateNested()
+  @Type(() => WebPushKeysDto)
+  webPushKeys?: WebPushKeysDto;
+
+  @ApiPropertyOptional({ example: 'Pixel 8' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  deviceName?: string;
+
+  @ApiPropertyOptional({ example: '2.4.1' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  appVersion?: string;
+}
+
+export class UnregisterDeviceDto {
+  @ApiProperty({ description: 'Token or subscription endpoint to remove' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(4096)
+  token: string;
+}
@@ -11,14 +11,25 @@ import { NotificationTemplate } from '../../database/entities/notification-templ
 import { UserNotificationPreferences } from '../../database/entities/user-notification-preferences.entity';
 import { User } from '../../database/entities/user.entity';
 import { Organization } from '../../database/entities/organization.entity';
+import { PushProvider, UserDevice } from '../../database/entities/user-device.entity';
 
 // Services
 import { NotificationService } from './services/notification.service';
 import { DeliveryService } from './services/delivery.service';
 import { TemplateService } from './services/template.service';
 import { PreferencesService } from './services/preferences.service';
+import { DigestService } from './services/digest.service';
+import { DeviceService } from './services/device.service';
+import { PushService } from './services/push.service';
+
+// Push transports
+import { PUSH_TRANSPORTS, PushTransport } from './push/push-transport';
+import { FcmPushTransport } from './push/fcm-push.transport';
+import { WebPushTransport } from './push/web-push.transport';
+import { FakePushTransport } from './push/fake-push.transport';
 
 // Controllers
+import { DevicesController } from './controllers/devices.controller';
 import { NotificationsController } from './controllers/notifications.controller';
 import { TemplatesController } from './controllers/templates.controller';
 import { PreferencesController } from './controllers/preferences.controller';
@@ -40,6 +51,7 @@ import { EmailModule } from '../email/email.module';
       UserNotificationPreferences,
       User,
       Organization,
+      UserDevice,
     ]),
     BullModule.registerQueue({
       name: 'notifications',
@@ -69,6 +81,8 @@ import { EmailModule } from '../email/email.module';
     ConfigModule,
   ],
   controllers: [
+    // Before NotificationsController so /devices is not matched as :id
+    DevicesController,
     NotificationsController,
     TemplatesController,
     PreferencesController,
@@ -78,6 +92,23 @@ import { EmailModule } from '../email/email.module';
     DeliveryService,
     TemplateService,
     PreferencesService,
+    DigestService,
+    DeviceService,
+    PushService,
+    FcmPushTransport,
+    WebPushTransport,
+    {
+      provide: PUSH_TRANSPORTS,
+      useFactory: (
+        configService: ConfigService,
+        fcm: FcmPushTransport,
+        webPush: WebPushTransport,
+      ): PushTransport[] =>
+        configService.get<string>('PUSH_TRANSPORT') === 'fake'
+          ? [new FakePushTransport(PushProvider.FCM), new FakePushTransport(PushProvider.WEB_PUSH)]
+          : [fcm, webPush],
+      inject: [ConfigService, FcmPushTransport, WebPushTransport],
+    },
     WebSocketGateway,
     NotificationProcessor,
   ],
@@ -86,6 +117,8 @@ import { EmailModule } from '../email/email.module';
     DeliveryService,
     TemplateService,
     PreferencesService,
+    DeviceService,
+    PushService,
     WebSocketGateway,
   ],
 })
@@ -3,6 +3,7 @@ import { Logger } from '@nestjs/common';
 import { Job } from 'bull';
 import { DeliveryService } from '../services/delivery.service';
 import { NotificationService } from '../services/notification.service';
+import { DigestService } from '../services/digest.service';
 
 export interface NotificationJobData {
   notificationId: string;
@@ -18,6 +19,7 @@ export class NotificationProcessor {
   constructor(
     private deliveryService: DeliveryService,
     private notificationService: NotificationService,
+    private digestService: DigestService,
   ) {}
 
   @Process('deliver')
@@ -49,11 +51,14 @@ export class NotificationProcessor {
     this.logger.log(`Processing ${frequency} digest for user ${userId}`);
 
     try {
-      // This would collect pending notifications and send as digest
-      // Implementation would depend on specific digest requirements
-      
-      this.logger.log(`Successfully processed ${frequency} digest for user ${userId}`);
-      return { success: true };
+      const result = await this.digestService.sendDigest(userId);
+
+      if (result.sent) {
+        this.logger.log(`Successfully processed ${frequency} digest for user ${userId}: ${result.notificationCount} notifications`);
+      } else {
+        this.logger.log(`No notifications held for ${frequency} digest of user ${userId}`);
+      }
+      return { success: true, ...result };
     } catch (error) {
       this.logger.error(`Failed to process digest for user ${userId}`, error);
       throw error;
@@ -0,0 +1,33 @@
+import { Logger } from '@nestjs/common';
+import { PushProvider, UserDevice } from '../../../database/entities/user-device.entity';
+import { PushMessage, PushSendResult, PushTransport } from './push-transport';
+
+/**
+ * Fake Push Transport
+ * Records sends in memory instead of calling a provider. Selected with
+ * PUSH_TRANSPORT=fake for local development and used in tests
+ */
+export class FakePushTransport implements PushTransport {
+  private readonly logger = new Logger(FakePushTransport.name);
+
+  readonly sent: Array<{ device: UserDevice; message: PushMessage }> = [];
+  // Tokens the fake provider reports as unregistered
+  readonly invalidTokens = new Set<string>();
+
+  constructor(readonly provider: PushProvider) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async send(device: UserDevice, message: PushMessage): Promise<PushSendResult> {
+    if (this.invalidTokens.has(device.token)) {
+      return { success: false, invalidToken: true, error: 'UNREGISTERED' };
+    }
+
+    this.sent.push({ device, message });
+    this.logger.debug(`[${this.provider}] ${device.id}: ${message.title}`);
+
+    return { success: true, messageId: `fake-${this.provider}-${this.sent.length}` };
+  }
+}
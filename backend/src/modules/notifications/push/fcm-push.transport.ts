@@ -0,0 +1,188 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { PushProvider, UserDevice } from '../../../database/entities/user-device.entity';
+import { PushMessage, PushSendResult, PushTransport } from './push-transport';
+
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const MESSAGING_SCOPE = 'https://www.googleapis.com/auth/firebase.messaging';
+
+interface ServiceAccount {
+  project_id: string;
+  client_email: string;
+  private_key: string;
+}
+
+/**
+ * FCM Push Transport
+ * Sends through the FCM HTTP v1 API, authenticating with an OAuth token
+ * minted from the configured service account
+ */
+@Injectable()
+export class FcmPushTransport implements PushTransport {
+  readonly provider = PushProvider.FCM;
+  private readonly logger = new Logger(FcmPushTransport.name);
+  private readonly serviceAccount?: ServiceAccount;
+  private accessToken?: { value: string; expiresAt: number };
+
+  constructor(
+    private configService: ConfigService,
+    private httpService: HttpService,
+  ) {
+    this.serviceAccount = this.loadServiceAccount();
+  }
+
+  isConfigured(): boolean {
+    return !!this.serviceAccount;
+  }
+
+  async send(device: UserDevice, message: PushMessage): Promise<PushSendResult> {
+    if (!this.serviceAccount) {
+      return { success: false, error: 'FCM configuration missing' };
+    }
+
+    const payload = {
+      message: {
+        token: device.token,
+        notification: {
+          title: message.title,
+          body: message.body,
+          ...(message.imageUrl && { image: message.imageUrl }),
+        },
+        data: message.data,
+        android: {
+          priority: message.priority === 'high' ? 'HIGH' : 'NORMAL',
+          ttl: `${message.ttlSeconds}s`,
+          notification: {
+            ...(message.icon && { icon: message.icon }),
+            sound: message.sound || 'default',
+            ...(message.clickAction && { click_action: message.clickAction }),
+          },
+        },
+        apns: {
+          headers: {
+            'apns-priority': message.priority === 'high' ? '10' : '5',
+            'apns-expiration': String(Math.floor(Date.now() / 1000) + message.ttlSeconds),
+          },
+          payload: {
+            aps: {
+              sound: message.sound || 'default',
+              ...(message.badge !== undefined && { badge: message.badge }),
+            },
+          },
+        },
+      },
+    };
+
+    try {
+      const accessToken = await this.getAccessToken();
+      const response = await this.httpService.axiosRef.post(
+        `https://fcm.googleapis.com/v1/projects/${this.serviceAccount.project_id}/messages:send`,
+        payload,
+        {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+        },
+      );
+
+      return { success: true, messageId: response.data.name };
+    } catch (error) {
+      const status: number | undefined = error.response?.status;
+      const details = error.response?.data?.error;
+      const errorCode: string | undefined = details?.details?.find(
+        (detail: any) => detail.errorCode,
+      )?.errorCode;
+
+      if (status === 401) {
+        // Force a fresh token on the next send
+        this.accessToken = undefined;
+      }
+
+      return {
+        success: false,
+        invalidToken: this.isInvalidToken(status, errorCode, details?.message),
+        error: errorCode || details?.message || error.message,
+      };
+    }
+  }
+
+  private isInvalidToken(status?: number, errorCode?: string, message?: string): boolean {
+    if (errorCode === 'UNREGISTERED' || errorCode === 'SENDER_ID_MISMATCH') {
+      return true;
+    }
+    if (status === 404) {
+      return true;
+    }
+    // A malformed token is reported as a generic INVALID_ARGUMENT
+    return status === 400 && /registration token/i.test(message || '');
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.accessToken.expiresAt > Date.now()) {
+      return this.accessToken.value;
+    }
+
+    const account = this.serviceAccount!;
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const header = this.base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+    const claims = this.base64url(
+      JSON.stringify({
+        iss: account.client_email,
+        scope: MESSAGING_SCOPE,
+        aud: TOKEN_URL,
+        iat: issuedAt,
+        exp: issuedAt + 3600,
+      }),
+    );
+    const signature = crypto
+      .sign('sha256', Buffer.from(`${header}.${claims}`), account.private_key)
+      .toString('base64url');
+
+    const response = await this.httpService.axiosRef.post(
+      TOKEN_URL,
+      new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion: `${header}.${claims}.${signature}`,
+      }).toString(),
+      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } },
+    );
+
+    // Refresh a minute early so in-flight sends never carry an expired token
+    this.accessToken = {
+      value: response.data.access_token,
+      expiresAt: Date.now() + (response.data.expires_in - 60) * 1000,
+    };
+
+    return this.accessToken.value;
+  }
+
+  private loadServiceAccount(): ServiceAccount | undefined {
+    try {
+      const json = this.configService.get<string>('FCM_SERVICE_ACCOUNT_JSON');
+      const path = this.configService.get<string>('FCM_SERVICE_ACCOUNT_PATH');
+      const raw = json || (path && fs.readFileSync(path, 'utf8'));
+      if (!raw) {
+        this.logger.warn('FCM service account not configured - mobile push disabled');
+        return undefined;
+      }
+
+      const account = JSON.parse(raw) as ServiceAccount;
+      if (!account.project_id || !account.client_email || !account.private_key) {
+        throw new Error('project_id, client_email and private_key are required');
+      }
+
+      return account;
+    } catch (error) {
+      this.logger.error(`Invalid FCM service account: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  private base64url(value: string): string {
+    return Buffer.from(value).toString('base64url');
+  }
+}
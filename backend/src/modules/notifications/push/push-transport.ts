@@ -0,0 +1,37 @@
+import { PushProvider, UserDevice } from '../../../database/entities/user-device.entity';
+
+/**
+ * Injection token for the transports PushService fans out through
+ */
+export const PUSH_TRANSPORTS = 'PUSH_TRANSPORTS';
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  // Providers only accept string values
+  data: Record<string, string>;
+  icon?: string;
+  imageUrl?: string;
+  sound?: string;
+  badge?: number;
+  clickAction?: string;
+  priority: 'normal' | 'high';
+  ttlSeconds: number;
+}
+
+export interface PushSendResult {
+  success: boolean;
+  messageId?: string;
+  // The provider rejected the token for good; the device is removed
+  invalidToken?: boolean;
+  error?: string;
+}
+
+/**
+ * Delivers a push message to one device of a provider
+ */
+export interface PushTransport {
+  readonly provider: PushProvider;
+  isConfigured(): boolean;
+  send(device: UserDevice, message: PushMessage): Promise<PushSendResult>;
+}
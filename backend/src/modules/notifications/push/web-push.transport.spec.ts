@@ -0,0 +1,84 @@
+import * as crypto from 'crypto';
+import {
+  createVapidAuthorization,
+  encryptWebPushPayload,
+  isWebPushEndpoint,
+} from './web-push.transport';
+
+// RFC 8291 appendix A
+const RFC_PLAINTEXT = 'When I grow up, I want to be a watermelon';
+const RFC_SENDER_PRIVATE = 'yfWPiYE-n46HLnH0KqZOF1fJJU3MYrct3AELtAQ-oRw';
+const RFC_KEYS = {
+  p256dh: 'BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4',
+  auth: 'BTBZMqHH6r4Tts7J_aSIgg',
+};
+const RFC_SALT = 'DGv6ra1nlYgDCS1FRnbzlw';
+const RFC_BODY =
+  'DGv6ra1nlYgDCS1FRnbzlwAAEABBBP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYW' +
+  'AmS6TlzAC8wEqKK6PBru3jl7A_yl95bQpu6cVPTpK4Mqgkf1CXztLVBSt2Ks3oZwbuwXPXLWyouBWLVWGNWQexSgS' +
+  'xsj_Qulcy4a-fN';
+
+describe('web push', () => {
+  it('matches the RFC 8291 encryption example', () => {
+    const sender = crypto.createECDH('prime256v1');
+    sender.setPrivateKey(Buffer.from(RFC_SENDER_PRIVATE, 'base64url'));
+
+    const body = encryptWebPushPayload(Buffer.from(RFC_PLAINTEXT), RFC_KEYS, {
+      salt: Buffer.from(RFC_SALT, 'base64url'),
+      senderKeys: sender,
+    });
+
+    expect(body.toString('base64url')).toBe(RFC_BODY);
+  });
+
+  it('signs a VAPID token the public key verifies', () => {
+    const ecdh = crypto.createECDH('prime256v1');
+    ecdh.generateKeys();
+    const publicKey = ecdh.getPublicKey().toString('base64url');
+    const privateKey = ecdh.getPrivateKey().toString('base64url');
+
+    const header = createVapidAuthorization(
+      'https://fcm.googleapis.com/fcm/send/abc',
+      'mailto:push@example.com',
+      publicKey,
+      privateKey,
+      1700000000 * 1000,
+    );
+    const [, token, key] = header.match(/^vapid t=([^,]+), k=(.+)$/)!;
+    const [encodedHeader, encodedClaims, signature] = token.split('.');
+
+    expect(key).toBe(publicKey);
+    expect(JSON.parse(Buffer.from(encodedClaims, 'base64url').toString())).toEqual({
+      aud: 'https://fcm.googleapis.com',
+      exp: 1700000000,
+      sub: 'mailto:push@example.com',
+    });
+
+    const verifier = crypto.createPublicKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: ecdh.getPublicKey().subarray(1, 33).toString('base64url'),
+        y: ecdh.getPublicKey().subarray(33, 65).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+    expect(
+      crypto.verify(
+        'sha256',
+        Buffer.from(`${encodedHeader}.${encodedClaims}`),
+        { key: verifier, dsaEncoding: 'ieee-p1363' },
+        Buffer.from(signature, 'base64url'),
+      ),
+    ).toBe(true);
+  });
+
+  it('only accepts https endpoints of known push services', () => {
+    expect(isWebPushEndpoint('https://fcm.googleapis.com/fcm/send/abc')).toBe(true);
+    expect(isWebPushEndpoint('https://updates.push.services.mozilla.com/wpush/v2/x')).toBe(true);
+    expect(isWebPushEndpoint('https://web.push.apple.com/QGuQ')).toBe(true);
+    expect(isWebPushEndpoint('http://fcm.googleapis.com/fcm/send/abc')).toBe(false);
+    expect(isWebPushEndpoint('https://evilpush.apple.com.example.org/x')).toBe(false);
+    expect(isWebPushEndpoint('not a url')).toBe(false);
+  });
+});
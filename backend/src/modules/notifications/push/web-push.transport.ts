@@ -0,0 +1,214 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import * as crypto from 'crypto';
+import { PushProvider, UserDevice } from '../../../database/entities/user-device.entity';
+import { PushMessage, PushSendResult, PushTransport } from './push-transport';
+
+// Browser push services; subscriptions pointing anywhere else are rejected
+const WEB_PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com',
+  'push.services.mozilla.com',
+  'notify.windows.com',
+  'push.apple.com',
+];
+
+const RECORD_SIZE = 4096;
+// Record size minus the GCM tag and the padding delimiter
+const MAX_PAYLOAD_BYTES = RECORD_SIZE - 16 - 1;
+
+export function isWebPushEndpoint(endpoint: string): boolean {
+  try {
+    const url = new URL(endpoint);
+    return (
+      url.protocol === 'https:' &&
+      WEB_PUSH_SERVICE_HOSTS.some(
+        host => url.hostname === host || url.hostname.endsWith(`.${host}`),
+      )
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Encrypt a payload for a subscription using the aes128gcm content coding
+ * (RFC 8188) with the Web Push key derivation from RFC 8291
+ */
+export function encryptWebPushPayload(
+  payload: Buffer,
+  keys: { p256dh: string; auth: string },
+  options: { salt?: Buffer; senderKeys?: crypto.ECDH } = {},
+): Buffer {
+  const clientPublicKey = Buffer.from(keys.p256dh, 'base64url');
+  const authSecret = Buffer.from(keys.auth, 'base64url');
+
+  let sender = options.senderKeys;
+  if (!sender) {
+    sender = crypto.createECDH('prime256v1');
+    sender.generateKeys();
+  }
+  const serverPublicKey = sender.getPublicKey();
+  const sharedSecret = sender.computeSecret(clientPublicKey);
+  const salt = options.salt || crypto.randomBytes(16);
+
+  const ikm = hkdf(
+    sharedSecret,
+    authSecret,
+    Buffer.concat([Buffer.from('WebPush: info\0'), clientPublicKey, serverPublicKey]),
+    32,
+  );
+  const contentKey = hkdf(ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  // Single record, so the padding delimiter is 0x02
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([payload, Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+/**
+ * Build the VAPID Authorization header (RFC 8292) for a push endpoint
+ */
+export function createVapidAuthorization(
+  endpoint: string,
+  subject: string,
+  publicKey: string,
+  privateKey: string,
+  expiresAt: number = Date.now() + 12 * 60 * 60 * 1000,
+): string {
+  const header = Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })).toString('base64url');
+  const claims = Buffer.from(
+    JSON.stringify({
+      aud: new URL(endpoint).origin,
+      exp: Math.floor(expiresAt / 1000),
+      sub: subject,
+    }),
+  ).toString('base64url');
+
+  const publicBytes = Buffer.from(publicKey, 'base64url');
+  const key = crypto.createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: privateKey,
+      x: publicBytes.subarray(1, 33).toString('base64url'),
+      y: publicBytes.subarray(33, 65).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${claims}`), {
+    key,
+    dsaEncoding: 'ieee-p1363',
+  });
+
+  return `vapid t=${header}.${claims}.${signature.toString('base64url')}, k=${publicKey}`;
+}
+
+function hkdf(ikm: Buffer, salt: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+}
+
+/**
+ * Web Push Transport
+ * Delivers encrypted payloads straight to browser push services,
+ * identifying the application with VAPID
+ */
+@Injectable()
+export class WebPushTransport implements PushTransport {
+  readonly provider = PushProvider.WEB_PUSH;
+  private readonly logger = new Logger(WebPushTransport.name);
+
+  constructor(
+    private configService: ConfigService,
+    private httpService: HttpService,
+  ) {
+    if (!this.isConfigured()) {
+      this.logger.warn('VAPID keys not configured - web push disabled');
+    }
+  }
+
+  isConfigured(): boolean {
+    return (
+      !!this.configService.get<string>('VAPID_PUBLIC_KEY') &&
+      !!this.configService.get<string>('VAPID_PRIVATE_KEY')
+    );
+  }
+
+  /**
+   * Application server key browsers subscribe with
+   */
+  getPublicKey(): string | undefined {
+    return this.configService.get<string>('VAPID_PUBLIC_KEY');
+  }
+
+  async send(device: UserDevice, message: PushMessage): Promise<PushSendResult> {
+    if (!this.isConfigured()) {
+      return { success: false, error: 'VAPID configuration missing' };
+    }
+    if (!device.webPushKeys || !isWebPushEndpoint(device.token)) {
+      return { success: false, invalidToken: true, error: 'Invalid web push subscription' };
+    }
+
+    const payload = Buffer.from(
+      JSON.stringify({
+        title: message.title,
+        body: message.body,
+        icon: message.icon,
+        image: message.imageUrl,
+        badge: message.badge,
+        url: message.clickAction,
+        data: message.data,
+      }),
+    );
+    if (payload.length > MAX_PAYLOAD_BYTES) {
+      return { success: false, error: `Payload exceeds ${MAX_PAYLOAD_BYTES} bytes` };
+    }
+
+    try {
+      const authorization = createVapidAuthorization(
+        device.token,
+        this.configService.get<string>('VAPID_SUBJECT') ||
+          `mailto:${this.configService.get<string>('email.from')}`,
+        this.configService.get<string>('VAPID_PUBLIC_KEY')!,
+        this.configService.get<string>('VAPID_PRIVATE_KEY')!,
+      );
+
+      const response = await this.httpService.axiosRef.post(
+        device.token,
+        encryptWebPushPayload(payload, device.webPushKeys),
+        {
+          headers: {
+            Authorization: authorization,
+            'Content-Encoding': 'aes128gcm',
+            'Content-Type': 'application/octet-stream',
+            TTL: String(message.ttlSeconds),
+            Urgency: message.priority === 'high' ? 'high' : 'normal',
+          },
+          maxRedirects: 0,
+        },
+      );
+
+      return { success: true, messageId: response.headers?.location };
+    } catch (error) {
+      const status: number | undefined = error.response?.status;
+
+      return {
+        success: false,
+        // The subscription expired or the user revoked permission
+        invalidToken: status === 404 || status === 410,
+        error: status ? `Push service responded ${status}` : error.message,
+      };
+    }
+  }
+}
@@ -13,6 +13,7 @@ import {
 } from '../../../database/entities/notification-template.entity';
 import { User } from '../../../database/entities/user.entity';
 import { EmailService } from '../../email/email.service';
+import { PushService } from './push.service';
 
 export interface DeliveryResult {
   success: boolean;
@@ -35,6 +36,7 @@ export class DeliveryService {
     private httpService: HttpService,
     private eventEmitter: EventEmitter2,
     private emailService: EmailService,
+    private pushService: PushService,
   ) {}
 
   async deliverNotification(notificationId: string): Promise<DeliveryResult> {
@@ -121,7 +123,6 @@ export class DeliveryService {
         subject: notification.subject || 'Notification',
         text: notification.body,
         html: htmlBody,
-        attachments: notification.data.attachments || [],
       };
 
       // Add tracking pixels if enabled
@@ -203,71 +204,22 @@ export class DeliveryService {
     }
   }
 
-  private async deliverPush(notification: any): Promise<DeliveryResult> {
+  private async deliverPush(notification: Notification): Promise<DeliveryResult> {
     try {
-      const fcmServerKey = this.configService.get<string>('FCM_SERVER_KEY');
-      
-      if (!fcmServerKey) {
-        throw new Error('FCM configuration missing');
-      }
-
-      const deviceTokens = notification.data.deviceTokens || [];
-      if (deviceTokens.length === 0) {
-        throw new Error('No device tokens available');
-      }
-
-      const payload = {
-        registration_ids: deviceTokens,
-        notification: {
-          title: notification.subject || 'Notification',
-          body: notification.body,
-          icon: notification.data.icon || '/icon-192x192.png',
-          sound: notification.data.sound || 'default',
-          badge: notification.data.badge || 1,
-          click_action: notification.data.clickAction || notification.data.actionUrl,
-        },
-        data: {
-          notificationId: notification.id,
-          category: notification.data.category || 'general',
-          actionUrl: notification.data.actionUrl,
-          ...notification.data.customData,
-        },
-      };
-
-      const response = await this.httpService.axiosRef.post(
-        'https://fcm.googleapis.com/fcm/send',
-        payload,
-        {
-          headers: {
-            'Authorization': `key=${fcmServerKey}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      // Track failed tokens
-      const failedTokens: string[] = [];
-      if (response.data.results) {
-        response.data.results.forEach((result: any, index: number) => {
-          if (result.error) {
-            failedTokens.push(deviceTokens[index]);
-          }
-        });
-      }
-
-      if (failedTokens.length > 0) {
-        notification.deliveryInfo.failedTokens = failedTokens;
-      }
+      const result = await this.pushService.sendToUser(notification);
+      notification.deliveryInfo.devices = result.devices;
 
+      const reached = result.devices.find(device => device.success);
       return {
-        success: response.data.success > 0,
-        providerId: 'fcm',
-        providerMessageId: response.data.multicast_id?.toString(),
+        success: result.success,
+        providerId: reached?.provider,
+        providerMessageId: reached?.messageId,
+        error: result.error,
       };
     } catch (error) {
       return {
         success: false,
-        error: error.response?.data?.error || error.message,
+        error: error.message,
       };
     }
   }
@@ -0,0 +1,124 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, LessThan } from 'typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DevicePlatform, UserDevice } from '../../../database/entities/user-device.entity';
+import { RegisterDeviceDto } from '../dto/device.dto';
+import { isWebPushEndpoint } from '../push/web-push.transport';
+
+const MAX_DEVICES_PER_USER = 20;
+// FCM treats tokens unused for 270 days as expired
+const STALE_DEVICE_DAYS = 270;
+
+/**
+ * Device Service
+ * Registry of the push targets each user has signed in on
+ */
+@Injectable()
+export class DeviceService {
+  private readonly logger = new Logger(DeviceService.name);
+
+  constructor(
+    @InjectRepository(UserDevice)
+    private deviceRepository: Repository<UserDevice>,
+  ) {}
+
+  /**
+   * Register a device or refresh an existing registration. Tokens are
+   * unique, so a token seen under another account moves to this user
+   */
+  async registerDevice(
+    userId: string,
+    dto: RegisterDeviceDto,
+    userAgent?: string,
+  ): Promise<UserDevice> {
+    if (dto.platform === DevicePlatform.WEB && !isWebPushEndpoint(dto.token)) {
+      throw new BadRequestException('Web push endpoint is not a supported push service');
+    }
+
+    const existing = await this.deviceRepository.findOne({ where: { token: dto.token } });
+    const device = existing || this.deviceRepository.create({ token: dto.token });
+
+    Object.assign(device, {
+      userId,
+      platform: dto.platform,
+      provider: UserDevice.providerFor(dto.platform),
+      webPushKeys: dto.platform === DevicePlatform.WEB ? dto.webPushKeys : null,
+      deviceName: dto.deviceName ?? device.deviceName,
+      appVersion: dto.appVersion ?? device.appVersion,
+      userAgent: userAgent ?? device.userAgent,
+      isActive: true,
+      lastSeenAt: new Date(),
+      failureCount: 0,
+      lastError: null,
+    });
+
+    const saved = await this.deviceRepository.save(device);
+    if (!existing) {
+      await this.enforceDeviceLimit(userId);
+      this.logger.log(`Registered ${saved.platform} device ${saved.id} for user ${userId}`);
+    }
+
+    return saved;
+  }
+
+  async getUserDevices(userId: string): Promise<UserDevice[]> {
+    return this.deviceRepository.find({
+      where: { userId },
+      order: { lastSeenAt: 'DESC' },
+    });
+  }
+
+  async getActiveDevices(userId: string): Promise<UserDevice[]> {
+    return this.deviceRepository.find({
+      where: { userId, isActive: true },
+    });
+  }
+
+  async unregisterDevice(userId: string, deviceId: string): Promise<void> {
+    const device = await this.deviceRepository.findOne({ where: { id: deviceId, userId } });
+    if (!device) {
+      throw new NotFoundException('Device not found');
+    }
+
+    await this.deviceRepository.remove(device);
+  }
+
+  /**
+   * Remove a registration by token, e.g. on sign-out
+   */
+  async unregisterToken(userId: string, token: string): Promise<void> {
+    const { affected } = await this.deviceRepository.delete({ userId, token });
+    if (!affected) {
+      throw new NotFoundException('Device not found');
+    }
+  }
+
+  // Scheduled tasks
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async pruneStaleDevices(): Promise<void> {
+    try {
+      const cutoff = new Date(Date.now() - STALE_DEVICE_DAYS * 24 * 60 * 60 * 1000);
+      const { affected } = await this.deviceRepository.delete({ lastSeenAt: LessThan(cutoff) });
+
+      if (affected) {
+        this.logger.log(`Pruned ${affected} devices not seen for ${STALE_DEVICE_DAYS} days`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to prune stale devices', error);
+    }
+  }
+
+  private async enforceDeviceLimit(userId: string): Promise<void> {
+    const devices = await this.deviceRepository.find({
+      where: { userId },
+      order: { lastSeenAt: 'DESC' },
+      select: ['id'],
+    });
+
+    const overflow = devices.slice(MAX_DEVICES_PER_USER);
+    if (overflow.length > 0) {
+      await this.deviceRepository.delete(overflow.map(device => device.id));
+    }
+  }
+}
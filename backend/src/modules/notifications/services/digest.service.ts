@@ -0,0 +1,242 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull, LessThanOrEqual } from 'typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { OnEvent } from '@nestjs/event-emitter';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import {
+  Notification,
+  NotificationStatus,
+  NotificationPriority,
+} from '../../../database/entities/notification.entity';
+import {
+  NotificationTemplate,
+  NotificationChannel,
+} from '../../../database/entities/notification-template.entity';
+import { UserNotificationPreferences } from '../../../database/entities/user-notification-preferences.entity';
+import { User } from '../../../database/entities/user.entity';
+import { DeliveryService } from './delivery.service';
+import { NotificationService } from './notification.service';
+import { TemplateService, DIGEST_TEMPLATE_KEY } from './template.service';
+
+const MAX_DIGEST_NOTIFICATIONS = 200;
+const MAX_ITEMS_PER_GROUP = 10;
+
+export interface DigestResult {
+  sent: boolean;
+  digestId?: string;
+  notificationCount: number;
+}
+
+/**
+ * Digest Service
+ * Collects notifications held for a user's digest and sends them as one
+ * grouped notification at the time the user picked, in their timezone
+ */
+@Injectable()
+export class DigestService {
+  private readonly logger = new Logger(DigestService.name);
+
+  constructor(
+    @InjectRepository(Notification)
+    private notificationRepository: Repository<Notification>,
+    @InjectRepository(NotificationTemplate)
+    private templateRepository: Repository<NotificationTemplate>,
+    @InjectRepository(UserNotificationPreferences)
+    private preferencesRepository: Repository<UserNotificationPreferences>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    @InjectQueue('notifications')
+    private notificationQueue: Queue,
+    private deliveryService: DeliveryService,
+    private notificationService: NotificationService,
+    private templateService: TemplateService,
+  ) {}
+
+  async sendDigest(userId: string): Promise<DigestResult> {
+    const [user, preference] = await Promise.all([
+      this.userRepository.findOne({ where: { id: userId } }),
+      this.preferencesRepository.findOne({
+        where: { userId, templateKey: IsNull(), channel: IsNull() },
+      }),
+    ]);
+
+    const held = await this.notificationRepository.find({
+      where: { userId, status: NotificationStatus.DIGEST_PENDING },
+      order: { createdAt: 'ASC' },
+      take: MAX_DIGEST_NOTIFICATIONS,
+    });
+
+    if (!user || held.length === 0) {
+      return { sent: false, notificationCount: 0 };
+    }
+
+    const template = await this.getDigestTemplate();
+    const channel =
+      preference?.frequencySettings.digestChannel === 'in_app'
+        ? NotificationChannel.IN_APP
+        : NotificationChannel.EMAIL;
+    const period = preference?.frequencySettings.digestFrequency === 'weekly' ? 'weekly' : 'daily';
+
+    const digest = this.notificationRepository.create(
+      Notification.createFromTemplate(
+        template,
+        channel,
+        {
+          userName: user.firstName || user.email,
+          period,
+          notificationCount: held.length,
+          groups: this.groupNotifications(held),
+        },
+        userId,
+      ),
+    );
+    digest.priority = NotificationPriority.LOW;
+    digest.data = { ...digest.data, category: 'digest' };
+    digest.metadata = { ...digest.metadata, sourceSystem: 'digest', digestSize: held.length };
+
+    const savedDigest = await this.notificationRepository.save(digest);
+    const result = await this.deliveryService.deliverNotification(savedDigest.id);
+
+    if (!result.success) {
+      // Held notifications stay queued for the retry; drop this copy
+      await this.notificationRepository.update(savedDigest.id, {
+        status: NotificationStatus.CANCELLED,
+        errorMessage: `Cancelled: digest delivery failed (${result.error})`,
+      });
+      throw new Error(`Digest delivery failed for user ${userId}: ${result.error}`);
+    }
+
+    for (const notification of held) {
+      notification.markDeliveredInDigest(savedDigest.id);
+    }
+    await this.notificationRepository.save(held);
+
+    this.logger.log(
+      `Sent ${period} digest ${savedDigest.id} to user ${userId}: ${held.length} notifications`,
+    );
+
+    return { sent: true, digestId: savedDigest.id, notificationCount: held.length };
+  }
+
+  // Scheduled tasks
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async queueDueDigests(): Promise<void> {
+    try {
+      const now = new Date();
+      const duePreferences = await this.preferencesRepository.find({
+        where: {
+          templateKey: IsNull(),
+          channel: IsNull(),
+          nextDigestAt: LessThanOrEqual(now),
+        },
+        order: { nextDigestAt: 'ASC' },
+        take: 200,
+      });
+
+      let queued = 0;
+      for (const preference of duePreferences) {
+        const runAt = preference.nextDigestAt!;
+        const user = await this.userRepository.findOne({
+          where: { id: preference.userId },
+          select: ['id', 'timezone'],
+        });
+
+        // Advance first so the next sweep never queues the same digest twice
+        const { affected } = await this.preferencesRepository.update(
+          { id: preference.id, nextDigestAt: runAt },
+          { nextDigestAt: preference.computeNextDigestAt(user?.timezone || 'UTC', now) },
+        );
+        if (!affected || !preference.isDigestEnabled) continue;
+
+        await this.notificationQueue.add(
+          'batch-digest',
+          {
+            userId: preference.userId,
+            frequency: preference.frequencySettings.digestFrequency || 'daily',
+          },
+          {
+            jobId: `digest:${preference.userId}:${runAt.getTime()}`,
+            attempts: 3,
+            backoff: { type: 'exponential', delay: 60000 },
+          },
+        );
+        queued++;
+      }
+
+      if (queued > 0) {
+        this.logger.log(`Queued ${queued} notification digests`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to queue notification digests', error);
+    }
+  }
+
+  // Event handlers
+  @OnEvent('preferences.digest.updated')
+  async handleDigestPreferencesUpdated(event: {
+    userId: string;
+    digestSettings: { enabled: boolean };
+  }): Promise<void> {
+    if (event.digestSettings.enabled) return;
+
+    try {
+      await this.notificationService.releaseDigestNotifications(event.userId);
+    } catch (error) {
+      this.logger.error(`Failed to release digest notifications for user ${event.userId}`, error);
+    }
+  }
+
+  private groupNotifications(
+    notifications: Notification[],
+  ): Array<{ title: string; total: number; items: string }> {
+    const groups = new Map<string, string[]>();
+    const seen = new Set<string>();
+
+    for (const notification of notifications) {
+      const firstLine = notification.body.split('\n').find(line => line.trim()) || '';
+      const summary = notification.subject?.trim() || firstLine.trim();
+      // The same event often arrives on both email and in-app
+      const key = `${notification.templateKey || ''}|${summary}|${notification.body}`;
+      if (!summary || seen.has(key)) continue;
+      seen.add(key);
+
+      const category = notification.data?.category || notification.template?.category || 'general';
+      groups.set(category, [...(groups.get(category) || []), summary]);
+    }
+
+    return [...groups.entries()].map(([category, summaries]) => {
+      const lines = summaries.slice(0, MAX_ITEMS_PER_GROUP).map(summary => `- ${summary}`);
+      if (summaries.length > MAX_ITEMS_PER_GROUP) {
+        lines.push(`- and ${summaries.length - MAX_ITEMS_PER_GROUP} more`);
+      }
+
+      return {
+        title: this.formatCategory(category),
+        total: summaries.length,
+        items: lines.join('\n'),
+      };
+    });
+  }
+
+  private formatCategory(category: string): string {
+    const words = category.replace(/[_-]+/g, ' ').trim();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+
+  private async getDigestTemplate(): Promise<NotificationTemplate> {
+    let template = await this.templateRepository.findOne({
+      where: { key: DIGEST_TEMPLATE_KEY, isActive: true },
+    });
+
+    if (!template) {
+      await this.templateService.createDefaultTemplates();
+      template = await this.templateRepository.findOneOrFail({
+        where: { key: DIGEST_TEMPLATE_KEY },
+      });
+    }
+
+    return template;
+  }
+}
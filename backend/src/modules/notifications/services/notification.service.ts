@@ -1,6 +1,6 @@
 import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, DataSource, In, Between } from 'typeorm';
+import { Repository, DataSource, In, Between, IsNull } from 'typeorm';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { InjectQueue } from '@nestjs/bull';
@@ -69,6 +69,7 @@ export class NotificationService {
   async sendNotification(options: any): Promise<Notification> {
     try {
       let notification: Partial<Notification>;
+      let category: string | undefined = options.data?.category;
       console.log("options", options)
 
       if (options.templateKey) {
@@ -85,6 +86,8 @@ export class NotificationService {
           options.userId,
           options.organizationId,
         );
+        category = category || template.category;
+        notification.data = { ...notification.data, category };
         console.log('notification: ', notification)
       } else {
         // Create direct notification
@@ -121,6 +124,14 @@ export class NotificationService {
           this.logger.log(`Notification blocked by user preferences: ${options.userId}`);
           notification.status = NotificationStatus.CANCELLED;
           notification.errorMessage = 'Blocked by user preferences';
+        } else {
+          await this.applyDeliveryPreferences(
+            notification,
+            options.userId,
+            options.templateKey,
+            options.channel,
+            category,
+          );
         }
       }
 
@@ -409,6 +420,31 @@ export class NotificationService {
     return stats;
   }
 
+  /**
+   * Send notifications held for a digest right away, e.g. after the user
+   * turned digests off
+   */
+  async releaseDigestNotifications(userId: string): Promise<number> {
+    const held = await this.notificationRepository.find({
+      where: { userId, status: NotificationStatus.DIGEST_PENDING },
+    });
+
+    for (const notification of held) {
+      notification.status = NotificationStatus.PENDING;
+    }
+    await this.notificationRepository.save(held);
+
+    for (const notification of held) {
+      await this.queueForDelivery(notification);
+    }
+
+    if (held.length > 0) {
+      this.logger.log(`Released ${held.length} digest notifications for user ${userId}`);
+    }
+
+    return held.length;
+  }
+
   // Scheduled tasks
   @Cron(CronExpression.EVERY_MINUTE)
   async processScheduledNotifications(): Promise<void> {
@@ -524,6 +560,56 @@ export class NotificationService {
     return preference.shouldReceiveNotification(templateKey, channel, priority);
   }
 
+  /**
+   * Hold digest-eligible email and in-app notifications for the user's
+   * digest, and defer other notifications created during quiet hours to the
+   * end of the quiet period. Urgent notifications are never deferred
+   */
+  private async applyDeliveryPreferences(
+    notification: Partial<Notification>,
+    userId: string,
+    templateKey?: string,
+    channel?: NotificationChannel,
+    category?: string,
+  ): Promise<void> {
+    if (notification.status !== NotificationStatus.PENDING) return;
+
+    const preferences = await this.preferencesRepository.find({
+      where: [
+        { userId, templateKey, channel },
+        { userId, templateKey, channel: IsNull() },
+        { userId, templateKey: IsNull(), channel },
+        { userId, templateKey: IsNull(), channel: IsNull() },
+      ],
+      order: { createdAt: 'DESC' },
+    });
+    if (preferences.length === 0) return;
+
+    // Digest settings live on the global preference
+    const global = preferences.find(preference => preference.isGlobalPreference);
+    const digestChannel = channel === NotificationChannel.EMAIL || channel === NotificationChannel.IN_APP;
+    if (
+      global &&
+      digestChannel &&
+      !notification.scheduledAt &&
+      global.isDigestEligible(category, notification.priority)
+    ) {
+      notification.status = NotificationStatus.DIGEST_PENDING;
+      return;
+    }
+
+    if (notification.priority === NotificationPriority.URGENT || channel === NotificationChannel.WEBHOOK) {
+      return;
+    }
+
+    const quietHours = preferences.find(preference => preference.hasQuietHours);
+    const sendAt = notification.scheduledAt || new Date();
+    const quietHoursEnd = quietHours?.quietHoursEndAt(sendAt);
+    if (quietHoursEnd) {
+      notification.scheduledAt = quietHoursEnd;
+    }
+  }
+
   private async queueForDelivery(notification: Notification): Promise<void> {
     const jobData = {
       notificationId: notification.id,
@@ -575,6 +661,14 @@ export class NotificationService {
         );
 
         notification.scheduledAt = options.scheduledAt;
+        notification.data = { ...notification.data, category: template.category };
+        await this.applyDeliveryPreferences(
+          notification,
+          userId,
+          options.templateKey,
+          channel,
+          template.category,
+        );
         notification.metadata = {
           ...notification.metadata,
           batchId,
@@ -30,6 +30,8 @@ export interface UpdatePreferencesDto {
     digestFrequency?: 'daily' | 'weekly';
     digestTime?: string;
     digestDays?: string[];
+    digestChannel?: 'email' | 'in_app';
+    digestCategories?: string[];
   };
   channelSettings?: Record<string, any>;
   contentFilters?: {
@@ -162,6 +164,10 @@ export class PreferencesService {
           ...preference.frequencySettings,
           ...updateDto.frequencySettings,
         };
+        if (preference.isGlobalPreference) {
+          this.validateDigestSettings(preference);
+          await this.refreshDigestSchedule(preference);
+        }
       }
 
       if (updateDto.channelSettings) {
@@ -208,6 +214,18 @@ export class PreferencesService {
         changes: updateDto,
       });
 
+      if (savedPreference.isGlobalPreference && updateDto.frequencySettings) {
+        this.eventEmitter.emit('preferences.digest.updated', {
+          userId,
+          digestSettings: {
+            enabled: savedPreference.isDigestEnabled,
+            frequency: savedPreference.frequencySettings.digestFrequency,
+            time: savedPreference.frequencySettings.digestTime,
+            days: savedPreference.frequencySettings.digestDays,
+          },
+        });
+      }
+
       this.logger.log(`Preferences updated for user ${userId}`);
 
       return savedPreference;
@@ -339,6 +357,8 @@ export class PreferencesService {
     frequency: 'daily' | 'weekly',
     time: string,
     days?: string[],
+    channel?: 'email' | 'in_app',
+    categories?: string[],
   ): Promise<UserNotificationPreferences> {
     try {
       // Get or create global preference
@@ -360,6 +380,17 @@ export class PreferencesService {
         preference.frequencySettings.digestDays = days;
       }
 
+      if (channel) {
+        preference.frequencySettings.digestChannel = channel;
+      }
+
+      if (categories) {
+        preference.frequencySettings.digestCategories = categories;
+      }
+
+      this.validateDigestSettings(preference);
+      await this.refreshDigestSchedule(preference);
+
       const savedPreference = await this.preferencesRepository.save(preference);
 
       // Emit event
@@ -645,6 +676,40 @@ export class PreferencesService {
   }
 
   // Private helper methods
+  private validateDigestSettings(preference: UserNotificationPreferences): void {
+    const settings = preference.frequencySettings;
+    if (!settings.digestEnabled) return;
+
+    if (settings.digestFrequency && !['daily', 'weekly'].includes(settings.digestFrequency)) {
+      throw new BadRequestException('Digest frequency must be daily or weekly');
+    }
+
+    if (settings.digestTime && !/^([01]?\d|2[0-3]):[0-5]\d$/.test(settings.digestTime)) {
+      throw new BadRequestException('Digest time must use the HH:mm format');
+    }
+
+    const weekdays = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+    if (settings.digestDays?.some(day => !weekdays.includes(day.toLowerCase()))) {
+      throw new BadRequestException('Digest days must be weekday names');
+    }
+
+    if (settings.digestChannel && !['email', 'in_app'].includes(settings.digestChannel)) {
+      throw new BadRequestException('Digests are sent by email or in-app');
+    }
+  }
+
+  /**
+   * Digests follow the user's timezone
+   */
+  private async refreshDigestSchedule(preference: UserNotificationPreferences): Promise<void> {
+    const user = await this.userRepository.findOne({
+      where: { id: preference.userId },
+      select: ['id', 'timezone'],
+    });
+
+    preference.nextDigestAt = preference.computeNextDigestAt(user?.timezone || 'UTC');
+  }
+
   private getSuggestionType(field: string): 'frequency' | 'quietHours' | 'digest' | 'channel' {
     if (field.includes('frequency')) return 'frequency';
     if (field.includes('quietHours')) return 'quietHours';
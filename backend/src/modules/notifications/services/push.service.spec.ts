@@ -0,0 +1,111 @@
+import { Repository } from 'typeorm';
+import { Notification, NotificationPriority } from '../../../database/entities/notification.entity';
+import {
+  DevicePlatform,
+  PushProvider,
+  UserDevice,
+} from '../../../database/entities/user-device.entity';
+import { FakePushTransport } from '../push/fake-push.transport';
+import { DeviceService } from './device.service';
+import { PushService } from './push.service';
+
+const buildDevice = (overrides: Partial<UserDevice>): UserDevice =>
+  Object.assign(new UserDevice(), {
+    userId: 'user-1',
+    platform: DevicePlatform.ANDROID,
+    provider: PushProvider.FCM,
+    isActive: true,
+    failureCount: 0,
+    ...overrides,
+  });
+
+const buildNotification = (): Notification =>
+  Object.assign(new Notification(), {
+    id: 'notification-1',
+    userId: 'user-1',
+    subject: 'Interview tomorrow',
+    body: 'Your interview starts at 10:00',
+    priority: NotificationPriority.HIGH,
+    data: { category: 'interviews', actionUrl: '/interviews/1' },
+  });
+
+describe('PushService', () => {
+  let fcm: FakePushTransport;
+  let webPush: FakePushTransport;
+  let devices: UserDevice[];
+  let deviceRepository: { update: jest.Mock; delete: jest.Mock };
+  let service: PushService;
+
+  beforeEach(() => {
+    fcm = new FakePushTransport(PushProvider.FCM);
+    webPush = new FakePushTransport(PushProvider.WEB_PUSH);
+    devices = [
+      buildDevice({ id: 'android', token: 'android-token' }),
+      buildDevice({
+        id: 'browser',
+        platform: DevicePlatform.WEB,
+        provider: PushProvider.WEB_PUSH,
+        token: 'https://fcm.googleapis.com/fcm/send/browser',
+        webPushKeys: { p256dh: 'key', auth: 'secret' },
+      }),
+    ];
+    deviceRepository = { update: jest.fn(), delete: jest.fn() };
+
+    const deviceService = {
+      getActiveDevices: jest.fn(async () => devices),
+    } as unknown as DeviceService;
+
+    service = new PushService(
+      deviceRepository as unknown as Repository<UserDevice>,
+      [fcm, webPush],
+      deviceService,
+    );
+  });
+
+  it('fans out to every device through its provider', async () => {
+    const result = await service.sendToUser(buildNotification());
+
+    expect(result.success).toBe(true);
+    expect(result.devices.map(device => device.deviceId)).toEqual(['android', 'browser']);
+    expect(fcm.sent).toHaveLength(1);
+    expect(webPush.sent).toHaveLength(1);
+    expect(fcm.sent[0].message).toMatchObject({
+      title: 'Interview tomorrow',
+      priority: 'high',
+      data: {
+        notificationId: 'notification-1',
+        category: 'interviews',
+        actionUrl: '/interviews/1',
+      },
+    });
+    expect(deviceRepository.update).toHaveBeenCalledWith(
+      'android',
+      expect.objectContaining({ failureCount: 0 }),
+    );
+  });
+
+  it('prunes devices whose token the provider rejects', async () => {
+    fcm.invalidTokens.add('android-token');
+
+    const result = await service.sendToUser(buildNotification());
+
+    expect(result.success).toBe(true);
+    expect(result.devices[0]).toMatchObject({ deviceId: 'android', success: false, pruned: true });
+    expect(deviceRepository.delete).toHaveBeenCalledWith('android');
+  });
+
+  it('fails when the user has no reachable device', async () => {
+    devices = [];
+    await expect(service.sendToUser(buildNotification())).resolves.toMatchObject({
+      success: false,
+      error: 'No registered devices',
+    });
+
+    devices = [buildDevice({ id: 'android', token: 'android-token' })];
+    fcm.invalidTokens.add('android-token');
+    await expect(service.sendToUser(buildNotification())).resolves.toMatchObject({
+      success: false,
+      error: 'UNREGISTERED',
+    });
+  });
+});
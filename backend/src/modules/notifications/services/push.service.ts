@@ -0,0 +1,133 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Notification, NotificationPriority } from '../../../database/entities/notification.entity';
+import { PushProvider, UserDevice } from '../../../database/entities/user-device.entity';
+import { PUSH_TRANSPORTS, PushMessage, PushTransport } from '../push/push-transport';
+import { DeviceService } from './device.service';
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+export interface PushDeviceResult {
+  deviceId: string;
+  platform: string;
+  provider: PushProvider;
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  pruned?: boolean;
+}
+
+export interface PushDeliveryResult {
+  success: boolean;
+  devices: PushDeviceResult[];
+  error?: string;
+}
+
+/**
+ * Push Service
+ * Fans a notification out to every active device of the recipient through
+ * the transport for the device's provider, pruning rejected tokens
+ */
+@Injectable()
+export class PushService {
+  private readonly logger = new Logger(PushService.name);
+  private readonly transports: Map<PushProvider, PushTransport>;
+
+  constructor(
+    @InjectRepository(UserDevice)
+    private deviceRepository: Repository<UserDevice>,
+    @Inject(PUSH_TRANSPORTS)
+    transports: PushTransport[],
+    private deviceService: DeviceService,
+  ) {
+    this.transports = new Map(transports.map(transport => [transport.provider, transport]));
+  }
+
+  async sendToUser(notification: Notification): Promise<PushDeliveryResult> {
+    const devices = await this.deviceService.getActiveDevices(notification.userId);
+    if (devices.length === 0) {
+      return { success: false, devices: [], error: 'No registered devices' };
+    }
+
+    const message = this.buildMessage(notification);
+    const results = await Promise.all(devices.map(device => this.sendToDevice(device, message)));
+
+    const delivered = results.filter(result => result.success).length;
+    if (delivered < results.length) {
+      this.logger.warn(`Push ${notification.id}: ${delivered}/${results.length} devices reached`);
+    }
+
+    return {
+      success: delivered > 0,
+      devices: results,
+      error: delivered > 0 ? undefined : this.summarizeErrors(results),
+    };
+  }
+
+  private async sendToDevice(device: UserDevice, message: PushMessage): Promise<PushDeviceResult> {
+    const base = { deviceId: device.id, platform: device.platform, provider: device.provider };
+    const transport = this.transports.get(device.provider);
+
+    if (!transport || !transport.isConfigured()) {
+      return { ...base, success: false, error: `${device.provider} push is not configured` };
+    }
+
+    const result = await transport.send(device, message);
+
+    if (result.success) {
+      await this.deviceRepository.update(device.id, {
+        lastDeliveredAt: new Date(),
+        failureCount: 0,
+        lastError: null,
+      });
+      return { ...base, success: true, messageId: result.messageId };
+    }
+
+    if (result.invalidToken) {
+      await this.deviceRepository.delete(device.id);
+      this.logger.log(`Pruned ${device.provider} device ${device.id}: ${result.error}`);
+      return { ...base, success: false, error: result.error, pruned: true };
+    }
+
+    await this.deviceRepository.update(device.id, {
+      failureCount: device.failureCount + 1,
+      lastError: result.error,
+    });
+    return { ...base, success: false, error: result.error };
+  }
+
+  private buildMessage(notification: Notification): PushMessage {
+    const data: Record<string, string> = {
+      notificationId: notification.id,
+      category: notification.data?.category || 'general',
+    };
+    if (notification.data?.actionUrl) {
+      data.actionUrl = notification.data.actionUrl;
+    }
+
+    const highPriority =
+      notification.priority === NotificationPriority.HIGH ||
+      notification.priority === NotificationPriority.URGENT;
+    const expiresIn = notification.data?.expiresAt
+      ? Math.floor((new Date(notification.data.expiresAt).getTime() - Date.now()) / 1000)
+      : DEFAULT_TTL_SECONDS;
+
+    return {
+      title: notification.subject || 'Notification',
+      body: notification.body,
+      data,
+      icon: notification.data?.icon,
+      imageUrl: notification.data?.imageUrl,
+      sound: notification.data?.sound,
+      badge: notification.data?.badge,
+      clickAction: notification.data?.clickAction || notification.data?.actionUrl,
+      priority: highPriority ? 'high' : 'normal',
+      ttlSeconds: Math.max(0, expiresIn),
+    };
+  }
+
+  private summarizeErrors(results: PushDeviceResult[]): string {
+    return [...new Set(results.map(result => result.error || 'Delivery failed'))].join('; ');
+  }
+}
@@ -8,6 +8,8 @@ import {
 } from '../../../database/entities/notification-template.entity';
 import { User } from '../../../database/entities/user.entity';
 
+export const DIGEST_TEMPLATE_KEY = 'notification_digest';
+
 export interface CreateTemplateDto {
   key: string;
   name: string;
@@ -532,6 +534,31 @@ Best regards,
         },
         metadata: { category: 'hr', priority: 'high' },
       },
+      {
+        key: DIGEST_TEMPLATE_KEY,
+        name: 'Notification Digest',
+        description: 'Daily or weekly summary of notifications held for the digest',
+        channels: [NotificationChannel.EMAIL, NotificationChannel.IN_APP],
+        subjectTemplate: 'Your {{period}} digest: {{notificationCount}} new notifications',
+        bodyTemplate: `Hello {{userName}},
+
+Here is what you missed since your last digest.
+{{#each groups}}
+{{title}} ({{total}})
+{{items}}
+{{/each}}
+You can change how often you receive this digest in your notification preferences.
+
+Best regards,
+The Volkai HR Edu Team`,
+        variables: {
+          userName: { type: 'string', required: true, description: 'User\'s name' },
+          period: { type: 'string', required: true, description: 'Digest period (daily or weekly)' },
+          notificationCount: { type: 'number', required: true, description: 'Number of notifications' },
+          groups: { type: 'object', required: true, description: 'Notifications grouped by category' },
+        },
+        metadata: { category: 'digest', priority: 'low' },
+      },
     ];
 
     for (const templateData of defaultTemplates) {
@@ -402,7 +402,9 @@ export class OrganizationsController {
   // @RequirePermissions('manage:organization')
   @ApiOperation({
     summary: 'Update organization settings',
-    description: 'Update organization configuration settings',
+    description:
+      'Update organization configuration settings. Set mfaRequiredRoles (e.g. ["owner", "admin", "hr"]) ' +
+      'to require multi-factor authentication for those member roles',
   })
   @ApiResponse({
     status: 200,
@@ -20,6 +20,8 @@ import { UpdateOrganizationDto } from './dto/update-organization.dto';
 import { InviteMemberDto } from './dto/invite-member.dto';
 import { UpdateMemberDto } from './dto/update-member.dto';
 import { AuthenticatedUser } from '@modules/auth/strategies/jwt.strategy';
+import { MFA_REQUIRED_ROLES_SETTING } from '@modules/auth/services/mfa.service';
+import { SCIM_GROUP_ROLES_SETTING } from '@modules/scim/services/scim-group.service';
 
 /**
  * Organizations Service
@@ -609,6 +611,13 @@ export class OrganizationsService {
       throw new NotFoundException('Organization not found');
     }
 
+    if (MFA_REQUIRED_ROLES_SETTING in settings) {
+      this.validateMfaRequiredRoles(settings[MFA_REQUIRED_ROLES_SETTING]);
+    }
+    if (SCIM_GROUP_ROLES_SETTING in settings) {
+      this.validateScimGroupRoles(settings[SCIM_GROUP_ROLES_SETTING]);
+    }
+
     // Merge settings
     const updatedSettings = {
       ...organization.settings,
@@ -634,6 +643,39 @@ export class OrganizationsService {
 
   // Private helper methods
 
+  /**
+   * MFA enforcement must list known membership roles
+   */
+  private validateMfaRequiredRoles(roles: unknown): void {
+    const validRoles = Object.values(MembershipRole) as string[];
+
+    if (!Array.isArray(roles) || roles.some(role => !validRoles.includes(role))) {
+      throw new BadRequestException(
+        `${MFA_REQUIRED_ROLES_SETTING} must be an array of roles: ${validRoles.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * SCIM groups map by displayName to any role but owner
+   */
+  private validateScimGroupRoles(mapping: unknown): void {
+    const validRoles = (Object.values(MembershipRole) as string[]).filter(
+      role => role !== MembershipRole.OWNER,
+    );
+
+    if (
+      !mapping ||
+      typeof mapping !== 'object' ||
+      Array.isArray(mapping) ||
+      Object.values(mapping).some(role => !validRoles.includes(role))
+    ) {
+      throw new BadRequestException(
+        `${SCIM_GROUP_ROLES_SETTING} must map group names to roles: ${validRoles.join(', ')}`,
+      );
+    }
+  }
+
   /**
    * Switch organization context for user
    */
@@ -2,11 +2,13 @@ import {
   Controller,
   Get,
   Post,
+  Delete,
   Param,
   Body,
   Query,
   UseGuards,
   HttpStatus,
+  HttpCode,
   ParseUUIDPipe,
   ValidationPipe,
   Res,
@@ -25,10 +27,13 @@ import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../../auth/decorators/current-user.decorator';
 import { User } from '../../../database/entities/user.entity';
 import { PdfExportService } from '../services/pdf-export.service';
+import { ResumeExportScheduleService } from '../services/resume-export-schedule.service';
+import { ResumeExportSchedule } from '../../../database/entities/resume-export-schedule.entity';
 import {
   ExportResumeDto,
   ExportResponseDto,
   ResumePreviewDto,
+  ScheduleExportDto,
 } from '../dto/pdf-export.dto';
 
 @ApiTags('Resume PDF Export')
@@ -38,6 +43,7 @@ import {
 export class PdfExportController {
   constructor(
     private readonly pdfExportService: PdfExportService,
+    private readonly scheduleService: ResumeExportScheduleService,
   ) {}
 
   @Post(':id/pdf')
@@ -310,23 +316,90 @@ export class PdfExportController {
   @Post(':id/schedule-export')
   @ApiOperation({ summary: 'Schedule automatic resume export' })
   @ApiResponse({
-    status: HttpStatus.OK,
+    status: HttpStatus.CREATED,
     description: 'Export scheduled successfully',
   })
   @ApiParam({ name: 'id', description: 'Resume ID' })
   async scheduleExport(
     @Param('id', ParseUUIDPipe) id: string,
-    @Body('schedule') schedule: {
-      frequency: 'daily' | 'weekly' | 'monthly';
-      format: string;
-      email?: boolean;
-    },
+    @Body() dto: ScheduleExportDto,
     @CurrentUser() user: any,
-  ): Promise<{ success: boolean; scheduleId: string }> {
-    // This would create a scheduled job for automatic exports
+  ): Promise<{ success: boolean; scheduleId: string; schedule: ResumeExportSchedule }> {
+    const schedule = await this.scheduleService.createSchedule(id, dto, user);
+
     return {
       success: true,
-      scheduleId: `schedule-${Date.now()}`,
+      scheduleId: schedule.id,
+      schedule,
     };
   }
+
+  @Get('schedules')
+  @ApiOperation({ summary: 'List export schedules of the current user' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Export schedules retrieved successfully',
+  })
+  async getSchedules(@CurrentUser() user: any): Promise<ResumeExportSchedule[]> {
+    return this.scheduleService.getUserSchedules(user);
+  }
+
+  @Get(':id/schedules')
+  @ApiOperation({ summary: 'List export schedules of a resume' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Export schedules retrieved successfully',
+  })
+  @ApiParam({ name: 'id', description: 'Resume ID' })
+  async getResumeSchedules(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+  ): Promise<ResumeExportSchedule[]> {
+    return this.scheduleService.getResumeSchedules(id, user);
+  }
+
+  @Post('schedules/:scheduleId/pause')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Pause an export schedule' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Export schedule paused',
+  })
+  @ApiParam({ name: 'scheduleId', description: 'Export schedule ID' })
+  async pauseSchedule(
+    @Param('scheduleId', ParseUUIDPipe) scheduleId: string,
+    @CurrentUser() user: any,
+  ): Promise<ResumeExportSchedule> {
+    return this.scheduleService.pauseSchedule(scheduleId, user);
+  }
+
+  @Post('schedules/:scheduleId/resume')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Resume a paused export schedule' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Export schedule resumed',
+  })
+  @ApiParam({ name: 'scheduleId', description: 'Export schedule ID' })
+  async resumeSchedule(
+    @Param('scheduleId', ParseUUIDPipe) scheduleId: string,
+    @CurrentUser() user: any,
+  ): Promise<ResumeExportSchedule> {
+    return this.scheduleService.resumeSchedule(scheduleId, user);
+  }
+
+  @Delete('schedules/:scheduleId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete an export schedule' })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Export schedule deleted',
+  })
+  @ApiParam({ name: 'scheduleId', description: 'Export schedule ID' })
+  async deleteSchedule(
+    @Param('scheduleId', ParseUUIDPipe) scheduleId: string,
+    @CurrentUser() user: any,
+  ): Promise<void> {
+    await this.scheduleService.deleteSchedule(scheduleId, user);
+  }
 }
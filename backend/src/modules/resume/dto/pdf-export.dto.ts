@@ -6,10 +6,17 @@ import {
   IsNumber,
   IsObject,
   IsUrl,
+  IsArray,
+  IsEmail,
+  ArrayMaxSize,
   Min,
   Max,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ResumeExportFormat,
+  ResumeExportFrequency,
+} from '../../../database/entities/resume-export-schedule.entity';
 
 export class PdfOptionsDto {
   @ApiPropertyOptional({ description: 'Paper format', enum: ['A4', 'Letter'] })
@@ -176,3 +183,36 @@ export class ResumePreviewDto {
     this.template = data.template;
   }
 }
+
+export class ScheduleExportDto {
+  @ApiProperty({
+    description: 'How often the export is regenerated',
+    enum: ResumeExportFrequency,
+  })
+  @IsEnum(ResumeExportFrequency)
+  frequency: ResumeExportFrequency;
+
+  @ApiPropertyOptional({
+    description: 'Export format',
+    enum: ResumeExportFormat,
+    default: ResumeExportFormat.PDF,
+  })
+  @IsOptional()
+  @IsEnum(ResumeExportFormat)
+  format?: ResumeExportFormat;
+
+  @ApiPropertyOptional({ description: 'Whether to email each export', default: false })
+  @IsOptional()
+  @IsBoolean()
+  email?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Email recipients, defaults to the resume owner',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsEmail({}, { each: true })
+  recipients?: string[];
+}
@@ -0,0 +1,32 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { ResumeExportScheduleService } from '../services/resume-export-schedule.service';
+
+@Processor('resume-exports')
+export class ResumeExportProcessor {
+  private readonly logger = new Logger(ResumeExportProcessor.name);
+
+  constructor(private readonly scheduleService: ResumeExportScheduleService) {}
+
+  @Process('export')
+  async processScheduledExport(job: Job<{ scheduleId: string }>) {
+    const { scheduleId } = job.data;
+
+    this.logger.log(`Processing scheduled resume export ${scheduleId}`);
+
+    try {
+      const result = await this.scheduleService.runSchedule(scheduleId);
+      if (result.filename) {
+        this.logger.log(
+          `Scheduled resume export ${scheduleId} generated ${result.filename}` +
+            (result.emailed ? ` and emailed to ${result.emailed} recipients` : ''),
+        );
+      }
+      return result;
+    } catch (error) {
+      this.logger.error(`Scheduled resume export ${scheduleId} failed`, error);
+      throw error;
+    }
+  }
+}
@@ -3,6 +3,8 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { HttpModule } from '@nestjs/axios';
 import { ConfigModule } from '@nestjs/config';
 import { ScheduleModule } from '@nestjs/schedule';
+import { BullModule } from '@nestjs/bull';
+import { EmailModule } from '../email/email.module';
 
 // Entities
 import { ResumeTemplate } from '../../database/entities/resume-template.entity';
@@ -12,6 +14,7 @@ import { SkillCategory } from '../../database/entities/skill-category.entity';
 import { Skill } from '../../database/entities/skill.entity';
 import { UserSkill } from '../../database/entities/user-skill.entity';
 import { User } from '../../database/entities/user.entity';
+import { ResumeExportSchedule } from '../../database/entities/resume-export-schedule.entity';
 
 // Services
 import { TemplateManagementService } from './services/template-management.service';
@@ -19,6 +22,10 @@ import { ResumeBuilderService } from './services/resume-builder.service';
 import { SkillsIntegrationService } from './services/skills-integration.service';
 import { PdfExportService } from './services/pdf-export.service';
 import { ResumeAnalyticsService } from './services/resume-analytics.service';
+import { ResumeExportScheduleService } from './services/resume-export-schedule.service';
+
+// Processors
+import { ResumeExportProcessor } from './processors/resume-export.processor';
 
 // Controllers
 import { TemplateManagementController } from './controllers/template-management.controller';
@@ -34,6 +41,7 @@ import { ResumeAnalyticsController } from './controllers/resume-analytics.contro
       ResumeTemplate,
       UserResume,
       ResumeSection,
+      ResumeExportSchedule,
       
       // Skills entities
       SkillCategory,
@@ -47,8 +55,12 @@ import { ResumeAnalyticsController } from './controllers/resume-analytics.contro
       timeout: 10000,
       maxRedirects: 5,
     }),
+    BullModule.registerQueue({
+      name: 'resume-exports',
+    }),
     ConfigModule,
     ScheduleModule.forRoot(),
+    EmailModule,
   ],
   controllers: [
     TemplateManagementController,
@@ -63,6 +75,8 @@ import { ResumeAnalyticsController } from './controllers/resume-analytics.contro
     SkillsIntegrationService,
     PdfExportService,
     ResumeAnalyticsService,
+    ResumeExportScheduleService,
+    ResumeExportProcessor,
   ],
   exports: [
     TemplateManagementService,
@@ -0,0 +1,281 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { InjectQueue } from '@nestjs/bull';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Queue } from 'bull';
+import { Repository, LessThanOrEqual } from 'typeorm';
+import {
+  ResumeExportSchedule,
+  ResumeExportFormat,
+  ResumeExportScheduleStatus,
+} from '../../../database/entities/resume-export-schedule.entity';
+import { UserResume } from '../../../database/entities/user-resume.entity';
+import { User, UserRole } from '../../../database/entities/user.entity';
+import { EmailService } from '../../email/email.service';
+import { PdfExportService } from './pdf-export.service';
+import { ScheduleExportDto } from '../dto/pdf-export.dto';
+
+const MAX_SCHEDULES_PER_RESUME = 10;
+
+/**
+ * Resume Export Schedule Service
+ * Persists export schedules and regenerates due exports through the
+ * resume-exports queue, emailing the file when delivery is enabled
+ */
+@Injectable()
+export class ResumeExportScheduleService {
+  private readonly logger = new Logger(ResumeExportScheduleService.name);
+
+  constructor(
+    @InjectRepository(ResumeExportSchedule)
+    private readonly scheduleRepository: Repository<ResumeExportSchedule>,
+    @InjectRepository(UserResume)
+    private readonly resumeRepository: Repository<UserResume>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectQueue('resume-exports')
+    private readonly exportQueue: Queue,
+    private readonly pdfExportService: PdfExportService,
+    private readonly emailService: EmailService,
+  ) {}
+
+  async createSchedule(
+    resumeId: string,
+    dto: ScheduleExportDto,
+    user: User,
+  ): Promise<ResumeExportSchedule> {
+    const resume = await this.findAccessibleResume(resumeId, user);
+
+    const existing = await this.scheduleRepository.count({ where: { resumeId } });
+    if (existing >= MAX_SCHEDULES_PER_RESUME) {
+      throw new BadRequestException(
+        `A resume can have at most ${MAX_SCHEDULES_PER_RESUME} export schedules`,
+      );
+    }
+
+    const emailDelivery = dto.email ?? false;
+    let recipients = [...new Set((dto.recipients || []).map(email => email.toLowerCase()))];
+    if (emailDelivery && recipients.length === 0) {
+      const ownerEmail = resume.data?.personalInfo?.email || resume.user?.email;
+      if (!ownerEmail) {
+        throw new BadRequestException('Email delivery requires at least one recipient');
+      }
+      recipients = [ownerEmail];
+    }
+
+    // The first export runs on the next sweep
+    const schedule = this.scheduleRepository.create({
+      resumeId,
+      userId: user.id,
+      frequency: dto.frequency,
+      format: dto.format || ResumeExportFormat.PDF,
+      emailDelivery,
+      recipients,
+      nextRunAt: new Date(),
+    });
+
+    const saved = await this.scheduleRepository.save(schedule);
+    this.logger.log(`Export schedule ${saved.id} created for resume ${resumeId}`);
+
+    return saved;
+  }
+
+  /**
+   * Schedules the user created or that export one of their resumes
+   */
+  async getUserSchedules(user: User): Promise<ResumeExportSchedule[]> {
+    return this.scheduleRepository
+      .createQueryBuilder('schedule')
+      .innerJoin('schedule.resume', 'resume')
+      .where('schedule.userId = :userId OR resume.userId = :userId', { userId: user.id })
+      .orderBy('schedule.createdAt', 'DESC')
+      .getMany();
+  }
+
+  async getResumeSchedules(resumeId: string, user: User): Promise<ResumeExportSchedule[]> {
+    await this.findAccessibleResume(resumeId, user);
+
+    return this.scheduleRepository.find({
+      where: { resumeId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async pauseSchedule(scheduleId: string, user: User): Promise<ResumeExportSchedule> {
+    const schedule = await this.findAccessibleSchedule(scheduleId, user);
+
+    schedule.status = ResumeExportScheduleStatus.PAUSED;
+    return this.scheduleRepository.save(schedule);
+  }
+
+  async resumeSchedule(scheduleId: string, user: User): Promise<ResumeExportSchedule> {
+    const schedule = await this.findAccessibleSchedule(scheduleId, user);
+
+    if (!schedule.isActive()) {
+      schedule.status = ResumeExportScheduleStatus.ACTIVE;
+      // Runs missed while paused are skipped
+      schedule.nextRunAt = schedule.computeNextRun();
+    }
+    return this.scheduleRepository.save(schedule);
+  }
+
+  async deleteSchedule(scheduleId: string, user: User): Promise<void> {
+    const schedule = await this.findAccessibleSchedule(scheduleId, user);
+
+    await this.scheduleRepository.remove(schedule);
+    this.logger.log(`Export schedule ${scheduleId} deleted`);
+  }
+
+  /**
+   * Regenerate the export for a schedule and email it when delivery is on.
+   * Called by the resume-exports processor
+   */
+  async runSchedule(scheduleId: string): Promise<{ filename?: string; emailed: number }> {
+    const schedule = await this.scheduleRepository.findOne({
+      where: { id: scheduleId },
+      relations: ['resume'],
+    });
+
+    if (!schedule || !schedule.isActive()) {
+      this.logger.log(`Skipping export schedule ${scheduleId}: deleted or paused`);
+      return { emailed: 0 };
+    }
+
+    try {
+      const user = await this.userRepository.findOne({ where: { id: schedule.userId } });
+      if (!user) {
+        throw new NotFoundException('Schedule owner not found');
+      }
+
+      const result =
+        schedule.format === ResumeExportFormat.PDF_ATS
+          ? await this.pdfExportService.generateATSOptimizedPdf(schedule.resumeId, user)
+          : await this.pdfExportService.exportResumeToPdf(
+              schedule.resumeId,
+              { format: 'pdf' },
+              user,
+            );
+
+      let emailed = 0;
+      if (schedule.emailDelivery && schedule.recipients.length > 0) {
+        const content = await this.pdfExportService.downloadResumePdf(result.filename);
+        const personalInfo = schedule.resume?.data?.personalInfo;
+        const candidateName =
+          [personalInfo?.firstName, personalInfo?.lastName].filter(Boolean).join(' ') ||
+          schedule.resume?.title ||
+          'Candidate';
+
+        await this.emailService.sendResumeExport(
+          schedule.recipients,
+          candidateName,
+          schedule.resume?.title || 'Resume',
+          schedule.frequency,
+          {
+            filename: result.filename,
+            content,
+            contentType: 'application/pdf',
+          },
+        );
+        emailed = schedule.recipients.length;
+      }
+
+      await this.scheduleRepository.update(schedule.id, {
+        lastRunAt: new Date(),
+        lastFilename: result.filename,
+        lastError: null,
+        runCount: schedule.runCount + 1,
+      });
+
+      return { filename: result.filename, emailed };
+    } catch (error) {
+      await this.scheduleRepository.update(schedule.id, {
+        lastRunAt: new Date(),
+        lastError: error.message,
+        failureCount: schedule.failureCount + 1,
+      });
+      throw error;
+    }
+  }
+
+  // Scheduled tasks
+  @Cron(CronExpression.EVERY_MINUTE)
+  async queueDueSchedules(): Promise<void> {
+    try {
+      const now = new Date();
+      const dueSchedules = await this.scheduleRepository.find({
+        where: {
+          status: ResumeExportScheduleStatus.ACTIVE,
+          nextRunAt: LessThanOrEqual(now),
+        },
+        order: { nextRunAt: 'ASC' },
+        take: 100,
+      });
+
+      for (const schedule of dueSchedules) {
+        const runAt = schedule.nextRunAt;
+
+        // Advance first so a slow queue never sees the same run twice
+        const { affected } = await this.scheduleRepository.update(
+          { id: schedule.id, nextRunAt: runAt },
+          { nextRunAt: schedule.computeNextRun(now) },
+        );
+        if (!affected) continue;
+
+        await this.exportQueue.add(
+          'export',
+          { scheduleId: schedule.id },
+          {
+            jobId: `${schedule.id}:${runAt.getTime()}`,
+            attempts: 3,
+            backoff: { type: 'exponential', delay: 60000 },
+            removeOnComplete: 100,
+            removeOnFail: 500,
+          },
+        );
+      }
+
+      if (dueSchedules.length > 0) {
+        this.logger.log(`Queued ${dueSchedules.length} scheduled resume exports`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to queue scheduled resume exports', error);
+    }
+  }
+
+  private async findAccessibleResume(resumeId: string, user: User): Promise<UserResume> {
+    const resume = await this.resumeRepository.findOne({
+      where: { id: resumeId },
+      relations: ['user'],
+    });
+
+    if (!resume || (resume.userId !== user.id && !this.isAdmin(user))) {
+      throw new NotFoundException('Resume not found');
+    }
+
+    return resume;
+  }
+
+  private async findAccessibleSchedule(
+    scheduleId: string,
+    user: User,
+  ): Promise<ResumeExportSchedule> {
+    const schedule = await this.scheduleRepository.findOne({
+      where: { id: scheduleId },
+      relations: ['resume'],
+    });
+
+    const allowed =
+      schedule &&
+      (schedule.userId === user.id || schedule.resume?.userId === user.id || this.isAdmin(user));
+    if (!allowed) {
+      throw new NotFoundException('Export schedule not found');
+    }
+
+    return schedule;
+  }
+
+  private isAdmin(user: User): boolean {
+    // Matches the export permission check in PdfExportService
+    return user.roles === UserRole.ADMIN;
+  }
+}
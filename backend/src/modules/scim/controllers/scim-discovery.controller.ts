@@ -0,0 +1,91 @@
+import { Controller, Get, Res, UseGuards, UseFilters, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiSecurity } from '@nestjs/swagger';
+import { ConfigService } from '@nestjs/config';
+import { Response } from 'express';
+import { ApiKeyAuthGuard } from '@modules/webhooks/guards/api-key-auth.guard';
+import { ScimExceptionFilter } from '../filters/scim-exception.filter';
+import { sendScim } from '../scim-http';
+import {
+  SCIM_GROUP_SCHEMA,
+  SCIM_MAX_PAGE_SIZE,
+  SCIM_USER_SCHEMA,
+  buildScimListResponse,
+} from '../scim.types';
+
+const SERVICE_PROVIDER_CONFIG_SCHEMA =
+  'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig';
+const RESOURCE_TYPE_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:ResourceType';
+
+/**
+ * SCIM Discovery Controller
+ * Capabilities that provisioning clients read before syncing (RFC 7644, section 4)
+ */
+@ApiTags('SCIM')
+@ApiSecurity('api-key')
+@Controller('scim/v2')
+@UseGuards(ApiKeyAuthGuard)
+@UseFilters(ScimExceptionFilter)
+export class ScimDiscoveryController {
+  constructor(private readonly configService: ConfigService) {}
+
+  @Get('ServiceProviderConfig')
+  @ApiOperation({ summary: 'SCIM service provider configuration' })
+  @ApiResponse({ status: 200, description: 'Supported SCIM features' })
+  getServiceProviderConfig(@Res() res: Response): void {
+    sendScim(res, HttpStatus.OK, {
+      schemas: [SERVICE_PROVIDER_CONFIG_SCHEMA],
+      patch: { supported: true },
+      bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+      filter: { supported: true, maxResults: SCIM_MAX_PAGE_SIZE },
+      changePassword: { supported: false },
+      sort: { supported: false },
+      etag: { supported: false },
+      authenticationSchemes: [
+        {
+          type: 'oauthbearertoken',
+          name: 'API key',
+          description: 'Organization API key sent as a bearer token',
+          primary: true,
+        },
+      ],
+      meta: {
+        resourceType: 'ServiceProviderConfig',
+        location: `${this.baseUrl}/ServiceProviderConfig`,
+      },
+    });
+  }
+
+  @Get('ResourceTypes')
+  @ApiOperation({ summary: 'SCIM resource types' })
+  @ApiResponse({ status: 200, description: 'User and Group resource types' })
+  getResourceTypes(@Res() res: Response): void {
+    const resourceTypes = [
+      { id: 'User', name: 'User', endpoint: '/Users', schema: SCIM_USER_SCHEMA },
+      { id: 'Group', name: 'Group', endpoint: '/Groups', schema: SCIM_GROUP_SCHEMA },
+    ].map(resourceType => ({
+      schemas: [RESOURCE_TYPE_SCHEMA],
+      ...resourceType,
+      meta: {
+        resourceType: 'ResourceType',
+        location: `${this.baseUrl}/ResourceTypes/${resourceType.id}`,
+      },
+    }));
+
+    sendScim(
+      res,
+      HttpStatus.OK,
+      buildScimListResponse(resourceTypes, resourceTypes.length, {
+        startIndex: 1,
+        count: resourceTypes.length,
+      }),
+    );
+  }
+
+  private get baseUrl(): string {
+    const apiBaseUrl = this.configService.get<string>(
+      'API_BASE_URL',
+      'http://localhost:3000/api/v1',
+    );
+    return `${apiBaseUrl.replace(/\/$/, '')}/scim/v2`;
+  }
+}
@@ -0,0 +1,131 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Param,
+  Query,
+  Body,
+  Req,
+  Res,
+  UseGuards,
+  UseFilters,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiSecurity } from '@nestjs/swagger';
+import { ConfigService } from '@nestjs/config';
+import { Response } from 'express';
+import { ApiScope } from '@database/entities/api-key.entity';
+import { ApiKeyAuthGuard } from '@modules/webhooks/guards/api-key-auth.guard';
+import { ApiScopes } from '@modules/webhooks/decorators/api-scopes.decorator';
+import { ScimExceptionFilter } from '../filters/scim-exception.filter';
+import { ScimGroupService } from '../services/scim-group.service';
+import { createScimContext, sendScim } from '../scim-http';
+import { ScimGroupResource, ScimListQuery, ScimPatchRequest } from '../scim.types';
+
+/**
+ * SCIM Groups Controller
+ * Groups grant a membership role when their name maps to one, and are
+ * provisioned as HR teams otherwise
+ */
+@ApiTags('SCIM')
+@ApiSecurity('api-key')
+@Controller('scim/v2/Groups')
+@UseGuards(ApiKeyAuthGuard)
+@UseFilters(ScimExceptionFilter)
+export class ScimGroupsController {
+  constructor(
+    private readonly scimGroupService: ScimGroupService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Get()
+  @ApiScopes(ApiScope.ORG_READ)
+  @ApiOperation({
+    summary: 'List groups',
+    description: 'Provisioned groups, with SCIM filter, startIndex, count and excludedAttributes',
+  })
+  @ApiResponse({ status: 200, description: 'SCIM ListResponse of groups' })
+  async list(@Query() query: ScimListQuery, @Req() req: any, @Res() res: Response): Promise<void> {
+    const context = createScimContext(req, this.configService);
+    sendScim(res, HttpStatus.OK, await this.scimGroupService.list(context, query));
+  }
+
+  @Get(':id')
+  @ApiScopes(ApiScope.ORG_READ)
+  @ApiOperation({ summary: 'Get group' })
+  @ApiResponse({ status: 200, description: 'SCIM Group resource' })
+  @ApiResponse({ status: 404, description: 'Group not found' })
+  async get(
+    @Param('id') id: string,
+    @Query() query: ScimListQuery,
+    @Req() req: any,
+    @Res() res: Response,
+  ): Promise<void> {
+    const context = createScimContext(req, this.configService);
+    sendScim(res, HttpStatus.OK, await this.scimGroupService.get(context, id, query));
+  }
+
+  @Post()
+  @ApiScopes(ApiScope.ORG_ADMIN)
+  @ApiOperation({ summary: 'Create group' })
+  @ApiResponse({ status: 201, description: 'Group created' })
+  @ApiResponse({ status: 409, description: 'A group with this displayName exists' })
+  async create(
+    @Body() body: Partial<ScimGroupResource>,
+    @Req() req: any,
+    @Res() res: Response,
+  ): Promise<void> {
+    const context = createScimContext(req, this.configService);
+    const group = await this.scimGroupService.create(context, body);
+
+    res.location(group.meta.location);
+    sendScim(res, HttpStatus.CREATED, group);
+  }
+
+  @Put(':id')
+  @ApiScopes(ApiScope.ORG_ADMIN)
+  @ApiOperation({ summary: 'Replace group' })
+  @ApiResponse({ status: 200, description: 'Group replaced' })
+  async replace(
+    @Param('id') id: string,
+    @Body() body: Partial<ScimGroupResource>,
+    @Req() req: any,
+    @Res() res: Response,
+  ): Promise<void> {
+    const context = createScimContext(req, this.configService);
+    sendScim(res, HttpStatus.OK, await this.scimGroupService.replace(context, id, body));
+  }
+
+  @Patch(':id')
+  @ApiScopes(ApiScope.ORG_ADMIN)
+  @ApiOperation({
+    summary: 'Update group',
+    description: 'PatchOp request adding, replacing or removing members and renaming the group',
+  })
+  @ApiResponse({ status: 200, description: 'Group updated' })
+  async patch(
+    @Param('id') id: string,
+    @Body() body: ScimPatchRequest,
+    @Req() req: any,
+    @Res() res: Response,
+  ): Promise<void> {
+    const context = createScimContext(req, this.configService);
+    sendScim(res, HttpStatus.OK, await this.scimGroupService.patch(context, id, body));
+  }
+
+  @Delete(':id')
+  @ApiScopes(ApiScope.ORG_ADMIN)
+  @ApiOperation({
+    summary: 'Delete group',
+    description: 'Members lose the role or team the group granted',
+  })
+  @ApiResponse({ status: 204, description: 'Group deleted' })
+  async remove(@Param('id') id: string, @Req() req: any, @Res() res: Response): Promise<void> {
+    const context = createScimContext(req, this.configService);
+    await this.scimGroupService.remove(context, id);
+    sendScim(res, HttpStatus.NO_CONTENT);
+  }
+}
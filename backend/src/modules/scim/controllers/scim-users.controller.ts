@@ -0,0 +1,130 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Param,
+  Query,
+  Body,
+  Req,
+  Res,
+  UseGuards,
+  UseFilters,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiSecurity } from '@nestjs/swagger';
+import { ConfigService } from '@nestjs/config';
+import { Response } from 'express';
+import { ApiScope } from '@database/entities/api-key.entity';
+import { ApiKeyAuthGuard } from '@modules/webhooks/guards/api-key-auth.guard';
+import { ApiScopes } from '@modules/webhooks/decorators/api-scopes.decorator';
+import { ScimExceptionFilter } from '../filters/scim-exception.filter';
+import { ScimUserService } from '../services/scim-user.service';
+import { createScimContext, sendScim } from '../scim-http';
+import { ScimListQuery, ScimPatchRequest, ScimUserResource } from '../scim.types';
+
+/**
+ * SCIM Users Controller
+ * RFC 7644 User endpoints for identity provider provisioning. Authenticated
+ * with an organization API key; responses use application/scim+json
+ */
+@ApiTags('SCIM')
+@ApiSecurity('api-key')
+@Controller('scim/v2/Users')
+@UseGuards(ApiKeyAuthGuard)
+@UseFilters(ScimExceptionFilter)
+export class ScimUsersController {
+  constructor(
+    private readonly scimUserService: ScimUserService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Get()
+  @ApiScopes(ApiScope.USER_READ)
+  @ApiOperation({
+    summary: 'List users',
+    description: 'Members of the organization, with SCIM filter, startIndex and count',
+  })
+  @ApiResponse({ status: 200, description: 'SCIM ListResponse of users' })
+  async list(@Query() query: ScimListQuery, @Req() req: any, @Res() res: Response): Promise<void> {
+    const context = createScimContext(req, this.configService);
+    sendScim(res, HttpStatus.OK, await this.scimUserService.list(context, query));
+  }
+
+  @Get(':id')
+  @ApiScopes(ApiScope.USER_READ)
+  @ApiOperation({ summary: 'Get user' })
+  @ApiResponse({ status: 200, description: 'SCIM User resource' })
+  @ApiResponse({ status: 404, description: 'User is not a member of the organization' })
+  async get(@Param('id') id: string, @Req() req: any, @Res() res: Response): Promise<void> {
+    const context = createScimContext(req, this.configService);
+    sendScim(res, HttpStatus.OK, await this.scimUserService.get(context, id));
+  }
+
+  @Post()
+  @ApiScopes(ApiScope.USER_WRITE)
+  @ApiOperation({
+    summary: 'Provision user',
+    description: 'Create the user, or add an existing account to the organization',
+  })
+  @ApiResponse({ status: 201, description: 'User provisioned' })
+  @ApiResponse({ status: 409, description: 'User is already provisioned' })
+  async create(
+    @Body() body: Partial<ScimUserResource>,
+    @Req() req: any,
+    @Res() res: Response,
+  ): Promise<void> {
+    const context = createScimContext(req, this.configService);
+    const user = await this.scimUserService.create(context, body);
+
+    res.location(user.meta.location);
+    sendScim(res, HttpStatus.CREATED, user);
+  }
+
+  @Put(':id')
+  @ApiScopes(ApiScope.USER_WRITE)
+  @ApiOperation({ summary: 'Replace user' })
+  @ApiResponse({ status: 200, description: 'User replaced' })
+  async replace(
+    @Param('id') id: string,
+    @Body() body: Partial<ScimUserResource>,
+    @Req() req: any,
+    @Res() res: Response,
+  ): Promise<void> {
+    const context = createScimContext(req, this.configService);
+    sendScim(res, HttpStatus.OK, await this.scimUserService.replace(context, id, body));
+  }
+
+  @Patch(':id')
+  @ApiScopes(ApiScope.USER_WRITE)
+  @ApiOperation({
+    summary: 'Update user',
+    description: 'PatchOp request. Setting active to false deprovisions the member',
+  })
+  @ApiResponse({ status: 200, description: 'User updated' })
+  async patch(
+    @Param('id') id: string,
+    @Body() body: ScimPatchRequest,
+    @Req() req: any,
+    @Res() res: Response,
+  ): Promise<void> {
+    const context = createScimContext(req, this.configService);
+    sendScim(res, HttpStatus.OK, await this.scimUserService.patch(context, id, body));
+  }
+
+  @Delete(':id')
+  @ApiScopes(ApiScope.USER_DELETE)
+  @ApiOperation({
+    summary: 'Deprovision user',
+    description:
+      'Remove the membership; the account is deactivated unless another organization uses it',
+  })
+  @ApiResponse({ status: 204, description: 'User deprovisioned' })
+  async remove(@Param('id') id: string, @Req() req: any, @Res() res: Response): Promise<void> {
+    const context = createScimContext(req, this.configService);
+    await this.scimUserService.remove(context, id);
+    sendScim(res, HttpStatus.NO_CONTENT);
+  }
+}
@@ -0,0 +1,52 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { ScimError, SCIM_ERROR_SCHEMA } from '../scim-error';
+
+/**
+ * Renders every error of the SCIM endpoints as a SCIM error response,
+ * which provisioning clients parse instead of the regular API format
+ */
+@Catch()
+export class ScimExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(ScimExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost): void {
+    const response = host.switchToHttp().getResponse<Response>();
+
+    let status = HttpStatus.INTERNAL_SERVER_ERROR;
+    let detail = 'Internal server error';
+
+    if (exception instanceof HttpException) {
+      status = exception.getStatus();
+      const body = exception.getResponse();
+      const message =
+        typeof body === 'string' ? body : (body as { message?: string | string[] }).message;
+      detail = Array.isArray(message) ? message.join(', ') : message || exception.message;
+    } else {
+      this.logger.error(
+        'Unhandled SCIM error',
+        exception instanceof Error ? exception.stack : exception,
+      );
+    }
+
+    response
+      .status(status)
+      .set({ 'Content-Type': 'application/scim+json' })
+      .send(
+        JSON.stringify({
+          schemas: [SCIM_ERROR_SCHEMA],
+          status: String(status),
+          ...(exception instanceof ScimError &&
+            exception.scimType && { scimType: exception.scimType }),
+          detail,
+        }),
+      );
+  }
+}
@@ -0,0 +1,56 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export const SCIM_ERROR_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:Error';
+
+/**
+ * SCIM error detail types (RFC 7644, section 3.12)
+ */
+export type ScimErrorType =
+  | 'invalidFilter'
+  | 'invalidSyntax'
+  | 'invalidPath'
+  | 'invalidValue'
+  | 'mutability'
+  | 'uniqueness'
+  | 'noTarget';
+
+/**
+ * HTTP exception carrying a SCIM error type, rendered by ScimExceptionFilter
+ */
+export class ScimError extends HttpException {
+  constructor(
+    status: HttpStatus,
+    detail: string,
+    readonly scimType?: ScimErrorType,
+  ) {
+    super(detail, status);
+  }
+
+  static invalidFilter(detail: string): ScimError {
+    return new ScimError(HttpStatus.BAD_REQUEST, detail, 'invalidFilter');
+  }
+
+  static invalidSyntax(detail: string): ScimError {
+    return new ScimError(HttpStatus.BAD_REQUEST, detail, 'invalidSyntax');
+  }
+
+  static invalidPath(detail: string): ScimError {
+    return new ScimError(HttpStatus.BAD_REQUEST, detail, 'invalidPath');
+  }
+
+  static invalidValue(detail: string): ScimError {
+    return new ScimError(HttpStatus.BAD_REQUEST, detail, 'invalidValue');
+  }
+
+  static mutability(detail: string): ScimError {
+    return new ScimError(HttpStatus.BAD_REQUEST, detail, 'mutability');
+  }
+
+  static uniqueness(detail: string): ScimError {
+    return new ScimError(HttpStatus.CONFLICT, detail, 'uniqueness');
+  }
+
+  static notFound(resource: string, id: string): ScimError {
+    return new ScimError(HttpStatus.NOT_FOUND, `${resource} ${id} not found`);
+  }
+}
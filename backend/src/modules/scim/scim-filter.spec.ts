@@ -0,0 +1,69 @@
+import { ScimError } from './scim-error';
+import { parseScimFilter, scimFilterToSql, ScimFilterColumn } from './scim-filter';
+
+const columns: Record<string, ScimFilterColumn> = {
+  userName: { expression: 'user.email', type: 'string' },
+  active: { expression: 'user.active', type: 'boolean' },
+  'meta.created': { expression: 'user.createdAt', type: 'date' },
+  'members.value': { expression: 'group.memberIds', type: 'array' },
+};
+
+describe('scim filter', () => {
+  it('parses logical expressions with precedence and grouping', () => {
+    expect(
+      parseScimFilter('userName eq "a@acme.test" or active eq true and not (title pr)'),
+    ).toEqual({
+      op: 'or',
+      left: { op: 'eq', attribute: 'userName', value: 'a@acme.test' },
+      right: {
+        op: 'and',
+        left: { op: 'eq', attribute: 'active', value: true },
+        right: { op: 'not', filter: { op: 'pr', attribute: 'title' } },
+      },
+    });
+  });
+
+  it('rejects malformed and unsupported filters', () => {
+    expect(() => parseScimFilter('userName eq')).toThrow(ScimError);
+    expect(() => parseScimFilter('userName eq "unterminated')).toThrow(ScimError);
+    expect(() => parseScimFilter('emails[type eq "work"].value eq "a@acme.test"')).toThrow(
+      ScimError,
+    );
+  });
+
+  it('builds a parameterized, case-insensitive condition', () => {
+    const condition = scimFilterToSql(
+      parseScimFilter(
+        'urn:ietf:params:scim:schemas:core:2.0:User:USERNAME sw "Jane_" and ACTIVE eq false',
+      ),
+      columns,
+    );
+
+    expect(condition).toEqual({
+      where: '(LOWER(user.email) LIKE :scimFilter0 AND (user.active) = :scimFilter1)',
+      parameters: { scimFilter0: 'jane\\_%', scimFilter1: false },
+    });
+  });
+
+  it('supports dates, array membership and presence', () => {
+    const condition = scimFilterToSql(
+      parseScimFilter(
+        'meta.created gt "2024-01-01T00:00:00Z" and members.value eq "u1" and members.value pr',
+      ),
+      columns,
+    );
+
+    expect(condition.where).toBe(
+      '((user.createdAt > :scimFilter0 AND :scimFilter1 = ANY(group.memberIds)) AND cardinality(group.memberIds) > 0)',
+    );
+    expect(condition.parameters.scimFilter0).toEqual(new Date('2024-01-01T00:00:00Z'));
+  });
+
+  it('rejects unknown attributes and invalid comparisons', () => {
+    expect(() => scimFilterToSql(parseScimFilter('title eq "x"'), columns)).toThrow(ScimError);
+    expect(() => scimFilterToSql(parseScimFilter('active co "t"'), columns)).toThrow(ScimError);
+    expect(() => scimFilterToSql(parseScimFilter('members.value co "u"'), columns)).toThrow(
+      ScimError,
+    );
+  });
+});
@@ -0,0 +1,311 @@
+import { ScimError } from './scim-error';
+
+/**
+ * Parsing of SCIM filter expressions (RFC 7644, section 3.4.2.2) and their
+ * translation into SQL conditions. Supports attribute comparisons, "pr",
+ * "and", "or", "not" and parentheses. Complex value paths such as
+ * emails[type eq "work"] are rejected as an invalid filter
+ */
+
+export type ScimCompareOperator = 'eq' | 'ne' | 'co' | 'sw' | 'ew' | 'gt' | 'ge' | 'lt' | 'le';
+export type ScimFilterValue = string | number | boolean | null;
+
+export type ScimFilter =
+  | { op: 'and' | 'or'; left: ScimFilter; right: ScimFilter }
+  | { op: 'not'; filter: ScimFilter }
+  | { op: 'pr'; attribute: string }
+  | { op: ScimCompareOperator; attribute: string; value: ScimFilterValue };
+
+/**
+ * SQL expression backing a filterable attribute
+ * Arrays only support "eq" (membership) and "pr"
+ */
+export interface ScimFilterColumn {
+  expression: string;
+  type: 'string' | 'boolean' | 'date' | 'array';
+}
+
+export interface ScimSqlCondition {
+  where: string;
+  parameters: Record<string, unknown>;
+}
+
+const COMPARE_OPERATORS: ScimCompareOperator[] = [
+  'eq',
+  'ne',
+  'co',
+  'sw',
+  'ew',
+  'gt',
+  'ge',
+  'lt',
+  'le',
+];
+const SCHEMA_URN_PATTERN = /^urn:ietf:params:scim:schemas:[^:]+(?::[^:]+)*:/i;
+
+type Token =
+  | { type: 'paren'; value: '(' | ')' }
+  | { type: 'string'; value: string }
+  | { type: 'word'; value: string };
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index];
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', value: char });
+      index++;
+    } else if (char === '"') {
+      let end = index + 1;
+      while (end < input.length && input[end] !== '"') {
+        end += input[end] === '\\' ? 2 : 1;
+      }
+      if (end >= input.length) {
+        throw ScimError.invalidFilter('Unterminated string in filter');
+      }
+      tokens.push({ type: 'string', value: JSON.parse(input.slice(index, end + 1)) });
+      index = end + 1;
+    } else {
+      let end = index;
+      while (end < input.length && !/[\s()"]/.test(input[end])) {
+        end++;
+      }
+      const word = input.slice(index, end);
+      if (word.includes('[')) {
+        throw ScimError.invalidFilter('Complex attribute filters are not supported');
+      }
+      tokens.push({ type: 'word', value: word });
+      index = end;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a SCIM filter into an expression tree
+ */
+export function parseScimFilter(input: string): ScimFilter {
+  const tokens = tokenize(input);
+  let position = 0;
+
+  const peekKeyword = (): string | undefined => {
+    const token = tokens[position];
+    return token?.type === 'word' ? token.value.toLowerCase() : undefined;
+  };
+
+  const parseOr = (): ScimFilter => {
+    let left = parseAnd();
+    while (peekKeyword() === 'or') {
+      position++;
+      left = { op: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): ScimFilter => {
+    let left = parseUnary();
+    while (peekKeyword() === 'and') {
+      position++;
+      left = { op: 'and', left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): ScimFilter => {
+    const token = tokens[position];
+
+    if (!token) {
+      throw ScimError.invalidFilter('Unexpected end of filter');
+    }
+
+    if (peekKeyword() === 'not' && tokens[position + 1]?.value === '(') {
+      position++;
+      return { op: 'not', filter: parseGroup() };
+    }
+
+    if (token.type === 'paren' && token.value === '(') {
+      return parseGroup();
+    }
+
+    if (token.type !== 'word') {
+      throw ScimError.invalidFilter(`Unexpected token "${token.value}"`);
+    }
+
+    const attribute = token.value;
+    const operator = tokens[position + 1];
+    if (operator?.type !== 'word') {
+      throw ScimError.invalidFilter(`Missing operator after "${attribute}"`);
+    }
+
+    const op = operator.value.toLowerCase();
+    if (op === 'pr') {
+      position += 2;
+      return { op: 'pr', attribute };
+    }
+
+    if (!COMPARE_OPERATORS.includes(op as ScimCompareOperator)) {
+      throw ScimError.invalidFilter(`Unsupported operator "${operator.value}"`);
+    }
+
+    const valueToken = tokens[position + 2];
+    if (!valueToken || valueToken.type === 'paren') {
+      throw ScimError.invalidFilter(`Missing value after "${attribute} ${operator.value}"`);
+    }
+    position += 3;
+
+    return { op: op as ScimCompareOperator, attribute, value: parseValue(valueToken) };
+  };
+
+  const parseGroup = (): ScimFilter => {
+    position++; // (
+    const filter = parseOr();
+    const closing = tokens[position];
+    if (closing?.type !== 'paren' || closing.value !== ')') {
+      throw ScimError.invalidFilter('Missing closing parenthesis');
+    }
+    position++;
+    return filter;
+  };
+
+  const filter = parseOr();
+  if (position < tokens.length) {
+    throw ScimError.invalidFilter(`Unexpected token "${tokens[position].value}"`);
+  }
+
+  return filter;
+}
+
+function parseValue(token: Token): ScimFilterValue {
+  if (token.type === 'string') {
+    return token.value;
+  }
+
+  const word = token.value.toLowerCase();
+  if (word === 'true' || word === 'false') {
+    return word === 'true';
+  }
+  if (word === 'null') {
+    return null;
+  }
+  if (!Number.isNaN(Number(token.value))) {
+    return Number(token.value);
+  }
+
+  throw ScimError.invalidFilter(`Invalid value "${token.value}"`);
+}
+
+/**
+ * Translate a filter into a parameterized SQL condition
+ * Attribute names are matched case-insensitively, with or without the schema URN
+ */
+export function scimFilterToSql(
+  filter: ScimFilter,
+  columns: Record<string, ScimFilterColumn>,
+): ScimSqlCondition {
+  const parameters: Record<string, unknown> = {};
+  const lookup = new Map(
+    Object.entries(columns).map(([name, column]) => [name.toLowerCase(), column]),
+  );
+
+  const addParameter = (value: unknown): string => {
+    const name = `scimFilter${Object.keys(parameters).length}`;
+    parameters[name] = value;
+    return `:${name}`;
+  };
+
+  const resolveColumn = (attribute: string): ScimFilterColumn => {
+    const column = lookup.get(attribute.replace(SCHEMA_URN_PATTERN, '').toLowerCase());
+    if (!column) {
+      throw ScimError.invalidFilter(`Filtering on "${attribute}" is not supported`);
+    }
+    return column;
+  };
+
+  const build = (node: ScimFilter): string => {
+    switch (node.op) {
+      case 'and':
+      case 'or':
+        return `(${build(node.left)} ${node.op.toUpperCase()} ${build(node.right)})`;
+      case 'not':
+        return `NOT (${build(node.filter)})`;
+      case 'pr': {
+        const column = resolveColumn(node.attribute);
+        return column.type === 'array'
+          ? `cardinality(${column.expression}) > 0`
+          : `${column.expression} IS NOT NULL`;
+      }
+      default:
+        return buildComparison(resolveColumn(node.attribute), node.op, node.value);
+    }
+  };
+
+  const buildComparison = (
+    column: ScimFilterColumn,
+    op: ScimCompareOperator,
+    value: ScimFilterValue,
+  ): string => {
+    const { expression, type } = column;
+
+    if (value === null) {
+      if (op === 'eq' || op === 'ne') {
+        return `${expression} IS ${op === 'eq' ? '' : 'NOT '}NULL`;
+      }
+      throw ScimError.invalidFilter(`Operator "${op}" cannot compare with null`);
+    }
+
+    if (type === 'array') {
+      if (op !== 'eq') {
+        throw ScimError.invalidFilter(
+          `Operator "${op}" is not supported for multi-valued attributes`,
+        );
+      }
+      return `${addParameter(String(value))} = ANY(${expression})`;
+    }
+
+    if (type === 'boolean') {
+      if ((op !== 'eq' && op !== 'ne') || typeof value !== 'boolean') {
+        throw ScimError.invalidFilter(
+          'Boolean attributes only support eq and ne with true or false',
+        );
+      }
+      return `(${expression}) ${op === 'eq' ? '=' : '<>'} ${addParameter(value)}`;
+    }
+
+    if (type === 'date') {
+      const date = new Date(String(value));
+      if (Number.isNaN(date.getTime()) || ['co', 'sw', 'ew'].includes(op)) {
+        throw ScimError.invalidFilter(`Invalid date comparison "${op} ${value}"`);
+      }
+      return `${expression} ${sqlOperator(op)} ${addParameter(date)}`;
+    }
+
+    // Strings compare case-insensitively, as caseExact is false for the supported attributes
+    const text = String(value).toLowerCase();
+    switch (op) {
+      case 'co':
+        return `LOWER(${expression}) LIKE ${addParameter(`%${escapeLike(text)}%`)}`;
+      case 'sw':
+        return `LOWER(${expression}) LIKE ${addParameter(`${escapeLike(text)}%`)}`;
+      case 'ew':
+        return `LOWER(${expression}) LIKE ${addParameter(`%${escapeLike(text)}`)}`;
+      default:
+        return `LOWER(${expression}) ${sqlOperator(op)} ${addParameter(text)}`;
+    }
+  };
+
+  return { where: build(filter), parameters };
+}
+
+function sqlOperator(op: ScimCompareOperator): string {
+  return { eq: '=', ne: '<>', gt: '>', ge: '>=', lt: '<', le: '<=' }[op];
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
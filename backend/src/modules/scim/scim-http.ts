@@ -0,0 +1,45 @@
+import { HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Response } from 'express';
+import { ApiKey } from '@database/entities/api-key.entity';
+import { ScimError } from './scim-error';
+import { SCIM_CONTENT_TYPE, ScimRequestContext } from './scim.types';
+
+/**
+ * Resolve the organization a SCIM request provisions into from its API key,
+ * which ApiKeyAuthGuard attached to the request
+ */
+export function createScimContext(
+  request: { apiKey?: ApiKey },
+  configService: ConfigService,
+): ScimRequestContext {
+  const apiKey = request.apiKey;
+
+  if (!apiKey?.organizationId) {
+    throw new ScimError(
+      HttpStatus.FORBIDDEN,
+      'SCIM provisioning requires an API key that belongs to an organization',
+    );
+  }
+
+  const apiBaseUrl = configService.get<string>('API_BASE_URL', 'http://localhost:3000/api/v1');
+
+  return {
+    organizationId: apiKey.organizationId,
+    actorId: apiKey.createdBy,
+    apiKeyId: apiKey.id,
+    baseUrl: `${apiBaseUrl.replace(/\/$/, '')}/scim/v2`,
+  };
+}
+
+/**
+ * SCIM responses bypass the global response envelope
+ */
+export function sendScim(res: Response, status: HttpStatus, body?: unknown): void {
+  if (body === undefined) {
+    res.status(status).end();
+    return;
+  }
+
+  res.status(status).set({ 'Content-Type': SCIM_CONTENT_TYPE }).send(JSON.stringify(body));
+}
@@ -0,0 +1,47 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+// Entities
+import { User } from '@database/entities/user.entity';
+import { Organization } from '@database/entities/organization.entity';
+import { OrganizationMembership } from '@database/entities/organization-membership.entity';
+import { ScimGroup } from '@database/entities/scim-group.entity';
+import { OrganizationSsoConnection } from '@database/entities/organization-sso-connection.entity';
+import { Team } from '@database/entities/team.entity';
+import { TeamMember } from '@database/entities/team-member.entity';
+
+// Services
+import { ScimUserService } from './services/scim-user.service';
+import { ScimGroupService } from './services/scim-group.service';
+
+// Controllers
+import { ScimUsersController } from './controllers/scim-users.controller';
+import { ScimGroupsController } from './controllers/scim-groups.controller';
+import { ScimDiscoveryController } from './controllers/scim-discovery.controller';
+
+// External modules
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { AdminModule } from '../admin/admin.module';
+
+/**
+ * SCIM Module
+ * SCIM 2.0 provisioning of users and groups by an organization's identity provider
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      User,
+      Organization,
+      OrganizationMembership,
+      ScimGroup,
+      OrganizationSsoConnection,
+      Team,
+      TeamMember,
+    ]),
+    WebhooksModule,
+    AdminModule,
+  ],
+  controllers: [ScimUsersController, ScimGroupsController, ScimDiscoveryController],
+  providers: [ScimUserService, ScimGroupService],
+})
+export class ScimModule {}
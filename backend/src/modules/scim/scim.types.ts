@@ -0,0 +1,137 @@
+import { ScimError } from './scim-error';
+
+export const SCIM_USER_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:User';
+export const SCIM_GROUP_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:Group';
+export const SCIM_LIST_RESPONSE_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:ListResponse';
+export const SCIM_PATCH_OP_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:PatchOp';
+export const SCIM_CONTENT_TYPE = 'application/scim+json';
+
+const DEFAULT_PAGE_SIZE = 100;
+export const SCIM_MAX_PAGE_SIZE = 200;
+
+/**
+ * Organization and actor a SCIM request acts for, derived from its API key
+ */
+export interface ScimRequestContext {
+  organizationId: string;
+  // Creator of the API key, recorded as the actor in audit logs
+  actorId: string;
+  apiKeyId: string;
+  baseUrl: string;
+}
+
+export interface ScimMeta {
+  resourceType: 'User' | 'Group';
+  created: string;
+  lastModified: string;
+  location: string;
+}
+
+export interface ScimUserResource {
+  schemas: string[];
+  id: string;
+  externalId?: string;
+  userName: string;
+  name: { givenName?: string; familyName?: string; formatted?: string };
+  displayName?: string;
+  emails: Array<{ value: string; type?: string; primary?: boolean }>;
+  active: boolean;
+  groups?: Array<{ value: string; display: string; $ref: string }>;
+  meta: ScimMeta;
+}
+
+export interface ScimGroupResource {
+  schemas: string[];
+  id: string;
+  externalId?: string;
+  displayName: string;
+  members?: Array<{ value: string; $ref: string }>;
+  meta: ScimMeta;
+}
+
+export interface ScimListResponse<T> {
+  schemas: string[];
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+  Resources: T[];
+}
+
+export interface ScimPatchOperation {
+  op: string;
+  path?: string;
+  value?: unknown;
+}
+
+export interface ScimPatchRequest {
+  schemas?: string[];
+  Operations: ScimPatchOperation[];
+}
+
+export interface ScimListQuery {
+  filter?: string;
+  startIndex?: string;
+  count?: string;
+  excludedAttributes?: string;
+}
+
+export interface ScimPagination {
+  startIndex: number;
+  count: number;
+}
+
+/**
+ * 1-based startIndex and count per RFC 7644, section 3.4.2.4
+ */
+export function parseScimPagination(query: ScimListQuery): ScimPagination {
+  const startIndex = Number(query.startIndex ?? 1);
+  const count = Number(query.count ?? DEFAULT_PAGE_SIZE);
+
+  return {
+    startIndex: Number.isFinite(startIndex) && startIndex >= 1 ? Math.floor(startIndex) : 1,
+    count: Number.isFinite(count)
+      ? Math.min(Math.max(Math.floor(count), 0), SCIM_MAX_PAGE_SIZE)
+      : DEFAULT_PAGE_SIZE,
+  };
+}
+
+export function buildScimListResponse<T>(
+  resources: T[],
+  totalResults: number,
+  pagination: ScimPagination,
+): ScimListResponse<T> {
+  return {
+    schemas: [SCIM_LIST_RESPONSE_SCHEMA],
+    totalResults,
+    startIndex: pagination.startIndex,
+    itemsPerPage: resources.length,
+    Resources: resources,
+  };
+}
+
+export function assertPatchRequest(body: ScimPatchRequest): ScimPatchOperation[] {
+  if (!body || !Array.isArray(body.Operations) || !body.Operations.length) {
+    throw ScimError.invalidSyntax('PatchOp request requires at least one operation');
+  }
+
+  return body.Operations.map(operation => {
+    const op = String(operation.op || '').toLowerCase();
+    if (!['add', 'replace', 'remove'].includes(op)) {
+      throw ScimError.invalidSyntax(`Unsupported patch operation "${operation.op}"`);
+    }
+    return { ...operation, op };
+  });
+}
+
+/**
+ * Some clients send booleans as "True"/"False" strings
+ */
+export function toScimBoolean(value: unknown): boolean {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'string' && ['true', 'false'].includes(value.toLowerCase())) {
+    return value.toLowerCase() === 'true';
+  }
+  throw ScimError.invalidValue(`Expected a boolean but got "${value}"`);
+}
@@ -0,0 +1,559 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Not, Repository } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { isUUID } from 'class-validator';
+import { Organization } from '@database/entities/organization.entity';
+import {
+  OrganizationMembership,
+  MembershipRole,
+  MembershipStatus,
+  MEMBERSHIP_ROLE_PRECEDENCE,
+} from '@database/entities/organization-membership.entity';
+import { ScimGroup } from '@database/entities/scim-group.entity';
+import { Team } from '@database/entities/team.entity';
+import { TeamMember, TeamRole } from '@database/entities/team-member.entity';
+import { ScimError } from '../scim-error';
+import { parseScimFilter, scimFilterToSql, ScimFilterColumn } from '../scim-filter';
+import {
+  SCIM_GROUP_SCHEMA,
+  ScimGroupResource,
+  ScimListQuery,
+  ScimListResponse,
+  ScimPatchRequest,
+  ScimRequestContext,
+  assertPatchRequest,
+  buildScimListResponse,
+  parseScimPagination,
+} from '../scim.types';
+
+/**
+ * Organization setting mapping SCIM group display names to membership roles,
+ * e.g. { "Okta HR": "hr" }. Groups named after a role map to it as well;
+ * every other group is backed by an HR team of the same name
+ */
+export const SCIM_GROUP_ROLES_SETTING = 'scimGroupRoles';
+
+// Members of no role group fall back to this role
+const DEFAULT_MEMBER_ROLE = MembershipRole.LEARNER;
+
+const GROUP_FILTER_COLUMNS: Record<string, ScimFilterColumn> = {
+  id: { expression: 'CAST(group.id AS text)', type: 'string' },
+  displayName: { expression: 'group.displayName', type: 'string' },
+  externalId: { expression: 'group.externalId', type: 'string' },
+  'members.value': { expression: 'CAST(group.memberIds AS text[])', type: 'array' },
+  members: { expression: 'CAST(group.memberIds AS text[])', type: 'array' },
+  'meta.created': { expression: 'group.createdAt', type: 'date' },
+  'meta.lastModified': { expression: 'group.updatedAt', type: 'date' },
+};
+
+interface GroupState {
+  membershipRole?: MembershipRole;
+  teamId?: string;
+  memberIds: string[];
+}
+
+/**
+ * SCIM Group Service
+ * Groups pushed by a provisioning client either grant a membership role or
+ * mirror an HR team. Membership changes are applied to the organization
+ * memberships and team members as they happen
+ */
+@Injectable()
+export class ScimGroupService {
+  private readonly logger = new Logger(ScimGroupService.name);
+
+  constructor(
+    @InjectRepository(ScimGroup)
+    private readonly groupRepository: Repository<ScimGroup>,
+    @InjectRepository(Organization)
+    private readonly organizationRepository: Repository<Organization>,
+    @InjectRepository(OrganizationMembership)
+    private readonly membershipRepository: Repository<OrganizationMembership>,
+    @InjectRepository(Team)
+    private readonly teamRepository: Repository<Team>,
+    @InjectRepository(TeamMember)
+    private readonly teamMemberRepository: Repository<TeamMember>,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  async list(
+    context: ScimRequestContext,
+    query: ScimListQuery,
+  ): Promise<ScimListResponse<ScimGroupResource>> {
+    const pagination = parseScimPagination(query);
+    const queryBuilder = this.groupRepository
+      .createQueryBuilder('group')
+      .where('group.organizationId = :organizationId', { organizationId: context.organizationId });
+
+    if (query.filter) {
+      const condition = scimFilterToSql(parseScimFilter(query.filter), GROUP_FILTER_COLUMNS);
+      queryBuilder.andWhere(condition.where, condition.parameters);
+    }
+
+    const totalResults = await queryBuilder.getCount();
+    const groups = pagination.count
+      ? await queryBuilder
+          .orderBy('group.createdAt', 'ASC')
+          .skip(pagination.startIndex - 1)
+          .take(pagination.count)
+          .getMany()
+      : [];
+
+    const excludeMembers = this.excludesMembers(query);
+    return buildScimListResponse(
+      groups.map(group => this.toResource(context, group, excludeMembers)),
+      totalResults,
+      pagination,
+    );
+  }
+
+  async get(
+    context: ScimRequestContext,
+    id: string,
+    query: ScimListQuery = {},
+  ): Promise<ScimGroupResource> {
+    const group = await this.findGroup(context, id);
+    return this.toResource(context, group, this.excludesMembers(query));
+  }
+
+  async create(
+    context: ScimRequestContext,
+    resource: Partial<ScimGroupResource>,
+  ): Promise<ScimGroupResource> {
+    const displayName = this.requireDisplayName(resource.displayName);
+    await this.assertDisplayNameAvailable(context, displayName);
+
+    const memberIds = await this.resolveMembers(context, resource.members);
+    const target = await this.resolveTarget(context, displayName);
+
+    const group = await this.groupRepository.save(
+      this.groupRepository.create({
+        organizationId: context.organizationId,
+        displayName,
+        externalId: resource.externalId,
+        membershipRole: target.membershipRole,
+        teamId: target.teamId,
+        memberIds,
+      }),
+    );
+
+    await this.applyMembershipEffects(context, null, group);
+    this.logger.log(
+      `SCIM group created: ${group.id} (${displayName}) in ${context.organizationId}`,
+    );
+
+    return this.toResource(context, group);
+  }
+
+  async replace(
+    context: ScimRequestContext,
+    id: string,
+    resource: Partial<ScimGroupResource>,
+  ): Promise<ScimGroupResource> {
+    const group = await this.findGroup(context, id);
+    const before = this.captureState(group);
+
+    await this.rename(context, group, this.requireDisplayName(resource.displayName));
+    group.externalId = resource.externalId ?? group.externalId;
+    group.memberIds = await this.resolveMembers(context, resource.members);
+
+    const savedGroup = await this.groupRepository.save(group);
+    await this.applyMembershipEffects(context, before, savedGroup);
+
+    return this.toResource(context, savedGroup);
+  }
+
+  async patch(
+    context: ScimRequestContext,
+    id: string,
+    request: ScimPatchRequest,
+  ): Promise<ScimGroupResource> {
+    const operations = assertPatchRequest(request);
+    const group = await this.findGroup(context, id);
+    const before = this.captureState(group);
+    let memberIds = [...group.memberIds];
+
+    for (const { op, path, value } of operations) {
+      const attribute = path?.toLowerCase();
+      const memberFilter = path?.match(/^members\[value eq "([^"]+)"\]$/i);
+
+      if (memberFilter) {
+        if (op !== 'remove') {
+          throw ScimError.invalidPath(`Operation "${op}" is not supported on ${path}`);
+        }
+        memberIds = memberIds.filter(memberId => memberId !== memberFilter[1]);
+      } else if (attribute === 'members') {
+        const values = await this.resolveMembers(context, value as ScimGroupResource['members']);
+        if (op === 'add') {
+          memberIds = [...new Set([...memberIds, ...values])];
+        } else if (op === 'replace') {
+          memberIds = values;
+        } else {
+          // Without a value every member is removed
+          memberIds =
+            value === undefined ? [] : memberIds.filter(memberId => !values.includes(memberId));
+        }
+      } else if (attribute === 'displayname') {
+        await this.rename(context, group, this.requireDisplayName(value));
+      } else if (attribute === 'externalid') {
+        group.externalId = op === 'remove' ? null : String(value);
+      } else if (!path && value && typeof value === 'object') {
+        const changes = value as Partial<ScimGroupResource>;
+        if (changes.displayName !== undefined) {
+          await this.rename(context, group, this.requireDisplayName(changes.displayName));
+        }
+        if (changes.externalId !== undefined) {
+          group.externalId = changes.externalId;
+        }
+        if (changes.members !== undefined) {
+          const values = await this.resolveMembers(context, changes.members);
+          memberIds = op === 'add' ? [...new Set([...memberIds, ...values])] : values;
+        }
+      } else {
+        throw ScimError.invalidPath(`Unsupported group attribute "${path}"`);
+      }
+    }
+
+    group.memberIds = memberIds;
+    const savedGroup = await this.groupRepository.save(group);
+    await this.applyMembershipEffects(context, before, savedGroup);
+
+    return this.toResource(context, savedGroup);
+  }
+
+  /**
+   * Delete a group. Its members lose the granted role or leave the team;
+   * the team itself is kept
+   */
+  async remove(context: ScimRequestContext, id: string): Promise<void> {
+    const group = await this.findGroup(context, id);
+    const before = this.captureState(group);
+
+    await this.groupRepository.remove(group);
+    await this.applyMembershipEffects(context, before, null);
+  }
+
+  /**
+   * Drop a deprovisioned user from every group of the organization
+   */
+  async removeUserFromGroups(context: ScimRequestContext, userId: string): Promise<void> {
+    const groups = await this.findGroupsOfUsers(context.organizationId, [userId]);
+
+    for (const group of groups) {
+      const before = this.captureState(group);
+      group.memberIds = group.memberIds.filter(memberId => memberId !== userId);
+
+      const savedGroup = await this.groupRepository.save(group);
+      await this.applyMembershipEffects(context, before, savedGroup);
+    }
+  }
+
+  async findGroupsOfUsers(organizationId: string, userIds: string[]): Promise<ScimGroup[]> {
+    if (!userIds.length) {
+      return [];
+    }
+
+    return this.groupRepository
+      .createQueryBuilder('group')
+      .where('group.organizationId = :organizationId', { organizationId })
+      .andWhere('group.memberIds && :userIds', { userIds })
+      .getMany();
+  }
+
+  // Private helper methods
+
+  private async findGroup(context: ScimRequestContext, id: string): Promise<ScimGroup> {
+    const group = isUUID(id)
+      ? await this.groupRepository.findOne({
+          where: { id, organizationId: context.organizationId },
+        })
+      : null;
+
+    if (!group) {
+      throw ScimError.notFound('Group', id);
+    }
+
+    return group;
+  }
+
+  private requireDisplayName(value: unknown): string {
+    if (typeof value !== 'string' || !value.trim()) {
+      throw ScimError.invalidValue('displayName is required');
+    }
+    return value.trim();
+  }
+
+  private async assertDisplayNameAvailable(
+    context: ScimRequestContext,
+    displayName: string,
+    exceptGroupId?: string,
+  ): Promise<void> {
+    const query = this.groupRepository
+      .createQueryBuilder('group')
+      .where('group.organizationId = :organizationId', { organizationId: context.organizationId })
+      .andWhere('LOWER(group.displayName) = LOWER(:displayName)', { displayName });
+
+    if (exceptGroupId) {
+      query.andWhere('group.id != :exceptGroupId', { exceptGroupId });
+    }
+
+    if (await query.getExists()) {
+      throw ScimError.uniqueness(`A group named "${displayName}" already exists`);
+    }
+  }
+
+  /**
+   * Team groups rename their team; role groups are mapped again from the new name
+   */
+  private async rename(
+    context: ScimRequestContext,
+    group: ScimGroup,
+    displayName: string,
+  ): Promise<void> {
+    if (displayName === group.displayName) {
+      return;
+    }
+
+    await this.assertDisplayNameAvailable(context, displayName, group.id);
+    group.displayName = displayName;
+
+    if (group.teamId) {
+      await this.teamRepository.update(group.teamId, { name: displayName });
+      return;
+    }
+
+    const target = await this.resolveTarget(context, displayName);
+    group.membershipRole = target.membershipRole ?? null;
+    group.teamId = target.teamId ?? null;
+  }
+
+  /**
+   * Member IDs must be users provisioned into the organization
+   */
+  private async resolveMembers(context: ScimRequestContext, members: unknown): Promise<string[]> {
+    if (members === undefined || members === null) {
+      return [];
+    }
+    if (!Array.isArray(members)) {
+      throw ScimError.invalidValue('members must be an array');
+    }
+
+    const memberIds = [...new Set(members.map(member => String(member?.value ?? '')))];
+    const invalidIds = memberIds.filter(memberId => !isUUID(memberId));
+
+    const memberships = memberIds.length
+      ? await this.membershipRepository.find({
+          where: {
+            organizationId: context.organizationId,
+            userId: In(memberIds.filter(memberId => isUUID(memberId))),
+            status: Not(MembershipStatus.REMOVED),
+          },
+        })
+      : [];
+
+    const unknownIds = [
+      ...invalidIds,
+      ...memberIds.filter(
+        memberId =>
+          isUUID(memberId) && !memberships.some(membership => membership.userId === memberId),
+      ),
+    ];
+    if (unknownIds.length) {
+      throw ScimError.invalidValue(`Unknown members: ${unknownIds.join(', ')}`);
+    }
+
+    return memberIds;
+  }
+
+  private async resolveTarget(
+    context: ScimRequestContext,
+    displayName: string,
+  ): Promise<{ membershipRole?: MembershipRole; teamId?: string }> {
+    const organization = await this.organizationRepository.findOne({
+      where: { id: context.organizationId },
+    });
+
+    const mappings = (organization?.settings?.[SCIM_GROUP_ROLES_SETTING] || {}) as Record<
+      string,
+      string
+    >;
+    const mappedName = Object.keys(mappings).find(
+      name => name.toLowerCase() === displayName.toLowerCase(),
+    );
+    const role = (mappedName ? mappings[mappedName] : displayName.toLowerCase()) as MembershipRole;
+
+    if (MEMBERSHIP_ROLE_PRECEDENCE.includes(role) && role !== MembershipRole.OWNER) {
+      return { membershipRole: role };
+    }
+
+    const existingTeam = await this.teamRepository
+      .createQueryBuilder('team')
+      .where('team.organizationId = :organizationId', { organizationId: context.organizationId })
+      .andWhere('LOWER(team.name) = LOWER(:displayName)', { displayName })
+      .getOne();
+
+    if (existingTeam) {
+      return { teamId: existingTeam.id };
+    }
+
+    const team = await this.teamRepository.save(
+      this.teamRepository.create({
+        organizationId: context.organizationId,
+        name: displayName,
+        description: 'Provisioned via SCIM',
+        settings: {},
+        metrics: {},
+        status: 'active',
+      }),
+    );
+
+    return { teamId: team.id };
+  }
+
+  private captureState(group: ScimGroup): GroupState {
+    return {
+      membershipRole: group.membershipRole,
+      teamId: group.teamId,
+      memberIds: [...group.memberIds],
+    };
+  }
+
+  /**
+   * Bring team members and membership roles in line with a group change.
+   * Runs after the group is saved, so roles are computed from the new state
+   */
+  private async applyMembershipEffects(
+    context: ScimRequestContext,
+    before: GroupState | null,
+    after: GroupState | null,
+  ): Promise<void> {
+    const sameTeam = before?.teamId && before.teamId === after?.teamId;
+
+    if (before?.teamId) {
+      const leaving = before.memberIds.filter(
+        memberId => !(sameTeam && after.memberIds.includes(memberId)),
+      );
+      if (leaving.length) {
+        await this.teamMemberRepository.delete({ teamId: before.teamId, userId: In(leaving) });
+      }
+    }
+
+    if (after?.teamId) {
+      const joining = after.memberIds.filter(
+        memberId => !(sameTeam && before.memberIds.includes(memberId)),
+      );
+      await this.addTeamMembers(after.teamId, joining);
+    }
+
+    const sameRole = before?.membershipRole && before.membershipRole === after?.membershipRole;
+    const beforeIds = before?.membershipRole ? before.memberIds : [];
+    const afterIds = after?.membershipRole ? after.memberIds : [];
+    const affected = sameRole
+      ? [
+          ...beforeIds.filter(memberId => !afterIds.includes(memberId)),
+          ...afterIds.filter(memberId => !beforeIds.includes(memberId)),
+        ]
+      : [...new Set([...beforeIds, ...afterIds])];
+
+    for (const userId of affected) {
+      await this.syncMembershipRole(context, userId);
+    }
+  }
+
+  private async addTeamMembers(teamId: string, userIds: string[]): Promise<void> {
+    if (!userIds.length) {
+      return;
+    }
+
+    const existing = await this.teamMemberRepository.find({
+      where: { teamId, userId: In(userIds) },
+    });
+    const newUserIds = userIds.filter(userId => !existing.some(member => member.userId === userId));
+
+    await this.teamMemberRepository.save(
+      newUserIds.map(userId =>
+        this.teamMemberRepository.create({
+          teamId,
+          userId,
+          role: TeamRole.MEMBER,
+          responsibilities: {},
+          performanceMetrics: TeamMember.getDefaultPerformanceMetrics(),
+          availability: TeamMember.getDefaultAvailability(),
+          feedback: [],
+          status: 'active',
+        }),
+      ),
+    );
+  }
+
+  /**
+   * The most privileged role among a member's role groups; owners are left alone
+   */
+  private async syncMembershipRole(context: ScimRequestContext, userId: string): Promise<void> {
+    const membership = await this.membershipRepository.findOne({
+      where: {
+        userId,
+        organizationId: context.organizationId,
+        status: Not(MembershipStatus.REMOVED),
+      },
+    });
+
+    if (!membership || membership.role === MembershipRole.OWNER) {
+      return;
+    }
+
+    const roles = (await this.findGroupsOfUsers(context.organizationId, [userId]))
+      .map(group => group.membershipRole)
+      .filter(Boolean);
+    const role =
+      MEMBERSHIP_ROLE_PRECEDENCE.find(candidate => roles.includes(candidate)) ||
+      DEFAULT_MEMBER_ROLE;
+
+    if (membership.role === role) {
+      return;
+    }
+
+    await this.membershipRepository.update(membership.id, { role });
+
+    this.eventEmitter.emit('member.updated', {
+      organizationId: context.organizationId,
+      userId,
+      updatedBy: context.actorId,
+      changes: { role, source: 'scim' },
+    });
+  }
+
+  private excludesMembers(query: ScimListQuery): boolean {
+    return (query.excludedAttributes || '')
+      .split(',')
+      .some(attribute => attribute.trim().toLowerCase() === 'members');
+  }
+
+  private toResource(
+    context: ScimRequestContext,
+    group: ScimGroup,
+    excludeMembers = false,
+  ): ScimGroupResource {
+    const location = `${context.baseUrl}/Groups/${group.id}`;
+
+    return {
+      schemas: [SCIM_GROUP_SCHEMA],
+      id: group.id,
+      ...(group.externalId && { externalId: group.externalId }),
+      displayName: group.displayName,
+      ...(!excludeMembers && {
+        members: group.memberIds.map(memberId => ({
+          value: memberId,
+          $ref: `${context.baseUrl}/Users/${memberId}`,
+        })),
+      }),
+      meta: {
+        resourceType: 'Group',
+        created: group.createdAt.toISOString(),
+        lastModified: group.updatedAt.toISOString(),
+        location,
+      },
+    };
+  }
+}
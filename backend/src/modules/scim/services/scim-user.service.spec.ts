@@ -0,0 +1,201 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { HttpStatus } from '@nestjs/common';
+import { ScimUserService } from './scim-user.service';
+import { ScimGroupService } from './scim-group.service';
+import { AdminService } from '../../admin/services/admin.service';
+import { ScimError } from '../scim-error';
+import { ScimRequestContext } from '../scim.types';
+import { Role, User, UserStatus } from '../../../database/entities/user.entity';
+import {
+  OrganizationMembership,
+  MembershipRole,
+  MembershipStatus,
+} from '../../../database/entities/organization-membership.entity';
+import { OrganizationSsoConnection } from '../../../database/entities/organization-sso-connection.entity';
+
+const USER_ID = 'a0b1c2d3-e4f5-4a6b-8c7d-9e0f1a2b3c4d';
+
+describe('ScimUserService', () => {
+  let service: ScimUserService;
+
+  const context: ScimRequestContext = {
+    organizationId: 'org-1',
+    actorId: 'admin-1',
+    apiKeyId: 'key-1',
+    baseUrl: 'https://api.example.com/scim/v2',
+  };
+
+  const verifiedDomainQuery = {
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    getCount: jest.fn(),
+  };
+
+  const mockUserRepository = {
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
+  const mockMembershipRepository = {
+    findOne: jest.fn(),
+    update: jest.fn(),
+    count: jest.fn().mockResolvedValue(0),
+    create: jest.fn(() => ({})),
+    save: jest.fn(membership => Promise.resolve(membership)),
+  };
+  const mockSsoConnectionRepository = {
+    createQueryBuilder: jest.fn(() => verifiedDomainQuery),
+  };
+  const mockScimGroupService = {
+    findGroupsOfUsers: jest.fn().mockResolvedValue([]),
+    removeUserFromGroups: jest.fn(),
+  };
+  const mockAdminService = { deactivateUser: jest.fn(), reactivateUser: jest.fn() };
+
+  const buildUser = (overrides: Partial<User> = {}): User =>
+    Object.assign(new User(), {
+      id: USER_ID,
+      email: 'ada@victim.com',
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      roles: Role.USER,
+      status: UserStatus.ACTIVE,
+      createdAt: new Date('2026-01-01'),
+      updatedAt: new Date('2026-01-01'),
+      ...overrides,
+    });
+
+  const buildMembership = (
+    user: User,
+    overrides: Partial<OrganizationMembership> = {},
+  ): OrganizationMembership =>
+    Object.assign(new OrganizationMembership(), {
+      id: 'membership-1',
+      userId: user.id,
+      user,
+      organizationId: context.organizationId,
+      role: MembershipRole.LEARNER,
+      status: MembershipStatus.ACTIVE,
+      managesAccount: false,
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScimUserService,
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        {
+          provide: getRepositoryToken(OrganizationMembership),
+          useValue: mockMembershipRepository,
+        },
+        {
+          provide: getRepositoryToken(OrganizationSsoConnection),
+          useValue: mockSsoConnectionRepository,
+        },
+        { provide: ScimGroupService, useValue: mockScimGroupService },
+        { provide: AdminService, useValue: mockAdminService },
+        { provide: EventEmitter2, useValue: { emit: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<ScimUserService>(ScimUserService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('refuses to link an existing account outside the verified domains', async () => {
+      mockUserRepository.findOne.mockResolvedValue(buildUser());
+      mockMembershipRepository.findOne.mockResolvedValue(null);
+      verifiedDomainQuery.getCount.mockResolvedValue(0);
+
+      await expect(service.create(context, { userName: 'ada@victim.com' })).rejects.toMatchObject({
+        scimType: 'uniqueness',
+      });
+      expect(mockMembershipRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('refuses to link platform admins even on a verified domain', async () => {
+      mockUserRepository.findOne.mockResolvedValue(buildUser({ roles: Role.SUPER_ADMIN }));
+      mockMembershipRepository.findOne.mockResolvedValue(null);
+      verifiedDomainQuery.getCount.mockResolvedValue(1);
+
+      await expect(service.create(context, { userName: 'ada@victim.com' })).rejects.toBeInstanceOf(
+        ScimError,
+      );
+    });
+
+    it('links an existing account on a verified domain', async () => {
+      const user = buildUser({ email: 'ada@acme.com' });
+      mockUserRepository.findOne.mockResolvedValue(user);
+      mockMembershipRepository.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValue(buildMembership(user));
+      verifiedDomainQuery.getCount.mockResolvedValue(1);
+
+      const resource = await service.create(context, { userName: 'ada@acme.com' });
+
+      expect(resource.userName).toBe('ada@acme.com');
+      expect(mockMembershipRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: USER_ID, managesAccount: false }),
+      );
+      expect(verifiedDomainQuery.andWhere).toHaveBeenCalledWith(
+        ':domain = ANY(connection.verifiedDomains)',
+        { domain: 'acme.com' },
+      );
+    });
+  });
+
+  describe('patch', () => {
+    it('rejects account changes for accounts the organization does not own', async () => {
+      mockMembershipRepository.findOne.mockResolvedValue(buildMembership(buildUser()));
+      verifiedDomainQuery.getCount.mockResolvedValue(0);
+
+      const error = await service
+        .patch(context, USER_ID, {
+          schemas: ['urn:ietf:params:scim:api:messages:2.0:PatchOp'],
+          Operations: [{ op: 'replace', path: 'userName', value: 'attacker@evil.com' }],
+        })
+        .catch(caught => caught);
+
+      expect(error).toBeInstanceOf(ScimError);
+      expect(error.getStatus()).toBe(HttpStatus.BAD_REQUEST);
+      expect(error.scimType).toBe('mutability');
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('changes accounts created by the organization', async () => {
+      const user = buildUser();
+      mockMembershipRepository.findOne.mockResolvedValue(
+        buildMembership(user, { managesAccount: true }),
+      );
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      await service.patch(context, USER_ID, {
+        schemas: ['urn:ietf:params:scim:api:messages:2.0:PatchOp'],
+        Operations: [{ op: 'replace', path: 'name.givenName', value: 'Augusta' }],
+      });
+
+      expect(mockUserRepository.update).toHaveBeenCalledWith(USER_ID, { firstName: 'Augusta' });
+      expect(verifiedDomainQuery.getCount).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('only removes the membership of an account the organization does not own', async () => {
+      mockMembershipRepository.findOne.mockResolvedValue(buildMembership(buildUser()));
+      verifiedDomainQuery.getCount.mockResolvedValue(0);
+
+      await service.remove(context, USER_ID);
+
+      expect(mockMembershipRepository.update).toHaveBeenCalledWith('membership-1', {
+        status: MembershipStatus.REMOVED,
+      });
+      expect(mockAdminService.deactivateUser).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,552 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Not, Repository } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { isEmail, isUUID } from 'class-validator';
+import { Role, User, UserStatus } from '@database/entities/user.entity';
+import {
+  OrganizationMembership,
+  MembershipRole,
+  MembershipStatus,
+} from '@database/entities/organization-membership.entity';
+import { ScimGroup } from '@database/entities/scim-group.entity';
+import { OrganizationSsoConnection } from '@database/entities/organization-sso-connection.entity';
+import { AdminService } from '@modules/admin/services/admin.service';
+import { ScimGroupService } from './scim-group.service';
+import { ScimError } from '../scim-error';
+import { parseScimFilter, scimFilterToSql, ScimFilterColumn } from '../scim-filter';
+import {
+  SCIM_USER_SCHEMA,
+  ScimListQuery,
+  ScimListResponse,
+  ScimPatchOperation,
+  ScimPatchRequest,
+  ScimRequestContext,
+  ScimUserResource,
+  assertPatchRequest,
+  buildScimListResponse,
+  parseScimPagination,
+  toScimBoolean,
+} from '../scim.types';
+
+const DEPROVISION_REASON = 'Deprovisioned via SCIM';
+
+// Platform accounts no organization may take over through provisioning
+const PLATFORM_ADMIN_ROLES: string[] = [Role.ADMIN, Role.SUPER_ADMIN];
+
+const USER_FILTER_COLUMNS: Record<string, ScimFilterColumn> = {
+  id: { expression: 'CAST(user.id AS text)', type: 'string' },
+  userName: { expression: 'user.email', type: 'string' },
+  externalId: { expression: 'membership.externalId', type: 'string' },
+  'name.givenName': { expression: 'user.firstName', type: 'string' },
+  'name.familyName': { expression: 'user.lastName', type: 'string' },
+  emails: { expression: 'user.email', type: 'string' },
+  'emails.value': { expression: 'user.email', type: 'string' },
+  active: {
+    expression: `user.status = '${UserStatus.ACTIVE}' AND membership.status = '${MembershipStatus.ACTIVE}'`,
+    type: 'boolean',
+  },
+  'meta.created': { expression: 'user.createdAt', type: 'date' },
+  'meta.lastModified': { expression: 'user.updatedAt', type: 'date' },
+};
+
+/**
+ * User attributes a SCIM request can change
+ */
+interface ScimUserChanges {
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  externalId?: string | null;
+  active?: boolean;
+}
+
+/**
+ * SCIM User Service
+ * Provisions users into the organization of the calling API key. Accounts
+ * are shared across organizations, so an organization only links or changes
+ * accounts it owns: ones its SCIM client created, or whose email is on one
+ * of its verified SSO domains. Deprovisioning deactivates the membership and
+ * only deactivates an owned account, through the admin deactivation path,
+ * when no other organization still uses it
+ */
+@Injectable()
+export class ScimUserService {
+  private readonly logger = new Logger(ScimUserService.name);
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(OrganizationMembership)
+    private readonly membershipRepository: Repository<OrganizationMembership>,
+    @InjectRepository(OrganizationSsoConnection)
+    private readonly ssoConnectionRepository: Repository<OrganizationSsoConnection>,
+    private readonly scimGroupService: ScimGroupService,
+    private readonly adminService: AdminService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  async list(
+    context: ScimRequestContext,
+    query: ScimListQuery,
+  ): Promise<ScimListResponse<ScimUserResource>> {
+    const pagination = parseScimPagination(query);
+    const queryBuilder = this.membershipRepository
+      .createQueryBuilder('membership')
+      .innerJoinAndSelect('membership.user', 'user')
+      .where('membership.organizationId = :organizationId', {
+        organizationId: context.organizationId,
+      })
+      .andWhere('membership.status != :removed', { removed: MembershipStatus.REMOVED });
+
+    if (query.filter) {
+      const condition = scimFilterToSql(parseScimFilter(query.filter), USER_FILTER_COLUMNS);
+      queryBuilder.andWhere(condition.where, condition.parameters);
+    }
+
+    const totalResults = await queryBuilder.getCount();
+    const memberships = pagination.count
+      ? await queryBuilder
+          .orderBy('user.createdAt', 'ASC')
+          .addOrderBy('user.id', 'ASC')
+          .skip(pagination.startIndex - 1)
+          .take(pagination.count)
+          .getMany()
+      : [];
+
+    const groups = await this.scimGroupService.findGroupsOfUsers(
+      context.organizationId,
+      memberships.map(membership => membership.userId),
+    );
+
+    return buildScimListResponse(
+      memberships.map(membership => this.toResource(context, membership, groups)),
+      totalResults,
+      pagination,
+    );
+  }
+
+  async get(context: ScimRequestContext, id: string): Promise<ScimUserResource> {
+    const membership = await this.findMembership(context, id);
+    return this.toResourceWithGroups(context, membership);
+  }
+
+  async create(
+    context: ScimRequestContext,
+    resource: Partial<ScimUserResource>,
+  ): Promise<ScimUserResource> {
+    const changes = this.fromResource(resource);
+    let user = await this.userRepository.findOne({ where: { email: changes.email } });
+    let membership: OrganizationMembership | null = null;
+    const createdAccount = !user;
+
+    if (user) {
+      membership = await this.membershipRepository.findOne({
+        where: { userId: user.id, organizationId: context.organizationId },
+      });
+
+      if (membership && membership.status !== MembershipStatus.REMOVED) {
+        throw ScimError.uniqueness(`User ${changes.email} is already provisioned`);
+      }
+
+      if (!(await this.ownsAccount(context, user, membership))) {
+        throw ScimError.uniqueness(
+          `userName ${changes.email} belongs to an account outside this organization's verified domains`,
+        );
+      }
+    } else {
+      user = await this.userRepository.save(
+        this.userRepository.create({
+          email: changes.email,
+          firstName: changes.firstName || changes.email.split('@')[0],
+          lastName: changes.lastName || '',
+          // The organization's identity provider vouches for the address
+          emailVerified: true,
+          status: UserStatus.ACTIVE,
+          roles: Role.USER as string,
+          organizationId: context.organizationId,
+          createdAt: new Date(),
+        }),
+      );
+
+      this.eventEmitter.emit('user.registered', {
+        userId: user.id,
+        email: user.email,
+        organizationId: context.organizationId,
+      });
+    }
+
+    // A previously removed member is provisioned again with a fresh membership
+    membership = await this.membershipRepository.save(
+      Object.assign(membership || this.membershipRepository.create(), {
+        userId: user.id,
+        organizationId: context.organizationId,
+        role: MembershipRole.LEARNER,
+        status: MembershipStatus.ACTIVE,
+        joinedAt: new Date(),
+        externalId: changes.externalId,
+        managesAccount: membership?.managesAccount || createdAccount,
+      }),
+    );
+
+    await this.setActive(context, user, membership, changes.active ?? true);
+    this.logger.log(`SCIM user provisioned: ${user.email} into ${context.organizationId}`);
+
+    return this.get(context, user.id);
+  }
+
+  async replace(
+    context: ScimRequestContext,
+    id: string,
+    resource: Partial<ScimUserResource>,
+  ): Promise<ScimUserResource> {
+    const membership = await this.findMembership(context, id);
+    const changes = this.fromResource(resource);
+
+    await this.applyChanges(context, membership, {
+      ...changes,
+      externalId: changes.externalId ?? null,
+      active: changes.active ?? true,
+    });
+
+    return this.get(context, id);
+  }
+
+  async patch(
+    context: ScimRequestContext,
+    id: string,
+    request: ScimPatchRequest,
+  ): Promise<ScimUserResource> {
+    const operations = assertPatchRequest(request);
+    const membership = await this.findMembership(context, id);
+
+    const changes: ScimUserChanges = {};
+    for (const operation of operations) {
+      Object.assign(changes, this.fromPatchOperation(operation));
+    }
+
+    await this.applyChanges(context, membership, changes);
+
+    return this.get(context, id);
+  }
+
+  /**
+   * Deprovision a user: the membership is removed and the user leaves all groups
+   */
+  async remove(context: ScimRequestContext, id: string): Promise<void> {
+    const membership = await this.findMembership(context, id);
+
+    await this.setActive(context, membership.user, membership, false);
+    await this.membershipRepository.update(membership.id, { status: MembershipStatus.REMOVED });
+    await this.scimGroupService.removeUserFromGroups(context, membership.userId);
+
+    this.eventEmitter.emit('member.removed', {
+      organizationId: context.organizationId,
+      userId: membership.userId,
+      removedBy: context.actorId,
+    });
+  }
+
+  // Private helper methods
+
+  private async findMembership(
+    context: ScimRequestContext,
+    userId: string,
+  ): Promise<OrganizationMembership> {
+    const membership = isUUID(userId)
+      ? await this.membershipRepository.findOne({
+          where: {
+            userId,
+            organizationId: context.organizationId,
+            status: Not(MembershipStatus.REMOVED),
+          },
+          relations: ['user'],
+        })
+      : null;
+
+    if (!membership?.user) {
+      throw ScimError.notFound('User', userId);
+    }
+
+    return membership;
+  }
+
+  private async applyChanges(
+    context: ScimRequestContext,
+    membership: OrganizationMembership,
+    changes: ScimUserChanges,
+  ): Promise<void> {
+    const user = membership.user;
+    const userChanges: Partial<User> = {};
+
+    if (changes.email && changes.email !== user.email) {
+      userChanges.email = changes.email;
+    }
+    if (changes.firstName !== undefined && changes.firstName !== user.firstName) {
+      userChanges.firstName = changes.firstName;
+    }
+    if (changes.lastName !== undefined && changes.lastName !== user.lastName) {
+      userChanges.lastName = changes.lastName;
+    }
+
+    if (Object.keys(userChanges).length) {
+      if (!(await this.ownsAccount(context, user, membership))) {
+        throw ScimError.mutability(
+          'The account is not managed by this organization; only membership attributes can change',
+        );
+      }
+
+      if (
+        userChanges.email &&
+        (await this.userRepository.findOne({ where: { email: userChanges.email } }))
+      ) {
+        throw ScimError.uniqueness(`userName ${userChanges.email} is already taken`);
+      }
+
+      await this.userRepository.update(user.id, userChanges);
+      Object.assign(user, userChanges);
+
+      this.eventEmitter.emit('user.updated', {
+        userId: user.id,
+        updatedBy: context.actorId,
+        organizationId: context.organizationId,
+        changes: { ...userChanges, source: 'scim' },
+      });
+    }
+
+    if (changes.externalId !== undefined && changes.externalId !== membership.externalId) {
+      await this.membershipRepository.update(membership.id, { externalId: changes.externalId });
+    }
+
+    if (changes.active !== undefined) {
+      await this.setActive(context, user, membership, changes.active);
+    }
+  }
+
+  /**
+   * Activate or deactivate a member. An owned account itself goes through the
+   * same admin path as POST admin/users/:id/(de|re)activate
+   */
+  private async setActive(
+    context: ScimRequestContext,
+    user: User,
+    membership: OrganizationMembership,
+    active: boolean,
+  ): Promise<void> {
+    const membershipStatus = active ? MembershipStatus.ACTIVE : MembershipStatus.INACTIVE;
+    if (membership.status !== membershipStatus) {
+      await this.membershipRepository.update(membership.id, { status: membershipStatus });
+      membership.status = membershipStatus;
+    }
+
+    if (!(await this.ownsAccount(context, user, membership))) {
+      return;
+    }
+
+    if (active && user.status === UserStatus.INACTIVE) {
+      await this.adminService.reactivateUser(user.id, context.actorId);
+      user.status = UserStatus.ACTIVE;
+      return;
+    }
+
+    if (!active && user.status === UserStatus.ACTIVE) {
+      const otherActiveMemberships = await this.membershipRepository.count({
+        where: {
+          userId: user.id,
+          organizationId: Not(context.organizationId),
+          status: MembershipStatus.ACTIVE,
+        },
+      });
+
+      if (!otherActiveMemberships) {
+        await this.adminService.deactivateUser(user.id, context.actorId, DEPROVISION_REASON);
+        user.status = UserStatus.INACTIVE;
+      }
+    }
+  }
+
+  /**
+   * Whether the organization may change the account itself: its SCIM client
+   * created it, or the email is on one of its verified SSO domains
+   */
+  private async ownsAccount(
+    context: ScimRequestContext,
+    user: User,
+    membership: OrganizationMembership | null,
+  ): Promise<boolean> {
+    if (PLATFORM_ADMIN_ROLES.includes(user.roles)) {
+      return false;
+    }
+
+    if (membership?.managesAccount) {
+      return true;
+    }
+
+    const domain = user.email.split('@').pop()?.toLowerCase();
+    return (
+      (await this.ssoConnectionRepository
+        .createQueryBuilder('connection')
+        .where('connection.organizationId = :organizationId', {
+          organizationId: context.organizationId,
+        })
+        .andWhere(':domain = ANY(connection.verifiedDomains)', { domain })
+        .getCount()) > 0
+    );
+  }
+
+  /**
+   * Read a full User resource from POST or PUT
+   */
+  private fromResource(resource: Partial<ScimUserResource>): ScimUserChanges & { email: string } {
+    if (!resource || typeof resource !== 'object') {
+      throw ScimError.invalidSyntax('Request body must be a User resource');
+    }
+
+    const email = this.readEmail(resource.userName, resource.emails);
+    if (!email) {
+      throw ScimError.invalidValue('userName or a primary email must be a valid email address');
+    }
+
+    return {
+      email,
+      firstName: resource.name?.givenName,
+      lastName: resource.name?.familyName,
+      externalId: resource.externalId,
+      active: resource.active === undefined ? undefined : toScimBoolean(resource.active),
+    };
+  }
+
+  /**
+   * Translate one PatchOp operation. Attributes this API does not store are ignored,
+   * since provisioning clients send their whole attribute mapping
+   */
+  private fromPatchOperation({ op, path, value }: ScimPatchOperation): ScimUserChanges {
+    if (!path) {
+      if (!value || typeof value !== 'object') {
+        throw ScimError.invalidSyntax('An operation without a path requires an object value');
+      }
+
+      const changes: ScimUserChanges = {};
+      for (const [key, nestedValue] of Object.entries(
+        this.flatten(value as Record<string, unknown>),
+      )) {
+        Object.assign(changes, this.fromPatchOperation({ op, path: key, value: nestedValue }));
+      }
+      return changes;
+    }
+
+    const attribute = path
+      .replace(/^urn:ietf:params:scim:schemas:core:2\.0:User:/i, '')
+      .toLowerCase();
+
+    switch (true) {
+      case attribute === 'active':
+        return op === 'remove' ? {} : { active: toScimBoolean(value) };
+      case attribute === 'username':
+      case /^emails(\[.*\])?(\.value)?$/.test(attribute): {
+        if (op === 'remove') {
+          return {};
+        }
+        const email =
+          attribute === 'username' ? this.readEmail(value) : this.readEmail(undefined, value);
+        if (!email) {
+          throw ScimError.invalidValue(`${path} must be a valid email address`);
+        }
+        return { email };
+      }
+      case attribute === 'externalid':
+        return { externalId: op === 'remove' ? null : String(value) };
+      case attribute === 'name.givenname':
+        return { firstName: op === 'remove' ? '' : String(value) };
+      case attribute === 'name.familyname':
+        return { lastName: op === 'remove' ? '' : String(value) };
+      case attribute === 'name' && !!value && typeof value === 'object':
+        return this.fromPatchOperation({ op, value: { name: value } });
+      default:
+        this.logger.debug(`Ignoring unsupported SCIM user attribute ${path}`);
+        return {};
+    }
+  }
+
+  private flatten(value: Record<string, unknown>, prefix = ''): Record<string, unknown> {
+    const flattened: Record<string, unknown> = {};
+
+    for (const [key, nestedValue] of Object.entries(value)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      if (key === 'name' && !prefix && nestedValue && typeof nestedValue === 'object') {
+        Object.assign(flattened, this.flatten(nestedValue as Record<string, unknown>, path));
+      } else {
+        flattened[path] = nestedValue;
+      }
+    }
+
+    return flattened;
+  }
+
+  /**
+   * The account email comes from userName, or else the primary email
+   */
+  private readEmail(userName: unknown, emails?: unknown): string | undefined {
+    if (typeof userName === 'string' && isEmail(userName.trim())) {
+      return userName.trim().toLowerCase();
+    }
+
+    if (typeof emails === 'string') {
+      return isEmail(emails.trim()) ? emails.trim().toLowerCase() : undefined;
+    }
+
+    if (Array.isArray(emails)) {
+      const primary =
+        emails.find(email => email?.primary === true || email?.primary === 'True') || emails[0];
+      return this.readEmail(primary?.value);
+    }
+
+    return undefined;
+  }
+
+  private async toResourceWithGroups(
+    context: ScimRequestContext,
+    membership: OrganizationMembership,
+  ): Promise<ScimUserResource> {
+    const groups = await this.scimGroupService.findGroupsOfUsers(context.organizationId, [
+      membership.userId,
+    ]);
+    return this.toResource(context, membership, groups);
+  }
+
+  private toResource(
+    context: ScimRequestContext,
+    membership: OrganizationMembership,
+    groups: ScimGroup[],
+  ): ScimUserResource {
+    const user = membership.user;
+
+    return {
+      schemas: [SCIM_USER_SCHEMA],
+      id: user.id,
+      ...(membership.externalId && { externalId: membership.externalId }),
+      userName: user.email,
+      name: {
+        givenName: user.firstName,
+        familyName: user.lastName,
+        formatted: user.fullName,
+      },
+      displayName: user.fullName,
+      emails: [{ value: user.email, type: 'work', primary: true }],
+      active: user.status === UserStatus.ACTIVE && membership.status === MembershipStatus.ACTIVE,
+      groups: groups
+        .filter(group => group.memberIds.includes(user.id))
+        .map(group => ({
+          value: group.id,
+          display: group.displayName,
+          $ref: `${context.baseUrl}/Groups/${group.id}`,
+        })),
+      meta: {
+        resourceType: 'User',
+        created: new Date(user.createdAt).toISOString(),
+        lastModified: new Date(user.updatedAt).toISOString(),
+        location: `${context.baseUrl}/Users/${user.id}`,
+      },
+    };
+  }
+}
@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiScope } from '../../../database/entities/api-key.entity';
+
+/**
+ * Scopes required by ApiKeyAuthGuard. Any one of the listed scopes is sufficient
+ */
+export const ApiScopes = (...scopes: ApiScope[]) => SetMetadata('api-scopes', scopes);
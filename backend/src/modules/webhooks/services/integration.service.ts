@@ -41,6 +41,39 @@ export interface OAuthConfig {
   tokenUrl: string;
 }
 
+export interface VideoMeetingInput {
+  topic: string;
+  startTime: Date | any;
+  duration: number;
+  agenda?: string;
+  settings?: any;
+}
+
+export interface VideoMeeting {
+  id: string;
+  joinUrl: string;
+  // Link that starts the meeting as host, where the provider has one
+  startUrl?: string;
+  password?: string;
+}
+
+export interface VideoMeetingRecording {
+  id: string;
+  downloadUrl: string;
+  mimeType: string;
+  // Headers the download request needs, e.g. the provider access token
+  headers?: Record<string, string>;
+}
+
+/**
+ * Video conferencing providers meetings can be scheduled through
+ */
+export const VIDEO_MEETING_PROVIDERS = [
+  IntegrationProvider.ZOOM,
+  IntegrationProvider.MICROSOFT_TEAMS,
+  IntegrationProvider.GOOGLE_MEET,
+];
+
 export interface SyncResult {
   success: boolean;
   recordsProcessed: number;
@@ -463,47 +496,63 @@ export class IntegrationService {
     return this.integrationRepository.save(integration);
   }
 
-  async createMeeting(
-    integrationId: string,
-    meetingData: {
-      topic: string;
-      startTime: Date | any;
-      duration: number;
-      agenda?: string;
-      settings?: any;
-    }
-  ): Promise<any> {
-    const integration = await this.getIntegrationById(integrationId);
+  async createMeeting(integrationId: string, meetingData: VideoMeetingInput): Promise<VideoMeeting> {
+    const meeting = await this.withVideoIntegration(integrationId, 'create_meeting', integration =>
+      this.createVideoMeeting(integration, meetingData),
+    );
 
-    if (integration.type !== IntegrationType.VIDEO_CONFERENCING) {
-      throw new ConflictException('Integration is not a video conferencing integration');
-    }
+    this.eventEmitter.emit('integration.meeting.created', {
+      integrationId,
+      meetingId: meeting.id,
+      topic: meetingData.topic,
+    });
 
-    if (!integration.hasValidCredentials) {
-      throw new ConflictException('Integration credentials are invalid or expired');
-    }
+    return meeting;
+  }
 
-    try {
-      const meeting = await this.createVideoMeeting(integration, meetingData);
+  async updateMeeting(
+    integrationId: string,
+    meetingId: string,
+    meetingData: VideoMeetingInput,
+  ): Promise<VideoMeeting> {
+    return this.withVideoIntegration(integrationId, 'update_meeting', integration =>
+      this.updateVideoMeeting(integration, meetingId, meetingData),
+    );
+  }
 
-      integration.recordUsage(true);
-      integration.addFeatureUsage('create_meeting');
-      await this.integrationRepository.save(integration);
+  async cancelMeeting(integrationId: string, meetingId: string): Promise<void> {
+    await this.withVideoIntegration(integrationId, 'cancel_meeting', integration =>
+      this.cancelVideoMeeting(integration, meetingId),
+    );
+  }
 
-      this.eventEmitter.emit('integration.meeting.created', {
-        integrationId: integration.id,
-        meetingId: meeting.id,
-        topic: meetingData.topic,
-      });
+  async listMeetingRecordings(integrationId: string, meetingId: string): Promise<VideoMeetingRecording[]> {
+    return this.withVideoIntegration(integrationId, 'list_recordings', integration =>
+      this.listVideoRecordings(integration, meetingId),
+    );
+  }
 
-      return meeting;
-    } catch (error) {
-      integration.recordUsage(false, undefined, error.message);
-      await this.integrationRepository.save(integration);
+  /**
+   * The organization's active video conferencing integration meetings can be
+   * scheduled through, if any
+   */
+  async findVideoConferencingIntegration(organizationId: string): Promise<Integration | null> {
+    const integrations = await this.integrationRepository.find({
+      where: {
+        organizationId,
+        type: IntegrationType.VIDEO_CONFERENCING,
+        status: IntegrationStatus.ACTIVE,
+      },
+      order: { createdAt: 'ASC' },
+    });
 
-      this.logger.error(`Meeting creation failed for integration ${integrationId}: ${error.message}`);
-      throw error;
-    }
+    return (
+      integrations.find(
+        integration =>
+          VIDEO_MEETING_PROVIDERS.includes(integration.provider) &&
+          (integration.hasValidCredentials || !!integration.credentials.refreshToken),
+      ) || null
+    );
   }
 
   // Social Login Integration Methods
@@ -688,14 +737,235 @@ export class IntegrationService {
     };
   }
 
-  private async createVideoMeeting(integration: Integration, meetingData: any): Promise<any> {
-    // This would implement actual video conferencing API calls based on the provider
-    // For now, return a mock meeting
+  private async withVideoIntegration<T>(
+    integrationId: string,
+    feature: string,
+    action: (integration: Integration) => Promise<T>,
+  ): Promise<T> {
+    let integration = await this.getIntegrationById(integrationId);
+
+    if (integration.type !== IntegrationType.VIDEO_CONFERENCING) {
+      throw new ConflictException('Integration is not a video conferencing integration');
+    }
+
+    if (integration.needsTokenRefresh) {
+      integration = await this.refreshOAuthToken(integrationId);
+    }
+
+    if (!integration.hasValidCredentials) {
+      throw new ConflictException('Integration credentials are invalid or expired');
+    }
+
+    const startedAt = Date.now();
+    try {
+      const result = await action(integration);
+
+      integration.recordUsage(true, Date.now() - startedAt);
+      integration.addFeatureUsage(feature);
+      await this.integrationRepository.save(integration);
+
+      return result;
+    } catch (error) {
+      integration.recordUsage(false, Date.now() - startedAt, error.message);
+      await this.integrationRepository.save(integration);
+
+      this.logger.error(`Video meeting ${feature} failed for integration ${integrationId}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  private async createVideoMeeting(integration: Integration, meetingData: VideoMeetingInput): Promise<VideoMeeting> {
+    switch (integration.provider) {
+      case IntegrationProvider.ZOOM: {
+        const meeting = await this.videoRequest<any>(
+          integration,
+          'POST',
+          '/users/me/meetings',
+          this.zoomMeetingBody(integration, meetingData),
+        );
+        return this.toZoomMeeting(meeting);
+      }
+      case IntegrationProvider.MICROSOFT_TEAMS: {
+        const meeting = await this.videoRequest<any>(
+          integration,
+          'POST',
+          '/me/onlineMeetings',
+          this.teamsMeetingBody(integration, meetingData),
+        );
+        return { id: meeting.id, joinUrl: meeting.joinWebUrl };
+      }
+      case IntegrationProvider.GOOGLE_MEET: {
+        // Meet spaces are not scheduled; the link works at any time
+        const space = await this.videoRequest<any>(integration, 'POST', '/spaces', {});
+        return { id: space.name, joinUrl: space.meetingUri };
+      }
+      default:
+        throw new ConflictException(`Meetings are not supported for ${integration.provider}`);
+    }
+  }
+
+  private async updateVideoMeeting(
+    integration: Integration,
+    meetingId: string,
+    meetingData: VideoMeetingInput,
+  ): Promise<VideoMeeting> {
+    switch (integration.provider) {
+      case IntegrationProvider.ZOOM: {
+        const path = `/meetings/${encodeURIComponent(meetingId)}`;
+        await this.videoRequest(integration, 'PATCH', path, this.zoomMeetingBody(integration, meetingData));
+        return this.toZoomMeeting(await this.videoRequest<any>(integration, 'GET', path));
+      }
+      case IntegrationProvider.MICROSOFT_TEAMS: {
+        const meeting = await this.videoRequest<any>(
+          integration,
+          'PATCH',
+          `/me/onlineMeetings/${encodeURIComponent(meetingId)}`,
+          this.teamsMeetingBody(integration, meetingData),
+        );
+        return { id: meeting.id, joinUrl: meeting.joinWebUrl };
+      }
+      case IntegrationProvider.GOOGLE_MEET: {
+        const space = await this.videoRequest<any>(integration, 'GET', `/${meetingId}`);
+        return { id: space.name, joinUrl: space.meetingUri };
+      }
+      default:
+        throw new ConflictException(`Meetings are not supported for ${integration.provider}`);
+    }
+  }
+
+  private async cancelVideoMeeting(integration: Integration, meetingId: string): Promise<void> {
+    switch (integration.provider) {
+      case IntegrationProvider.ZOOM:
+        await this.videoRequest(integration, 'DELETE', `/meetings/${encodeURIComponent(meetingId)}`);
+        return;
+      case IntegrationProvider.MICROSOFT_TEAMS:
+        await this.videoRequest(integration, 'DELETE', `/me/onlineMeetings/${encodeURIComponent(meetingId)}`);
+        return;
+      case IntegrationProvider.GOOGLE_MEET:
+        // Meet spaces cannot be deleted; an unused space simply expires
+        return;
+      default:
+        throw new ConflictException(`Meetings are not supported for ${integration.provider}`);
+    }
+  }
+
+  private async listVideoRecordings(integration: Integration, meetingId: string): Promise<VideoMeetingRecording[]> {
+    const headers = { Authorization: `Bearer ${integration.credentials.accessToken}` };
+
+    switch (integration.provider) {
+      case IntegrationProvider.ZOOM: {
+        const result = await this.videoRequest<any>(
+          integration,
+          'GET',
+          `/meetings/${encodeURIComponent(meetingId)}/recordings`,
+        );
+        return (result.recording_files || [])
+          .filter((file: any) => file.file_type === 'MP4' && file.status === 'completed')
+          .map((file: any) => ({ id: file.id, downloadUrl: file.download_url, mimeType: 'video/mp4', headers }));
+      }
+      case IntegrationProvider.MICROSOFT_TEAMS: {
+        const result = await this.videoRequest<any>(
+          integration,
+          'GET',
+          `/me/onlineMeetings/${encodeURIComponent(meetingId)}/recordings`,
+        );
+        return (result.value || []).map((recording: any) => ({
+          id: recording.id,
+          downloadUrl: recording.recordingContentUrl,
+          mimeType: 'video/mp4',
+          headers,
+        }));
+      }
+      case IntegrationProvider.GOOGLE_MEET: {
+        // Meet writes recordings to the organizer's Google Drive
+        const records = await this.videoRequest<any>(
+          integration,
+          'GET',
+          `/conferenceRecords?filter=${encodeURIComponent(`space.name="${meetingId}"`)}`,
+        );
+        const recordings: VideoMeetingRecording[] = [];
+        for (const record of records.conferenceRecords || []) {
+          const result = await this.videoRequest<any>(integration, 'GET', `/${record.name}/recordings`);
+          for (const recording of result.recordings || []) {
+            if (recording.state !== 'FILE_GENERATED' || !recording.driveDestination?.file) continue;
+            recordings.push({
+              id: recording.name,
+              downloadUrl: `https://www.googleapis.com/drive/v3/files/${recording.driveDestination.file}?alt=media`,
+              mimeType: 'video/mp4',
+              headers,
+            });
+          }
+        }
+        return recordings;
+      }
+      default:
+        return [];
+    }
+  }
+
+  private async videoRequest<T = unknown>(
+    integration: Integration,
+    method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+    path: string,
+    data?: Record<string, any>,
+  ): Promise<T> {
+    const defaultBaseUrls: Partial<Record<IntegrationProvider, string>> = {
+      [IntegrationProvider.ZOOM]: 'https://api.zoom.us/v2',
+      [IntegrationProvider.MICROSOFT_TEAMS]: 'https://graph.microsoft.com/v1.0',
+      [IntegrationProvider.GOOGLE_MEET]: 'https://meet.googleapis.com/v2',
+    };
+    const baseUrl = (integration.config.api?.baseUrl || defaultBaseUrls[integration.provider]).replace(/\/$/, '');
+
+    const response = await firstValueFrom(
+      this.httpService.request<T>({
+        method,
+        url: `${baseUrl}${path}`,
+        data,
+        headers: { Authorization: `Bearer ${integration.credentials.accessToken}` },
+        timeout: integration.config.api?.timeout,
+      }),
+    );
+
+    return response.data;
+  }
+
+  private zoomMeetingBody(integration: Integration, meetingData: VideoMeetingInput): Record<string, any> {
+    const defaults = integration.config.videoConferencing || {};
+    const settings = meetingData.settings || {};
+
+    return {
+      topic: meetingData.topic,
+      type: 2, // Scheduled meeting
+      start_time: new Date(meetingData.startTime).toISOString(),
+      duration: meetingData.duration,
+      timezone: 'UTC',
+      agenda: meetingData.agenda,
+      settings: {
+        waiting_room: settings.waitingRoom ?? defaults.waitingRoom ?? true,
+        join_before_host: false,
+        auto_recording: (settings.autoRecord ?? defaults.autoRecord) ? 'cloud' : 'none',
+      },
+    };
+  }
+
+  private toZoomMeeting(meeting: any): VideoMeeting {
+    return {
+      id: String(meeting.id),
+      joinUrl: meeting.join_url,
+      startUrl: meeting.start_url,
+      password: meeting.password,
+    };
+  }
+
+  private teamsMeetingBody(integration: Integration, meetingData: VideoMeetingInput): Record<string, any> {
+    const startTime = new Date(meetingData.startTime);
+    const settings = meetingData.settings || {};
+
     return {
-      id: 'mock-meeting-id',
-      joinUrl: 'https://example.com/join/mock-meeting',
-      startUrl: 'https://example.com/start/mock-meeting',
-      ...meetingData,
+      subject: meetingData.topic,
+      startDateTime: startTime.toISOString(),
+      endDateTime: new Date(startTime.getTime() + meetingData.duration * 60 * 1000).toISOString(),
+      recordAutomatically: settings.autoRecord ?? integration.config.videoConferencing?.autoRecord ?? false,
     };
   }
 